@@ -0,0 +1,91 @@
+// Abbreviations whose period does not end a sentence, lowercased and without
+// their final period.
+const abbreviations: string[] = [
+    "adm",
+    "approx",
+    "apr",
+    "assn",
+    "aug",
+    "ave",
+    "blvd",
+    "brig",
+    "capt",
+    "cdr",
+    "cf",
+    "cmdr",
+    "col",
+    "comdr",
+    "cpl",
+    "dec",
+    "dept",
+    "dist",
+    "dr",
+    "e.g",
+    "esp",
+    "feb",
+    "fri",
+    "ft",
+    "gen",
+    "gov",
+    "hon",
+    "hr",
+    "i.e",
+    "jan",
+    "jul",
+    "jun",
+    "lt",
+    "maj",
+    "messrs",
+    "mon",
+    "mr",
+    "mrs",
+    "ms",
+    "msgr",
+    "mt",
+    "nov",
+    "oct",
+    "prof",
+    "rep",
+    "rev",
+    "sen",
+    "sep",
+    "sept",
+    "sgt",
+    "sr",
+    "st",
+    "supt",
+    "thu",
+    "thurs",
+    "tue",
+    "tues",
+    "viz",
+    "vs",
+]
+export default abbreviations;
+
+// Abbreviations that may also end a sentence: their period ends one when the
+// next word is capitalized.
+export const finalAbbreviations: string[] = [
+    "a.m",
+    "co",
+    "corp",
+    "etc",
+    "inc",
+    "jr",
+    "ltd",
+    "p.m",
+]
+
+// Abbreviations that only stand for themselves in front of a number, as in
+// "No. 5" or "Fig. 2".
+export const numberAbbreviations: string[] = [
+    "fig",
+    "figs",
+    "no",
+    "nos",
+    "op",
+    "p",
+    "pp",
+    "vol",
+    "vols",
+]
@@ -0,0 +1,22 @@
+// Syllable counts of English words from the CMU Pronouncing Dictionary
+// (Copyright (C) 1993-2015 Carnegie Mellon University, BSD-2-Clause), as
+// packaged by cmu-pronouncing-dictionary 3.0.0. Only the first pronunciation
+// of each word is used, and only words made of letters, with at most one
+// apostrophe.
+//
+// Words are grouped by syllable count, sorted and front coded: every word
+// starts with the number of leading characters (0 to 9) it shares with the
+// word before it, followed by the rest of the word.
+const pronunciations: Record<number, string> = {
+    1: '0a1\'s1argh2se1b2bs2e2t3s1ce3d2he4d4s2k2t3\'s3s1d2\'s2d3s2e3s2s3s2z1e2r3ts1ft1g2\'s2e3d1h2h2l3f2n2r2s1i2d3\'s3e4\'s4s3s2l3es3s2m3\'s3e4d3s2n\'t3e3ge2r3\'s3d3ed3s2s3le5s3t2thne2x1kc2e2st1l2\'s2e3s2f2l3\'s3es3s2m3s2ps2s2t1m2\'s2bs2e3s2p2s1n2d3s2e2g3e3st2kh2n3\'s3e4\'s2se2t3s1pe3s2p3s2t1r2b3s2c3e3h4ed3s2d2e3s2gh2k2lt2m3\'s3ed4s3s2n3dt3e3n3s4t3tz2p3s2se2t3\'s3h3s3z4t2ve2x2zt1s2ch4e2h3e2k3ed3s2p2s3ed2t1t2e3s2z1u2be2ch2d2e2ge3ht2l3d4s3l3t2ne3g4st3t4\'s4s2s3t2th2x1w2b2e3d1x2e3d2t1y2dt2e3r\'s3s2les2n3es2r3e4s2tes0b1\'rith2s1a\'ath2ab3ck3de3r4s3s4ch3tz2b3b4s3e4s3s2ch4e3k4\'s4e5d5s4s2d3e3ge2e3hr3k3r3tz2g3g4e5d4s3s2h3e3l4s3m3n3r4e3t2ig3l4e5d5s4s3m3n4\'s4e5s4s3r4d5\'s3sch4e3t4s3ze2k3e4d4s3ke3st2l3ch3d3e4s3fe3k4e5d4s3l4\'s4e5d5s4s3m4s3t\'s4es4z3z2m3e2n3\'s3c3d4\'s4s4t3e4s3ff3g4e5d4s3h3k4\'s4e5d5s4s3n4ed3que3s3tz2o2r3\'s3b4\'s4e5d4s3ch3d4\'s3e4d4s3f3g4e5d3k4e5d5s4s3n4dt4es4s3r4\'s4ed5s4s3s4ch4h4zcz3t4\'s4h5es4s5ch4z3z2sch3e4d3h4ed3k4ed4s3que6s3s4e3t4e2t3ch3e4s3h4e5d5s4ke4s3s3t4e4s3z2uch3d3gh5n3m3n3r3s4ch3tch4z2wd3l4ed4s2x3t2y3\'s3e4d4s3h3le5s3ne5s3s4e2z3e1e2\'s2a3ch5ed3d4s3hm3ird3k4s3l4e5s4l4s3m4\'s4ed4s3n4\'s4e4s3r4\'s4ce4d5s4e4s5e5s3s4t5s3t4s3u4ce4x2bb2c3ht3k4\'s4s2d3e3s2e3\'s3ch4k3de3f4ed4s3k4s3l3m3n4e4s3p4ed4s3r4\'s4s3s4e3t4s2g3g4ed4s3s3ue2hl4ke3m3n4e4ke3r4ns2ige3jer3l4ke3m3n4e3rne3t4z2l3\'c3ch5ed3k4e3l4\'s4e5s4m4s3s4he3t4\'s4h4s4z3z2m2n3\'s3ce4h3d4s4t3ge4t3ke3n4e3s4ch3t4e4z3z2rch3e4s3g4\'s4e4h4s3k4e5s3le5\'s5s4s3m4s3n4d5t4e4s4t3res3sch4t3t4ch4e4h5s4sch7e4z2s3ch3ke3s4e3t4\'s4e2t3\'s3h4\'s4ke3s4ch3t4s3z2u2v2y3l1hatt1i2b3b4s3s2c3e3k2d3\'s3e3s2ehl4n3l4ke3n3r4ce4s3s3tz3v4\'s2ff2g3gs3ht3s2hl3m3n2ke4d4s2l3d4t5\'s3e4s3k4ed3l4\'s4e5d5s4s3tz2n3d4s3es3g4e5d3k3n4s3s3tz3z2p2r3ch3d4\'s4s3es3ge3k4es4s3le3r3t4h5s2s3ch3e3h3que3s2t3ch3e4s3s3z2x2z1jerke2oern3rge4k4n1lab4bed3ck5\'s5ed5s3de5s3ese3gg3h3ich4n5e4r5\'s4s5e4ze3ke5\'s5s3me5d5s3n4c5h6e5k4d4e4k5e6d5s4n3re5d5s3s4chke4e4ke4s4t5s3tt4z3u4ch4er4m3y4des4ne4ze3ze5d2ea4ch6ed4k4m4u3ch5\'s4k3d3ed5s4p3hm3ich4l3nd5s3ss5ed4t3u3w3y2ick3gh5t3mp5s3nd5s4k5ed5s4n3p4s3sh4s3tch4he4z5ed3xt2oat5s3b4s3c4\'s4h5\'s4k5\'s5ed5s4s3em3g4s3hm3k4e5s3m4e3nd5e6\'s6s5s3od5\'s5s4m5\'s5ed5s4r3se4s3t4ch6ed4s3uch4gh4in4nt4se3w4e5d4n4s3yd2ue4\'s4d4s4tt3ff5ed5s3hm3itt3m4e3nck4k4t5s3r4b5s4red4s4t5s3sh5ed4t3th2y3e3th5e1o2ak4e3l4s3n3r4d5\'s5s4t3se4t5s3t4\'s4s2b3\'s3b3e3st2ch4e3k2de4s2e3ck3ge3h4l5ke4m5e4ne5ke3ke3n3r4s3s4ch4e3ve2ff2g3e3ged4s3s3ue2hl4ke3m3n4e3r2ice3es3k4e3l4ed4s3nk3s2k2l3ch3d4s4t3e4s3f3l4e5s4s3t4e4s4z3z2m3b4\'s4ed4s2n3d4\'s4e4s4t3e4d4s4t3g3k3n4\'s4e5s3s3te2o3b4s3ck3ed3k4\'s4ed4s3le3m4\'s4ed4s3n4e4s3p3r4d4s4tz3s4e4t5s3t4e4h5e5s4s4z3z4e2p3p2rck3des3e4d4s3g4e3k4\'s3n4\'s4e4s3re3s4ch6t4e4t3t4h4z2s3ch3e3h3s4e5d3t2t3ch5ed3h4e3s3t4s3z2uch5e4k3gh5s5t3le3nce6d4d5s3r4g4ke4n5e4que4se3se3t4s4te2ve2w3e4d4s3l4ds4ed5s4s3n4ds4e3s4e5d2x3ed3x2y3\'s3ce3d4\'s4e3e4s3le5s4ls3ne3s3t4e3z2ze1ra3asch4tz3c4e5d4h5t4k3d4\'s4t3e4r3ff3g4g5ed5s4s3hm5s3id5s4lle7s4n5\'s5ed5s4se6d3ke5d5s4ke3m4e4s3n4ch6e7d4d5\'s5e6s5s5t4k5\'s5s4n4t4z3que3s4ch4e4h4s3t4s5ch4t4z3u4ch4d5e4lt4n5\'s5d5e5s4se3ve5d5s3wl5s4n3y3z2ea4ch6ed4d5s5th4k5s4m4n4st6s4th6e7d7s6s4u5lt5x3cht4k3d4e3e4ce5h4d5\'s5s4n4s5e4ze6d3ge3hm3isch4t3kke3m4s3n4es4n4t5s3ss5e4t3t4h4t5s4z3w4ed4s3y2ibe5d5s3c4e4k5s3de5\'s5s4ge6d3e4f5ed5s4l4re4se3g4gs4ht6\'s3les4l5\'s3m4m5ed3n4e5s4g5s4k5\'s5s4n3sk3t4e4s5ch4t5s4z3x2o3\'s3ach6ed4d5\'s3bst3c4e4k5\'s3d4e4t3e3ich4l5ed4n3k4e3m4m3nc4k4n4s4x4ze6d3och4d4k5\'s5e6\'s6s5s4m5e5s3sch4e4h4s4t4z3th5s4t3ugh6t4n4se3w4e5d4n5\'s5e6d5s4s5e6d3x3y4les3z2uce4h4k5\'s5s3e4ck4hl4n3ff3gh3hl4n3ise6d3le3m4m3n4ch4e4k5e4n4s4t5z3s4e4h5ed4ke4que4s4t3t4e3un2yce3e3k3n4e3s1ub3b2c3h4e4s3k4\'s4ed4s3s2d3\'s3d4e3ge5d3s3z2e3che3ge3hl3l3rge2fe3f4\'s4s2g3g4e5d4s3h3s2hl3r2i3ce3ld5s4t3s2lb4s3ge5d3k3l4\'s4s3t2m3med3p4ed4s3s2n3ce4h5e6d3d4e4s3g4e3k4e4s3n3s3t4\'s4e4z2ol2pp2r3ch4k3d4ge3es3g4e5s3k4e5\'s5s4s3l3n4e5d5s4s5ed4t3p3r4es3sch4e4t5s3t4ch4s4t2s3ch5e3e4d3h3k4e3s4e5d3t4s2t3\'s3ch3e3h3s4ch3t4e4s3z2us2y3\'s3s4se2zz4e5d1y2ard2e2les2nes2rd4\'s3ge3n4e5\'s5s4s2te4s2un0c1\'est2s1a2an2b3\'s3e3s2c3\'s3he5d2d3e3ge3s2en4\'s2ge4d2hn2i3l3n4\'s4e5s3re4n5es5s3sse2ke4\'s4d4s2l3e4s3f4\'s4ed3k3l4\'s4e5d5s4s3m4ed4s3ves2m3\'s3e3m3p4\'s4ed4s3s2n3\'s4t3e4d4s3n4ed5s3s3t2o2p3\'s3e4d4s3p4ed4s3s2q3\'s2r3\'s3b4s3d4\'s4s3e4\'s4d4s3l4\'s4es4l4s3n4e5s4s3p3r4\'s4e3s4e3t4e4s3ve5d5s2s3e3h4ed3k4s3s3t4e5s4s2t3\'s3ch3e4s3s3t2u3ght3l4k3se5d2ve4\'s4d4s2w2y3ce3es3ne1ease5d2ce3h2de4s2es2l3e3l4\'s4ed4s3s3t4s2mp2nt4s2p2rf3n3t1ha3ce3d4\'s4d3e3fe5d5s4f3i4n5\'s5ed5s4r5ed6s5s4se4t3lk5ed5s3m4p5s3n4\'s4ce6d4d4g5e6d4t5s3o3p4p4s3r4d4ge6d4le6s5s4m5ed5s4red4t5s3s4e5d4se4te3t4s4z3u4nce4s5se3ves3w3z4z2e3\'s3a4ne6\'s4p4t5s3ck5ed5s3e4ch4k5ed5s4r5ed5s4se3f4\'s4s3il3k3lf4l3m3n4\'s4g3que6s3r4n5e4t5s3s4s4t5s3t3ung4se3ves3w4ed4s3yne3z2i3\'s3ang6\'s3c4k5\'s5ed5s3de5s3ef5\'s5s4n3ld5\'s5e5s4es4l5ed5s3me5d5s4p5s3n4g4h4k5s4n5\'s3p4\'s4ped5s4s3rp5s3t4s3u3ves2o3at5e3ck3e3i4ce4rs3k4e5d5s3mp3n4g3o4k4n5g4se3p4p5ed4s3rd5s4e5s3se3u3w4s3y4ce2rest3is5p5s5t6\'s3ome3yst2seing2u3ang3bb5\'s3ck5\'s5ed3g4ged3l3m4p4s3n4\'s4g5\'s4k5s4n3pp3rch4n5ed5s3se4tz3te5s1ian3o2d2e3l2nch5ed3q4ue2rque2st2te4s1laar3ck3d3es4ys3gg4ue3im5ed5s4r5e6\'s3m4med4p5ed5s4s3n4g4k4s3p4p5ed4s3r4e4k5\'s5e6\'s5s3sh5ed4p5ed4s5ed3ud5e4nch4s5e5s3w4ed4s3y4s2ean5ed5s6e7d4r5ed5s4t5s4ve6s3ek4re4se3f4t3gg3ll3m3nch6ed3rc5q4k5\'s5s3ve3ws2ick5ed5s3ett3f4f5\'s5e5s4t3m4b5ed5s4es3nch6ed4e5s4g5s4k4t3p4ped4s3que6s3tes3ve2oak5ed3ck5\'s5ed5s3e3g4ged4s3ke3nch4e5d5s4ts5z3re5\'s3s4e5d4s3t4h5e6d6s5s4s4t3ud5s4gh4se4t3ve5s3w4es4n5s3y4d2ub4\'s4b5ed4s3ck5s3e4d4s3ff3j3m4p5s3ne4g4k5s3tch6ed4e4ts2yde3ne3te3ve1o2ach5ed3d3l4\'s4e4s3n3r4se3st5\'s5s3t4\'s4s3x4ed2b3b4s3e3s2ck4e5d4s2d3d3e4\'s4s2e3ur2g2hn3r4s2if4fe6d3l4e5d4s3n4\'s4ed4s3t2ke4\'s4s2ld4s3e4\'s4s3l4e3m3t4\'s4s2m3\'s3b4e5d5s4s3e4s3m3p3s2n3ch3de3e4\'s4s3g3k3n4ed3s3te2o3ed3k4\'s4e5d4s3l4e5d4s3mbe6s5s4es3n4ce4e5s4s4tz3p4ed3rs3s3t4e4s2p3e4d4s3p4ed4s3s2r3d4es4s4ts3e4s3k4s3l3m3n4e4s3p4\'s4s5e3r3se3t4e2s3e3me3s3t4e4s2t3e4s3s3t2u3ch5ed3gh5ed5s3ld4l3nce4t5s3p4e5s4s3r4se4t5\'s5s3se3ts4ts2ve4s2w3\'s3ed3l3s2x3e2y3e3le3m3ne2z1rab4b5e6d5s4s3ce4k5ed5s3ft5\'s5s3g4g5s4s3ib4g5\'s4l4n5\'s5e3ll3m4es4med4p5ed5s4s3nce4e5\'s5d5s4k5ed5s4s3p4ps4s3se4h5ed4s3te5s3ugh4n3ve5d5s3w4l5ed5s3y4\'s4ne4s3ze5d2ea4ch4gh4k5ed4l4m5ed5s4n4r4se4th3che3e4ch4d5s4k5\'s5s4l4p5s4r4s3f4\'s3gg3me3pe5s4s4t3que3ss4t5s3te3w4\'s4e5s4s2ib4b5s4s3ck3ed4s3ll3m4e5\'s5s4m4p5ed5s3nge6d3p4e4ps4s3s4e4p5s4s4t3tes4z2o3ak3c4k3ff4t5s3ix5\'s3ke3ll3m3n4ce4e4k3ok5e5s4m5s4n5s3p4\'s4p5ed4s3s4e4s5e6d3tch4ts3uch6ed4gh4nse4p4se4t3w4\'s4d5\'s5s4e5d4l5e4n5\'s5e6d5s4s3y4le2uce3d4e5\'s5s3ise6d3ll3m4b5s4e4m4p3nch6ed4k3se4h5ed4t5s3tch4e3x3z4e2y3e3mes3pt5s1sar1t1ub3e4d4s3s2dd3e2e3d3s2ff4e5d4s2l3l4ed3p3t4\'s4s2m2nt2ong2p3\'s3p4s3s2r3b4ed4s3d4s3e4d4s3l4ed4s3se5d3t4\'s4s3ve5d5s2s3h3k3p3s4ed2t3e3s3ts1wik1y2b2d2nth2r2st4s1zar4\'s4s2ech5s2yz0d1\'oeuvre8s3r2s1a2ane3s2b3bs2c3e3k3s2d3\'s3e3s2e2ft2g3g4s3ue2h3l4\'s4ke3m4s3n4ke2i3l4e3n4es4s3s4e2k3e2l3e4\'s4s3ke3l3pe2m3\'s3e4\'s4s3m4e5d3n4ed4s3p4ed4s3s2n3\'s3ce5d3e4\'s4s3g3k4s3n3ske3t3z2o3ud4st2pp2r3e4d4s3k4e3n4ed4s3r3st3t4\'s4h4s4t2s3ch3e3h4ed3s2t3e4\'s4s3s3z2u3b4e5d3ch3l4t3m3n4t3s2ve4\'s4s2w3e4s3n4\'s4ed4s3s2x2y3\'s3e3le3ne3s2ze4d3s1e2a3d3f3hl3k4\'s3l4\'s4e4s4t3m3n4\'s4e4s3r4th3s4e3th5\'s5s4s2b3es3s3t4\'s4s2c3\'s3h3k4ed4s2de2e3\'s3b3d4s3g3l3m4ed4s3n3p3r4e5\'s3s4e3t4s4z2ft2hm3n4e2ign5ed5s3hl3ke3nes3s4s3tch4sch4z2l3fs4t3k3l4\'s4e3p4h3re3ve5d5s2mme3ps2n3es3g4\'s4ue3k3n4e3s4ch4e3t4s3z2p3p4e3th5s2r3k4s3n3r3sch2s3ch3k4s3t2uce3ss3tch4sch7e4z3x2v2w3s2x2y1hein2ole3ndt3ws1i2\'s2bb3s2c3e4d3k4\'s4e5s4s2d2e3ck3d4e3hl4m3l3m3nst3p3rcks4kes5s3s3tsch7e4z2f3f3m2g3ges4s3s2ke4s2les3g3ks3l4e4s3s3ts4z2m3e4\'s4s3med3s2n3e4d4s3g4s3h3k3se3t2p3ped3s2rcks3e3ge3k4es4s5e3r3t4\'s2s3c4h4s3e3h4ed3k4s3que3s2tch5ed3h2ve4d4s2x1o2\'s2ak3n4\'s4e4h3r2b3b4s2c3k4\'s4ed4s3s2dd4\'s4s3ge5d2e3\'s3ge3ll3pke3r4r3s3tsch2ff4s2g3\'s3e3ged3s2h3m4e3n3r3se2i3dge3g2ke2l3ch3d3e4\'s4d4s3f3l4\'s4e5d4s3ph3s2m3e4\'s4d4s3ke2n3\'s4t5s3de3e4s3g3n4e5d3s3ze2o3m4ed4s3r4\'s4n4s3se2pe4d3p2rch3e3f4f3m4s3n3r3sch4t3t4ch2s3ch3e3h3s3t2t3e3h3s3t4s2ub4t5s3che3d4s3g4\'s4h3pe3se5d3tt3we2v3e4s2w3\'s3d4s3e4r5s3n4\'s4e5d5s4s3se2yle5\'s2ze4d1r2ab4bed4s3ce4h3ft5\'s5s3g4e4ged4s3in5e6d5s3ke5s3lle3m4s3ne4g4k3pe5d5s3ughn6t7s4s3ves3w4er6s4l5ed5s4n4s3y2ead5s4m5ed5s5t3d4d4ge6d3es5e3gs3her3is3nch6ed4th3sch4s5ed3w4es4s3y2ibbed4s3ed4s3ft5s3ggs3ll5ed5s3ng4k5s3p4ped5s4s3ve5\'s5s2oege3ge4ue3id5s3ke3ll3ne5d5s3ol5ed4p5ed3p4ped4s3ss4t5e3ught7\'s7s4in3ve5s3wn5ed5s3z4d2u3b4bed3ce4k3dge3g4\'s4ged4s3m4m5ed4s3nk5s3pe5s3se3ze2y3e1u2an4e2b3bed4s3e3s2c3e3h3k4\'s4ed4s3t4s2d3d3e4s3s2e3ll3rr4st3s2ff2g2h3e3r2k3e4\'s4d4s2lce3e3l4e5d2m3b3m3p4ed4s2n3\'s3c3e4s3g3k4ed4s3n4e5d3s4t2pe4d4s2que2rch3n3r3st2sch3h3k3t4s2tch3t2ve2we2x1wan3rf5ed5s4ves3yne2eck3eb3ll5e6d5s4t2ight3re1yce3he3k2e3d3s2k3e4s2nes1zik0e1\'s1ach2de4s3s2kes2les2mes2nes2r3ed3l4\'s4e5s4l4s3n4ed4s3p3s3th5\'s5s2se4d3h3t4\'s4es2t3s2u3x2ve4s1b2b3s1ck3es1d2\'s2ds2e3s2ge4d1e2g2l3s1ge2g3e4d3s1h2le3ke2rke1ich3k2d3e2ght5\'s5h6s5s2ke2lts2n2r2s1k2e3d1l2be2f3\'s2g2k3es3s2l3e3s2m3es3s2s3e2ves1m2ch2de2ge2me2pt4s1n2ck2d3e3s2g3e3h2ke2nes3s2sz2t3z2z1pes2p3es3s1r2b3e4s2ck2e2k2l2ne3st2ps2r3ed3s2s2te3z1s2ch4e2h2me2pe2que2s3e2t1t2ch4ed1ure1v2e3s1we3s1x1yde2e3\'s3d3s2re0f1\'d2s1aal4\'s3s2b2c3e4d3t4s2d3e4s3s2e3th2g3g3s2hd3l3r3s2il4e5d4s3n4t3r4\'s4e5s4s3t4h5s2ke4d4s2lb3ck3es3k4e3l4\'s4s3se2me4d2n3\'s3e3g4s3n4ed3s3t2o2r3\'s3b3ce3e4d4s3ge3m4\'s4ed4s3nes3r3t3ve2ss3t4s2t3e4s3h3s2ughn5t6\'s3l4ds4k5s4l4t5s3nce3re3s4s4t3th3x2ve2w3kes3n2x3ed2y3\'s3e4\'s4d5\'s3me3ne2z3e4d1e2\'s2ar4ed4n4s3st5s3t4s2cht3k2d3\'s3e3s2e3d4s3l4s3s4e3t2hl3n3r2ick3g4e4ht4n5ed3l4d3n4\'s4t3s4t3t4h5\'s4z2l3ch3d4e4t3l4ed4s3ps3s4ke3t4es4s4z2mme2n3ce5d3d4s4t3g3n3ske3t2r3ch3d3g3m3n4s3re2ss4ed3t4s2tch5ed3e3sch3t4e5s3z2ucht3d4s3r3tz2w2y3en2z1i2b2ck4e5s2de4s2e3f4s3l4d5\'s5s3nd5s4e3r4ce4s5t2fe3th5s2g3g4e4s3ht5\'s5s3s2ke4s2l3ch5ed3des3e4d4s3l4ed4s3m4\'s4ed4s3th2n3ch4k5e3d4s3e4d4s3k4\'s4e4s3n4\'s4e4s3s2pps2r3m4\'s4ed4s3s4t5\'s5s3th2s3c4h3h4ed3k4\'s4e5\'s3s3t4s2t3ch3e4s3he3s3t4s3z2ve4\'s4s2x3ed2zz1jeld2ord5s1lab3ch4k3d3g4g5ed4s3ig4l4m4r3k4e5s3m4e5d5s4m3n4ge4k5ed5s4n3p4ped4s3re5d5s3sch4h5ed4k5s3t4h4s4t3ugh4m4nt6s3w4ed4n4s3x3y4ed2ea4s3ck5s3d4ge6d3e4ce6d4k4r4s4t5\'s5s3ig4sch5s3sch4h5ed3tt3ur3w3x4ed2ick5s3ed4s3ght6\'s6s3m3nch6ed4g5s4k4n4t5\'s5s3p4ped4s3rt5s3s4s3t2o3at5s3c4k5ed5s3e3g3hr3m3od5s4k4r5ed5s3p4ped4s3r4e3ss3tt3unce4t5s3w4e5d4n4s3y4d2u3bs3ck3d4d3e4gge4t3ff5ed5s3hr3ke5s3me5s3ng4k5ed5s3s4h5ed3te5s3x2y3e3nn4t3the1oal4e5\'s3m4s3rd2b3bs3es2cht2e3ll3rtsch3s2g3g4\'s3s3t2hl2ie3l4ed4s3st2lck3d4s3k4es4s3se3ts4z3z2nd3e4s3g3s3t4e4s3z2o3d4\'s4s3ks3l4\'s4ed4s3ng3r3s4e3t4e5\'s2p2r3bes3ce5d3d4\'s4e4s3e4t3ge5d4ue3k4ed4s3m4\'s4ed4s3nes3r3s4e4t3t4h4s2ss4e2th2uch5e3ght3l4ds4ed4k5e6s5s4s3nd3r4\'s4s4th6\'s6s3se4t3t4ch4s4z2wkes3l4kes2x3x2y3e3le3t1raas3ce3hm3il4m4n5e4re3kes3m4e5d5s3n4c5\'s5e5k6e5s4e4k5\'s5e6d5s4s4tz4z5e3p4h5\'s3sch4e3te5s4zke3u4d5s4ght4m3y4ed4n5e3ze2ead4k5ed5s4n4r5s4s5e3ch4k3d4\'s4a4e3e4d5\'s4h5\'s4l5s4n4s5e4t4ze3i4d4ght4je4n5d4re4s5e3l4s3md5\'s3nch4tz4z3re5s3se4h3t4s4t4z3ud5\'s4nd3w3y4\'s4ne4re2ick5e5s3dge3e4d5e5t4l4nd6\'s6s4s5e5s5z4ze3g4ht4s3is3l4l5s3nge4k3sch4k5e6d4t3tch4es4h4s5ch7e4ts4z5e5sche3x3zz2o3ck5s3edge4se3g4\'s4g5e4s3h4n3m4e4m5e3nd5e5s4k4t5\'s5s5z3sch4s4t5s3th5s3wn5ed5s3ze2ueh3ge3it5s3m4p3nze3sh3th2y3\'s3e1si1u2chs3k4\'s4ed4s2dge5d2er4st4th2ge3ue5s2hr3s2ke2ld3k4s3l4\'s3p3ts4z2me4d4s2n3ck3d4\'s4s3es3g4\'s3k4e4s3s2oss2r3r4\'s4h3s4e4t3th2se4d3s4ed3t2tch2zz1ye2fe3fe5s2ke2ock0g1\'s1a2al3r2b3e2ch2d3d3e3s2e3de3l3th4z2f3f4e5s2g3e3ged3s2hm3n3r2i3ge3l4\'s4e3n4ed5s4s3r3t2l3e4\'s4s3l4e5s4s3s3t2me4\'s4s3m3p2n3es3g4\'s4e4s3n3s4ke3t4t4z3z2o2p3\'s3e3p3s2r3b4e5d3d4e3e3g3l3ms3n4es3p4\'s4s3r3s4ke4t3th4zke2s3e3h4ed3p4ed4s3que3s4ed3t2t3ch3e4s3h3t3z4ke2u3b3ch5e3ge5d4h3l4ke4le4s4t3nce4t5t3s4e4s3t3ze2ve2w3k3ne2y3e3le5s3s2z3e4d1dansk1eac3n3r4\'s4ed4s2ck2d2e3\'s3k4s3r4des4ts3s4e3z4e2gg2hl3m3r4es4ke4t2ib3l3s4e4s4t3tz2l3b3l4es3s3tz2m3\'s3me3s2n3e4\'s4s3g3k3s4ke3t4\'s4s4z3z2off3rge2rd4es4ts3e3k3m4e4s3sch4h4t3t4h4sch4z2schke3ke3s3t2t3s3ts3z2urts1hee4n3nt3z2ose4h4t5s3ul5s2rist1ib3b4\'s4s3e4s2ck2de2eck3l3r4e4ke4sch3s4e4ke2ff3t4s2g3s2l3b3d3e4s3kes3l4\'s4e5s4s3t4s2n3es3g3n4ed3tz2pe3p2rd4s3e3l4\'s4s3t4h2sh3t2t2ve4s1jerde1laab3b3ce3d4d4e5s3hn3m3nce6d4d5s4tz4z3re5d5s3s4s5ed3tt4z3ub4de4s3we3ze5d2eam5ed5s4n5ed4ve6s3e3ich4m3mp3n4n5\'s4s3ss3w2ib3ck3de5s3mpse7d3nes4t3tch4z2o3am4t5s3b4e5\'s5s4s3ck3d3e4de3mb3om4r3p3r4e3ss5ed3ve5d5s3w4ed4s3yd2uck5\'s3e4ck4d4s3m3nt5z4z3t4h4s2ymph3n4n1mbh1nann3rl5e6d5s3sh3t4s3u3w4ed4s2eiss2ome5s2u1o2ad3l4s3n4s3r4d3t4\'s4s2b3s2cke2d3\'s3s2e3cke3dde4e3ke3lz3n4s3rke4tz3s3the4sch4te5sch4z5e2ff2gh4s2h3l4ke3n3r2in4es4s2ld4\'s4e4s3f4\'s4ed4s3l4e3tz3z2nce3d3e3g4s2o3ch3d4\'s4e4s3f4ed4s3ge3k3ld3n4s3p3s4e2re4\'s4d4s3ge3r3t2sch3e3h3s4e2t3ch3h3sch3t4s5ch3z2ude3ge5d4h3in3ld5\'s3rd5s3t2v3e3s2w3n4s2y3ne5s1rab4be6d4e4s3ce5d3d4e5s4s3ef5e5f4me4tz3f4e4f4t5s3ge4g3hams4l4n3il4n5ed5s3ll3m4es4m5\'s5s4s3n4d5\'s5e5s5t4ge4t5\'s5s5z4z3pe5s4h5s3s4p5ed5s4s5e6d3te5s4z3u4e4l4nke3ve5s3w4e3y4\'s4e4s3ze5d2ear4se6d4t5\'s5s4ve6s3b4e3ch3de3ece4d4k5s4n5\'s5e6\'s6d5s4r4t5s3fe4f3g4\'s4g5s3if5f4g4m4n5ke4s4tz4we3ll5e3n4z3sh4s3te4h4z3unke3ve3w4e3y4\'s2ice3d4\'s4s3eb4f4me4p4s5e5s4ve6d6s3ff3gg5s3ll5e6d5s3m4e5s4m5\'s5e3n4ch4d5e5s4e4g4ned4s3p4e5d5s4p5ed4s3se4t3t4es4s4z3z2o3an5ed5s4t3b4e3ce4h3de3en4p3ff4t3g4g3h4s3in5ed5s3ll3m4es3ne3om5e6d6s5s4s4t4ve6s3pe5d5s4p3s4ch4e4h4s5e6d4z3te4h5e4z3uch4lx4nd6s4p5\'s5e6d5s4se6d4t3ve5\'s5s3w4e4l5ed5s4n4s4th6\'s6s2ub4b5s4e4s3dge3e4n3ff3hlke4n3lke3m4p3n4d4ge4t5s3pe4p3sh4s1u2am4\'s3rd5\'s5s3sch3y2ck2de2e3l3rre3ss5ed4t5\'s5s3z2ff2hl2ice3de5\'s5s3ld5\'s5s4e5s4l4t3n4n3re3se2l3ch3f4\'s4s3l4\'s4s3p4ed4s2m3bs3m4ed3p4\'s4p3s3z2n3\'s3g3n4\'s4ed3s4t2rr3tz2s3e3h4ed3s3t4e4s2t3h3s3t2y3\'s3nes4n3s1way2en2in4n5\'s2ozdz2yn4n5e1yi2les2m3\'s3s2n2p3ped2r0h1a2ab3ck5e3f3g3k4e3n3r3s4e4s2bs2ch3k4e5d4s2d3d3e2en3se2ff3t4\'s4s2g3e3g4e3ue2h3l3m3n4e3s2id3g4\'s4h5t3k3l4e5d5s4s3m4es3n4es4s3r4\'s4e5d4r4s3t4h2jj2ke4s2l3\'s3d3e4\'s4s3f4\'s3l4\'s4e4s3m3t4s3ve5d5s2m3ed4s3m4e5s3p4e3s2n3\'s3ce3d4\'s4s3e4s3f4t3g4ed4s3k4\'s4e5s4s3n4es3s3tz2o2p3p4e2q3\'s3ue2r3b3c3d4s4t3e4\'s4s3ff3k4e4s3l3m4\'s4ed5s4s3n4e5d3p4e5d4s5t3r4e3sch4h3t4\'s4e4h4s4t4z3v4e2s3ch5ke3e3h4ed3ke3s4e3t4e3z2t3\'s3ch5ed3e4s3h3s3t3z2u3b3ch4k3f4f3g4e4h5n5t3k4e3l4ed4s3n4t5s3pt3s4ch4e4s3t4e4h2ve4s2w3e4s3k4e5\'s5d5s4s3n3s2y3e4s3les3mes3n4e5s3s4e2ze1e2\'d3ll3s2ad4\'s4s3l4d4ed4s4th6\'s3p4e5d4s3r4d4l4n5e5s4s5e5t6\'s4t5\'s5h6s5s3t4\'s4h5\'s4s3ve5d5s2bb3e2cht5\'s3k4\'s2dge5d2e3b3d4s3g3ke3l4ed4s3s4ch4e2ft2ge3g4e2h3l3n3r2ick3d4e4t3ght6h6s3l3m4s3n4e5s4ke4s4tz6e4z5e3r4s3se4s4t3t4z2jl2ld4s4t3f3ke3l4\'s4e3m4e5s4ke4s3p4ed4s3t2m3m4e5d3p3s2n3\'s3ce4h3es3g4st3k4e5s3n4e5s3s4ch4e3tz3ze2p3p4e2r3\'s3b4\'s4s5t3d4s4t3e4\'s3k3l3m4s3n4e3r4e3s4ch4h4t3t4z3ve3z2sch3s4e2th3t3z2un2w3e4s3n3s2x3t2y3d4e4t3e4n3l3n4e3s4e1i2bbs2ce3k4s2d3e4s2eb3ms3rs3tt2ggs3h4s4t2ke4d4s2lb3d4e3e4s3l4\'s4e4s3mes3t4s4z2m3e4s2nch4k3d4e5s4s3e4s3g4e5d4st3k3n3sch3t4s4z5e3z4e2p3p4e4s3s2rd3n3sch4h4t5\'s3t4h4z2s3e3s4ed2t3ch5ed3e4s3s3t3z2ve4s2x1jelm3rpe1lad1mong1nat1o2\'s2ag3k3ng3r4d5s4e4se3x2b3bs3s2c3h3k2dde3es3ge2e3chst7\'s4k3fs4t3g3hn5e3k3l4l5e3n3rr3s4ch2f3f2g3e3g4e3s4ed3ue2h3l4t3n2i3st5s3t2k3e2lck3d4e4s3e4d4s3l4e3m4e5s3st5e3t4\'s4e4s4z3z2m3e4\'s4d4s3me5s3s2n3e4d4s3g3k4s3n3s4e3tz2o3ch4k3d4s3f4ed4s3g4e3k4\'s4e5d4s3le3n3p4es4s3s4e3t4s3ves2p3e4\'s4d4s3f3ke3p4e5d5s4s3s2rch3d4e5s3n4\'s4e5d4s3r3s4ch4e5d4t2sch3e4d3s3t4\'s4s2t3e3h3s3t3z4e2u3ck3de3ff3g4e4h5s3k3le3nd5s3p4t3se5d4h3t4s4z3x3ze2vde3e2w3\'d4s3e4\'s4s3k3l4ed4s3se3ze2y3e3le3ne3t1ren2itz2on1sia4o3ung\'s2u1u2an4g3rd2b3bs3e3s2ch3k4e4s2d3\'s2e3bsch3d3rst3s3tt5e2ff4\'s4ed4s2g3e3g4ed3h4es4s3s2h3n2itt2lce3k4s3l4\'s4ed4s3me3s4e4t3t4\'s4s4z2m3e4s3m3p4ed4h3s2n3ch5ed3d4t3g3k4e4s3n3t4\'s4e4s2pe3p2r3d3l4ed3m3n3sh4t3t4s4t2se3h4ed3k4s3s3t2t3\'s3ch3h3s3t2we2x2yck3nh1wa3n4\'s4g2e1y2che2de4\'s2e2kes2le2mes3n4s2nd4s3es2pe4d4s2re1z0i1\'d2ll2m2s2ve1b1ce3d2h1d2e1erne1f2\'s2s1ge1hde2rke1ke3\'s1l2es2g2k2l3es3g3s2se1m2es2m2p1n2\'s2c3e3h4ed2g3e2k3s2n3\'s3s2s1re2k3ed3s2v3e1s2ch2e2h2le4s1t2\'s2ch2s1ves0j1\'s1a2an2b3bed3s2c3k4\'s4ed4s3que6s2de4s2e3\'s2gged3s3t2hn4ke4s3r2i3l4\'s4ed4s3n2ke4\'s4s2m3\'s3b3es3med3s2n3\'s3dt3e4\'s4s3g3k4e3n3s3tz3z2p3s2ques2r3es3red3s2s3s2uch3nt5s2w3ed3s2y3\'s3e3ne5s3s2zz4ed1e2an4\'s4e5s4ne4s2b2ch2d2e3p4\'s4s3r4ed4s3s3ves3z4e2ff4\'s4e4s2lks3l4ed2m3\'s2n3cks3ks3n4\'s4e3s3t4sch4z2ong2rde3k4ed4s3r2schke3ke3s3t4s2t3\'s3s3t4\'s4e2w3kes3s2x1fet1ha2eel1i2ang2b3e4s2e2f2g3s2l3es3l3t2m3\'s2n3es3g3k4s3x2ve1o2an2b3\'s3e4s3s4t2ck4s2e3\'s3ns3rg3s2ffe2g3ged3s2h3n4\'s4s2ice3e3n4ed5s4s4t5s3st5s2ke4d4s2les3t4s2n3\'s3e4s3g3n2o3n4g3s4t2pp2rde2s3h3s3t4es2t2ule5s3r3st2wl4s2y3\'s3ce3e3nes4t3s1u2an4g2bb2dd4s3e4\'s3ge5d2e3l3tt2g3e3s2hl3nke2ice2ke4s2le4s2mp4ed4s2n3dt3e4\'s4s3g4\'s4e3k4ed2re3s2s3t2t3e3s2ve1wan1ynx0k1\'s1a2as3tz2ch2de2el2ge2h3l4e3n4\'s4g3r4\'s4e4s2i3l3m3n4e4z2l3b3e3k3l3p3t4hoff2m3m3p4\'s4e4f4s2n3dt3e4\'s3g3n4e3t4z3z2o2pp4es3s2rch4z3g3l4\'s4s3n4es4s3p4f3r3sh4t3tes2sch3e3h3s3t2t3e4\'s4s3h3s3t3z2u3k3l3p4p3s4ch3th4z2y3\'s3e4s3ne3s1e2a3ch3l3n4\'s4e3r4n5s4se3s4t3th4s4ts2ck2ds2e3\'s3ch3f4e4fe3hn3l4e4s3n4e3p4s3s4e3tch4h2g3g3s2hl3m3n4e3r4es2il3m3r4n5s3th5\'s4t4z2kst2lch3l4s3m3p4s3sch3tz2m3p4\'s4e4f4ke2n3\'s3n3t4\'s2pp3t2r3b4s3ce3l3n4\'s4es4s3r3sch4h4t3th4z2ske3s2tch3t3z2une2w2y3\'s3e4d4s3nes3s1had3n4\'s3rg3t2e3el3m2mer2oo3st2uu1i2bbe2ck4ed4s2d3\'s3d4e3s2ef4t3hl4n5e3l4b3ne4tz3r4scht3s4s2ff2ght2hn2le3l4e5d4s3n4s3t4s2m3\'s3e4s3m3s2n3\'s3ch3d4s4t3es3g4\'s4s3ks3n4e3st3t4z2p3p4es2r3ch3k4\'s4s3n3sch4h4t3t4s2s3ch3e3h3s4ed3t2t3ch3e4s3s4ch3t4s3z1jar2ell2os1laas3hn4r3mm3n4\'s4g4n4s3pp3r4e3s4e4s3tt3us3y2ebe3ck3e4\'s4n4r4s3in5\'s5e4s5s5t3m4m5e4p4z3nge4k5e4sch3ppe3rk5\'s3sch4s3tt3ve3y2ich4k3eg3m3nck4dt4e4g5e4k5e4t3pp3sh3tz2oc4k5e3ehn3m4p3ntz3os3pf4p3s4e4s3th4z2u3ck3dt3g4e4h4t3mb4p5p3ndt4k3s3te4h4ts5z4z3x2ym1naack4k3b4b4e3ck5s3ggs3pe4ke4p5\'s3rr3ub4f5f4p4s5s3ve5s2ead4le3cht3e4ce4d4l4r4s3ip3ll4t3pp3rr3ss3w2ick5s3ef4p4s5s3fe5d3gge4ht6\'s6s3ll3pe4p3ss3t4s3ves2ob4be4s3ch5e4k5ed5s3de3ell3ff3ke3les4l5\'s3op3p4e4f4p3rr3st3t4h4s4t5\'s5s3uff4s5e3w4ed4les4n5s4s3x3y2upp3st3t4e4h4s1o2bes3s2ch3k2ehl4n5e3lle4sch3n3p4ke4p5e2ff2h3l4\'s4s3n4e4ke3r4s2ike2k3e4s2l3b4e3e3k3l4e3m3p3ts4z2mp2n3g4\'s3z2o3b3k4s3l3n4\'s4ce4e4s4ts5z3p4\'s4s3r4s3s2pe3f3ke3p4e5s3s2rb3f4f3n4s3t4e4h4z2s3ch3h3s3t2t3ch3e3h4e3t3z2ugh3ns4tz1raatz3bbe3ch5t4k5e3fft4t5\'s3ge4h4t3h4l4n3in3l4l3m4m5e6s4p5e3ne4s4tz4z3pf4p3s4s3t4t4z3uer4s5e5s6e5z4t5h4ze3y2ebbs4s3ch3ft3g3h4er3ig4n4s5s4tz3ll3n4ke4n4tz4z3pps4s3ss5e3tsch4z3ul4tz3y2ibs3ck3eg4nke4se4te3ll3m3ng5s4ke3s4ch4e4s4t3tz3z2ob3c4\'s4k3enke4s5e4ze3ft3g4h3h4n3k3l4l3m4e4m3n4k4tz3on3pf4p3ss3tz3use4t3we3y2uck3g4h3k3l4l3m4m5e3pp5\'s3s4chke4e3tz2ych1u2an2be2c3h3k2eck3hl4n5e2hl3n4e4ke4s3r4t2k2ll3p2me3m3p4f2n3ce3de3es3g3s4t3tz5e3z4e2rd4s3k3t4h4z3z2s3ch3e3h3ke3s2t3ch3sch3z2ze1vale3m3nt2etch1wai3k3n4g2ik2ok3n4g1yd3\'s2es2i2l3e4\'s4s2m2ne2o3ng3ung2te2u3ng0l1\'eggs2s1a2abs3ck3ke3s3tsch2b3\'s3be3e3s2c3\'s3e4d3h4e3k4ed4s2d3d4\'s3e3s2ff2g3e3ged3s3ue2hm3n3r2i3b3che3d3l3n4e3r4d3s3t2k3e4\'s4s2l3l2m3b4\'s4e4s3e3m4\'s4e3p4e4f4p4s2n3ce4z3d4\'s4e5s4s4t3e4\'s4s3g4e5\'s3k3n3t4z3z2o2p3e3p4e5d4s3s4e5d2r3ch3d3e3ge3k4e4s3ned3s4h2s3ch3e3h4ed3k4e3s3t4\'s4s2t3ch5ed3e3h4e5s3s4ch3z2u3b4e3ch4k3d4e4s3f3gh5ed5s3n4ch6ed3r4e3sch3t4h3x2ve2w3\'s3es3n4s3s4he2x2y3\'s3e3ne3s1b2s1e2a3ch5ed3d4s3f4ed4s3gue6\'s6s3k4e5d4s3l3n4ed4s3p4ed4s4t3r4\'s4d4n5ed5s5t3s4e5d4h5ed4k4t3th5\'s3ve5s2ch3k2d3ge2e3\'s3b3ce4h3d4s3k4s3n3p3s4e3t4ch4e4h2ff4\'s3t4\'s2g3\'s3e3g4e3s2h3l3n4e3r4ke2i3b3cht4k3f3gh5t3n4s3s4e4s3tch4e4h4z2k2m3bke3m3p4ke2n3d4s3e3g4th6s3k3s3t4s5ch4z5sch3z2ong2p3e3p2rch5e3sch2s3ch3h3ke3s3t2t3\'s3h3s4ch3t4s3z2u3\'s3ck3ng2v3e2w3d2x2y3h3s1i2\'s2an4\'s4g2b3bed2ce3h4t5e3k4ed4s2d3e3s2e3b4e3d3f3ge3m3n4s3s4ch4e3tz3u2fe4\'s4s3f4e5\'s3t4s2ght5\'s5s2ke4d4s2l3e4s3l4e3t2m3b4ed4s3e4s3n4ed3p4ed4s2n3c4e4h4k5s3d4e4h3e4\'s4d4s3g4g4s3h3k4\'s4e5d4s3n4e3s4e3t4z3z2p3e3ke3p4e5d4s3s2s3e3h3k4e3p3s3t4\'s4s3zt2t3e4s3he3s3t4s3z2u2v3e4d4s2z1lanes2oyd5\'s5s1n1o2\'s2ad4s3f4s3m3n4\'s4ed4s3r3th5e6d3ves2b3b4ed3e4d4s3s2ch3k4e5d4s2de4s3ge5d2e3b3hr3sch6e3ws2ft4\'s4s2g3e3ged3s3ue2h3n4es3r3se2in3re2k2l3l2mb2n3e4s3g4\'s4e5d4s3s2o3k4ed4s3m4ed4s3n4g4s3p4ed4s3s4e5d3t2p3e4s3p4ed2r3ch3d4\'s4s3e3ge3ne3tz2s3ch3e3h3s3t2t3\'s3h3s3t4\'s4e5s4s3z4e2u3\'s3che4k5s3d3gh3k4s3nge3p4e3que3r4des3se5d3t4h4s3w3x2ve4\'s4d4s2w3e4\'s4s3n3s2x2y3ce3d3e3nd1u2be4\'s3ke2c3e3ht3k4e5d4s2e3bbe4ke3cke3h4rs3lle3th2ff4ed3t2g3e3s2hn3r4s2ick3z2k3e4\'s4s3s2ll4ed4s2m3b3m3p4ed4p4s2n3ch5ed3d4e4t3g4e5d4s3n3t4z3z2o2pe2que2rch5ed3e4d4s3k4ed4s3z2sch3e3h3k3t2te4s3h3z4e2vs2x2z1win1xi1y2de2e2ke4s2le4\'s4s2me3ph2n3ch5ed3d4e4s3e4s3g3k3n4\'s4e3x2re2sne0m1\'bow2s1a2\'am2ack3g3hs3m3s4s2b3e2c3\'s3e3h4e4t3k4\'s4e4s3s2d3d3e3ge2e3\'s3rsk4tz4z3s4e2g3gs3s2h3er3l3n4ke3r4t2i3d4\'s4s3l4\'s4e5d4le4s3m4ed4s3n4e5\'s5s4s4z3r4e4s3s4ch3ze2j2k3e4s2l3\'s3e4\'s4s3l4\'s4e4s3m3t4s4z2m3e2n3\'s3ce3dt3e4d4s3g4e3k4e3n4\'s4e5d5s4s3s4ke3the4z3x3z2o3\'s2p3es3p4ed3s2r3c4h5e6d4ks3e4\'s4s3ge3je3k4\'s4e5d4s3que6s3r4ed4s3s4ch6ke4e4h3t4\'s4e4h5e4s4z3v3x3z2s3ch5ke3e3h4ed3k4e5d4s3s4e5d3t4s2t3ch5ed3e4s3h4e3s4ch3t4\'s4e5s4s3z2u3ch4k3d4e3k3l4e5d4l4t3nd4e4g3s4s4t3te4he4z3ve2v3e4s3s2w2x3ed3x2y3\'s3de3e4s3le3me3ne5s3r3s4e2z3e1c1e2a3d4\'s4e4s3gher3l4\'s4s3n4s4t3r4es4ns4s3se3t4h4s3ux3ve2ch4e3k4es2d3es2e3ce4h3hl3k4s3nts3rt3s4e3t4s4ze2g3gs2hl3r2i3n4e4ke4ts3r3s4ch4e4s3tz2l3\'s3d3e3l4e3t4s4z2me4s2n3\'s3ch3d4e3g4e3k4e5s3n4e3s4ch3te4z3z4e2r3c4\'s4e5d4k5\'s3e3ge5d3k4t3l4e3s4ch3tz3v3z2sch5ke3h4ed3ke3s4ed3t2t3\'s3e3h3s3te4s3z4e2use3th2w3es2x2y3n2z1hoon1i2b2c3e3h3k4e2d3ge3st2ele3n3s4se2ffed2g3ht3s2hm3n4\'s2ke4\'s4s3sch2l3ch3d3e4s3k4e5d4s3l4\'s4e5d4n4s3ne5s3s3t3z2m3bs3e3ms3s2n3c4e5d4h4ks3d4\'s4s3e4\'s4d4s3g4e4s3h3k4e4s3ns3sk3t4\'s4s4z2ps2r3\'s3e4d4s3th4z3v2s3ch5ke3h3ke3s4ed3t4s2tch3e4s3sch6ke3t4s2x3ed3te2ze1o2acq3d3k3n4ed4s3t4s2b3\'s3bed4s3e3s2ch3k4ed4s2d3e4s2e3de3n4ch3rbe4ke3s4ch2f2gg2hl3n4ke3r3s2i3nes3r3se4t2k3e4s2l3d4s3e4s3l4e3t4z2m3\'s3s2n3de4s3e4s3g4e3je3k4\'s4s3n3t4h5\'s5s4s4z2o3d4\'s4s3g3k3n4\'s4e4s3r4e5\'s5d5s4s3s4e3t4s4z2p3e4d3ped5s3s2r3\'s3d3e3gue6s3k3n3ph5ed5s3r3sch4e4s3t3ze2s3e3h3k3que6s3s3t2te4s3h4s3s3t4\'s4e4s3z2ue3l4d5s3nce4d5s4t5s5z3rn5ed5s3se4se3th5ed5s3w2ve4d4s2w3ed3s2y3e4s3l4e3se1raz2oz2uk1s1t1u2ch3k2d3d3ge3s2ecke3gge3hl3nch2ff4s2g3ged3s2hl3r3s2ir3se2l\'s3ch5ed4t3e4s3l4ed4s2m3\'s3m4e3ps3s2n3ce4h5ed3d4t3k3n4s3s4ch3t4z3z2rch3ff3k3ph3r2sch3e4d3h3k4e3t2tch3e4s3h3sch3t4s3z1y2hre2les2re4s3rh2th4s2ung0n1\'dour2s1a2ab3n3s2b3b4ed3s2ce3k4e2d2ef3ve2ff2g3ged3s2h3m2ik3l4ed4l4s3r4n5e2le3l4s2m3e4\'s4d4s2n3\'s3ce3g3tes4z2p3p4ed3s2rc3d3es3s2se3h3s3t4\'s2t3e4\'s3h4e3s2u3ght3lt3s4s2v3e2w2y3s1e2\'er2ace3d3l4\'s4e4l3r4ed4s3s4e3t3ult3ve5s2c3k4ed4s2d3\'s3d2e3b3ce3d4s3f3l4d4s3r3s4e3t2ff3t2g3s2hls2ice3gh3l4\'s4d4e4l4s3n3s4s3tz2j2l3l4e5s3ms3s2mes2ne2rd4s3l3ve5s2s3s3t4e4s2t3h3s3t3z2u2ve4s2w3s3t4\'s4s2x3t4\'s2y3ens2z1g2ai2hi1i2all2b3be3s2c3e3he3k4\'s4ed4s2e3ce3d3l4d5s4s3s4e4s2gg3h4t5\'s5s2k3es3k\'s2l3e4s3l4es3s2ms3tz2ne4\'s4s3g3th5s2p3p4ed3s2r2st2t3e3sch6e6ke3z4sche2x3ed1o2\'s2ack3kes3m2bbe2ce3k2d3e4s3s2e3ll3s3th2ffke2h3l3r2ir4s3se2kes2ld4e3e4s3f3l4s3t4e2m3e4\'s2n3ce3e2ok4s3n4e4s3se2pe2r3d3ed3ge3k3m4s3red3se4k3te4h5\'s2se4d3s2t3ch5ed3e4\'s4s3h3s3t4e3z2un4s3rse3s2v2w3\'s2yce3d3es1th1u2b2dd3e4s3ge5d2hn2ke4s2ll3ph2mb4ed2n3\'s3es3n4\'s3s2r3r4e3se5d2ss3z2t3\'s3e3s3t2ys1yce3z2e3rs3t2mph5s2x0o1\'s1ak3\'s3es3s2nh2r3ed3s2t3es3h4s3s1bst1ch3s2t1dd3s2e3s1ehlke3me2lke2sch1f2f3\'s3s2t1g2g1h2\'s2h2l2m3\'s3s2r3t2s1i2e2l3\'s3ed3s1ld3\'s3e3s3t2e3s2k2t1m1n2ce2e3\'s3s2g2s1oh3s2mph2oh4s2p3h3s2ze4d1p2\'s2p2s2t3s1r2b2ct2d2e3s2f2g2ks2me4s2n3e2r2t3h1s2e2h2s2t1t2t3e3s1u2ch2ght2i2nce2st2t3\'s3s2zts1w2e3d3s2l3s2n3ed3s1x1y2e1z0p1\'s1a2ap4e3r3sch2bst2c3\'s3e4d3k4ed4s3s3t4\'s4s2d3s2e3k3th4z2ff2ge4d2h3l2id3ge4n3k3l4le4s3n4e5d4s4t5s3r4ed4s3s3t3z2k3\'s3e2l3\'s3e4d4s3l3m4e4s3s3tz2m3\'s2n3\'s3e4s3g4s3ned3s3t4s2o3\'s2p3e3ke3p2que2r3\'s3c4h5ed3de3e4d4s3k4\'s4e5d5s4s3nes3r3s4e5d3t4\'s4ch4e4s2s3ch5ke3h3k4e3que3s4ed3t4e5s4s2t3\'s3ch5ed3e4s3h4e4s3s3t3z2ugh3l4\'s4e5s4k4l4s3p3se5d3tsch4z2ve4d4s2w3ed3n4ed4s3s2x2y3e3ne3s2z1ea3ce4h3k4e5d5s4s3l4e3r4ce4l5e5s4s5e4t3s4e3t4\'s3y2ch4t3k4\'s2e3d3k4ed4s3l4e5d4s3ns3p4ed4s3r4ed4s3s3t4\'s4e4s4z3ve5d5s2g3g4ed4s3s2hl2i3\'s3l3ne3rce3tz2lc3l4\'s4e3s3t4s4z3z2n3\'s3ce3g3h4\'s3n4\'s4ed4s3s4e3t4z2p2r3c4e4h5ed4s3e3k4ed4s3l4e4s3s4e3t4h3z2sce4h5ke3h3t4s2t3\'s3e4\'s3h3s4ch6e3t3z2ugh2w3s2z1faff3hl3rr3u2eiff4l2laum3ug4m2ohl3st2und1hage3ir3m3n3r4es4r3se5d2elps3n3w2i3bbs3l4\'s4p3pps3sh2legm2nom2o3ne5\'s5d5s2rase6d2u3ng3t2y3le1i2c3he4t3k4ed4s3ts2e3ce5d4h3d3hl3l3r4ce6d4s3s3tsch4te4z2g3\'s3g3s3ue2h3l2k3e4s2l3ch3e4d4s3l4\'s4e4s3tz3z2mm4\'s3p4s2n3ch5ed3e4d4s3g4ed4s3k4s3n4ed3s3t4s2p3e4d4s3p3s2que5d2res2schke3s4ed2t3ch5ed3h3s4ch3t4\'s4s3z2x1la3ce5d4k5\'s5e3gge4ue6d6s3id4n5es5s4r4t5s3ke3m3n4\'s4ck4e5\'s5d5s4k5s4ned4s4t5\'s5e5s5z3que6s3s4s5e3te5s4h4t5e5s4z3uche4t5z3x3y4\'s4ed4s2ea4d5s4s5e6d4t5s3d4ge6d3in3se4s3tt4z3w3x2ied4s3ght3nk4th3tt2och4k3d3etz3g3hn3of3p4ped3ss3t4s4t5s4z3uff6e4gh6ed6s4rde3w4ed4s3y4s2uck5\'s5ed5s3de3e3ff3g4ged4s3m4\'s4b5ed4e5s4p5ed4s3nge6d4k5ed3s4h3th2y1o2ach5ed3g3rch2bst2ch4e3k4ed4s2d3\'s3ge3s2e3\'s3hl5\'s2ff2g3s3ue2h3l4\'s2int5\'s5e5s3se5d2ke4d4s2l3ce3e4s3k4\'s3l4\'s4ed4s3s2m3p2n3d4\'s4s3g3s3t4\'s4e4s2o3ch3f3h4ed3l4\'s4e5d4s3n3p4ed4s3r4\'s4e4s2p3\'s3e4\'s4s3p4e5d3s2r3ch3e4d4s3k3n3r3t4\'s4e4h4s4z2s3ch3e4d3h3s3t4\'s4s2t3\'s3e3h3s3t4s2u3ch3gh3l3nce6d4d5\'s5s3r4ed4s3st3t4s2w3e3s2x1rab3cht3gue6\'s3hl3ise6d3ll5e3n4ce4ge4k5s3ts4t5\'s5e3un4se3wn5s3y4ed5r6s4s2e3ach6ed4s3be3cht3e4ce4n5ed3hn3is5s3ll3m3nn3p4ped3s4s5e6d4t3t4e3uss3w3y4ed4s2i3ce5d4k5ed5s3de5s3ebe4d4m4n4s5s5t6\'s6s3g4ge3ll3m4e5\'s5d5s4m4p3nce4e4g4s4t5s5z4z3s4k3tt5s4z3x3ze5d2o3\'s3b4e5\'s5d5s4st3ch4k3d4s3ehl3fs3m4pt6s4s3ne4g5ed5s3of5ed5s3p4es4p5ed5s4s5t3s4ch4e4ke4s4t3tz3ud4gh4lx4se5t4t3ve5d5s3w4l4s5e2u3\'s3de3e4ss4tt3gh3ne5d5s3s4s4t3yn2y3ce3de3nne1salm5s2haw3ew2i2ych5ed1tak2y1u2b3s2che3k2ente3tt4z2ff4ed4s2g3h4\'s4s2hl2ig2ke4s2ll4ed4s3p3s4e5d3tz2mp4ed4s2n3ch5ed3dt3g3k4s3s3t4s2p3s2r3e3ge5d3k3r4s3se5d3t3ves2s3ch3h4ed3s2t3e4s3h3s4ch3t4s3z1ye2ke2le4\'s4s2mm2ne4s0q1\'s1i2n3g1om1u2a3ch4k5s3d4e4s3ff3i4d4l5s4n5t3ke5\'s5s3l4e4ls4ms3m4me3n4dt4g4t3rk5s4les4re4t5s5z3sh5ed4t3ve3y4\'s4e4le6\'s6s4s2e3au3en5\'s5s4r5s3k3l4l5ed3nch3rns3s4t5s3ue5s2i3che4k3d3ett3gg3k3ll4mes4t5s3n4ce4e4n5\'s4t5s3p4p5ed4s3re4k5e5s3st5\'s3t4e4s3z4zed2o3d3in3n3te5s4h0r1\'s1a2ab4\'s4e3d3p3sch3tz2b3b3e2ce4d3h3k4ed4s3z2d3de2e3l3tz2f3e3f3t4s2g3e4d3s3ue2h3l3m3n2iche3d4s3ff3kes3l4\'s4e5d4s3n4e5d5s4s3s4ch4e5d3t4h4t2j2k3e4d4s2les3f3l4s3ph5\'s5s2m3m4ed3p4s3s2n3ce4h4k3d4\'s4s3es3ft3g4e5d3h3k4e5d4s3n3s3t4z3z2o3\'s2p3e4d4s3p4e5d3s3t2re2s3ch5e5ke3e3h3k4e3p4ed4s3t2t3\'s3e4\'s4s3h4e3s3te4s3z2u3b3ch3h3l3m3n3p4p3sch3t4h2ve4d4s2w3e3l4es4s2x2y3\'s3e4d3l4e3ne5s3s2z3e4d3r1e2\'s2a3\'s3ch5ed3d4\'s4e4s3l4m5s3m4es4s3p4ed4s3r4ed4s3s4e3ume4x3ve5s3y2c3h4t3k2d3d3s2e3b4\'s4s3ce4he4k3d4\'s4s3f4s3g3h3k4s3l4ed4s3n4ts3p3s4e3tz3ve5s2f3f2g3s2h3er3g3m3n2ich5\'s5e4k5s3d4\'s4t3f4f3gn5ed5s3hl3l3m4s3n4e5d5s4ke4s5ch4ts3s4ch4e4s4z3t4h4s4z2lf3ph2m3me3pe2n3ch3de3k3n4e3s4ch3t4s5ch4z3z2p3\'s3h3p3s2s3ch5ke3h3ke3s3t4s2t3z2ul4e3sch4s4t2v3es3s3ved2w2x2y1ha3me5s2eault5me3e4m3in3m3tt3w2in4e5s2o3ad5es5s3de5s3me3ne2ude3e3le2yme5d5s3ne5s3s1ials2b3bed3s2c3e3h4e4ts3k4\'s4e4s2d3e4s3ge5d3s2ebe3ck5e3d4e3f3g4e3hl4m3k4e3l3pe3s4e4h4s3tz3ves2fe3f4e5d4s3t4s2g3g4ed4s3ht5\'s5s3s2hn2ke2le4d4s3l4\'s2m3e4s3med3s2nck3d4s4t3e4s3g4\'s4e5d4s3k4e4s3n4e3se2oux2p3e3ke3p4e5d3s2sc4h3e3h3k4e5\'s5d4s3s4e3t2tch3e4\'s4s3t4\'s4s3z2ves2x2z3k1o2ach5e3d4\'s4es4s3ld3m4ed4s3n4e3r4ed4k5e4s3st5s3t4h2b3\'s3b4\'s4e5d4s3e4d4s3s2c3h4e3k4\'s4e5d4s3que2d3d3e4s3ge3s2e3bke3d3hl4m4r5s3lke4l5e3n3pke3s4ch4e4ke2ff4e2g3ge3ue5s2h3\'s3de3e3l4f5s3m3n3r4s3s2i3g3l4ed2l3e4s3f4e5s4s3l4\'s4e5d4s3m3ph3t2m3\'s3e4\'s4s3m3p3s2n3\'s3e3g3k3ne2od4e3f4ed4s3k4e4s3m4\'s4e4s3ne3p4e3s4e4t3t4s2pe4d4s3p3s2que2rk4e2s3ch3e3h3ke3s4e3t2t3e3h4\'s4e4s3s3t3z2uch3ge4h5\'s5ed5t3nd5\'s5s3pe3rk5e3se5d4h4se3t4e5s4h4t3x2ve2w3\'s3e4\'s4d4s3les3s4e2x2y3\'s3ce3d3e3le3s4e2z1u2b3bed3e3s2ch3k4s2d3d3e3ge2e3b3f4f3gg3hl3l3s4ch4s4t3th4z2f3e3f2g3e3g3h3s2h3e3l3nke3r2le4\'s4d4s2m3p4f4h3s2n3\'s3ck3d4e3e4s3g4e4s3k3s3te2pe3p4e2s3ch5e3e4d3h4ed3k4\'s3s4e3t4\'s4s2t3h4\'s3s3t4s3z2ud2we2x2yle1ye2le4s2nes2s0s1a2ab4\'s3d3l3m3r3s2b\'s3b2c3hs5e3k4ed4s3s2d2enz3z2fe4s2g3e3ged3s2hl3m3r2i3d3l4ed4s3n4e4t5\'s5s4z3s3z2k3e4\'s4s3s2l3\'s3ce3e4\'s4s3k4\'s3l4e4s3m3t4s4z3ve5s3z2m3\'s3e4\'s4s3ms3p3s2n3d4\'s4e4s4t3e3g3k4s3nes3s3t3z2o2p3p4ed3s2r3e3ff3ge3k3les3s2s3h3s4e2t3e4s3z2uce3d3k3l4s4t3m3r3s4e3ve2ve4\'s4d4s2w3ed3s2x3e2y3e3le5s3re5s3s1cab4s3d4s3ff3ggs4s3ife3ld5s4e5d5s4f4p5ed5s3m4med4s3n4ned4s4t3pe3r4ce4e5d5s4f5f5s4p4red4s4ves3t4es2earce3ne5s4t5s2haab5ck5d6t5f5l5p5r4b5es4cht5k4d5e5t4ff4ke4lk5l4mp4nck5k5tz5z4pp4r5dt5f6e6f5p6f5r5tz4tz4u5b5f5l5m5s5t4ve3ear4ck4el6e5r5ts6z4ff4hr4ib6e5d6t5n4ll4me6d6s5m5pf6p4nck5k4pp4r5b5f6f5r5tz5z4u4ve4we4y3ick4el6d6e6ke5rl5ss4ff4ld6t5ke5l5t6z5z4mke5pf4nke4rm4st6s3lack5g5ke5ng5rb5uch4echt5e5ich6f6n6s5pp5y4icht6k6t5e6p5nk5tt6z4ock5ss5tt5ugh4und5p3mahl5l6e6l6tz6z5us4ead5ck5hl5ltz6z5rtz4ick5d6t7\'s5ed6g5t6t6z4oke5ldt6l5oze4uck5hl5lts5nk5tz3nack5ke5ll5pp7s5rr4eck5e5id5ll7e5pf6p4ick5tz4ook7s6r5rr4ur6r3och5k4eck5n5pe6f6p4ff4les5l6e5tes6z5z6e4n5e5s4o5f5k5l6\'s6ed6s5n4pf5p6e4r5k5n5r6\'s5sch4tt6\'s4u4w3rack5de5g6e5m6m5ndt6k6tz6z4eck5mp7f7p5nk5ur7s5yer4ick5mpf4ock5dt5eck5ff5ll5m5nce5pp5th4um6pf5pp3tick3uch5k4e5le6ke5tt7e6z7e4ff4g4h4l5d6t5l5t6e7s6z7e5z6e4m5m4nk4pp4r5r4t5h5t6e5z4ur3wa5b6\'s6e5hn5ke5lb7e6l6m5m5n6dt6ke6tes6z5rk6m6tz6z7e4ebke5d6e5er7s5ich6ss5mm5nk7e6n6t5ppe8s5r6dt4ind7t6g6n2i3re2off5ed5s3ld5s4es3nc5e4e5s3op5ed5s4t5s3pe5s3r4ch6ed4e5d5s4n5ed5s3t4ch6ed4s4t5\'s5s3urge7d4t5\'s5s3w4l5ed2ragg4m5s4p5e6d6s5ped5s4tch7ed4wl6ed3eam6ed6s4ech7ed5d5n6ed6s4w5ed5s3ibe6s4mp4p5p6\'s6s5t6s3od4ggs4ll6s4nce4oge4unge8d3ub5bed4ggs4nch7ed2ud4s3ff5ed3ll4pt6s3m3tt2ythe1e2a3\'s3l4\'s4e5d5s4s3m4s3n4\'s3q3r4ch6ed4ed4l5e6\'s6s5s4s3s4e3t4\'s4s3y2c3k3t4\'s4s2dge2e3d4\'s4s3k4s3l3m4ed4s3n3p4ed4s3r4s3s4e3the2ff2ge3ue2hr2ib3d4e3f4e3ge3l4s3m3n4e3p4p3s3th4z3x3ze5d2jm2l3be3f4\'s4s3k4e3l4e4s3ph3tz3ves3z2mmes2n3d4s3f4f4t3g3k3n4e3s4e5d4ke3t4z2oul5\'s2p3e3p3t2rb4\'s4s3e4s3f4s3ge3pe3r3v4e5d5s2t3h4\'s3s3te2uss2w3ed3n2x3ed1ffed1gro4i1ha3\'ath3ak4th6\'s3ck5s3d4\'s4d4e5s3ff4t5s3g4s3h4\'s3i4k5h4n5e3ke5s3le5s4l5\'s4t3m4e5d5s4p3n4d5s4e4k5s4t5z3o3p4e5d5s4p3q3rd5s4e5\'s5d5s4f4k5s4m4p5\'s5e5s3s3tt4z3ub4l5l4n3ve5d5s3w4\'s4l5s4n5\'s3y4ne4s2e3\'d4ll4s3a4\'s4d4f4n4r5\'s5d5ed5n5s4th6e7d5s4ves3ck5\'s3d4d4s3ek5s4n5\'s5s4p5\'s5s4r4sh4t5s5z3ff3ik5\'s5h5s4l5ds5s4n3k4\'s3lf4l5\'s5ed5s4p4ve6d6s3n4g4k3p4p3r4e4k4r5\'s3th3w2i3ck3ed4h4l5d6\'s6s5s4s3ff4t5s3h3ll4ts3m4p3n4e5d5s4g4n3p4\'s4e5s4p5\'s5ed5s4s3r4e5s4k5ed4l4r4t5s3t4\'s4s3u3ve5s2laes2mooze2oaf5f4ls3be3ck5ed5s3d3e4\'s4n4s3ff3les4l3n4e4k4tz3o4b4ed4k4p4t5s3p4\'s4e4pe6d6s4s3r4b4e5\'s5d5s4n4r4t5s5t5z3sh3t4s4t5s3ugh4ld5ts6z4n4p5e4se4t5s3ve5d5s3w4\'s4ed4n4s2rake4nk3eck4d5s4eve4k4ve6s4wd3i4ek6ed6s4ft4ll4mp4ne6s5k6s3ock4de4ff4ntz4ud6s5t3ub5s4g5ged5s4m4nk2tick2u3ck5ed5s3e3ff3ll4ts5z3m3n4k4ned4s4t5s3pe4p3r4e4r4tz3t4e5s4s4t5s2y3ne1i2ang3s2b2c3k2d3\'s3e4\'s4s3s2e3be3ck3g4e3h3k3m4s3rs3s4s3ve5s3w2ft4s2g3g3h4ed4s4t5s3n4\'s4ed4s2kes3h4s2l3k4s3l4s3t2m3e4s3m4s3s2n3ce3d4t3e4s3g4\'s4e5d4h5\'s4s3k4s3n4ed3s2oux2p3e4s3p4ed3s2r3es3k3les3s2s3k2t3e4\'s4s3he3s3ts3z4e2x3ed3th5s2ze4d1ka3ar3ff3ggs3ins3re3se3te5s2eat3el5s4n5s4s4t5e5s3in5s3ne3tch6ed3w4ed5s4s2i3bbe3d4s3ed4r4s3ff5s3les4l5ed5s3m4med4p3n4\'s4ks4ned4s3p4p5ed4s3rt5s3s3t4s2lar2oal3ff3g3k3og3p3v3w2roch2ulk5s4l5s3nk5s3tt2y3\'s3e3les3pe1lab4s3ck5ed5s3de3g4ht3in5e3m4med4s3ne4g4t3p4e4ped4s3sh5ed3t4e5s4s3ugh3v4e5s4s3w3y2eaze3d4d4ge4s4z3e4k4p5s4t5h4ve6d6s3igh6t3mp3ntz3pt3uth6s3w2ice5d4k5ed5s3d4e5s3fe3gh5t6s3m4e4med4p4s3ng5s3p4ped4s3t4s2oan5\'s5e4t5e3b4s3e3g4ged3ne3op3p4e5s3rc3sh4s3t4h4s4t3uch4gh6s3ves3w4ed4s2udge3g4ged4s3ice3m4p5ed5s4s3ng3r4p4red4s3sh4s3t4s4z2y3e1mack5ed5s3il3le4l5s4tz3rr4t5s5t3sh5ed3y2ead4l4r5ed5s3e3ll5ed5s4t5z3t2ick3d4t3le5d5s3nk3rk5s3t4h5\'s5s4s2oak3ck3g3ke5d5s3och4t5h6ed6s5s3sh5ed3use2uck3dge6d3g3ll3rf5s3t2yre3th5e1nack5ed5s3g4ged4s3il5\'s5s3ke5\'s5s3p4e4p5ed4s3re5d5s4l5s4r3tch6ed3y2ead4k5ed5s4th3e4d4r5ed5s4ze6d3h3ll2ide3ff5ed5s3p4e5d5s4s3tch2ob4s3g3ke3ok5s4p5s4ze3re5s4t5s3t3ut5\'s5s3w4\'s4e5d4s2ub4bed4s3ck3ff5ed5s3g4gs1o2\'s2ak4ed4s3p4s3r4d4ed4s3ve2b3bed3s2ck4ed4s2d2ens2ft2hl3m3n4s2il4\'s4ed4s3r2k2l3d3e4s3l3t4es3ve5d5s2m3e4s3me2n3\'s3es3g4\'s4s3n4e3s2o3d3n4g3s3t4he6d6s4s2p3e3p3s2r3ce3e4s3g4e3t4s2ss2t2ugh5t3k3l4e5s4s3nd5\'s5s3p4\'s4ed4s3rce3s3th5\'s5s2w3ed3le5s3n3s2x2y1pa3ce5d4k3de5s3eth3hn4r3id4n5\'s3k4e3ll3m3n4\'s4g4k5ed4n5ed4s3r4c4e5d5s4k5ed6s5s4r5ed4se4tz3s3t4e5s4h4s4z3ugh4r3w4n5ed5s3y4d5e4ed3z2eak5e6s5s4r5e5s4s5e3c4ht4k5s4s3d3ece5h4d5s4r4s3ich4ght7s4r5s3ll5ed5s4tz3nce4d5s4s4t3rl5e4m5s3th3w4ed4s3y2har3ere6s3inx2ic4e5d3e4d4l4s5s4th6\'s3ght3ke5d5s3lde4l5\'s5ed5s4t3n4e5s4k5s4s3re5s3t4e4s4z2lain6e4sh6ed4t4wn3een3ice6d4nt6s4t5s5t3urge7d2ock3erl3hn4r3il5ed5s3ke5s3ng5e6d3of5ed5s4k5ed5s4l4n5s4r5\'s3rck4e5s4n4t5\'s5s3t4s4ts3use4t5s2ragg5ue7\'s4in6ed6s4ng4tt4wl6ed6s4y5ed5s3ead6s4e5n5s4he4ng3ick4gg6ed6s4ng6\'s6s5t6\'s6s4te3oat4ck4les4ng4tt4ul6e6l6s5se5t6s4w5l6s3uce6d4ell4iell5ll4ng3y2ud4\'s4s3n4k3r4ge4n5ed5s4r5ed4s4t5s2y3\'s1quad5\'s5s4ll6s4re6d6s4sh6ed4t5s4wk6s3eak6ed6s5l6s4eze7d4lch7ed3ibb6\'s4d4nt4re5m6s5t6s3yres1ram2i2ock3ge3ufe1t2a3ab4ck4l4r5\'s4s4t5s3b4bed4s3c4\'s4h4k5ed5s3de4t3ehle3ff5\'s5ed5s3g4e5d4g5s3hl4nke4r3ib4d4n5ed6s5s4r5s3ke5\'s5d5s3le4k5ed5s4l5ed5s3m4m4p5ed5s3n4\'s4ce5h6ed4d5s4g5e4k5e4n4t3pf4h4p3r4\'s4ch6ed5k4e5d5s4k5\'s5e6s5s4n5es5s4r5\'s5ed5s4s4t5s4ve6d6s3sh5ed3t4e5\'s5s4s4z3ub5s4ch4de5t4ff4nch4p4ss3ve5d5s3y4ed4s2ead4k5s4l5s5th4m5ed5s4r5n6e6s5s3c4h4k3eb4d5\'s5s4g5e4l5\'s5e6d5s4n4p5ed4r5e6d5s4s4ves3ffe6s3ge3hr3ib4g4l4n5\'s5es5ke4tz3ll5e4tz3m4m5ed4s3n4ch4e4t5z4z3p4h4p5e6d6s4s3rk4n5\'s5e5s4r3t4z3uck3ve5\'s5s3w4\'s4ed4s2ice4h5t4k5s3dd3ef4g4hl4ns4ve3ff5ed5s3g3hl3l4e5s4l5e6d5s4s4t5s3ne5s4g5\'s5s4k5s4t5s3pe5s4p3r4es4n4red4s3tch6ed4es4h4t4z2obbe3ck5\'s5e6d5s3ehr4ltze3ff3hl4r3ke5d5s4ke3l4dt4e4l5e4p5e4t5e5z4z5e3mp5ed3ne5\'s5d5s4g5e3od4ge4l5s4p5ed5s4ts3p4ped4s3rch5k4e5\'s5d5s4k4m5\'s5ed6s5s4r5s4ts5z4z3tt5s4z3udt4ffs4gh4p4t5e3ve5s3w4e5d3y2rack6e4fe4hl5m4ight8s5n6ed6s5t6s4m4nd6e6s5g6e4p5ped5s4te4ub6e5ch5ghn5m5s6e6s4w5n5s4y5ed5s3eak6ed6s5m6ed6s4b5e4ck4ed5p5t6\'s6s6t4ff4ge4hl6e4ib5ch5ff5ght5t4ng6th8s4p5s4ss6ed4tch7ed4w5n4y3iar4ck5t4de6s4fe6s4ke6\'s6s4ne5g6ed6s4p5\'s5e6d6s5ped5s4te4ve6s3obe4ck4de4h5l5m4ik4ke6d6s4le5l6ed6s4m5e5me4ng4ock5p6e5t4pe4ud5gh5p6e5se5t6h4ve4w3ub5be5e4ck4m5s4ng5k6\'s4pp4ss4t5s5z4ve2u3b4be6d5s4s3ck5e3d4ds4e4s4t3ebe4ck4ve4we3ff5\'s5ed5s3hr3kes3ll4ts5z3m4m4p5e6d5f6f5h5p5s3n4g4k4ned4s4t5s5z3pp3rc4m4n4tz3tes4ts4z3ve2y3le5d5s3ne3s3x1u2ave2b3\'s3bed3s2c3h3k4ed4s2dd3s2e3d4e5s3n3s4s2gg4s2h3m3r4e2ire3sse3t4\'s4e5s4s4t2k2l3k4ed3t2m3med3p3s2n3\'s3d4e4t3g4\'s3k3s2p3pes2r3e4s3f4\'s4ed3ge5d2s3s2tch1vec3lte3n4sk1wab4s3iles5s4m4n5e3les3m4p5ed5s3n4k5e4n5\'s4s3p4e5s4p5ed4s3rd4m5ed5s4t5s5z3t4ch6ed4h5e6d3y4ed4ne4s4ze2ear5s4t5s5t3d4e5s3en4p5s4rs4t5s3ig3ll5ed5s3m3pt3rve6d3te4t4z2ick3ech3ft5\'s5s3g3ll3m4s3ne4g5s4k4t3pe5d5s3re4l5ed5s3sh5ed4s3tch6ed2oon5ed4p5e6d5s4sh6ed3pe5s3r4d5s4e4n2um3ng1y2d2ed2kes2lph2m3e4s3mes4s3s2n3c4h2p1zczech2e2oke3t4t2uch4s2wed0t1\'ang2s1a2affe2b3b3s2ck4e5d4s3t2d3d2e2ff4e3t4\'s2g3g4e5d3s3ue2i3l4ed4s3nt5s3t4e4t2j2k3e4s2l3c4s3e4s3k4\'s4ed4s3l2m3bs3e4d4s3m3p4s2n3g4e4s3k4\'s4e5d4s3n4ed3s3t2o3s2p3e4\'s4d4s3p4e5d3s2r3p4s3r4ed3t4e4s4t2sch3h3k4ed4s3s3te5s2t3e4\'s3ge3sch2ub4e5s3ght3ke3l3nt5s3sch3t2ves2wes2x3ed2y3s1e2a3c4h3gue3k3l4e4l3m4\'s4ed4s3r4e4s3s4e5d4t3t4s2bbe4s2c3h4\'s4s3k4\'s2d3\'s2e3d3l4e3m4s3n4s3r3s3t4h5e4s2fft2gge2ich3g4e2k2l3l4es4s2mme3p4s4t5s2n3\'s3ch3d4s3g3n3s4e3t4h5s4s2pe2r3m4\'s4ed4s3n4es4s3se2sch3e3h3ke3s3t4\'s4s2t3e2utsch2ves2w3es3s2x3t4s1hach3d3i4\'s4n5e4s3l4l3m4es3n4e4g4h4k5\'s5ed5s3o3r4p5e6\'s3t4\'s4ch6ed3u3w4ed4s3yne2e3all3bes3de3e4\'s4l3ft5s3il5e4n4r5s4s5s3m4e5d5s3n4ce3re5\'d6s6ve4m3se3us3w3y4\'d5ll5re5ve2i3ck3ede4f5\'s4l5e5ke5sch4m5e4n4s4ve6s3gh5s3ll3n4e4g5\'s5s4k5\'s5s4ned6s4s3rd5\'s5s4st6s3s2o3be3de3ele4n5nes3le4l3m4e5s4p4s3n4e4g3r4n5\'s5e5s4p5e3se3u4gh6t7s4s2rall4sh6ed3ead6s5t6s6t4e5\'s5s5t4sh4w3ice4ft6\'s6s4ll6ed6s4ps4ve6d6s3oat6s4b4es4m4ne5g6ed6s4op4ugh7s4ve4w5n5s3u4n4sh5t6s2ud3g4s3l4l3m4b5ed5s4m4p5ed5s3n4e4k3ot3r4m4n3s3y2wart6s3eatt3ing2y3me1i2an2bbs2c3e3k4ed4s3s2dd3e4\'s4s2e3d4e4t3gs3n3r4ce4ed4s3s3tje4z5e2ff4t3t2g3ges4s3he4t5s3ue2ke4s2l3e4d4s3l4es3t4h4s2m3\'s3bs3e4\'s4d4s3m4e4s3pe3s2n3ch3e4s3g4e5d3s3t4s2p3p4ed4s3s2s3ch3h2t3he3s1jarks1kach4z1o2ad4s3l3st5s2be2ck2d3d4\'s3t2e3d3lle3s2ff3t4e2gs2il4ed4s2l3d3e4s3l4e5d5s4s2m3\'s3b4s3e4s3s2n3e4d4s3g4e4s4ue6d6s3k4s3n4e5s3s2o3k4e5s3l4e5d4s3mbs3n4e3ps3t4e4h5ed4s2p3e3p4ed4s3s2r3ch5ed3e3me3n3p3que3r4e3t4e4s2sch3h3s4ed3te2t3e4s3h3s2uch5e6d3gh5ed5s3ps3r4\'s4ed4s3t4s2v2w3e4d3le5\'s3n4\'s4e5s4s3s2y3\'s3e4d3s1rac4e5d4ht4k5\'s5ed5s4t5s4z3de5\'s5s3er3il5ed5s4n5\'s5ed5s4pse4t5s3k3m4p5e6d5s4s3n4ce5he4e4g4s4t3p4p5e6d4s3sh5ed4k3ub4dt4gh4m4sch4t5h3x3y4s2e3ad5s4se4t5s3e4ce4n4s5e5h3fz3k4ked4s3nch4d5s4t5\'s3sch4s4t3u3w3y2i3b4e5\'s5s3ce4he4k5ed5s3e4d4s5te4u3g4g5s3ll3m4m5ed4pe4s3ne4h3p4\'s4e4p5\'s5e6d4s3sh3tch4e5s4sch4t4z2oche3d3is5e3ll5\'s5s3mp3n4e3on4p5\'s5ed5s4st3pp3sch4t3t4h4s4t3ubh4dt4gh6s4nce7d5g4p5e6\'s6s4t5\'s5t3ve3w3y2uce4k5\'s5ed5s3de4ge6d3e4tt3itt3ll3mp5\'s5ed5s3nk5s3ong3pp3s4s4t5\'s5s3th5s2y3gg3st1sai4\'s3ng3o3r2chantz4opp2e3ng2iang2o2u1u2b3b4s3e4s3s2ch3k4ed4s2de2e3l4l2ff3t4e4s2g3ged3s2ite2k3s2ll2ms2nde3e4d4s3g4\'s3ks2rck3e3f3k4s3n4ed4s2sh3k4s2t3\'s3t2x2yle1vedt3it1wain5\'s3ng3s3t4s2eak5ed5s3dt3ed4n4t5s3lfth4ve5th2ice3g4g5ed5s4s3ll3n4e5d4ge4k4s3rl5ed5s3ss4t5s3tch6ed4e2o3\'s3s1y2ce2e2ke2ne4s2pe4d4s2re2us0u1\'s1de1gh1h2de2h2l3s2r1lch2f2m2sh1m2m1n2d2g2z1p2\'s2p3ed2s1r2e2ge4d2n1s2e3d1the2t2z1we0v1\'s1aal2eth2gue2hl2il4e3n2l3e4s3k3le5s4s3ve5s2mp2n3ce3de3e4s3g3n3s2pe2rn4es3s3ves2se3ke3s3t2t3h3s2ugh5an7\'s5n6\'s6s5t3lt5s3se3x2x2z1e2ach3l4e4s3tch2e3ch3n3p3r4ed4s3s2gh2il4ed4s3n4s3t4ch4h2lte2nn4e3t4s3zke2r3b4s3e4s3ge3n4e5s3s4e5d3t4z3ve2ss3t4s2t3s4ch3te2uve2x3ed2y3ne1i2be4s2c3\'s3e3k4s2de2e3d3l4e3n4s3rs3s3ts3w4ed4s2g3ue2k3e4s2le4s3le5\'s2m2n3ce3e4s3je3k3t2res3ge3ts2s3e3t2tt2v3e4s1lach3d4\'s2iet2ok1o2cke3s2ell4tz4z3st2ge3ht3t3ue2hs2ice5d3d4s3ght4t5s3les3r3t2kes2ld3es3k3l4e3pe3t4s4z3z2n3g3k3s2rce3e2s3e3s2te4\'s4s3h2uch5ed3ght3s3te2w3ed3s2x2yles1rain2ies2oom1u2e1y2as0wa2ack3g3h3l3s2ce3h4s3k4s2d3e4\'s4s3s2ft2g3\'s3e4d3g4ed3s2h3\'s3l4e2i3d4e3f3l4ed5s4s3n3s4t5s3t4e5\'s5s4s4t3ve5d5s2ke4s2l3ch4k3d4e3e4s3k4e5d4s3l4\'s4e5d5s4s3n3p3sh3t4h4s4z3z2n3d4s3e4d4s3g4\'s3k4e3n3t4s4z2r3\'s3d4\'s4e4s3e4s4z3f3k3m4ed4s4th3n4e5d5s4s3p4ed4s3r3s3t4h4s2s3ch3h4ed3p4\'s4s3s3te5\'s5s2t3ch5ed3ne3t4\'s4s3z2ugh5\'s2ve4d4s2x3ed2y3\'s3e3ne5\'s3s3t1e2\'d3ll3re3ve2ak4s3lth6s3n4ed4t3r4s3se4t3ve5d5s2b3b4\'s4ed4s3s2cht5\'s3k2d3d3ge5d2e3ch3d4s3k4\'s4es4s3ms3p4s3rts3se2ge2hde3e3r2i3ch5t4k3gh5ed5s5t6s3he3k3l4\'s4d4l5\'s3n4s4tz3r4\'s4d3s4e4s5e4z3th4z2lch3d4\'s4s3ge3k4e3l4e5s4s3p3sch4h3t4e4z3z2mpe2n3ch4k3d4e4s4t3g4e3k4e3t4e4z3z2pt2re3k4e3le3ntz3re3st3t4h4s4z2s3ch5e3p3s3t4\'s2t3z2y3l1hack5ed5s3le5\'s5s3m3n4g3rf5\'s5f5s3t4\'s4e4s2eat3el5ed5s4ze3n4\'s4ce3re5\'d6s3t3w3y2ich3ff3g4s3le5s4st3m4s3ne5s3p4p5ed5s4s3rl5ed3sk5ed5s3t4e5\'s5s4t3z4zed2o3\'d4ll4s4ve3a3le5s3m3o4p5ed5s4sh3re5s4l5s3se2y3\'d4s3s3te1ice3h3k4e5s4s2de4\'s3th5s2ebe3ch4k3d3he3ld5s3n4ke4s3r4s3s4e4s2fe4\'s2g3g4s3ht3s2i2k3e2l3\'s3d4e5\'s5s4s4t3e4s3k4e5s4s3l4\'s4e5d5s4ms4s3mes4s3t4s5e4z2mp4s3s2n3\'s3ce5d4h3d4\'s4es4s4t3e4\'s4d4s3g4\'s4e5d4s3k4ed4s3n4e3s3t4z2pe4d4s3f2rt4h4z3z2s3ch3e4d3h4ed3p3s3t3z2t3\'s3ch3h4e3s3t4e4s3z2ves2x2z1nek2uk1o2bbe3st2e3hl4r3s4te2hl2k3e3s2ld4t3f4\'s4e5\'s4f3k4e3l4e3ske3tz3ves3z2mb2n3\'t3d3g4\'s3k4s3t2o3\'s3d4\'s4s3ed3f3l4f4s3ng3s2p3s2r3d4\'s4s3e3k4\'s4ed4s3ld5\'s5s3m4\'s4s3n3se4t3th5\'s5s4s2uk3ld4fe3nd5s2ve2w3\'s3ed3s2y1rack5ed3ge4g3p4ped4s3th3y2eak5ed5s4th6s3ck5ed5s3de3n4ch6ed4n3st3tch2ice3ght6\'s6s3ng3st5s3t4e5s4he6d4s2oe3ng5ed5s3te3ught2uck3ng2y3e1u2\'s2ensch3rth5z2lf4f2nsch2rl3m3st3th4z3z2ss1y2che2den2e2k3e4s2lde3e4s2ne4s3n4\'s4e4s2re2se3s2the0x1an3the1ene1i2an3o2e2ng2o3ng1u2an2e2s0y1\'all2s1a2\'ll2cht5s3k2ffe2h3n4ke3r2k3e2le4\'s2m3s2n3es3g3k4e5d4s3t4z2o2p3p3s2rd4\'s4e4s3n4s2ss2tes2u3ch3n2w3n4ed4s2x2y1e2a3h3r4\'s4n5ed5s4s3s4t5s3ts4ts2ck2e2h2ll4e5d4s3p4ed2n3\'s2p2r3ke2s3ke3t2t3t2ung2w3\'s1i2e3ld5s2kes2m2n3g4st2p1o2ak3st2e3s4t2h3n2ke4d4s2lk4s2m3\'s2n3ce3g4ue3ke3ts4z2o3n3r4\'s3s2pp2re3k4\'s4e4s2ss3t2tt2u3\'d4ll4re4ve3n4ce4es4g5\'s5e5s4t5s3r4s3s4e3th5\'s5s4z2w2y1u2\'s2ck2e3n2ill5e2k3s2l3e2m2n3dt3g4\'s3k2p2rt2st1ves0z1\'s1ach3k4\'s4s2entz2g3ged3s2hm3n2id3n3tz2k2le4\'s3m2n3d4t3e3g3k3t2p3f3p4ed3s2rb3ed3r4e2ske2ugg3n2yre1big1e2a3l2ch3k2d2e3b3k3se2ff2h3r2is4s3t4z2ke2l3e3l4e2mke2n3g3k3s3t4z3z2pp2rbe3n3r2st2us2v1han4g3o2eng2ou2u1i2ch3k2eg3hl4m3l4ke3mke3r4ke3ske3tz2ff4\'s2g2ke2l3ch3e3l2m2nc4k3e4s3g4g3k4e3n3s2p3f3p4ed3s2rbes3k2sk2v1lin1och2gg2h3n2ll3p2n3e4d4s2o3\'s3k3m4ed4s3s2rn4es3z2ss2unds1sa2chau1ube2ch3k2e3\'s3ge3hlke3lke2g3\'s2hlke2k2rn3ve1wack3rt2eig2ick3eg1ych2sk',
+    2: '0aaberg2chen2ker2lborg4urg3en3seth4meer3to2modt2ncor2rdvark8s3hus3on5\'s5s3ti2sen1back3d3ir3sh5ed3te5s2ba4s4te3e4tt4ville4y5\'s3ie4tt3ot5t6\'s4ud3y2co2del3nor3o3uct6s4l2ed3e3l4e5s4l4n4s3nd3r4g4t3t3x2hor5red5s2id4e5s3e3tz2ject2late4ze3e4d4s5t3oom3y2ner4y2o3\'s3ard3de3od3r4n4t5s3tt3u4d4nd6s4t5\'s3ve5\'s2ra4de6s4m5\'s5s3east4u3idge7d4l3oad4l4n3upt2scam4ess4ond7s3ence5t3her4ire3inthe3o4lve7d7s4rb6ed6s3tain7ed4on4ract8s5use3urd2u3se5d3t4s3zz2yss2zug1c2a2cede6s4l4nt6s4pt6s4ss6ed3laim7\'s7ed7s3o4r5\'s5d6\'s6s4st4unt7\'s7s3ra4ue6d6s3u4rsed4se6d2ecomm3r3s3y2hatz3ee4ne6s4y3ieve7d7s4ll6\'s4ng3med3oo4r5d5n3y2id4s2ker5\'s5t3house3land4es5y4in3man3royd7\'s2mat5\'s3e4\'s2ne2off3g3mb3rd4n5\'s5s3tt2quaint4it6s2re4e4s4y3i4d3o4ss2ta3ed4l3in5g4on6\'s6s4ve6\'s6s3on4r5\'s5s3ress3us2uff3te1da3\'s3ge3h3ir5e3k3m4\'s4es4s3n3pt5s3r4e3s3y2block2cock4x2dair4ms3ed4r3icks5t6s4e4ng4s3le5d3ress7ed3uct3west3y2ee3l4e5\'s4l5\'s5e3n3pt3r3y2ger2ham3ere6d6s2id3eu3n3sq2join6s4urn7ed7s3udge7d4nct7s4st6s2kins2ler5\'s5s4y3on5g2man3en3in5s4re6s4t5s2nan3ey2o3lf5\'s4ph3n3pt5s3r4e5d5s4n5ed5s2ra3iel4ft3oit2sit3tar4eam2tec2ult5s2vance7d3ent4rb6s5se5t4st3ice4l5\'s4se6d3o2week4ll3ords2y1egis3on2ltus2rie3o2sop5\'s3thete8\'s8s2tna5\'s1far2fair6\'s6s3ect6s4ldt3ine6d6s4rm6ed6s4x5ed3leck4ict7s5k3ord6s3ront7s2ghan6s2heldt2ield3re2lame3oat2med2oot3ul2raid3esh3o2shar6\'s2ter1ga3che3in5st3n4s3pe3r4d3sp3te5s2co2e\'s3e4\'s3less3nce4t5\'s5s3r4s3s2fa2gie5s3ress5y4ieve8d3y2hast2ie3le3n4g4s3p2leam4r3o4w2na3e4r4s4w3or4s2o3g2ra3ee5d5s3i3o4und2ua3e1ha3b3h3rt2ead4rn3rn5e2lberg4orn3en4rs4s3gren5im3in3man3quist8\'s8s3strand6om2mad4nn3ed4ek2nell4r2o3ld5\'s5s3y2ren5dt5s1ichele5r3kin2dan3ed4n5n3id5\'s4ng2esha2gner2ken5s4y3in5s3man3off2lee5n4ne4y3ing3ment7s3or3sa2mal4n3ee3ing3less3one2nley3sberg4ley5ie4worth9\'s3u2pac5\'s2rbag6s5se4oat7s5rne8\'s4us3cal6\'s4o4raft8\'s8s5ew3drop7s3edale8s4s4y3fare7s4ield8s4low7s4oil7s5ne7s5rce4rame8s5eight3gas4low3hart4ead7z3ing3less4ie5ft7s5ne7\'s7s6k7s4ock7s3mail5n6\'s4en3plane8\'s8s4ort7\'s7s3share5ip7s4pace5eed4trike9s7p8s3tight5me4ouch4ran3wave7s5y6\'s6s4ing7s3y2sha3ling6n2tken2wa1ja3j3r3x3y1ka3i3rd2bar4sh2el3n4s3r4s3y2htar2i3n4s2re3idge3on2sler2zo4\'s4s1la3i4n5e4r3m3n4\'s4d4e4n3r4d4m5\'s5ed5s3s3yne2ba4ch4n5k5s4ugh3ee4n4r5g5n5s5t6\'s6s3ie4n3o3recht4ight8\'s4o3um5\'s5s4s2can5\'s3ee3ide5s3o4\'s4ck4n4rn4tt4ve6s2da4y3eburgh4n4r3i4n4s3o4us3red6ge5te4ic6h5dge5n6\'s3us3win4yn3ys2ec3en3house3m4an3ne3ph3rt5s3ve3wife5ne5ves3x4s3y2fa4\'s3ie4n5\'s3ons6e4rd3re5d5y2gae4l4r3er3ie5rs3ol4m3y2i3\'s3ce3e3ff3g4ht4n5ed5s3ke5s3ne5s3ve3x2ka4nes3ene6s3ire2la4h4in5re5s4n4r5d6t4y5ed5s3baugh4ee4right3cock5rn3day4redge3ee4ge6d4man4n5\'s5e5s4r5s5t4y5\'s5ne5s3good3i4ck4e5d6\'s5s4n5g4s3man4on6d3net4utt3or4t5s4w5ed5s4y5s3phin4ort3red4ight3sbrook4et4house4op6p4pice4tate8\'s5on4up3tel4ime4on5p3ude6s4m5s4re6d3waste4eiss3y4\'s4n4s2ma4l4n5d4s4y3er3gren3o4n5d6s4s5t3quist3y4s2oe3ft3i4s3n4e4g5e5s3of3t3ud3ys5e2pa4ugh3er5n5s5t4x3ha5\'s4in4onse3in5e3o2quist2read4d3ight3oy2sace3brook8\'s8s3dorf3gaard3ip3o4p3pach5ugh3thom4on3up2ta4i5r4r5s4y3er5ed5s3fest3haus4err4off5rp5ugh6se3ice3land3man6\'s6n3o4id4m4n4s3ra4on3schul3us2u3m4s3n2va4h4n4re3ear4s4y3in4s4te3ord2ward4ys3in5e3ood3yn2y3ce3s2za4\'s3ene1mal4\'s3n4n3r4\'s3ss5ed3x3ze5d2bac4se3er5\'s5g5s3le5d5r5s4in3orn4y3ra4it5z4ose3uehl4rn4sh6ed2ca4st3ole4r5e2dahl6\'s3ec4k3ur2een3ll3n4d5s4t3r3s\'s4ville3v3x3y2fac2gen5\'s2herst3oist2i3ck3d4e5s4st3e3n4e3r4\'s3s4h4s3t2man5n3een3o4n5s2o3k3n4g5st3r4e3s4s3unt6s4r2pad4l3co3ere6s4x3le4y3ol2r3aam3e4in4p3ine3o2sbaugh3co3den3ler3outh3tar4er4rad4utz2tech3rack5k6\'s2uck3se5d2vest2way2y3\'s3x1na3c3l3nd3s4t2cel5l3ho5r6\'s6ed6s3ient7s3rum3til2dal3el4r5s5t4s3i4e4ng4s3ler3o3rade5e5s4e5e6n5i5j5s6s5u5w6\'s6s5y4ic6h6k5es5st4oid7s5s4us4y4zej3y4\'s2ette3w2gel5\'s5l6e5s4r5ed5s5t3i4e3le5d5r6s5s5y4im5n6g4o5s3ry3stadt5rom8s3uish7ed4s3y2halt2ikst3se2ja2ker3lam4e5s5t6s3ney3rom4um2na4\'s4l5s4n4s4ud3eal4n4tt6e4x5ed3ick4e5\'s4s3o4unce8d4y5ed5s3ul5led4m3y2o3de5s3int3n2rig2sa4\'s4id4ng3chel5luss5utz4om6b3el5l5m4tt3gar6\'s3han3i4n3ley3ohn4n3pach5ugh3tead5tt5y4ice5ss3wer6\'s6ed6s2tal4r5\'s3czak3e4c4d4ll4nne4s3hem6s5s4ill7s5s4on4rax3i4c5s4ll4que7s4s3le5r6ed6s5y3oine4l4n4on4s5h3ril5m3sy3werp4ine2us2vil2war4y3ell3yl5l2xious2y2za4c3us1oi2n2un4\'s1p2ace4s3rt2car2ec4\'s3l4ike3x2fel2gar2hid5s2iece3ng2lin3omb2pall6ed6s3eal6ed6s5r6ed6s5se7d4l5l5t4nd4rt3laud7s6se4e5\'s5ans5s5t4ied6s5n4y3oint7s3raise8d4ise7d4o5ach8ed5ve7d7s2ra3il5\'s5e3on5s2sell4y3o3tar2ter3ly1qua3irre1ra3b4s3l3n4t3u3vind2ba4t4ugh3ed4l4nz3o4r4ur3y4\'s2cade6s4nd5e3hard4bold4duke4er6\'s6d6s5s5y4ie5ng5ve7d7s4ly4way3o4\'s4s3tic2da4th3een4lle4n5\'s5e5t3in4s4th3ley3more3oin4lph4r4yne3ra4ey3shiel4ley2el3n4\'t4d5s5t4s4t5z4z3y2gall3ent3o4\'s4n5ne4t3ue5d5s4s3yle5l2i3c3d3e4s3s4e2jo3un2kin5\'s3la5\'s3o4se3wright2ledge4en4n5e6\'s4tte4y3ie4n5e3yne2man5d6t4s3band7s4rust3chair8s4o5\'s3el4n5t4r4y5\'s3field3ies4n5g3oire7s4ld4n5d5k4r5ed4ur3pit6s3rest7s3stead5rad6ong9\'s3tec5k6\'s3wood3y4\'s2nal5l4tt4ud5lt4z3ell6e7\'s4r4tt6e4y3hold6t3ie3o4ld6\'s6s4t5t6s4w4x3stein3tson4zen3wine3zen2o3n4e4s3s4e3und4se6d2pa3in2quette2raign7ed4nge7d5t6s4y5ed5s3ears4st6s3ick4s4ve6d6s3ow5\'s5s3upe2sdale3ehole4s3hia3on5s4v2tcarve8d3er4s3ful3hur6\'s6s3ie4s5t6\'s6s3ley3man3ois4n3ra5\'s4ip3sy3ur4s3work7s3y4\'s2um3p2va4d4l4y3el4y3id4n5\'s5d2wen3ood2y2zate1sa3f3t3y2bell3ill3ridge3y2cap3end6s5t3her4off3ii3lad3ot5t3ribe7d7s2da2gard2ha4me6d4re3baugh4rook4urn4y3craft5eek5oft3down3e\'s4n4r4s4ville4y3ford3is5h3land7\'s4ey6\'s4in6e4ock3man4ead4ore3ok4re3ram3tec6\'s4on6\'s4ray7s3ur5st3ville3well4ood5rth3y2ia4\'s4n5s3c4s3de5s2ka4nce3er5\'s5s4w4y3in5\'s5g5s3o2lan3eep3in2man3us2ner2pect6s4n5\'s5s4r3halt3in5\'s4re6d5in7\'s3lund3nes2quith2sad5\'s4f4il6ed6s4m4ult7s4y5s3ent4rt6s4s5s6ed4t5s3hole7s3ign6ed6s4st6s3ort3uage7d4me6d6s4re6d6s2ta4ire3er5s3hma3in3le5y3on4r5\'s5e4und7s3ra5\'s5l5y4ed4id6e4o5s3ute2us2win1ta2chley3o4r2ek3n3r2ha4ns4s3earn4ne5s4y3ie3lete7\'s7s4one3wart2kin5s2la4n4s3er4y2man3el2nip2oll3m4s3n4e3p3r2ra2ta4ch6ed5k6ed6s4in6ed6s4r5d3empt7s4nd6s4st6s3ic5s4e4red3lee3ract7s4idge3une6d3wood7s2well3ood4rth1ubel4r5t3in3le3rey4y3urn2chter3kland3lair3oin4tt3tion7\'s7ed7s2das3en4t5te3i4\'s4s4t5s3ran4ey4ic5s4y3win2el3n3r4back2g3at3er5s3ment3sburg3ur5s4st6\'s6e2ker2ltman2man5n3ent2ngier3tie2ra4l4nd3ich3um2sbrooks4urn3chwitz3ley3man4us3pey4ice3sie3tad5t4ell5n6\'s5r6e4ill5n6\'s6e4on4ral7s5o6n2ten3hement5r4or6\'s6ed6s3o4\'s4n4s3rey4y3umn6\'s2vil2xton2yeung2zenne1v2a3il5ed3nt5s2co2del2e3n4ge6d4t3r4aged4s5e4t5s3y2i3ce3d3s3v4\'s2mark2ner4t2oid5s3n4\'s3w4ed2ram3ett3il4m2tex1wacs3d3it5s3ke3lt3n3rd5s4e3sh3y4s2brey2esome4truck2ful5ly2hile2kward2ning2oke3l2ry2trey1xa3\'s2el3s2ford2id3s2le4s4y3ine3on2on4s2som2tell3man3on1yars2bar2cock2dar3in2er4s5t3sha2gen2kroyd2ler4sworth3ing3mer3or3sworth3ward4in4orth2mond2o3n3tte3ub2scue2yad5\'s4sh1zar2bell3ill2har5\'s2ides3z2meer2off3res2tar3ec5s2ure0b\'gosh2nai1a2\'athism8t9s2albek6q2ba4\'s4r5\'s3bage4it6\'s6t7\'s7s4le6d6r7s3cock3el4r5s4tte3ic5h4es4k4n4sh3ka3oon6\'s6s3son3u3y4\'s2ca4ll3chi5us4i4us3ha5nd5r4e\'s5lors5r6t4ler4man7n4ner4rach4tel7l4us3ik3kache8s4bite5oard9s6ne8s4date8s5oor8s5rop8s4end7s5r6\'s6s4field9s6re4ground9ds4hand6us5oe7s4ing4lash5ess5ight9s6st5og7ged7s5und4man4pack8s4rest8s5oom8s4saw7s5eat8s6t5ide8s5lap7sh6ide5pin5tage7irs6itch6op6reet9ts7oke8m4track9ed9s4up6s5s4ward8s6sh5oods4yard8s3on5\'s4rn4t5e3us2da4l4ss3ders3eau6x4n5\'s4r3ger6\'s6ed6s5s5tt4ley3land7s4ey4y3man3ness3our3u3y2echle4ker3rwald3ten4jer3z4a2ffa4le6d6s2gan3by3dad4on3el5s4nt3ful3gage4ett4ie5ng4ott4y3hdad7\'s4li3ley3man3nall4ell3pipe7s3sby4haw3uette3well2ham4n3ir3ler3man3ner4hof4sen3rain7\'s2ie4r3la5rd4by4er5y6\'s6s4ie5ff7s5n6g4lie5y4on5r5ut7s4y5n3nbridge4erd4ter5on3rnco3sden4ley3ted4ing4y3ul5\'s2ja2ka3eman4r5\'s5s4ware5ell4y5\'s3ing3ken5r6\'s6s3ley3os3rie3shi3u2la4k4n5ce7d4rt4s5h4zs3bach4i4o3cer4om5r3dauf4er5v5z4i5ng4ly4ner6ss4o5ck5r4ree5ic6dge6ge5y4ur5s4win7\'s3een4ful4r4y3fanz4our3i4k4n5g5t4s3kan6s4com4in6g4o4y3la5d6e6s5nce5rd7\'s5s6t7s4club5ock8s4er5t6\'s6s5w4game4i5ett5n6g4man5er4o5n5on7ed7s5r5t6s5u5w6e4park8s5oint9s4room8s4weg5ig7\'s4y5\'s3mer5s4y3og5h4n4w3sa5m4baugh4er4ley4ter3ter4hrop4ic6s4o4sa4zell6r3zac4er2mba5ch4er6g4i4oo4rick4urg3ford3ut2nach4l4s3ca5ire4o5r6p7\'s4roft8\'s4serve5hares4tec3da5g6e7d5i6d5r4ed5l5r4ied5ng5t6s4ow6\'s4shell5tand4width4y3et4y3field4ord3gee5r6s6t4hart4ing5sh4kok7\'s4la5e6s4o5r3ick4k4s5h6ed3ja4o3kbook4card8s5orp4east5n5r6\'s6s6t5y4head4ing7\'s4note8s4o4roll8ed8s5upt4s\'s5hare9s5on5ton3nan4er6\'s6s4ick5ng7s4on3os4un3pais4once3quet7s5o\'s3sal4hee3ta5m6\'s6s4er6ed4le4on4u3ville3wart3xquote3ya5n5s4u3zhaf2pley3na3tist7e7s5ze7d2ra4ch5k4ff4k4m4n4sch5h4th3ba5sh4eau5e5l6l7s6s5r6\'s6s5tte4ie6\'s6s5n4o5ne5ur7\'s4ra5e4y3ca4ia4lay7\'s7s5ift4o5\'s5mb4roft4us4zak3dell5n4in4o5lf6ph5n4rick4sley4ulf6ph4well3efoot4is4ly4ns5ts4st4y3field4knecht4oot4uss3ga5in7ed7s5r5s4er5s4ing4man7n4o3ham4orst3i4\'s4ch4l5e4ng6\'s6s4s5h4te6s3kai5n4doll5ull4eley5r6s5tt5y4hurst4in6g4ley5ow4man4o5w4sdale5hire4us3lage4ett5y4oon5w6e3man4ore3na5rd7\'s7s5s4ell5r5t6t7\'s7e5y6\'s6s4field4hard8t7t5ill5ouse4ick5sh4o4storm4um4well4y5ard3o4id4n5\'s5e6\'s5s4que4s3ra5ck7s5ge7d5s5tt4e5l6ed6l6s5n6s5t6t7e4ick7\'s5e6ntes5ng7s5s6h5tt4o5n6\'s6e5om5s5w6s4us4y5\'s3schel4ky4ness4on4tad5ow3ta5k4ee5k5l6l6s6t5n5r6ed4ha5el7me9\'s5old5ram4ko5us4l5e6s6tt8\'s6y5ing5ow4man5ess4nick6k4o5k5l5n6\'s5o5s6ch6h5w4ram4us3uch3wick2sa4l5t6s4m3cay4o5m3den3e\'s4ball8\'s8s5oard9s4l5ess5ine8s4man5ent8s4r4s4y3ford3gall3ha5m5r5w4er6s5s4ford5ul4ing5r4or6e3i4c5\'s5h5s4e4l5e4m5\'s4n5g5s4s4x3ket6s6t7e4in6g6s3le3ner5tt4ight3on3quez3ra3s\'s4a5m4es5t6t7e4ford4ham4i5n5r6\'s5st7s4ler4man4o5on3ta5rd7\'s7s4ed5n4ian5en5lle5n6g5on7s4ogne8\'s5n6e5w4yr3u3well3ye2taan4n4t3boy6s3ches3dorf3ed4man4sville4y3her6s4gate4ing4rick5obe8s6om8s4tub7s4urst8\'s3ie4k5s3ley3man3on5s4r3ra4es3son6\'s3ted5lle8\'s5n5r6ed6s5y4in6g5s4le6\'s6d6s4on4y3us3y3zel5r2uble6s5itz3com4um5s3der4oin3er5s3ghan5er5man4uess5s3knecht5ight3man6n4bach4el5r6t4gard8t7t4hardt4stark3sman3tzer3wens3xite3za2va3er3is2wden4y3er2xa3ley3ter6\'s2yar5d3bank7\'s7s3er5\'s5s4sian3ing3lee5n5ss5y4iff5s6s4on5r4y3man3nard4ham3og4nne4u5s5th3reuth3side3town4ree7\'s3uk4l4s3watch2zaar6s4n4r3emore3han3ile3zell4le1c1eaber4out3ch\'s5am5ball9s5em6r6s5front9ts5head9s5ing5side5um5y4om5n6s3ded4ing4le6s5ing4work4y3gan4en4le6\'s6s6y3han3ker4ley5ike4man7\'s3ler5ton3man4er4ing5sh4on3ntown3ra4ded6n5more5slee8y6town4er6s4field4ing7s5sh4man4up4y3sley4on4tie5ly5on3ten5r6s4ie5ng7s4le6s4nik7s4on4rix4son4tie5y4y3ubien4cage5haine7mp6ene7sne5oup4det7te5in5oin5reau6y4ford7t5rere4lac5ieu4mont4pre4ties5y4vais3van4en5r6s4in5s3zer4ley2bber4its3e4\'s4ar5u4e4r3itch3op4ut2calm6ed4me4use3ca3hard4er4ler4tel5hold5le5ol7d3ka4el5r6\'s6s6t5t6t4ford4ham4i5e4ler6s6y5und4man7n4nell6r4om5n6ed6s4stead6rand7om4um4with8\'s7t5orth9\'s4y3nel3o4me6s4r5\'s3raft3ton3var2da4rd3bug6s3ded4ing4oe5rs5w3eck6ed4l5l3ford3good3ient3ke3lam3nar6z4er4orz3ore3pan6s3rock5om7s3saul4ide4ole4pread4traw3time3well2eba\'s4e5\'s5s4y3cham7\'s5craft5er5ler5wood5y4roft3die4le4y3fing4steak4y3ghly4le3hive4ler3ker4man3ler3man4er3ney4ken3per6s4ing3rman4s\'s4y3sley4on3tle6s4on3ver6s3zley2fall6s3ell3fa3it5s3ore5t3riend8s2gan4t4y3el4man4r4t5s3gar6s4ing3hin3in5\'s5s3ley3naud3ot3rudge3uile7d4n2half4n4r4ve6d6s3ead4ld4st3ind6s3le5r4ing3mer3ner5y4ing4ken3of5f4ld4ove7s3rend7s7t6s4ing4le4man7n2ier5sdorf3ge\'s5l5s4hley5tol3jing7\'s3ler4fuss4in4man3ng5\'s5s4y3ra4ut6\'s3sel5r4ner4sel3tel5r4zel2jar3i2kaa4ert3er5\'s3ins3ker4i2la4ir6e4k4nd4te3cher5ing4ourt3den4in6g4ock5n3em4n4t4w3fast4er4ield4ord4ry3gard4e5r4ian7s5que8\'s5um7\'s4o4rade8\'s6ve3i4ch4e5d5f6s5r5s5ve7d7s4n4tz4ze3ka4in4nap4o3la5h5nd5r6d5s4boy4core8\'s4eau5r5ville6ue5w4hop7s4i5ed6s5n6g5s4man5on6re4o5n5w6\'s6ed6s4rose4south9\'s4um4ville4wood4y3man4ont5re3nap4ick3o4ff4it4ng6ed6s4us4v5e6d4w3ser4haw4ky4on3ted5r4ing4on4ram6n4sville4way3ue3va4eal4ille5n4oir3y3zberg8s4er2man3bry3ent3is5s3oan6ed6s3use6d2na4k4rd3bow4rook3cher7s6s5ley5mark9\'s9s4sik3da5ll4ed5l6e5r6\'s6s4ick5g5ng5x4ler4orf4y3e4ath4cke4ke4l4s5ch5h4t5\'s3fer4ield4ord3gal6s4el4ston4tson4uet3ham3i4ght7s5n4n5g4sh4tes3ja4y3ker6t4o3late4ox3ner5t6t7\'s7e7s5y4ick5e5ng6k5on5s5tt4o4y3o4ist5t4y3sel5n4hoof4ing4kin4ley4man4on6\'s4tock3ten5r4hall4ler6y7\'s5y4o5n4sen7\'s5on4zel6n3ware5y3yo3z\'s4el5ne5s4ie5ne6g2ougher2queath8ed5st7s5tte2ra4n4rd4te3ber4ick3caw4htold4or3dahl5n3eave7d4ft4nd6s6t5s5t4sford4t5s3gan4dahl5oll6rf4eman8n5n5r6\'s5s5t5y4feld4gren4hof7f4in4land5ing5und4man7n4ner4quist4ren4sma5tedt7in7n6rand7om4thold4um3how3ing4sh3ka4el6ey8\'s5n5y4land5ee6y5ine4man4o5ff4shire9s5on3lack5nd4et6\'s5x4in6\'s6g5tz4ottes3man6\'s6s4el4udes3na5be5l5rd7\'s7s5s5t6h5y4bach4eice5r5t6t5y4hard8t7t5eim4i5ce6k5e6\'s5ng4sen5on5tein9\'s9s4tsen6on4y3o4n3quist3ra5\'s5rd4eth6t5y4i5dge5e6s5ll5s4ong4y5\'s3serk4had4on4tein3ta4els4ha5old7f4i5e5l6de5n4ke4old5n4rade6m6n7d4y3ube3wald4ick4yn3yl3zin6s2sant4w3chloss3eech7ed4iged4t3hears4loss4ore3ide6s4ege7d3ner6\'s3peak7s4oke3sent5r6t5tte5y4ie4ler4o5n4y3ted5r4ial5ng4ow6ed6s4rode4ul4wick3wick2ta4ke4r4s3cha5er3el3hann7e5rd7s4el6l4page4une3ide3ke5r3ley3ook3ray6ed6s3schart4ey4ill4y5\'s3ta4cher4e5n5r6ed6s5s4i5n6g5s4man7\'s4ner4on5r6s4y5\'s3ween7s4ixt3zer4ler4old2ula5h3ry5\'s3tel4hin3ys2van5s4rd3el5led4n5s4r5s3il5l6e4n5s4s3mark3y2ware3itch7ed3ley2xley2yer5le7in5s6dorf3mer3non3ond3tout2zaire3dek3ek3ner3old1hagwan3kta3ngra3rat6h3tia4ti2iksha3rud2opal3sle2utan4to6\'s1ias4ed3z2ba3bee4ins4o4y3eau6lt4e4r3i4\'s3le5\'s5s3y2cep5s3hon4sel3kel6l5r6ed6s6t5tt4ford4ham6rt4ing4le6r6y4more4nell6r4sler4wit2dco5s3den5r6\'s6s4ie5ng5x4le6\'s4y3en3good3ing3lack4o5\'s3well4ill2ebel5r3da3gel3hle6r3ker3la5k5t4by4en5r4ski3nstock3rbaum5usse4er4i4lein6y5y4ma6n7n4nat4wirth4y3ser3ver2ffle2gan3bee4ie4y3eyes3foot5rd3gar4er6s5st4ie6s5ns3ham4orn7s3ley4in4ow3nell5ss3os4t5s3ram3sby3time3wig6s4ood2hac2jac4n3ur2ker5s3in5g3o4\'s2la3bao6\'s4o4rey5o4y3dner3ek3ger3ings3ka4ing4o3lard4board9\'s9s4er5t6s6t4fold4iard8s5ck5e5g5ng7s5on7s7th9s5ps4man4on5w6ed6s4up6s4y5\'s3ow3ski5y4on3tmore4on3y4k2ma3bo5s2na3chy3del5r6s4ing7s4le6s6y3ette3field4ord3ga4el5r5s4ham4ing4le6y4man4o3ion3kley3ner5y4ie5ng3stock2o3\'s3me5s3s2plane3pus2rch\'s5all6rd5er6tt5field4khead3dbrain4cage4dog4en5r6s4house4ie6d6s4life6ke4man4sall5eed6ll6ye5ong4well4y3eme6s3kel6and5tt5y4head5off6lz4land4ner4y3ley3man4id6\'s3nbaum4ey4ie3o4n4s3ren3tcher4hday8s5ing5mark9s5place5rate9s6ight9ts4le6y7\'s2sbee4ing3cayne4hel5of7f4oe4uit7s3ek4l4r3her4off5p6\'s6s3ig3kup3marck8\'s6k4uth3on3ping3quit3sell5n5t6t7e5y4o5n3tline4ro2tar3ches5ing5y4oin7s3er4size3her3ing3ner5y3sy3tel5n5r6s4ick5ng4le4man4ner4on4y3zer2valve7s3en5s3in5s3ouac2xby3el3ler2zarre3et3mart3rate3ub3zell4y1jelland2orklund5man4nstad1labber7s3chly4kard5ball6ird9s6oard9ds6urn5en7ed7s6r6st6tt5foot7rd5ham7wk9\'s9s6eath6urst5ie5jack5ledge7y6ist6ock5mail9ed7n6er6on7re6un8\'s5ness5out8s5pool5rock5sburg6hear8r7ire6mith6on6tock8n9e9e\'s5top5well6ood3dder7s4ed5n4ing4ow3esing3gden3ha4nik4ut3ikie4sdell5er3keley8\'s6y7\'s5man6ore5ney8\'s5r5slee8y5y4ley4ney3lack4ock3meless5strorm4ing4pied3nca5ett5hard9\'s9s6et8t9e6field5mange5o4da5er5ford5in7g5ly5ness5o6n4ey4ford4ken6t7s5ie7s6ng5ley6y7\'s5y4sett4ton3ring3sco4del7l4er4i5ng4ko4sie7\'s4tdown5ed6r5ing5off4zak5czyk3tant4chford6ley4her4nik4ter5ner3user5tein4velt3ydon4lock4ney3zek5r6s5s4ing2eacher8s6ing4ker6st5ley5ness7y4ry3cha5er5ley5man4ker3dsoe3ecker4ding4ker4ping3gen3icher4er4ler7s3lloch3mish7ed3nda6x5ed6r7s5ing4heim3ser4ses5ing8s3then3vens4ins3wett4itt2ida3ghted3ley3ncoe4ded6r7\'s7s5fold5ing5ly5ness5side4ken5ing3scoll4sett5ful4ter7ed7s3thely4stein4zen6r7\'s6s5krieg3ven3zard4zard8s2oated5ing3bby3cher4kade8s6ge5chain5er7s5head9s6ouse5ing3dgett3edel5orn4mer5ker3gger7s5ing3mberg4gren4kvist4quist4strom3ndell6r6st5ie6n3odbath5ed5good5hound9ds5ied5less6ine9s5shed6tain9ned9ns7one7ream6worth5worth5y4mberg9\'s5er7s5field5ing5quist4per7s3sser5om7ed7s3tches6ing6y4nick4ted6r5ing3uses3wdried8s6y4er6s4fish4gun7s4hard8s5ole8s4ing4job7s4out7s4pipe8s4torch4up4y3xham4om4som3yer2ubaugh4ber3dgeon8ed3ebeard6ll8s5ird8s5lood9s4chip4eyed4field4grass4ing5sh4jay5eans4law4mel4ness4print9s4r4st6ein6ine6one5y4tooth4y3ffer5ing4ord3hdorn3ing4sh3mberg4er4quist4stein3ndall5ell6r7ed7s4ted6r6st5ing5ly5ness3rring5y4ted5on3shes5ing4ter2yler3stone1oa3rda5bent5ed6r7s5game9s5ing8s5man5room9s5walk9s4man3s4ted5ful5ing3ted5rs4house4ing4lift8\'s8s5oad8s4man5en\'s4ner4right4swain4wright4yard3z2back4k3ber5tt7e4i5e5n6g5tt7\'s7s4le6d6s5ing4o4y5\'s3cat6s3eck4k4r5g3ick3litt3o3row3sled3zien2ca3ce4ia3ek3hco4es4ner4ram3ian3kman4us3ock4ok3use2da3den4ie4y3ell4n4y3i4ce4e5d5s4n3kin6s3le5y3man4er3nar4er3o3well3y4\'s2eckel6r5man8n3der4ing3ger3hle6r7t4mer5ke4ner5ing5lein3ing6\'s3ker3lens4kow4man4ter3nig3pple3rger4man4ner4sma3sak4el5n4ky6\'s6s3tcher4tcher5ger5ner2ffa4o3ors2gacz4n4r5d5t3dan4en4on3en4r5t4y5ed3gan4ess4ing4le6d6s4us3ie4n3le3nar4er3or3us5z2hac4ll4n4rt3en3land4e5n5r4in6g4ken4man7n3man4er3nen5r6t5t4hoff4ing4sack3on3ren5r2ilard4eau5r6s4ing3sclair4e5\'s5n4i4seau4vert3tnott3vin2ker3or3sen2la4m4n5d4r5\'s3com3da4en5r5st4face4in6g4ly4man4ness4on4uc6\'s3ek4n4r4ware4y5n3ger6\'s3ich5k4n5e5g3ker4ow3la5nd5rd4en5r4ig5n6g4man7n4ocks5re4y3on3sa5\'s4er4hoi7\'s4on4tad5er7ed7s3ted5n5r4house4ing4on4zmann\'s9s3us3yard2mag4n4r3ba5rd5st5y6\'s4eck5r6\'s6g6s4ing7s4shell9s3er3mer2na4r3czek3dage5r4ed4i5ng4ra4y3ebrake4less4nfant4r4steel4y3field3gard4ers4jin4o5s3ham3i4er4n5g3jour3ker6s3neau5ll5r5t6t7e5y4ie6\'s5n4or4y3o4\'s3sai5ll4er3ta3um4s3ville3well4it6\'s3y3zo2oby3dle6s4y3e4e3gie3her3ing3kcase4end7s5r6\'s6s4ie6s5n6g7s5sh4let7s4man6rk8s4note8s4out4shelf8ves6op8s5mith5tand9s6op8s7re9s4worm3mbox4er6s4ing4let4sma4town3ndocks4stra4ton4ville3ras4da6\'s4ish4man4stin3sted6r7\'s7s5ing3ted5n4hby5man5royd4ie6s5ng4leg7s4on4strap9s4y3zer4ing4y2peep3ha3per6s2quist2ra4h4k4l4x3ba3chard8t5elt6rs7t3da5\'s5s4eau7x5n6\'s5r6\'s6ed6s4man4ner4well3edom4k4l5l4n5\'s4r3gelt5n5r6t5s6s4hi4ia4man7n4strom4wardt3ic4n5g4s3ja5s3land7\'s3man6\'s6n3neman8n5r4holdt6rst4man4stein3o4ff4n4s4ugh7\'s7s3quez3ras4ell4is4off5r5w6ed6s3seth4ki4od4uk3tel5n4hwick4le4ner5ick4on3uch4ff4m4p3ys2sak4rge3chee6n6rt5witz4ia4o3eman4r3hart4ears5ll5r6s3kin4o3ley3ma5n3o4m3qi4uez3s\'s4ard6t4en5rt5s4hardt7t4i5e4man4o4y3ter4ian5c6k4ock5n6\'s4ra5om4wick3well4orth2tfly3ha5\'s5m6\'s4ell5r6ed6s4un4well3in3kin6s3ner3olf4n4s4x3sford3ta4cher4el5n4ger4ing4le6d6r7s6s4om6\'s6ed6s5rf7f4rell2uchard5er6y5ie3din4oin6r4reau8x3ffard3ghan5er5man5ner5ten7r6on4ie3ie3knight3lais5y4den6r7s5ing4er5t6te5y5z4lion4os4ter5on4ware3ma5n3ncer7s6s5ing5y4ded6r5ing5less5y4ties5y3quet7s3rbeau5on7s4deau4gault5eois6t5oin4land4newood4quin4ret4se\'s6s3ska4man4quet4sac3tell7e4in5que8s4on4ros4well3wens4kamp4man4sma3yer4gues3za2va4rd3ee4n4spa4y3ik4n5e2war5d3can3den4ish5tch4le4oin3el5l5s4n5s4r5s3ick4e4ng3ker3land4by4en5r6s5y4in6e6g7\'s4us3man6\'s4en5r3ring4on3ser5s4her4ing3yer2xcar6s3ell4r5\'s5s4s3ing6\'s3ley3well4ood3y2yack4n4r3cott7s3den4ston6un3er5s4tt6e3friend9\'s9s3hood3ish3kin6s4o3lan6d4en5ston9\'s4ston8\'s3nton3sel5n4on3ter4oy6s3um2za4rd5th3ek4ll6\'s4man3ic5h3man3o4s3tepe3za4i4o1p1raaksma3bant4ec4ham4son3cci5o4e\'s5let8s5r5s5well5y4her7\'s5feld4ing4kbill5een6n7s6r6t7s7t5in7s6sh5man5nell7y4y3dburn4co4dock5y4een5n5r4field5ord8\'s8s4ham4ish4lee7s6y7\'s7s4ner6y4shaw6er5treet9t\'s4tke4way5ell4y5\'s5s3endstroem3fford3ga5n4don4er4ger7s5ing3ham4man5in5s\'s3ided5ing5wood4ley5sford4nard5child5dead5er7d5less5storm9med9ms5tree5wash9ed5y4thwaite3jdas3kebill5field5man6en5r4ing3ley4ley4orne4y3mah5n4ble7s7tt4el5r4hall4lage5et7t8e6y4mer4pton4son4well3nagh5m5n4ca5h\'s6eau7s6ing6let9s5o4da6u5ed6is6l6n6r5ford5horst5i6ng6s7h8ed5l6e5name6er7w5o6\'s6n7\'s6w5s\'s5tner5vold5wein5y4er4ford4ham4i5ff7\'s5n4ki5o4na6m6n5en6r5ick6ng5ock6n5um4on4scom8b8e6um5field6ord5om6n7\'s5tad4tley6y5ner5on4um4yon3scade6n5o4el4field4hear8s6r7s5ness4il4ow4sard5eaux6ll6s6ur7x5field5o6\'s5y4well3tcher4on4tain5en5in5le5on4wurst3ucher6li4er4ghton4hau4ner5schweig6tein5wald3veheart5ly5r5st4ing4o3wer4ley5ing4ner5y3xton3yboy4er4field4man4ton3zda4eal6u5e5l6l5n4iel6rs5l6\'s6e6l4os4zel7l2ca3ko5\'s2eaches6ing4dbox5crumb5ed5fruit5ing5y4kage5down9s5er7s6y5fast9s6ield5ing5mate5neck5out8s5through9ughs5up7s5y4rley4sted6fed8ed9ds6ing6plate4ther6ing6less6y4zeale3bach3chbill5een6r5tel4ker4o3da4en3eches6ing4den7\'s6r7s5ing5love4land4zes6way5y3ger4man4uet3hmer3ier4ghner6ton4ner5ing4tbach7rth5haupt5kreutz5man5schwerdt5zman3land4sford3men5r4mer4ner3nda6\'s6n5el6n6r5le5on6r5sel4eman5r4gle4na6n7\'s7s5ecke6man6n6r5ing4ton5wood3on3sca5ia4ee5tte4hears4law5er5in5ow4nan5ick4seau6r7\'s6tte5ler5man5on4ter3then5ren4on4ton3uer4nig3vard4ets4ig5k3wer6\'s6s4ing4ry4ster4ton3yer6\'s3za4hnev8\'s2ia4n5\'s5d5t4r5cliff3bing3cco4kbat8s5el7l6r6y5house5le7r7y6in8\'s5man5ner5yard4om3dal4eau5groom9m\'s5n5sburg6maid9d\'s9ds4ge\'s6ford9th6head6man6port6r7s6s7tone9ne\'s6t7\'s7on8wn7t8e5ham5ing5man4ie4le6d4well3eant4fcase5er7s6st5ing8s5ly4gel6r4n5za4r4tzke3gade7s5nce4gstone4ham7\'s7s5tbill6en8ed8s7r7st6ly6man6ness6on6well4itte4man4nac5er3ley4lhart5iance8t5stein3mer4hall4mer5ing4stone3ndel5le7y4er5y4ghurst5ing5le5man5ton4ing4ker5ley8\'s6y5man8n9\'s4lee6y4ner4ser5field5on4tec5on3o4che4n3quemont3sbane5in5ois6n5urg4co6e4ker6t6y5i6n5ly5y4lin4on4sette6y5on4ter5le7d7s5ol7\'s6w3ta5in7\'s7s4cher7s4ian5sh4nell6y7\'s4o5il5n6s4tain6n5en5in5le7r7st5on3xey3zill4zi2oaches6ing4dband7se9d6each7nt5cast9s5dus5en7ed7s6r6st5head6urst5ie5ley6y5nax5pfoot5rick5side6treet6word5us5view5way8\'s6ell5y3beck5rg3cade7s4co4hu6re8s4ious4kbank5el6r7t6tt5haus6off7use5ie5ley6in8\'s5man8n5ner5smith5ton5way8\'s6ell3da4beck4en5r6\'s5ur4head4ie5n4kin4man4nax4rick5y4sky4y5\'s3ecker4ker4r5s3gan4den5on4na3iler7s5ing3kaw4en5r6\'s6ed6s4ing3lin4ly3man4berg4field9\'s4ide7s5ne4ley4mer4ont4well5ich3naugh4co6s4der4er4fman8\'s8s4ner4son5tein6on4te6\'s4wen5yn4y4zen6s3oded5ing5y4kbank5ehill6n7s6r5field5hart6urst5ing8s7s5line6yn8\'s5man5ner8\'s5s\'s6hire6ide6tone6ville9le\'s4mall5field5stick9ks3phy3shears4ki5y4nan4sard7t5eau6r6tte5man4trom3ten4hel7s6r7\'s7s4man4zman3ucek4dy4gham6er6man6ton4illard7et9te4ntas4ssard6eau7t4wer3ward4beat4der4er4nback5ell6r6st5field9ds5ie7s6ng8\'s6sh5lee7y6ie6ow5out8s5rigg5son6tein7one6ville4ser7s5ing3xson4ton3yard4hill3zek4man2ubeck3ce\'s4ie5te4ker5man5ner3der3echer5kner4gge7man9nn7n7r8\'s4mmer4ning4r3ford3ges4geman6r4man3ha3in5\'s5s4ses5ing3ley3mbach7k6ugh4er5tt4field4it6t4ley5ow4mel7l6r6t7t5itt5ond3na4ches5or4dage5idge6ge5tland4eau5i5ll7e5r5t6t7e8s5y4gard8t5er4i5ck5ng4jes4ken6r5horst5ow4ner5hilde4o5\'s4skill5man5on5vold5wick9\'s7g8\'s4tjen5on5y3sca5hi5o4ett7e4hes5fire9s5ing5work5y4ki5y4o4quely4seau6l7s4ter3tal4ing5sh4on4sche4us3yette4nes2yan5\'s5s5t4rs3den4ges4ie4on3en4r3mer3na4er3on3son2zeska3oska3ycki1s1t1ua2bar3ba4le6d6s5y3eck4l4r3ka3litz3oltz5z2case3cal4i4o3ek4y3han4en5r6t4heit5oltz7z4i5\'s4ko4man7n4ner4oltz6z4sbaum4ta5er4wald3kbee4el6s5t6s5y6e7s4hantz5oltz7z6rn4ing4land5e6d6s6w6y5in7g4man4nam5ell6r4o4shot5kin8s5tein4thorn4wheat4y3y3zek2day3den4ha6\'s5ist8s4ie6s5n6g4y5\'s3er3get6\'s6s4ing3ick6\'s4n3ka4e3long3ner5y4ick5k4y3reau4ow3son3var3zyn2echel7e5ner3gler3hler4ner4rer5ing5le3ker3ll4ow3na4ger4ing4o5s3r4ger4kle4ry3scher4ing3ter4ow4tner2fete3fa4er6ed6s5t6ed6s6t7\'s4in4kin4o5on5rd4ton4um4y3kin3ord2ga4i5\'s4j4y3bee3eye6d3ger6s4ies5ng4y3her3le5s3sy2hler3man3rman4ow2ick5\'s5s3e3l4der7\'s7s5ing8\'s8s5up7s4tin3sson4t3tron2jak2kar3er2la4t3bous3en5t4y3finch3ger5s4ing4rin3in3khead8s4ley4y3la5rd4dog7s6ze8d4en5r5t6s4fight9s5rog8s4head8s5orn8s4ied6s5ns5on5s6h5tt4man4och6k7\'s7s4pen4seye5hit4uck4y3man4er3ow3rush3son3tman3wark2mann3baugh4le5y3mer3pas6s4er6s4ing7s4kin4us4y3stead2nches5ing5y3da4ick4le6d6s4rick4schuh4y5\'s5s3gard4ee5r6t5y4le6d6r7s3ker6s4ley3nell5r5y4i5e6s5ng4y3ol3tain4en4in6g4on4rock4strock4yn3yan5rd3zl2ono3y4ant4ed4ing4s2pkus2rack4k4n5dt4s3ba5ch6k5ge5nk7\'s4idge4le6d6s5ing4ridge4y3cham6rd5ell6r6tt8e5field5ill4khard9t3da4ell5n6ed6s5tt7e4i5ck5n6e7\'s7s5tt4o5n4sall3eau6\'s6s4k4l5l4n4sh3feind4ield4ord3gan5rd4dorf4ee5on7ed5r6\'s6s6t5ss5t6t4graf4hardt7t5er5ley4in4lar7s5ing4man4ner4o5on5s5yne8\'s4y3ham5ns3i4ch4ed5s3kard6t4een5l5rt5t6t5y4hard8t7t5ead4ins5tt4land5e6y5ow5und4man4us3land5p6ped4eigh5sque5w5y4ing4y3ma5\'s5h5n6s4ese3nam5p5rd4dy4ell5r6s5ss5t6t7\'s7e5y4ham7\'s4ing7s5sh7ed4ley7\'s4out4s\'s5ide8\'s5tein5worth4up4worth3ow3pee6s4ing4o3rage4ell7\'s5r5ss4i5dge5ght5ll5s5tt4o5s5ugh8s6s5w6es6s4us6s4y3sey4ley4on4tein5ing5on3tis4ner6ss6tt4on6\'s3well4ick3y4\'s2sa4m3bee5y4in4oom5y6s4y3ch\'s5baum5er5man8n3eman4r4s4y3h\'s4a5rd6t5w4by4ee5l6l6s5r5s5y4ings4kin4man5en4nell4ong4way5hack9ed9s4y3ic5k4ed4ness5g3ker6\'s5y4irk3lease4oad7s3par3sa5rd4ell5n5r6t5s5y4i5e5ng4man3ta5rd4ed5r6s4i5er5n6g4le4o5s4y3well3y2tan5e3chart5er7\'s7ed7s5ko3eau3han3ka4us3ler6\'s6s3man3ner3rick4os3son3tars4er6ed6s4head4ing4ke4ler4ner4ock7s5n6ed6s4ram5ess8ed6y5ick5um5y3yl3zen5r4in2xbaum3om3ton2yback7s3er5\'s5s3ing3out6s2za4n4rd3bee4y3ek3zard7\'s7s4ell5r5s4feed4ing4word8s4y5\'s1yam3rs3s2bee2er4lein4s2field3ord2gone6s2ham2ker2land4w5s3er3ine6s3sma3und2ner3oe3um2pass6ed2ram3er3le3om4n5\'s3um2strom2us2way5s3ord0c\'mon1aba4l4n3bage4ie6s4y3ell4y3in5et\'s5s3le5\'s5c5d5s3o4k4ose4t5\'s3ral6l7\'s5nes2cace3cia3hes5t4ing4o3ique3kle3ld3ti4us2da4m3by3dell5n4ick5e6\'s6d6s4ock4y3ell4nce4t5s3iz3le3man4us3otte3re5s4one3well3y2esar6\'s6s2fe4s3fee5ine5y4rey3tan6s2gan3e\'s4s4y3le5y3ney3uas2hall4n3ill3ners3oon5t6s4uet2illebotte5ouet3ro5\'s3son4sie5on7s3tlin4o2jole6d3un5s2la4f4is4n3bert4os3cite4omp4utt3der4or4well8\'s3eb5s4f4r4y3fed\'s5e3gene7\'s4on4roup3hoon5un3i4f5f4ll6s4ph4se4te4x3kin6s3la5ce5is5n6d5s4back4ebs5n6s5r6\'s6s5y4ie6s5ng5s4ous7ed5w4um5s4y3ma5r6k6t7\'s5t6\'s4er5s6t4ing4ly4ness3nan4y3o4r3pers4is3tex4ha4on4rain6ns3vert5t5y4i5n6\'s6g4o3yx2ma4n3bell5r5x4ra5e5idge5on4urn4y5\'s3co3den6\'s3el5\'s5s4ra\'s3field3hi3ille3mack4er4ie4on4y3pa5ign8\'s8ed8s5u4bell8\'s8s4eau7\'s5n5r6s4field4ground9ds4i5ng5se4o5s4site8s4ton4us4y3ro4y5s3shaft8s3us2na4an4l5\'s5es5s4m4n4rd4s3by3can4el6ed6led6s5r6\'s6s4om4ro4un3dace4ee4ice5d5e6d6s4le6s5ish4or4y5\'s3ez3field4or6\'s3ham3in5e6s5g6s4on3ker6s3nan4ell5r5y4iff5ng4ock5n6\'s6s5t4y3o4e5d5s4n5\'s5s4y3rad4on3so5n4tar3teen7s5l5r5y4in4le6y5in5on4o5n6s5r6\'s6e6s4rall5ell8e4u4well4y3uck6s4p5p3vas6s7ed3west3yon6\'s6s2ouette2pcha4om3ece4hart4k4l5\'s5l6e4n4r5s4town3lan4e5s5y4in3o4n5e4te6\'s3pa4el5r4ing4o4y5\'s3ra4i5\'s5ce4on3shaw4ize7d4tan5ick5one4ule7s3tain7\'s7s4ion7ed7s5ve7s4or6s4ure7d7s3ut3well2ra4\'s4fe4s4t5s3baugh4ide7\'s5n6e4o5n6e6s5y4y3cass3da4board9s4ed5ll5n5r4iel5ff5n5s6s4on5on4well4y3een6ed6s5r6s4free5ul4l5ess4mark8\'s4plus4r4ss6e7d4w4y5\'s3gal4ile6l4o5\'s5es5s3hart3ibe4e4n5g4s3jack7ed7s3khuff3la5\'s5n6d4berg4e5en5n6e5ton5y4i5le5n6\'s6g7\'s5sle4o5ad7s5ck5n5s5ugh5w4sbad6erg5en5on7\'s5son5tadt6on6rom4ton7\'s4y5le7\'s4zon3ma5ck5n4el5n5r4ie5ke5ne4on5uche5y4y3nage5l5ud4eal5ll5r5tt5y4ley3o4b4che4l5\'s5e5s4n5e4use4w3pal4er5t6s4ing4ool5rt7s3ra5s4el6l5y6\'s4iage5ck5e6d6s5g6g5s4o5l6l7\'s5n5t6s5w4uth4y3sey4ick4on6\'s4ten7s4well3ta4ed5e5l6\'s6s5r6\'s6s4hage4ing4land5edge5idge4mell5ill4ner4on6s5on7s4rette5idge4wheel9s5right4y3uth3vel6l5r6\'s6s5y4ille8\'s5n6g7s3well4ile3y4l4n2sa4d4l5s4s4us3bah3cade7\'s7s4o3dorph3e\'s4bolt4in4load4s4work4y5\'s3grain3hatt4en5r5s5w6s4flow8s4ier7\'s7ed7s5n6g5on4less4man5ere8s5ore4on4way7s5ell3ing6s3ket6s5y3lin3ner3o4n3par4er6\'s6s3sar5tt4eb5l6l7s6s5ns5tte8s4ie5n5s4o5ck5n3ta4eel6n5l6l5n5r6s4ile6le5ng7s4le6\'s6s4ner4o5ff7s5n5r4part8s4rate8s5o6\'s6l3well2tain3bird3call7s4hall5er7\'s7s6s5ing8s5ment5up5word5y3er5ed5s3fish3harine9s5y4cart4ell5r6\'s6ine\'s9s6s5y4ie4leen4ode7s5lic8s4y5\'s3kins3ledge5tt4ike5n3nap4ip5ss3o4e4n5e3rett4on3skill8s4up3tell4le4o5n4y3walk2uble3cus3dal4ell4ill4le3ffman4ield3ghey5lin5man5ron3lder5ron4ey4field4king7s3sal4by4er5s5way8s5y4ing4tic3then5on6rn4ion7ed7s6us2va4n3ell4man4n4r5n6s5s4tt4y3in5g5s4tt3ness3ort2wley3ood3sl3thon6rn8e2xton2ya3enne4r3lin4or3man6s3son3ton3wood1b1c1d2s1e2ara4ley3sar4eless5r5s4ing2bu4\'s2cchi3i4l5\'s5e4n3o4s2dar5s3ed4r3ing3ras4ic2iling7s2ja3ka2la3eb5s4ne4ste3ia4e4ne4s3la5r6s4i5st4mark8\'s4net4o4phone9s5ro4star3mer3nik3o3so3tic6s2ment4x2ncall4i4or3ith6\'s3ser4or6ed6s4ure7d5s3taur7\'s7s4el6\'s5r6\'s6ed6re8\'s6s5x4ime7s4ner4ral7\'s7e6m5e6s6x5ist8s5o5ust8\'s4um3vill2phas4us2ra3bone3da3es3ise3mak3na4ey4y3o3ra4o3ska3tain4o4ron3us3vi5x3yl2sar5z3sna6\'s4pool2ta3ec3us2ylon2zanne7\'s1hablis4on5t3chere5i4in4ko4on3dbourne4dock4el4ick4li4ron4well5ick8\'s3ebol3fee6\'s5te4fee5in7s5y4in6g3gall4non4rin7ed3iken5in4m4ning5saw8s4ring5man8\'s6en4sson3jet3let6s4fant5in4ice4ker5ing5ley4lenge9d5is4mers6tte4oux4sty3mber7\'s7ed7s5lee7ss6in7ss5on4lee5ong4ness4pa6gne9s6ign5eau5ine5lain6in5ney5oux3na4ces6y5y4da5ler8\'s7y5on5ra6oss4el5y4gchun5er7s6s5ing5sho4in4ley4nel7\'s7ed7l8\'s7s5ing5on4os4son4tal5ed5ing4y3os3pa5s4ek5l6\'s6l7e4in4lain8s6n5in7\'s4man7\'s4nick4pel7l8e5ie5le4ter7s4ut3ra5de7s5sse4coal8s4en6\'s5st5tte4geback9ks6r7s6s6urs5ing6t5ois4la6nd6yne5een6ne6s\'s7ton9n\'s9wn6t6y7\'s5ie7\'s6ne6ze5ot7te9\'s5son5ton4main8e5er7s5ing4ney5ley5ock4on4pie4ren6tte5ing5on5y4ted6r7\'s7ed7s5ing6st8s5rand6es7use5well4vat4y5l3se\'s5n5r6s5s4in6g4ka4m4on4sis4tain5een6n7ed5ise8d3teau7x4field4ham4man5on4o4room4swood7rth4ted6l6r5in7g5y4wal5in4z\'s3ucer7\'s4dhry5oin4ffeur9\'s9ed9s4met4ncey6y4ssee4vin3vers5z4in5s5tz4ous3wla3yon3zen4ov2eadle4ney4pen7ed7s6r6st5ly5ness5o5skate4ted6r7s5ham5ing5um5wood3cchi4hen7\'s7s4kbook9s5er7ed7s6tts5ing5list9s5mate9s5off6ut8s5point9ts5up7s3ddar7s3ekbone9s5y4ly4rful5ing5y4secake6man6r6s5man5y4tah7s6l6n5ham4ver3fitz3imi3khov7\'s3lan4ette4lis4msford4sea7\'s3ma4clear4ed5l4fix4i5e5ns5se6t7s4lawn8\'s4o4yr3nard5ult4ette5y6\'s4gdu5xiang4ier4nai6ult4xiang3ong3rbourg4i5e5sh7ed4mak4ney5ick6n5off6w5y4ries5y6\'s4tkow5off4ub6s4y5l3sbro4her5ire4ley5ock4ney5ut7t4sboard9ds5er5her6ir5man5on4tang5ed6r7s5man5nut8s8t5on3tniks4win3uvront3vette4ies5k5s4rette5on7\'s4y5\'s5s3wer6s4ing4ning4y3yenne8\'s8s4ney2ia4ra4t3ba3chi4ken7\'s7ed7s4o5\'s5ine5ts3ded4ing4sey3efdom5fo5ly5tain9\'s9s4ngmai4sa3ffon5re3ggers4ney3kos3lblain9s4coat6te7t5utt4dbirth5care6raft5ener9\'s6rs5hood9s5ish5less6ike5ree7n8\'s8s7s8s7y4e5\'s4i5\'s5es5s4ler5ies6ng5y4mark4son4ton3mie4ney7s3na5\'s4en5se4nock4o5ok7s5y4tung5zy3pboard4com7\'s4ley4man5unk8s4ote4per5ing5y4soft3rac6\'s4co4on6\'s4ping5y3sam4el6ed6s4holm4m5an6r4olm5m4um4wick3ta4chat4lin7s4ra6\'s6o4ter5ick5um5y4wood3vas4ers3zek4mar2loe5\'s4rate5dane5ic6de6ne6s2miel2ocolat8e9s3icer7s6s7t4nski4r3kehold4ing3let4la3ma4ping4sky3ngqing4ko4tales3oses5ing5y3per4in4lin4per7\'s7s5ing5y4ra4stick9s3quette3ral6e6s4ba4dates4ic4ney4tle7d7s4us3sen4un3uinard3van3wder4ning2restman4tien3isco7e5man6on5sie6y5ta7l6church6el7n8ed6i7an9s7c7e8\'s8s7ne9\'s6lieb6man9\'s9n8s6ner6o7ff7n7ph9e6y7\'s5well3obak4mecast4nar5ic6s3usciel3yseis5ler8\'s8s5tal3zan2ua4h4n3ba5is4buck5y4u3ckie6ng5le7d7s6ing3dler4y4zik3gai4ging3i3kchi3la3mbley4ley4my4ney3nky4nel3ra4ch\'s6es6house6ill9\'s6man7en6well6yard4kin7\'s4lish4ning4ry3smir3tney4zpah2yron6\'s1iampa5i3nci4i3rdi4lo2ba4\'s3ro2cco3hon4y2der2era4i3sla6k5ik2fra2ga4r5s3na5\'s2hak3lar2lag3corp3ler5y4o3va2ma3ents3o2na3co3der6s4ie4ric4y5\'s3i3o3ram3thie4ron2occa3tti2pher3ri2ra3ca4le6\'s6d6s4on4uit7\'s7s5s3kin3one4s3rus2sar3co5\'s3ek3kei3lo3ney3sell4ie4na3tern7s3zek2ted3go3i4c4es4ng3ric5n6e5x4o5en5n6\'s4us3y4\'s2ucci3lla5o2vet3ic5s4l2zek3ik1laassen3baugh4ir4o5rn5ugh3ddagh3ffey4lin3gett4gett3iborn8e9\'s4mant8s5ing4rmont5ol5son3mber7ed4en4my4or6ed5ur4pdown5ett5ing6tt4shell3ncey5y6\'s4ging4in4king4nish4ton3pboard9s4ham4man4per5ing4ton7\'s3ra5\'s5n4cor4dy4emont5n6ce5tte5y4ice5dge5ne6s5s6se4ken5in5sburg6on6ton6ville4o4ridge6sse4y3sby4en4hes5ing4on4s\'s5en6s5ic7s6ng5less5man7te9s6en5on5room9s5y3tter3udet7te5ie6ne5son4sell6n6r6s5ing5on5sen3vette4in3wing4son3xon4ton3ybaugh5orn8e6urne5rook9s5urn4comb4ey4man5ont6re4pool8e4son4ton7\'s6r4well2eah4ner7s6st5ing5ly5ness5ser8s6ing5tha5up7s4rance5cut8s5er6st5ing5ly5man5ness5y4vage5eland6r3ckler7y5ner3eton3ghorn3land4land3mans4en6ce6s6t7s7z4mer5ie5ons5y4o5ns4son3ncher7s4ney4war3o3phane4per3rgy4ic6s4kin4mont3va4eland9\'s5n5r5trust4ie5te7\'s3well4is2iburn3che6d6s4kbait5er5ing5ner3ent6\'s6s3fford8\'s4ton3ggott3mate7s5x6ed4ber7s5ing4er3nard4cher7s6ing4es\'s4gan5er7\'s5ing5man4i5c6\'s6s5que4kscale9es4ton7\'s7s3o3pboard4pard5er7s5ing8s3ver2oaking5room3bber7ed3cker7s5ing5wise6ork3er4y3gging4ston3ister8ed8s3ning3onan5ey4tie3pper4ton3rox3sedown9s5ly5ness5r5s6t5t6s5up7s4ing7s4ser5on4ure7s3theshorse7time5ier8s6lde6ng4ted5ing4ure3uatre4dburst5ed5ing5less5y4ser3ver4is3ward4dus4er6s4ney5ing3ying2ubbing5y4house3cas4key5ing3eless4tt3gston3key3mping5y4sy3nker7s5y4y3ster7ed7s3tches6ing4ter7ed2yatt3burn3desdale3mene5r3tie1mos2x1net1oach\'s5es5ing5man3dy3kley3lson3rser3stal7\'s5ed6r7s5ing5line9s3te5d5s6ville4ing7s4ney4tail8s3xes4ing4um2bain6\'s6e4lt4ugh3bett4ins4le6d6r7\'s7s3en4rn5t4y3in3le5igh5ntz3o4l4s3ra5s4e4in3urn3web6s3y2ca4ine3ca4hi4ia4o4us3hin4les4ran7\'s7e3kburn8\'s4er5y6ed4field4ing4le6s5in4man4ney4pit7s4ran5ell5ill5oach6ft5um4tail8s4well8\'s4y3o4a4m4on6s4s2da4g4y3ding4le6d3ebase4d4r5re3ing3lin3ner3y2eburn3d4s3hlo3n3rce6d3y2fer3fee6\'s6n6s5l6t5r6s5y4ield5n6g6s4lin4man3ide4eld2gan4r3bill4urn3dell4ill3ema4nt4r3gin6s3hill4lan3ley3nac4ex3swell2han3ee4n5\'s4re6d6s3ick4ll3o4on4rt6s4st6s3ron2ia3ling3nage4er4ing4treau3pa3ro3tsville4us2ker3ie5\'s4ng3ley2la4\'s4b4n4o4s4w3bath5ugh4eck5rg6n6t4orn7e4urn4y5\'s5s3clough4ord3den5r5st4ly4ness4well3ebank5reath6ook4e5n4grove4man7\'s4n4r5idge4slaw5tock4tte4ville4y3fer4ord3gan5te7\'s4in4rove3i4n4s3la5ge5pse8d5r6d7s6ed6s5te4eague9\'s9s5ct7s5dge5en5ge5n5r5t6t7e5ville9e\'s5y4i5ck5de7s5e6r7\'s7s6s5n6g7e7s6s5s4man4oid5m6b5r6\'s4ude5m6s4ver4y3man4er3o4gne4mb4n5el7\'s7s4r5ed5s4ur6ed6s3pitts3quitt3son4ton5rip3tec5r4harp4ie4on4rain6ne8\'s5in4sfoot3umn6ed6s3vard4er6t4ille5n3well2ma4ir4n4s3bat6s4ee5r5st4ine7d7s6g4o4ust4y3cast7\'s3den5x3eau6x4back8s4down4ly4r5s4t5\'s5h5s4x3fed4ort7s4rey4y3ic5s4ng6s5s3ley4y3ma5ck5nd7\'s7s5s4ence8d6d7s6t7s5rce4ie6s5ns5sh5t6s4ode5n6s4une7s5te7s3o3pact7s5q6\'s5re7d7s5s6s4ean6u5l6led6s5te7s4her4ile7d7s4lain8ed8s8t9s5ete8s6x5ied7s5y4o5rt5se7d6t7s5te5und8s4ress8ed5int6se8d4ston4tek5on7\'s4u5s5te7s3rade7s3sat6\'s4tock3tois4rex2na4ir4l4n5t4rd3boy3ca5ve4eal7ed7s5de7s5it6ve8d5pt7s5rn7\'s7ed7s6t7s4ha5oid4ise4lave5ude8s4oct5rd7\'s7e5urse4rete4ur6red6s3demn7ed7s5nse8d5r4ie5t6t4o5m6s5n6e7d7s5r6s5s4ra6y5ey5on4uct7s3ehead8s4ly4y3fair4ect5r6red6s5ss7ed4ide7s5ne7d7s5rm7ed7s4late8s5ict8s4orm7ed7s5und8s4rere8s5ont8s4use7d3ga4don4eal7ed5r5st4o5\'s4rats5ess5ove3ic5s3join7ed4ul5re7d7s3kel5y4in4le5in7g4right3lan4ee5y4in4on5w4y3nan5ught9\'s4ect7s5ll6y5r6\'s6s5tt4ick5e6\'s5ff5ng5ve4ole5n5r6s5te7s4y3quer7ed7s6st8\'s8s3rac5d6\'s6es6s6t5il7\'s5n5th4ey4oe5w5y4y3science6ous5ript9s4ent7s5r6ve8d4ign7ed5s6t7s4ob5l6\'s6e7d7s5rt4tance7t8\'s8s6r5rain9ed9s9t9ts6ict6uct9s7e8d4ul6s6t7s5me7d7s3tac6t7s5in7ed7s5nt4el5mn6pt5nd7s6t7s5st7\'s7s5xt7s4i4ois5rt7s5s5ur7ed7s4ra6ct8\'s8s6n6s7t8s5ite6ve8d5ol7\'s7led7s3us3vair4ene7d7s6t7s5rge8d6se8d6t7s5x5y6ed6s4ict7\'s7s5lle5nce8d4oke7d5y6s3way4ell3yer6s2ochie3dy3gan4le3ing3kbook8\'s8s4er6s4ie6s5ng4man4out7s4sey5on5ton4ware3lant7s4baugh4er6s5st5y6\'s4idge5ng4ly4man4ness3mer3nan4er5y4radt5od3per6\'s6s4man3rs\'s3sa3ter3ver4ick2pa4s3co3eland8\'s4man4n3her3ied5s4ng3lan6d4ey6\'s6s4in3pa5ge4edge5e5l5ns5r6\'s6s5ss4in6g6s4le4ock3ra3sey3tic3us3y2ra4\'s4l5s4m4th3ban4eil5l6l7ed5t6t4in5t6t4o4ridge4u4y3cap3da5ge5y4ed5ll5r4ial7s5e5ll5ng5s4le6ss4ner4on6e7d4ray5ey4y3el5l4n4state9s4tech5te4y3gi3iell4nn6\'s6e5th3ken5r6n4ill5ng6s4ran4screw4um4wood4y3le5ss5tt5w5y4iss3mac6k5n4en4ick3na5ll4blume5read4cob5rib4eal5l6l7\'s7e5r6ed6s5t6t7e5y4feld5ield9s5orth4husk8s4iche6k5e6l7\'s5ng7\'s5sh4man5eal4stalk9s7rch4wall8\'s5ell4y3pses5man4us5z3ral6led5o4ect7s5ll5ne4ib5ck5e6re5n4ode7s5n5on5w4upt7s4y3sa5ge5ir4er5t4i4o5n3tege5land5n6s5r5s5x5z6e4i5n6e7s4land4ner4right3um3va4ette8s4in4o4us3win3y3zo2sa3by5\'s3cia3ell4ns4tte4y3griff5ove3i4c3lett3ma5ir5n4ic4o5\'s5s3ner3per3sa5ck7s5irt5t4et6te5y4in4man3ta5in5les5r6s5s4co4ed5n5r4in6g4ley5ow5y4ner7\'s4on4ra4ume7d7s3y2ta3elle3ham4ern4ran5on3man3ner5y4oir3o3ret3ta5ge5m4ee5n5r4le4man4o5m5n6\'s6ed6s4rell5ill4y3y2uches6tte9s5ing5man3dert3ey3fal3gar6s4hing5lan6in5ran3illard3ld\'ve5n\'t4ee4on4son5ton4tas5er5hard3ncil7\'s7s4sel7\'s7ed7l7s4tdown9s5ed6r7ed7s6ss5ies6ng5less5ries6y7\'s5y6\'s3per4land5e6\'s6d6r7s6s6y5ing8s4on6s3rage5nt4chaine6esne4ic4se\'s6n6r6s6y5ing5on4tade6ulds5eau6d6manche6r7\'s5house5ing6s5land6y5ney5ois5right6oom9s5ship5wright5yard9s4ville4y3sar4ens5r4in6\'s6s4teau8\'s4y3tant4ee4o4u5re3zens2val5t4s4ult3el5l4n5t4r5ed5s5t4t5s4y3ill6e4n4tz3y2wan5s4rd6\'s6s5t3bell7s4oy6\'s6s3den4rey3ell4n5s4r3ger4ill5rl7s3her6d3ie4n5g3les5y4ick7s5ng7\'s7s3man3per3ries3ser6t4lip2x\'s3en3on3well2yer3ly3ner2zad4rt3by3man3y3za4ens4i1rabby4ill4le4meat4tree3ckdown9s5el6r7s5head9s5ing5le7d7s6ing5pot8s4raft3ddock4er4ic4le6s4ock4y3fted5ing5on5sman7en5y3ger4gy4head4in4le4o4un3ighead5ie5o5slist3ker3mblit4er6\'s4mer5ing4ping5on7s5ton4ton3ndall8\'s5ell4er5sbill9ls5y4field6ll5ord4ial4king5shaft9ts5y4ley4mer5ore4nell6y5ies5y4or4shaw5ton8\'s3po4pie5y4ser5hoot3sh\'s5es5ing4ner3ter6ed6s4ia5ng4on4ty3vath4en6\'s6s5r5y4in6g7s3wfish5ord8\'s4ler6y5ing5y4mer4shaw3xi3ycraft4fish4on6s4ton3zies4y2eaking5y4mer5y4ses6y5man5on5y4te6s5ure8s3ches3dence5ur4it6\'s6s4le4o3ecy4den5on4gan4kmore6ur4lman5y4ping5y3gan5r4er4ger4o3han3ighton3ko3llin3mate4eans5ens5r4in3nshaw4welge3ole6s3peau3sap4cent8s5i5ott4on4pi6n5o4ses6y5ler5man5on5well5y4tar5ed5ing5mont4well3tchen4ien5n3utzfeldt3vasse4ice3wel4man5en2ibbage5ing3chlow5ton4ket7\'s7s3ddle4er3er3ger4ger4ler3hfield3lley5y3mean4i4mins4ping4son3ner4ges5ing3ppen5le7d7s3sci5o4es4hman8\'s4is4lip4man5on4pell6n6r5in5ly5ness5o5y4scross9sed5ey5low5man4ta6l5o6\'s4well3tcher6field6ley7ow4ic6\'s6s5que8d8s4on4ser4ter7s4zer3ven2oaker5ing4t5\'s5s3cco4e4het7ed4ker7\'s6tt5ford4us3fford4oot4ton3gan4han3issant9s4tzer3ker3ley3mbie4er6\'s4ie4ley4pton4well8\'s3nan5uer4en5r5y4ies5n4khite5ite5right4quist4us4y3oked6r5lyn8\'s5shank9ks6ton4ner5ing3pland5ey4per5ing4sey3quet3sbey5ie5y6\'s4haw4key4land5ey5in4on4s\'s5an5bill9s6ones7w8s5en6r6s6tt5field7re9\'s5in7g8s5land6ey6in5man5nine6o5on5piece5road9s5talk6own5ville5walk9s6hite6ise6ord9s4thwait9te5on4well3teau4hers4teau5y4well4zer3ucher6ing4ser4ton7s3vitz4l5s3wbar4ded6n6r5ing4ell4ing4ley7\'s4ner5ing5like5x4son4ther8\'s8s3xton3zier2uces4ial3ddy4ele6y4up3el5est5ly5ties6y4y3ger3ickshank4ser7\'s7s6s5ing3mbaugh5le7d7s7y5y4ley5y4mett6y5y4ple7d5ton4rine3ncher8s7s6ing6y3pi3sade7s5n4er4her7s6s5ing4oe4tal5ed5y3tcher7s6field9ld\'s6ley4hirds3z\'s4an4en2yan3der3er3ing3ptic5o3stal7\'s7s5er3tzer1saszar2pan1uba4\'s4n5s3bage4ies3ic5\'s4st4t2cchi4i5a3koo6\'s6s3o2ddeback4le6d5ing5y4y3gel6s3more3ney3worth2ellar3nca3ro4vo3sta3to3va5s2ffee2hney2ing3sine7s2lbert4reath6th5o3ex3hane3kin3lan4en6s5r6\'s6s5t5y4in6g6s4man4om5p4ud5m6\'s4y3mer3pa4rit7s3tic5st7s4on4ure7\'s7d7s3ver6\'s6t3well2mbee5r4ie4o4y3in5gs3ming7s6s4ock3pston4ton2nard3dall4iff5ll4y3ha3liffe3nane4een4iff5ng3y2oco3mo5\'s3zzo2pboard8s3cake7s3id5s4t3o3pett4les4y2rate3bing4ow4side5tone4y3ci3eton3few6s4man3ie5l4ng3le5e5r6s5ss5tt5y4in6g4y3now4utt7e3ragh5n4en6ce6s6t7\'s7s5y4ie6d6s5n4o4y5\'s5s3ses4ing4or3tail7ed7s6n7s4i5ce5n5s6s4ly4ner4o4right4sy3vin6g4y2sack3hey4ing5on7ed7s4man4y3ic5k4p3o4\'s3sing4on3tard4er6\'s4is4om6s2tback7s4irth3chall5er5in7s3eness4r4st5y3hbert4rell3ie3lass4er6\'s5t6s4ip3off6s4ut6s3rale4ell5r4ight3sforth4hall6w3ter6s4hroat4ing7s4y3worm7s2yler2zzort1v1wikla2ynar1yacq3n2ber3ill3org6s2cads4re3le5d5s4ic4one7s5ps2drome2ert2gan3ne4us2mbal6s3rot2ndi3ic5s3ric3thie3wyd2pert3her6s6t3ress4is4us2ran3il4x3us2stic1zaja4ka3pla3rist4nik5y2epiel3rny3slaw0d\'affaires3lene4lest3rcy2estaing3tat6s4re4ude2ivoire2orsay1a\'s2armstadt2bah3ber4ing4le6d6s3chick3hol3ney2cey3ha5u4shund9s3ron4uz3tyl3us3y2da3dies4y5\'s3eland3far3o3y2elim3mon3nzer3woo2ffern4in4ron4y3na3oe3sa2gan3en4r3ger6s5tt4y3le5y3mar3on3wood2her3ill3lberg4e5m5n5r4gren4ia5n4man4quist4strom3man4en5r6\'s3rain2ido5ne3ei3gle6r4nault5eault4re3kin4on3ley4ies4y3mler7\'s4ones3ni4ty3ries4y3sey4ies4y5\'s3wa5\'s2jun2kar3in2lai4l3bar4ec5rt5y4y3en4th4y5\'s3fen4ort3house3i4a4s3kon3la5ire5s4ey4hold4ied4man7n4y3ma5n4o3o3to5n6\'s6s3y3zell4iel2ma4ge6d4n4s5k6s3bach4ra3er4wood3gard3itz3mam5n6n4en5r4ing5t3ning3on5\'s5e5s4ose4re4ur3pen6ed5r6s4ing4ness3ron5w3sel4on3uth2na4\'s3by3ca4er6\'s6s5s5y4ing4sak4y3do4ridge5uff4y3eel4k4ll6e4r4y3ford6th3gel5r6s5ws4lar7s5e6d6s4o3i4a4el6\'s6e6l6s4s5h3ju5\'s5b6\'s6e7\'s5s3ker6t4ner4o3ley4y3na4els5n5r6s4ie4y5\'s3o4s3sby4er4forth9\'s4ie4kin5y4o5n4tett4ville9\'s3te5\'s4in4on4rell4zler3ube3vers4ille4y3za4er4ig4y2phne6\'s5is3ice3per2ra4k3blay4onne4y5\'s3cey4ie4o4y3dar4en6\'s4is3en4say3fur3ga5n4is3ice4n5g3ken6ed5r5st4ie4ly4ness4room3la5nd4een5ne5y4ie5n6e6g7s3man6\'s4on4stadt3nall4edest5l6l5r4old3pa3ragh5h4el6l7e5n4ick5n4och5ugh5w6\'s4yl3sey4y3tboard4ed5r5z4ing4mouth9\'s4on4y5\'s3ville3win6\'s5sh3yl2sa3burg3chle3hboard9s4el6l5r5s4iell5ng4naw5er4ville4wood3pin5t3sault8\'s4ler4ow2ta4\'s4s3ed4k4line8\'s8s4xt3ing3o3ron3sun6\'s3uk4m2uber6t3er3ghdrill5ney5ter8\'s8s6on6rey7idge7y3lton3nted5ing3phin3ster3zat2vao4ult3co3ee4rn4y3i4d5\'s5ge5s4e5s4n4r4s4tt3lin3os4x3y2wdle5ing4y3it3kins3ley3ning3sey4on6\'s2x\'s3or2ya4\'s4n3break3care7s4o3dream8ed8s3hoff4uff3ley4ight8s4ong3nard3time7s4on6\'s5p3walt2zey3zle6d4o1base1c1eacon6s3dbeat8s5olt4en5r4head8s5orse4line8s5ock8ed8s5y4pan4weight5ood4y3fen4ness3kin6s3ler6\'s6s5y4fish4ing7s4y3mer3ner3rborn4den5orff6urff4er5st4ing4ly4man6s5ent5on7d4y3son4y3ter4hbed5ly5shot5watch4ley4on4rick3ver6\'s6s2barr4se6d4te6\'s6s4uche5n3bie6\'s4y3eer6s4ll3i4t5s3lanc4ock5is4um3nam3o4ard4e4ld5t4r5a5d6e4se4w4y3ra4ief7ed7s5s4osse4uhl5yn7e3tor6\'s6s3ug4hr4nk6ed6s4s5k4t5ed5s2cade6\'s6s4f4ire4ls4mp6ed4nt4y5ed5s3ca3ease7d4it6s5ve7d4lle7s4nt3hant4ene5rd6t4ine3ide6s3kard4er6\'s6t4ing4man3laim7ed5re7d7s4erck8\'s7q8\'s6k7\'s6que9\'s4ine7d7s4ue3o4de6s4m4ok4r4u4y5s3rane4ease8d5e6d6s4ied6s4y3ter3uir3world2deaux4richs3ham3ic3man4on3o3rick3uce6d5t6s2eded5e4rick8\'s4y3gan3han3ley4y3mer3ner5y3pak4en6ed6s5r5st4ly3rborne4field4ing4man4skin4y3ter2face6d4me6d4ult7s3con3eat6s4ct6s4e4nce5d6s5se4r5red5s4x3feyes3ied5s4ne6d6s3late4ect7s5ur3oe5\'s4or4rd6\'s5e5ge5m6ed3rain5nce6k5ud5y6s4ees7e4ies4ost3tly3unct5d4se6d3y2gan4s4ulle8\'s3en4r3ler3nan4er3ood3raaf5de7s5ff5nd6ge5w5y4ee6d6s4oat5ff5ot7e2haan5s4rt3ecq3ler3mer3ner6t3off2ibel5rt3chert3dre6\'s3ghan5ton4nan5ing3kel3ly3on3rdre3st3ter6s4rich7k2ja3ean4ct3ohn4ng6e6h4y2kalb4y3ker3le5rk7\'s3om3roon2la4ge4ine5r4nd5e5ge4o4p5p4tte4une4y5ed5s3bert4osque4ridge3camp4hamps4o5r3ee4te6s3fin4osse4tware3haize4i5\'s3i4a4ch4ght7s4se5le5t3ker3la5ert4er4ing5s4ums3ma5n5r5s4ed6\'s5r4ont5re3o4ach5tch4itte4ng4re6\'s5s4sh4use7d3phax5i6an6c4rete3ray4eal3ta5\'s5k5s4ec3ude6s4ge6d4xe3vin6g3win5p4yn3zell5r2main4n5d6s4r5che5k5s6h4s4y3beck4ski4y3chak3ean6ed6s4l4nt4rs6e4sne3i4\'s4ck4ng5t4sch5e5h3ko3ler3ma4er4ing4on6s3o4n5d5s5t4re4s5s4te5t4v3psey5ter3ski5y3ur5e5red5s4s4th3yan2na4rd4ult3bo5w4y3den4y3eau6lt4en4ke4uve4ve3gel3ham5rt4olm3ice4ed5s4ke4m4s5e4z3ker4i5ns4o4tas3lea5y3man5rk7\'s4on3nard4en5r5tt5y4ie5n6g5s4o4y5\'s3o4mme4sse4te6s4unce8d3sely5r5st4hin4ley5ow4more4on3tal6s4e5d4in6e6g5st7\'s7s4ler4on4su4ton4ure7s4zer3ude3ver6\'s3wa3y4s5e3zel5r4il4ler2o3n2part6s4ss4ul5w4z3eche4nd6s4w3ict6s3lete7s4ore7d7s5y6ed6s3ner3o4rt4se6d4t5\'s5s4y3pen3rave7d4ee5ss7ed5y5z4ive7d7s3ue4y2rail6ed6s4nge7d3by3chin3den3egt4k5\'s4n3ham3ick4de6s4k4ng4se4ve6d6s3ksen3leth3ma5l5n4er4is4ot6t3ner3oche4o5s4se4uen5in5sse4y3rick5g5ng4ow4y3shem4tine3thick3us3vin5sh3ward4in3y4ck4le2scartes9\'s4end7s6t7s4haine6mps5ene8s5ner4ribe8d8s5y3ert6s5ve7d7s3ha5ies5ne5w4ields4ler4on6g3i4gn6ed6s4r4st3kin6s4jet4pro4top7s3latte3ma5n4et4ids5th4ond3pain6r7ed7s4er6ate4ise7d5te4ot4res3sauer4elle5nt5rt7s3tec4in6ed4roy7ed7s5uct8s2tach6ed4il6ed6s5n6ed4r3ect6s4nte4r5red5s5t4st3hlefs5off4rone8d3jen3loff3mer3our6ed6s4x3ract7s4ich6k4o5it7\'s3ter4ling5off4man7n5er4y3urk3zel2ubel3el3pree3schle4er3tschemark9ark\'s9arks8r7land7man2va4l5\'s5l6e4n5e4ughn5l6t5x3eau6x4lle4ns4r5s4y3ice4l5\'s5ish5le7\'s5s4n5e5s4se6d4tt3lin3oe4id4l5l5ve7d4n4r5e4s5s4te6s4ut4y3ries4oy4y2waard4ele4ld5l5t4n4r5\'s5e5r5t4yne3bre3claw3eerd5s6e4iss4ll4y5\'s3hirst4urst3ilde4ne5g4re4t5t6e5z3olf6e3ulf3y2xter6\'s4ra6n5in5o6se6us2yo4e4ung3ton2zarn3ern3iel1habi3haran4ran3ka3li3rma2ia3llon3raj1ia3b3hann3l4\'s4ed4s3mond7\'s7s3n4e5\'s4ne3per3s3z2bbern4le6d3ert3le3oll3rell2cey3hter3ing3kard4el5n6s5r6ed6s6t5y6\'s4haut5ead4ie4ler4man7n4son5tein9\'s4y3ots3ta5te7s4ion4um3us2ddle6y4y3i3n\'t3o2ebel4old3ckman8n3dre5ich7k3gans4el4uez3hard7s3kman7n3mer6t3ner5s3r4ker4olf4s4y3sel6s5s4ing3t4\'s4el5r4l4rich7k4s4ze6l6n5ler5man3vler3z2ffee5r6ed6s4id5n4ley4ract4use7d2gate3by3est6\'s6s3ga4er6s4ing6s4le3it5s3man3nan3ress7ed2jker3on2keman2late3beck5rt3day4o5s4y3ford7\'s3ger3ip3lan5rd7\'s4en5r6\'s5y4ie5n6g5on4man5ore4on6\'s5w4worth4y3more3son3ute6s3worth2mas3er3ick6\'s4ng3ly3mer6s4ick5ng5tt3ock4n5d3ple6d6s3ry3sdale2na4h4n4r5s3da3een4hart4r5s4sh3gee5l6l7\'s5r5s6s4ham5y4le6y4man4o4us4wall4y3i4ng3kel4ins4y3neen5r6\'s6s4ing3o3sa4dale4more2ode5s3n4e4ne3r3s2phthong3ole3pel5r6s4ing4le4old4y3shit4tick2rect6s4st3hams3ksen3lam3ty2sa4rm6ed3band5r6red4ro6w4urse8d3card7s4ern7ed7s4harge9d5er4laim8ed8s6nd5ose8d4o5rd5s5unt8s6rse4reet6te4us6s7ed3dain7ed7s3ease7d3gorge8d4race8d4uise8d5st7s3haw4er5s4ing4man4ner4on6g3joint3kette8s4in4less3like7d7s4odge8d3mal5y6ed6s4iss7ed4ore4uke7s3ney6\'s3on4wn6ed3pair5tch8ed4el6l7ed6s5nse8d5rse8d4lace8d6y7ed7s5ease9d4ose7d4rove8d8s4ute7s3rupt7s3sect7s5nt7s4ing4olve8d8s4uade3tad5l5nce8d6t5ste4el5nd4il6l7ed7s5nct4ler4ort7s4ract8s6ught5ess8ed5ict8\'s8s5on5ust8s4urb7ed7s3use2tches5ing3her6s3ka5\'s3low3mars4er4ore3sy3ter4ies4man7n6r5er4o5n4rich4us4y3zel4ler2va4d4ll4n4s3ely4n5s4r5\'s5ge7d5s6e5t6s4st6s3i4de6s4ne5g4s3orce7d3ulge7d3vied4y2wa2xie3on5\'s5s3son3ville3y2zon3zy1j1k1niester1oanna2bbie5n6s3ek4r4sh4y3ie5s4s3kin6s3le3oj4s5z3ratz4in6s4o4y3son6\'s6s3y4ns2cent6s3how3ie4le3ken5r6s5t6s4ham4iers5ng7s6s4land8s4side5on4ter4yard3tor6\'s6ed6s4rine8\'s8s2ddridge3ge\'s5n5r6\'s6s5s4ing3i4\'s3o4\'s4s3rill3son4worth2eden3hring3nges3pker3rnberg5er4s5am3scher4n\'t2ffing2gan3bane3ear6ed6s3fight8s5sh3gett4ie6s5ng4one4y5\'s3house3le4ike3ma3wood7s2ha3man4en3ner3rman7n2ilies4y3ng5s3ron2kely4y3ken3tor2lak4n5d3bow4y3ce3der4rum7s3eful4n5ce4s\'s4y3fi3gen4in3in5g3lan5r6\'s6d6s4ens5y4house4ie5ns4off5p4y5\'s3man3ney3phin7s3son3ton2main6e6s4n5gue4s3beck5k3ecq4k4r3in5gue3mer4ie3tar6\'s2na4is4ld6\'s4r4t5e6s5h3der3er4y3gen4mei3ham3is3key6s3lan4ey4in4on3na5\'s5n5s5y4ell5r4ie5ng4y3or5\'s5s3sbach3ut5s3van6\'s2odad6s4le6s4y3gie3lan4en5y4in6g3ming4sday3nan4er3rbell4knob8s4man6t7s4nail5bos4sill5tep8s4way7s3zy2pa3ey3pler3son2ra4is4l4n3cas3dies3een4n5e4r4tte4y3fman3gan6\'s3i4c5e4e4n5g4s5e3ko3land3man6t4er4ouse3nak5m5n6\'s4busch7h4er5y4feld4hens4ier5n3o4n4ugh4w3rance4ell4ie6s5s4oh5ugh3sa5l4et6t5y4i3ta4hy4mund4on3val3ward6t3y2sage3cher3er4s3her4i3ie4ng3sett5y4ier7s3tal4er4ie3well2tan3en3han3ing3o3son3ted5r4ie5ng4y3y3zler2ubek5t4le6d6s5y4ted6r7s5ful5ing5less3cet6te3dna3gal6l5n6s4ens4gins4hboy5er5man5nut8s5ten6ie6y5y4ie6\'s4l5as7s3kas3lton3ma3r3sing3that5ett5it7t4y3ville2vecote8s4l4r5\'s4tail8ed8s4y3ish2wda5ll4ell5n4ing4le4y3el5l5s4n3ie4s3land4en5r5ss4ing3nard4beat4cast4draft4en5r6s5s\'s5y6\'s4fall4grade9s4ham5ill4ie5ng4load8s4play8ed8s5our8s4range5ight4scale5ide8s6ze8d5tage7irs7te6ream5wing4time5own8\'s8s5rend5urn8s4um4vote8s4ward8s5ind4y3ry3sing4man3ty2xey3ie3y2yal3el4n5ne3on2zen5s4s3ing1rabble4ek4ik4kin3chma7s4kett4o3eger3ffen4ted6e7s6r7s5ing5sman7en5y3gan4er4ging5y4line4net7s4o5n6\'s6e6s5o3heim4os3inage5er7s5ing3keford4os3ma5s3ney4sfield3peau5r4ing4kin3sner4tic3ughon3vis4o5\'s3wback8s6ugh5ridge4down8s5y4ing7s3yer4ton7\'s2eaded5ful5ing5nought4mer7s5ing5land6ike5works8ld5y4ry3bsky3chsel3dges5ing3essen3ger3ier4ghton4ling4sbach3man3nches6ing4nan5en5ing5on3pung3sbach4cher4den5ner8\'s4en4her4ner4sage5el6n6r7\'s7s6s5ing8s5ler5y3wett4ry3xel6\'s4ler3yer4fus7s2ibble7d7s3ehaus4r4ssen5t4ver3fta5ed6r7s5ing5net5wood3ggers3llbit5er7s5ing8\'s3na5\'s5s4kard5er7\'s7s5ing5wine4non3pping3scoll4kell5ill3vel5n5r6\'s6s5way8s4ing3zzle6y2obkov4ny3ddy3goul7\'s3han3let3mer5y4goole9s4i4on3net5y4ing3oling4ping5y3pbox4kin4let7s4off7s5ut7s4per7s5ing8s4sy3ser3tar3uillard3ver3wning8s4sy3zda2ubbing3cie4ker5man3gan4gie6ng6st8\'s8s4store9s3id5s3mbeat4head4lin\'s4mer7s6y5ing5ond8s4right4stick4wright3nkard8s5en3ry3sa4ie3thers2yclean3den3er5s3ing3ly3ness3pers4oint3sdale4er3wall1ual4s3rte6\'s2ba4ch4i4s4y3bing3cek3eau4y3hi3ie5l4n4s3lin6\'s3off4is6e4rd4se4w3ray4ee5uil4oc5ff5w3uc4que7\'s3y2ca4l3ey3haine5mp7\'s5rme4ene6ne5ss4in4on5w4y3ker5tt4ies5ng4ling8s4sworth4wall5eed5orth4y3los3ote3tile4less2da4ck4r4s5h3ding4y3eck6\'s4k4n3geon3ik3ley3man3ney3zik2ecker3itt3ker3l4ed4ing4s3nez4ow4sing3r4ksen4son3sberg4ing3t4s3y2fault3ek3fee5k5l6l5r5tt5y4ie6ld5n4ner4ord5ur4us4y5\'s3ner3ord5t4ur3rane4ene5sne3ur2gal5d4n4r4s3dale3gan5r4er4in6s3o4ut6s3uay4id2haime4rt3on2ignan3s4burg3tsman2kart3edom4man4r3ing2la4c4k4y3cet4ie5ne3ey3in5g3ler5s6t4ing4ness3mage3ong3ski3ude4th3wich4orth3y2ma4\'s4ine5s4n4s3bass4bell8s4er5st4found9s4ing4o4struck3ez3ford3ke3lao4er3mer4ies5tt4y3ond5t3per4ing4ling8s4ster8s4truck9s5y4y2na4j4y3bar4lane3can4kel4ombe3das4ee4on5re3fee4ord3gan4eon7s5y3ham4ill3ite3ja3kel5r4in5rk4le6e6y5in3lap5y4ey4op3man3nam4ell5tt4ing4o3phy3shee4moor6re4on4tan5er5on4worth3ton3worth2o3ng2pay3ee4r3in3lex3ont6\'s3ras4e5e5y3uis4y2quesne8\'s5tte2ra4ll4n5\'s5d5g5t6\'s4y3ban4en4in3chholz3den4in3ee4ll4n5e4r4ss4tte3fee5y3gan4in3ham3i4ck4e4ng4s3kee4heim8\'s4in3land4ey4ing3nell5y4il5n6g3o4n4ss3rah5nce6t4ell5nce5tt3so3um3ward4in3y4ee2sek4tt3hane3ing3kin3sault4eau7lt3tbin4ed5r6s4in6g4man4on4y3za2tcher5man3hie3ies4l3ka4o3oit3ra4o5w3son3ter4on3y2va4l5l3rees2wayne2zan1vorak4sky1wana3rfing2eller7s6y5ing8s2iggins3ndle7d7s4ell2orak4in4kin4sky2yer1yad3l3n4e3r3s2bas2ches3kman3o3us2eing3r3ss4tuff8s2gert2ing2kas3eman3house3man3stra2lan5\'s5s3ex2mek4nt3ond2ncorp3eer2san4rt3ert3on1zerzhinsk2hambul3okhar8\'s2iak3edzic4kan3uk2okhar0eachan4us2ddy3er3ie3y2gan4r3en4r3le5\'s5s4in3on2ken4r3in5s3le2ley3ing3y2mer3on2ppen2rdley3ful6l3gle3hart3ldom4ene5ss5y4ie5ne4y3mark7ed7s4uff7s3ner6s5st5y4hardt7t5eart4ing7s4shaw3phone8s4iece4lug7s3ring7s3shot3tha5bound5en5ling9s6y5quake9e\'s9es5shine6tar5work8m9s5y3vin3wax4ood3y2sco3el4ment4s3ib4ng3ler5y3om4n3tbound5urn4dil4end5p5r6n7\'s4group4ham4in4land8\'s5ick4man5et7\'s4on4pac7\'s4ridge4ward5ick6nd5ood8\'s3y4\'s2ten4r5s3ing3man4on3on5\'s2vesdrop1ba3n4ks3rb3ugh3y4\'s2ba3ed4n4rs5t3ing3y2el3n3r4l4s4t5s3y2le3in2ner2right3o4n2y1cad2cles2hard3lin6\'s3o4\'s4ed5s4ls4s2kard6t7\'s5t3berg3el5s4r5d5t6\'s3ford3hard7t6t4off3l4and4er5s5y4und3man6n3rich4ote6h3stein5rom2lipse7d2o3le3n2ru2ton4r1da3m3n2berg5t2die5\'s5s4ngs5s3y2el4l3n4s3r2gar5\'s3comb3ecomb8e4ll4mon4r4s4tt4way7s5ise5ood6rth3in5g3ley3mon3ren3y2i3ck4t5s3e3n3t4h5e4s2ler4y3in5g3und3yn2man5ds4r5k3ond6s3und6s2na3ey2o3lf2per2quist2ra3ic4s2sall3el3on3trom2u3ard2wald4rd6\'s6s3in2ye3th5e2zard1elam3grass3like3pout7s2rie1faw2face3ect6s4rtz4te3ie3ler4ux3ort6s3ron3y2ird2ron2ta1gan2bert6s2er4t2gcup6s3en4r5s5t3head7\'s7s3ing3nog6s3plant8s3shape8d5ell8s3um2land3e4r4y3i4n4se3off3y2ner4w3or2o3lf3n3s2ress4t2ypt5\'s1hlen4r5s5t3mann3y2man5n3en3ke2ren4t3hard7t6t3ich4g3ler4ich7\'s3man6n3sam2ud1iben2chberg4el5n5r4holz6rn7st4man7n4ner4oltz5rn6st4stadt7edt3khoff6lt2dem4n3son2ermann2fert3fel2gen3hmey5y4teen8\'s8s8th5fold5ies5y6\'s3ner2ji2lan5d3een4r5s5t4y2mer5s2nar3horn3on5\'s3spahr4tein8\'s2rich2sa4i3cheid6n7s3el5e4man7n4n4rt3hi3in3ler3man3ner6\'s3on3zner2tel3her3zen1ject5s2up4\'s1ka2berg3lad2co2dahl2ern3us2holm2ing4s2kehard2lund2man2o2strand5om1la3ine6\'s4re3m3n4d4e3pse6d3t4e5s3yne2baum3er5t3ow5ed5s3rick7\'s4us2co4ck4r2dar3en4r5s4st3in3on3red6ge5th4ic5dge5tch3win2ect5\'s5s3dge3en3k3ne3y2fers3ie4n4sh3man3ord3rink3strom2ga4r5\'s5t3er3ie4n2i3ch4k3e3ne3se4h3te5s2jer2khart4orn3in5d5s3o3ton2la4\'s4n5\'s4rd3edge4n5\'s5e4r5be5s5t4smere5se4tt6e4y3ice4e4ff4ng4os4pse4s3man6n3ner3roy3sberg8\'s5urg4worth3wood7\'s3y4n3zey2ma4n3er3hurst3o4re3quist3sford3wood2na3ore2oise3pe5d5s3y2pers2rich5k3od4n4y2sa4s3don3e\'s4n4r4s4where4y3ie5\'s3ner3on3tad4er4on3wick4orth2ting3on3zroth2ude5s2va3ers3gren3ie4n5g4re4s3y2way5\'s3ell3in3ood2xsi2y3n3se2za3ey3y1ma3cs3d3il5ed5s3rd2balm6ed4rk6ed6s3ed4r5s3lem6s5r3oss6ed3race7d4ee5y4oil7ed5se4y2cee3o2el3ns3rald7s4ge6d4se6d4t2hart2ick3g4h3l4e3r3t4s2ler4y3ing3yn5ne2ma4\'s4us3el4r5t4t5t3i4ck4e4s4t5t3ons4tt3y4\'s4s2o3nd2path3ey3ie3loy6ed6s3ress4ise3son3ted4ied6s5ng5on5ve4or4y2rich5k3y2u1na3ct5s2berg2camp6ed4se6d3hant3lave7s4ose7d3ode4r5\'s5e6s3roach8ed4ust4ypt2dear6ed4d4r5s3game7s3ing6s4ve3ler5ss4ich3o4rse7d4w5ed5s3point8s3res6s3sley3ued4re6d6s3y2ex2fant3ield7\'s3old4r5ce7d2gage6d3berg3dahl3el5ke5s4man4n4r5t3holm3ine6\'s6d6s3land7\'s7s4e5rt7h5s4ish4und3man3quist3ram5ve7d4oss7ed3strand6om3ulf6ed3wall2hance7d3olm6e2id3s3tt3x2join6ed4y5ed5s2large7d3ist6s3o4e4w2man3esh6ed2nen3is2o3ch5s3s3ugh6\'s2quist2rage6d3ich6ed4ght4le3o4ll6ed6s4n5\'s4ute2sco5\'s5nce8d3erch4y3hrine8d5oud3ign4ng3lave7d4ey4in4ow3nare7d7s6l7ed3or4urce3rud3trom3ue5d5s4re6d6s2tail6ed6s3e4r5ed5s4x3hral7led4use7d3ice6d4n3ler3omb6ed3rail7s5nce8d6t7s5p6ped4e5e6s5nch8ed4ies4ust4y3wine7d2vied3os4y5s3y2wright2yart3eart2zo4n4r3yme6s1off2n3s2s1pcot2hlin3raim4on2ic4\'s4s2ler4y3in5g2och5s2pard3el4rs3ich4ng3le5r5y3ner2rom5s2sco3om4n3tein2ting1qual5ed5s4te6s3ine4p5ped5s1ra3\'s3lp3nthe3s4e5d2ber3y2ceg3ros2da4hl3man6n3os3rich2ect5s2gle3o4t5\'s5s2hard6t5t2ic4\'s4h4k3e3k4\'s3n2ker2lach4nd3baum3e4ne4r3ich5k4ne5g3y2ma4\'s4n3er3in5e4s2na3est6\'s6s4y3ie3o3ster3y2o3de5s3h3l4\'s3n3s2ra4nd6s5t3ett3ing3ol5\'s4r5s2satz3had3kin6e3twhile2tel3ha3l4e3man2upt5s2ven3in5g2way3in1sau2ber2cape6d6s3hbach4en5r5te5w6ed6s4mann3o4e4rt6s4tt3row6ed3ue2ham3bach5ugh2ker4w4y3in3ridge2lick2mark3ine3ond2per4y3lin3ouse7d3rit6\'s3y4\'s2quer4ire7\'s2rey2sa4y5s3en5ce4r4s4x3ick4e4g3man3ner3o4n2ta4i4n4te6\'s6s3e4e5m6\'s6ed4l5l6e4p5p4r5s4s4ve4y3her3ill4s3le3ock4k3range8d4ich5dge5n4ous4us5th3y1tches4ing7s2ess2han5e3el4ne4r5s3ic5s3nic6s4os3os3ridge3yl2ling2na2on3ps2sty3u3y2ta3er5s3ie3y2udes2zel5\'s3korn3ler1u2an2bank6s2chre6d3lid2dy2gene2la3er3ich2nice3uch2rest3ich3o4pe6\'s4s3y2stace4ice5s2tsey4ler1va3\'s3de5s3ld3n4s3rts3tt2el4and3n4ed4ing7\'s7s4s4t5\'s5s3r4ed4s4t5s3tt5s2ict3l4s3n4ce6d4s3tt5s2jen2lyn2oke5d5s3lve6d6s3n4ne2rard3en1wald4t3n3rt2bal4nk2ell3n3r4s4t2ig3ng5\'s5s2oldt3ng3rld2ton2y1xact5s3lt5s3m4s3r2ceed6s4l5\'s5led5s4pt4rpt7s4ss3hange8d3ise6d4te6s3laim7ed7s4ude7s3o3rete7s3use6d2ec4s3l3mpt6s3rt5s3s2hale6d4ust7s3ort6s3ume6d6s2ide3le5d5s3m4\'s3st5s3t4s2ler4y3ine2ner2on2pand6s5se3ect6s4l5led4nd5se4rt6\'s6s3ire6d3lain7ed7s4ode7s5it7s5re7d7s3o4rt6s4s5e6d4und7s3ress7ed3unge7d2tant3el4nd6s5t3inct3ol5led5s4n4rt6s3ra5ct7s5s4eme7s4ude7s2ude5s3lt5s3m2xon5\'s1ydie2eball7s4row7s3care3drop7s3glass3ing3lab5sh4ess5t6s4id6s5ke3piece3r3shade4ight4ore4pot4tone5rain3tech7\'s3wear2ler2man2non2rich4e4ng2ster2ton1zell5\'s5e3r2oe2ra2zell3o0fabbri3el4r5ge3ien3le5d5s3re4i5c6s5s4on4y2cade6s3ebook8\'s4down4less5ift4r4s4t5\'s5s4y3het3ial6s4e4le4ng6s3kler4rell3teau4ion7s4ly4o5id5r6ed6s2dden4is6h3ed4l5y4n4r3ing3ness2erber2gan3en4r3gart4ot3in3ley3nant3oth3undes2hey3lman3my3nestock3rer4ner6y3y2idley3ling7s4la4or4safe4ure7s3nted6r6st5ing5ly5ness3rall4bairn6nk8s5urn4child9\'s5loth7ugh4er5st5y4fax5ield4ground9ds4hurst4ies4lawn5eigh6ss6y5ie5ow5y4man5ont4ness4view4way7s4y3sal4on4t3thful8s3vre2ker5s3ing2lbo3co5ff5n6s3do3er4y3goust6t3ik4n4se3kland8s4ner3la5w4back4en5r6t4in6g5s6h4off5n5ut7s5w6s3mouth3or3sehood9s5ly4one4taff8\'s3ter6ed6s3vey4o3well7\'s3ynn3zon2ma3bro6ugh3er5s3ine6s4shed3ous2ncher5on4ied6s4y3del4rich3ech6\'s3fare3ger4le6d4man4uy3like3nie5n6g7\'s4on4y3ta5il4le4on4roy3uc4eil2rah4i3ben5r4man3ewell8s3fen5tched3go5\'s3ha5t3ies4ng4s5h5s3kas3land4ee5r5ss5y4ing4ow4y3man4boy4er6\'s6s4hand8s5ouse4ing7\'s4land8s4stead4yard3nall5m5n4ell5r5y4ham4ley4sworth4um4worth3o4ld4n5e4uk3quar5har3ra5h5n6d6t5r4el6l7\'s5n6s5r5y4is6h4o5n5w6\'s4y3si4on3ther6st5ing4ing3ver3well5st2scell4hing4ist7s3hion7\'s7ed7s3ick4g3nacht3o4\'s4n3sett4ler4nacht3tball8s4ed5n6ed5r5st4food4ing4ness2ta4h4l3ed4ful4h3her6\'s6ed6s4i4om6s3igue7d7s3ten6ed5r5st4ies4y3wa2ubel5r6t4le4us3cet6s6t7e4her6ux4i3ghnan3lcon4ding4kner8\'s4stich4ted5ing5y3na5l4troy3pel3rot5ux3ser5tt5y4naugh4ta5ian6ne5o5us3teux3ver2va3er3or5ed5s4ur6s3re5au4o2wbush3cett3ley3ning3ver2xer4s3ing3on2yanne4rd3ette4z3rouz1eagan6s4in6s4le3rful4ing4less4now4on4some3sel4ted6r5ing3ther7ed7s4ure7d7s3zel6l2bles3res2cal3es3her4ner4ter3kless3teau2dak3der6s3ele4r4x3ler3or3rick2eback4is4le5y3dback4er6s4ing7s4lot7s4stock9s3han3ler6s5y4ing7s4y3mster3ney4stra4y3ser3zor2ffer2gan3er3ley2her3ling4man3nel3ring4man2ickert3gel5n5r4han5ner4in4ning3ler3mster3nberg4er4gold4man4stein9\'s3ster5y2jes2kete2la4n3ber3da4berg5lum4ene5r4haus4kamp4man7\'s7n4ner4pausch4spar8s5tein9\'s3ger3ice4m4ne6s4pe4s4x4z3kel5r6\'s4ins4ner3la5nd5s4enz5r6s4in6g4man5eth4ner4ow6\'s6es6s4sway3man4lee3on5s3rice3ten5r4ler4man4ner4on4rax4sman4us4y3ver2ma4le6\'s6s3rite3sa3ur2nceless5s4ing4l3ded5r6s4i5ng4ler6y4rick3ech3ger3ley4on3nel6l5r5y4o3phen3ster3ter4on4ress3way4ick4ood3zel2ra4l3ber3die5g4low4on3enc6e6z3ger4ie4us3ko3land3man4ent7s4i5n4oyle3nald5nd5o5u4bank5erg4dale4er4holz4like4strom3o4l3ra5ll5n6d6t5r4ee5l6l5n5r5t6s4i5ck5e6d6s5ll5n5s6s5te5z4o5n5us4y5\'s3tig5le4low3vent4id4or3y2schbach4ue3er3hbach3mire3sel4ler3ta4er6ed4ive4oon7ed4us2ta4l3ches5ing3ed3id4sh3ner3row3sko3ter6ed6s4ig5ng4y3us3zer2udal4ed4ing3er3lner3stel2ver5ed5s2well4r4st2ynman1iat4\'s2ber5\'s5s3re5s4ile7s5n4oid7s5us2ca3co3ek3htel6r5ner4us3ials3kel5n5r5tt4le5in7g3o4m3tion7s2dder4le6d6s5ing3el5\'s3get3o2eber4ig3chter3dler7\'s3fdom7s3gel5r6\'s3ldcrest5ed6n6r7\'s7s5house5ing5work3ndish3rcely6r6st4man4o4ro6s4stein3ser4t2fa3er3i4eld3tee6n7\'s7s7th4ies4y5\'s2gel3gie6\'s5ns3hter7\'s7s5ing8\'s8s3ley3ment7s3one3ure6\'s6d6s2ji4\'s2la3bert7\'s7s4rick4y3egate4name5e6\'s6t4r5s4t5s3ice4ng6s4on4p3kins3la4er6s5t6s5y4ies5ng7s5on5p4man5ore4y3ma4er4ing4less4ore3o3son3ter6ed6s4hy4rol2ma3bres2na4l5s4n5ce7d5z4rte3bar6\'s4erg3cham5er6s5um4kle3der6\'s6s4ing7s4lay5er6y3eberg4frock4gold4ly4man4r4sse7d5t6one4vest4x3frock3ger6ed6s3i4ng4sh6ed4te3kel5n4le6r6y3land7\'s5y4ets5y6\'s3nair5n4ell5y4ick5e5ng5sh3o3scher4tad5er5rom3ton3unc3zel2pple2re4\'s4baugh5ombed8s4d4fight9s4man7\'s5en4s5tone9\'s7rm4wall5ork8s3fer3ing6s3kins4us3ma5n6s4er5st4in6g4ly4ness4ware3po3star5born5fed5hand5ier5ly5south3zite2scal4hbach9\'s6ein5el6r7\'s5l5man4us3er5v4tte3h\'s4bach7k6ine6ugh5eck6in5owl5urn8e4el6l5r6\'s6s5s4ing4kill6n4low4man4y3ons3sel6l4ile5on4ure7d7s3ted5r4ful2tak3chburg5ett3ful3ness3ted5r5st4ing7s4on4ro3zco4er4hugh4ner4roy2veash4coat4fold2xate6s3er4s3ing6s3ler3mer3ture7s2zer3zle6d6s1jelstad1labby3ccid3gday4ging4ler4man5en4pole8s4rant4ship8s5taff9s7r6one9s3harty4erty4ive3iling3king4y3mer4ing4mang5er4son3nders4ges4king4na5el7ed7s4sburg3pjack8s4like4per7s5ing3ring3sh\'s5back9s6ulb9s5card9s5dance5er7\'s7s6s5gun8s5ing5light9ts5point9ts5y3tau4bed5oat5ush4en5r4fish4head8s6rs4land8s5ey5y4ness4o4ten7ed6r7ed5ish4ware5orm3ubert4gher4nted6ing3vell4ier5n4or6ed6s3wless3xman4seed2eagle3dging5ling3eces5ing5y4ger4ing4man4ner5or4ting5wood3gal4el3ischer7man9nn5her6man5s\'s6ner4tas3ming7\'s7s5sh4mer5ing4ons3ner4ner3rfu3sher5man5y4ner4sner3ta4chall6er3urette5i5y3xer5s4i5ng5on4nor4time2icek4ker7ed7s5ing5r3egel4r5s3ghtless6y3mflam4sy3nchbaugh6ing6um4ders4ging4ner4tlock9s5off5stone9es5y3ppant5en6r7s5in7g5o3rted5ing3tting2oated6r7s5ing3ckhart5ing3din3ersheim3gging3oded5gate9s5ing5light9ts5plain4rboard9ds5ing3pping5y3ra5l6s5nce4ek5n6ce5r5s6heim5y5z4i5d5n6e5s6t7s4o4rie5y4sheim4y3ssie3tow4sam4ta3unces5der8ed8s4r5ish8ed5noy5s4ted5ing3wchart9s4er6ed6s4ing4ton2uegel4nt3ffy3id5s4tt3ker3like3mmox7ed3nking3or5\'s5esce5ide8s6ne6te5spar3rried7s5y4y3shes5ing4ter7ed7s3tist4ter7ed7s4y3xes2yby3er5s3ing3trap3way4heel1m1oaling3ming4y2bel5\'s2cal3htman3kler3us5ed5sed2dder3or2ehlich3ller3rster2gal3el3gy3le3y2ia3ble6s3les4ing3sted6r4y2jtik2kker6s2lan5d3ded5n5r6s4ing3ey5\'s3ger6\'s6s3ha3iage4c3ker6s6t7s4ish4lore4man4rock4stone9\'s5y4tale4way7s3land4ett7e5y4iard5es5n5s4man5er4ow6ed6s4y3mar4er3som5n3ta4ene3well2mby3ent3on5\'s2nar3cier3da5\'s4er5st4le6d5y4ness4ue6s3er3ger3ner3taine4es3ville3zie2obar3die4stuff9s4town4way7s3ling5sh4proof3sball4hee3tage4ball8\'s8s4ed5r4fall4hill8s5old8s4ing7s4light9s5oose4man4note8s4path5rint9s4race4step8s4wall6re5ear5ork2ra4ge4n5d4y5ed5s3bad6e4es\'s6es6s4id6s5s4us6h3ce\'s5ful5ps5s4ing4um3dham4ice4yce3earm7s4bear8s5ode5rain4cast8s5lose9d4e4foot5ront4go6ne5round4hand8s5ead8s4ign4limb8s4man5en5ost4play4ro4saw5ee7n7s5ight5kin5man5t6\'s6a7ll9ed9s6s4taste9s5ell5hought5old4warn8ed8s5ing8s5ord4x3feit7s3gave4er6s5s5t6s6te5y4ie5ng7s5ve7s4o5es5ne5t4y3han3ie4n5t6s3ker5y4ing4lift8s4ner3lorn3ma5l5n6t7s5t6s4bey5y4er4ic5ng3nal4er5ss5y4i4off4walt3quer3rer5st5y4y3sake4berg5urg8\'s4chner4ee5ll5th4gren4han5ee6y4lund4man4on5ok4ter5mann5ner5rom4wear5orn4yth7e3tas4e5s4hright5with4i5es5n5s4man4na5er6y5ight9s4on4ress4son4une7\'s7s4y5\'s3um5\'s5s3ward7s4ood3ys3za2sback4erg3co3dick3hee3ia3kett5y3naugh3sel5n5tt7\'s5y6\'s4il6s4um3ter6\'s6ed6s2ti4s2uad3cault4her3gere3hy3ling4ness3nded6r7\'s7ed7s5ing5ling5ries6y4tain8e8s3rfold4man4net4some5quare4teen8s8th5hly5ou3sek4hee3ty2wble3ers3le5r6\'s5s2x\'s3es3fire3glove3hole7s5und3man6\'s4eyer3tail4rot3well4ood7s5rth3y2yer1rable3cas4tal5ion8s7us5ure8d8s3dette4kin4y3ga4er4ile4ment8s4o4rance7t3her3iley5ties6y4ser4zer3ker3leigh5y4ick5n5x3mer6s5work9s4ing4pton3na4ca6is8e9s5e\'s6k6s5hi7k7se9d6ot5ia6e7s6ne8\'s8s6s5klin7yn5o6\'s6eur6is8e6m6rp5y6ne5zak4dsen4ek5y4gos4jo4kel6n5fort9\'s6urt9\'s5ie6ng6sh5l6and6in8\'s6y7n5ness5o5son5um4nie5y4o4sen5on5sen4ta5ic5om5zen4yo4zel6n3ry3sca5o4er6\'s4her5ier4ier7\'s4ure3ter4us3udster9\'s9s4sto3vel3wley3yer4ing3zee5r4ier4zle7d2eaking5show5y3berg3chette4kle7d7s3ddie5y6\'s6e4ell5ric8k9\'s9s5tte4in4kin4lund4man4o4ric7h7k8s3eberg8\'s5ie7s5orn5urg7n4dland6e5man8\'s5om7\'s7s4fall5orm4hand5ling5off8\'s6ld4ing4lance7d5ove5y4man7\'s7s5en7\'s5on7t4ney5y4port8\'s4r4st6one6yle4town4ware6y7s5ing4zer7s6s5ing3geau3ia4berg4dan5el5man5y6\'s4er4ghter9s7way9ys4heit4lich4man6rk5uth4tag6s4wald3miet5n4ont3nch\'s6man7en4ette4i4kel4zel5ied7s5y3on5s3quent8s3richs6ks4king3sco6\'s6ed7s4hbake9\'s5en7ed7s6r6st5kill9s5ley6y5man6en5ness5our4no6\'s4quez4ton3tful4ted6r5ing4well3undlich3vert3wen4in3ya4er4man4tag3zza2iar5s4s3berg4ourg3cker6y5ing4tion8s3da5y6\'s6s4dle4ges4ley4man4olf4rich4son3ebel4da6n5berg5el6n6r5helm6off5l6and6ey6i7ne6y5man8\'s8n5rich9s8k5sam6on4ling4man4ndly8\'s6ship9ps4r5son4sen5ner5on4zes3gate7\'s7s4ging4hten8ed8s6ful4id4o5n3kkie3ley4ly3nger6s3sa4bee5ie5y4cia5o4hman4kin5y4on4toe3tcher6man4o5s4ter7ed4zen5i6e5ler3zell4zell5le7d2oberg3der4o3ehlich4lich4mming3gman5en5outh9s3hlich4man3lic4o3man4er4melt6r4stein3nczak4ek4ing4tage6l5ed5ier8\'s8e9s8s6ng5line9\'s3stban6ite5ed5ing8s5y3thy3wning3ylan3zen2ucher6y5ter6man4tose3ehauf5ling3gal3in4tcake9s5ful5ing5less5y3mkin4py3sen4trate9s3tchey2yar3er5s3ing3ling3man4ire3rear1ua2cci3hsias3ker6s4in6g2ddle6s4y3ging4y3o2el4\'s4ed4ing4led5ing4s3nte6s6z2gard4te3ere4tt3itt2hrer4man7\'s7n8\'s7s2ji4\'s4s2klah6\'s2lbright3cher4o4rum3fer4il6l7ed7s4ord3gham5um3lam5rd4back8s5right4en5r6\'s5st4fare4man5er4ness4time4wood4y3mer4ore3op3some3ton6\'s3wood2mble6d6s3i4ng2nches7s4tion8ed8s3ded5r6s4ing3gal4i4us3ky3nel6ed6l6s5st4y3ston3time2qua5y2rash3bee5r4ish7ed4ush4y3ches3er4y3lan5ud4ett4ong5ugh8ed8s5w3man5rk3nace5s4er5ss5y4ish7ed6s4o3or3rer4ow6ed4y3tak5w4her7ed7s6st4ick5ve3y2sco3es3ing4on3ner3on3sell5s4ing4ner4y3tat4ok5n4y2ther3ile3on5s3ral4ell3ure6\'s6s2zes3zy1yodor6\'s0gaarder2ba4y3bard4ert4ing4ro4y3ehart4l4r5t3hart3ie3le5d5s3on4r3rall7\'s3y2cek3y4\'s2dbois3die5ng5s4um4y3flies5y3get6\'s6s3sby4den4on3way2ea3bel3lic3rtner3ta2ffey4in4ney4ord2ga4n3el4n4r3gle3ne5r4on2han3li2ia3dar6\'s3er3ley4lard4y3ner6s5sville5y4ful4ing4or5us4say5co3ser3tan4er4her4skill2jda2la4n5e5g5t4s4x3ban4o4raith5eath3eb5s4f4n5\'s4r4sburg4y3ford3i4\'s4e4k4n3ka3la5nd6t5rd5s4en5r5t5y6s4i5a5c6k5en5k5ng5on4man4o5\'s5n6s5on5p6ed5s5w6s4stone9s4up5s4way3oob6\'s4re4sh3pin3ster3ton3us3van4en5z4in6\'s3way6\'s2ma4che4ge4l3ba4er4ill5t6s4le6\'s6d6r7\'s7s6s5in7g\'s4one4rel7l5ill5o3co3eboy4cock8s4l5y4play4r5s4show8s5man5t4t5e4z3ing6\'s3ma5ge5l4el6l4ill4on6s3ons3per3unde7\'s4t2nas3carz4i3da5lf7\'s4ee5r6s4hi6\'s4y3em4y3ger5s4i5ng4l5off5y4plank4rene4sta6er8s4wer3ic4m4s3ley3nett7\'s4on3o4e4ng3sen5r4on4ter3ter4let4ner4os4ry3us3zel5r2ping3pa2ra4ge4nd5t4rd4y3bacz5ge4er6s5tt4le6d6s5ing4o4utt3ceau5s4on6s3da4en6\'s6ed6s4in6er4ner7\'s4yne3eau4d4th5t4y3field3gan4er5s4ill5s4oyle8s4us3i4n5g4s5h3lan6d4ic6k5ng5tz4ock5w3man4ent7s4on6d4und3neau5ll5r6ed6s5t6t7e5y4ish7ed4o5ck4sey3o4ls4n5e4utte3rard5tt4ell6s6ts5n5t6\'s6s6t7\'s7e5y4ick5s5tt4o5d5l6s5n6\'s5s5tt5w5z4y3side4on4ten7\'s5in5ka5on3ten5r6s4hwaite4in4land5ey4man5ore4ner4on4rell4side3ver6\'s5y4ie5n3win4ood3y4\'s3za4on2s\'s3ca4on6s3es3hes3ich3ka5mp4ell5t6s5y4ill5n6s3light3ner3par6d4e5r4ing3see5n5r6t5s5tt4ing4man7n4ner3ter4on6\'s4ric5o2tchel7l3eau4d4ly4s\'s4way7\'s7s5ood3her6ed6s4ings4man4right3ien4ng3ley4iff5n6g7\'s3oil4r5s4s3rell3sby4on3ten4i5ng5s4on4y3ward4ick3x3za2ubatz4ert7\'s3cher5o6s3det6te4in4reau4y3er5ke3fman7\'s3ger5s4han5man5ran4ing4ler4uin3lan4den5ing4in4list4tier5ney3mer4ond3na4tlet5ness3sman4tad3threaux4ney4reau8x3vain4in4reau2van3el4n4r3in4tt3lak3ras2wain3el4n3ker6s4ing4y3lik3ron3throp2yda5r4en4os6h3er3hart4eart3ler4or6d3man4on3ner5ss4or3shill3tan4on2za4\'s4ns3da4ik3elle7s4s4tte3ing3prom1earan6\'s4box4ey4hart5eart4in6g4y2bbie6\'s3el4rt3hard7t6t3o2chem3ko5s2ddes4ie5ngs5s3ney3uld2eing3ky3na4en3rs3sey4lin3ting2ffen5rt4ner4re2hle4ing3man3ret4ig6\'s5ng5s4man7n4y2ibel3co5\'s3dar4el3er3ger4le4y5\'s3ken3ler3man4er3sel5n5r6t4ha4ler4sler4ter4zler3tner2kas3ko2lbard6t4er3co3der3ett6e3fand3ler6t4i5s4man4ner3man3pi3vin2mco4raft8\'s3ex3ma4ell5r4ill3sbok4tone8s2na3co5r6p7\'s3darme4er6ed6s4ler4reau5on3een4t4ve4x3ger4his4ler3ial4e5re4s4us3lyte3mar3na4ett3o4ese4me3pharm3rad4e5s4ich3scher4el4on4tar3teel5r4her5ner4ian5le7\'s7s4le6r6s5y4ner4ry4zler3ung4s3zyme2o3ffrey8\'s3id3n3rg5ann5e\'s6ne6s6town7te5ia7\'s7n8s6e6ne6ou5y2phardt8\'s6t3pert2ra4is4ld6s4n4rd3ber6\'s6t4ig5l6s4randt3chas3da4eman4ing3en3gel6y5n6\'s5r4rude3hard7t6t4old3i4ch5ke4g4ng3ke5n4in3lach4eman4ich5ng4ock5ff3main7\'s7e5n6\'s6e6n6s4er4ond3ner6t3o4ld4me4n4ux4w3rald4i5ck5e5sh5t6s4y5\'s3shman5on5win8\'s4ki4on4tein6l6n6r5man5ner8\'s3tie4ner4rud7e4y3und6s3vais5se3wig5n3y2sco3ell6\'s3ner3sel5rt4ner3tal5te4ure7d7s2tchell3er3hers3man3tel5r6s4ing7s5s4le4man4y5\'s5s2urin2va4ert3ing2wgaw3irtz2yer3ser6s1hada3far3li5\'s3na5\'s4di3stly3ttas2erig6\'s4man3tto6s3zzi2io3tis2olson5ton3rmley3stlike6y3ulish2ulam4oum1ia\'s3cco3imo3mbra4pa3n4g4ni4t5\'s5s3p3rd2bas3bard4ens4ins4le4on6s4s\'s4y3eau6lt4rt3len5t4in3ney3ran3son6\'s6s2dcumb3dens4ings4y3el3get3ley3ney3witz2ebel3fer3ger3lgud4ow3nger4ow3rhart4man3sbrecht4ecke5ke5n5r5y4sen3tzen2ffard4en5rd4in4ord7\'s7s4y3ted4ing4rust4ware2ger3ging4le6d6s3i3nac4oux3ot5\'s2kas2la3berg6t7\'s7e5y4o5y4reath6th5ide4y3christ4rease3da5y4ed5n5r6\'s4ing4ner4on3ead3ford3ger4it4ore3ham3key3lam5n6d5rd4ean5m5n6\'s5r6s5t6t7e8\'s5y4ham4ick5e6s5g5n6gs6s5s4man5ore4ock5n5tt4son4um4y3man4er4ore5ur3pin3reath4oy3sdorf4on4trap3tner3vin3yard2mbel3let4i5n3me4ick7s3pel2na4\'s4s3der4in3gell5r4ham7s4ko4les4old4ras5ich3ley3nell4ie5ng4y3o3sberg5urg8\'s4eng4u5\'s3tel5r4her4ing4y3yard3za4berg2oia3rgi6a2pper4le3son2raffe7s4rd4ud3der6s4ing4le6y4ner3en3gis3lfriend9d\'s9ds4hood4ie5sh3od4ir4n5de4ux3sky3ten4man4on3van4en4in2sbert3card4lair3elle3i3si3u2tchell3ha4ens4ub3lin3tens5r4ings6s5s4ler4o2uffre7\'s3nta3sti5o2van3eback8s4n5s4r5s4th3han3ing5s3ler2za3bert7\'s3mo5s3zard4i1jelten7\'s1lacial5er7\'s7s5s4ken5in3dden5ing5ock4hill4is6h4je4ly4man4ney4son5tein6one9s4u4well5in4ys3eser3mor5ur3nces5ing5y4der5on4ton4ville4zer5man3ring5s3sby4co6ck6e4er4gow4heen5ow4ner5ost4ow4per5ie5y4s\'s5berg6urn5co7ck5er6s6y5ford5like5man5ner5on5ware5y3tzer3uber4ser3van4in6e3xo5\'s3za4ebrook5r5s4ing4ner2eacher4ming4son7\'s4ton3ba3ckler3da4hill3eful4son3ghorn3ichauf4sner3nayre4brook4da6le5on4fed7\'s4ham4more4na5ie5on5y4view6lle4wood8\'s3ssner2ibly3ckman8\'s5sman6tein3dden4ed5r6s5well4ing3mcher4mer7s4pses3nka4ski4ting3sson4ten7ed3tches4ter7ed7s4zy2oaming4ted5ing3bal6\'s4com4ex4o4us3cester4kner3eckner3mar4ski3nass3omy3ppy3ri5es4y3sser6s5man5on5y4ter3ttal5is4zbach3ucester3ver3wer6ed4ing2uckman5sman4ose3mly4mer3skin3ten4ted5ons2ycel4ine4ol5med3ndebourne4is4nie6s1m2ail1nagey3izda3rling5y3shing3wing2occhi3mic1oa3ded4ing3lie4post3tee5s4ley2bain3ble6d6s3el4n4r5t3i4e4n3le5t4in6s5rsch2chnour3kel4ley2da4r5d5t3bee5y4old6t5ut4y3dam6n7ed5rd6t4eau5n5ss4ing3ek4tte3frey7\'s3head3in5e6s5g3kin3less5y4ove4y3man3ot5\'s4wn4y3rej3sell5nd7s5y4halk7l4peed6ll3win2ebbels4el3decke5n5rt4ken3glein3hner4ring3ken3ller5ner4zer3man3pfert3r4gen4litz4ner4s4tzen3ser3thals4tel5ing5l4zke5man2ffin4man7\'s4ney3orth2ga4n3el3gans4in6s4le6s3o3uen2heen3man2ing5s3ter2jko2key3sel2la4b4n5d4s4y3ba4erg3da5de4bach6um5eck6rg8\'s5latt6um4cor5reek7st4en6\'s5r5st5y4farb5ield9s6nch7e6sh5us4ie5n6g4man7\'s7n7s6rk5ine4ner4ome4ress5ick6ng4sby5chmid9dt5mith9\'s5on5tar6ein9\'s6ock7n8e6rike4thwaite4win6re5yn4y3ec4m5an4n4y3farb4er6\'s6s4ie5ng4man3gi4o3kar3la4er4nick4um5st4y3ob4mb3phin3son4ton3ub2ma3bar4erg6t4os3er4s4z3oll2nad5s4ives3da4ek5r3er4t3na3sales4er3ya4ea5r4o3zo5\'s2oda5le6l4bar5read5y6e7s4child4ell5n6\'s5r6s4friend9ds4game4hart5eart5ue4ie6s5n6e6g7\'s4kin4land5et7t6y5in7g5oe6w5y4man7\'s4ner6ss5ight9s5ough6w4reau5ich7k6dge5oe6w5um4sell5on7\'s5peed9\'s5tein4tab4will6n7e5yn4y5\'s5ear8\'s3ey3fing4y3gin6s4le6\'s6d6s5ing3kin3ley4sby3nan3sby4e\'s5fish6oot5n5y4sen7s4tree3tee2pac5\'s4l3her6s3i3ro2ra4cke4l4n3by3da5n4en5r4ie5n4ji4ner4on6\'s4y5\'s3ee4n4y3gas4eous5s5ts4on6e6s4uze3ham3i4n5g4s3ka4i4y5\'s3ley3man4ley5y3ney4ick5k4to4y3rell4id6s3ski5y4line4uch3ter4ney4on3um3y2sa3bank3din3ha5wk4en4orn3lee4in6e3man3nell5y3pel6s4lan3sage5rd4en5r5tt4ip6s4man3tev3wick2taas3baum3cha5er3ham5rd4ic3lieb3o3schal8l4hal7\'s7l3ta4en5sman4fried4hardt5elf4i5\'s5s4lieb8\'s4man4schalk9ks9l5hall4wald3walt2uache3cher3deau4ie4reau4y3geon5r4hnour4ing3ker3lart5sh4den5ing4et6te4ston3nod3pil3rdine4lay5ey4mand5ent6t7s3sha3tal4y2van3er5n6ed6s4tt2wan5s4rd3dy3ell4n5s4r3in5g5s2ya4\'s3er4tte3im3ko2za3o4\'s1rabau4ber7s5ing4el5n6s5r6t4ill4le4ner4ow5y4ski3ce\'s5ful5land6ess5s5y4hev7\'s5ov4i5a5e5le5ng5ous4kle7s4o4y4zyk3date4chev5o4dy4ed5l5n5r6s4ing4ney4o5v6s4stein9\'s4us4y3eber5ner4ser5sle3ffam4ted5ing5on3gert3ham6\'s4ek3ichen4nger5y3ley3ma4bling4er4ley5ich6ng4mar5er5ies5y6\'s6s4za3na5de5t4berg4care4da6d7\'s5champ7ild5dad5er6st6ur5field5i6n6s5kid8s5ly5ma7\'s7s6et6om5on5pa7\'s7s6re5son8\'s8s6taff8nd5view5y4er5se5y4field4ger7s6s4holm4ite4lund4nan5ies6s5y4o5ff4quist4strom4ted5ham5ing5land5or7s5ree8\'s4ule7s5m4ville9\'s4zow3page4efruit9ts5r5shot5vine9s4hic7s6te4ple7d7s6ing3ser4mick4ping4sel6r7s6s5field9d\'s5green5i6ngs5l6and9s6ey6ike5man5o5root9s5y4ty3ta4ed5ful5r4hwohl4ing5s4tan5on4zer3uel5r4man7n3vatt4el6ine6l7e6y5n5r5s\'s6ide7te6t7one9es5tt7e5yard9s4ies5tt7\'s4ley5in4ois4y3ybeal7rd9s5ill4don4er5st4ing5sh4ling4son3zer4ing2eaney4ser6wood5ing5on5y4ter6st5house5ly5ness3ber4ner3cco4ian4ko4o3del3ear4ce\'s4dy4ley5y4nan5back9\'s9s7um6elt7rg9\'s6latt6urg7sh5er6st5feld9\'s8l9\'s6ield9d\'s5halgh7m7w6ill6oe7use6ut5idge6ng6sh5land7w6eaf7e8s7y6y5mail7n5ness5o6ugh5peace5sburg6hield9lds6lade7et6pan9\'s7on7un6tein7one7reet5up5vale6ille5wald9\'s9s8t7y6ell6ich6ood4son4ted5ham5ing8s4ver3ga4er4o5ire5r4son5ton4us3ider4man4ner3lla3mban4lin7s3nade7s4da5el7\'s4ell4fell4nan4on3sham7\'s4ko4ser6tt5ley5man3ta5\'s5l4chen4el4hel6r4na6\'s4zky3ubel4el4lich3ver3wal4ell3yhound9\'s4ing4lag4stone2ibben5in7s5le7s5on3der4ley7\'s5ock8\'s8ed8s3ebel4co4der4ger5o4r5\'s5son4sbach5er5ser5t4vance5er7s5ing5ous3ffee6n6th6y7\'s5ie6n7\'s7g6s6th8\'s8s7ts5o6n5y3gas4gy4non4sby3lli6ng5o6t3ma5ce7d4ley5y4mer6st6tt4ness4shaw5ley5tad4wood4y3nage5ld7s4berg4der7s5ing5lay8s6e7y5rod5staff7one4er4go6s4nell5ing4stead7in3ping4per5i6ng5o3sby4com4ham7\'s5man4ly4more4sett5o6m6n4tle4well5old3tter5ing5on5y3vas3zzard5ell5le7d6ies6y2oaning3ben5r4ler3cer6\'s6s3den4in4sky3ebner4ger4ne4r4sbeck3gan4gy3hman3leau4ier3ma5n4ek5r3nau4berg4dahl5in4er4lund4seth5ki3omer7s5ing4pman4ters4ver5y3ping4per5y6\'s3sbeak8s4hek5ong4jean4kopf4s\'s5bard6erg5er6s5feld5hans5i6ng5kopf5ly5man8\'s8n5o4venor3tesque4haus5eer4on4to3ucho6y4nded7r6hog6ing6less7ing6nut9s6swell6work4pement6r7s5ie7s6ng8s5ware4ses5ing5sman4ting3vel5man5r6\'s6s3wer6s4ing4ling4nup7s3zny6\'s2ua3ba5ugh4by4en5r4man4stein3cci3dges5ing4zien3el4nberg5er5wald4some4t3ffly3is3llon3mbine5le7d7s4man7\'s5ond8\'s4py3nberg4den6r5fest5ig5man5strom5y4ebaum5ich5r6t4gy4ion4ow4tal7\'s5ed5ing4wald3po4po3show4sing4zka3tman3ver3well3za2yder3giel3phons2zyb1schwind2ell1tech5\'s1uandjo7\'s7ng9\'s5ong8\'s4gdong5jo7\'s5zhou4ine4o3rded5fish5in7g5rail9s5sman7en4in3va5s2ba4\'s3bels4ins3er3ser2cci3kert3wa2dgel5on5r2edry3nette4na4ter5her6ner3rard4ette4in4nsey8s4ra6nt5ette5y4tin3sser7s6s5ing5work4ted5house3z\'s2ffaw6s4ey4in4y2gel2ichard3da5nce4ebook9s5d5line9s5post9s5r4i5ce5ng4o4roz3er3ffre3lbault5eau8lt8x6rt4der7\'s7s5hall4eless4foil6rd8\'s6yle4in4la6ume5en6t7te5ot7te4mette4tless5y3mond6t3nan4don4ea6s5ss5y4ier7\'s4ness4ta5her5o4yard3on3ses5wite3tar6s3zar2la4g4s3din3fport4stream3ick3la5h5tt4edge5t6t7e5y4i5ck5es5on4o4y3ping3yas2mbel5rt4i5\'s4o3i3mi4y3pert4ort4tion3shoe2nboat7s4y3del5r4lach5e4og4rum4y3fight8s4lint3kel3lick7s3man6\'s4en3nar4ell7s6s5r6s4ing4oe4y3point3ship7s5ot7s4moke3ter4her4ur4y2ppies4y3ta4ill4on2ra4l3gle3it3ka4in3ley3nards4ee5y6\'s4sey3ry3ski5y3tner3u4\'s4le4s2seman4s3her6s5s4ing3ky3lan3man3sie6d4man4y3taf5v4ed5r4in6g4o5n4us4y2tfeld4reund3hridge6e7\'s3knecht3less3man6n3ridge3shall4y3ted5r6ed6s4ing4man7n3waks4ein3zman5er2yer4tt6e3mon3on4t3ton2za3ek3ik3man3y3zi4le6r6s4o1waltney3rtney2enda4nie4ore2inner6tt2yneth7\'s7s1yger2mnast7s2nex2ohten3sai2psies4um6\'s4y2rate6s3o4s2tha0h\'s1a\'aretz2agen3land2bben3eck4eb4l4r5l3ib4ch6t4g4t5s3le3sburg3y2chette5y4tel3kbart8h4el5r6\'s6s6t5tt4ford4ing4l5e6s6y4man7n4ney7ed4saw5taff4worth2da4d4r3dad5n4en4ock5n5w3en4r4s3field3id3leigh5y4ine4ock3n\'t4ot3oop3ron3sall4ell4on3win2ecker3fele4fner4ner3gele5r3nel3rtel3ssly3ussler2fele4man4n4r4y4z3fey5z4ner4ord3if5\'s3ley3ner3ta2ga4n5s4r3berg3ee4l4man7n4n5s4r4wood4y3fish3gan5r6d6t4ett4ins5s4le6d5und4strom3in5s3le5r5y4und3man6n3ner3ood3strom3wood3y2hner2ida4ee5r5t3fa4ong3gler3ku5s3land4ey4ing4stone9s7rm3nan4er5y4ley5ine4sworth3rcut7s4do6s4field4grove4less5ine4spray5ton6yle4y3sley5ip4t3thcock4i5\'s5an7s5en7s5s3zlip2jdu5k3ek3jar2kan3eem6\'s3im5\'s3ki4o3on2las5z3bach4erg6t4ig4rook8s4ur3comb3dan4eman8\'s5n5r3ebopp4n4y5\'s3fback8s4dan4hill4man7n4ord4time8s5one8s4way5it7s3gren3ide4k4te3ko3la5m5s4bauer5erg4eck5n5r5t6t5y4ford4gren4ie5n6g4man6rk8\'s8s4ock5w6ed6s4quist4strom4um6s4ward6y7s5ood4y3mi4os4stad3o4n4s3per6n6t4in4rin3sell5th5y4tead6d5on7\'s3ted5man5r6\'s6s4ing4om5n3ving2ma4d4l4n5n4r4s3berg4let6y5in5y4recht5ick6ght5o6s4urg4y3dan4oon4un3el4r3id4el4l5l4sh3let6s6t5y6\'s4in6g5sch3mac6k5n6n5r5s4el6l5n5r6\'s6ed6s5tt4ill5tt4ock7s5n6d7s6s3ner3on4r3pel5r6ed6s4le4shire9\'s5on5tead4ton7\'s7s3re4ic6k4ock3sher4on4phire4ter7s5ra6ing9s6ung2na4k4n4s3back4o4y3cher6tt6y4ock7\'s5x3da4bag7s6ll8s5ill8s5ook8s4clasp5raft9s5uff8ed8s4ed5l6\'s6s5r6s4ford5ul7s4gun7s4held5old4ing4ke4le6d6r7s6s6y5in7g5on6om8s5y4made4out7s4pick8ed4rail8s5ich5os4saw7s5et7s5hake9s5ome5tand9s4werk4y3el4mann4r4y3ford3gar6s4en5r6s4ing7s4man4out7s4sang8\'s4ul5p6s3i4\'s4ng4sch5h3jin3kel5n5r5y4in6s4la4o4y3ley6\'s4in4on4y3mer3na5\'s5h6s5m5n5y4eman8n5n5r6s5y4i5e5g5ng5s4och5ld5n4um4y3o4i5\'s4ld3sa5rd4brough4che5om4el6l5n6\'s5r4ford4haw5ew5in4ley4ma6n7n4om5n6\'s4sen5on3ta4en4horn4man3us3vey3wa5\'s5y3y4\'s3zel4lik2pag3eman3good3ke3less4oid3ner3pel5n6ed6s4y3sburg2ra4ld4n5gue8d8s4ss6ed3bach5ugh4eck5r6t7s4in4old5r6\'s6ed6s5ur4uck3court8\'s4row4um3dage5rt4back6ll5oard4core4ebeck5e6\'s5man5n6\'s6ed6s5r6s5st5y4good8s5rave6ove4head4ick5e5n6g7\'s4line5y4man4ness6tt4pressed4rick4ship8s4tke4ware6y5ick8e6n5ood8s6rk4y5\'s3ebrained4m4n4r4wood3ford3gan4ens5r5tt4is4rave8s5eaves5ove4us3i4g4ng4s4z3jo4u3ken6s5r5y4in6\'s6g6s4less4ness3lan6d4e5m6\'s5ss5y6\'s4in6\'s6g4off5t5w3man4el5n5r5tz4ful4ing4less4on6\'s4sen3nack5ge4den4er5ss7ed5tt5y4isch6h4ois3o4ld6\'s3pel5r6\'s6s4ham4in6g5st7s4ley4o5ld6e5on7s4ster3ra5h6\'s5l4el6d6l7\'s5n5r4ied6s5ll5ng5s6s4od6\'s6s5ld5n5p5un5w4y5\'s3sco4ha6m6w5er6st5field5ly5man5ness4tad5on3tel6l5n5r4fiel8d5ord8\'s4graves6ove4ig5n6g5s4je4ke5opf4l5age6nd6ub5e6ss6y5ieb6ne7g4man7n6rx4nell6r6ss6tt6y4og5n6g4ranft4sell5field5horn9e5ock6e6n6ok6ugh5tein5ville4ter4ung4well5ick6g5ood4y4zel7l5ler5og3vard7\'s5th4el6l5st7s5y6\'s4ie5ll7e5n3ward4ell4ick4ood2san3bro6\'s6ok6uck3call3ek4man4r3hem5r6\'s6s5s4i5m5ng5sh4man6rk5i4tag3id5s3kell5tt5w4in6s3lam4ett5y3man3n\'t3o4\'s3pel3san4el6l5n5tt5y4ig5ng4le6d6r6s4man4on3ta4en6ed6s5rt5y4ie5ng7s4on4y3well2ta3ch\'s5back5el7l6r6s6t7s7t5ing3ed4ful4m4r5s3field8\'s3hcoat6ck4eway4orn7e3ing3ley3on3red6s4ick3tan4en5r6\'s4ie4on4y2uber6t4ner4rich3er4ter3fer3gan4en5r4hey5ton6y4land3lage4er6s4ing4sey3nted5ing3pert4pauge4tman8n3ry3sa4child9t4en5r4feld4ky4man7n4ner4ser5mann4wirth3ter3ver2vard4s3el5ock4man4n5\'t5s4r4y3ier4ll4ng5s4s3lik5n3ner3oc3ran4on2wass3ing3kbill8\'s4en5r6s5y6e7\'s4iness6g6s5sh4sley3ley6\'s3orth3thorn8e9\'s8s3ver2xton2ycock4raft3del5n4n5\'s4ock5n4u5k3ek4n4r3field8s4ord3good3hurst3ing3ley4oft7s3man4on6d5re3ner5sworth4ie4sworth3slett5ip4tack8s3ter4on3ward7\'s4ire4ood5rth2zan4rd6s3el5l4n3ing3le5tt3y3zard1box1eacock5x3dache8s4band8s5oard9s4cheese5ount9s4dress4ed5n5r6s4first4gear4ing7s4lee6ss6y5ight9s6ne8d8s5ong5und4man4phone9s4rest8s5ick5oom4set7s5hip6ot5man5tart9s6one9s6rong4way5ind8s4y3fner3gle4ney4y3ler6s5y4ing4thcare9e\'s7orp6dyne6ful6source9th6trust9st\'s6vest6week7ise7ork9ks6y4y5\'s3ney3phy4ing3rer6s4in6g7\'s7s4kens4on4ron4say4tache5beat9s6reak9ks6urn5ed6n7ed5felt5land6ess5scan5throb9bs5wise6ood5y3sley5ip4ton3ted5r6s4hcliff6ock7te5en6r7\'s7s5man5row8\'s5wood4ing4ley4on4wole3ven6\'s6s5y4ies5n6g4ner4rin4y2bard3da4ing3ei4l4r5t3ner3rew6s4on2cco3hler4tman3kard6t4bert4el5r6t4le6d6r7s5ing4man7n3la5\'s3ox3tare7s4ic4or6\'s2da3berg3da4en4ing4y3een3gecock5hog8s5path5r6s5s4ing4lin4peth3i4n3ley4und3man3quist3rich6k3strom3tke3wig3y2ebner3ded4ing3fner3haw3kin3lan4ing3mstra3nan4ey3r4en4mann3ter2fei3fel5rn4ler6y4ner4ron3ler5y4in3ner6\'s3ter4i4y2gel4man4r3gen4ie3land4er4und3na4er3strom3wood3yi2hir3man4eyer2ibel5rg3chel4o5\'s3dbrink4el5man8n5n5r4i5\'s4orn4rich7k4stra3er3fer6s5tz4ner3ges4hten8ed8s4l3ken5s4o3land4brun4eman8\'s5r4ig4man7n3man6n4bach5uch4er6l4lich4soth3nbach6ugh4del5l4ecke5man8n5n5r5y4i5cke5g5sch4kel4l5e6in5y4o5ld5us4rich8s4sohn4tzman4y4z\'s5el6n5man8n3ple3ress4loom8s3sbourg4el5r5y4kell4man7\'s4ner4tand5er3tkamp4man7n4ner4zman3wa3zer2jna2kker2lane3ber6g6t4ig5ng3der4man4or4reth5ing3en5\'s5e5s3fand4er4gott4man4rich3ga4et4ren3ice4e4n5g4x3lams5nd5rd4berg5usch4en5r6\'s4fire4ier5ng5sh4man7n5er5uth4ner4o4strom4ums4wig3ma5n4brecht4er6s5t6s4ich6k5g5ng6th4kamp4ont4s\'s5ley8\'s8s5man4ut6h3ot5s3per6s4ful4ing7s4less4rin3sel5r5th4ley4trom3ter4on4sley4zel3vey4ie3wig3zer2man5n5t3bree5ick4y3dale7\'s3el3ing3ker3ler4ine7s4o5ck3men5r6t4ing7s3o4nd3pel5n4hill4stead3ric6k4y3sley4treet3y2nao4rd4ult3bane3ceforth4hman6en4kel3dee5l4ler6y4on4ra5ich7k8s6k7s6x5on5y6\'s6x4y3ey3gel3house3ie4n4on3kel6s5n4in4le3le5y6\'s6s4ine4y3man3na5n4eke5man5n5r5ss5y4ick5g5ng7s5s4on3peck7ed3ri5ch7s6k7s5k5que4y5\'s3schel7n4el5n4haw4il4ke4lee6y4on3tges4horn8e4ic4off5n4schel3wood3zel4ler2on2pburn7\'s3fer3ker3ler3ner3per4ler4ner3worth2ra4ld6\'s6s3bal4eck5l5r6g6s6t7\'s4ie5g5n4old4ster3ceg4zeg3da5l4ed5r6s4ing4man4smen3eby4in4ndeen4with3ford4urth3gert5t4ott3in5g3kert3ling4ong3man6\'s6ce6n7s6s4es4ie5ne5t6s4on4sen3nan6des4don4er4on3o4\'s4d4es4ld4n5\'s5s4s4ux3pes3reid5ll5n4ick5dge5g5n6g7s4le4man7n4o5d5ld5n3sant4chel8\'s8l5u4elf5y4hey7\'s5man5ner4man4om5n3ta4el5r4ha4ig5ng4lein4og4zberg5og3vey3wick5g5tz3zberg4er4feld4ig5ng4og2sheng3ik3keth6t3lep4in6\'s4op3per3se\'s5l5r4ian5ng5on5te4ler4on4ton7\'s3tand4er4her4on2tland3man3rick3tel4i5ck5e4ler4rick4y3u3zel5r4ler2ublein3er5\'s3man6n3pel3ring3sen5r4ser2vey3ner2ward3ell4r4tt4y3ing5s4tt6\'s3ler6\'s5tt3son2xane3cel2yday4en4on3er3ing3man6\'s6n7\'s3ser3ward4ood1iam3tt5\'s2baaq3bard4en5rd6t5tt4ing5tts4ler3don3ler3ma3ner3or3shman2ccough8s4up6s3fa3hens3kam4cox4el5n5y4le5in7g4man5on4ok5x4son5ville2dden3ebound4out7s4r3ing3y2eber6t3gel3mstra3r3stand3tpas2ga3bee4ie4y3don3gens4ins3ham4boy5row8s4er5st4field6ll4land8s5ey5ight9s5y4man4ness4rise4school9ls5mith5peed4tech4way7\'s7s4yield3ley3man3night5te2jack6ed3inks2ker5s3ing2land3berg6t4orn4un5rn3da4en5r4ie5tch4reth4um4y3eman5on7\'s4r4y3gart4eman5r6s6t3ke5r3la5rd7\'s5s4crest4el5n5r5y4house4ian7s6rd5n6g5s4man7n5er4ock4sdale6own5ide8s5man5on5trom4top7s4y5ard3ma4er3o3pert3scher4man4on3tner4on6\'s6s4y3yard2mel3mel4ler3ont3self2nchcliff9fe5ey5liffe5man4kley3der6ed6s4i4le6y4man4rance4sight9\'s4u5s3ely4man4r4y3ger5s4ham4is4le4ston3kel4le6y4son3man4en3nant4ers4y3o4te3richs3sdale4haw4ley4on3ted4ing4on3zack4man2ott2pbone7s3kins3pen5r6t5st4ie6s4le6r4o5s3sher4kind4ter7s3well2ram3e4d4s3ing6s3o4ns3sch\'s6berg6feld7ield6horn6i6man9n6y4hberg5field5horn5man4ute3tle3zel2saw3cock5x3el4r4y3ham3le4op3s\'s4elf5s4ing4ong2tchcock9\'s5ens6s5hike9d9s5ing8s7s5man5ner3her3ler6\'s3man3schler4man4on3ter6\'s6s4ing5te4le4ner4y3zeman2vely2way2xon3son2zer1jort1ladik4ky3vac1oadley3gie4land5in5und4y3rded5ing4seness4y3xes2back4n4rt4ugh3bes4ie6s5ng6s5t6s4le6d6s4y3day4y3en4rg5t3good3in3lit3nail4ob3o4es3sbawm4on6\'s2chberg4man5uth4stein4tief3kberg4er5tt5y6\'s4in6g4ley4man4ney7\'s3tor3us4tt2dak4pp3der4ing4ur3el3gdon4e\'s5n6s5podge5s4in6s4kin7\'s7s6ss4man7\'s4son3nett3o3sdon4on2ecker3down3fer4fner4le5ich3ger3ing3kstra3lscher4ter5ing4zel6r3ne5r4ig3per4fner4ner4pner3rig4ner3schen4ly3veler5t6\'s3y2fer3fa5\'s5rt7h4er6t4itz4man7\'s7n4ner3i3land4er3man6n3stad5ra2gan5\'s5s4rth3berg3en4r3gan5rd6t5tt4ing3land4e4und7\'s7s3nose3refe3sett4ton3warts5sh4ood2hler3man6n3ner4stein3o4rst4s3um2iland4man3sted5ing3ty2key3um2la4n3bein5n5rg6t4rook8e9\'s8s3comb7e3da4eman5n6\'s5r6\'s6s4fast4ing7\'s7s4man4orf5ut7s4ridge4sworth4up6s3eman4n3ford3gate4uin3ick4k4ng3lan6d7\'s7s5r6s5tz4eman5n5r6ed6n6s5tt5y4ick5e6s5n6g7s6s5s4man7n4o5m5n5w6\'s6ed6s4stein4y5\'s3man4berg4dale4en5r5s\'s4gren4lund4quest6ist4strom3ness3quin3royd3scher5law4ey4tad5ead6in6n6r5ine5on5rom4worth3tan4en5r4haus5us4kamp4man7n4on5rf4rop5y4sclaw4z\'s5claw5er5man3ub4m3ven4is3way3y3zer4man7n4schuh5toff4warth5orth2ma4c4ge4n5n5s4rt3bre4urg3ebound6ys4care5lub4fed7\'s5ront4grown4land8\'s8s5ess5ike5y4made4n4page4r5\'s5s5un7s4sick5ley5pun5take9\'s7te6ead9\'s9s6retch4town8s4ward5ood6rk7ld4y3ing3mel3o3rich3sey3uth2nan3cho3da5\'s5s4o3eck4r4st4y5s3gkong4wei3ig4ng3king4y3nold3old4r5\'s5e6d5s4ur6\'s6ed3shu2obler3chie3ded4lum7s4wink8ed3ey3gland3ker6\'s6s4ing4up6s4worm8s4y3ley3nah3per4la4oe3ray3ser4ier7s3ted5n5r6s4ie4man4on3ven5r6\'s4ler2pburg7\'s3eful7s4less4well3fer3good3i4ng3kin6\'s6s4yns3man3pa4el5r6\'s6s6t4ing4le4y3scotch9ed4on3ton3wood2ra4ce4k4n3chow3ehound4n3gan4er3i4ne3key4y3lick3man6n5ts4el4one7s4uz3nack5k4back5eak6ck5ill8s5lende5ook5rook5urg5y4ell5r6e5t6\'s6s5y4ick5g5k5ng4less5ike4or4pipe4sby5tein4ung4y5ak3rell4id4ocks5r6s3se\'s5back5flesh5head5ly5man6en5play5s6hit7oe9s5tail9s5y4fall4ham7\'s4ing4ley4man4tman8n3ta4en5r4man4on3us3vac6\'s5t6h7\'s4itz3wath4ich5tz2sack3ek4s4y3ford3haw3ick4e4ng3kin6g6s4yns3ley3man3ner4i3pice3sack5in4ein3tage4ed5l6s5nch5r5ss4ile5ng4ler2tard3bed6s3cake7s4hkin7ss3dog6s3el5\'s5s4n3house3line7s4y3mail3pot3shot7s4pot3tel6et8\'s5r5st4le4man2uchen7s5in7s3daille4ek3gen4ham5land5ton8\'s4land3lton3nded5ing4shell3r4\'s4long5y4s3sand4den4e\'s5al5boat9s5ful5guest9ts5hold9\'s9s5knecht5l5man8\'s5n5r5s5ware9s6ife7ves6ork8th6right4ing7s4ka4ley4man4ton7\'s3tchens4en6\'s4man3y2van3da4en3el5s4n4r5ed5s4y3ing4s3land3y2w\'re3ald4rd6\'s5th4t5t3croft3den4y3ell6\'s6s4r4th4y3ie5\'s4tt3land4e5r5tt5y4ing3met3orth3ry3sare4ell5r4on3tek4on2xie3sey4ie3worth2yer3ing3lake5nd3os3vald1p1r2abak3wi2eha2ibar3vnak2ncir2onek3vat2uby3ska1sieh3ung1ua3dong3irou3neng2bbard7\'s6t4ell7\'s5rt4le6\'s4ub4y3cap6s4o3er5s5t6\'s3ka3ley3ner3or3ris2cker4ins4le4step7r8s2da4k3die4le6d6s4y3ec4k3gens4ins3kins3low3man3nall4ell4ut3ock4n3son6\'s4peth3won3y3zik2ebel5r6t4ner3gel4lin3lskamp5man8n3nink3rta5er3sman4tis5on3ther4tl5ner3y2ffer4ine7s6g4man4ord4y5\'s2gel5y4st4tte3gard4er5tt4ies5ng6s4ler4y3hart4banks4en5s\'s5tt7e5y4ie4lett6y4son5ton4y3ill3ley3o4\'s3uet4s2hta2i3bregtse3e3sh5man3zar2kill3stra2la3bard4ert7\'s4urd6t3ce\'s3die4y3en4t5t6e3gan3ick4n5g6s3king3lett4um3on5\'s5d6\'s3sey4man3tberg4gren4man4on4quist3u3vey2man5\'s5e5n5s3ber6t4le6d6s5y4oldt4ug5rg3drum3frey3i4d3ke3l3mel6l5r4ing4us3or5\'s5ed4ur3pal4back4ert4hrey8\'s8s6y4ty3us3vee6\'s6s2nan3chback5es5ine3dai4ley4red7\'s7s7th9s3eke3gate4er4ry3kele5r6ed4ins4y3ley3nell3sley3tco4ed5r6\'s6s4ing4ley5y4on5on4ress4sman5ville4way3za2ot2pfer3pert2rco3dle6s4man3ford3lbert5urt6t7t4ess5y4ing4ock4y3ney3on3rah5y4ell4i5ed6s4y3sey4ton3ta4eau4ful4ig5ng4le5ing3vey4itz3witz2sain4k4r3band7\'s7s4y3chka3eman4n4r3ic3ka4ey4ins4y5\'s3man6n3on3sain5r4ein7\'s5r5y4ite4man4on6g4y3tad4ead5d5r4ings4le6d6s4on2ta3chcraft5ens5ings7s3nick3o3sell4on3ter4ner4o5n6\'s3u4\'s4s3zel6l4ler2val2xford3ley2yett3ler3ser2zzah1yams3tt5\'s2bl4\'s3rid6s2cor3roft2den4r3ock3ra5nt7s5s5te7s4ick5de4o5\'s5n5us5x3stra2er4s2giene2land3er3sa3ton2man5s4s3el4n4r3ie5s3nal6s2ndai4man3ek4s\'s3son2ogo3tan2per3hae4en3ing3o2sell4r3lop3on5g3sop3ter2un4dae6i7\'s7s2well0i\'ers1a2in2ms2n1ba3ch2ex2id3s2mer5s2n2sen1cahn5\'s3rd2eberg7s4ox3fish3land3man3s4kate2hi2ing2kes2loud2on4s2y1da2dings2eal5\'s5s3c3n4t3tte2le4d4s3y2o3l4s2s2yll1fas2fy2il4l3nt2or1gel3ne3r2loo2man2nace4tz3ite6s3ore6d6s2o3e3n3r3u1hasz2le2nen2rig1iams2da2e1jaz1kaes3rd2erd3y2ie2le2ner2on1la3n2bo2ene3r2hae2iff2jin2ka2lig3ness2o2sa3ley2va2ya1mage3i3m3n3x2bed5s4r3ibe6d3ue5d2el2hof5f2ig2lay3er2mel4nse4rse7d3u4ne2net2o2pact6s4ir6ed6s4le6d6s4rt6s4sse3each7ed4de6s4l5led4nd3inge7d4sh3lant7s4ied6s4ode7s5re7d7s4y3ort6s4se6d4und7s3ress7ed4int7s4ov6e7d7s3son3ugn6ed6s4lse4re4te2re4g5\'s2us1na3ez3ne2board4rn4und4x3red5ed2ca4nt4s5e3ense7d4st3hcape4eon5s4ing4on3ise6d4te6s3line7d7s4ude7s3o4\'s4m5e6s3rease8d4ust3star3ur5red5s2da4l3eed4nt4x5ed3ic5t4e5s4te3o4or6s3ri3uce6d5t4lge7d4s3y4k2ept3rt3s3z2fant6\'s6s3ect6s4r5red5s4st6s3ield4rm6ed3lame7d7s5te7s4ict7s5ght4ow6s4ux3o4rm6ed6s3ra4inge8d3use6d2ga4lls4r3ber3els4r4st3ham4ram3le5s6e5tt4is3man5r4ire3o4ld4t5s3rained5m5o4id4um3var2hale6d3ofe6\'s4use2iss2ject6s3ure6d6s2kblot3jet3ling3y2laid4nd6\'s4w5s4y3et5s4x3ine3ow2mac4n5\'s4te6\'s6s3ex3on5t2nard6s4te3er4s5s3ing6s4s5s3o2put5s2quest4ire2road6s2sane3cho4o5e4ribe8d8s3ect6\'s6s4l4rt6s4t3hore3ide6s4ght7s4st6s3keep4ip4o3law4ey3pect7s5ech4ire7s3tall7ed7s5nce6t4ead4ill7ed7s5nct8s4one4ruct8s3ult6s4re6d6s2tact4ke4n3el5\'s4nd6s5se5t6s4r5est8s5n6ed6s5red4x3i4s3o4ne6d6s3ra4ex4ie5gue8d8s4o5n5s4ude7s2uit3re5d2vade6s3ent6s4rse5t4st6s3ite6s3oice7d4ke6d6s4lve7d7s2ward3ood2y2zer1o2n3s2s2tt1p2ad4\'s4s2co2hone6s2ock3d4s2sco3en2tay1q2\'s2bal1ra3\'s3n4\'s3q4\'s3s3te2by2eene3land\'s7s4l3ne5\'s3tte3y2ick3s4h3t2ksome3utsk2lbeck2ma4\'s2on4ed4s4ton2vette3in5e5g6\'s2win1sa3ac5ks5s4k3ly3y2bell3ill2cho2eman3r2grigg4o3ur2ham4q3ee3i4\'s3ler3mael5il5n3tar2is2kra2la4m5\'s4nd6\'s6s4s3een4r4t5s4y3ip2m3ael4il3s2n\'t3er2om3n2pra2rael\'s2sa4c4h4m4r3ie4ng3ue5\'s5d5s3y2tat3el5\'s3hmus3ook3re3y2u1t\'d3ll2a3r2ches4ing4y2ek3l3m4s3n2kin2o3\'s3h2self3tee3y2tner3y2unes2zhak1va3n4e3r3x2en4s3r4n4s3y2ie3ns2o3r2y1wai3n3te2en3rks2o1yer1zard3tt2od2zard3i3o3y4\'s0jabah4r5\'s3bar4ing4our3er3lon3ril2cek3him3inth7e3ka5l5ss4el5t6s6t4i5\'s5e6\'s5ng4ley5in5yn4man4o4pot7s4son7\'s7s4y5\'s3lyn3o4b5\'s5e5s4me4r4t4x3quet6z5ie6n5ot2ded4ite3win2eckel3gar4er6s3kel3nicke2fco5\'s3fa5r4e5e5y4na4ray7\'s5ey2gdish3er3ger6\'s6s3lom6\'s3o4w3uar6\'s6s2hner2ilbreak4er6s4house4ing3me5\'s5s4ie2kab3el4way3ie3ob2lbert2ma4il4l5\'s4r3bor3es\'s5on5town5way3i4e5\'s3mal4er6s4ing4u5\'s3rog5z3u2na4k4s3ca4o4zak3da4reau3eane4k4l5le4sville4t5\'s5te4way4y3gle6d3i4ce5k6e4e4i4k4ne4s5ch5h3ka4low4o3na4ey4ing4ock3off4s4w3sa4en4ky4ma4on4sen7s5on3tzen3us5z3vrin3zen2pan5\'s5s2qua5y4ess5z4ish5th2ra4sh3boe3chow3din6e7\'s3ed3gon3man4in6\'s4on3os5z3rard5tt4eau5ll7s5tt4iel7\'s5ng4od4yd3vi5e5k5s3yl2sek3ko5t3min6e3o4n5\'s3pal4er6\'s6s3so3ter2udon3ndice8d4ty2va4n3ett3its2wad3bone2ya3cee6s4ox3den3me5s3roe3son3walk2zmin3zman5en4y1ealous3na4court4er6ette5tte5y4ie5ne4nette5ie4sonne2di2epney3ring3ter2fcoat3fcoat4er6ies6s5y4ords4ress6y7\'s7s5ies5y4us4y2hle2ju4ne2kel3yll2len3ley4ied6s4o5\'s4y5\'s3ton2mie3mie4ott2na3dro3in3kens4in6s3na4er5ss5tt7e5y4i5e5ng7s4y5\'s3rette8\'s3sen4on4sen2ppson3sen4on6\'s2rald3den3e4b4l5d4z3gens5r3i3king6s4y3maine5n4yn3nberg3od4ld4me3rell4i5e5s5tts4old4y5\'s3sey6\'s6s3vis3zak4y2sper3se5\'s5e5n5r4ie4on5p4up4y5e3ter6\'s6s3up4s2tborne3er3hro3ro3son6s4tream9\'s9s3ta4ed5r4ing4on4y2umont2wel5l5s4ss4tt3fish3ish4tt3ry2zek1heryl2irmack1ia3n4g\'s5su3r3wen2cha2feng3fy2ggetts4le3saw2had2lek3lion7s4son3ted2ma3bo\'s3i3mie6d4y5\'s2ndo4ra3gle6s4sheng3kins3right2pson2rak3ga3i4k3on3sa2tney3ters2ving1oanie4n5e4ou3o3quim6n2bber6s3ete3in3less3s\'s4on2celin7e5yn7e3hem5n4im4um3key6s3ose3ylan7\'s2dhpur3i4e3oin3y2edicke3l4\'s4le4son3rger4s3tte3y4\'s2ffrey2gger6s4ing2han5n6s3ndrow4ie4nie7\'s5y6\'s4s\'s5en7\'s6y5on7\'s7s5rud5ton8\'s8e7wn9\'s4ta4y3son2iner4ing4ted5ly5ness2kebook8s4r5s6t4ster3hang3i4ng2lene4tte3ie4n3la4ey4ie6s5ff7e4y3son3ted4ing3y2nah4s3cas3es\'s5es5town3i3ker3sman4on4son2osten2plin2rdache5hl5n6\'s6s4en4i5e4on4y3ge3nal3stad3y2se4\'s4f4ph6\'s6s4r5\'s4tte4y3hi3ie3ke\'s3leyn4in4yn3pin3ten6s4le6d3wick2tted2ubert3ett3lwan3rdan4et6\'s4nal7\'s7s5ey7ed7s3sting2van3i2wers4tt3ley4y2yal3ce\'s5lyn8\'s3ful3ing3ner3ous3ride3stick2zef1r1ua3na3rez2ba2ckett2dah4s4y3ge\'s5ment9s5s6hip9s4ing4ment8s3i4ce4e4she4th3kins3o3sen4on3y4\'s2edes3nemann4ger3rgen7s3teng2ggle6d6s2has5z3lin2ices4y2jo3u4be2kebox3i2lep5s3i4a5\'s4e5\'s4n5e4us3son3y4\'s2mble6d4o5s3per6s4ing4start9s5uit8s4y2nco4tion8s5ure8s3da3eau4k4tte3gbluth4els5r6s4hans4in4le6s4man4wirth3ine4or6\'s6s3ji3kbond4er5t6s4ie6s5n6g6s4y5ard8s3o4\'s4d4t3ta2pin3pe2ra4\'s4n4s3czak5yk3ek3gen6s3ich4es4s5t6s3ney3or5\'s5s3y4\'s2sco3ta4en5r4ice5n6\'s6e5s6s4ly4man4o4us4y2tland3ras3ting2ul2wan1yishane0kabart4t3bah3el3i3le3oom3ral3ul2cer3hel4mar4uck5r3kley3zor2dar3el4n4r3ing4sh3lec3ow3y2eding3hler3lin6\'s3rcher3ser4tner3tzel2fer3ka5\'s2gan3el4y3in5s3ler3y2han5\'s3ler5y2ifu3gler3lash3ner3rey3ser6\'s4ha2ji2kos2lal4n4s3bach4fleisch3eel4n4r4y3i4l4n4s5h5z3ka3la5l5m5s5y4en4hoff4ins5s4man4strom4us3man5r4bach4us3nins3o4k4us3ter3var2ma4l4n3ber3ei4l4n5s4r3in5s4r3ke3man4er3pa4en5r4fer4haus4man7n3ra5dt5n5th3stra2na4i4k4n3da4el4ler3eb4ll4r4y3gas4yo3ipe4s4tz3ji3ka3nan4er4o3o4de4n3sai5n6\'s6s5s3ter6\'s4le4ner4or6\'s3zi4ler2olin3ri2paun3fer3lain7\'s5n6\'s4in4ow3ner4ick3ok4or4r3pa4el5r4ler4us3ral3ton4ur3ur2ra4ch4m4n5\'s4s4t5z3ban4er3cher3dell4os3eem6\'s4l5s4n5\'s4t3ger5s3i4m4n4s3la4e5n4heinz4ik5n6e4ow4sen5on5ruhe5son3ma5n3nal4er5y4ow4sund3ol4n4s4un4w3pel5n4ov3ras4en5r4ick4y3shner4on4tadt5en7s3tchner4er3un3y4n2sal3brol7s3chak3dorf3el5l4man4r4y3ha4mir4ner3i4ch5k4k3ka4e5l3ner3par4er3sa5b5n5r4el5m5n4in6g5s4ler4ner4on3tel5n6s5r4l5e6r4ner3un3za2tcher3en4r4y3ha5n5rine4i5e4leen8\'s6ne5ine4man4ryn4y5\'s3i4e5\'s3ja3o4\'s3tner3y4a4n3zen5r4in4man2uai3ble3cher3er3fer4fman8n4hof6ld4man7\'s7n3nda3ppi3tzman2van3ner2wa2ya4k5s3don3la4ie4or4ynn3o3pro3ser3von2zakh6s4n3da3ee4n3in4s3mer3oo1cal2op1eadle4y3gan4le4y3hey3ley4y3ney3rby4fott4ley4ney7\'s5y4sarge4y3sler5ing3thley8\'s4ing7\'s4ley4on5r3y2bab2ckler2dar3dy3o2eble6r3dy3fer3gan3han4ner3lan4er5y4in6g4son4y3na5n4er5st5y4ly4um4y3per6s4ing4sake8s3ran3see5y4ler5ing3ter4on3ver4il3zer2ffer2gel3ler5y2hler3oe3rer2icher3del3fer4fer3gley3ji3ko3llor7\'s4man3mig3nath4er3o3per3rsey3sei5r3tel5r4hley6y3zai4er2lbaugh4er6g7\'s4y3cey4hner3da4er3eman5en3ker3lam6s5n5r4ems5n5r6\'s5tt5y6\'s4i5\'s5e5ng5s4man4ner4ogg7\'s7s5ugh5w4um4wood4y5\'s5s3man3ner3sall5y4ey4o5\'s5e5n3ter4ing4ner4on4y3van4en4in6\'s2mal3bel4le3ler3mer4ons3ner4itz3pa4el5n5r6\'s4fer4ker4le6r5in4ner4ski5on5ter4thorne5on3ron2naf4i4n3dal6l7\'s4ell5r4ig4le4ra5ick8s3eer3field3ji3kel3ley3mare4ore3na5n5rd4ebeck5l6l6s5more5r6\'s5th6t5y4ing4on4y5\'s3o3rick3te4ner4on3ward5y4ood5rth3ya5\'s5n6s4en4on3zie4o2o3gh3ugh3wn2pco3hart3ler5y3ner3pel4le6r2ra3bel5r4ow4y3cher5ief8s5ner3ekes4n4stes3foot3in5s3ker4hoff4man3ley4in3man4it3nan4el6s5n5r5y4ite3per3rey6\'s4i5ck5dge4ville4y5\'s3scher6ner4ee5y4haw5ner4tein6n5ing3tesz3vin3wen4in4ood3zner2sel3lar3ner3sel6l5n4le6r7\'s4ner3tel5n5r4ing4ler7\'s4ner4rels3wick2ta3cham5em6n6r5ie5ledge5um6p3ler3ner5y3o4ne4u3ron3tell5r4i4le6s4ner3zel6\'s2van3en4r4x3ille4n5\'s5s3lar4in2wley2yboard8s3corp7\'s3hole7s3ing3less4on3note7s3pad6\'s6s3ser4or4tone8\'s8s5roke9s3ton3word7s6th1haki5s3laf4ed4id6\'s5l4sa3nate4na3rtoum2osla3uri5y2rushchev9v\'s2ufu1ia3m3n2bbee5l5y4le4utz4y3ell3ler2chline3kback8s4er6s4ing4off2da3ded5r6\'s4ie6s5ng4le4y3man3nap6ed6ped6s4ey6s3o3stock3wa4ell2echl4ker3fer4fer3lar4er4ley4man4ty4y3nan5st4er4itz4le4zle3per3ran4nan4stead4ulff3schnick4el5r4ler5ing4ow4sling3tzman3v4\'s4an4it3wit2fer2ger3gins2ka4tte3er3i3ta3wit2la3bane4orn7e5urn8e4ride4urg6n4y5\'s3coin5yne4rease3day4ee4ow4uff3en4y3go5re5ur4us3ker3lam4eagh5en5n5r6\'s6s5y4gore4ian5n6g7s5on4joy4man7\'s5er5on4ough4pack3man4er3o4s3roy3ter4on4y3zer2mba5ll7\'s4el6l5r4le6r6y4rel7l5o6ugh3che6e5i4o3el3mel6l5r5t5y4ich5ns5tt4ons3pel4le4o4ton3rey3sey3wipe7s3zey2nard5k4se3burn3cade5id7\'s4er4hen4y3da5ll4el6l5r5st4ig4le6d6y5ing5y4ness4ran5ed5ick4y3ect4r3gbird8s4dom7\'s7s6n4en4ham5orn4ly4ma6n4on4pin7s4rey4sbridge5ey5ford5hip5land6ey8\'s5port5ton5un5ville5way6ell4ton3ion3kade4ead5l5r4le4o5\'s4y3law4ey4och3man4en3naird5n5rd4ear5ll5r5tt5y4ick5e4ock7\'s4y3sel6l5r5y4hip4ley7\'s5ow4man4tler5on3ter4igh4ner4on4zel3yon3zel5r5y4ie4ler2osk5s3us2per3fer3ling3nis3per6s4ur2ra3by5\'s3chberg5en6r5hoff5man5ner8s5off3gan4iz3i4n3kbride5y4er5y4ham6rt4land8\'s5ey5in4man4ner4sey4uk5m4wood3ley4in3mse3nan4er3ov3schbaum6man6ner4hbaum5fink5ner4tein6n5ie6n3tland5ey4on3ven3wan4in3yas5t2san3chell4o3er3ha4baugh4i4ore3iel3ka5\'s3met6s3ner3or3sack5m5ne4ee5l6l5r5s4ick5ng4ler5ing4ner3ter4ler4ner3zczak2ta3cat4hel7l6n7\'s7s5in7g8s3hcart3ing3man3ner3son3tel6l5n6s4le6s4man4ner4redge6ll4y3zman2vett3i2wi4\'s4s2zer1jellberg3nstad1laassen3bunde3dstrup9\'s3ges3iber3mer4mer4on3nsman6en4watch3pper3rich4man3sen4sen3tsky3uber4er4ser5ing5ner3ver3yman2eban4ba4er3cka5er5ner4zka3eman4nex3ffner3iber4er4man4nberg5dienst5er7t5feld5hans6enz5knecht5man5paste5schmidt6mith5wort3jna3ma5n6n4ens6t4mer4pner3pac4fer4per3sken3ubeck3ven5r3zmer2iebert4man4r4thermes4wer3gman3ma5s4czak4ek5nt5r3ndworth4gbeil7rg5el6r7\'s5man5on7s4ker5ner4tworth4zing3pfel4pel3tzke2ocek3eckner4pfer5pel7r3iber3ndike3oster3pfer3ssner4ter3tzbach2uender4sner4ver3ge\'s5r4man3kas3nder3sman3tznick3ver3wer2ynveld1mart5\'s2etz2iec1nable3ckstedt3pik4per4sack4ton3uer2eading4fsey3bel3chtel3ebone4cap7s4ing4land5ing3isel5ley3ller3pper3sset2icely4ker7s5knack9ks3eriem6m3felike5point4fen5in4ing7s3ghted7n6hood6ly6on3pfer4l4pa5el6r5le3sely4kern4ley4pel3tted6l6r5ing5le4wear3veton2obby4el4lauch5e5och7k3chel4kdown5ing5off8s6ut8s3del4le3ebel3go3tek4ted5y3wer4ing4ledge5ton3x\'s4ville2uckle7d7s3dsen7\'s5on4tson3eppel3tsen5on4zen1oba4k3e4\'s4l4r3le3ren4in6\'s3us3y3za2cak3han4el5r4is4man3i4an4s3sis3ur5\'s2dak5\'s3o2ebel3gel3hler4nen3ki3ller5ing4zer3nen4ig6s3ppel6n4sel7l3rber4ner3ster7s5ler5ner3ther4je4ter5ing2ffman3i3oed3ron3u2ga4n3el4r3i3lin3ut3yo2han3en3lbeck6rg8\'s4er5s4hepp5off4i4man7n3nen5r3out3ring3ut2ido3to2jak3i2kan5\'s3en4r4sh3i3o4\'s2lar3beck5r6g6t4o3den3ek3ich4n3ka4er3lar5sch5th4ek5r4i5ng4man7n3man3ski5y4tad3ter4on2mag4n4r3bat3er3i4ne3mer2na3czal3das4o4rat3en3ger6s4sberg9\'s3ig4ng3kel4le4ol3ner3o4ld4p3rad5th3tos4ra6s3zen4i5\'s2ogler3i3ken5r4y3lhaas3nig5ng3pman7n3ser3y2pacz4s3chev3ec4k5s4l4r3it3ka4o3lan4in3pel6\'s6l5n5r6s4le5in3y2ra4l4n3ba4el5r4ren4y3czak3da4ell3ean\'s4ll4n4sh4t4y3fhage3man4os3nberg5lum7th4er4feld4reich3ol3pi3ry5\'s3son3ten4hals4man4um3va4er3y2sa4k4n5ke4r3berg4ie3check8\'s4o3ek4l4r3her6ed6s3ik4n3ka4ey4i4o4y3low6\'s3man3sman4ow4uth3ta5l5s4ek5r4ic6k4ka4off3ub3y2tas3ek3larz3o3ter4ke4ler4witz2uba3ril4ou4y2vac5h6\'s5k5s4ks4l4r4tch5s3en4r3ich2wal5ke5l3itz3tow2yo2za4k4r3berg3el3iel4k3lik4off5w3ma3o4l3ub4ch1raai3bill3eger4mer4utler3ftwerk3ger3jina7\'s3ker4ow3lik3mar4er6\'s4lich4mer3ndall4er4ich4zler3pels3ska4ner5off6w5y3tky4os4zer5ke3user5haar5kopf4ter3vchuk8\'s4etz4is5tz3wchuk5zak6yk4iec5tz3ynak2eager4mer3bs\'s5bach3cko3dit3eger3gel5r3hbiel3icher4der4fels4ger4ling4mer4ner4sberg5cher5el6r5ler5man4ter5man5ner5zberg6er3jci3mer6s4lin7\'s4pa5ler8s3nek4gel4ik4zer3sa4ge4ser5in5ler3tchman7er4schmar8er4zer5schmar3uger4ser4ter4zer3wson2ichbaum3der4ler3ebel4gel6r7\'s4r4sel3gbaum4er4sten3mmel3ner4gen5ley4sky3scher4her5na7n4ko4pies4ta6ll5en5i6\'s6e6n7e5of7f8e6l7\'s5y3tzer3zan4ek2oboth3eber7\'s4ger7\'s7s4ker4ner3ger6\'s4man4stad3lak4czyk4ick3mer3na4berg4e5n5r4ick5sh4or5s3ssel3tkov4zer3uner4pa3witz2uchten4keberg4zek3dman7\'s3eger4r3ger4man3lwich3mholz4mel7\'s4rey4wiede3pa4ka4man4nick4pa4ski3schev4zka3tick4tschnitt3zel2yder3ger3pton6s3stal2zysztof1siazek1uala2ba4n4s4t3es3ic5k4k4n4s4tz3ly3o3rick7\'s3y2can3har4er4ma6\'s4ta3zek2der3la4ow3ner3os3zu2ecker3hler4nel6r5le3ker3nnen4zel5li3ster3ther2fahl3fel4ner2gel2har3le4man7n3ner6t4le2iken3per6s2ker3je3la3uk2la4s3ich5k4g4k4s5h3ka3la4berg4man4y3on4w3pa3zer2mar3ble3ho3ler3mer3quat2na4ev4th3da4ert4rat4un3ert4sh4y3in3ka4el4le6r3sman4tler3tsler4zman3zler4man2o3w2pek4r3fer3iec3ka3or3per3res2ralt6\'s4s3dish4ziel3ek3il3ka3lak5nd3man4el3nit4ool4ul3tis4zman3y3zban4weil2sa3chel3ek4l3hner5ir3sman3ter4ra2tcher5na3er3ner3scher3tab4er4ner3zer2vin2wait6\'s4m2yper2zel3ma3nets4iar1vamme2eton2istad1wangju4za6a3snik5y2eisi2iecien3tny2olek1yer2ger2ker2ler3ie3lo2na4rd2odo3ngsang3to3wa2ra3on2sar3er3or2tril2ushu2zar3er0l\'alma3mour2enfant3xpress2heureux1aaco3kso2ba4n5d5t4r5ge5r4t5e5t6\'s4uve4y3eau4l5\'s5ed5l6e7d5s4r5ge3lanc3o4nte4r5\'s5de5e6d5s4uisse5r4v5e4w4y3rake4eck6que5e3us2can3efield4r4s4well4y3hance4er4lan4man6r4ney3key6s4ie5ng4man4ner4o3lair4ede3ock4mb4ss5te4unt5r6se3quer7ed3roix5ss7e3tase5te4eals5r4ic4one5se3y2da4kh4s3broke8\'s3der6s3en4r3ies4ng4sh3le5d5s5y4ing3ner3ow3son3ue3wig3y4\'s2evo2farge4ve3er3fer5y4in5tte4oon3ite5te3lam6me4eche5ur4in3oe4n5d5t4rce5ge5te4sse4y3rance4enz2gan3er4sse3gard7s4ing3le3niappe3o4on6s4s4w3range4ow2haie4m4ye3ey3iff3man6n3ood4re3ti3ue2ible4rook3dig4law7\'s5er6y3mbeer3ng4hart4o3rmore4son3ssez2jeune3oie4us2keberg4field5ront4land4man4r5s4shore5ide4view4wood4y3in5s2la4s3it3la4ey4i5e4o4y3or2ma4\'s4n4r5\'s5r4s4ur4y3baste8s4da5in4eau5rg6t7\'s7h5th4ie5ng4orn5y4reau6cht5ight5o6s4sdorff5on4y3ely4nt6s4r5s4y3ie4ne6\'s5ne3ke4in3le3mers6t5y4i4on6d6s3on5d5s5t6e4re4s4the5t6e3pert4hear6re4i5ng4kin7s4l5ey4man4o5on7\'s7ed5rt4post8s4rey7s5on6s4son4ton3son4ton3y2na4i3ce\'s5let5r6s5t6\'s6s4ia5ng5t4los4ome5n5ur4tot3da5u5y4bank5erg4eck5d5ll5n5r6s5ss4fair6ll5ill8s5orm8s4graf7ve6ebe7n4i5n6g7s5s4ler7\'s6ss5ine5ock8ed6rd8\'s8s4man6rk8\'s8s6ss5ine8s4o5lt5n6\'s5r5w4ress6th5ieu6th5um6s5y6\'s4sat5berg5cape9d9s5end5lide9s5man5ner5ton6rom4view8\'s4ward5ehr4y3ehart4te4ve4y3fear4ord3gan4behn6in5o4dale5on4el5n5r6s4feldt5itt5ord4guth4ham6ns5off6rn8e7st4ill4lais6nd5ey5ois4man4ner4o4rehr5idge4sam5dorf5eth5ford5taff6on4ton4uage5id6sh8ed4well5orth3ham3i4er4ng3ka5\'s5n6s4ford4tree4y3man3na5n4en5rs4i5ng4o5\'s5m5n4y3o3phear6r7e5ier3sdale5ell5own8e4er4ford4ing7\'s4ky4ton3ter6n7s4ing7\'s5s4os4rip5y4zy3um3vin3yard4i4on3za4er5t4i4o2os2page4n3dog3el5s3ham3ides4n4s3ka3land6t4ume3oint7e4rte3pen4in6g3re4ise3ses4ing4ley3top6s2ra4ine3che5mont9\'s4o5m3ded5r4ner3eau4w3gely5n6ess6t5r5ss7e6t4o3key4in6s4spur3mer4on5re3ner3oche5k5que4e4que4uche5x4we3rance4ick4ow4y5\'s3sen4on4son3ue3va5e5l3y4nx2salle3ca5ux4o3ek4r5\'s5s3hbrook4er5s4ing7s4lee6y4omb4way3ik3ka4er5y4i5n4o4y3ley4o3mo3sa4eigne5n5r4ie4man4ner4o4well3ted5r5st4ing4ly4ra3ure3well3zlo2ta4if3chaw5es5ford5ing5key3elies5y4ness5t4r4st4x3ham6\'s5n4em5r6s4on4rop3in5s3ka5s3ner3o4n4ur3rine7s4obe5ne3shaw4on3ta4e5r6\'s4ice5n4ner4y3zoff2ubach4er4han4scher3ded5r4ing5se4ner4on3e4r3fer4fer3gher5ing5ler6in5man5ner5rey6idge5ter6on3man6n3ncher8s7s6ing9s4der7ed7s5ries6y4er3per3ra5\'s5nce4dan4een5l6\'s6s5n6ce6e6s6t6z5tte5y4i5ce6h5e6\'s5n4o4sen4y3sanne3ten5r4ner3ver3zon2va4l4n3eau4ll6e5y4n4r5gne5ne5s4tte4y3i4e4gne4n4s5h6ed3oie4y3y2wall4re3ford4ul3head4on5rn7e3ing3ler5ss5y4is4or3man4en3ner4sdale9\'s3plan3rance4ence6z4ie4y3son6\'s4uit7\'s7s3ter4her4on3ver3yer6\'s6ed6s2xalt3ey3son3ton2yah3borne8\'s3cock3den3er5ed5s3field3hee3ing3la5nd3man6\'s4en4on3off6s4ut6s3son3than4on2zar5d5z3ear4r5e3o4r3ur3y3zell1eabo3ch\'s5es5ing5man8\'s4ock3ded5n5r6\'s6s4ing4off4ville4work3fing4less6t7s5ike4y3guer7s3h4ey4y3kage4er6s5y4ing4y3la5n4ie3man4er4ing4on4y3na4er6s5st4ing7s4n4t3pfrog8ged4hart4ing4ley3rjet4ner7s5ing4y5\'s3sco4e\'s5back9s5hold5r5s5way8\'s4hes4ing7\'s4on4ure3tham5em6r7s4on4rice3vell7e5n6ed6s5r6\'s5y4ing7s6s5tt4y3zer2bar3eau4ck4d5\'s4gue4l4n4r5t3lanc4e5u4ond3o4euf4ld4n4uef4w5\'s5e3recht4on4un3sack3udde2cates3her4ler4man5ere4ner4ters3key4ie4rone3lair7e4erc7q6e4i5\'s3ocq4mpte5te4unt3roy3tec5r6n4or4ure7d7s3y2da4y3den4y3een4r4t3ford3ger6s5s3in3low3o4nne4ux3well4ith3yard2eches4o3der4ham4om4s\'s4y3man4ing4on3na3per3ry3sburg4er4on6\'s3uwen3ver3ward5y2fauve4ve3court3fel5rt7s5w4ler3ler5ur4ore3ort3rak4ere3thand4ies5st7s4on4ridge4ward5ich6ng4y2gal5s4n4te6s4ult3end6s5t6\'s4r5e4t5te3ged5tt7e4ing7s5tt4y3horn7s3ion6s4t3ler5ss3ner3o4re3rand7e4ee4oom5s3ume6s3work2han5e3der6\'s3ew3igh3man6\'s6n4er4kuhl3nen5r6t4hoff3rer4man7n2ia3bel5r6t4ler4man4niz4old4rand8\'s5ock4y3cester4hner5ter6man6y3der4ig4ner4y3er3fer5ste4heit3ghton6y3ja3kam4en5r3la3man4bach4er6t3nart4bach4en5r4gang4sdorf3per4hart4old4zig3schner4er5y4hman4ing4ner4t5er5ner4ure4y3ter4ha4man4ner4zel5ke3va2ja3eune2kas3berg2la4h4nd3eux3ia3louche2ma4ire4n5s4r5r4y3bcke4erg4o4urg3cke3elle4n4re3ieux4ng3ke3ler5y3ma4e5n5r4ie5ng7s4o5n6d6s3oine4n5d6s5s5t4s3pert3ur5s4s3zo2na4\'s4rd5t5z3der6\'s6s4ing7s4l3gel5r4le4then8ed8s6ways7ise6y4yel3hard7t6t4off3ig4n5\'s4s3ke5r3nane5r6d6tz4ie5g5ng4on6\'s5x4y3o4\'s4n4re4s4x3ses4ing3til6s4ner4o5n3y3z\'s4en4i4o2o3\'s3da3ine3la3n4\'s4ard7\'s4e5lle5s4hardt7t4ie3pard7s3ra3s3ta2page4k4rd3er5s3ley3pard4ek5r6t4la4o3re3tin2rach3ette4w3hman3ma5n3ner6\'s3oux4y3ro3um2sa4ge3caze4hly3er4sne3her3i4on6s3ko3ley4ie3ner4ick3sard4ee6s5n6ed6s5r4ig5n6g4ley4man4nau5er6ss4on6s5r6s3tat4er4range3ure3zek2ta4rte3cher5worth3down3ha5l4co3ner3o3son3tau4er6ed6s4ice5e5ng5sh4uce4y3up2ubert3ffer3gers3mi3pold3schner3thold3zzi2va4l4n5t4y3eck4e5s4ille4l5\'s5ed5l6ed5s4n5e5s4que4r5s5t4sque4tt4y3i4\'s4ck4e5d5s4n5\'s5e6\'s5gs5s4s4t5ch5t6\'s6e7\'s5z3y4\'s2wan3ers4y3i4n5g5s4s3ke3man3ter4on3y2xie4ne4s3mark3us2ya3ba3da4en3land3rer3sen6\'s3va2zotte1hasa2eureux1ia3\'s3m4\'s3ne4ne3o3r4s3u2bbey4ing4y3el5ed4rt3man3or3ra3y2cence5se7d3hen6s4tblau5en6r5man5y3ker4ing4teig3o4n2da3dell4ick4le4y5\'s3en3o2ebel6t5r6t4ig4l5er4man7n3chty3del5r4tke7\'s3fer3mandt3nau4er4hard7t3rman7n3ser4in4ke4on3tzke3urance2feblood5oat8s4co4guard9s4less5ike6ne8s5ong4r5s4span8s5tyle9s4time8\'s8s3land3o4rd3sey4hitz4on6\'s3ted5r6s4in6g4off5n2gand6s4s3get6t7\'s4ins3hmtan4tbulb9s5cap5ed6n7ed7s6r7s6st5fast6oot5hall6ouse5ing8\'s5le6y5man5ner7ss6ing9s5sey6hip9s6tone5weight5y3man3nin5te3on2hue2kely4n5ed6ss5s4wise3ing5s3ud5\'s2la4c5s4h3co5\'s3ey3i4es4th3ja3la5rd4er5y4i5ch5e5s4o4y5\'s3y4\'s2ma4n4s3bach5ugh8\'s4er6g6s6t4less4o4rick4urg3ehouse4light4stone9s3ine5g4t5s3mer3o4n4s3pert5ts4ing2na4ge4m4res3care4hpin4oln7\'s7s3da5\'s5hl5ne5u4beck6rg8h5lad6om7om5urg4een5ll5man5n6\'s5r4fors4gren4holm6rst4ig4ler6y4man6rk4ner7\'s4o5n5w4quist4roth4say5eth6y7\'s5kog5ley5tedt6rand7om4vall4y3eback4man5en4n5s4r5\'s5s4tte4up6s3ford3gard4er6ed6s4le4ner4o4ua5ist8s5s3hardt6es6t3i4ng6s3kage4edin5r4ing4ous4up6s3ley3nane5s4ell5man8n5t5y4ik3o4wes3quist3say4comb6tt4eed5y4key5y4ley4on4trom3tas4el5rs4ner4on3us4x3ville3wick4ood3zer5y4y2on4\'s4s3u2pa3ford3ham3id5e5s3ka4in6d3man3nick3pa5rd4ens5r6\'s6t4i5tt4man7n4o5ld4y3schitz6ultz7tz5omb4ett5y4hie5utz4ig5tz4ki5y4on4tein5ick8s3tak4on6\'s2queur7s4id6e6s4n4or6s2ra4\'s3e4tte3o4ff2sa4\'s4k3beth4on4y3co5m3ec4tte3hman3i3ka4ey4o3le3man3sa5ck4ie4ner4y3ted5n6ed6s5r4ing7s4less4on3zka2ta4n3chfield9d\'s6ord9\'s4o5\'s3em4r5s3hgow4ic3ke3le3man4us3sey3tell5n5r6ed6s4ig4le6\'s6s4man7n4on6\'s4rell4y3vack5k4in3wack5k4in2van5\'s3ely4n5ed4r5ied5s4stock3id4ng6s3or3sey3vie2z\'s3a4k4rd6\'s6s3hi3otte3zie4y1lama5s3na5s4o5s4view2orens3sa5\'s1oaded5r6s4holt4ing7s4man7\'s3fer6s3my3ning4loss3thing5some2baugh3ban4ied6s5ng4y5\'s3dell3el5l4r5g3law3o4s3ster7\'s7s3ue4les2ca4l5\'s5e6s5s4te6s3ey3her4head4ner4ridge3i3ka5rd6t4down4en5r6s6t5t6s6t7\'s5y4hart5eed8\'s4ie5ng4lair6r5ear6y5in4man4ner6y7s4out7s4port4rem5idge4smith5tep4up4wood8\'s4yer3o3sin3tite3us5t6s3y2den4r4star6one3ge\'s5pole5s4ing7s3i3ley3wick4rick2eber3ffel5ler3hmann8\'s3per4fe3ra3scher4er4s5er3w4e4i4y2fgren3land4in3quist3strom3thouse5us4in5s4on4us4y2gan4r3book3es3ger6s4ing6s3hry3ic4e4n3jam6s3o4s4ut3sdon4ton3wood2hman6n3ner3renz5y4man7n2ibl3ncloth3s4e5l6le3ter2ken4r4y3ken2la3lar6d4ey4i5ng5s4y2ma4k4n4s4x3ba5rd7s3men3poc2na4s3car3do5n6\'s3ely4r5s4some4tree4y3gan4bow5rake4cor4den4er5st4field4hair6nd5i5orn8s6use5urst4ing7s5sh4leaf6g7s6y4man5ire5ont6re4o4pre4range4shore7t5pur8s5taff6reet8th5worth4term5ime6n5on4uet4view4well5ood6rth3i3nie4y3on3rho6\'s3sdale4ki5y6\'s4way2oart3by3ker6s4ing5t4out4up6s3man4er4ing5s3ney4y3per6s4hole8s4ing4y3sely5n6ed6s5r5s6trife9fes4ing3ted5ns5r6s4ing2peman4r4z3id3pers4ing4now3rete2quat2ra4h4in6e4l5\'s4n5ce5g3ber3den4i4ly4ship5town4y3ean\'s4e4i4k4n5c6e5e5tz5z4tte4y3gnette9s3i4\'s4ck4e4n5cz5g4s3man6d3na3o3raine4ie6s4y3son3tel4ie4on3y2sec4e4ke4r5s4s4y3ing3o3ses4ing3ure2throp4son3ion6\'s6s3on3speich3ta4er4ie4man4o4y3us2uanne4rt3den5r5st4in4ly4on3gee4heed5lin5man5ner7y5ran6ey6idge6y3ie4s5e6tte3nges5ing3rie4y3sy3than3vre2vaas4ge4n4s3eall4day4grove4joy4lace6n7d5ess5l5y4n4r5\'s5idge5n5s4tt6e4well3gren3ick4e4lle4n5g6s5s4tt5z3ler6\'s3vorn2wborn3den5r4own3ekamp4ll4n4r5ed5s4st4y3ing3land7s4y3man3ndes4ey3rance4ey4ie4y3ther3y2ya4l5l3er2za4d3eau4nge3on1p1s1ua3ne3u2ba4r4s3ben5r6s4ock3eck4ll4r3in4tz3lin3ow3y2ca4s3ca4i4o3e\'s4nt4rne4tte4y3ia5n4ch4d4e4le5le4te4us4w3ken5r5tt5y4hardt4ie5ng4less4man4ow4y5\'s5n3us3y4\'s3zak2dcke3den4ite7s4y3eke4man7n3ite6s3ke3lam6\'s4ow4um6\'s3mer3o4lph3tke3vik3wick5g5n3y2ebbers7t3ck3decke5r6s4ke4tke3hring3ken3llen3pke3ras4s5sen2ffman3kin3tig4kin2gar5\'s3er5s3gage4ing3i3kov3o3worm7s2hman6n3ring2i3kart3s4i2jan2ka4ch5s4s5h3ehart4n5s4r4warm3in5s3man3oil2la4\'s3ie3ling3u4e2ma4n3bar6d4er6t4ra3en4t4x3ley3mus3per6\'s4ing4kin7s4ur4y3sden2na4r3berg3cheon8s6s5ing5room9s5time3dahl5y4berg5lad5org4een5ll5n5r4gren4holm4in4mark4quist4stedt7n6rom4y3ger5s4fish4ing4ren3ney4y3sford3tz\'s2ong2pa3er3fer3i4en4n5e3low3o4ne3tak4on3us2quette2ra3ches5ing3ette3gi3id4e4ng3king3leen5ne4ine3vey2sby3cher4ious3her4life5y3kin4y3ser3ted5r4ful4ig5ng4re5ous4y2tece4n4r4y3gen3her4i4y3man3on3sky3ter4man4on4rell5ull4wak3y3zke2u2xor3ton2yster2zar3hkov3on3zi1yall3nne2beck3rand7\'s2can3os3ra2da4ll4y3en3ic5k4e3on2ell2ford2ing2kens3in5s2man3phoid2nam3ch\'s5burg5ing8s3da4en4hurst4on3ess4tte3ford3na3ott3skey3ton3xes2on4\'s4s2ra3ic5s4s5t2saght3ine4s3ki3ol3sy3ter2ter3hgoe3le3tle4on2vers0maaco3lox3riv3ssen4tricht2bee4l5le4n4y3ie4le4n4s3le5y3on3rey3us2cao4ques4u4w5s3beth4ook4ride3chi3dill7\'s4uff3ek4y3graw3ha5in4el5n5r4i5n6e7\'s7d7s4nik4o5ld4tley3iag4el4k3kall5y4el5n5rt5y4ie6\'s5n4lem6r6y5in7\'s4nay5ight4o4tal3laine5y4ean5ish5od4in3mahon3nab5ir4eal5il7l3omb4n4ute7s3phail5ee3queen3rae4i4o3tan3vie3world3y4\'s4s3zko2da4m5e4n4r4y3cap3den5r4ie5ng4ock7s5x4ux4y3ej4l5le4n4r5e4y3house3ill4s3kins3l4in4ock4y3man4en3ness3oc5k4ff4g4le3ra5s4e5s4id6s5l4on4y3sen6\'s4on4tones3y2eder3lstrom3rtens3stas5ra6o3ve3z2ffei5tt2gan4r4w3by3da3ee4l4r5s4s3gard6t4i5e6\'s4ot6s3i4c5\'s4d4e4ll4n5n3laj6\'s4ev5y4i5s3ma5\'s3na5\'s5n6t5te7s4er5ss5t6\'s6s4in4o4um5s3oon4uirk3pie6s3rane5th4i4o3ten3uire4s3wood3yar6s2hal4n4r3di3e4n4sh4u3fouz3in3le5r6\'s4man7n4on4stedt4um3mood5ud4ud3nken3on5e4od3tan5r3vi3wah2ia3da5n4el5n6s4ie3er5s3lbag7s5ox4er6\'s6s5y4gram8s4hot4ing7s4lard5et5oux4man5en4room8s4son3ming4one3na5rd4er6s4frame9s4land5ine5y4o5r6d4stay8s6ream8et4tain8ed8s4ville3o3read3sel4h4ie4on3ti4land4re3ze\'s4iere2jcher5rzak3er4tte4ure3id4k3ka3noon3or5\'s5ed5s3rooh2kar3efield4good8s4peace4r5\'s5s4shift4up3houl3i4n5g6s3o4s3ris4o3soud3toum7s3uch2la4ise4k4n5d4y5s3bon4rough4urg3chow4olm7\'s5m6b3den4ives3ec4k4r4y3formed3i4ce5k4gn6ed4k4n5de4s3kin3lard7s4ek5n5r5t6t7e5y4ick5e5n5s4o5ch5n5w6s5y4rat7s4y3mberg4gren4quist4strom3nar3o4n5e6\'s4of4tt4uf4y3pass4hrus3rite7\'s3som5n4trom3ta5is5se4bie5y4ed5r5se4ing4ose3ueg3va5l4eaux5rn4ie5n3ware3y3zahn2ma4\'s4s3ba5s4o3et5\'s3ie4s3ma5l6s4en4oth7s3one3sted2na4c4ge6d4k4rd4s4tt3beck3cha5u4il4o3da5te7s4el6l5r6s4i5ch5e4l5e6r4rake5ell6sh5ill4y3er5s4ss4t5te4y3ford4ra5e6d3ga5n5s4el6s5ment5n5r5s4ham4in4le6d6s4o5es5ld4rove5um4ual5m5s4y3hart4eim4ole5od4unt3i4c4k4on4s5h3ka4er5y4in6d7\'s7s6s4o3ley4ove4y3made3na4en5r6ed6s5y4heim4i5e5ng7\'s5on5s5x4o5n4y5\'s3o4ff4n4r5s4s3ring5que4y3seau5l6l5r4field4hip4ion7s4ker4o5n6\'s5ur4plain4ur3ta4eer5i5l6l5r5y4hei6y4ia5s4le6\'s6s4on5oth4ra3u4el6e4re4s3vel4il6le8\'s3web5ll3y3za4er4i5\'s4o2oist6s3ri2pco3el3i4\'s3le5s3ping2ra4is4k4n5tz4s5h4ud3bach4il4le6\'s6d6s4od4ry4ut3cade4eau7x5l6l7e4h\'s5ak6l6nd7t5bank9s5er7s6s5i6ng5man4i5a6\'s5e5l6e6le5n4mann4o5\'s5e5m5n5r5s5tt7e5u6x4rum4um5s4y4zak3den5r4i5s4on3ean4k4sh4t5t6e4z3fa3ga5ux4et6te4ie5n6ed6s4o5t4raf6ve5et7\'s4us4y3i4ce5h4e5\'s5n4k4n5e6\'s6s5g4s5h4tz3jai4ie4y3kair7\'s5n4down8s4ee5l6l5n5r6s6t5se5t6\'s6s5y6\'s4graf4ham7\'s4ie5n6g7s4ka6a6s4land5e6y4man4o5ff5s5v5w4s\'s5man6en5on4um5p6s5s4wardt5ell5ood4y3la5nd5r5tt4een7e5n6e6s5r5tt7e5y4in6g6s4o5n5w6e4ton4ys3mer4o5n5r3nell5r5y4ie3o4c4hl5n4is4ld5f5t4n5e4on6ed4se4tte5z4us3plan5e3quai6nd6rd8t7t5ee6ss7t6tte6z5is7s3ra4en5tt4iage5ed6s5n6g5s4o5n5u5w4y3s\'s4al5m4chalk8l6ner4den5on4ee5ille4h\'s5a6k6l7\'s7ed7l8\'s8ed8s7s5burn5es5field5land9s5man5y4land4o5n4ters5on3ta4ech5k5l6l7e5n6s5r4ha6\'s4i5\'s5al7ed7s6n7s5e5n6\'s6e7s6g6s5on5s4on4us4y5\'s5n5r6e7d6s4z\'s3va4el6\'s6ed6l7e8d6s5r4in6\'s3wick7\'s5n4ood3xen4ist7s3y4\'s4a4se3zan4ec5tte4o5lf2sa3back3ci5a4o5t6s3den3efield4k4ng4r3haw4burn4ek3i4n3kell5r4ing3ley4in4o5w3o4n5\'s5e5s4od4ud3ri3sa5d5ge7d5r5t4bauch4er5s5tt5y4i5e5f5ng5ve4man7n4o5n5th4port3ted5l5n5r6\'s6ed6s4head4if6\'s6f6s5n4on4rich5o3ur2ta4s3ch\'s5book9s7x5es6tt5ing5lock9s5up7s3ed4er4ll4r5n4y3han4eis5r6n7e6s5s5us5w6s5y4ie6s6u5lde5s4ur4wig4y5s3ias4c4f4ng4on4s5se3kin6s3lack4ick5n4ock3ney3o4s4tt3ra5\'s4ice5x4on6s3sch\'s6er4en4ko4on3ta4ea5i6s5l6\'s5r6\'s6ed6n6s4hau5eis6s6w7\'s7s6y5ies6s5ys4ias5ce6k5e5ng5s4ke4ocks5n5on5s5x4ress4son4y3ure6d6s4s3yas3za4ek5n4ke4ner4oh4u2ucher3dlin3e4r3ger4han3i3lden5in7g4er4sby4tasch5sby3mee3na4ey3pin3ra5\'s4een5r4i5ce5e5n5tz4o4us4y3ser4olf4ser3tner3zey4y2ven5\'s5s3is3roules2wkish3r3son2x\'s3a4m3cy3ell4y3field3ham3i4e4m5e5s4ne4s3on3son3ton5r3us3well7\'s3xam4im3y2ya4ll4n5s3be5e5lle5n4in3cock3da5y4en3eaux4r5\'s5s4ux3fair4ield3hall5n4em5r5w4ue5gh3land3nard7\'s4er4or3o4n4r5\'s5s4tte3son3tag4on3ville2za3da5\'s3el4r4s3ie3o4n5e4r3ur3yck3za4ie4o1bank2eki1can2bain4ne4y3ean5th4e4th3reen4ide6ge4oom4yde2caa4be4de4gue4han4ig5n6\'s4ll6\'s4n5ce5e5n6\'s5ts4rd5l5n5t6t4ughan5l4w5\'s4y3lain7e5m5ne5rd5ve5y4eaf6n6ve5es7e4ish4oud5y4uer5ne6g5re6g3oig5n4le5l5m4mb6s4ne5n4ok5l4rd5t4sh4un5rt4wn4y5s3rae5w5y4ea5e5ight4ight4one4um6b3ue5n4ne4r2dade6\'s4id3eal3ill3ole4w3uff2fall6s4nn4te4ul3ee3ly5\'s3un5\'s2gagh4nn4rr4th4ugh4w3ee5\'s4orge5ugh3hee4ie3ill4nn6es4rr5t3lade5un4inn4oin5ne4ynn3off4ls4ugh4wn3rail6n5ne5th5w5y4eal5w4iff3uane4e4inn5re6k6t4rk5n2hale4m4n4rgue3one3ugh2kaig5n4ne4y3eag6ue5n6d4e5\'s5l5n4ll4rn4y3ids4e4m3new4ight3one4wn4y3ree3une2lain4mb4ne4y3ean6\'s5r4es4ish4od3in5n4sh3oud5th3ure2mains4nn4th3eans4en3il4nn3unn2nab5b4ir4ll4tt4ught4y3eal5r5se4e5ce5l5r5s6e4ff4ice5l6l5sh4tt4w3iel4ff4nch4sh4tt3utt2orp5\'s2peak6e4ck4ek3hail5ul4ee4ie3ike2quade5id7e6g6n5y4een4igg5nn5re4own2rae4y3ee3ight3oy2shan6e4ea3leep3tay3wain4een2tague3eer3ighe5ue2vay3ea4igh7\'s4y3oy2wain3hirt5te3right2zeal1d1eacham5um3der6s4or6s5w6s3ger3ker4in3ler5y4ing4or4time4y3ner5st5y4ing7s4ness4or4time4while4y3ra3sel4les5y4ure7\'s7d7s3tball8s4less5oaf4y2bane2ca3ca5\'s3ham6\'s4em4ler5ing3kel4ler6y4stroth3um2da4l5s4r3calf4hem7\'s4o5\'s3daugh4ers4le3el4r4x3fact7s4irst4ly4ord3gar6\'s3i4c5\'s5s4l4n4q4tz3land5r4en5r5y4in4ock3nick3oc4ff3serv4ker4tone3ved3win2echam3der3gan3han6s3ker4ins4ly3ler3nan3r4s3se\'s4ter3ting7\'s7s4up2fferd6t4ord2ga4ce4n5\'s3ee4r3han4dar3ill3na4er2hall4n4rg3di3lberg4e5r4haff5off6rn4ing4man3met3ner6t3ran4ens5r4ing4tens3ta5\'s3ul2idl3er5\'s5feld3ghan5er3ji3kle3ncke4ders5l4en5r6s6t4hardt7t5old4zer3ring3sel6s5r4han4ner4sner4ter7s3tzler3xner3yuh2keel3ong2land5ge3ba4erg4ourne4urn4y3cher7t5ing5or3ded5r4ing4on6s4rum3ear4e3fi3gaard5r3hem4orn3i4ck4n5e5g4sse3ka5r6\'s3la5nd4em5n5r5tt5y4gren4i5ck5e5n6g5s6h4man4o5an7\'s5n6\'s6s5r5tt5w6ed4y3man3nick5k4or4yk3o4n5s4r4y3quist3ridge4od5se5y3son3tdown4ed4ing4on4zer3va4ie5lle5n6e4yn3wood3zer2mber6\'s6ed6s4rane8s3el3mer4ott3non3o4\'s4ir6s4s3phis3tec6\'s2na4ce6d4rd3cer4her4ken3dan4ed5l6\'s6l5s5z4ing4yk3ear4es4m5\'s3gel5r6s5s3ia4l3ka4en3lo3na5n6\'s4en4ing3o4n4r3sah4chville4er4ik5ng4wear3tal4el5r4hol4ink5on7ed7s4o5n5r6\'s6ed6s4zel6r3u4\'s4s3zel5r4ie6s2o3w2quon2raz3cer4hant8\'s8s4i5es4land4ure4y3dyce3ely4ngue4st4tz3feld3gen5r6\'s6s5s4ing3hige3iel4s4t5s5t3kel5r5y4ich5n4lan5e6y5in4ur3lin6e6s5s4o5t6s3maid7s5n3na4er4ick3o4w3rell5tt4ick7s5e5ll7\'s5n5t6t7s4ow4y3shon4man4on3ta4en6s5s4ice5ns4le4on3vin6e5s4yn6\'s3we4in4yn3yl5l2sa4\'s3bic6s3ched6r3dames3erve3hell5s4ing3ick3ker4ill4o3mer3ner3on5s3quite3sa5ge4el5r5s4ick5eurs5ng4ler4man5er5ore4ner4rs4y3ta5s4ek5r4on4re2ta4l5\'s5l5s3calf7e4om3ed4r5ed5s4x3hane4ner4od6e6s5t5ught4vin4yl3ics4er4s3life3path3ra4e5s4ic6k6s4o5\'s3sker3ter4le6n6r4ur3zer4gar5er7\'s4ker4ler4ner2urer3ser2was3born2yer5\'s5s3o2za3ey3ger3o3ro3zo1g1h2m1ia2ca4h3ek3hael7\'s7s5l6s5ud6x4con7\'s4eal6ux8\'s5l6\'s6e6l7e8\'s6s5ner8\'s4ie6ls4l5er4na4on3ka4el6s5ns5y6\'s4i5e5sh4le6r6s6y4us4y3oin4m3ro5\'s5be7s5n6\'s6s5s5x2dair4s3cap4on5urse3daugh5y4le3east3flight3ge\'s5s5t6s6t7\'s7e4ley3i4\'s3kiff3land7\'s7s4er4ife5ne3night3pac6\'s4oint4rice8d3range4ib3size7d4tream3term7s4hun4own3way6\'s4eek5st7\'s4ife5ves3year5tt7e2ears3lke3no3r4a5s4s4t4zwa3ske4ner2fflin3sud2gdal3ent3gins3ht\'ve5n\'t5y3lin6\'s3neault4on6s3ra5ine8s5nt7s5te7s3uel5s5z2hai5\'s4l3ok2ka4el4l3el5l5s4sh4y3hail3las4es4os3o4l4s3rut3us3va2la4m4n5\'s4s3bank4erg4ourn8e4randt6th4urn4y3co3der5st5w6s4ly4red3eage4m4r4stone9s4y3ford3gram3ham4oan5rn5us7e3ich4eu3ken6\'s6s4ing4man4o4shake4weed4y3lage5n5r6d7\'s5u5y4bank5urn4edge5n5r6\'s6s5t6s6t7e5y4house4i5e5n6g5on7s7th9s5s4man4ner4on5y4s\'s5ap7s5paugh5tein6one4ward5ood4y3man3ner3o4ne4s5h4t3roy3sap4on4tead6in3tie4ner4on3um3ward2mi4\'s4c5ked5s4s3naugh2na4r5d4s3cemeat5r6s5s5y4her6w6y5in4ing4kler4y3da4ed5l6l5n5r4ful4ing4less5in4set7s4y3ear5u4craft4er4field9s4hart4r5\'s5d5s4t5te3ger5s4le6d6s4o4un5s3i4ard4ch5k4ng6\'s4on6s4s5h4t4x3kel4in4ler4off5w3na5ar4er5y4ich6k5e6\'s5g5s5x4ow6s4tech4y3o4gue4r5ed5s4t5t4w3shall5ew4koff5y4on4tar7\'s5er5rel8s3ta5ge4ed5er5r4ha4ing4o5n4urn4zer3us4te6\'s6s3yard2on4e3t2ra4d4ge4k3ell6e3ick3kin3na3o4\'s4n3ra4en4or6\'s6ed6s3sad4ky3ti4le4o3za2sa4\'s3cast4ha6rge9d5el6r5ief4ount4ue6s3deed7s3ek4r5s4s3feldt4it6s3give4uide8s3ha5p6s4ear7d4kin4ler4mash4oe4ra3judge8d3ka4ell4o3laid4ead7s5d3match8ed3ner3place8d4rice8d6nt8s3quote8s3read4ule3sal4el5s5tt5y4ie5le7\'s7s5ng5on7\'s7s5s5ve4ler4peak6ll8ed8s6nd7t5oke4tate8s5ep7s4us4y5\'s3take7s4er6s4ic4ler4ook4ral5eat8s6ss5ust8s5y4y3use6d2ta3cham5el7l8\'s6m6n5ner5um3ek4l4r3hcell4un3i3man3nick3ra5l4e4o3tag5l5n4en6s4ler4man4on3zel4i4ner4vah2xer5s4s3ing3ner3on3son3ter4ure7s3up5s2zar5\'s3e\'s4l5l6e4n4r3ner3zell1j\'s1ladic2ecko2otok1nookin1oab3kley3mi3ning3tes2bay3erg3il5\'s5e6\'s6s3ley3ster7\'s7s3y2ca3cia3ha5s4el3kby4ing4ler2dal3ed4l5\'s5ed5l5s4m5s4n4r5n6e6s4st3glin3i4c4ne3lin3rak4ow3ule6s4s3y2eckel3hle5man4ring3ller3rs4tel3ser4sner3t2ffa5t6t4et6t4it6t4ord3ield2ga4n3el4r3le3ul5s2hair4n4r4wk6s3el4r3it3ler4man3ney4kern3on3ring4man7n2ina3ra3san4es4he4i4ten7ed5ure2jo2ka3ry2la4nd4r3chan3ded5n5r6s4ing7s4y3ehill4like4n4r4st6s5worth4x3iere7\'s4n5e3len5r5t6t5y4ie4ner4o5y4usk7s4y5\'s3nar4er3ock3pus3son4tad3ten5r4ing4on3y3zahn2ma4\'s4n3ent6\'s6s3ma4ens4ies4y5\'s2na4\'s4d4rch7\'s7s4sh3ca4eaux4rief4ur5s3da5le7\'s5y6\'s6s4ex4o5r4ry4schein4y3ell4t5\'s5t6e4y5\'s5ed5s3fils4ort3gan4eau5on5r6s4ol6d6s5ose4stad3ied5s4que4t4z3kee6s5y6\'s6s3mouth8\'s3nett4ig5n3o3real4o5e6\'s5y3sees5n5y4ieur8s4ky4od5n5on7s5ur4ter7s5rous3tag6e6ne5nd4blanc4clair4e5\'s5e5il5l6\'s5r5s5z4ford7t4hlong6y4i5e6r4joy4ooth4rone6se7s6y4vale5ille4y3us3y3zert4o5n2odie4y5\'s3ers3maw4ey3nbeam8s4ey4ie6s4light6ke6t4shine5tone9s6ruck4ves3rco4ehead6ouse5r5stown4head5ouse4ing7s5sh4land8\'s8s4man7n3sa4ehead4man3thart4y2pboard3eds3ing3ping3us2quin2ra4d4gne4in6e5s4l5e6s5s4n5d5g5t4sh5s4th4y5s3bid4y3com3dant4en4or3eau4e5n4head5ouse4l5and5l4man4n4s4t5z4y3fin4ord3ga5n6\'s6s5rt4en4un3i4c5e4n5g4s4tz3ken3lan6d4ey4ock3man4ile4on6s3na4eau7lt4ing7\'s7s3o4n5\'s5s4s5e4z3phew5in7e7g6s3ra5ll4ell5n4ie5ll5n5s6h6s4o5w4y3sel6s4on3tal6s5r6s4ell5m6s5n5r4gage8d4ie5s4land4ner4on6\'s4y3vant4en3y2sby3ca4o5m5w6\'s3el5ey5le5y4man4r4s4y3he5\'s5r4ood4us3ie5r3kal4o5w4wa3le5m6s5y3man3sad4berg5urg4er5s5y4like4man4o4y3taert5r6\'s4ek5r4ly4ow4rom4yn3ul4r2ta3el5s4n4urs3hball8ed8s4er6\'s6s4on3i4f5s4le4on6ed6s4ve6s3l4ey3o4n4r5\'s5s4wn6\'s3rin3ter6n4l5ed6y4o5s4ram4us3yl3zer4ko2ua3dry4y3eix3lden6r5ing8s5y4in4throp5on5rie3nger4sey4tain8\'s8s5ed5ford5ies6ng5joy5leigh9h\'s3ra5d4er4ner7s5ful5ing3sehole5l5pad5r6s5trap4ley4sa5eau4tache4y3thful5ing5part9s6iece5wash5y4on4ray4se3zon2vement8\'s8s4r5s3ie5\'s5s4ng2wat5t3bray3dy3ell4n4r5s3ing3rer5y4y2xie3ley3on2ya3er5\'s5s3lan3na2zart6\'s3ee4lle4r5\'s3ley1peg1r2azek4ik2oczek5ka3tek3zek2s1ssrs1tel1ucci3ha4more4nick4o5w3key4ing4le4rake4y3ous3us2ddied4le6d6s4y3gett3ra4ick4y3slide8s2ehlebach6r3ller5ner3nchen6ow4ster3tzel2ffin6s4le6d6r7s6s6y5ing4y2gar3ford3ger6s4ing7s4sy4y3u2ha2i3rfield4head2jzel2kluk2la3care4hes5ing3der4oon4rew5ow3ford3grew3hall4earn5rn4ouse3kern5y4ins3lah6s5n6e4en6s5r6\'s5t6t4in6g7s6s5s4oy3nix3queen3roy4y3ter4i3vehill5y2ma4w3bai4le6d6s4o4y3ford3ma4er6\'s6t5y4ies4y5\'s3per4hrey2ncee5y4hies6ng4ie4y3dane5y4ell5n4i5e5s4low4o5rf7f4y3ford7\'s3ger4ia5n4le4o3i4ch6\'s4s4z3kres3ley3nell4i3os4z3ro5e3sell5y4on4ter3tean5r3yan4on3zer2olo2ppet6s2ra4d4i4l5s4se3chie3daugh4en5r6ed6s4ick4och7\'s6k7\'s7s4y3fin3i4n5e3kland4y3ley3mansk4ur6ed6s3nan6e3o3phey5ree7y5y6\'s6s3rah5y6\'s4ee5let6l5n5y4ie5ll5n4ow4y3tagh5ugh4ha5y4o5n4y3veit3zyn2sa3cat4le6d6s4o3ee4s3grave8\'s5ove3ha4er6s4room8ed8s5ush4taq4y3ic5\'s5h5k5s4l4n5g6s3ka4et4ie6\'s4opf4rat7s4y3lim6s5n3man3olf3sel6l6s5r4man4o5n3t\'ve4ache8d5in5ng7s5rd7s4er6ed6s4in4n\'t4o5e5n4y2tant6s4te3chler3ed4rt3i4ng3schler3ter6ed6s4on3zich4man7\'s2zak3ik3zey4le6d6s4y1wanza1yanmar7\'s3tt2er4s5on3tte2hand3ren2la4\'s4n4r3er3od2na4tt2ojin3scint2ra3en3ick3lene4ie3na3on3ta4ia5ce5s4le6s2self3pace3tere4ic6s5que3zka2thic0nabbing3er5s3i4l3lus3ob5s4rs2cco3hbar4man4o5s2da4l3eau4in4l5l4r5\'s3gwick3ia4ne5g4r3ja4en2egele5r2fco3ta5\'s2gel5e4r3ging3i4n3le5r3y2has3um2idoo3fy3ling4or3m4an3na3ra3sbitt4h4mith3to3ve2jar3ib5\'s3jar2ked2lbone3cap4o3do3ley4y2mbi4la3eless5y4plate9s4r4sake8s3ing4s3phy2na3chang4y5\'s3daime4i4o3ette4z3gle3jing3kai4ing3na4ey4i5es4y3o4s2pa4lm3co3htha3kin6s3les3oles3pa4er4i5ng4o3ster2quin3vi2ra4l3cisse4o5s3da4i4o3jes3lock4y3o4n3rate7s4on5w6ed6s3um3y2sa4\'s4l3by3ca5r4ent4o3daq6\'s3er3h\'s4burg8\'s4ville9\'s3lund3o4n5s3r3sar5u4er4if3ta4y2ta4l4n3cher6z3ec\'s3han6\'s4ene3ick4on6\'s6s4ve6s3o4\'s3ter4ie4y3ure6\'s6d6s3west7\'s3zke2uer5t3ghton6y4le6s3man6n3seam5ous2va4l4r5re4s3com3el3ies4n4s3lab3star3y4\'s2wrot2yden3lor3yar2zar3er5\'s3i4\'s4s1dau1eagle3la4ey4is4on4son4y3rby4er5st4hood4ing4ly4y3ter5st4ly4ness2bel3lett2caise3ci3ker4lace4tie7s4wear3o4\'s3tar2da3da4ick4o3eau4l3row3ved2eco3ded4ful4ham7\'s4ing4le6d6s7s5ing4n\'t4y3ley4y3man3nan3per3son2gate6s3ent4v3lect7s5y3rete4i5n4o5es5id5n5s3u4s2her3ring4u2iberg6t3der4hardt7t4igh4l3er3fert3ger4hbor8\'s8s7ur9\'s9s5mond9\'s3kirk3lan4sen5on3man3ra3sen5s3ther4zel5ke2kton2la3da3la4cor4er5tte4i5e5s4wyn4y3oms4n3sen4on6\'s2mec4r4th5z3ir4tz3mers3o4s4urs2ndick3et3i4\'s2o3n4s2pa4l3hew6\'s6s4rite5on3l3ool3tune2rco3dy3i4ce4ne3lich3ney3o4\'s4ne3ren3vous4y2sbit6t4y3ci3heim3i3mith3sa4el5n5r5th4i5e4ler3ta4ed5r6s4ing4le6\'s6d6s5ing8s4or2tan3back3com3flix3her6s3like3o3scape8\'s3ta4ed5r4ie5ng4le6d6s4o4y3view3ware4ork7\'s7ed7s6th3zel5r4ley2uber6t4urg3e4r3feld7\'s3gent3hart7h5us4off3kam4om3man6n3ner3pert3ral4o5hr5n6s5th3ser4tadt5ine3ter6ed4ral7s5on7s3ville3wirth3zil2va3eau4l5s4r5s4u3il5e5l6e6s5s4n5\'s5s4s4tt2wall4rk6\'s3berg6n4ie5ll4old5rn7s4ridge5ough4urg7h6n4y3com6b7e6e5r3edge4ll6\'s4r4st4y3field4ound3gard5te3hall7\'s5rd6t4ouse3ill4sh3kirk3lan6d4ey4in4on4un4y5n3man6\'s6n5rk4ont7\'s3nam4ess3orld3port7\'s3quist3s\'s4cast8s5orp8\'s4day7\'s4flash4group9s4ham5our4ies4link8\'s4man5en4night4om6e5n4peak5rint4reel8s5oom8\'s8s4stand9s4trom4um4week8\'s5ire8s4y3ton6\'s5wn7e3ville3wave2xgen3is3rad3tel6\'s4step3us2yer3hart3land4on3man3sa1go3r3s2uyen1iad3id3l3m4h2bble6d6s3ert3lack4ett4ock2ccum3ely4n5ess4r4st3hes4ol6e7s6l7s6s4ter3kel6\'s6l6s5ns5y4i4las6us5e6s7s5in5ow4name8d8s4ol6s4son4um4y5\'s3ley3o4l5e6\'s5l6e6s5s4r2da4l5\'s4y2ebuhr5r3ce\'s5s3der3haus4off3kamp3land4sen7\'s5on3man6n4czyk4i5ec4uth3nhaus4ow3r4man3sen3to5\'s4zsche2fong3ty2gel4r3gard4er6\'s6s3htclub9s5er7s5fall5hawk9s6orse5life7ne9\'s9s6y5mare9s5shade7irt9ts6tage8nd9ds7ick9ks5time9s3ris4o3uel2hart4y3ei3on2ihau2ke4\'s3i3kei6\'s5l4hah4i4o5\'s3o4\'s4n4u2la4n5d3ges3ly3sen4on4son2mble5y4us4y3itz3mer4o5ns3oy3rod2na4d3efold4r5s4teen8th5ies5te5y6\'s3ja5s3neman4y3o4n4s3su2pon3per6t4ing4le6s4on4y3sco2quette2ro2sbet6t3ei3hi3ley3sa5n6\'s6s4ei5n4hin5o4im5n4ley3tler2ta3ka3o3pick3rate7s4ic5de5les4o5us3sa3ta4o4y3za5\'s4berg4e5l2ven5s4r2xdorf7\'s3es3ie3on5\'s5s2zar3hny3nik1oa3a3h4\'s3mi2bec5\'s4l3ile4s3le5\'s5r5s6se6t5t6t4in5tt4y2ckard2da3ded4ing3ule6s2ecker3l4\'s4le2ftsker2ga3gle3le2iman3ses4y2kyo2la4n5d3den5r3en4t5te3ie4n3la5n4er5y4ie3o3ting2mad5\'s5s3i3o2na3bank3cash4ore3esuch3farm5t4ood3greek3ie3jet6s3pluss8ed3sense4tick5op7s3white8s2odle6s3nan4ey4time3rda2ra4\'s4h3ba4eck5rg6t4y3cen6\'s4ia4o4ross3dahl5n4berg5y4een5ll5n5r4gren4ic5n5sk4lund4man7n4quist4son5trom9\'s9s4yke3een4ll4m4n4x3fleet4olk7\'s3gaard5rd4ren3ick4lsk3kus3land4in6g3ma5l5n6\'s6d4core4ent4ick5e5le5ng4oyle4y3na3plant8\'s3quist3rell4ie5s4od4y3semen4ke4tan6r5rom3tek5l4ham5bound6rook5cliff6ott6raft6utt5east9\'s6r7n8\'s6y5field5gate5land5olt5ridge6op8\'s6up8\'s5star9\'s5up5vale6iew5ward7y6est9\'s6ood4on6\'s3vel6l4il6le5n3walk5rd5y6\'s4eb5ll5st7\'s4ich5n5tz4ood4yn2sair6\'s4l3ebleed4dive8d4k4s3ing3ka3tra6nd5il7s5ums3y2tches3ebook8s4d4pad7s4ware3hdurft4er4in6g7\'s7s4stein3ice6d4ng4on6s4s3o3re3tage4er2urish7ed3veau5l6le2va4\'s4ck4k5\'s4s3el5\'s5l6\'s5s4y3i4ce5k3o4\'s3um3y2wa4ck4k3ell5s3here3lan6d4in6g2xell3ious3on3so2zzle6s1uance6d2ber2cci3kles4olls6s3or5\'s5p2dey3ges4ing3ist3o2evo3xco3yung2fer3fer2gan3ent4tt3get6\'s6s2hfer2isance2kem2land3ton4y2mac3ber6\'s6ed6s4ing4ness3ed3ia3mi2nan3ez3ley3o4\'s3sense2ova4o2peng3tial7s2rmi3ock3se\'s5s4ing3ture7d7s2sbaum3en3sbaum8\'s4er4le2tlets5y3meg3one3ri3shell8s3tal6l4er6s4ing4le4y2veen2xoll2zum3zi4le6s4o1yack2berg3org2cor3um2dam2gaard4rd3ren2han3olm3us2land3en4x3on5s3und2man3ex3pho2nex2quist2ssa3trom0o\'barr3eirne4rg3oyle3recht3yrne2clair4ock2day3ea4ll3owd3wyer2five3lynn2glove3uinn2hair4re3earn4rn2kane3eefe6fe2lague3ear2neal4il6l3uts2quinn2roark4urke2shea5ll3teen2toole1akar3brook3dale3ey3ite3land7\'s4eaf5y6\'s3man5rk4ont3ridge3ville3wood3y2na2rlock3sman2thout3is3ley3man4eal1ba3r4r2eid4rne3r4g4st4t3se3y4ed4s2ie3t4s2ject6s2lak4st4te3ige6d4que3ong2oe3n3yle2recht2scene4ure7d7s3erve7d7s4ss6ed3tfeld4ruct8s2tain6ed6s3rude7s3use2verse2yrne1caw4\'s2cult4r5red5s2ean5\'s5s2hra4e3sner2ker2lair2on2tane4ve6s3el4t3ial1da3y2dball7s3en4r4st3i3ler6\'s4y3y2ed3ll3m3n3r3tte2gers2in2land3e2neal2olf3m4s3r4s3ur5s3wd2um1ehler6t3men6s3rlein2lkers3man3rich2rtel2ser3t4reich2tken3ting2uvre1fer2fbeat3en5d6s5se4r5\'s5ed5s3hand3ice4eld4ll4ng3line3ner3ord3set6s4hoot8s6re8d4pring4tage3utt2lynn2tel4n1gan2born3urn2den5\'s2le4d4s2re4n4ss2uinn1hair3re2ba2earn3rn2land3er3in3man6n4eyer3rich3sen4on4son2mae4n5n3er2nstad1ien2ler5s3field8s3ing3man4en3seed7s3well3y2ntment1j2a2i1k2a3ne3y4ed4s3z2do2eefe5fe3y2i3e3n2on2po2ra4y2un2wu1la3ck3f3gue3h3nd3y2brich2cott3zak2den4r4st3field3ham6\'s3ie5s3man3royd3smar4ter7s2ean4r3g3n3r3y2ga3uin2ick3ff3n4\'s4de3ve5s2lar3er4y3ie5\'s4ff4s3y2mert3o4s3stead8\'s2ney2of4\'s2sdat3en5\'s3han4er3on5\'s3son3tad4en2thoff3man6n7s2und2va3er4y1ma3ar3n4s3r2dahl2ead3let6s3n4s3r2it4s2lor2men2ni2ron1na3n3te2board2cor2der3o2eal5l3comm3il5l3ness3self3time3x3y4ear2gpin2ion5s2ken2ley3ine6\'s3y2nen3i3o2o2screen3et3hore3ite3laught4ow3tad5ge4ott2tko3o2us2ward6s2yx1odle5s2ley3ong2na2ten2zes3ing1pal4\'s3que3x2com2dahl3yke2ec4\'s3l4\'s3n4ed4s3ra5\'s5s4e2fer2heim3uls2ic4\'s3e3ne5d5s3tz2land3e2pel5t4ns4r3ler3ose6d3ress7ed2rah5\'s3y2sahl4l2ted4k3ic5s4ng4on6\'s6ed6s3o3us2us1quin5n1ra3l3m3n4d4ge2bach4n3en3in4s4t5s2ca4s3hard7s4id6s3utt2dain6ed4z3eal6s4r5\'s5ed5s3nance3oyne3way2ear3l3m3n4s2field3ord2gan5s3el3ies4ll3y2i3ck3n3tz3x2kem3in3ney3ut3y2la4n5d3ene3ich5k3off6\'s4v5\'s3y2man5d6\'s3ond6\'s6e3sbee5y6\'s2na4te3da4off5rff3er4tte3ish3off3stein2o3ark3s4z3urke2pah3han6ed6s4ee4ic2ran3ell4n3ick4n4s2sa4k4y3born4urn3er3i3o4n2ta3en4z3ho3is4z3lieb4off3man6n3ner3on3wein4in2um2va4l3ille4n4s2well6\'s3ick4g2y3x2zech4l1sage2berg5t3on4rn6e7\'s4urn7e8s3un4rn3y2car5\'s5s3o2er2good2ha4\'s4f4tz3ea4l5l4r3ields3kosh3man6\'s2kar2land3er4y3in3o3und2man4r3ent3on5d6s3un5d2prey2red3ic2sa3man3o3wald2tberg4y3een4n4r3hoff3in5g3lund3man3rand4em4ich4off5m5w4um3wald2uch2wald6\'s5t3ell1ta2ey2ha3er5\'s5s3man6\'s2is2mar2oole2ten5\'s5s4r5\'s5s3ing3ley3man3o4\'s3um2well1uaga2bre2ghta5n\'t2imet6te2nces3sted2r3s4o2sley3ted5r4ing2tage3back4id6s4oard8\'s8s5und4reak8s4urst8s3calt5st7s4lass8ed4ome7s4ries5y3date4id4o5es5ne5or7s3ed4n4r3field8s5t6s4lank8ed8s5ow7s4ox6ed3gain7ed7s4o4rew5ow7n7s7th4uess8ed5n6ned6s3house3ing6s3land5st7s5w6ed6s5y6s4et6\'s6s5y4ine7d7s5ve7d7s4ook7s3man6ned4ode3pace7d4ost7s5uch6r7s4ut6s3rage7d5n4each4ight4un6s3score8d8s4ell7s5t4hine8s5one4ide7s5ze7d4kirt8s4mart8s4old5urce9d4pend8s7t4tretch9hed6ip8ped8s3ta5ke7s4en3vote7s3ward7s4eigh8ed8s4it6s1va3l4le3te2en4s3r4s4t3tt5\'s3x2itt5\'s4z2oid2ule5s3m1wades2en4\'s4s2ing5s2nbey4y3er5\'s5s3ing2sley1xbow3ridge2cart2don2en2fam5\'s3ord6\'s6s2ide5s2ley2man2nard3er2ton2y1yen3r2ler2ster6s1zal4\'s3nne3rk5s2bun4rn2elle2ga2ick5\'s2ment4t3un2ols3ne2zie3y0pablo4um3on2ca3car3e\'s4r5s4s4way4y3hter3i4ng3kage7d5rd7\'s4er6s5t6s6t4ham4ing4man4wood8\'s3man3o3tel6\'s4o2ddack4ed5n4ies5ng4le6d6s4ock4y5\'s3en3field3get6t4itt3ley4ock7ed7s3re5s4ick4o5n2ean5s3z2fford2gan4r3e\'s4ant7s4l5s4r5s4s4t5t6e4y3ing3ni2hnos2i3ghton3nesville4ful4less4o4tball6rush5ed6r7\'s7s5ing8s3ring3sley7\'s3ute3va2jak3ole2lace4is4nce4sh4te6s4u4y3ca5\'s4o3don3en4st4tte4y3frey3in3ka5r4o3la5s4er5t6s6t4id4o3ma5\'s4dale8\'s4er6\'s4gren4ist7s4ore4quist3o4ne4s3sy3ton4ry3uch5k2mby3er3my3our3pas4el5r6ed6s4hlet8s4lin2nache4m4s3cake7d7s4er4hen5o4oast3da5s4er6ed5y4ick5t4o4y5a3ek4l5\'s5ed5s4m3fil6e4ul6s3gborn5urn4els4le5oss3ic5\'s5ked5s4k3kau4ey4ki4o5w4ratz4y3mure3nell4ill7\'s5ng4u4y3os4z3sies4y3ted5l5r5x4her7\'s7s4ies5ng4le4on4ry4suit8s4y3za4er2oli4o3ne2pa4\'s4l4s4w4y3er5\'s5ed5s4sh3ier4n3o4n5\'s3pa5s4ert3son2quet6te4in2ra4de6s4g3boil3cel6ed6l7s6s4her5man6ent4place3dee5n4i4o5e5n6ed6s4ue5s4y3ekh4nt6\'s6s3fait7s4itt4ums3ga3ham3ikh4ng4s5e5h3ka5s4er6\'s6s5y4field4hill5urst4in6g6s4land4man4side4way3lance5y6ed6s4ee5r5tt7e5y4in4or6s5ur5w3ma5n5r4er4ley3nell5ss3o4le6d6s3part3quet3ra5ck5s4ent5tt4ied5ll5s6h4ot6s6t5w4y3sec5ll5r6s4hall5ley4i5ng4ky4ley5ow4on6s5w3tain5ke4ed5e5n4i5al5ed6s5n6g4low5y4ner7\'s7ed7s6y4on4ridge4time4um4y5\'s3vin3y3zych2scal6e4hal7l5en4o5e3ek3ha4ley3ing4on3key4o3lay4ey3man3o4\'s4k3qua3sage5t4book8s4e5l5r6s5s5y4im5ng5on7s5ve4man5ore4on5w4port8s4word8s3ta5s4ed5l6s5r5ur4iche5me7s5ng4or6\'s6e6s4ries5y4ure7s3zek4tor2tak4ne4sse3chell6n6s6tt5in7g5work9s5y4o3ek4l4nt6s4r4y3hak5n6s4mark8\'s4os4way7s3ience6t7\'s7s4n3lan4ex3man4ore3node3ois4n5s3rice6k7\'s7s5dge4ol6\'s6led6s5n6s4y3sies4y3ted5e5n6\'s5r6ed6n7ed7s4i5e6s5n6g5s5z4on6\'s4y5\'s3y3zer4ke2ula4ding4ette5y4hus4i5ck5e5k5n6e6g4lin4o5s4sen5on4us4y3nchy3per6s3ses4ing4tian3wels2vao3ek4l4ment8s4r4y3ich4ng3lak4ic6h6k5k5s4ock5v3o4n5e2wing3lak4ey4ik5ng4uk3nee6s4shop8s3son2xar3man3on3son3ton2y\'n3an3back7s3check8s6x4o3day3ee5\'s4r5\'s5s4tte4ur3ing3less4oad7\'s7s5r3ment7s5r3na4ter3off6s4ut6s3pal6\'s3roll7\'s7s3son5p6s3ton2zner3os1c2\'s2s1eaceful5nik5time4her6s6y5tree5y4ock7s3den3fowl3gler3king3ler3nut6s3pack4od3rcy4line7g5man5stein7ine5y4man4sall5on7\'s4y3sant7s4ey6\'s4lee6y3tross3udouce3vey4ler4y2bble6s3ley2can5s3ci3ha4in4man3ka4ham4ing4man3o4\'s4r4t3tic5n2dal5ed5led5s4nt6s3die4le6d6r7s6s4y3en3ley3rick4o5s2ebler6s3din3ing3king3ler6s4ing3ping4les3rage4ing4less4son4y3ters3vey4ish4y3wee2ffer4ley2gboard8s3gie5ng4y3low3ram3ues2hrson2ifer4fer3pu3rson3ser2kar3in5g3o3rul2lchat4zar3e3frey3ham3ka4ey4y3la5nd4er5t6s6t5u5y4man4ow4ston4um3on4t3phrey3ster3ted4ing4o5n4zer3vic5s3zel5r2mber4le4ridge5oke3ex3rich2na4\'s4l4nce5g5s3chant4il6ed6s3dant4ell5r6s4ing4ley4ril7\'s5y3field5l4old3go4uin7s3ick4le4s4x3ja5\'s3land4ey3man3na5nt7s4corp4el6l5r5x5y6\'s4ick5e6s5ng7s5x4ock4walt4y5\'s4zoil8\'s3ril4od6\'s5se4y3sion7s5ve4ke4on4yl3ta5ir5ne5x4ech4house4land4on4ron5ust3uel3well5st3za4er2on4s3ple6\'s6d6s2pcid3e4r3i4n3low3pard4el5r6\'s6ed6s4i5n4le6r4y3si5\'s3tic5de7s2ra4s3ceive8d8s5ll5nt7s5pt4hance5es4le4y5\'s3dew4ue3es4tz4z3fect4orce6m7ed7s4ume7d7s3gande3ham5ps3ich4l5s4n4sh6ed3jure7d7s3key4in6g6s4o4y3la4berg4ey4in5s5te4man4ow4stein3ma5n4it6s4ount4ut6e3na4ell4ice4o5d6\'s3o4n5e4t5\'s5s3pich4lex7ed3ra5s5ult4eault5ll5n5t6t4i5n6s5tt4o5n5t6t5w4y5\'s5n3sall5ud4es5t4hall6re5ing8\'s8s4ia6n7s5ng5s6t7s4ky4ley4on6\'s6s4pire4son4uade8s4yn3tain7ed7s4schuk4uit5rb7ed7s3u4\'s4se6d3vade7s4erse6t7s2schel4i3ek3hek3kin4y3nell3o4\'s4s3sin3ta4er6ed6s4ka2ta4\'s4in4k4l5s4rd3er5\'s5ed5s4y3hel4tel3ie4t5e6s5t3ko4us3o3r4a5k5s6h4e5e5ls5y4i5ch6k5des5e6\'s5k5n4o5ff5l6es5s5w4u5s4y3smart4tuff3ta4ed5e5r5t5way5y6s4i5e6s5ng5s5t6t7e4ry4us4way4y3way3zel4old7t2ugeot2vehouse4y2wex3itt3ter2yman3ot3ser3ton2zim5\'s3za1fahler3lzgraf2effer3ifer5fer5le3nnig7s6ng3uffer2iester3ffner3ngsten3ster3zer6\'s2leger3ieger3ueger4ger2undstein1h2agan3lange6x4en4lic3neuf4tom7s3raoh7s6n4is6s4ma4o5ah7s5s4ris4ynx3seout5s4ing2easant8s3be4us3dra3gley3lan4ps\'s3nfen4ix4ol5m3rson3tteplace2ibro3fer3lbeck6rt5in5rick6ook5y4ene4ip6\'s6p7s6s4ley5ie7s6p7\'s7e7p8e8s7s6s5y4o5n4pot7t4son4yaw3nney3ppen3shing2obic4os3ebe5us4nix3nemate6e7s5y4ic6s5ng4y3oey3sphate9s6or8s3to5\'s5n6s5s2rases5ing2ua3ong2yla4is4lis5ys4um3sics5que1ia3tt2ca4rd4s3chi5u4o3ha4er5tte4ler4on3kands5r6d6t4el6l5n6s5r6s6t5t6s6t7\'s4ford4ing7s6s4le6d6s5ing4ney4rel7l5on4up6s5s4wick5orth4y3nic6s3o4n5e4p4tte4u5lt4wer3tet4on4ure7\'s7d7s2dcock3dle6s4ock3geon2ebald3cemeal5s5work4h\'s4ing4uch3dboeuf4mont8\'s4ra3la3nta3per4gras4ho3ratt4ce\'s6all6y5ing5y4ette4i4man4o4point6nt4re6\'s5o6n4sall5ol6n3s\'s3t4er6s4ras2fer2gan3eon6\'s6s3ford3gee4ly4ott4y3let6s3man4ent7s4ied4y3ott3skin7s4ty2ker5s3ul4s2laf4nd5t4r4t5e6\'s3cher3eup3fer6ed6s3ger4ram5een5im7\'s7s3ing6s3la5ge7d5r6d6ed6s4er5y4ing5on4ow6s3nak3on4t5\'s5s5te3sner4on3tdown2ma3co3ping4le6s2na4rd4ult3ball3cers4her7s5ing4kard5ney4us3dell5r4ling3eau4r4tte3gel4ing4ley4pong4ree3ho5le7s3i4ng4on3kard4er5st5tt4ham4ie5sh4ley4ney4os4staff6on4us4y3nell5r5y4ick5ng5x4ock5w3o4\'s4t3point8s4rick3shan4ker5y4on4tripe9d9s3ta5r4er6est4o3y4an3zon2o3n3us2pefish4line8\'s8s4r5s4tec5te7s3her3ing3kin6s3pen6\'s5rt4in6s2quant4ette2rate6\'s6s3ie3key4l5e4o3o4g4ne3ro3tle2sa3ca4es4hel3ses4ing3til4ol6e6s5n6e6s5r2ta3chblende5er7\'s7s6s5ford8k9s5ing5man6en4ock3fall7s3hy3ied3kin3man3ner5y3on5s3re3stick4won3tance5rd4ed4ing4le4man4ner4s\'s5burg9h9h\'s5field6ord5ley5ton3y3zen5r2us2ver3ot5s2xar3el5s3ie3ler5y2zazz3er3za5\'s5s5zz4i4o1j\'s1lacard7s5te4e\'s5k5mat6ent9s5r5s5way4id6\'s5ng4ko4oid4zek3gens4uing3ia4nclothes5er5field5ly5o5song5tiff9\'s9s7ve5view4sance4ted5ing3mann4beck3nar5s4eload9s5r6s5t6\'s6s4king5ton4ner7\'s7s5ing4o4tain8s5ed6r7s5iffs6ng8s5like3skett4ma4sard4ter7ed7s5ic7s3ta4eau7ed5d5k5let8s6ike5n5r4form8\'s8s4ing6um4ner4o5\'s5on7s4ten6r7s5ner5sburgh4y4zer3udit7s4gher4tus3vsic7\'s3ya4back5ook6y7\'s4count4er6\'s6s4ford5ul4ground9ds4house4ing4list8s4mate8s4off7s4pen7s4room8s4tex5hing9s4wright9t\'s9ts3za5\'s5s4ic2eaded5ing8s4sant8s5er6s5ing5ure8s3dger6s5ing3iad6s3mmons4ons3net4meer4ty4um6\'s3scia4har4kow4sey7\'s5is5y3tcher4scher3ural3va3wa3xus2iant3chta3er5s3ler3mpton3nking4y3ska2ocar4ek4her3dded5ing3eger3nka4ski3sive3tkin4ner5ick4ted6r7s5ing3ughshare9res3ver6s3wden4ing4man7\'s4right4share9s2ucker5ing5y3gging4in6s3mage4ber7s5ing4er4lee6y4mer6t7s3nder7ed4ger7\'s6s5ing4ker7s6tt5ing6tt3ral6s3s\'s4es3ta4o5\'s2ybon3ing3ler3male4outh8\'s4pton3wood1m1neumo1oacher7s5ing3ge2banz3la2cket6s4mark8ed3lain3o4ck3us2dcast3ell3nar3oll3unk2ehler5man3l4man3m4s3r3schel6l3t4\'s4s2fahl2ggi3o3rom6s2hang3lad4e4man7n3npei2ignant3not4sett4ted6r7s5ing5less5y3rot3son6ed6s4sant5on3tier4ra6s2ker4weed4y3ing3y2lack4k4n5d6\'s4r3cyn3der3ecat7s4k4n4ward4y3gar3hill3i4ce6d5h4n5g4s5h6ed4te6s5te5z3je3ka5s3lack7\'s5k5n6d5rd7\'s4en6s5t6t5y4ick5ng5tt4man4ner4o5ck5i5k4ster8s4ute7s5x4y5\'s3o4\'s3sby4kin5y4on4ter5on3track3us3y4\'s4ak4p5s3zer4in2ma3bo3mel5r3pa4er5y4lun4om6s5n6s5us3renze4oy2nce5t4han5o6s3der6ed6s3gratz3ied5s3solle3tes4i5ff7\'s5ous4o5n5on7s3y3zi4o2oches3dle6s3kie3las4er5y4ing4side3per6s3rbaugh4er5st4house4ly4man3ser3vey2pa3corn3eil4joy7\'s4k4ye6\'s6s3ham3ick4el4k3ken4in4o3lar4in6s3off4v3pa4ell5n5r6s4ies5ng6s4le4y5\'s3u4p3well2quette2rath3cher6s4o3dy3ges4y3ing3ker6s4y3no3ous3poise3ras4idge5tt4o3sche7\'s7s3ta5ge5l6s4ec6\'s5d5e5ll5nd7s6t7s5r6\'s6s4hos4ia5ng5on7s5s4land8\'s5ock5y4man4ner6y5oy4o4rait8s6y7ed7s4smouth4wood2sa3co3en4r4s4ur6s4y3hard3ing4t5s3luns3ner6\'s6s4ick3se5hl5s6s7ed4um6s3tage5l6\'s4card8s5rash4date8s4ed5l6l5n5r6s4game4hole8s4ing7s5t4le4ma6n6rk8ed4on4pone8d8s4rel7le4script9ts4um5re7s4war2tage4sh3eat4et6e4n5t3hole7d7s3ion6s3latch4uck3pie6s3ratz3sdam4hot7s3tage4ebaum5d5r6\'s6s4hast5off5urst4le4orff4y3vin2ucher6s3lenc7\'s4in4os4sen5on4ter5ice5on5ry3ncey5ing5y4dage5ed6r7s5ing5stone3pard3ring3ssaint6nt5in5on3ted5r4ing4re4y2vich2wder6ed6s3ell6\'s4r5\'s5cise5ed5s5train3is3les6s5y3nall3ter3wow6s2yer3ner4or4ter5on3ser3thress2znan4er3o4s3zi1r2actice8d6se8d3da4esh4o3eger4tor3ger4ma3irie7\'s7s4ses5ing3kash3ncer6s5ing4ger4kster9s3pas3sad4ek4hant3tap4er4fall8s4her4o4tle7d7s6ing5ville3vda6\'s3xair4is3yerful4ing4tor3zak2chal2eacher8\'s8s7s6ing6y4kness3bble4le4on3cast4ede7s5ed7s5pt7s4hter6l4inct8s5ous5p5s6e4lude8s4ook7ed5urt4rash3date7s5wn4dy4ict7s4more3empt7s4ning3fab6s5ce7d4ect5r6ed6red6s4ix3gler4nant4o3heim3iser5ig3jean4udge8d3late7s4im6s4lwitz4ude7s3mark4ier7\'s7e8d8s7s5se7d4o3nger4sa4tice6ss3paid5re7d7s5y4pie6ng5y4uce3quel3sage7d5le4by4chel7r6ool9s5ot7t5ribe9d9s4ence6t7s5rve8d8s5t4ide7s4lar5ey7\'s4nall5ell4plit4s\'s5board5el6r7\'s6s6y5ing5ler7y6y5man5nell5on5tek5ure8\'s8d8s5wood9s4ta6ge5ech5i6a6dge6ge5o6n7\'s5ridge5wich6ood4ume7d7s4zler3tax4een7s5nd7s6se5rm5xt4ti6es5y4zel7s6r3ussag6er3vail7ed7s5l5tt7e4ent7s5tte4iew7ed7s5n5te4o5st3war5y4ett4itt3yer4ing2iam5\'s3bble4yl3ce\'s5less5r5s5y4hard5ett4ing7s4kett5ly4or3ddy4eaux5d5more4gen6on4more3ebke4r4ster7ss6hood6ley7y4ta5o4ur3gmore3ma5ck5l5rk5te7s4eau7x5bank5co5news5r6s5star5time4ing4ly4mer4o5\'s4rose4us3nce\'s6ly6s7s6ton9\'s6ville4dl6e4gle7\'s4key4os4sen4ted6mps6r7\'s7s5ing8\'s8s5on6ut8s5up5y4z\'s3or5s3sburg4co4m5s4on6\'s6ed6s4sie5y4tine3tchard6ett4hvi4zker8s5l3us3vate7s4ett7e4ilege9d4ott4y3yam3zant4es4m2oba5te4ert4ing4lem7\'s7s4us3caine4eed7s5ll5ss7ed4hnow4kter4laim8ed8s4ter5or7\'s7s4ure7d4yte3dded5ing4i5\'s4uc6e7d6t7\'s7s4y3fane4ess7ed4fer7ed5it7t4ile7d7s5t6s6t4ound4use3gram7\'s7me9d7s5ess8ed3ia3ject7\'s7s3kop3ler4og6ue5ng7ed7s3mise7d4o5s5te7s4pted6ing6ly4ster8s4us3nger5horn4oun7ce9d7s4to3ofing5read3pane4el6led6s5r4fan4het7s4ose7d5und4per5ing3rate4ok3scar5ia5ribe9d9s4ek5rv4hare4ise4kauer4pect8s6kt6r7ed7s4ser4tate5rate3tect7s5in7\'s7s5st7s4hro4o5n6\'s6s4ract5ude4zman3uder6st5fit6oot9\'s5ly4ty3vance6t4en6ce5rb7s4ide7s5nce6g4o5ke7d7s5st7s5te4us3want4ell5ss4ler5ing3xies4mire4y3zac2ucha3den6ce6t7e4hoe6mme4ish5t3er4ter5te3iett4tt3neau5dale5r4ing4skiene4ty3sak4ha4ki4sak5ia7n3tzman2yer3ing3or5\'s1salter7s2encik3udo2yche6s5ic7s5o1tacek2omaine8s2yon1uat2bco3ic3lic6\'s6s5sh7ed5x2cci3ker5tt4ish2dding7s4le6s3er3gie6\'s6s4y3lo3ong3will2ebla5o3ntes3rile4to2fahl3fer6\'s4in6g6s4y2ga3et3mire3sley3wash2jol2king2lford3ice3lam5n4back8s4en5r5y6s4in6g6s4man7\'s4out7s4um3os3ping5t6s4wood3sar6\'s4es4ing3te3ver2ma4\'s3ice4ng3mel6ed4ill3phrey4ing4kin7s3sie2nches5ing5line5y4tate5ure8d8s3dit6s3eet3gent3ic4sh6ed4t3jab6\'s3kin4y3ta4er4o3y2pa3il5s3o3pet6s4ies4y2ra3cell4hase8d3dham4ie5n4om5n4ue5m4y3ebred8s4e4ly4r4st4x3ges4ing3i4le4m4s5t6s3key3loin7ed3nell3pa4le6s5ish4ort7s5se3ring3sel6l5r5s4ley4ue6d6s5it7s3tee5ll4le3vey6ed6s4iew5n5s3year2san5t3ey3her6s5s4ing4kin4up6s4y3kar5s3ses4ies4y2tco3down7s3hoff3in3man3nam6\'s4ey3rid3ted5r6s4ing4nam7\'s4y2usepp2za3o3zle6d6r6s4o1yatt2burn2eatt2gmies4y2hrric2ka2land5t3on5s4s2ongyang9\'s2per2re4s3ite3o4n3rhic2sher2tel3hon6\'s2xis0qaeda2na3tas2sr2tar2wi1ian3o2chen2ngdao4ming3tex2ryat1max1uadra6nt5ex3eda3ffed3hog3intance6ly3ker6\'s6s4ing3lcast5omm8\'s4ex5y4ley3nex4tum7\'s3quil3rnstrom4rel7ed7s5ies5y4ter7\'s7s8\'s6t7\'s7s5ile5o3sar4hing4i3ttro3ver6ed6s2ddus2ealy4sy3bec6\'s3chee3ena6n5er5fish5ie5sland6way4rer3llette5ing5o3moy3nby4cher8s7s6ing4nel4tin4zer3ried6s4ry4y3snel7l4tar5ech5ion8\'s8ed8s5ran6om3uing2ibble7s3ckel6n7ed7s6r6st5ie5ly5ness5sand9s5time3et5s3ggle4ley3les4lan5en5ian6n7g5man5on4ted6r7s5ing5y3mby3na5\'s4by4cey5y6\'s4dlen4ine4lan5ey5in4nell6y4on6es4ta6l5er6t5ile6n5o6n3pster3ram4in6g4ky4os5z4y3sling3to5\'s4ter7s5ing3ver3zard4zes5ing2ora4um6s3ta5s4ed4ient5ng4ron7\'s0rabbi5s5t6s6t4le3el4n4r4s4y3i4d4es4n5\'s5e3kin3oin4ld4n4rn4urn4y3uck4n4rn3y2cal3ca4oon7s3e\'s4horse4man5es4r5s4s4track9s5te4way4y3had5el5l4el6\'s6le6s4ford4i4lin3ial4ne5g6\'s4st6s3ker6s5t6s4ing4ley5iff8e4mil4ow3quet7s3y3zka2da4nt4r5s4tz3bert4orne5urn8e4urn3cliff8e3datz4er4itz3el5l4n4r3ford3ha3i4ce5h5k4n4sh4tz3ke4o3le5y4iff4off3man4und3ner5y4or3o4lf4n4s5h3tke3u3wan3y3zik2eburn3der4ler3ther2fale3fa4el5ty4i5\'s5eld5sh4le6s4o3i4k3ted5r6s4ing2gain4n4s3el4n4r4s3ged3in5g3land4e4in3men3o4n3sdale3tag4ime4op3u3weed2hal3e4em3ill4m3man6\'s4ing3rig3ul3way2i3a3ble3ded5r6\'s6s4ing3ford3ko3lbike4car7s4ey4ing7s4road8\'s8s4sback4tex4way7\'s7s3mer4o5nd3na4bolt6w7s4coat8\'s8s4drop8s4er5y4fall8s5ord4ie6r5ng4ley7\'s4man4one4storm9s4ville4y3sa4beck4er6s5s4in6g6s4ler4on5r4sa3thel2jiv3ko3neesh3u2ker5s4straw3ich4ng4sh3off4w2leigh7\'s4s\'s4y3lied6s5s4o4y5\'s3ston7\'s2ma4ge4n4t3beau5rg6t4in4le6d6r7s5ing4o5w3el4r4sh4y3i3ler4ow3mel5r4ing3o4n5e4s3page7d5nt5rt7s4ell5y4ing4ley4y3qvist3rod3say4burg4dell6n4er5s5ur5y6\'s6s4tad5ein3tane4ek4ha5un3u4ne4s3zi2na3ce\'s4h\'s5er7s6s5ing5land5o4id4o5r5urt3da5\'s5l6l4el6l5r4i4le6s6tt4o5l6f6ph5m4y5\'s3ee4y3gel5r6\'s6s5s4ing4oon7\'s4y3i3ker6s4in6e6g7s6s4le6d6s5ing3ley3ney4ow3sack7ed5ll4burg8\'s4dell4ford4ley4om6\'s6e6s5n6e3ta4ed4ing4oul3um2oul4x2pacz3er5s4seed3hel3id5s4ng4st6\'s6s3kin3ley3pa4er6s4ing4old5rt3son3tis4ly4or6s4ure2quel2ra3don3ely4ness4r4st3ick2scal6s4o5e5n3er4y3had4eed5s4id3ka4in4yn3min4us3nake4er4ick3o4r3py3ter4us2ta4y3chet5ford4liff8e3ed4liff4r5s3hbone5un6rn8e9\'s4el5r6\'s6t4je6n4ke4man7n3ier4ng6s4on6ed6s3ko3ledge5y4iff7e8\'s3ner6s3on3tan4le6d6s5ing4ner4ray4y3u3zlaff2uber3cci4her7\'s4ous3en4r3ls5ton3nchy3scher4er2vage6d4n3el5\'s5ed4n5s4r3i4\'s4n5\'s5e6s5g4tch5z2wding4on3est3hide3ley4ing7s6s3ness3ski4on2xter2ya3bon5rn5uld6rn4uck5rn7\'s3chem4on4raft3field4ord3man5rk7\'s4ent5r4o5nd4und3nard4er5t4o5r3on4s3rock3son5r3tech2za3ing3o4r5\'s5s3zle1eaches5ing4t5s3der6\'s6s4ied6s5ng7s4out4us4y3gan6\'s6s4en4le4or3lcap4e4i4ly3mer6\'s6s4y3ney3per4ing3rden5on4ick5ng4m4view3ser4ner4on6ed6s5r3ver6\'s4is2ba4ck4r4te6s3be5\'s3eck4l5\'s5led5s4r5t3holz3id4rth7s3man6n3o4ard4ok6ed5t6s4rn4und7s3stock3uck4ff6ed6s4ild7s6t4ke6d6s4s4t2call6ed6s4nt4p5ped5s4st3ede6s4ipt7s5ve7d7s4nt4ss6ed3harge8d4eck7ed3ite6s3kard4er4itt4less4ner4on6ed6s3laim7ed4ine7d7s4use3o4il6ed6s4n4rd6\'s6s4unt7s5p6ed6s5rse3ross4uit7\'s7s3tal4or4um3ur5red4se6d3zek2da4ct6es3bird4ook4ud5rn3cay4o5at7s3dell5n5r5st4ick5g5n6g5sh5t6t4och4y3eem6ed6s4l5l4r4ye6s3fearn5rn4ield5sh4ord7\'s3grave3head7s3i4c5k4d4ng4sh3ken3land4er5y4ich5n3man6n4on6d4und3neck7s5r5ss4our3o4ne4ubt5nd3path4oll7s3raft5w6n4ess3shaw4kin7s4tone8\'s3uce6d4s4x3wald4ine4ood7s2ebok6\'s6s3der6s4y3fer6s3king3ling3se\'s5r4jones4man4or3ver5s\'s2faat4h3co5rp3er5red5s3fett4itt4ner3ile6d5l6ed6s4ne6d6s4t3lag6ged5te4ect7s5x4ux3orm6ed6s3rain7ed7s4esh7ed3snes3uge4nd6s4se6d4te6s2ga4in6ed6s4l5e6d6s4n5\'s4rd6s4s3ehr4l4n5t6s4r3gae4ie4y3ie4me6\'s6s4on6\'s6s4s3ner3o3ress5t6s4oup7ed3wan2ha4b4k4sh3bein5rg3der3ear6se8d3feld7t3ire3kopf3ling3man6n4er3nquist3or3rig2ibel5r3chard8t5el7t6r7t5hold9\'s5l6e7r7y6in5man8n9s6uth5ow5stuhl5wein3del5r6s4y3er3fel4steck3gel5r4hard4le4ning3her3ki3land4ey4ing4ley5y6\'s4y3man6n4er6s3nard4bold7t4cke4deer6l6rs5l4eck5ke5r6\'s6s6t5y4gold4hard8t7t8\'s5old7z4ig5ng5tz4king4oehl4sdorf5el5tein4wald3schauer6man4dorf4en5r6t4h4ig5ng4man4ner4sig5man4t4wig3tan4en5r4her4man4sma4ter4zel6s5feld2ject6s3oice7d5n6ed6s2ker2lapse7d4te6s4unch8ed4x5ed4y5ed5s3earn5se7d4nd5t3ford3i4c5s4ed5f6s5s5ve7d7s4g4sh6ed4ve6d3la4er3man3oad6s3y4ea2made4in6ed6s4ke6s4nd4rk6ed6s4tch3bert4old4randt9\'s9s3co3er3i4c5k5s4nd6s4s5s4t3ley3mel5rs6t4y3nant7s4ick3o4ld4rse4te4ve6d6s3pac4el4fer3sberg5urg4en4on3us3y2na4l4me6d4rd4ud5lt7\'s3cen4her4o3da5ll4ell7\'s5r6ed6s4ing4on3e4au4e4ge6d4w5ed5s3fred6w5o6e6w3gel4o5\'s3ick4n3ken4o3na5rd4els5r6t5t4ick5e4o4y3o4\'s4ir6s4uf5nce8d4wn6ed3quist3shaw4ing4trom3ta5l6s5s4ed5r6s4fro7w4ing4on4schler3wick3y3zi2o2pack6ed4id5nt5r6ed6s4p4ss4y5s3eal6ed6s5t6s4l5led5s4nt6s3hrase3ka4o3lace7d5nt5y6ed6s4ete4ied6s4y3o4nse4rt6\'s6s4s5e5t3pert4ond3r4ess7ed4ice7d5eve5nt7s5se4oach3sher4ol3tile7s3ulse7d4te2qua4est7s2read3oute3un5s2sale6s3cind7s4ue6d6s3del3eal6ed6s5rch8ed4ed4ll6s4nd6es5t6s4r5ve7\'s7d7s4t5s3hape7d4ot3ide6s4gn6ed6s4n5s4st6s3ler3nais4er4ick7\'s5k3o4\'s4ld5ve7d7s4rt6\'s6s4und5rce3pawn4eak5ct7s5ss4ite4ond7s6se4ress3sa5\'s4el4ler3tage7d5rt5te7s4ed5r4ful4ing5ve4less4o5ck7ed5n5re7d7s4rain8ed8s8t9s5ict8s5oom8s4yle7d3ult6s4me6d6s2ta4il6ed6s5n6ed6s4ke4rd6s3ell4st6s3hink4ought3i4n4re6d6s3lin3o4ok5l6ed4rt6s3race7d6t7s5in7ed4ead7s6t7s5nch8ed4ied6ve8d8s4o4y3tberg4er5w4ig4ke4on3urn6ed6s3zer4laff5off2uben5r3land3m3se5d4ser3ter6\'s6s4gers4her4ter4zel2va4k4mp6ed6s4rd3co5\'s3eal6ed6s4l5ed5l6e5s4nge4rb6ed5e6d6s5se7d5t6s4tte3iew6\'s6ed6s4le6d5le4s5e6d4ve6d6s3lon6\'s3oir4ke6d4lt6s5ve7d7s4rd3son3ue5s3ving3zin2ward6s3erts4y3ind4s3ord5k6ed3rite7s4ote2xall3ene3ford3ham3nord3on3road6t5de6t5th2yburn3craft3er4s3man3na5rd5ud4old7s2za4c3ek3nick5k1hea3ingold5isch5stein3sus3ta2inehardt8t5land5man8\'s5smith6tone9es4o5s3zoid5me7s2oda5nthe4en4ies4us4y3nda4ey3rer3ten4o5n2ubarb3dy2ymer4ing3ner3thm6ic6s1ia3d3l2ba4ld4r4s3bing5t4le4on6s3i3ka2ca4\'s4n5s4rd3ca4i4o3e\'s4ville3h\'s4a5rd7\'s7s7t6t5ud4bourg5urg4co5reek4er6d6t5s6t5y4field9\'s5ord4ie5ns4land5y4man5ond8\'s4ner6ss4oux4stone4ter5on4white5ine3kard7s4el6s5n5r6s6t5ts6t7s5y4i5e4lefs6s4man4ner4son4ward5ood4y5\'s3o4\'s4h5\'s2ddance4ell5n5r6\'s4ick5ng4le6d6r6s4ock3eau6x4ll4n4out4r5\'s5s3ge\'s5crest5field5ll6y5s5way6ood4ley4way3ing6s3ley4ing4on3ner3out3path2ebel5n5r4man3chers3del5r6s4l4y3gel5r6t4le6r3hle3ken5r3lly4y3man6n4er3ndeau4stra3ra4son3sberg4en5r4ling3th4man4veld2ffel5y4ing4le4raff3kin6\'s6d3le5d5s4ing2ga4s3by3don3el3gan4en4i5n6g7s6s4le4sbee3hi4ted6ous6r5ful5hand5ish7t8s5ly5mire5ness5o5ward6ing5y3id3ney3o4r5s3sbee5y3ueur2ha2jn2kard3eld4r5\'s5s3ki3lis3sbank4dag2ley5\'s3la4ette4ing2ma3bey3el4r3kus3mer3son2na4rd4s3con3dahl4fleisch3eer4hardt7t4r4y3gberg4dahl4el5n5r6s4git5old4ing4land5e6y5ing4neck4o5ld4quist4side5tad4uette4wald5ood3i3ker4o3sing3tel6\'s6s2o3\'s3n3rdan7\'s3s3t4s2pa3en5ed3ka4en6\'s4in3ley3off6s4ste7s3pee5l5r5y4ing4le6d6s4on4y2sa3berg3den4on3en4r4s3hel6l5r3i4n5g3kin6g4less4o4y3ley3ner3o4n3que3ser4ler4man4o5\'s3tau4er4on5w2ta4\'s3cey6\'s4hey7\'s5ie7\'s3er4sh3ger3ner3son3ter6\'s4gers4le4man4ner3zel5r6t4man4y2va4l5\'s5ed5s4rd4s3en4r5\'s5s4st4t5s5t6e3kin6d3lin2yad5h4ls2zer3o4r3za4i4o1oa3ches3dblock9s4cap4house4ie4map4show5ide8s5ter4way7s5ork4y3ming3nna3ring4ty3sted6r7s5ing2back4k4r5ds5ge5t6s3ben5r6s4ie6\'s5n6g6s4y5\'s3eck4l4r5ds5g6e5s5t6\'s6s4y3ie4n5\'s5s3l4e5e5s5y4in3nett3o4t5\'s5s3son3uck4st3y4n2ca4p4rd3ca5s4hi4o5\'s3ha5t4berg4e\'s5lle8\'s5r5tte4ford4lin4on3kel5r6s5t6\'s6s6t7e8s5y4ford4hill5old7t4ies5ng4land5ey5in4man5ore4ne4off5w4port4rose4star4ville4well8\'s5ood4y2da4k4le4rte4s3den5y4ick5e5ng4y3ell4n5t6s4r5ick8\'s4way3ger6s4in3ham3i4ck4me4n3key3man6\'s4ond4und3ney3olf5ph3rick5gue3well3y2eber4ling4uck7\'s3cker3del5r4l3gner3hi4ling4rich6g3land4ler4ofs3mer4mich3per3sel5r4ner4sner3ther4tger2ffman3in2gaine4l4n3el4r5\'s5s4t5\'s3gow3ier4n3ness3off3stad3us2han3er3land4fing4ing4man4off3man4er3ner3rbach7k6ugh5ough4er4ich5g4man3stoff3wer2iling3ster7\'s2jas3ek3o2ka4hr4r3os5z2lan5d3dan3en4tte4x4y3fson3in5g3la5nd7\'s4back8s4ei5n5r6s5t5y4i5e5n6g7s6s4man4o5ut4s\'s4top4y3nick3off4n3ston2ma4\'s4ck4in6e4n5\'s5ce5n5s4s3bach4erg3el5le4r4sburg4y3ick4g4nes3ley3mel3ney6\'s3o3ping2na4ld4n5\'s4yne3ca4o3da4eau4on3en4y3gji3i4n3ko3na4ie5ng4y3son4tadt2ofer6s4ing4top7s5ree3kard4er4ie6s4stool3mful4ing4mate8s4y3ney6\'s3rda3sa4ted6r7s5ing3ted5r6s4ing4kit4less4stein2pak3er5\'s5s3ing2quemore2rer5\'s4x3ick4e3rer3schach3y2sa4\'s4les4n5ne4s3berg3cher4oe3e\'s4anne8\'s4boom5rock7ok7ugh5ud6sh4crans4krans4l5and6wn8\'s5ine5l4man5ead5ond7t4n5\'s5au5e4r4s4te5t6e7s4vear5ille4wicz5ood8\'s4y3hier3ie5\'s4n5g3kam4o5s3lin4und4yn3man3neft5r3off4l3patch3s\'s4a4bach4ell5n5r4i5e5n6g4lyn4man7n5ore4ner4o5n5w3tad4en5r6s4on5v4ron5um4y3wald4ell3y3zak4ell2ta4n4te6s3berg4lat3en4rt3hbard7t5erg4child4er6t4fuss4geb4kopf4man7s5eier4rock4schild9d\'s9ds5tein4wax5ell8s3i3man3o4r5s3ruck3ted5n5r4ing4ler4man7n3und2ubal4le3geau4her6st5ing5ly5neck9s7ss5shod5ton3illard3kema4os3lac4eau5tte8\'s8s4hac4ston3nded6r5head6ouse5ing5ly5tree7ip5up5worm9s5y4tree3se\'s5r5y4ing4seau6l7l8e5in5os3ted5r6s4ine7s6g4ledge4on4son4zahn3yn3zer2ven4r5\'s5s3ing6s3ner2waine7\'s4n5\'s5d3boat7s3den4ies4y3ell4n4r3in5g3land7\'s7s4ett7e5y4ie4y3ney4tree8\'s4y3ser5y4on3ton2x\'s3anne3ie4ne3y2yal5\'s5e5l5s3bal3ce\'s5s4roft3den4on3er4x3ko3lance3ster7\'s5on2za4k4r4s3ek4ll6e4n3man3sa3zell4i1ua3m3ne3rk2back3ber6s4ing5sh4le4o3eck4l5l4n5s4rg5t4y3i4e5s4k5\'s4n5\'s4s3le5\'s5s5y4off3out3ric5ght3y4\'s2cci3hti3kel5r6t4i4le4man4sack4us2da3dell5n5r4ick4le4ock4y3een4l5l6e5y4n5ess4r5\'s4st3i4\'s4ch4e4n5g4s3kin3loff3man6\'s3ner5t4ick5k3olf5ph4w3y4\'s4ard2ebel3ckert3dy3ful3ger3hle3las4le3ter4her2fer3fcorn4er4in6g4le6d6s4ner4o5rd3o4rd4w3ty3us2gby3en4r3ged4les2hland4e4man3nau3rgas3ul2in4ed4s3s3ter3z2jith2la4nd3ebook4r5s4y3ing6\'s6s3li4man4o3on2mack4ge4n3baugh4le6d6s6y4old3en4r3felt4ord3ler5y3mage7d4el6l4y3ney3or5e6d5s4ur6s3pel4le6d3rill3sey4feld4on2ncie4kel4o3dall4ell4le4own4quist3ion6s3kel4le6s4o3nells6s5r6\'s6s4ing7s5on4y3off3quist3up5s3way6s3yan4on2off2pard4ul3ee5s4rt3hy3le5y3now3pel5rt4recht3recht3ture7d7s2ral3ik2ses3h\'s4die7\'s4er5s4ford4in6g4low4more4ton3in3kin3lan3nak4ock3sa5k4el6\'s6l7\'s5rt5t6s6t5y4i5a6\'s6n7\'s7s5n4ler4man4o5m5w4um3tad4ed4ic5n6g4le6r5ing4on4proof4y5\'s5s2ta4n5\'s3er3gard4er6\'s6s3hann4er4ie4less4ven3ile3land4edge5y3man3skoi7\'s4tein3tan4ed5n5r4le6s3zen2xpin6\'s2ybal2zek3ich3zo1yal4l4s3n4\'s4s3ve2ba4ck4k3erg3ka3olt3urn2chlik3kman3roft3zek2dberg3ell4n4r5\'s3man2en3r4son2gel3iel2ka3er3iel3off2lan5d3ee4y2man3er2nders3er3o2on2rie2ser3kamp2ther3on2zhkov0s\'s1aamstaan3ri3tchi7\'s4hoff2ba4h4n4s4t3bagh5th7s3el4r5s4y3in5e6\'s5s4r3lan4e5s3o4l5\'s3ra4e5s4y3ta2cca4o5\'s4ule3ha4dev4er5t4i5n4s\'s3kett4ing4ler4man7n4ville3o3ra4ed2da4o4t5\'s3dam6\'s4en6ed6s5r5st4le6d6s3eh4k4r3ie5\'s4st3ler4on4y3ness3o4ff3ye2echao3ed3ger3han3lens3maul3nger4s\'s2fdie3ecard8\'s5o4guard9s4house4ly4r4st4ties5y6\'s4way7\'s3fell5r4ir4le4old5rd4ran5on3ier4ng4r5e6\'s3ko3ley3ra5\'s5n4it2ga4n4r4s3e\'s4brush4n4r5s4s3gese4ing3o2ha3gal3len4i5n4man2ia3dan3f3gon3ki3lboat8s4er4fish4ing4or6\'s6s3ndon4ted5hood5ly3pan6\'s3son3to4ta2jak3dak2kal3er3i3o3s\'s4a2la4am4d5s4h4k4m4nt4s4y4z3berg3eem4h4k4m5\'s5me4sforce5man8\'s6en8\'s3ick4f4m4n5e5g4s3keld4in3lade5s4ee5h5r5s5y4ie6s5ng5s4y5\'s3man6s4en4i4on6d6s3o4is4n5e5s4on6s4w3sa5s4er4man3tbox4ed5r6\'s6s4ing4like4marsh4on4sman4y4zburg5man3us4te6s3va5ge7d5s4i5\'s4o5s3way4en3yard7s3zberg5urg4er4hauer4man7n2ma4r3ba4erg4o4re3cor3eer4k4lle4ness4t3ford3i4\'s4r3met4ie5s4on6s4ut4y3ons4s4th3pan6s4er6\'s6e5y4le6\'s6d6r7s6s6y5ing8s4ras5e4sel7l5on3ra3sel4om5n4ung7\'s3uel6\'s2na4a3born3ches6z5o4ia4tion8\'s8ed8s5um3da5ge5hl5l6l6s5u4bag7ged7s6r5erg5last5ox5urg4ed5en5l6l5n5r6s4ford4gren4hill5og7s5u4i5dge5e5n6g4ler5in7g4man7n4ner6ss4o5m5n5r5s6e5w5z4point4quist4ra5idge5o6ck4stone7rm9s6rom4town4vig6k4wich8ed7k4y5\'s3er3ford7\'s3ger4froid4ster4uine4yo3i3jay4iv3ka4ei5r5y4o4yo3mark3na4er3o3sing4krit4o5m5n6e3ta5\'s5s4e5r6re4i5a5n4o5n5r5s6h5w4ry4y3ville3wa5\'s3yo3zo2one2pien3ling7s3per4ing2ra4\'s4ge4h5\'s4n5t3bane7s4er3chet3das4ine7s4o3ene4tte3geant5n6t4is3i4\'s4ch4n4s3ka5r4is3li4o5s3na4ey6\'s4i4o5ff3ong6s4s3ra5j5tt4ett4is4o3sfield3tain4i5n4or4rain5e4well3um3ver4is2sek3ha4es3low3nett3seen5r6\'s4i4man4net7\'s7s4o5n5on5u4y5\'s2tan5\'s5s4y3chell6r3ed4r3her4re3in5s3loff3o4h3re3ter4ler3urn6\'s6s3ya2uber3cepan5r6s5s4y3der4i5s3er5s4y3lter7s3na5s4ders5ra7\'s4ter3rer4o3sage4er4ser3te5ed5rne8s4ter3vage2va4ge6d4nt6s4rd4s3el5l5y4r5s3ich4dge4er4ll6e4n5\'s5g6s7\'s4or6\'s6s4r4tch5t5z3ko3o4ie4n4r5ed5s4y3r3vy2wa4ll3chuk3dey4on4ust4y3hill3icz4n5g3ka3mill7s3shank3tell7e3yer6\'s6s2xby3er3man3on5\'s5s3ton2yad5\'s3brook3ed4gh4r5s3iid4ng6s3ler4or6s3yid1barro1cabbard3ccia3dden3ffold8s3hill3la5r4ded5ing4i5ng5se4lan5ion8s5on6p7ed7s5y4pel7s6r7s5ing4zi5o3mmell6r7s5on4per7ed3ndal7\'s7s4lan7d5in5on7\'s4nell6r7s5ing4tlin5y3pa4egoat9s3rbro7ugh4cely6r4ecrow9\'s9s4face5o4gill4ing4let7t4pa4ring5y4sdale4y3thing4ter7ed3venge4o5ne2enic4ted3ptic7s5re3rbo2haafsma4bel6n6r7g4cher6ner6ter4del6n6r4echer5del5fer8s6fer7ler5r4fer5fer8t6ler6ner4ible5rer4ja4ller6ock5ow4ma5ber5el4ner4per5pell7rt4ra5er5lau5nhorst5rer4ttner5zberg6el6man4uble5er5mberg7urg3echter7man5kel5ter4dule8d8s4eler5rer4ffel7r4ibel7r6le6ner5del7r5er5man5nberg6er5rer4ler5in5ler6hase7orn6ing4ma6s5bri5el6r5ing5mel4na5del5kel7n7r5ley4per7s5is4rbarth5er7\'s5ger5ing8\'s5lis5man6er5rer5tzer5zer4tter4uer5nemann5rer6ich7ng3icker4ebel7r5fer6fer5mann5r6en5sser5we4ffer6man6ner4lder5ler8\'s6ing9\'s9s6o5tknecht4mek5mel6ing4ndel6ler9\'s5kel4phol5ke5per8s4rmer5o4sm6s5sel3labach5chter5fer6ly5gel7r5ngen8r5ter6ter4echter5eter5gel5icher6fer6ger6mer5mmer5nder6ker5reth5sser6wig5yer4icher7ter8ing6ker5eper5tter4obohm5emer5sberg6sberg7er7man5tter7man4ueter5ter3mader5ncy4echel5ichel6ser5ling6ter7zer6zer7le5rgel4iddy6gall6l7in6tke5eder6sing5tter7ou6zer4oker5ozing5tzer5yer4ucker7ler3nabel5uzer4ebly5ckloth5eman6rson9n\'s5ider9\'s9s6er6ter5ller5tzer4ider5eder9s6r5tker6tke6zer7ler4yder8\'s3obel6r7t4eller7horn5nbaum7eck8rg7orn6dorf6e7ck7r6feld9dt6hals7err7of9\'s8ltz6ig6rock6thal6wald5pke6pner5ttle4ffstall5ield4lar7\'s7s5berg5er6y5field5ler5ten4mberg6urg5er5mer4nberg5eman5feld4olbook9ks8y9s7us6child7raft6er8s7y6field6girl9ls6house6ing6mate9es6room6time6work6yard5ner8s4pfer3rader5eder5ger4eder5ger5iber7man6er6fels6ner6ter4iber5cker5eber6fer6r6ver5msher5ner5ver4oader5der8s5eder9\'s7l6pfer6r6ter5yer4yer5ver3ubach5el6rt8\'s4chard9t8t6ert6man9n5ker6man4eler6ler5ssler4hmann4knecht4lder5er5hauf9s6of5ke5ler5man5of5ten6heis9ss4man7n8\'s5er7\'s5pert4ndler5eman4pak5bach4ring5man4ssler5ter4tter6ler5z\'s6man4yler6kill3wager5iger5lbach6ier6ler5rtzberg9erg\'s8child8kopf8man6zer7kopf9pf\'s7man4ebach6el5da6er5gel6man5ickert6ger9t7hardt6kert6nsberg6tzer9r\'s6zer5mmer5ndeman6ker5rdloff6in8g6ner9\'s6tner4ieger6r6sow5mmer5nger5sow2iacca4ndra5na4ra4scia3com3ence3fres3lla6s3med4one3nta5o3on4s3sm4sor7s3tex2obee5y4ie4y3ffield5laws4ield3ggin7s4in3hier3la4ded5ing4ia3ma3nces4nix3oby4per5ing4ter7s3pic5ng3rcher6ing4eboard5card9s5less5r6s4ing4nful4sese5one4tese4za3tches6gard4ia6\'s4land8\'s4sman4ten5ie6sh5o6n5sbluff6dale5y6\'s3undrel9s4r5ed5ges6ing5s4ted6n6r7s5ing3vel6l4il6l7e3wcroft4den4ling2rabble4ggle7y4mble8d8s4nton4pbook9s5er7s5ing8s5ping6y4tches7ing7y4wny3eamer8s6ing4eches7ing5ner8s6ing9s6play9ys6shot9ts4wball5ing5y3ibble8d8r9s8s5er5ner8\'s8s4mgeour5mage5ping5shaw4pted6ure9s4tchfield4ven7er7s6r5ner3oggin8s5ham4lling4tten4unging3ubber8s6ing6y4ffy4ple7s4ton5ton8\'s2si2uba3dder7\'s3ffle7d7s3lley7\'s5in6on5y4pted6ing6or8s6ure9d9s3mbag7s3pper7s3rdall5ell4lock4ried5y3ttle7d2ylla1eabaugh4each5d5e6s5rg6t4oard5ld6t5rn7e4right5ook8\'s8s4urg3co5ast3der4rift3first4ood7s5rd4ront3ga5l5te7\'s4er4le4o4ram7\'s7s6ve8s5en5ove8s4ull7\'s7s3hawk7s4olm3land7\'s6t7s4er5y6\'s4ift5ng4ock4test4y3man6\'s6s4en6\'s4less4on6s4ster6ress4us4y3nang7s4ce4or3port7s3quest5ist3rcher8s7s6ing6light9hts5y4foss4ight5ng4s\'s5on3shell8s5ore4ick5de4on6\'s6ed6s4trand6om3tbelt8s4ed5r4ing7s4o5n4rain3ver6s5y3ward5y4eed7s5ll4olf7\'s4right2bald3by3ek4r5t3i3o4ld3ree4ing2cede3hler3kel4ler4man3lude3o4m4nd6\'s6s4r5d6\'s4y3ret6\'s6e6s3teur4ion7\'s7ed7s4or6\'s6s3ure6d6s2da4m4n5s4te6s3co3don3er3gewick4ley4wick3lack5k5r4er4ock3or3uce6d4m5s3wick2ebach4eck5r4old3ded4ing4ling8s4orf4pod4sman4y3feld7t3gars4er6s6t3ing3kamp4er6\'s6s4ing6s4onk3lbach4ert5y4ig6\'s5ng4man4y5e3ma5n6n4ing3page4ing3ry3saw6ed3thing4in4on3ver6s3wald2fcik3ton2ga4\'s4l5l4r5s3el4r5s3ler3ment7\'s7s3ner3o3uin4r3way6s2her3nert3orn2ibel5r6t4old4u3del6l5n5r6s4l5er4man7\'s4ner3er3fer6t4fert3gal4el5r4le3ji3ki4o3ler3nfeld8\'s3pel4le3ser4mic3ta4el5r4her4man4ter3vert3wert3xas3yu3zes4ing4ure7s2ki3o4\'s2la4s3berg4y3chow3da5ne4en5rs4in4om5n3ect6s4ne4s4y3fie6s5sh4less4ridge3ie5s4g4n3juk3kin5rk7\'s3la5nd5rds6s4eck5n5r6\'s6s5y4ick5er5n6g7s4man4ner4off7s5n5ut7s3ma5n4er4on3ner3sor3tzer3va5ge4ey4idge5g3way4in5tz4yn3zer6\'s2ma4n5s3ber4lance3el4n3i4en4s4te3ler3mel5ns4ler3on3ple3rad5u4ow3tex2na4te6\'s3dak4er6s4ing4o3eff4se4y3ger6s3ile4or6s3kbeil4o3na4er5t6t4ott3or3sei5less5s4ing4or6\'s6s3tell7e5nce8d5r6s4man4ra6s5ies5y4y2o3w4\'s2phlon7\'s3ich4k3pi3sis3ta4er4ic2qua5\'s4el6s5nce6t4in6ed6s2ra4w3baine4in4ska3co3da3ene4x3fass4in4ling3geant8s5i5nt5y4i5o5us3ies3le4in6g4o3mon6s3na3pa5s4ent7\'s7s3ra5\'s5o5te4es3tich3um3vaas5is5m5n6t7s4er6s4ice7d5le5n6g7s5s6s4o2sdaq3e3it3kar6\'s3no5\'s3sa4ion7\'s7s4ler4oms4ums3tak2tback7s3her4i4ness3i3liff3o4n3ser3ter6s4ing7s4le6d6rs6s4su4y3up5s3zer4ler2ubert3fert2vcik3e4n5\'s5s5th7s4r5al5e6d5n6s5s5t4y3ick4er4lle4n3y2wage4ld5l4rd6\'s3ell4r5s3ing2xes3ist3less3son3tet4ing4on4us3y2ybert4old3chelles3del4oux3er3farth4ert3i3ler4ler3more5ur7\'s1fernice4ra2orza2uzzi1gt1haanxi3bad5zz4by4er3ckett5le7d7s7tt3dbush4den5ix5ock5uck4ed5gg5l5r4id5ng7s4le6y4oan5w6ed6s4rick4ur4well5ick4y3efer5fer4r3fer4fer5ner4ran4ted5ing3gging5y3han5r6\'s4eed6n4in4rokh5zad3iken3ka4edown9s5n5out5r6s5speare9re\'s5up7s4ing5r4lee4ur4y3ler5v4i4lcross5ow4nev4om3man6s5s4baugh5le7s7y6in5o5urg4eful5l6ess6le4ing5r6\'s4mond4pine5oo7ed7s4rock8\'s4u5s3na4dling5ong5wick9\'s5y4er4ghai8\'s5kun5ri4holtz4kar5el6n6r5land6e7s6in5man4ley4na5on7\'s4sev4ti6es5y3peless6y4ing4ley4pell3quille3ra5a5r4ber4ecrop5ll5r5ware4fman4i5f5ng4key5ing5like4la5een6ne5ine5ow4ma6\'s6n4on6\'s4pen7ed7s6r6st5ie7s5les8s7y6y5nack6ess5ton5y6\'s4rar5er6tt5ock6n6w5y4tzer4um4yl3shlik4ta6\'s5een3tkin4ley4man4ner4rov4ter7ed7s5uck4zer3uger4lis4na3ven5r6s4ing7s4ord3wcross4go4han4ler6y4mut7\'s4na5ee5ut4shank4ver3ykin7\'s2chedrin2eaffer4han4ley5y4rer5in7g5man5on6use5son8\'s4thbill9ls6ing3ba4ek3ckler3dden5ing4lock4rick3eder5y4han7\'s5y4la6h5en6r6y5y4na4pish5skin4ran7\'s5er5in4sley4ting3ffer6y5ield5ler4tel7\'s3gog3han6e4orn3ikdom8s4la6\'s6h4nberg3kel6s3lburne5y6\'s4dahl5en5on4ev5y4hah4ia5ne4lac7k8ed5er6y7\'s5fish5horn5ing8s5man5shock9ked5y4man4nutt4or4stad4ter7ed7s5on7\'s4ving3ma4well3na4eman4ice4ker5man4ton4yang4zhen3pard7\'s4erd4hard5eard6rd8\'s8s4ler6y4pard8\'s8s5er7d5y3rak5rd4bert6t5orne6urn9e5urn8e4ee5r4fey5ield4i5ck5ff7\'s7s5n4ley5in5ock8\'s5und4man7\'s5er4noff4od4rard5ell6r5gold5i6\'s6ck6e6ff6ll6n6t7t5od6n6w5y6\'s4tzer4va4win5ood8\'s4yl3tland5er6y4ter3vlin4tl3ward4chuk4ell4make2ia4h4s3bley3coff3ela5ded6ing4r3ffer5ler7t8t5man4let7t4rin4ted6r5ing5less5y3gley3han3ina4te6s3ley4ler5ing8s4oh3ma4bun4ek5l5r4ko5us4mel6r7ed7s5in5y4on6e3nall5ult4bein5one4dig5le7r8\'s5ou4er4gle7r7s4ing4kle5o4ners5ick4ri4sei5ky4to4wa4y3ong3pboard4lett6y5oad8s4man6te8s5ent8s4pee6r7\'s7s6y5ing5y4shape4ton4wash5reck6ight9ts4yard8\'s8s3ra5h4ell7e5r5y4in4key5ing4lee7n6ne6y7\'s5ie4one4rell4ted5ing5sleeve3ssler3thead5ole4load4storm4ting5y3va4ely5r6ed6s4ley2lenker2moozer6ing3yrev2ober6g6t3cker6y5ing5ley5wave9s3ddy3ebox4horn8ed4lace4make6te4print9s4shine5tring3ffner4ner3gren4un3hat3ji3khin4o3lar4em4ly4tis5o3mo3na4ey6\'s4ka3ofly4pman4shan4tdown5er7\'s7s5ing8s5out8s3pko6rn4lift8s4per7\'s7s5ing8\'s4taw4well5orn3rebird5ham5line5ward5y4in6g4key4tage6ll5cake6hange9ged6rust6ut8s5ed6ll6n7ed7s6r7\'s6st5fall9s5grass5hair9ed7nd5ing5lived6y5ness5ridge5stop5term5wave5y5z\'s3stak3tgun7s4well3ugang4ld\'ve6er8ed8s6n\'t5i4ted5ing3val4el6ed6ing6s5r4ing4lin3wa4biz5oat8\'s5uzz4case8d4down8s4ell5r6ed6s4girl8s4ing7s4man4piece5lace4room8s4scan4time8\'s4y2rader4mek4pnel3edded7r8s6ing4ffler4iber5ner4veport4wdest6ly6ness3iber5man4der4eking4kant5elike4mper8s4ner7s5kage6ing4vel7ed6r3opshire4uded6ing4yer3ubby5like4gging4nken3yock2tyrov2uart3bert4in3chman8\'s4king3da4der7ed7s3ey3felt4field5le7d7s6ing4ord4ro3gars6t4hart4rue3i3kla4ri3la5r4er4man4tis5z\'s3make5n5rd5te4eet5r4pert4sky4way3nning4ted5ing5o3pert4ing3rgard4ley4tleff6iff3ster3tdown8s4out4ter7ed7s5ing5le7\'s7d7s3wa5\'s2ying3jan3lock4y3ness3ster7s1iad3m3n2bbie4y3elle4rt3il5le3le5y4ing7s3son3yl5l2ca4rd3hel4uan3kel6s5n6ed5r5st4le6r6s5y4man4ness3otte2dak3dall4ell5n6s4ig4le4ons3earm7s4bar7s4d4k5ick4line8d8s5l4man4r5s4show8s5tep8ped8s6ream4track9ed4walk8s6ys5ise4y3graph3hu3i4ng3le5d5s5y3man3ney3on4r3ra3well2ebel6s5n5r6s6t4old4recht3cle3dschlag3fert7\'s4ken6r3gal5n6\'s4ecraft5l6\'s6l5r6t5s4fried4le6r4man7n5und4rist3ja3kman3laff4er4ing4off4ski3mel5ns7\'s5r6s4on4sen3se3ver6s6t4ing3wert2fco3ers3ford3ted4ing2gal3el3gers4ins3hing4ted5ing8s5see3l4e5y4in3ma5n4oid5n4und3na5ge5l6\'s6ed6led6s4er6s5t4ing7s4or4post8s3rid5st3ur5d3wald2khism3lie2las3baugh4er6g6t3cott5x3ence7d5t4r4x3fies3ga3ken5y4wood6rm8s4y3ler4man4y3man4on3o4s3sbee5y3tec3va5\'s5r5s4er6\'s6s5y4i5e5s3wan2ma4rd4s3ba5\'s3cha4o5e5x3ek4r4x3i4ch4en3kin6s4o3mer6ed6s6t4on6\'s6ds6s3o4es4n5\'s5ds5e6\'s5s3per4kins4le6sse7t6x5ot5y4son7\'s7s3son2nai4r4y3bad3cere4lair3eath4r3ful3gel5r6\'s6s4ing4laub5e6d6s6y5y3ha3ise3ker4field4hole6rn4ing4ler4o3ner6s5tt4ing4ott3o4r3sel3ton3uous4s3yard2obhan2pa3hon6ed6s3le3os3pel4ing4le2rcy3e4k4n5s3han3i4s3kin4o3man6s4on6s3na3ois4n3ri2sco5e3emore3ka4el6\'s4in6d4o3ley3ney3on3sel4ie4om5n4y3tek5r6\'s6s4i5ne4o4runk2tar5s3com6s3ed4k3ing3ka4o3mar3o4\'s3rick3ter6s4ig5ng4ler4ner4on3us3zer5s4man7n2u2vak3er3ils3ley3y2wek2x\'s3er5s4s3fold3teen7\'s7s7th9s4ies4y5\'s2zeler5ove4more4r4s3ing3zle6d6r7s5in1joberg4lom3din3gren3quist3strom1kadden3la4la4ski6y3nska3rda3teboard5d5r6s4ing2eeter7s3han3lley5y4ter5on3nder3och3ptic7s3rdal4ry3tchbook9ks6es6ing6y3wer6ed6s4ing2iba4o3dded5ing4gel4more3ers3ing3llen6rn6t5ful5in7g8s5man4ton3mmer7s5ing4ping5y3nflint4head8s4less4ner7\'s5y3pjack8\'s8s4pa6\'s5er7\'s7s5ing5y4ton4with5orth3rdall4mish4ted5ing4vin3ttish5le7s3ver2lenar2oda3gen4lund3kie3ler4nick6k7s3pje3ra3usen3wron2ramstad3ocki2udra3fca3lking4lcap8s3ra4dal4ka2ybox3cap3dive4ome3hawk7s4igh3lark7s5wn4ight8s5ne7s5te7s3net3tel3ward5ve5y4est1labaugh4y3cken7ed7s6r7s5ness3dek4ky3gel5r4ging4le4ter3lom3ma4mer5ing3nder7ed7s4ey4kard4ted5ing3pdash4pey5ing4stick3sher6s5ing3ted5n5r6\'s6s4her7ed7s4ing4kin4on4ten6r5on3ughter9ed9s4son3va4en6s4ic6k5k5n5sh3wson3yback6ugh4den5on4er4ing7s4ter5on2easman4tor4zy3chta3dding3eker6st5ly4man4per7s5ing5less5walk6ear5y4ter4veless3ipner3mmer3nder3tten3uthing3ven4in3zak2icer5s4ing4ker7s6st5ly3der4ing3fer4ka5o3gar4er4hted7st6ing6ly3ker3mak4mer6st5ing4y3ney4ger5ing5shot9s4kard5er5y3ppage5er7s5ing4shod3ter4her4ting3va4er6s4ka3wa2obber3can6\'s4omb4um6b3gan6s4ging3kum3ma5n4ski3per4ing4py3shing3ta4nick4ted5ing3uches6ing3vak6s4ene7s5r4o3wdown8s4er5st5y4ik5ng4ly4ness4poke2uder4gy3ga4fest4ger7s5ing6sh3icing4ter3ka3mber4ping3pic3rring5y3sher4ser3tsky4ty4zky3yter2yly3ness3ter1maby3cking3ldone4lcap5en6r6st6y5ing6sh5man5ness5pox5ridge5talk6own5wood3rmy4tass5card5ed6n7ed6r6st5ies6ng6sh5ly5ness5phone9es5y3sher6s5ing3ther7s4ter2earing3by3dberg4ley3eting3jkal3lcer4ley5ing5y4ser4ter7\'s7s5ing5zer3stad3thers5urst4zer2iddy4gen3gel4iel3ley4gis4ie5ng4lie4ow3rking4noff6v3sek3thburg5ee6r7s6y5field5hart5kline9e\'s5son8\'s5town5wick4ley4ten5le5y2oggy3keless5r6\'s6s5screen6tack9ks5y4ing7\'s4y3la5k4der4en6sk5y4ik5n4ka3oches4then8s7r7st6ing6ly6ness3shes5ing3ther7ed7s4rich3yer2rekar2ucker3ggle7d7r8\'s8s6ing4ly4ness3llen3rfit3tty2yers3lie4y3rna3ser1nabel3ckbar5ing5well9\'s9s3der3fu5s3gger7s5ing3kebite9s5like4ing3pchat4per5ing5le7\'s7s5y4shot8s3ring4led5ing4ski3tcher8s7s6ing3vely3zzy2eaker7s5ing5y4ry3cma3dden5on3ering4zes5ing3ider3lgrove4len6r5grove5ing8s4son3then2ia3cker7ed7s3der4ow3ffen6r5ing5le7r7s6ing5y4ter7s3per6\'s6s4ing4pet7s3tching4ker4zer3vely2obbish5y3ddy4grass3oker7ed4ping5y4ty4zing3rer6s4ing4kel4ted6r7s5ing3tty3uffer3ver3wball8\'s8ed8s5ird8s5oard9s6und4den5on4fall8s5lake9s4ing4man4plow8s4shoe8s5torm9s4y2ubbing3ffer5ing3gging5le7d4ly2yder6\'s1oady3ker4ing3pbox4y3res4ing2bbing3czak5yk3eck4k4l4r5ed5s4y3iech4l5\'s5s4n3le3ol4n2cal5led3cer6\'s4i3ha4et4i4or3ia5l3ket6s4ing4well3o4\'s4l2da4\'s4s3den5rs3en4r3om3us2eder2fa4er4s3er5\'s3fel5r4it3ie3tball8s6nk4drink4ech5n6ed6s5r5st4key4ly4ness4soap4ware8\'s5ood2gang3gy3o2hmer3o2ifer4fer3leau3ree3sson2ja3ka3ourn2kol2la4ce4k4n5d4r5z3berg3dan4er4ier7\'s7s4ner4o3edad4il4m5n4r4sbee4y3heim3i4d5s4e4n4s4z3lars4er6s5y4ie5sh4y3o4ff4n4s4w3stice3tau4esz4i5s4ys3um4te6s3vay4ent7s5r6s4ig5ng3win6\'s2ma3ber3eday4how4one7\'s4place4r5s4sh4thing9\'s9s5ime8s4what6ere9s3ma4er6s2nar4t3chez3dag4heim8\'s4ra3et4x3gbird8s5ook8s4er4y3i4a4c5s3ja4i3nen5r5t6s6t4tag4y5\'s3rise3tag3um3y4\'s4a2ohoo3ner6\'s6s5st4yi6\'s3ted5r4hing4y3y2per3her4ie6\'s4omore9s4y3ko3ping4y2quip2rber5t4o5nne4us3cha4i3did3el5l5y4y3gen4hum3ice4n3kin4ow3lie3os3rel6l7\'s7s6s4ow6s4y3ted5r6s4ie6s5ng4or3um4s2sa3hi3in3kin3na4off7\'s2tak3er3o3ti5le2uccar4ek4ie4y3der6s3ers3ffle3kup3lful4jah4less3ndbite9s5ed6r6st5ing8s5ly5ness5scan5track9ks5view3py3r4by4ce\'s6book6s5ing4ed4is4s3sa5\'s4ley3tar4er4hall6m6rd5bound5down9\'s5east9\'s6r7n8\'s7s5field5gate5in5land9\'s6ife5mark9\'s5old5paw6ort5side6tate5wall7rd7y6ell7st9\'s6ick6ood7rth4o3za5s2va3ereign9s4y3ine3ran6\'s6s2wa4rd6s4sh3den5r6s3ell4r5s3ing2x\'s2ya4rs3bean7s3ka3sauce3uz2za1paceball9s7nd9s5craft9t\'s5hab5k5link5net5port9s5r6s5s6hip9s6uit9s5walk9s5x5y4ial5ng5ous4kle5man3da4er5work4y3fford3gna4o3inhour3lding4ink4la5one4vins3mming3ndex4gle7d4iard8s5el6r5ol5sh4king5y4ner5ing4o5s4ton3rger5o5ur4ing4king5le7d7s6ing6y5man5y4lin7g4ring5ow7s4sely4ta6n7s5ech3sm5s4so4tic3tial4ter7ed7s3ulding3vo3wning3zes2eagle4ker7\'s7s6s\'s5ing5man4rhead5ing5man3cial7\'s7s5es5ous4ker5le7d5man4ter7\'s5hrie5or5ra7\'s7l7med7n6e6um8\'s8s3eches6less4dboat9s5ed6r7s5ing5ring5skate5up5way5y4gle4lman3gal3har3icher4del4er4gner4ser3ktr6\'s3llbound5er7s5ing8\'s8s5man8\'s4man4unk7ed7s3ncer7\'s7s4der7s5ing5ley6ove5thrift4ner4o4ser7\'s7s3ra4beck6r4lich6ng4o5s4rfrist5y3ssard3thmann4snaz3vak3wing3yer2heroid3incter9s2iceland5r5s5y4her4ing4kard5ler4y3del6l5r6s4le3egel5ler4ker4lberg9\'s5er5man8n4r5s4wak3ffing5y3gner4ot6s3ker4ing4y3lker4lage6ne5er7s5ing5man5way4man3na5ch5l4del5le4eless4fizz4ks\'s4ner7\'s7s6y5ing4o5ff7s4ster4y3ra5l6ed6s4it6\'s6s4o5\'s5s3sak3tball8\'s4eful4ler4ting5le7r4zer5ley3va5ck5k4ey3wak2lashes6ing6y4tter8ed8s3eisson4ndid6or5ic3ices5hal5ing4nter8ed8s4tter6ing3urges6ing2oarer3den3elstra3fford3gli3ilage5er7s5ing3kane4en5sman7en3mer3ngebob6form6s5y4sel5or7\'s7ed7s3ofing4ky4nemore6r5ful8s3rer4kin7\'s4ophyte9es4rer4ted5ing5sbar6club6man7en6ter6wear5y3tless5ight9s4o4ted6r7s5ing5y3usal5e\'s6s4ted5ing2radley6in8g4ggins4ining4ker4nger5kle4tley6in8g4wling4yer7s5ing3eader6ing6sheet9ets4cher5kels4eman4itzer4nger5kle3ightly4ngboard8rn6dale6er6field9ld\'s6ing6man6stead9en9en\'s8on6time5kel6le8d8r9s8s7ing5ted7r8s6ing4zzo3ocket4gus4uted6ing4wle3ucing4nger2uhler3nky3rdle4geon5in4lin7g5ock4ning4ring4ted5ing3tnik7s4ter7ed7s4um2yglass3ing3ker3ware1quabble8d8s4dron8s4lid5or4mous4nder8ed8s4rely5ing4shing6y4tter8s6ing6y4wking3eaker8s6ing6y5ling5mish4egee5zes6ing4lching3ier6s4ggle8s4llace4nting4res5ming5rel8ed8s5ted6ing4shy1r2ader3mek2dan2emac2iram2oka2pska1s2angyong1tabbing8s4ile4le6s6y3cey4hnik4ia5e4ker5house5ing5pole4y3del5r4ler4nik3ebell5ler3ffa5er7s5ing5ord8\'s3gecoach6raft5hand9s5r5s4flate4ger7ed7s4ing4nant6te5er3hlberg5e6r6y5hut5man5y4mer3i4ger4ley4nback6rook5ing5less4rcase5way8s6ell9s3keout8s5r4ing3lag4cup4der4emate5y6\'s4in6\'s4ker7s5ing5y4lard5cup5er5ing8s6on8s5kamp5man5one8\'s5smith5worth4off5n4ter4vey4wart8s4zer3mand6t5s4baugh5erg4er5y4ford4ler4men6r4os5ur4pede6r5fli5ing8s5ley3nard4back5ic5rough4ces5hfield6ing5ik6l7l5liff5o5zak6yk4da6rd8\'s8s5by7s5en6r6x5field5ing8s6sh5lee7y5off8s6ut8s5point9ts5re6idge5still5up4ek4field6ll5ord8\'s7th4ga5el6r5l6and6e5o4hope4ich5s6h4key5o5us4leigh6y7\'s5ine5y4more4nard5ie4o4phill4sel7l5field5ky4ton4way5ick5ood4za6s3pel4le6d6s6y3rbird5oard9s5uck8\'s8s4cher7s6like6y5kmann5raft6oss4del6nt5om5ust4er4fish5leet9\'s4gate8s4in6g4kel6r7s6y5ist5ly5man5ness4let7s5ight6ke6n7g6t4man5er4ner4on4plex5ointe4rett5ing5y4ship5ight5tream7uck4ted6r7s5ing5le7d7s6ing5up7s4ving4walt6ve4y4zyk3shing4i5k4ko4ney5y4sen5i4tny4zak3tecraft5d5hood7use5less6y5ment9\'s9s5n5r6\'s6s5side6man9\'s7en6west5wide4ham5is4ic6s5n6\'s6g6s5on7\'s7ed7s5st7s4ler4oil5n4tin5on4ue6s5m5re5s5te7\'s7s4zer3uber5in4der4ffer8\'s4nchest7ly5ton4ter3vely5r4ing4ros3wski3yer4ing4ner4ton2eadfast5ham5ied5man5y4gall5le4khouse5ley4ler6y5ing5thies7y4mboat9s5er7s5ing5ship5y4ric5man5ns\'s3bbins4er4ner3cher5ler5schulte4kel6r5lein7r7y5man3dman3eber4dley5man4go4lcase5er7s6y5head5man5works5y4nkamp6iste5rod5sma6on4pened6r6st5le7s6y5ness4ring4ton4ver3fa5n4fan5ek6l6n7s6y5i6e5ler5y4ko4l3gall5r6\'s4eman8n6eier5r4man7n4ner3hle5ik6n7g4man3ichen4del5l6e5tmann4er4ger4man5el6r5le4nbach8k7ugh6eck9\'s7rg9\'s6ock7rn6rink5em6r7\'s7t5feld9t5gut5hardt9t\'s8t7us6off7rst5kamp6raus9ss5le5man8n6etz5roe5way8\'s3jskal3kly3lco4la6\'s6r5er5horn5ing5jes5mach7n5o5y4mach7k4off4ter4zer5ner3mberg5ridge4en4ler5ike4mer5ing5ler4pel7\'s6r5ien5le7r8\'s5osts3na4berg4cel5il7ed4dal5er5hal5ig4gel6r5lein4holm6use4ner6tt5is4o4quist4seth5land5on5rud5trom4tor7s4y4zel3pan4child4ha6n7e7s5en7\'s7s4ka4mom4ney4pel6r7s5ing4son4toe3rba5enz4chi4ett7\'s4ile4kel4le5ing8\'s4man5er4nbach6erg5em6r6st5feld5ly5ness5post9s4oid7s4rett5y3them4ler4son4ter5ler5ner4zel6r3uart4ben6r4er4rer4ver3ven6\'s6s5r4ick5e3ward7s6t7\'s4ing3yer2ibel3cha5noth5ter4ka5ball5el7s6r7s5ing5land6e7s7y5ney5tight9ts5y3dham3ebel6r4fel4gler6itz4r5s5walt3fel4fel6n7ed7s6r6st5ler6y5ness4le6d6r6s5ing4ter3gall4er6s4ler5itz4ma3ka3llborn5er7\'s6y5ings6on5man5ness5son5well9\'s4son4ted5ner5on4well3mac4mel4pert5son5y4son3nar4chcomb6field4el6\'s5man5r4ger7s5ing5ley5y4kbug8s5ers5ing5y4nett8e4son3pend7s3rewalt4ling8\'s4ring8s5up7s3tches6ing4eler6y4zel6r3ver6s2john2obaugh4er4ie3ckade8\'s8s6rd5bridge5dale9\'s5el6r7t6tt5ford5ham6olm9\'s5ing8s5ley5man8\'s5pile9d9s5room5sdale6till5ton5well5y6ard9s4um3ddard8\'s4ghill5y3eber4ckel7r6le8in4ger4lting4rmer4ssel3fer4fel7s6r7s4ko3ga4dill4ie6s4ner4sdill3hler3ia4ber4c5s3kely5r6s4ing4ley3lar6z4berg4en5r4fi4id4lar5en6r6y5ings4per4tman5zfus6man3ma5ch7s4baugh4ping3neback6erg5ham6enge6ill6ouse5king5man5r6idge6ock5street5wall9ed7re5y4ing4y3oges4key4ping3pa4gap4her4ka4light9s4page5el6r7s5ing4watch3ra5\'s5ge4beck4dahl4efront9ts5house5r6\'s6oom5y4fer4ie6d6s5ng4lie4ment6r5ing5ont5y4row4ti6ng4y5\'s3ssel7\'s3tler3uder4ffer4ghton4tly5ness3vall4er3well5r6s4ing3yer2rachan4da5dle8d8s7ing5er5ford5ley6ing4fing4ggle8d8r9s4han5le7r4ightedge9n9ned9ns9r5ning4ka5er4ley4ndberg6ed6ing6line9es5gelove8y7ness7r8\'s8s7st6is6le8d8r6wayes5o5sky4pping4sberg6ourg6urg5sburg6er6man6ner5zheim4ta6s5er5ford5hman5man8n5ton5um6s4ughan7ter5sbaugh6er6s\'s7er4wbridge5der5ser4yer5horn5ing3eaker6ing5mer8s6ing6line9ed5ter4beck6l4cker4eper5tcar6er8s6man6wise6y4hlow4iber5cher5ker5sand9\'s4low4nger6then9ned9ns4sses6ful6ing6or8s4tcher9s8s7ing5to4vig3icken7r6land7er7in9g5ter7st6ly6ure9s4dent6r5ing4eber5gel5ker8\'s5ter4keout9s6r7\'s7s5ing4mple4nden5gent7r8s6field6ham6ing6y4per7s5lin8g5per8s6ing5tease4ven5ing8s3nad3obel7\'s6r5l6e5ridge4der4ebel5ssner4hman4jny4king4ller8s6ing6o4ma6in6n5beck7rg5er5gren5men5quist4nach5ger7st6hold9ds6ly6man4schein5sen4ther8s6man3ubel5le4chen5kman5ture9\'s9d9s4del4ebing4ggle8\'s8d8s4mming4thers5ting6on3ycharz6nine4ker2uard5t6\'s6s3bbins5le5orn5y4er3cco6ed4hell4ker7t6y5i5man5y3ddard5ed4eman5nt7\'s7s5r4ied6s4ley4still4tgard4y5\'s3eber3ffer5ing5y3hler3ka4el5y3ller3mbaugh5le7d7s5o4page5er5ing5o3nner5ing4ted3pa5k5r5y4id4ka4or4ski3rbridge4dhal5y4gell6on8s6s7s5ill6s4kie4man7s5er4rock4za3tesman5ville4heit4ler4ner4sman4ter7s5gart4zman3ver2yer5s3ling5sh6t7s5tes5ze7d4us3mie6d6s3rene4on1uard4ez3sion3zo2ba3bing3due6d3er3group8s3hlok3ic3ject7\'s7s3lease5t6t4ime3merge8d6se8d4it6s3par4lot7s3ra3s\'s4cribe9d9s4et6s4ide7s5st4oil4pace4tance5rate9s3text4le4ract4ype3urb6\'s6s3vert7s3way6\'s6s2cceed7s5ss4inct4or4umb7ed7s3han5rd4er4y3ker6ed6s4ing4le5ing4ow4row3re4ose3tion2da4n5\'s3beck3dam6\'s5rth5th4en5rth5th4reth4uth3er3ol2eker3y3z2ffer6ed6n6s4ice7d5eld8\'s5x4olk4rage4use7d2gar5\'s5ed5s3den3gest7s3rue2hler3ua4d2i3ng3sse\'s3tcase4ed5r4ing4or6\'s6s2key3i3ru3up2lak3cer3ek3fa5te4ide5te7s4ur3grave3ik3king3len6s4ie6d5ns4o4y3phate8s5ur3ser3tan6\'s6s4on4ry3ya3zbach4er2ma4c4n3gait3ler4in3ma5r4corp4er6\'s6s5y4ing5t6\'s6s6t4on6ed6s7ed5r\'s4um4y3ner6s3o3pter5uous3rall4ell4ow3ter2nau3bath7e4eam7\'s5lt7\'s4ird7s4urn7ed3coast5ok5r3dae6\'s5hl5i5nce5r5y6\'s6s4berg5y4een5ll5r5ws4heim4ial5n4lun4own4quist4ry4strand7om4y3fire5sh3gard7\'s4lass4roup3i4l3ken4ist3land4ight5t6e3ni5ng5s4y3point3rise4oof6m3screen9s4et6s4hine8\'s4pot7s4tar6te8s4weet8\'s3tan4er4rust8\'s3up3ward4orld8\'s3y2on2pak4n3er5b5s3ine3pa4er6s4lant8s5e6e5ied7s5y6\'s4ort7s5se7d4ress8ed3ra4eme7s2ra4t5\'s3baugh4er3cease4harge3ely4n4r4sh5t4tte3face7d4board9s4eit5r6s4ing3geon7\'s7s5s4ing3les4y3ma5n4ise7d4ount3name7s3pass7ed4lus4rise8d3ratt4eal5ll5tt7e5y4ound8s4y3tax3veil5y6\'s6ed6s4ive7d7s2sa4n5\'s5n6e3ette3hi3i4e5\'s3ki5nd4o3man3ong3pect7\'s7s5nd7s6se3ser5x4kind4man4wein3tain7ed7s3y2tcliff8e3er3fin3hard4er6s3ley4iff3ner4ick3o4r3phen5in3ro5\'s3ter4le6s4meier4on6\'s3ure6d6s2va2ydam2zanne3ette3hou3ie3man3y4\'s1vehla3ndsen4ska5on5son3rdlovsk4ige3tlik2itak2oray2p1waby3der4ley3fford3ger4gart5er3inston3lley5ow7ed7s3mi4per7s5ing5y3nberg4da5er4ee5r5y4ger5o4ky4ner4son5trom4tek5on4zy3po5\'s4ping3rming4ner4thmore6out6y5ley5out5wood7ut5zbaugh3sey3tches6ing4ek4ow4ted4zell3uger3vely3ying3zi2eaney5y4ring4ted6r7s5ing5man5pants5shirt9ts7op9s6uit5y4zy3cker3da4berg4en6\'s4ish4lund3eden4ney5y4per7s5ing5stake9es4ten7ed7s6r6st5heart9ts5ie6ng5land6y5man5ness5on5ser4zey5y3ger3hla3igard7t5ert4tzer3lling4ter7ed7s5ry3ndsen4et5y4sen7\'s5on3rdlow4gold4ling3tland4nam3zey2ickard3der3er3fter6st5ly5ness3gart4er6t4gum3hart3lley5ing3mmer7s5ing4suit8s4wear3nburne\'s9s4dall5ell5le7d7rs7s6ing4ehart5y4ford4ger7s5ing5le7y4ney4son4ton3ping3rling4sky3sher6s4sair5helm4tak3taj4chblade9des7oard9rds6er8s7s6ing4zer3vel6ed6s2offord3gger3llen3nger3oning4ping3rdfish5like5play9s3veland3yer2yers3gert3to1ybase3ert3il5le3ron2dell4rs3ney6\'s4or3ow2ers2fert2gma2ler3la3mar3phide3va5in5n4est4ie5te2mbol6\'s6s3monds3on5ds5s3pson4tom7s3tron2na4n4pse4r3chro4om5r3der4rich5ome8s3gman3horst3nott3od5\'s3tax4ech5x4rex2pher6s4on3olt2rek3ing6e3on3up5s2sco5n6\'s3tem6\'s6s4ran2tsma1zabo3fran3lay3nto3rek2czerba5sny4ygiel2ekely3to3wczyk2ilard2ostak5ek2uba3mski2ymczak0tabak4r3bert4ing4y3er3le5\'s5au7x5d5s5t6s4oid7s3one4o5s4r5\'s5n3ron2cey3it3ker5tt4ing5tt4le6d6s5ing4y3o4s3tful4ic6s5le4less3y2da3dei4y3ic3lock3pole7s3ros3ych2egu3woo2fel3fel4y2ger3gart7\'s4ert4ing3le4ine3out2her3oe2ibi3ko3lgate4hook4ing7s4lon4or6ed6s4pipe4spin3ma3ner4g4ted6r5ing3pei6\'s3sei4ho3wan6\'s3yo2jik2kach5s3ecare4i4n4off7s5ut4r5s4th3i4\'s4ng6s3u2lal3bert4ot6\'s6s6t7\'s3cott4um3ent6s4se3ford3kback4er6s4ie6s5n6g7\'s4y3lant4ent5r5st5y4grass4ie6d6s5l4madge6n4o5n5w4y3madge5ge5n4or4ud3on5s3sma3ton5s4y2ma4s3blyn4o4rands3er4z3i4l5s4ng3ke3men4ie4o4y3pa5\'s5x4er6ed4ing4lin4on6s3raz4es2ndem6\'s4on5or4y5\'s3en4y3geman5n6t7s5r4iers4le6d6s5ing4ney4o5s4qui4uay3i4a4s3jug3kan5rd4er6s4ing4sley3nen5r5st5y4ing3sey4ki4u4y3ton4ric5um7s3u3ya3zer4i2oiseach9\'s5t6s2pas3er5ed5s3ie4ng6s3ley4in3pan4en5r5t4in6g3scott2ra4\'s4s3bell5rt5t4ox3dif6f4y3get6\'s6s3heel7s3iff6s4n4q3leton4ow4ton3mac6s5n3nish7ed4off7\'s5w3o4m4t5s3pey4ley4on4y3rance6t4ing4y3ses4us3tan5r6s4er4ly4ness4u3ver4in3zan6\'s2sca4hner3er3ha4in4kent3ker4force4ing3m4an3sel6ed4i5n4o3ted5ful5less5r6\'s6s4ing7s4y2ta4r5s3em4r5s3ham3lock3man3om3ra4o3ter6ed6s4le6d6r4oo6ed6s4y3u4m2uber6t4man3cher3er3lbee3nted5ing5on3rus3scher4sig3zin2vel4rn6s3ie4s5h5t3lin3y2wdry3fiq3il3ney4y2x\'s3cut3er5s4s3i4\'s4ed4ng4s3ol2yler4oe5r6\'s6s3man1b1churuk1eacher7\'s7s6s6y5ing8s5out4up3ford3gle3han3kamp4wood3mer4ing4mate8s4ster8\'s8s4work3neck5y3pot3rful4ing4le4y3sdale4er5s4ing4ley4on4poon8s4ter3te5r4ro2bben5tts4it3eau3o2chcrunch4ie6s5nt4nic7s6que9s5o4y3la3o4s2dder4ie4y5\'s3ford3man4ond4und3rick4ow2ehan3ing3ley4ing3ming3na5ge7d4ie4sy4y3ple6s3ter6\'s6ed6s4hing2flon3ra2han3ran6\'s6s2icher7t5man8n5olz3gen3tel6l2jan4s3on2lco3e4x5ed3fair4er4or6d5ur3it3labs4ep5r6\'s6s5z4ing5s4o4tale8s4y3mex3os3source4tar5ra3tschik3xon6\'s3zrow2mblor7s3co3kin3pe5l5r6ate6ed6s5st4lar7s6te8s5e6\'s6s6t5in4o5re5s4ted5ing5ress2na4nt6\'s6s3brink3cza3ded5r6ed6s4ing4ler4on6s3er4t5s4yck3fold3giz3nant4care8\'s4ell5nt5r5y4is4y3or5e5s3pas3recs3sely4ile5on7s4or6s3ting3ure6d6s3zer2o2per3id3ly3per2ran3bush3cel3ence4se4x3haar4orst4une3i3kel4horn3man4eer5r6s4ine6g5te7s3pstra3ra5\'s5ce7d5in7s5l5nce4e5l6l5nce4i5e5le6l5s4ones5r6s4y5\'s3sely5ness3tia3vo2sar3chner4o3ka3la4ik3ol3sa4ick5e4ler4man5er4y3ta4ed5r6s5s4ing4on5r4rake4y2ta3er5s3her6ed6s3i3ley4ow3on5s3ra5ds5ult4eault4ick4o3zlaff5off2uber4ner3fel3scher2va3is3lin3ye2well2xan5\'s5s4s3fi3pool3scan4tar3tbook8s4ed5r6s4ile7s5ng4or4ron7\'s4ure7d7s2zak1h2abo3cher4ker5ston3da4da4en3gard4gard3iland8\'s3kkar3ler4ia6\'s4man7n3nkful5ing5less5you4o5s3ser4sos3t\'d5ll5ve4cher8\'s8s7s3wing3xter7\'s5on7\'s3yer6\'s6s2ea4no4tric8s3beau5rge3cla3da5\'s4ford3ilen6r4rself8ves4sen5sen3kla3len4in4ma6\'s3ming4self7ves3nceforth3o4\'s4n5e4rem7s5ies5y6\'s3ra5t4e\'ll6re5by5fore5in5of6n5se5to4ien4mae6l5co5its5o6s4on5ux4rell5ien3ses4ing5s3ta4ford4is3urer3wlis2ibault4eau7lt7x5rt3cken7ed7s6r6st6t7s5head5ly5ness3ebaud4lemann6n5man4man7n4r5ry5y4sen5sen4ving3gpen3ma4ble3ngy4ker7s5in7g5pad4ly4ner6ss7t5ing3rdly4sting6y4teen8\'s8th9hs5ies5y6\'s4y4za3s\'ll4sen4tle7s3ther3vierge2oene3len3ma5n6n5s4etz4ley4men4pkins5sen6on8\'s8s4sen5on7\'s5pon4ure3ra5ld5x4bert5urn4dis4eau5ll5n4ley4man5ond5und4nberg6urg9\'s9h9h\'s9hs9s5dike9\'s9s6yke5ell6r5hill5ley5ock5ton5y4o5ugh4sell6n5on5tad6en4tec5on7\'s4up4vald3ughtful7less4sand8s8th9hs2railkill4sher7s6ing3eadbare6ed6fin6gill6ing5ten8ed8s4efold5month5some4lkeld4sher6old9s3ifty4ller8s6ing4sting4ving3oated6y4bbing4nson4ttle8d8s4ughout7put7way4wback5er7s5ing3ushes5ter8s6ing4way2ulin3ma5n6n4bing5nail4ma4per5ing3nberg4der7ed7s3rber4good4low4man5on7d8\'s4nau5er5her4ow4sby5day8\'s8s5tan6on3sfar4ly2warted6ing2yra4oid3self4sen7\'s1ia2bbals4ets6t7s4ie5ts6ts4y3er4t3i2cer3hy3ker5t6\'s6s4ing4le6d6s4ner5or3or2dal3ball4it6s3dly3ing6s3more3rick3well3y2edeman8n3in5g3ken3less3man6n3rco4nan5ey5o3szen3tjen4meyer3u2ffin3ton2gar5\'s3er5\'s5s5t3hten7ed7s6r6st5ly5ness5rope5wad3ner4or3on3rean4is2ki2lda4e5n3ey3ford3ghman3lage4er5tt5y4ie5ng5s4man5on4son4y5\'s3man3ney3son3ted4ing4on2man3ber6s4lin4re5ook3eframe4less5ine8s5y4out4piece5lex4r5s4s\'s5hare4wise4x4zone3id4ng3ken4o3len4in3mer6s4ie5ns4ons4y3on4r5\'s3pson3son3ur2na4\'s3cher4ture8s3dal6l4el6l5r4le4ol3er3gen5y4le6y3ker6\'s6ed5y4ham4le6d3ley3man3nell5y4in4on4y3o3sel4ley4man3ted4in4o5n4ype3y2pa3hook3o4ff3pen6s5r6s5t6s6t7s4ie5n6g6s5t6t4le4y5\'s3ster4word4y3toe6d5n2rade6s4ne3e4d4s4y3ing3one4s3pak3rell2sch\'s5er3dale4el6l3h\'s4er4ler4man3on3sue6s2ta4n5s3comb3hing3ian3le5d5s4ow3man3o4\'s4ne3sworth3tel5r4le4sworth3us3zer2vo2zzy1jaden1lingit1oa3lson5ter3sted6r7s5ing2back4r3en4r4y3ie4n3ruk3u3y4\'s2cci4o3queville9le\'s3zek2da4y5\'ll6s5s3dle6r7s5ing3i\'s3man3o4s2ehold3ing3nail7s4jes4sing3pfer3ws2ffee4ler3u2ga3gle6d5ing3o2ibin3let6\'s6s4ing3ty2kai4r5s5z3en5s3kin3os3yu2lan5d4r3bert3en4r3hurst3in3land7\'s4booth4er5tt5y4ing4y3man3sma4on4toy7\'s2ma4n4s3blike6n4oy4stone9s3cat4zak5yk3ei4k4r4y3ich3kin6s4o3lin3mie4y5\'s3pane4kins4son3shich4ic4on2nal3da4reau3er4y3ga5\'s3i4c5s4e5st4ght7\'s4ng4te3jes3ka5\'s4in3nage4er5sen3sil6s3ti4o5\'s5n6s3y4\'s4a5\'s4es4s5k2obin6\'s3good3hey3ker3lan4bar5ox4ey4ing4room4works3man4er5y3tal4hbrush5less6ike5man5paste9es6ick9s5y4le4sie2paz3el4te3ham3ic5s4x3knot3less4iff3ol4r3per6s4in6g7s6s4le6d6s3soil4y2rah4in4ld4n4y3beck5rt5tt3ches5ing5mark3ell4n4y3i4e5s3ley3ma4ent7s5y3ney4o5w4quist3o4k3pey4id4or3rance5s5y4ence6s6t7s5s5y5z4id4y3sion4o5s4tar5en3ti4oise4ure7d7s3u3y2sca4o3i3o3ses4ing3ti4o2ta4l5\'s5ed5led5s3ed4m5s3i4ng3man3o3ten5r4on4y3zke2uchdown9s5es6t7te5ing5stone5ton5y3gas4hen7ed7s6r6st5ie5ness3hey3louse3pee4in3rette8\'s4ing5st7s4ney7s5quist4o4ville3sey4ley4saint6ud8\'s5ie3tant4ed4ing2var4z3ey2ward6s3bin4oat3el5l5s4r5\'s5ed5s4y3hee3ing3ler5s3ner6s4house4ie4ley4sel7l6nd8\'s5folk5hend6ip8\'s8s5ley5man5on3ry3sley4on2xic5s4n5s2ya3boy3ing3ko3o4o3store8s2zer3zi1raber6t4ue3cer6s5s5y4hsel4i5e5ng4kage5ball9s5er7s5ing4or4tion5or7s4y5\'s4zyk3ded5mark9ed9s5off8s5r6\'s6s5smen4ing7\'s7s3eger3ffic7\'s5ord4ton3ger4ic4os3han4ern3iler7s5head5ing5ways4na5ee7s6r7s5ing8s5men5or4psing4ster4tor7s3jan6\'s3kas3mble4co4el6l4mel7l4ping5le7d7s6ing3nberg4ches4i4quil4sact5cend9s6o7n6ribe9ed9es8pt9ts5ect5fer8ed8red8s6ix8ed6orm9ed9s6use9d5gress9sed5ient6t7s5kei5late9s5mark6it8s5om7s6u5pac7rk6lant9ts6ort9s7se9d5tar5ue5vaal6erse5way6orld4ter5ham4um3peze4nell4per7s5ing8s6st3shes5ing5y3uger5hber5ott4ma6s4tman8n5ner5wein3vail7s4el6ed6led6s5r6s7e8d4is4nik3week4ick4ler7s3xler3yer4lor4nham5or4wick2eacy4ding5mill9s5stone5way6ell6heel4nor4son7s5ter5ure8d8s4ted6r7s5ies6ng6se5ment9s5y6\'s3ble6d3cker3der4way3eless4sweet4top7s3fgarne4ry3go4re3harne3iber4chel4nen3jo3kking3la4la5is4oar3main7e5yne4bath5lay6e7d7y6y4el5ns4l4mel4ont5r6s4per3nchant7rd6er7s4ded5ier7st6ng5less6ine5y4holm4kamp5le4tham5man5on7\'s3on3ppel4tow3scott4pass4sel6s5ler4ter5le3ttel6r5in3uhand4rnicht3vor3xler3ybig3zise4za2iad5\'s5s4ge4l5\'s5s4rc3bal4bett6y5le7s5y4esman7en4le4ull5ne7\'s5te7\'s7s3ceps4het4ia6\'s5l4kel6tt6y5ing5le7d7s6ing5ster9s5y4o3dent5x3er3fle6s5ing3gger7ed7s4o3lby4lin7g6on8s5o4on3mac5s4ble4edyne4mer7s5ing8s3nka5et7s5le4tex3o4\'s4mphe3pi4le6d6s6t7s7t6x4od6s4pel6r7s6tt5ie6ng5le5y4tych8s3reme7s3sha6\'s4ka4m4ta6n6r6te5ram3ton6\'s4schler3umph7ed7s3vest5tt7e3xie4y3zec6\'s2nka2obaugh3chmann4ki3dden3eger4ndle4ster3gdon3ha3ia4ka4si3jan6s3kel3lley7s5ing3ma4ble7y6y5one8s3nic3oper7\'s7s5ing3phies5y4ic6s4world3sclair4per4tel5le3tman4sky4ted6n6r5ing3uble7d7s4ncing4ser7s4tman5ner5wine3wbridge4el6l5r3xel6l4ler3yan5t4er4ka4u2uant4x3bey4y3cco4han4kee6r7s5ing5load9s3da4eau5l6l4gen6s5ing4ie4o4y3eblood4ll5ove4man4r4sdale6ell5t4x3ffaut8\'s5le7s3icko3lock4son4uck4y3man6\'s4ble5o5ull4ka4pet7s3ncate8s5heon9s4dle7d4kline4nell4zo3pin6\'s3ro3scott4low4sell6s4tco7rp5ed6e7\'s7s5house5ing5y3thful3xal2yart3ba4us3gstad4ve3ing3on4ut6s1s2akos2chetter4ida5rhart4udy5mi2emel3tse2ingtao2ongas2uda3i3ji1t\'s1uba4l3by3er5s3ing3man3ule2cci5\'s3ek3hman3ker6\'s5tt5y4ing4man3son2djman7\'s3or5\'s2esday7\'s7s2fa3nel3o3ted4like2gboat7s3ging4le3man3well2han2la4ne3ey3ip5\'s5s3lar4er5y4is4o5ch6k5s4y3sa2ma4n3ble6d6r7\'s7s6s5in5r6\'s3ey3lin3mies4ond4y3or5s3ult2na4s3dra3eful4r4up3gate4sram6om8\'s5ten3ic5k4ng4s3kelang4u3nel6\'s6l6s5y4y3stall2ohey4y3lumne3mi2pa4c3per3y2rban6s5s4en5tt5ville4id5n6e7s4o5s5t3chi6n5yn4o5tt7e8\'s3ek4nne3geon4id4ut3i4n5g3kel5y6\'s6s4ic5sh4men4o3ley4ough3man4el4oil3nage4baugh5o6ugh6w5ridge5ull4coat4down4er6\'s5y4ham4ing5p6s4key4ley4mire4off5ut7s4pike8s4quest6ist4stile9s3o4w3pen4in3quoise3rell5t6s4i5ll3si4ki3tle6\'s6s4on3vey4ille4y2sa3can3hes3ing3la3saud\'s4ey4ing4le6d6s3tin2ten3hill3ko3or5ed5s3si5\'s5s3ti4le4on3u2xford3horn2zla5\'s1v2\'s2s3at1waddell5le3ngy3rdy4og2eaking3edie5le5y4ted4zer7s3nties5y6\'s3rsky3ten2ichell3ddle6ing5y3ford3ggy3light4ley3ning4jet7s4kie7s5le7d7s4sburg3rler5ing3sted6r7\'s7s5ing5y3tchell7s6ing6y4ter5y2ofold3hig3mbly4ey3nshein9\'s3rek3some3thirds2yford3la3man1ybalt2co4\'s4on6\'s6s2dings2er4s2gar5t3er2ing2lan3ee4r5\'s3ka2mnet2nan3dall3er2o2pecast4face4set3hoid5on7s4us3ing6s4st6s3o2ra4nt6s3ee4ll4s3one3rell2son5\'s5s0uart1bben2er1ccel5\'s3i2laf1dale4l3y2din2ell5e3n2o3lf2var2y1ebel2cker6t2da2hling2land3man4en6\'s2no1gly2ric1her2land3e4r3ich4g4r3man6n2rich4g4n1i1k2ase2man2raine7\'s1l2a3m3nd2brich7t2cer5s2ee4\'s2fred2ger2i3n2land3man6n4er3ock4m3rich2man4r3er3us2rey3ic5h5k2san3ter2tra5\'s5ir2va3ert1ma3ss2bach4ugh3el3le3ra5ge2fleet2holtz2land4uf2mel2phlett4ress6y3teen7th2scheid3tead1na3ngst3rm5ed2bend3olt4ok4rn4und4wed4x3uilt4rned2called3hanged4ecked3laimed5mp7s4e5\'s5an6r5s3oat4il6ed4ol4rk6ed6s4uth3tad4uous3ured4t2der3id4ne3o4ck4ne3reamed5ss7ed3ue2earned5th7ed4se2fair4v4zed3enced3illed4t3old6s4rmed3url6ed2gar3er3lue6d3o2harmed3eard4dged3inge7d4tch3ook4rsed3urt2i3on5\'s5s3que3t4\'s4e5s4s3x2just2kempt3ind3nown7s2land3eash7ed4ss3ike4ned3oad6s4ck6ed4ved2made4nned4rked4sk6ed4tched3et3ixed3oved2named3erve7d2o3s2pack6ed4id4ved3laced5nned4ug6ged3roved2quote2rath3ead5l4in4st3ing3oll6ed6s3ue4h2safe4id3cathed4om3eal6ed5t4en4ll4r4t3igned3killed3old5ved4und3pent4oiled3tained4ressed4uck3ung4re3wayed4orth2tapped4xed3ed3ie5d6t4l3o4ld4uched3rained4ied4ue5th7s3urned2um3sed2veil6ed6s2washed3ed4ll3in5d4se3ound3rap6ped2zip5ped1pbeat3raid2church2date6s3ike6\'s3raft7s3yke2front2grade7s2ham3eld3ill3off4ld6s2john6\'s2keep2land6s3ift4nk6ed6s3oad6s2on2per5s3ing2right7s4se3oar4ot2scale3et5s3haw4ot4ur3ide4ze3on3tage7d5irs5rt7s5te4ream3urge3wing7s2tain4ke3ick6s4ght3on4wn3rend3urn6s2vote6s2ward6s3ood1ral4s3m2bach4in4n5\'s5e4s2chin6s2da3u2en3y2fer2gen5\'s5t4s3ing6s3o2i3\'s3c4h4k3e3ne2kel2man2ness2quhart2sa3chel3ie4n3o4n3tadt3us3y2ton2win2y1safe3ge2ec3ful6\'s3less3net3r4\'s4s3s2her5ed5s2ines4g2rey3y2urp5ed5s1tah4\'s2ech5t2goff2her2ke2ley2most2sey2tech4r5ed5s1v2a1y2s1zbek5s2i3s2mack2zell3le0vaca4nt4te3ca4ine7\'s7s4o3ek3ha4on3lav3uum6ed6s2das3en4r3im3nais4ey2grant7s3uely5ness5r5st4ine2hey3id3le2ilab3nly2jda3na2kuf2la3court3da4es5z4is3ek4nce5s5t4t3hi3ia5nt4d4n4s3ko3la5nce5s4eau5e5ly5tte5y6\'s6s5z4i5e5s4o5t3mont3ois4ne4r3spar3tek3u4e5d5s3vo2mos3pire7\'s7s2na4sse3beek4runt3camp4il5se4leave6ef6ve4ott5urt3daele5l6l6s5m6me4en5r4ine4orn4riel5oss4unk5yn7e4yck5k6e5ne3eck4k4pps4ss3fleet3gel4ie4orp4uard8\'s4y3hall4ecke5el4ise4ook6se5rn7e5ve5y4uss3ik4sh6ed3kirk4leeck3leer4iere4oan5o4ue3na5me4ess6t4i5ce5e4ote5y4y3o4ss4us3pelt3quish8ed3ryn3sandt6t4chaick6oick5oy4kike4lyke4tone3tage4il4ol4ran5ease6ese4uyl3veen4lack5eck6et5iet4oorst5rst3wart4ert5y4hy4ie4yck5he5k3ya5\'s4o3zandt6t4ee4ile2pid3or5s2ra3ble3co3deman5n4on3es3ga5s4hese4o3i4ck4ed5s4g4n3lam4en5y3ma4int4us3nell5r5y4i5sh7ed4on4um3o4n5e3vel3y3zi2sco3ek4s4y3hti3il5e3ko3lev4ov6\'s3ques6z3sal6s5r4el5r5ur5y3ta4ly4ness2ter3ted5r2udeville3lted5ing3nted3pel3xhall2vra4ek2wter2xes2yda2zquez1easey4ley3zey4ie2ba2cci3tor6s4ra2da3der3ette3is2eco3der3nstra3ring2ga4n5s4s3gie6s2iga4el3ling4lette6ux5on3ra2la3cro3da4man3ey4z3ie4z3la3ma3o4ur4z3ten4man4re5i3vet2mich2na4l4rd3cill4or3dee4ing4o5me5r6\'s6s3eer6s4y3geance5ful3ice3nard4eman5r4ick5ng3o4m4us3sel4on3tech5d5r6s4i5ng4ner4o4ral5e6s7s4ure7\'s7d7s3ue5s4s2ra4s3ba5l4eck5ek5ke4le4oon7s4rugge4urg3cher3da5nt4e5s4i5\'s5ct7s5n4on4un3eb4en4ne4x3ga4es6h4il5ng4resh3hage4ey4oef5ff4ulst3it3la5g4ey3ma4eer5tte4in4ont7\'s5uth3na5l4er5y4ick5s4o5n6\'s5r3o4n3rall4ell5t6t7e4i5ll4y3sa5illes4er5s4ion7s4teeg5raete4us3tel6\'s5x4ol4rees3ville3wey4oerd3y2sco3el5y4y3men3na3pa4er3sel6\'s6l6s5r5y3ta5l5r4ed5r4ige5ng4ment8s4ron7\'s2ta3co3ere3o4ed5s4s3ted5r4ing2vay3ey2xes3ing1ia3g4\'s3l4l4s3n3r4s3u2bbert3er3hu3rant5te7s2car5s3eroy4s3hy3ious3ker6s5y4i5e4land4nair4rey5oy4sburg4y5\'s3on5\'s4rp3tim6\'s6s4oire5r6\'s6s2da4l3mar3or3rine2eau3brock3dma3gas3lma3nneau4ot3ra4eck4ling4ra4tel7\'s7s3t4h4or3wer6\'s6s4ing4point9s2gdor3eant4land8\'s4n4r3il5s3lund7\'s3na4eau7lt5tte8s3o4r3us2king6\'s6s3tor2la4s3la5\'s5ge5in7s5r6d6s5s4ers5tte4i5ers5nes4wock3ma2na4l3ca4e\'s5nt7\'s4i5\'s3eland4r4t4y5ard8s3gmed4o3i4ck6\'s4k5\'s4ng6\'s3nick7\'s5e4y3sant4o5n3tage4ner7s4on3yard4l3zant2ole2per5s3in3ond5t6\'s3ul2rag4l4y3co3den3en3ga4en4ie5l5n6\'s6s4o4ule7s4y3ile3na4ig3tue6s3us3zi2sa4\'s4ge4s3co5unt8s6s3hay4nu3ion6\'s6s4t5s3nic3or5s3scher4er3ta5\'s5s4on3uals3x2ta4e4l3ek4z3i4a3ner3o3ric4o4y3tle6s2va4s3id4e3o3ra3yan2xen1lachos3deck4ic3hos3sak4ic2cek1obis2cal5s2dka5s2egele3lkel6r4ler2gan3el5s4s3l4er3tle2ice\'s5less5mail5s5work9s4ing3ded4ing3la3sey4in6e2jta2land3cker7\'s3den3ga3in3ker6s6t4man7n6r5er4sbank3land4brecht4er5y6s4man6r5er4rath3mer3ner5y3okh3pi3ta5ge5ire3ume6\'s6s3vo5\'s5s5x2mit2na4rx3der4ra6k3feldt3nie4y3s\'s4tein2odoo3rhees6is5ies6s2ra3hauer4ees4ies3is3ndran3os3pahl3tec5x3wald4erk2sberg4urg7h3hell3sen2taw3ed4r5\'s5s3ing3rax2ucher7s5ing2wel5l5s3ing3les2xforge2yage6d3er4ur3tek4ko1p1rabel3na4os2ba2eeland2oman3oman1s2el1uitton2lcan6\'s6s3gar3lo3ture7s3va2ong1ying0waage3ra2bash2cha4holz4ner4o5b4sman6uth4tel7l6r5ler3ker4o5s4sman8\'s4y3o3tlar2da4s3ded5ll4ie5ll4le4y3ed4l4r5s3ford3hams3i4ng3kins3le5igh5y4ow3man3sworth9\'s2echter2fer5s3fle6d6s5ing4ord3ted4ing2ga4r3eman4r5ed5s4s3ging4y3ing3le5r5y3man3ner6\'s4on3on5s3staff5er3y2hid3lberg4en5r6s6t4gren4quist4strom3oo2ibel3delich3fer3gel3ling3ner4man4right4scot8t4wright3sner4tline3ted5r6\'s6s4ing4kus4man4ress4zkin3ver6s4ing2jda2kefield4ham4land5ey5y4man4n4up3id4ng3ley3o2la4\'s4s3berg6t4orn4ridge5o4urn4y3cher4ot6t4zak5yk3da4baum4eck5n5r4heim8\'s5oltz7z6rn4ie5ng4man7n4ner4o5ch6k5n5rf5w4ren6p5idge6p5on6op6p6up5um6p4schmidt3eed4k4n4son3ford4red3green6n3id3ken5r6\'s6s4ie5ng4ley4man4ner4o5ut7s4through4up5re4way7s3la5ce6h6k5r4board4en5r5t6s5y6e4gren4ich7\'s6k5e5n6g5s4man4ner4o5ch5p6s5w6ed4send5treet4work4y5\'s3mart7\'s7s4er4ond4sley3nut6s3pole3rath4od4us3ser4h\'s4ki4tad5on5rom4worth3ter6\'s6s4hall6m5er7s5ose6ur4man4ner4on6\'s6s4rip4zer6s5ing3worth4yn3zer2mbach5ugh4le4old7t6t3pler4ole4um3ser4ley2nat3da4el6l5r6ed6s4ie5s4ler5ing4rey3ek4r3gen5r4le6d6r3ing3ker6s4o3less3na4er3ser4ley3ta5ge4e5d4ing4land4on3zer2ples3ner3ping2rble6d6r7s6s4ucks5rg7\'s3chol4raft3da5ir4ed5ll5n6\'s6s5r6s4ing4law5e6y5ow4rip5obe8s6p4well3ehime5ouse9d4ing4n3fare4el4ield4ord3ga4o3head7s4ol6\'s4urst3ing3ley4ick5ke5ng4ock7\'s7s5eck5rd7s3mack5n4er5st4ing5sh4ly4ond5th4up5s5th3ncke4ecke5ke5ll5r6\'s6s4ick5ng7s4ke6n4o5ck3path4ing4lane8s3rant7s4ell5n6\'s6s4ick5ng3saw6\'s6s4haw5ip7s4tler3then4ime7s4man4on4zman3wick7\'s3y2satch3cher4o5m3den3em3ham4board5urn8e4cloth4er6s5s4i\'s5ng4ko4oe5ut7s4room4tub4y3ik4l3ko5w3ley3mund5th3n\'t3on3sel6l5r4ink4man5er4om5n4um3ted5ful5land5r6s4ing3zak2tchdog8s5er7s6s5ful5ing5man6en5orn5word9s3er5\'s5ed5s3ford3hen3kin6s3land4ey3rous4y3sco4on6\'s3tage4ers4ie4le6d6s4on4wil3wood3zman2usau3ters2veform8s4length9hs4r5ed4tek3ing3ra3y2xes3ing3ler3man6\'s3y2yans3bright3laid5nd5y4on3man4ire3nesville4ick3side4on3ward2zir5\'s1eaken6ed6s5r5st4land5ey5ing5y4ness3lthy3ning3pon6\'s6s3rer6s4house4ied5ng4y3sel6s3ther7\'s7ed7s3ver6\'s6s4il5ng7s2bber6\'s4ing3er5\'s5g5s3ley3page3re3site7\'s7s4ter7\'s7s2chsel5ler4ter3ker4werth2dbush3ded5ll4ing7\'s7s4le3el5l3ges6tone5wood9\'s7rth4wood3ig4n3lock3nesday9\'s9s3tech7\'s2eber3ded5n4ing4man4on4y3kday7s4end7\'s7s4ley5ies5ong5y6\'s3ny3ping4y3rs3sner3vil6s2gbreit3er3larz3man6n3ner2hlan4e5r4ing3man3ner3rheim4le5i5y4man7n3unt2iand3bel4le3chel6rt5man4ker7\'s3da4e5l5man8n5r4ig4lich4man7n4ner3er3gand7t4el6t5rt4hing5ted6ing9s6less6man6y4l5e4old3her3kel5r6t4le3land4er3man6n5r4er3nand4bach6um5erg4del4el5r6t4feld4gart5er4hardt5old4kauf4man7n4reb6ich5ich5oth4stein9\'s6ock4traub5z\'s4zierl3pert3rauch4der6st5ly5ness5o6s4ich6k4ton7\'s3sbach5erg5rod7t4el5r4feld5ield\'s4haar6upt5eit4kopf4man7n4ner4s\'s5berg5er7t5man8n4t3tek4kamp4ler4man4zel6n5man8\'s5ner3zman2ksel2lbilt7\'s4orn7e4y3ch\'s5el6r4ome7d7s3ded5n5r6s4in6g4on6\'s4wood4y3fare4ord3insk3ker3land4born5rock4co6me8\'s4ek5n6s5r5sley4fleet4head4ies5ng4man4ner6ss5itz4ons4point4s\'s5pring5tone9\'s4tech3na3ser4hans3ter4man4on4y2mbley3hoff3mer3ple2nberg3ches3da4el6l5r6s4ing4land8t5er5ing4orf7f4y5\'s3fan3ger6d6t3ig3ker3nberg4er4ing3rich6k3sberg4el4trom3tland5ing4worth4zel7l5ville3zel4hou4l5er5ick2ppler2rber3den5r5sheim3en\'t4wolf7ves3gin3king3ley4ing3man4er4uth3ne5cke5r6\'s6t5t6te4ick7e5ng4li3ry3theim6r4man3y2sat3co5at5tt3ely4man7n3ker6\'s3ley3ner3pac3ray3sel6l7s6s5x4ler4man4ner4on3tair5ll7\'s5r4bay5erg5ound5ridge6ook9s5urne5y4cap5oast9\'s6rp6tt4deutsche4ech5n5r6n7\'s7s4fahl6ll5ed5ield5ord4gate4hoff4in4lake6nd5eigh6y5ife8\'s6ng5und4man6rc7k8\'s5in4on4pac7\'s5hal5ort5ride4ra5ich7k6dge5om5um6p4side4tech8\'s4ward8s5ood8\'s6rld3un2tland7s3more3ness3sel4tein4uit3ter5st4ing4stein3zel4ler4stein2ver2xford7\'s3ler3ner2yand6t5t3enberg4r5s3forth3gandt3hrauch3land4in3man4er4outh3rauch4ich6k1hacker5ing5o6s3len5r6s5y4in6g4ley3mmy3rry4ton7\'s3t\'d5ll5re5ve4ley4not4sapp2eaten5ie7s5ley6y5on3dbee4on3elan7d5base5chair9rs5don5er7\'s7s6ss5ing8\'s6s5ock6n5us5wright4zes5ing3lan4chel4ess4pley4ton3n\'ll3re\'re6ve5as5by5fore5in4ley4ry3ther4sel7l5tine6one4ted4zel2ich\'re6s5ard4ker3dby4den5on3gham3lden3mper4sy3ner6s4ing4ney4y3pkey4lash4ping5le7\'s4saw7ed3rley5ing5pool9\'s9s5wind4ring3sker7ed7s6y7s5y4ler4man4nant5er4per7ed7s4tle7d7r8s7s6ing5on3tbeck5read5y4cher6urch5omb5raft4ebread5d5field7sh6ord5hair7ll9\'s6ead9\'s6ill6orn8se7use6urst9t\'s5law6ey6ock6y5man6ont5n6ack6eir7r7ss6ight5r5sel8l6ide9s6t7one5tail5wash9ed5y4field6ll5ord4ham5er4ing7s5s6h4latch5edge6y5ing5ock6w5y4man7\'s6rsh5er5ill6re5ore4ner6y7\'s4on4row4sel7l6tt5itt5on4ted6more6n6t5ing5le7\'s7d6ing5on5y4wam5ell5orth3zzer6s5ing2o\'re3brey3leness5sale9s6ome5y4ly3opee5i6e6ng3pper7s5ing3rehouse4ley4ton2y\'re1ian4t3rd3tt2berg3le2cat3ca5n3hern6t4man7n3kard4ed5ns5r6\'s6s6t5s\'s5t6s6t5y4ham4land5ey5iff8e6ne5und4man4strom4ware5ire3or2dder4le6d5y4ows3ell5y4man4n5ed5s4r4spread5t3ger5t6s3halm3ick4ng3man6n5r4er3nall4er3ow5\'s5ed5s3rick5g2eand3ber6g4ke4old4usch3chert5man8n3del5man8n5n5r4man7n4ner4rich3gand4el5rs6t4man7n3land4ded5ing4gus3man6n4er6s3ncek4ecke5ke5r6s3rdin4man4sma4zba3sel5mann5n5r4man4ner4sner4t3ting2fi4\'s4s2gal4nd6\'s3en3fall4ield3gans4er6s4in6s4le6d6s3htman3le5y3more3nall3ton6\'s3wam2kel4r3i4\'s4s3le4und3off3strom2land3banks4er6g6t4on5rn5urn8e4ur6n3cher4ock5x4zak5ek3dcard6t7s4eman5n5r6\'s5st5y4flowers4ing4life5y4man5on4ness4on4rick4wood8s3een4man4n5tz4r4s\'s4y3fert4ong5rd4red5id6ed3gus3ham4elm7s4ide5te4oit7e3ing3ken6s5r5y4ie5n6g6s5s3la5ims5m5rd4banks4cox5utt4den4em6s5n6s5r6s6t5t6s6t7e7s5y4ford5ul4helm5ite5oit8e4i5am7\'s7s6rd5e6\'s5g5ng5s5ts4ke5ie4man7n5on6re6tt4ner4ock5w6es6s4se6y5on4werth4y5ard3ma5r6th4er5t6h6te4ore5t6h6t5uth4ut3ner3pon3sey4hire4on6\'s3ted5l4fong4gen4hew4ing4on4ron6ut4sey5hire5ie3y2man3bish4ley4ush3er3mer3pee4y3satt2nans5t3berg4orn7e4urn5sh3cek4hel7l8\'s4ing4kler3dchill7me9s4ed5ll6s5r6s4fall8s4ham5eim5oek6lz6rst4ing5sch6h4lass5e6r6y4mere8\'s5ill8s4om5n5w6ed6s4shield9ds5or7\'s7s5peed5tar8\'s6orm5wept4up4ward4y3eberg4heim4land4man4r4y3field4ord4red6e6y5id3gard5te4back4er6s6t5t6t4field4ing4like4man4o4rove4span3ick4k4ng6s3kel6s5r4field4ing4le6r6s6y3land3ner6\'s6s5tt5y4ick5e5ng7s4ow6ed4y3o4s3quist3sett4hip4ki4let7\'s7t5ow4ome5n5r4tead5on3ter6\'s6ed6s4her5rop8\'s4le4om5n5ur4ry4zer3ward4ood7\'s5rd3zer2on2peout4r5s3ing2re4d4less5ine4man4s4taps3ick4ng3kus3sing3thlin3y2sby3dom3ecrack9s5up4guy4hart4l5y4man4r4st3ham5rd6t4bone4er6s5s4ful4ing4list4ner5ick4on4y3ley3man3ner3or3py3sa4el5r4ing6k4ler4man7n4ner3tful3well2tbeck4rock3ch\'s5craft5er6s6y5hunt5ing5y4o4zak3ek3ham4draw8n8s6ew4ee5m5r6ed6s5y4held5old8s4in4nail4out4row4stand9s6ood3kin4op3less3man4er3ness7ed3ted5man5n5r6\'s6s4huhn4ig5ng4ke5opp4ler4man7n5er4ner4on4rock4wer4y3wer3zel4ig4ke2xom4n3son3ted2zard6s3en5ed1m1obble6d3ig3urn2dehouse4l2eful3hler4rle3lfel5le3rner3ssner2fford7\'s2gan3gle2hler6s4farth5eil5ord4wend2jahn3ciech5k3ick3nar3tas2ken2la4k3ber6t3cott3den3farth4er6t4gang5ram4ing4ley4man4ord4ram5ey5om5um4sburg5on3gast3in3ken4off3lack5m5rd4en5r4in4man4ner3man3pe5r6t3rath3sey4feld4ki5y3ter6s4man3ven2mac5k4n5\'s3bat6s4le6s3en5\'s4r3mack2nda4er6\'s6ed6s4ra5ous2odall5rd4beck5ridge5urn5y4chip8s6uck9s5liff5ock6x4dell4ed5ll5n4field6ll6n5ord7k4hall6m7s5ead5ouse5ull4ie5n6g5s4ke4land8\'s8s5e6e6y5ief6ff6ng5ock6t4mac6n4pile8s4rich7k6ng5ome6of6w5uff6m4s\'s5hed8s5ide5mall7n6en8\'s5on7\'s5tock6ream4ward8\'s5ind8\'s8s5ork7th4y5\'s5ard3fer6s4ter3gie3ing3lard4bright4co6ck4dridge4en6s5y4folk6rd7k4lard5cott5en6y5y4man4ridge4sey7\'s5on5ton4um6s4wine5orth9\'s4y3mer3sley4ter3tan4en5rs4on4ten5on3zy2rcester3ded5ll5n4ing4less4press4smith5tar5worth4y3kbench5ook8s4day7s4er6\'s6s4fare5low8s5orce4group9s4horse4ing7s4load8s4man7\'s5en7\'s4out7s4place4room4sheet9s6op8s5pace4week8s3land4co4dcom7rp5er7s5ly5news5pass5scope6pan5view5wide9\'s4ey3man4hole8s4ley5ike4ser4uth4wood3ner3rall4el6l4ied6s4y3seck5n6ed6s4ham5ip7ed7ped7s4ley4ted6ll6r3tham5en7\'s6y5ies6ng5less7y5man5og5while5y4ley4man7n4on2tan3ton2uld\'ve5n\'t3nded5ing3ters2ven2wie4ng2znick4y1racking3ndell4gell5le7d7s3pper7s5ing4up3ther2eaking3ckage5er5ing3nches6ing3sted5ing5le7d7rs7s6ing3tched2iggle4htsman7on4ley7\'s3nger5ing4kle7d7s3sley4ton5watch3tedown9s5off8s5r6\'s6s4hing4ing7s4ten2obel3claw3na4gful5ly4ski3ten2ubel2yly3ness1ubben2ellner3st2han2jcik2li2nder3schel2rdeman3ster5haus3tman4zel3zel5r2ssler4ow2thrich3tke2xi2yda2zzy1yan4d4t3tt5\'s2ble3orn2ckoff3liff3off2dra2er4s3th2ffels2gal4nt3od2ka3le3off2land3er3ie3lie3ma3y2man3er3ore2ndham3er4tte3koop3ter4on3yard2rick2se\'s4r3ong0x\'s1anax3tippe2ver3ier1box1ebec2na3on4s2ro4x5ed3s3xes1hosa1iang3ogang4ping8\'s4yun2cor2dex2linx1oma4\'s1scribe1tra1udong2edong3mei1ylon0y\'know1aacov2bba3lon2chter7s5ing8\'s5sman3kel4ley4o4tman3os4ub2dda3en3on2eger2ger3i2hi3oo5s3weh3ya2kel3lin3ov2lin3ta2min2nbu3cey4y3da4ell4le4ow3ey4z3gsheng4tze3i4ck4k4s5h3kass4ee6\'s6s5y4ing4o3ni5ck4one3o3tis2obang3han2ple2rber4ough4ro3choan3dage4birds4er4ley4stick9s3ger3ling3nall4ell3on4s5h3row3wood2sin4r3min6e3ser6\'s4in5r6\'s4o3trow2ter3sko2uger3pon6s2wner4ing2zoo4v3zie1dstie6\'s1eadon3ger4le6y3kel5y4le6y3man6s3rbook8s5y4end4gain6n5in4ick4ling8s5ong5y4ning8s4out4sley4wood4y3ter5s4man4on3zel2ckley2dda2gor2hle2iri3ser4ley2ldell3land4en4in6g4ow6s3ping3ton4sin7\'s2men5\'s2nching3der3e3lu3tl2o3man6\'s6s3sock2pez3sen2rby3don3ger4in3kes5y3man3xa2sen4s2ti3man3ta4er2utter2vette1iddish2elded5ing2gal2lin2nger2pee3pee2tzhak1nez2jiun1oakam4um2bbo2cam3ham4im4um3key3om3um2da4\'s3el4r3ice2ffie2ga3i3urt2he4i3o2kel3ich3ley3o3um2la4nde3o2na4n3der3gbyon8\'s3hap3ker6s3sei3tef2ram3ba3dy3ich4o3kbased4er6\'s6s4shire4town8\'s3rick2sef3hi3si2ther2uell3ghal3ker3man6s3nan4gberg6lood7ut5dahl5er7s6st5love5man5quist5ren5ster9\'s9s7own7rom4is4ker7s5in7s3ree4i4self7ves3sef6\'s4if4sef3thful4sey4ube7\'s3ville2well2yo4s1quem1uan4\'s2ba2cca3ky2go4\'s4s2has5z2ichi2ko4n2letide3i2ma4\'s3mies4y2nde3ich4s3ker2ppie6s2rchak3ek3i4ck3ko3man3y2sef5\'s4n3ko3tef2tzy2val2zong1vette2onne6\'s0zabar\'s3el3ows2ccheus3ek3har4er4i4man7n4ow4ry2da4r3eh3oc4k2ftig6\'s2gar4t3el4r3ha3reb6\'s2her3ir3ler3ner4ow2ino3re5\'s3ser3tech4sev7\'s2jac3del3ic2ki2lar4y3ey5\'s3man2man3bo3fir3mit3zow2nca3der6s4i4ra4stra4y5\'s3ger4hi3i3ni3tac3u4ck3y2pien3mail3pa5\'s4ing4os2ra4h4te3ek4tt3ing3ling3o3ro3tman3y2slow3trow2ucha3ner2yac4s3ed3re\'s1bigniew3nden1eagler3land7\'s4ot6s5us2bell3ley3ra5s2cca3her4man2dong2eble3land3man2geer4r5s3lin2hnder4er4tel3ren4ing2ibel6\'s3chner3ders4man3en3ger3ler3met3nab4er3ser3ter4geist4lin4ung2lda4in3ek4m3ie4ff3ko3lars4er6s4man5er4ner3ma5n3nick3os4tes3tner4zer3vin2man3ba3el3in5\'s3pel2na4s3chu3da4er3ger3ith6\'s3ker3na4er3o4n4r3tec4ner2os2pa3hyr6s2ra3by3ingue3kle3o4\'s4ed5s4s3tuche3vas4os3whale2stful2ta3tel4le6r2va2we2yno1hambu2ejiang3ngzhou4yu2ivkov2uhai1ia3\'s3d3he2bell2co2dek2eba5rth4ell3ger4feld5ield4ler3man6n4ba4er3ntek3tlow2glar3man3zag6ged6s2ka2lber3ka4ha3la5h4er4ion7s4mer3mer2ma3dars3mer6s3ny3pfer2nda4er3ga4er3man3ner4i4o3ser3ter2on4s2pcar6\'s6s3fel3kin3less3per6ed6s4ing4o4y2rbel3con6s3kel4le2sa3es3ka3son2ta3ek3her6s3o4\'s3tel2wei2yad4ng2zzo1lata5\'s2obin3gar3tnick4y5s1obel3rist2cor2dy2e3ller5ick5ner3te3y2fran2gby3hby2la3lars4er4man4ner4o3man3oft3tan2mbie6s2na3gol3ing2oey3ming2pfi2ra4h4n3ich3kin3now3ro3tman3zi2sen3ter2tos3ter2ucha2vut1sazsa1uba3er3in3off3rod2cco3ker6\'s2ercher2fall3elt2kas3er3in2lauf3li4o3ma3u4s2mbro5un3el3mo3stein3walt2ndel3gu3i3ker2pan3ko2rcher3ek3fluh3i4ch6\'s2ver2zu1vornik1wahlen2eber3ibel4fel3rdling9\'s2icker5y3ebel3lling1ycad3her2gmunt3ote2la3ka3stra2man2nda',
+    3: '0aaa2chener2liyah2rdema3onson8\'s1ba3ba3cha4o4us3di5e3lkin4os3ndon7ed7s4to3rca4e3scal4ia3ted5ment9s4ing4toir2bado4si3enhaus3otstown5tstown2c3\'s3otek3s2d3alla7h3ella3icate8s3ollah4men3ucted7e8s6ing7on9s6or8s4lla7h2edi3la5rd4la4ow4son3ndroth3rdeen4ford4le4min4rant3tted5ing3yance4ta2horrence8t2iam5\'s3ded4ing4jan3gail3la4ene3mael7s3ngdon5ton3o3quiu2khazia2lation3er3ution8s2normal2olish7ed3odi3rted5ing6on8s6ve3unded6ing3veboard2planalp2raded4ham7s4mczyk5o5s\'s6on4sion8s6ve8s4xa6\'s6s3ego3idgement7s6ing3ogate3uptly6ness4tyn4zzo2s3alom3conded7ing3econ4nces5tee8s6ia3hier3olom5ut7\'s7e8s5ving4rbent7r8s6ing5ption3taining4ention9ns4inence8t4racted8ion9ons3urdist6ly2udrahm3ellah8\'s3ndance7t3rto6\'s3ser6s5s4ing5ve3tted5ing2ysmal1cacia3deme3ena3mpo5sia3ntha3ry2c3ardi6o3eded5ing4nted6ing6ure4ptance6ed6ing4ssing7on4tta3ident8\'s8s4on4val3laiming4imate3okeek4la6de8s4mpli8ce8sh9hed4rdance6ed6ing4sted6ing4untant9t\'s9ts7ed8mp9ps7ing3redit5ted6ion4ual7s5ing3uhealth4rate6y7\'s5ide5so4ser7s6s5ing5tom8ed4tane2erbic4o4ra3tate4ic4o5ne3ves2h3aean3ebe4nbach7um4son7\'s7s3ieva6ement9nts7r8s6ing4lle7s4ngly3oa5\'s3tenberg5rberg2idic4ly3erno2kerley6y5man8n5son3nowledge9ged2m2olyte7s3sta3ustic8s2quaintance8ed4iesce9d5re7d7s6ing5taine6tal9s7ed7ing2reage3obat7s4lein4nym7s3ylic7s2tava6\'s6s3igall4nide4vase6te8s5ely5ist8s3odine3ress\'s7es3ual5te2umen3na3ra5\'s5s3son4tar4yst3tely5ness1dabel6le3chi3lah3mant4cik5zak6yk4e5c5k4i5k4kus4o4s\'s5ki5on5town3pso4tec7\'s6d6r7s5ing6ve5or7s3rand3za2dendum8s4o4rley3icted6ing7on9s7ve4das4ngton4son7\'s4tion8s6ve8s3leman3ressee8s7ing3uci3yston2ela5ar5ide4bert4ine4man7n4pha6i4son5tein3na5uer4ine4oid7s3quate3rhold7t4man2herence7t8s5ing4sion6ve8s2ia3das3na4e3os3pose2jacent4ni3ective9s3oining4urning7ment3usted7r8s6ing6ment9ts4tant2kinson4son5son2lai2mira6\'s6l7\'s7s5ed6r7s5ing4ssion9s4ttance6ed6ing3onish8ed2obe5\'s3lfo4pha6son6us3nis3pted6e7s6r7s5ing6on8s6ve3ra4ee6s4ing4na5ing5ment5o2ragna3da3ea4nal3ia5n6ce4enne3oitly2sorption2ulate4thood3sdur2vacare4lue4nce\'s7ment9nts7r8s7s6ing5i5ta7\'s7ge9d6est3ection4ntist9s6ure9s4rsely5tise9d3isement6r7\'s7s6s5ing5or7s3ocate8\'s8s1egean4rter2neas4id2olus2quitron2rial6s4en6s3obic7s4drome9s5yne8\'s4flot8\'s4jet7s4lift8s4mar4quip4smith9\'s5ol7s5pace5tar8\'s8s7t8\'s8s4tech2schelus5liman3thetic9s1ffable6y3ected6ing7on9s7ve4rent3iant4ning4rming4xes5ing3lerbach4icted7ing8on9ns4uence7t3olter4rded6ing3ricate9s4onted7ing3ymax2ghani7\'s7s2l3utter2onso3resaid5thought2rica6\'s6n7s4di4kaans2sane6\'s2terall5glow9s5life7ves5math9s5noon9\'s9s5shave9es7ock9ks5taste9es7x6hought9ghts5ward9s2ula5\'s1gache\'s6s3na3rwal3ssi6z3tha3wam2encies5y6\'s4da6s3rton2garwal3randize5vate9s4egate9s5ssion9ns8ve7or9s2ildo4is3ncourt3tate4prop3us2litter2nella6i7\'s7s6o4ta3ico3ostic8s2onies5st7s5ze7d4y3ra3sta5o3ura5on2rawal3eeing5ment9\'s9s4source5ta6i4xco3ibank4co6le4fuel8s4ppa3usa2uacate4do4nga4yo3ero3iar4la6r5lar8d6on5o4rra7\'s6e7\'s3stin1haron3ulsie2erin2madi4nson8\'s8s3oudi2ola3nen3skie2ranat2sahka2uja2wahnee1ichi2da2ello2guebelle2leron7s2metti3lessly2rbases4us\'s3coa3forces3ington3lia5fted8r9s7ing5ner8\'s8s3motive3porter9s5wer3spaces3ways\'s4orthy2sa2tchison3on1jaj\'s3mi3x\'s2ito1kaka3li3mine3na3o3shi6\'s2ella3rley4man4s\'s5on2iba3ko3mbo3o3ra3ta5\'s3va2kerman2samit1lachlor3ddin4een3fi3gem4na4oas3imo3mance4co4ein4o5s5ud3na4co4is5z4na3rcon4ic6e5d5e4ming6st8s4on3ska6\'s6n7s4tair5er3tas2bacore4ni6\'s5o5y6\'s4rran4shaun4tross3ea4it4marle4rding5go5son5ta6hal6i7ne6o6sen7on9\'s6us6ville6y3ina5i5o4on4ric3rightsville5tton3umin4nex4ry2cala4ntar4raz4sa4tel7\'s5raz4zar3ester3hemist6y3ina3oa5\'s4cer4hol7s4rta2daco4ma4na4pe3enville4rcy5ete5fer5idge5man6en5son5ton3icarb4la4nger3ora3rich\'s3us\'s2eda4o3gre6tt3ichem3jo5s3na4drin3o3ron4ted5ing5ly5ness3si4si3ta4ha4ti3utian8s3x\'s4a4ei4i5\'s5ne5s4y2falfa4no4ro3ieri3ono5sin8\'s6o5zo3redo6son7son2gamaa4rin4ta3ebra4mene4o4rnon3oma4nquin3uire2hadeff4mbra4usie2ias3bi5s3ce\'s5s4ia6\'s3da3en5ate5s3gning5ment9s3han3ja5\'s3ma3na3re3sa4ha4ky4on4sa4tair5er3ta4o3yah3zac2kahest4li6es6ne5oid8s3ema4rmes2lante4ying3britten8on3derdice3ebach4co4ges5iance6ng6s5ra6o4le6s5ic4mand4nbaugh6y7\'s5dale6e6orf5hurst5sbach6worth5ton7wn5wood4rgan6en8s6ic7es7st9\'s9s6y5ton4va4yoop5way8s3gaier4eier5meine9es5yer3iance6t7\'s6z4good4nder5ger6ham6ton5son4son7\'s5ter6on3ocate8s5ca6o4graph9s4morph9s4phone9s4ted5ment9s5rope9s5ted6ing4wance6y5ing3uded5ing4ring4sion8s6ve3weiss\'s3ying4son2mada5en4guer4nac5za7r4raz4sy4ty4zan3eda4ida4lund3ighty4ra3oner5te2odie3ha3ia4sa5i3ka3mar3ngi5side4i4so4za5o3ofness2paca3erin3habet5rel4onsine7o3irez2ready3ighty3osa2satian3bury3helhah3obrook9s2taic4mont4rpiece3emose5us4nburg4on4ra5gott5ing5man5nate9s3haver4ea3ier6i4ma6\'s4tude8s4zer3meyer3oona3schiller6uler4huler3ucher4ras3vater3zheimer9r\'s2umax4baugh4na6e5i5us3ra3suisse2vardo5es6z5o3erez5o5son5ton3idrez4na5o4ta2waleed2yea4ska\'s3ssa2zado3ena3heimer9\'s3ona1ma3bel6le4ile3cher4ker3do5n5r5u3ker3lgam7s4ia5e4ya3na4da6\'s6s5ime4o4pour8\'s4te3ra5l5nth4i5n5s4o3sa4on4ses5ing3teur7s4i5l4o5\'s3x\'s3ya3zement5s4ing4on6\'s6s2berger6ris5son5y3iance4en6ce6t4sone4tion8s7us3ling3rosia8l8n3ulance6te4rgey4shes6ing2c2d3ura2eche3dco4ee3lia5e3nded5ing5ment9\'s9s4ta3rco4ford4i4man4o5n6\'s4sham5on4y3tek6\'s4hyst3x\'s4co6\'s2fesco2haric3erstdale2ico5ne4us3di4on4ships3ga4o5s3no4ta3ot3ram5n5ult5v4i3son4tad3tai4y2merman4ter7s3onia6te8s2nesia5ties6y3io2oco5\'s3eba6s5ic3olya3ral4ette4ist4ous4phous4tize8d4y3s\'s4keag8\'s3unted6ing2paran4to3erage5sand3henol4ibole4ora7e3licons5fied8s6y5gen5tude4ocore3utate5ee7s2rhein3itsar2spacher3terdam9\'s2ulet6s3ndsen6on3sement9s5s4ing2vestor8s2ylin4oid1nable3cin4ker4omp3erobe8s3gnos4ram3heim3kin3log6ue4yst7\'s7s5ze7d3ndale5eep4tha3rchic7st9s6y4en3squan4tas5os3tole3walt3ya2bari2cestor8\'s8s6ral7y3heta4ondo5rage6ing6man7en5vies6y3ira3ona2dante3ean4ra5berg5egg5le5man5sen8\'s6on8\'s8s6son5ton4site3ino4ron3oras5ra4ver3rada5ki4ea6\'s6e6s7en7on7sen5n5pont5sen6ki5tti8\'s5zak4ia5essen5nga4opov3ujar2ecdote8s3llo3mic4one2finson2gela6\'s5es5fish5i6c6ne6que5lo5o6\'s6ff6s6u6z4rer5ing5man4vine3ier4na4o3len5ton4ia5can8s6ize9d4ophile7one9es3ola6\'s6n7s4ra6s4tti4ve3rier6st5ly5ness3uilla5shing4lar6te5o2heuser8\'s3ydride2iak3bal3line3mal6\'s6s5te7s4e4ist7s4ous4us3nat3on5s3sa4eed5tte4ton3ta4ec4ole3xter2kara6\'s3eney5y3ita3lebone2nabel7le6th5le4mese4ndale3ealing4lid7s4nberg4se4xes5ing3issa5ton3otate8s4uncement9ents8r9s8s7ing7ment4yance5ing3ual6s4it4lar5ment2ointed3mie3na3ra5k4thite3ther7\'s3va2reder2saldo4ri3bacher3elma6i6o3tine3wering2tacid7s4rctic5es4ya3eater8s4lope4nna7\'s7e7s3hea4iel4ony7\'s4racite5obot3icline5o5rime4dote5rug4etam4fraud6eeze4gay5en7s5ua4knock4lla6es5ock4och4phon8s5ode4quate4sense4tank6x5heft5rust4war3oinette4lik4ne5i6n5sen6on5y3robus5scope3tila3una5es6z2ubis2xiously2yhow3more3on5e6\'s3place3thing8\'s4ime7\'s3way6s4here2zalone3elmo3io1oki2l2rta4ic2shima2uzou2yama1pache6\'s6s3rtheid9\'s5ment9\'s9s3thy4ite7s2c3\'s2ennine3rcu4ture3x\'s2felbaum2hasia2i3a3cal2lenty2nea2o3gee3lline5o6\'s3nte3pa4ka3state5le7s5ol2palling4rel6nt3ealing5rance6ing5sement6ing4lbaum5hans5lant9s7te5man4ndage6ed6ix4rson4tite8s3ia5n3lauded7ing4ebaum6ee8\'s6y5garth7te5man5quist5sauce6eed6hare5ton5white5yard4iance5cant9\'s9s5ng4ying3ointed8e9s7ing8ve7ment9nts4rtion9ed3raisal9s7er9s8s7ing4ehend5ntice9ed4ises4oaches8ing5val8s6ing2rea3icot7s3opos2titude8s4va2uzzo1qaba2ualung4naut8s4rist8s4tic3educt8s4ous3ifer7s4la6r4nas5o6\'s4taine1rabe4ic5e4le4y3chnid8s3fat6\'s3gon3i4za3ki3mco4id5s3na4da4go4sas4txa5za4yos3rat3skog3ta3ujo3wak3ya2beiter4lla3iter7s5rage7te9s6on3ogast4rville4thnott3uckle8s4thnot2cana5um7\'s4ro4ta3ement4neaux4o3haic5mbault7eau9ult5ngel9s4bishop4ery5typal8e9s4ibald6eque5ppus5tect9\'s9s6rave9es5val6ist9s4rival9s3ieri3ola3turus3uri2della4ntly3ine4to3uino4ous2ea4\'s4s3hart3llanes3na5\'s5s4dsee4son3ta4ha4sky4ta2gabright4nbright3enbright5ta6ine9s6o3iro3onaut8\'s8s4sy3uelles7o5ta4ijo5ng4ment8\'s8s2ia4l4n5e4s3co3da3el3ngton3sen5s4ing4on4pe4ta5ech6de8\'s5ide8\'s3za2kadi5y4nsan8s7s8\'s4row2lana4uskas3ena4ta3inda5gton9\'s2macost8\'s4da4gost4ment8s4ndo5i5trout4ro4to3bruster3enta6or6rout4sted4tta3ida4ger4jo4lla4na5e5gton5ie4stead6ice4tage3ories5y2nalda6o3esen5on3oldi6y5phe4ne3ulfo2ocha5o3ma5s3nhalt4ie4off5w4son5tein3ra3usal5es5ing2panet3ino2quilla2raignment9nts4ngement9nts7r7s6ing4smith4ying3earage4guin4sted6ing3ieta4go4ngton4val7s5ing3ogance7t6te4whead9s5ood5root5smith9h\'s4yo6\'s3uda2senal7s6ult5eau8lt5ic6de3onist8s2tale3eaga4mas5us4rburn5ies5y4sian3fully3hotec4ritic8s5opod9s3ichoke9s5le7\'s7s4fact8s5ice4no4san7s5tic6ry3uro2uba3ndel2vida6\'s5son4zu2yan2zama6s3ola1sahan4i3rco6\'s4o3to2berry4stec6os3ury2cendance8t6ed6ing5sion4rtain9ed4tic3henbach3orbic2ea4n3lma2haji6\'s4rah3bury3eboro4nberg3rawi2iain4week3el3mov6\'s5w3nine2kers\'s3ington3oldov8\'s3ren2leson2mara6s3ussen2partame3ersion9s3inall5wall4rant8s6te8s5es5ing2sailant9\'s9s6ing4nte4ssin8\'s8s4ulted7ing8ve4yer3elin5stine4mblage7e8d8r9s8s7ies7y8\'s4rted6ing7on9s7ve4sses6ing6ment9ts6or8s3iduous4gning6ment9t\'s9ts4ra4si6\'s5tance8t9s6ed6ing3ocies4rted6ment3ubel4ming5ption9ns4rance6s5ing2terisk5oid8\'s8s3hmatic9s3ilbe3onish8ed4rga4unded7ing3raddle5khan4ingent9ts4odome5naut9\'s9s5tech6urf3utely6ness2uncion4der2ylum3mptote9s1talie3ri5\'s3turk7\'s2cheson4inson5son2hanas3eism6t7s4na5eum4rton3letic8s2i3co3enza3ther2kerson3ins\'s6on8\'s4son5son2lanta7\'s7n8s6ic8\'s7s4s\'s5es2m3osphere2ocha3mic3nal4ement2p2ria4um6s3ocious4phied8s6y2sushi2taboy7s4che7s6ing6ment9ts5ker8s6ing4inder6ing6ment4li5la4rdo4way3eberry5ury4mpted7ing4ndance8t9\'s9s6ed7e8s6ing5tion9s7ve4rmann4sted6ing3ica5us4la6\'s4re4tude8s3kisson3orney8\'s8s3racted7ing8on9ns8ve4ibute9s5tion2v2water2x2ypic1ubergine9s5ry3uchon2ctioneer9rs7ing2dacious3erburn3ia4ble7s6y4ence4no4o4ted5ing6on8ed8s5or7\'s7s3rie3ubon2erbach2fderheide3hauser3iero2gello4nstein3henbaugh3mented7ing3sburger4purger3uring4sta7\'s6in8e6o6son6us6yn2jourd\'hui2kerman2lana5der3etta2miller2pperle2rea4ole4us3ia4emma3ora6l2sherman3imont3lander3pices6ious3terely4ralia9\'s9n9n\'s9ns6sia5ia7\'s7n8s2tery3hentic4ier4oring7ze9d6ship3ism5tic3obahn5on6t7s4clave5rat4desk5ie4fact8s4graph9ed9s4immune4map6te8s4part8s5sied8s6y4rad7s4spa4tote3umnal2xier1valanche4lone4on6\'s5s3na5\'s4ex4tek5i3rice3sso3tar6s2edon3lar4la3mco6\'s3na5ll4el6l4ger5ing4i4ue6\'s6s3ra5ge7\'s7s6ing4beck4ell5tt7e4il6l5tt4of4sa5ion8s6ve4ted5ing4y5\'s5l2ia4ll4n3dly3gnon3la4es5z4la3na4ger3ons3tal4ia2ocet3don3idance5ed5ing3ndale2raham2tex\'s3ovaz1waited5ing3ken6ed6s3rded5ing4eness2eida3somely7ness2fulness2kwardly7ness1xelrad5od4sen5on2ial3lrod3om5s1yako3la2delott8e2ende2lesbury9\'s2odhya2uso1zactam3lea6s3row2cona2eri2inger2teca2uka3ra2zara5o4to0baa2bbage\'s4ington5o4ling3iak5rz4neau8x5gton5o5ski4ta3ler3ula4shka8s3yak4hood4ish4lon4sat5it7s2cardi3carat6i4hanal3harach4elder6ler6or8\'s5ra4meier3illus4no3kbiting5reaking4dated7ing4fired8s4gammon4handed4lashes5isted4packer8ing5edal9ed9s4slapping7shes6iding5titches4tracking4wardness6ter9s5oodsman2dami4vatz3eah4lain4rtscher3gering3ia4llo3minton9s3ura2edeker8\'s2ffling3okeng2gdonas3eland3gerly4iness5o6\'s3inski3lio3nato3piper2ha\'is4ma6s3ena3ia3raini8s4enburg2idoa6\'s6n7\'s7s6s3konur3liwick4largeon3nbridge\'s3o2jarin3ema3orek2kalar3elman4ries5sfield5y3owski3ula2laban4guer4ncer7s6hine9e\'s6ing4ta3bina4oa5ni4riggan9ns3cerzak4hunas4onies6y3delli5mar5ras6dash6son7ton4inger6i7\'s6o4oni4ucci4yga3estra3ian4cki4lan5es4nese5ski3kanize9d3ladur8\'s5ntine7rae7yne4engee8r5ster5tto4iet5nger5stic9s5wick4ooning8st9ts5ting4player9rs4yhoo8ed3moral8s3oga4ney3samic6o4iger3tazar4hasar7er6zar7or4ica5erra5more9\'s3uchi4ja4kas3yeat3zano2mako3benek5rger4ino7s2nacci4mex4na6s4szak3bury3comer4texas3dages5na7s4emer5ras4icoot9s5try4leader9rs4olier9s4ucci4wagon3egas4rjee4sto7\'s3gala6or8e9\'s4emann5rter4ladesh3ia4shing6ment5ter3kable4holding4owski4rolling5upcty7tcies9y9y\'s8ed8ing4verein7mont3nerman4ister3tering3uelos2oguang2ptism7al7s6ta7ery2rabar4gi4jas4kat4nek5ski5y4tta3bados5kow5nel6o5ra7\'s6ee6ic6o7us6y5to4ecue8\'s8d8s5lla5que8d8s5ra6i7s6o6shop4ian5er7i8\'s4osa5ursville5za4uda3cella7os6o5nas4hefsky4lays\'s3dera3efield4la4nboim9\'s3gainer9s7ing4eron3ibeau4llo4nco5ger4sta7s4tone8s4um3kalow4ocy3letta7esville3nabas6y7\'s5cle8s4evik4icle4owski4storming3oness6t7s5i4ody4vic5sky3raclough6o5gan6es5nco5sso5za4eca5da5iro5ling5ntine5ra7s5si5to6ta7o4icade9s6klow7man5entez8os6r7e7s5ga6er5lleaux5neau6ger7ton5o6s5ster9s4oso5wman4ymore3santi4hefsky4otti3telson5nder9s5ring4holdy7ow4kowski4lebaugh6son7tein7ville4nicki4oli6o5ne5sik6zek4unek2sara6\'s4yev3ehore4nji3hfulness3ically4nger5ski4sta3kerville5tball9l\'s9ls6ry3ler3ore3setti4inger4oonist3tarache4edo3ulto4rto2tchelder7ler7or3eson3holith9s4sheba3ibot4sta7\'s6e3talion9s4enberg6field6ing5rer8s6ies7ng6man6sby7ea7on6y4ison6ta7e7i4lefield9lds7ront6ground9unds6ment9ts6ship9ps5ing2udouin3erle7in5nfeind3mberger4eister4gardner7ner7ten8ner4hauer5older4ler3serman3tista2vadra4ro2xendale2yanjou3dhabo3erische3liner3onet7s3singer2zinet3ooka7s3zano1bc3\'s2q1eachcomber9ers5ler3nblossom3rable7y4ishly7ness3ta4o4rice3uchemin4jolais4mier4regard4soleil4tician6ful9ly7y3verson6ton2cerra6il3herer4telsville3kerman4ius4meyer4oning3oming2dchamber3dingfield3enbaugh4vil7ed3fellow9s3inger6field4zen3lington3minster3narczyk6ek6ik6ski3olla4uin7s4ya3raggle9d4idden4osian2ebower3feater5rman3keeper9s7ing3rbower3thoven9\'s4lejuice2fallen5to3itting3orehand3riended8ing3uddle8d8s2gajah4la6\'s3elman4tting3inner8\'s8s6ing9s3leiter9\'s3noche3onia7s4tten3uelin4iling2having6or8s7ur9s3eaded6ing9s4ler4moth8s3olden7r6ing3ringer7werke3unin3ymer2idaihe4leman6r3erle3lenson3swenger3tler2labor7ed8s7s4dur7\'s4nger5off4rus4sco4ted3castro3eaguer9ed3flower3gacom5rde3iever8s6ing4nda5sky4sle4ttle8d8s4veau3kacem3lamy5nca6ger6te5vance4emare5rose4flower9rs4icose5na6ger7ham6i7\'s6o5veau5zzi4omo6y5ne5tti5wing4ucci4wether9rs4yache3monte3ongia7ng9s4te3sito3uga4shi3vedere4ia5dere3yea5u4ing2mbenek3idji3oaning3usement2nami4nty4ssi4tar4zir3como3dectin4ickson5xen4ure3edek5ick7t6kt6x4fiel8d6t7s4lux4tti6on8\'s4zra3gali7s3hamou3ighted7ing5na6ly6o4ta5ez5o3jamin8\'s4imen3nardo4efield4igan8\'s5nger7field7hoff7ton5son3oni4tti4witz3salem4coter4enyore4inger4onhurst3tonite6ville3yamin3ziger5nger2owulf2ranek4rdi6o4ted5ing3berich3chenall4ier3dine3ea5vement4ndzen5son4tta7s4zine3gamo4endahl6field6thal5rman6on6son5son5vin4huis4schneider5trausser9sser\'s7esser3ia4nger4sford3jaya3kebile5lman5ry4heimer4ovitz5witz4stresser3langa4iner8\'s8s6ger5oz3mea4uda7s6ez3nabei5cki5dene7tte6in8e5ma5rdi8n7o8\'s7y5uer4hagen5eimer4ia5er5nger5ta4oulli3rian5en6r5gan5nger5os4yhill5like5man3telli6sen7mann9nn\'s7on4helot7sen4ini6o4ling4oldi6i5ne6i4ucci8\'s3udi4men3wanger2sancon3chloss\'s3ecker4eching4mer4tting3hara6ov3ieging3ler3otted3semer4inger5re3towing4seller9rs8ing2tamax4ncourt6ur4von3elgeuse4ta3hany4ea5sda4lehem9\'s3rayal8s6ing3tenberg6court6dorf5ridge7ng6ment6ton4ina6ger6i6o2ucler3kema3mer3tler2vacqua4qua3erage8s5idge5ley6in6y7\'s3ier4ngton2wilder8ed8s2yonce2zanson1harata1iaggi4i3las4ek4ik4kin4y3mby6\'s3na4ca5hi5o3ses4i2bler4ical2chler3kering6staff6ton3oastal3uspid8s3ycle7d7s6ist9s2ddable4inger5son3erman3inger2ederman9n7eier4rzycki3gler3lanski5wski4ecki5feld9t5nberg4icki5nski3niek4kowski4nale4venu8e3rbarror6uer9\'s4nacki3secker2fano3ida3ocal7s3ulco4rcate2gelow7\'s3gerstaff4io3hearted3ler3oted5ry2hac\'s4ri2kini6s2lbaoan8s3derback3ello3icki4ngual5ski4ous3jana3lable5ncourt4eter4iad5nger7ham7slea9ey9y7ton5onaire9res6t5ter6on4meyer4owing3odeau4tta6i4xi6\'s3yeu2mini3odal4nthly2naries5y3egar4tti3gaman4hamton3kowski2ochem4ine4raft3gen6\'s3mass4ed6\'s5t3ndi5o4ic3pharm4ic4sies5y3sis4phere9\'s9s4ys3tech7s4in5te3vest2phenyl8s3olar2racial3chler5meier3dfeather9er\'s9ers6eder9r\'s9rs5inder4houses4watcher9ers9ing3enbaum3inyi3kedal5nau4himer3mingham3thplaces2saillon3cardi4otti3esi3hoprics6sgate3singer4onette6nette3todeau2tchiness3ler3terest6ly6man9\'s9n9n\'s6ness6root6sweet4inger3umen2vona2weekly2zango3zaro1lackberries9y5ening6rby6ter5listed9ing5mailing5welder3kenham6ship3ndino6shment9ents4kenburg7horn7ship6ted7ing5inship4quita3sia5er7\'s5ni5o5us4phemous8y4tfurnace5oderm6ma3tantly3zier5na2emishes3ssedly7ness5inger8ton2ickenstaff3ndfolded5sided3ssfully4tering2oatedness3ckaded8r9s7ing6ges5buster9er\'s9ers5houses3gosphere3odier7st5letting5sucker9ers9ing5thirsty4mingdale9ale\'s9ales8ton3ssoming3tchier8st3wdryer9s7ing4ier6st4torches2udgeoning3eberries8y5looded5onnet9ts6ttle9es4collar4jacket4pencil9lled9ls3menberg6feld6schein7hine7tein8ock6thal3ndering3stering7y2vd1oardinghouse8pass2bbinger9\'s3ier4nski3olas3rowski2cchino4io4uzzi3harov4enek3kelman4ius2damer4nis3dington3ega6s4nstein3ices4ly4ne3yguard9s3ziak7\'s2edecker5ker3hringer3ning3schenstein2fors\'s2gacki4rdus3danoff6ski3elsong4nschutz4yman6en3gio4ling3hosian3osian4ta3ucki2hanan5nan6on5on3eme3lander4inger3nenkamp4omie2ilerplate9tes3patong3sjoly4sonneault4terous3tano2jangles4rski3enka3orquez2kassa2lancik5der5ger5os3enbaugh5der4rjack5o3iden4nger4o4tho4var7s3lenbach4ier5ger5nger4ywood9\'s3ogna4tin3shevik9s8st4tering2mbarded7ier9rs8ng7ment9nts5stic4erger4maker7ing3gardner2nacci4fide4nni6o5za4parte9\'s4witz3derman4holder9rs4urant3ecrusher5utter4lli6o4tti3fanti4ire7s3garten4iorno3ica4fas6y5ield4lla4ne5i5o4or4ta5o3kowski3nema5ville9es4ibel8le3obo6s4mo3tempo4rager3ura4ses3villain2okbinder9rs4cases5ellar9rs4keeper9rs8ing4maker9s7ing5obile9es4seller9rs4walter3lean3mboxes4erang9ed6shine4hower3ndoggle9es3rishness3tlegger9rs8ing3zier2pera2rawski3cherding3dallo4ello6on5nave5ring6line3ella6i6o4nstein3gerding5son4meyer3is\'s3kowski3neo4trager3occe4ian4sage5ki4wicz6ec5ski7y5y3rego5lli7o5ro4ower8\'s8s6ing9s6man4uso3sodi3ucki4nda2skovich3lego5r3nia6\'s6n7\'s7s6s3serman4idy5er4ler3telman2tanic6st8s5y3eler5ho5lo4ro3hering6some3rytis3swana3tari4enfield4ini6o4leneck9ks5ing4omfish6ing6less8y5ne3vinick2uchillon3gainville3illabaise6on3lalas5nger4evard9s4ier4tinghouse3nciness4daries7y4tiful3rassa4cier4geoisie5uiba7gnon4nias5onville4sicot3stany3vier2venzi4ri3ina5o2water3erman5sock7x5y6\'s2xberger2ycotted7ing3ea4rtown3ington2zian1raaten3bender3cero4hia6i4ingly3dberry5ury4emas5nton4tmiller3ganza3inpower5storming5washes9ing3jovic3llier3malea\'s4bila4meier3nagan5man4cato4deberry6nberg8urg7stein5ishes8ing5stetter5ywine4igan5llo5slov5tzky4nigan4stetter3selton4hier4ilia5ngton4serie3utigam9s3vado4erman6y4ura3zelton5nly6ness4ier5lian9s4zaville9le\'s2eadbasket5winner9ers4kable6way5even5water4stfeeding9ding\'s4thlessly6taking3cheisen4kenridge3deson3glio3idenbach7stein4ninger4tenbach7stein5ling5weiser3nizer4neke4singer4tano8s3snahan3thauer4schneider4thauer5schneider3uninger3vity3wbaker4eries6y4ington3yfogle3zina6ski2iana6\'s5con5na7\'s3bery3ccetti4eno4klayer9rs3denbaugh6stine4gewater3efcases4rley6y3gadeer6ier5ndi6te7i8ne4htening4ode3lliantly3mberry4elow3negar4kerhoff5manship6eier7yer5smanship3ody4nes5y6\'s3sendine6o7\'s4tling3ttany5enham5ian6ngham3xius3zola2oadacre6way5caster9er\'s9ers9ing9ing\'s5ening5sided3cato4coli4kington5lehurst5meier7yer3derbund6ick9\'s6sen7ohn8n4owski4zinski3erman3kerage6ing4ini3mpheril3nchial7tis6oscope4kema3okhaven5over5shier3sious5us4nahan3therhood7ly7s\'s8on7ton3uhaha6rd3wnmiller3xterman3zovich5wski2ubaker3cato4hhausen4kheimer3ella3ington5sma3mbelow3nella7i5tta7i7o4hilda3shaber4selmans3talize9d6ly3xelles3zzese2yngelson2zezinski3ozowski1ta1ubbling3ier4nga3onic2caro3caneer9s4heri4ieri5no4ola3halter5nan8\'s8s6nan6on5rest4berger5inder4enwald4inger4ler4miller3kalew4elew4ingham4ler4master5inster4walter3oba4lic3zkowski4ynski2dai4pest8\'s3denbrooks4hism4ier7s3geted7er9s6ing3iman4nger3weiser3yonnovsk3zinski4ynski2echler3ndia4rostro4tello2fano3falo7\'s7s4erin8g5ting4ington4one2gaboo4rin4tti3ling3ojno2ikema3ldable3toni4rago2kavu6\'s3harin3kake3ovsky4wski2lemic3finch\'s3imic3keley4ier3ldozer9s8s7ing4etin8s6proof4fighter9ing4inger7ton5shly7ness4shitter9ing4winkle4ying3ova3tema4huis3winkle2mbalough5rger4lebee9s5ing3gardner6ner2ndesbank9k\'s6post9t\'s6rat6tag6wehr4ling4ren3galow8s4ling3owski2onanno4omo3yancy2rdening6some3eaucrat9ts3gamy4ener5oning5son4io4laries8ze9ed7y4master4undies7y8\'s3ial6s5n3kemper4halter6mmer5older4ina7\'s3latsky4eson4ingame7ham7ton9n\'s5son3master4eister5ster3nable6y4ingham3oker3rier5ngton5ss5to7s4ola5wer8s6ing3undi7\'s3ying3zynski2scemi3enbark3hwhacking3ier5st4ly4ness\'s8es8land9ike8man9an\'s9en8phone9hones3ler3siere5nger3tillo8s4ling2tala4re6\'s3chering7y3eco4nhoff4ra5baugh3kiewicz4ovich3orac3terball9ls8ugh6cup9s6fat7ield9lds7lies8y9\'s6ick9\'s7ng6milk7ore6scotch6worth6y4itta4onhole9ed9es6ville4resses8ing3zberger2zzelli5tta1yassee2erley5y2ington2kowski2passes6ing3roduct9s2stander9s2u2water2zantine0cabana6s5iss4ret7s3bages3driver9s3ela6\'s5lo4rnet8s4zas3inda5ess6t7ry7s3lecomm9s5gram5one5r5tron9\'s3oodle5ses4tage3rales4era4ini7\'s2caci4o3camise6o4iola3eres3ioppo3kling2daver7s3bury7\'s3dying5shack3ena5ces5head3ieux4llac8\'s8s3mium3netix3ogan4rette2esarean9s3tano2faro3feinate5rty6y2halan4sa3ora2iazzo3cedo3llier3ola2joling2labro4han4me5ine8\'s4ndra7o5tha4rco4way3cagni7o4ified6y5um4ote4ulate9s6us5tta3deira5ra6on6wood4rello3eca4mburg4ndar8s6er4ro3gary3ia4ber5rate4co4da4per7s4ri4sta3lable5ghan5ham7n8\'s5nan6der5ri5way8\'s4eja7s5nder5ry4icoat7tt6utt5er5gan5han5nan5son6ter4ously7ness5way4ula3maquip3oric6e7s4way3pers\'s3umet5ny4tzi4zu5zi3vani6o5ries6y4eras6ley6y4illo5na6ist6o3ypso7s3zada2macho4guey4ra5go5o6s3bior4ria7n8\'s6dgeport9side3corder9s3dessus3eco4jo4lot4mbert4o5s4ra6s5er5o6n7\'s7s6on3illa6i6o4no4re4sole3misa3omile4rra4uflage9ed3paigner9rs8ing5na6is4fire8s4ion5si4oli4uses3uso2naanite4ce4da6\'s6ir6y5y4le4pe6s4ries5y4sta4van3berra3celing6ling5rous4hola4ienne5lla5no5o3dela6la7in4ia5ce\'s5da7te9\'s9s6ly6o5lin4lelight6r6stick9cks4yman3edo5y4lo4pa3gemi3ida4lles4no4pe4ster8s3nabis5day6y5ta5vo4edy5lla6ton5ries6y4ibal8s5ster9s5zzo4onball6dale6e6sburg3oeing6st4ga4la4nic6e6ze8d4py4sa4va3seco4ler3taloupe9es5ra5ta4ero6ra4ina4onal6e7se4v3vases6sers8s7ing3zano2pable4cious4lbo5di6o4no4sso3eci4lla6i6o4rton3ita6l7\'s7s6n5o6l7\'s7s4zzi3oni4ten4zzi3pella7i7o5tta3raro4ese4ica6es6ious6orn5o3saicin3taining4ioning5vate9s4uring3ua4let4ti5o2racas5ci4fate4her4ker4mel4no4va6n7s5el7le4wan6y3bajal5llo5ry4erry8\'s4onate9s6dale6ell6i7c7ze9d6neau4urete3casses4ione3damom4ella7o5nas4holder9rs4ia6c5gan8s6es5llo5nal8\'s8s5o5zem4oen5na6e6i5sa6i6o7\'s5za6o4ucci3eening5rcom6ing7st9s4fully7ness4giver9s7ing4lessly8ness5la6i6o5ock4na4sses6ing4taker9s4unit8s3fagno4ora3gonoff3ibou4co6m7\'s4dad5i4gnan4ker4lla6o7n5ou4ne5i6i5o4sbrook5sa4ta5hers3jacker9\'s9s7ing9gs3liner6i6o5si5ta6o7\'s4oading9gs5ne6i5tta4ucci4yon3maker8\'s8s5ny4ean5la6ite6o4ical6hael6kle5ta4ody5na6y3nahan8\'s5than6ion9s5uba4egie8\'s8s5iro4ine5val8\'s8s6ore9s3olan5co7\'s5ine8\'s5lan6o5us5yn7e4nna4si4ta5ene8s5hers5id4usel6ing4zza3pencic9\'s6ter9\'s9s7ry5ted6ing4ino5o3ragher5her5nco6o6za5ra5sco6quel5way6ell4eira7o5ker5no5on5ra7s6e6o5tta4iages6n7\'s5co5er7\'s7e7o7s5gan6er5ker5llo5nger7ton9n\'s6o5on5syn5thers5veau4ollton5thers5usel5zza4ubba5thers4yanne5ing5over3starphen5ensen3taya4era6et8\'s6sville5sian4ier5lage4onnage5oning8st9ts4ridges3ucci4so4thers3vajal5lho2sada5o6s5y4le5i4res6z4ssa4vant4zza3caded6ing4iato5o4one3ebeer4lla6i5oads4ra5ta4sa4worker9rs4ze6\'s3hdollar3ias4llas6o4mir4no6\'s6s4o3ler3ola3persen7on4ian3sada7y6y5ndra9s6i6o5ra6o5ta4edy5lla6man5rly6ole5se5tta7y4ia5day6y7\'s5ni7\'s6o5ty4one6i7\'s4tevens3tagna7o5ldi7o5no7n5way8s4ellaw7i7o8n7vi6o5rline4igate9s5lla7o8n5ne5o4leman4onguay5rena6o4rated7ing8on9ns5ejon5illon5ucci6ita3ual6s2tacomb8s4la6n7s5di6o5og7ed7s7ue9d9s5yst8\'s8s6ze8d4mount4nia5o4pult8s4ract8s4wba3chacan3elli4na4rer7s5ing8s5waul3harsis6tic4edral9s5rine6man6wood5ter8s4mor3ija4no4on3rambone3tanach6i4erall6son6ton4lemen9\'s3woman2ucasian9s6us4us\'s6es3dillo3sation7ve3terize9d4ioning6usly8ness2vaco4lcade5ier8s5li6o5ry4nagh6h6ugh5ess4zos3eat6s4naugh5der6ish4rly5nous3iar6\'s4ness4ties5y3orting2yuses2zares3enove3ier1bc2s1cd2s1dc2rom5s1ea3sefire9s5lessly3ucescu4sescu9\'s2ballos3ula5ski2cala3chini4oni3elia4re3ilia3ola2deno4rberg5gren5holm5quist3illo3ras\'s4one2falo5u2gielski2ladon4ndine5ese5i5o4ya3ebate5rant9s7te9s6e4na4ron5y4sta6ial7n3ibate4ca4mene4na5da4o4um3lini5o4ophane4ucci5lar8\'s6oid7se3ona3sius2mented6ing6os2ndejas3ergy3soring6ship4uses3tanni5uri5vos4eno5rbanc9k6fold6ing6piece6ville4igrade8m5pede4ocor8\'s5la5xin4ralists8ze9ed7ly5ella5ifuge5omin6nics4uri7es6y7\'s2o2peda4ro3halon2raceous4dyne4mi6c7s3cone3eal6s4bral4dase4no4zo3ino4o3nuda7\'s3one3rato4eta4ito7s4one4uti3tainly7teed8ies8y4ified9\'s8s6y5tude3ulli6o4tti3vantes8z4enka6y5ra5za4ical5ni4one2sare5o3ena3ium3pedes3sation3taro2tacean3era3us\'s2vallos4xs1fo1gi1hadderdon4ian3idez4rez5manship9hips5people7rson5woman8en3labi4ifoux4lender7ger9r\'s9rs9s8ing4oupka4upa3mberlain9in\'s9nd9yne8in7s\'s4omile5nix5rro8\'s4pion8\'s8ed8s3ncellor9r\'s9rs6ry4delier9rs5rika4geable6over9rs4neling4tilly4ukah3otic3parral7o4delaine4erone9s4oton4pelear5uis3racter9\'s9s4boneau7neau9t4cuterie4donnay9ys4geable4iot7s5sma6sa5ta6ies6y7\'s4latan9s5ebois6magne6sworth6voix5ier5ottesville9town9ville4mian6ngly6on4pentier4rier4terhouse7ing5ier4woman7en3stises7ing6ty4uble3taqua4ichai9\'s4tering7jee7ton9n\'s3utauqua9an9ans4vinist9ts3valit4ira3zanoff2eapening3brikov4yshev3chnya8\'s8n9\'s9s4kerboard9ards7spot3dester3erfully8ness5ier7st6o7s5leader9ers9ing4seburger9gers5ier7st3lyabinsk3mania4design4etron4ical8\'s8ly8s5stry3nevert4oweth6itz3ramie4ico5shes7ing4nenko5obyl9\'s4okee8\'s8s4rier6ngton5ystone9nes4ubic4venak3sapeake4ebro8ugh4hier4ler4terfield7man7son7ton3valier4erly4iot7s4rolet9\'s9s2ianti4pas4rnim5o4sso7n3cago7\'s7an5no7s4hauha9\'s5ester4kasaw9s5ening6ring3dester5ya3huahua3kane3ldbearing5minder5raising4ean7s5s\'s4lemi5icothe6er7st6ngly3mayo4enti7o5ra6ine4icles4panzee9es3natown4chilla4nici3odo3pello5tas4ita4maker9s4otle4pendale9les6wa3quita3rico3seling5nhall4ler4sano3tinous4tenden6rlings3valry3yoda2lebowski3orinate5oform6phyll7last9sts7rene2mura2odorow3iniere3jnacki5owski3lera6ic5wa3psuey3rtling4uses3tilla3vanec3wdhury2ristabelle7kos6endom8ing8sen9on7son6iaan8ne9ize9ized9ne9sen9son9sted7na7son6mases9time6offel7phel9er9er\'s3omalloy5inance6um5osome9es4nicle9\'s9d9r9rs9s8ing6ster5owitz4stowski3ysalis2udzinski3goku3rchgoer9rs8ing4illa2ykatka3noweth1ia3ccio3lis3ncio7la8o6ulli4o3obella2bula2cada6s4la3carone4one3ely4ro6ne3hocki5wski3ily4o2esielski4lewicz5inski2felli3uentes2garette9\'s9s2lantro3ento3iates4cia3luffo2marron3ini5o3mino2ncotta3elli4ma6\'s6rk6s6x4plex4rgy3gular3nabar6on5mon2o3ffi3lek4ino2polla6one2raulo3cling4uited7ry5lar8s7te9s5mcise9ed6ference6scribe9ibed7pect7tance6vene9t9ts5s\'s6es3elli4si3illo4no3rhosis2sewski3ler3neros3tercian3zewski2t3adel7\'s4tion8s3ibank8\'s4corp8\'s8s4steel4zen7\'s7s3rano4ucel8\'s5s\'s3yfed4place4search5ide4trust4wide2udad2vilian8s6ze8d5ly2zneros1lackamas3irvoyance9nt3moring3ndestine3psaddle3rabelle5mae4endon5sta4ibel5da6ges6on5fied8s6y5mond5nda6et5on5ssa5ta6in6y4ostat3ssaction9ons5ical9ly7ist6er6fied9ds9s7y3ttering3udia7n6na6o6us3vichord6le3ymation2eanliness4rances5cutting5inghouse5water4venger3matis4ency6sen7on6te8\'s8s7i8a8ne7son3ndaniel5enen7in9g7ning3rgyman7en4ical5ssa3velander9ers5nger5rer6ly6ness4inger3wiston2iantha3entele3ffhanger9ers3maco6tic5tic5xes3ngenpeel6rman4ical8\'s6ian9s4kenbeard4tonite9es3ppinger3toris2o3bbering3dfelter3herty5ssy3nidine5nger3rinda3seted3tfelter4hilda4ilda3udiness4gherty4thier5ier3verleaf3zapine2ubhouses3msily6ness3stering3ttering1mu1nn3\'s1oalesce8d3rsening3uthor8ed8s2bblestone9nes3epa4rly3ia5n3ler4iner2ccaro3hairman4enour4lea7r4ranton3katoo8s4erell6ham6ill4iness4roaches4sucker3oanuts4nut7s4oning4zza3uzza2ddington4ling3ebreaker9ers4lco4sa3ified7s5y3rescu8\'s2elacanth4ho4lo3nen4zyme3qual3rcing6on6ve3xist2ffaro4eehouse3ounder2geco4ncy3geshall3itate3netics4ition7ve5zance8t2habit4sset3ea4nour4rence7t4sion6ve3iba2incide8s2jimar7\'s3uangco2laizzi4nder8s3chicine4lasure3diron4ren4water3eco6\'s4lla6o4son5tipol4tta6i4us3ier4form8s4na6s5e5o3lado5gen7s5more5pses7ing5rbone5zo4ected7ing8on9ns8ve9es7or9\'s9s5ge\'s7s7ville6ian9s8te5nder5ran5tta7i4ided7r6ing5gan6non5ngsworth7wood6s\'s7on7worth5sion9s6on6ter5ver4oidal5py5quy4uded6ing5ra5sion7ve4yer3odny4ma5be6o7\'s4nies6st8s6ze8d5na7de5us5y6\'s4py4rblind5craft5eds5fast6ul8ly5ing6ze8d5less5ocs6ll5watch4si5sal6us4uring3pepper3ucci4mba6ine9s6o6us5nist9s4nga4ssy3yer2manche8s5deer9ed9s4rco4tose3batant9s6ing7ve6ting4ining4ustion3data4isco3econ4dic6es5y6\'s4gys4lla4rford4tra4uppance4x\'s3finance4orted8r9s7ing3ical4nco5o5sky5tern4skey4to5y3mandant7ed8er9red8r9\'s9s7ing7ment9nts7o8s4encement8s7ing6ded7ing6ted8r9s7ing5rce\'s7ial9l\'s9ls6ford6ical6zbank9nk\'s4ingle9d5sion6sar9s7ion9n\'s9ned9ns7o5tee6ment9ts6tal7ed8e9\'s9s7ing4odore9\'s5ner8s6ly6place6sense6wealth9lth\'s5tion4unal6ing7on7st9\'s9s7ze5tate6ed7r8s6ing3oros3pacted7ness7or5gnie5nies7on9s6y7\'s5ring6tment9nts5ssion4elling5nsate9es5ted7nce8t6ing4iler8s6ing4lacent6inant9nt\'s9nts8er9rs8ing7sant5ection9ons6ment9ts6ted8ly8ness7ing8on9ns6xes7ion9ns5iance8t6cate9es7it6ment9ts5ying4onent9s5rted7ment5ser8\'s8s7s6ing7te9\'s9s6ting6ure5unded8ing4rehend9ds6sses8ing9on8or9rs5ises7ing5omise9ed4troller9er\'s7nix4uadd5chem5dyne5fund5lsion9ns8ve5mat5nction5serve9e\'s5ted7r8\'s8s6ing6rac5ware3rie2nable7\'s4gra7\'s4han4tser5y4way3cannon4ealing7ment5ded6ing5ited6ving5ntrate9tes8ic5ption9ns5rning6ted7i7o8s5ssion9ns4hemco5ita4ierge5sely4luded7ing6sion9ns8ve4octed7ing8on9ns5urses4retely4ubine9s5rrence9t7ing5ssion9ns3dello5mning5nsate9es7er7ing5scend4iment9s5tion9ed9s4olence5ning4racky9\'s5en5y4ucive6ted7ing8on8ve7or9s5it7s3eflower4rly5y3fection9ns5ree8s7nce9ing6ring5sses7ing8on9ns5tti4idant9e9s6ed7nce8t6ing5gure9d5nement6ing5rming5scate4lation5icted8ing5uence8t4ormance7ing8st9ts6ti5unded8ing4ronted8ing4ucian7us5ses6ing7on9s3genial5ries5sted7ion8ve4leton4olese4regant9ts8te6ss\'s8es8man9an\'s9en5uence8t3ical4fer7\'s7s4ston3jecture9es4ugal7te9s5nction9ons5rer6ing6or3nally8\'s5ughton5way4ected8r7ing8on9ns8ve7or9s5ely5lley7y8\'s5rly6y7\'s5xion9s4iption5vance6ing4oisseur9urs5lly3oco6\'s4lly5y4ver3quering7or9\'s9s3radi7ne6y3salvo4ciences6ously9ness5ripted9ion4eco7\'s6rate5nsus6ted7ing5quence9t5rving4ider8ed8s6ine5gnment5sted8nce9t7ing4oli7ng6o5nant9s5rtia8ng8ums4pire8d7ing4table9s6ncy7ta8in9ne8ly5ipate9es6tute9es5raining6icted9ing9ion9ions9or9ors6ucted9ing9ion9ions9ive9or9ors4uela5lar7te9s6ship6tant9t\'s9ts7ed7ing5mer8\'s8s6ing6mate9es6ption3tacted7ing7less5gion8us5iner9\'s9s7ing7ment4emplate9tes7o5nded8r9s7ing6ted7ion9ned9ns9us7ment7o5stant9ts7ed7ing4ibel5nent9\'s9s6gent9ts6i6o6ue8d8s4orted7ion9ns4raband6cted8ing9on9ons8or9r\'s9rs6dict9ts6ption9ons6ry6sted8ing6vene5eras6temps5ibute9es6tion6vance5oller9r\'s9rs8ing4ura5sion9s3undrum3valesce4ection8ve5nience9t7ng6tion9n\'s9ns5rgence9t7ing6sant7ely8s7ing8on9n\'s9ns6ted8r9s7ing6y5yance6er6ing6or4icted7ing8on9ns5nces7ing4olute4ulsant9ts7ion9ns8ve2ogler3kingham3lidge\'s5o3perage6man6smith7tein8own4rider2partner9s4yment9s3elan5co5in4tas3iague4er6s4lot7s4ous7ly3len3olla7\'s3perfield9ld\'s9lds6head9ds6man6noll6smith6weld6y4inger4ola7\'s3ulate3ycat7s5ode8s4ing4right9s4write2rabelle4cle4lie6ne5lo4zon3bello4usier3coran3daro5sco4eiro5ro5sman4ially6nt8\'s5er4oba7\'s7s5va6er7z4ry4uroy3ea4lla4tta4xit3ia4er4na5na5to4o4sa5sa3kery3leone3many4ican5er4orant9s3nea6s5jo5la6ia7us5rback6ing6stone9nes5ttist4flower9rs4husking4ia4wallis3olla4na6\'s6l5er7\'s7s6t7s3pening4ora7l7te9s9watch4ulant3radi6o5les6ling4ea6le5cted7ing8on9ns8ve7ly7ness5ira5late9s5nte7i5spond9ds4idor8s5gan8\'s5her5na6gton5veau4oded5sion7ve4ugate5pted7ing8on9ns8ve7ly3saro4ello5tti4ica7n7s5ni3telyou5se6i4ical5na7s5sol7ne3undum3vallis4ino3zine2satu6\'s3enza4ratz3ima4o3metic8s4odrome5naut9s3ponsor9s3siga3tabile5no6za7o4cutting4ella7o8\'s4igan5lla6ow4lier7st4umer8s3urtuh2terie3hren3ija4lla3ler3rone3tages4erill6man4ier5ngham4one6gin6mouth6seed6wood9ds3ugno2udersport3ghenour3lombe3ncilman8en7or9s4ihan4seling7lor9rs7man7or9s4table5enance9ced6ract7bid9ds7charge8laim9aims7feit9its8orce7ing7life7man8ove9ves7part9rts8oint9ints8unch7strike8ue9ed9it7top9ps8rade7vail7weight9ights6sses5ryfolk7man8en7side7wide3poning7te9s3rageous4ier7\'s7s5ngton4noyer4tenay6ous6sies7y5houses5ier8s3sineau6o3villion7on2valent4ries4tta3elli6o4nant8s5ey5try4rage6ll8s5dale6ell5ing8s5stone5tly5up7s4ted3ia4na5gton5o2wardice6ly3dery3eda4ring3lings\'s3orker8s3perthwaite2ykendall3ote6s2zier4ne6ss3ying1ps2u1rabeater3ckerjack3dling3ftsmanship6people3nberries8y4ium3ry3ssweller9er\'s3wfordsville3zier6st5ly5ness2eager4mery5ier7st4ted5ing6on8s6ve5or7s3dential9led9ls6za4ible7y5tbank6ed6hrift6ing6o7r8s6watch4ulous3epiness3mated6ion3nelate3olize8d4sote3scendo7zi8o4tfallen3taceous4ella4singer3veling4ices5er5ston2ibari3mea4inal8\'s8s3ppling3safi5nti4cione5uolo4ler4pina7o4scrossing5inger4tabel5ina5obal7el9\'s3telli4ical6ize9d5quing4tenden8on3varo4elli7o2m2nkovich2oatia7\'s7n8\'s8s3chetiere8ng4kery4odile9s4uses3martie3okedness3ssborder5current9ents5over5pieces3tchety4onville3uthamel3vitz\'s3wborough4keeper9rs4nover2ucially5ble5fied7x6y3ea3ikshank3mbling4itie4packer5ler3nkleton3sader8s6ing4tacean9ns8ous3zado7s2ybaby3derman3olite4nics3sler4talline9ze9zed1si2v1uadra3jone2bbison4yhole3icle7s4sm2ccaro4io3umber8s2dahy3dihy2ello2gini2idado3sinart9s2lberson6tson3lerton9\'s5ton4ifer5gan5more5nan8e6et5pher5son3minate9s3pable4epper3tivate9s4ural6ing3vahouse4erhouse2mberbatch6land7edge6some4ia6s3mington6s\'s5skey2nanan7\'s3dari3eo3ningham9m\'s7ton2perose3ola2rable4cao4re5i4ted5ive5or7\'s7s3belo3cio4uru3ington4o5s5us3licue3mudgeon9ns3rencies7y8\'s6tly5ri4ier5ngton4ying3sory3tailing7ment9nts4singer3vature3zio2sano3hioning5tic3mano3tody5mer8\'s8s6ize9d2taia4way3esiness3hbertson3icle4llo3lery3rona6e3singer3tino4lefish3ugno2velier1wiertnia3klinski1xc1yanide2bercash5porn5sex6pace5trend9ds3ulski2clades5men4ical8s5ng5st7s4ops\'s5stome9es5tron3olor2linder8s2nara3ical3osure3thia7\'s2press\'s4ian5ot7s2rano3ena3illa6ic4x\'s3ofin2togen4tech8s2winski1zajkowski3plewski5icki3rnecki2echowski3rniak4winski5onka2yzewski0d\'alessi3mato4ico3ndrea3rtagnan3ubuisson2escoto2olier2souza1abbling3kowski3rowski2cia3osta3quisto3unha2damo3dona3isman2edalus2ffodil8s2gata3enais5ham7rt4stan2hlheimer2igrepont3hatsu3ichi3nippon4tily3quiri3rying5men3showa2kota6\'s6n7s6s2lafield3eiden4o3fonso3gety4leish3ian4la3lara5s\'s4iance3matian9s3oia4nzo3piaz4orto3rymple2maclean4ges5ing4ris4scus4to3bacher3erlin5on3ian4co4en6\'s4ta3merman3nation3ocles3pening4ier2naher5y3bury3canet3deneau4rea4urand3ella4se3gelo5rfield6ous4ler5ing3ica4ela6la7e6s\'s7en7ki7on4loff3nelly5meyer5nberg3owski3sereau3toni4uono3ziger2ponte4zzo3uzzo2quila2rbyshire3edevil9s4mblum4nsbourg3ia4en6zo4o4ty4us3jeeling3kening3lington3ocha4sa3pino3rigo5ngton2saro3cenzo4oli3eke3hiki3ilva3tardly2tabase4card8s5omm7p4point9\'s9s6wer4quest9\'s4ram5ex4set7s3tilo3ura2ubenspeck3delin3fuskie3ghenbaugh6rty6ty5tery3phinais7ee3ria3terive2valos4nzo3enport9\'s4rsa3ia4da5e5off6w5son8\'s4gnon4la5la4na5ci5o4o\'s4s\'s5on5son3oli3ydov2ydreaming3tona2zzling1dt1eaconess3dening4lier7st6ness4wyler3fening3lba4erline6ship9p\'s9ps4maker9s7ing5eida3na4da5rade6ea8\'s4gelo4na3ringer3therage3vila2backer5le7s4key4rment5ros4sement5ing4ted6r7s5ing5or7\'s3elak5la6is6o4nture9s4rry4voise3ian4ted3oer6s4na6ir5is5o4rah7\'s3raudwick4ecen4iefing4uin5ler3tholder9rs3ugging4nking4ssy7\'s4tante9s5ing2cadence7t8s4nting4rli6o5o4stro4thlete7on5o5ur4ying3ecco4dent8\'s8s4itful5ving4mber8\'s4ncy5tly4ption9s7ve3hellis3ibel7s4cco4ded6r5ing4ma6l7s6te4pher8ed4sion8\'s8s6ve3larant6ing4ension9ns4iner8s6ing3oded6r7s5ing4la4mpose9d4nstruct5trol9led4rate7ive5ous5te5um4sta6e7r4teau4uple7ing5rcy6sey3reases7ing5pit4ying3urtis2decker4rick3icate8s4os3ucted6ing7on9s7ve2epening4water2facing4lco4rges4ulted8r9s7ing3easance5ted6ing7st4cted6ing7on9s7ve6or8s4lice4nbaugh5dant9\'s9s6ed7r8\'s8s6ing5se\'s7less7s6ive4o4rence5ment9s5ral8s6ing3fenbaugh3iance6t4baugh4cient6t7\'s7s4na5ing6te5o3lated6ing7on6or4ected7ing8on7or9s3ollet8s4rest5rest3ranco5tes5uded7ing4eitas4osting3unding4sco5ing3ying2garmo3ener5hardt8t4orge3race5ded6ing5sse5ve3uerin4ire4ssa4zman2harbe4ven3ere3oyos3ydrate2ibler3fied4y3ninger3sher4m3ties4y2jager4rnett9e3ected4sus3oseph2keyser3oning3uyper2lacroix6uz5y4field4grange4hunt4mar4ncey6y5ey5o6y5y4paz4ra4shmit7utt5ki4uder5ghter5ra6el6o5ter4val6n4ware8\'s5der4ying3barco8\'s4ene4uono3cambre6po5rlo4ine4onte3duca3ebarre4euw4gate8\'s8s4llis4o5n4ted5ing6on8s3fina6e6o3gadio6o4iorno5udice4rande5eco5osso4uidice3ial4cate5ia6ous4ghted7ful7ing4la6h5lo4ma4ne5quent9ts4o4sa5i5ted6ing4ver7ed7s3leri4inger3marva5stro4onte3negro5ro3oney4ra5es6y5is5me4uis3phia6na7e4ino5zzo4onte5zo3rina7\'s5o4ossi7o3santo3tacorp5ic4ona7\'s5ro3uca6s5ca6hi6ia5ia4ded5ing4ise4na4sion8s3valle8\'s2magogue9s4nded6ing4rais6y5chi6o6us5ee6st5is5tin5y5zo4si5ters4tteis6ia4uro4yo3binski4owski3eaning6or8s7ur9s4llo5o4nted4o4ree5ger5ist8\'s6t7s7t5y4ter5re4yer3icco5hael6ele4lle5o4rag5el3janjuk9\'s3ocrat8\'s8s4lish8ed4nic6ze8d5strate9tes5te4rest5y6\'s4ted5ion8s4ulin3pewolf3urely5o5ring2nardo5ii5o4ture8d3boer3dinger4ritic3enberg3gler3hartog4erder3ial6s4grate6is4o4ro6\'s4son7\'s5ton4zen7s3nehy4inger7ton5son6ton3oble4ted5ing4uement5nces7ing4yer3sities6y3tino5stry5tion4remont3ucci4ded5ing3ying2orbit2pace4lma7\'s5o4ola6i7s6o4rdieu5ted6ing6ment9t\'s9ts6ure9s4ula6o3ended7nce8t9s6ing4tro3hillips3icted6ing7on9s4etro4na5to3leted7r8s6ing7on4oring5ying6ment9ts3olo4nte4rted7e8s6ing6ment4si6t7s3recate9s5nyl5ssant9ts7es7ing8on9ns8ve4iving4ogram3tula3uties6ze8d5y2queker2railing6ment9ts4mo5us4smo3byshire3cole3ecktor4lict8s4mer4nzo3hammer3ickson4da5der5ed5ing4enzo4nger6ton4sion6ve5o4ving3magraph4ody3occo5her4sa5sett3rickson6o5da5nger7ton3showitz3ubeis4iter4ko4sha4yter3vishich3winski2sai4lvo4nctis5ti7s6o7s4utel8s3cendant9ts7ed8nt9ts7ing6za4hepper5ler4oteaux4ribing6ption9ons9ve8or9rs3ecrate9s4na4ret5ted7r8s6ing7on9s5ving3hazer6o4otel8s3iccate9s4gnate9s6craft6ee8s7r8\'s8s6ing6or4lets5lers5va4o4re6d6e6s5ous4sto3jardin9s6lais3marais4ona3noyers3olate4rmeaux4to4usa5za3pairing4ina\'s5ses6ing4ondent5tic3rochers8s3tinies6y5tute4royer9s7ing5ucted8ing9on9ve2taches6ment4ilee7r6ing5nee8s6ing4more3ected6ing7on7ve9\'s9s6or8s4mple4ntion9s4rding5gent9s5man6ent6ine9d9s5rence8t9s6ing4sted3herage4lefsen4omas3ienne3lefsen3onate4re3racted7ing7or9s4iment5tus4oiters3tinger4ore3weiler4iler2ubler3terons2value7d4ney5y4state3elcon5op7ed7s4ndorf5ey5ney6y5port5y4ra6ux5e6aux6ll6ux5oy3iance6t7s5te7s4ce\'s6s4lbiss5lier9\'s5wood4ncent6i7\'s5ey5ney5o4ous4ses5ing4ta5o4vo3older4na5shire4ted6e7s5ing6on5o4ur6ed6s5tly2wberry3inter3oody2xheimer2zeeuw1hananjay1iabase4lo3dem3gnose8d4ram7med7s3lect7s4ing4og6ue8s4tone3mant3na5\'s4na4tha6e3pering6s4hragm4sid3ries4y3sa5\'s4tase3toms4ribe8s3zo2bacco4ri3ella6o3lasi3ona3uono2camba4rlo3ecco4llo4nso5zo4on3hroic6mate3icco4er3kason4ens\'s7heets7on5ring6man6son5son4inson5son4meyer3occo4la4med3taphone5ted6ing7on6or8s2dactic3ier4on6\'s3onna2ederich3fenbach6dorf4fenbach3go5\'s3ringer4king3terich6le6s4ing2falco3elice3ference8t9ly6ing4icult4raction4uses6ing7on3onzo3ranco2gangi3ested7r6ing7on7ve3icon4dyne4oia4tal7\'s5ech5i6ze8d3nified6y5ty3resses7ing8on9ns2ianni2lated5ion4ura6o3dine3ella6o4mma7s4o3igence7t3lahunt4ehay5nbeck7urg5tante9es4inger7ham3saver3ullo4ted5ing6on6ve2mambro4rco5e5zo4si4uro3ension9ed9s4o4tapp3inish8ed5o4tri6off6uk3ona4rphic3uro2nardo3gledine6r3ino4us3nertime6ware3osaur8s5eb4to4vo3widdie2ocese7s3na3rite3s\'s3xide7s5n6s2palma4njan3erna3iero6ro5tro4nto4rro3loma7s7t8\'s8s3rima2rected6ing7on9s7ve9s6ly6ness6or8\'s8s4nzo3ickson4enzo3occo4sa3tier6st3usso2sable7d7s5use8d4ffect4gree8d8s4llow8ed5vo4no5ti7s6o4ppear9ed9s6oint9ts6rove9ed9es4rming5ray4ster8s6rous4vow7ed3banded7ing5rment4elief8ve4ursement9ents7ing3carded7ing4enza5rning7ment4harges8ing5inger4iple8s7ine9ed9es4laimer9rs8ing5oses7ing7ure9es4olor8ed8s5mfort5ncert6nect9ts6tent9ts5rdant5theque9ues5unted9r9rs8ing6rage9ed7ses5ver8ed8s4redit9s6etly6tion9ns4ursive5sses7ing8on9ns3dainful7ing3ease\'s7s4mbark4ngage9d3favor4igure9d3gorgement4raceful5untled4uises7ing5sted7ing3haroon4eartened5vel8ed4onest6or8ed4washer9rs8ing3incline9ed5fect6late6orm5vite3jointed3liking4ocate5dging5yal3mally5ntle9d9s5ying4ember9ed4issal9s7es7ing8ve4utase3neyland6world3obey7ed4rder8ed8s3parage9d7te5tcher9r\'s9rs9s8ing4elling5nser9s8s7ing6za5rsal8nt9ts7ing8on8ve4lacement9ents8s7ing6ying7write5easure4osal8s6er7s6ing6sess9sed4roven4uted6ing3quiet3raeli4egard9s5pair6ute5spect9ts4upted7ing8on9ns8ve3sected7ing8on9ns5mble8ing5nsion6ted8r9s7ing5rvice4idence8t9s5nger5pate9s4olver9s7ing5nance8t4uaded3tances7ing5si6teful4emper5nded4illate9es7er9\'s9s7ing5nction9ons9ve8ly6guish9shed4orted7ing8on9ns4racted8ing9on9ons5esses8ing5ibute9es6cting6gas5usted8ful4urbance7ing3union2thering4yramb3tberner4emore4ohead2urnal2valent3elbiss5ey4rgence8t7s6ing5sion9s5ted6ing4sted6ing6ment9ts3ided6nd8\'s8s6r5ing4nely6y5ing4sion8\'s8s6ve5on6r4ta5o3orcee7s6ing3ulging2wali2xieland2zziness4ying1jakarta8\'s2ibouti2urdjevic1louhy2ugos6z1mitri2z1na3se2c2s1oable2bberstein3erman5stein3ias3ler3meier3ransky4imir5nja6ski4owski4ynin2cherty4terman3ila3kendorf5ry4stader4worker9rs3toral7te9s6ing4rinaire8l3ument8s2daro3dering4ington2ebler3rfler4ing2fasco2gberry3earing3gedly5rel3houses3matic2heny4rty3nanyi2lata3ecki4zal3inar5ger5ski7y3larhide4houses4inger5son5ver3omite8\'s8s4res2manski3bkowski4roski8y6wski3eier4nech5ick4stic8s3ical5o4na6nce7t6te8s5e6e7r6y5go7s6ues8z5i6c7\'s7k6k6on8\'s8s6que5o6\'s6es6s5quez5ski5us5y3oling3zalski2naghey6ue6y4hey5o6e6o5ue4lda6o7\'s6son9\'s9s5son4ta5ed5han5i6ng6on8s6sts5o4van4way3dero3egan4hoo4lan5la5son3ia4ca4gan5er4lon3moyer3nellan7ey9\'s7y8\'s4ybrook3oghue8\'s4ho6e6o5ue7\'s4van7\'s2olittle3msayer9s7ing3nesbury3rdarshan4enbos4keeper2pamine2rado4lin5ynne4ville3chester3ea4mus4na4tti3ia5n6s4nda5e4o5n4tos5y3mancy4iney3otea5hy7\'s3sally3thea2sages3hier3ia4er3kocil3pasos3santos3toevski9y2tterer2ubleday6speak6think7ree5ing4rava4tfire9\'s9s3gherty4las\'s2verspike2wager3ngraded8ing9ngs4ingtown4loaded8ing4payment9nts5laying4river4sizes7ing9gs4trodden4voted7ing4wardly2xtater2zier1rabenstott4insky3chenberg4ula3ftsmanship3gonair6head9rt5vich3huschak3mamine5tic8s7st7ze9d3peries6y3stically3vecky2eadfully4riness3chsler3ibelbis3ssier5maker9rs8ing3wery3yfus\'s2ibbling3nkable5water3vable4erless3zzling2oessler3llinger3wsiness3zdowski2udgery3ella3gmaker9s3isilla3mheller3nkenness3silla2ycleaner8ing2zewiecki1souza2s2v1ualist3na2barry3berly3erstein9n\'s3icki4lier4nin5sky4ous3rawski4ovnik9\'s9s6sky3uisson2chemin5sneau4ossois3ommun2dayev7\'s3ziak5nski2elist3na5s3sler4seldorf2ffala2hamel2i2kakis2laney5y3cea4iana5belle5mer3lea2mbfounded9ing4ledore3enil3ire3oulin2nagan4hoo4van7t4way3canson3edin4gan3igan4van3kelberg5rley3laevy5vey6y4eavy5vy3mire3nagan5vant5way4igan5ngton3woody2plantis4echain7in5r5ssis4icate9s2rable7s4cell4kon4med4ndo5go5te4tion8s4zo3io4ron3ocher3yea2shyanth3seldorf3zynski2tiful3kiewicz2valier8s3ernay1vd3s2oracek1warfism2indling3vedi1yana4sen3tron3zide2lewski2mally2nafac4mic7s6te5o4pac4scan5tic7es6y4tech2sfunction9ons3inger3lexic3peptic4horic4lasia4nea3trophin8y1zhirkvelov2ialo3kowski3uba0eagerly5ness3leson5ton5ye2p2rlier7\'s6st4ywine3marking3nestly7ness3pieces3thenware5moving5shaking2sier5st4ly3tender9s5rbrook6day6lin9g7y6ner9s6wood4over3udes2table3eries5y3herly6ton2venson4sdropping1bano3sco2eling3rhard8t7t4le6in5in7g5y4sol7d7e5tadt4wein2inger2len3ing2ola3nic6s4y2ullience8t1ccentric9s3leston2evit2helon7s4mende4nberg3idna3ograph4hawk8\'s4ing2kenrod8e7th4rle5man5sley6on2lectic3ipses6ing5tic2ogen3lab5ire3nships2stasy5tic2uador7\'s2zema1dana2dinger6ton3leman6on2elen4ine4man7\'s7n6r4son5tein4weiss3ma3nfield4ton3rer2gerly5ton3iness5gton9\'s2ible6s3fice4y3ger3na4ger5ton3son6\'s6s4to3ted4ha4ing5on7\'s7s4or6\'s6s3va5l2leman2minster4son5ten7r6on3onda6son5son6ton5ton3unda6o6son2oardo3uard2rea2uardo3cate7s2wardine6s\'s7on3ina1eo2rily1fecto2facing3ected6ing7ve6or8s4rent5son3icient4gy4nger6ham3luence7t3ortless3usive1galdey2berta6ine2eland4er4hoff4ston4ton3rer4ton2gebrecht3leston5ton2lantine3eston2otist2regious2yptair5ian8s1hinger2linger2renberg5feld5halt5krantz5reich4sman3lichman1ichenbaum7erg6laub4inger4ler3kmeyer2fler2ghtieth2ichi2lerman2nbender3dhoven2rena2saman3enach5bach7rth6eis7rg6raun5hardt8t6our6ut8h5man8n5stadt7ein4rman3inger3sler2zenstat1jected5ing6on1kk2ofisk1laborate3ina3min3rdo3stic3ta4ed5r6s4ing5on2berson5ta6ine3owing5room2chibey3otel2derkin5ly7\'s5man5s\'s3ora3rida2eanor7\'s7e4zer3cted5ing6on8\'s8s6ve8s5or7s5ra6ic8\'s8s7que6o7de9s7n8s3gance6t4y3ktra6isk6on3ment7s3na5\'s4baas4ore3phant8\'s8s3tr3vate7s4en6\'s6s6th3xis2freda4ida5eda2gersma2ia4des4s3cit6s4ker3hu3jah3nor3o4t5\'s5t3sa5\'s4ha4on4sa3tist7s3xir3za2kington2lamay3efson4good4mann4na5berg6urg5der5pore5son5wood4rbee6rock6y5ey5man5tson5y4stad3icott4jay4man4nger6sen7on7worth6ton9\'s6wood5wood4ot6t7\'s4psoid9s4s\'s5on6r5ton4thorpe3wanger3yson2mendorf3ira2nora2oisa3mmal3ngate3quence7t3uise2rica2sasser3berry4ury3ea4sser4vier8\'s3inore2tringham2uded4ing3sive2vera3ia4na5gton4ra4s\'s2ysee6s2zinga1mailing3nate7s2balming4nkment9ts4rgo7ed8s5king5rass9ed4ssies6y7\'s4ttle8d4yment3edded6ing4llish9ed4rson5ton4zzle8d8s3itter8ed3lazon8ed4eton3odied7s5y4lden8ed3races6ing4oider9ed4yo6s3ury2elda4ie5ne4yne3ra5nt5ude4gence7t6s5ing4ich6k5ne4son7\'s4ton4y5\'s3tic2finger2igrant8s6te8s5e6s3lie4o5\'s4y5\'s3na4em5nce6t3rate7s3son4sion8s3tted6r5ing2meline4rich5ling5son5y3inger2ogene3ry5\'s3tion7s5ve2panel7ed4thize6y3eror7\'s7s3hases6is7ze9d5tic3ire6\'s6s3lacement9nts4oyee8\'s8s7r8\'s8s6ing6ment9ts3ower7ed7s3resa7s3tier5ness4ying2s3lie3wiler2uil5\'s3late7s4ex4sion1nable6d6s3cted5ing5ment9s3mel6ed6s4or6ed6s3sa2campment9ts4rta4ta6\'s3hanted8r9\'s9s7ing7ment3inas5o4rcle8d4so3losing6ure9s3oded5ing4mpass9ed4unter9ed9s5rage9d3roaches8ing8ment9ents4usted7ing4ypted7ion3umber8ed2daka4nger8ed8s4ra3earing6ment5vor8\'s8ed8s7ur9\'s4lman4mic4rby5le6in5son4vco3icott3lessly3ocrine4rphin9s5sement9nts7r8s7s6ing4scope5perm4wing5ment9\'s9s3product9ts3rizzi3timer8s3urance5ing4ser7s2ea3ma5s4ies4y5\'s3rgas5en5ies6ze8d5y6\'s4son2feeble8d3inger3orcement9nt\'s9nts7r8s7s6ing3ranchise9sed2gagement9ts6s5ing3elberg8t6recht5hard9t8t5ken6ing5man8n5son6tad4nder8ed8s4sser3ineer8\'s8ed8s3lander9s4bred4ebert5hardt8t5man5r6\'s5wood4ishman8en3raver6ing9s4ossing7ment3ulfing2hancement9nts7r7s6ing2iac3chem3gma3mont2joining4ying5ment9s2largement9nts7r7s6ing3ighten9ed9s4sted7e8s6ing6ment4ven7ed7s2meshes6ing3ities5y2nea4king3oble7d7s6ing4suke3ui2ola3rmous2queso4ire7r6y2rages5ing4pture9d3ica5hes6ing6ment5o4que7z3ollee8s6ing6ment9ts2seco4mble8s3hrouded3inger3kilda3lavement4en3uing4ring2tailing4ngle8d7ing3ebbe7\'s4ndre5mann9\'s4rgy5ing5line9\'s5prise5ra5tain9ed9s3icement9ts5ing4re4ties5le7d7s5y6\'s3offen8\'s4mbment4urage3rances5pment4eaties8ng7y5growth5kin5nches8ing8ment4ikin4opy4usted7ing4yway3wisle6tle3zminger2velop7e8d8s7s3ious4ro6ns4sage8d5ion8ed8s1ocene2s\'s1pa2eda5\'s2hedrine4sus2icure7s3gram3logue3sode7s4teme5le3taph7s4het7s4ope2ochal3gen3xy2perly5son3inger2silon3omite1quable4ling6ze8d5ly4ted5ing6on8s5or7s3ibank4cor4fax4link4mark4nox4on4pment9\'s9s5ping4tas5ec6x5ies5y6\'s1rakat3mo3ny3ser6s5s4ing4mus4tus3wan3zo2bacher4kan7\'s4mont8\'s3uru2cole2ected5ing6on8s5or3na4sel2ica4hsen4ka5sen6on4son5son8\'s3ka4sen5on7\'s5son3na3on3sa4man3treans2kkila2landson5gen7r3ichman2mina5ie2naline3estine6o3sberger2oded4ing3ica3sion5ve3tic2pelding2ratic3ia4ckson5o4ngton3orful2udite3pted5ing6on8s6ve2wina2xleben2ykah2zurum1sarey2benshade2cada4lade6te8s4mez4ndon4pade8s5ee7s6ment5ing4rgot5pment9ts3hemic5nbach7urg5wing3obar7\'s4ra5ted6ing4to3udo6s4lent2helman3leman2kelson3imo6s2ler2pada4lier4na5ol4rza3ecial8ly4jo4land4nschied6hade4seth3inal5o4tia3lanade3ouses6ing3resso8s2queda4ibel5vel2sary4yist3elman5te4nburg5tial9s4x\'s3linger2tablish9ed5rook9s4tehood3eban4dat4fan4lla4nson4rline9\'s6y4ves6z3hetic8s3imate8s3rada5ngement4ella4ogen8s2worthy2zterhas1tchison2ernal5it2hanol3elbert5da5ine5jean5son5yn4redge5idge5net5ton3ical5ist8s5on4er4ngton3nical8ly4os\'s3ylene4ol2ienne3quette2ruscan8s2tinger8\'s3linger1ucharist3lea2docia4ra2genic7s6e2logies6ze8d5y6\'s2phony5ric6y4rates2railpass4sia7n3eca4ka3obond8s4check9s5om5rat8s4debt4mark4note8s4pa5eenne6wide5hile9s4sid5tar7t4yen2stacia2thanize1vaded5r6s4ing4ne3leen3ncho4der5ro4gi4ko4off5v4s\'s5on5ton5ville3sion7s5ve2eleth4ine4yn3ndale4ly4ness4sen5ky5on4tful3rage5rd4bach4ding4est7\'s5tt7e7s5x4glades5ood5reen9s4hardt7t4idge5tt4last5ey5ing5y4man5ore4sman5ole6n4ton4y5day5man8\'s5one8\'s5place5thing9g\'s9gs6ime5where2ian3cted5ing6on8s3dence8d6t3nger3ta2oking3la4ving1xabyte3cted5ing6on8s5ly7\'s3lted5ing3mine7d7s4ple7s2boyfriend3roker8\'s8s2cavate3edrin4eded6ing4lan5lence9ies9y8t6ing4pted6ing7on9s4rpted4sses6ive3hange\'s8r9s8s7ing4equer3imer4ses5ion4ted6ment5ing3laiming4uded6ing5sion9s7ve9s3oa3rement5ted6ion3ulpate4rsion9s4ses5ing2ecute7s3mplar8s6um5ted6ing7on9s3rcise8d4ted5ing6on8s3ter2hausted7ing8on8ve3ibit7\'s7s3orted6ing2igent7s3sted6nce7t5ing3ted4ing2ocet3dus3rcist8s3tic6s3vir2panded6ing5ses6ion9\'s9s7ve3ectant6ed6ing4dite4lling4nded6ing5ses6ing7ve4rtise6ly3iate4res5ing5y3laining4etive9s4icate6it8e4oded6ing5ited7ing8ve5rer8s6ing5sion9s7ve9s3onent8s4rted7r8s6ing4ses5ing5ure8s4unded7ing3ress\'s7es7ing8on9ns8ve7ly7o7way3ulsion9s2quisite2tended7r8s6ing5sion9s7ve4rnal3inction9ns5guish9hed4rpate9s3olling4rted6ing7on3racted7ing8on9ns5dite9s4emely6ist9s4icate9s5nsic4overt4uded6ing5sion2uded4ing3ltant5ed5ing1yedropper3glasses3lashes4iner3rly4man3shadow3witness1zekiel2ola2rachi0fabela4rman3ia5n4o3ricant7te9s5zi3ulous2cchini3eted5ious3tional5tious4ories7ng6y7\'s4ual3ulties6y2deley3iman3lallah2gerberg5strom2herty3renheit9t\'s6kopf4inger2iella3nthearted3ola3rbrother4haven4weather4yland5tale9s3thfully8ness2jardo3ita6s2lafel4nga5i4rdeau4sco3cigno4onbridge6e7r8s7t8s6i6ry3kenberg6stein4owski3lacies7ous6y4ible3setto8s4ified6y5ty3tering3zone2milial7r6es5y6\'s3ously2nara4tic7s3cier7s6st5ful3dango3elli4uil3khauser3sler3tasia7es7ze9d6tic8k6y4ini4ozzi3ucchi2rabaugh5ee4ce5i4day7\'s4gher5o4ha5kan4nda4way3berware3cical3ese4tlow3gnoli3ia5s4bault4ca4doun4na6s5o3mers\'s4houses4ingdale7ton4worker9rs3nborough3ragut5khan9\'s4elly4ier5ngton5or4owing4uggia6ia3sighted3thingale2sano3bender3cinate9s5sm3hioning3one3sbender4ulo3tener8s6ing9s3ulo2talist8s5ly3heree6hood6ing6land7ess7y3iguing4ma6h3tening3ula4ous3zinger2ubion3lconer4haber3ntleroy3stina7o2vale4ro4ta4zza3ela4ro3ia4nger3oring6te8s4urite2yanjuu3etteville3monville2zekas3io3zino5o1bi3\'s1cc3\'s1da1ealty3sible7y3therbed7ing7less8y7ston9one7weight7y4ureless6ing2dders\'s7en3eli4ral7\'s7s6te5bush5er5le5man5off6v5spiel4wa3iay3ora5chak5ko2hrenbach4inger2igenbaum3nauer4erman2lbatol3derman4meier5uehle3icia7\'s6te4x\'s3leisen4heimer4inger6i4owship9ps3onies5y3senthal3ucca2mia4na5ine6st8s3oral2nagle3derson3ella5on3ian4chell4more3jves3nelly5ma5ssey7y5wald4imore3sterstock3ugreek2odor3la2rarro3derer4inand3ebee4tlow3gason4erson5son4uson8\'s6son3ia3mata4enta8\'s7ed7ing4ilab5um3nanda7es8z7o8\'s4ery3ocious3rando6te7i5ra6i7s6o7\'s4ebee5ira7o5lli5ncy5ra6i6o5ted6ing6ti4ier7a7s5gno5ngton6i5ter4ochrome5ne5type4ucci5zzi8\'s4yboat9s5ing5man3tilize9d5tta3ullo3vently2sler3perman3senden3tering4iva7l8\'s8s4spielhaus2therolf6ston3ishist9s3terhoff6ly6man6olf3uses2uerborn5man5stein2verfew8s5ish1iacco3la3nce6e4na3sco6s3to2berboard5glas9s5web3reboard4onic8s5sis3ula2carra3hera3kleness3orca3tional5tious2dalgo4ta3dler7\'s7s3elco7r5ia4nas3geting3ler3ora6\'s2ebelkorn4iger3nnes3ros4y3sta2ftieth2gallo4ro3htmaster3ler3ueira5ras4ra5ehead5ine8s7g5ski2jian6s2lament8s3ial4gree8s4nski4pa5ek5pi6o7ne5ski3lauer4eted4inger7ham7im3mmaker9\'s9s7ing3ofax4sa3singer3tering6tek4ration3yaw2nagle7r4lco5e5ist8s6ze8d5ly4more4ncement7r7s6ial9\'s9s7er9e9s7ng9s6o5za4zzo3cannon3dling3egan4lla6i4ran5ty5y3gerboard6hut6ing6nail9ls6paint7rint9nts6tip9s3ian6\'s4cky4gan4nvest9\'s4sher8s7s6ing3kbeiner5iner4elman6son7tein9in\'s4ielstain4lea3layson3negan5ran6ty4icum5gan3sider8\'s3ucane2ola3na3re4i2rearm7s4ball8s5ird8s5omb5rand9s6ick5ug6sh8\'s4damp4fighter9ing5lies6y5ox4house4nza7s4place5ower5roof4side6gn8\'s5tine4weed5ood3ino2scally4hetti5ler3heater9s5ries6man9\'s7en6y4monger3ler3ticuff9s2tfully3hian3swater3terer4ingly3zgerald9d\'s5ibbon9ns4harris4maurice5orris4patrick4simmons7ons4water9\'s5illiam2xable4ted5ion6ve8s2zzling1labbergast3gella8te7um5olet4rantly3mboyance9t4emaster5nco4ingo8s4mable5ia3nagan6in5ry4ery4igan8\'s4nagan5ery5igan3pdoodle3ringly3shdances5ier7st3tfishes4tening6ring7y4ulent3via5o5us4orful6ing9s7st9s6less3wlessly2eckenstein3dermaus3etingly3harty3ischauer7hacker3mington5ster3nniken3wellen7ing3xible7y4tronic9cs2ickering5inger3ghtier8st6safety3msiest3rtation9ns9us2oirenda3odwater9rs3ptical3rafax5lly4ea5nce\'s6tine5scue4ia6n5da7\'s5nda6i5o6\'s3tation4illa3undering4rishes8ing3wering6pot6y2uctuate9s3ency5tly3ffier7st3harty3menbaum3orescence9nt9nts3stering3ttering3vial3xional2ycatcher3paper1ocuses5ing2dera2garty3elberg9\'s5man8\'s5son8\'s4rty7\'s3giest3leman5r5song4ia5o2liate4no4o3licle8s4owell7r8s6ing9s6up2mented6ing6o2ndling4ren3seca3tainebleau5na6ez4enette6ot2odmaker9\'s9s4service3lery4hardy4ishly7ness3tnoted7ing2rages5ing4ker4men4ying3bearance4idden7ing3cefully8ness4ible7y5er3ebearance5oding4casted9r9rs8ing5loses8ing8ure9res4father9rs5inger9rs4going4igner9s4nsic8s4person4runner9rs4seeing5hadow9wed9ws5talling6ed7r8s6ry6ville4telling4ver4warning5oman7en3feited7ing7ure9es3geries6y5tful6ting4ione5ven8ess6ing4oing5tten3inash4ster3lenza3malist7ze9d6ly5nek5tion9s7ve6o6ting4erly4ica7\'s4osa6o4ula7e7s7te9s4ylin3restal7er3saken6ing3tas\'s4hcoming5rightly9tness4ier7\'s6th5fied6y5ni6o5tude4nightly4resses4una7te6y3warded8r9s7ing2samax3ler3silize9d3tering2thergill2undation9n\'s9ns5ering3rier4nier4thquarter2xboro7ugh3worthy9\'s1ractional7usness5uring3gale4mented8ing4onard5so4rances3ioli3matome4ingham3ncesca8hi8o9\'s7e5hini8o7se\'s9e9es9r9rs9s8ing5iscan9ns8o9\'s7o7ville5ophile8one4kenberg7field8ood7stein9ein\'s5furter9ers5houser5iewicz6ncense7o5linite8ville5ovich6wski4zese5one7i3ppier3scella3ternal7ize4ricide9es3udulent3zzano5ini2edella5nburg5ricksburg6king4ricksen9on6ksen8on3edenberg9rg\'s4holder9rs4lancer9rs8ing5oader9rs4mason5yer4standing4thinker9ers4wheeling3gia4oso3iberger5urger4ermuth4ghtliner3limo3mitus3netic4ulum3quencies8y7ted8ing8ly3rika3shener9s7ing5water3udenberg7thal5ian3yermuth4miller2iary3cano4tionless3dovich3edenberg6rich8ke5lander5richsen4ndlier9st8ness4senhahn3ghtening6fully3ona3sella4ina6ger3ttering4zinger3volous2ohnmayer3io3licking3mbuger9\'s3ntera7house5runner9ers3stbitten3thiness7gham3wnfelter5ingly2ugally3ition5lessly3strated8ing9on9ons3tiger2yberger3singer1thenakis2p1udala3drucker9rs3osan2erstenberg2gazy3itive8s3otsten2jian4i4o4ta5su7\'s4ya2kuda4i2lani3filling7ment3kerson3lenkamp5rton4ington3minate3via3wider5ler2maroles3bling3idor7s4gate4o2nari5o6\'s3ctional8ing3dacion4erburg9k9ke4ora4raiser9r\'s9rs8ing3eral7s3gible5cide9s3khouser3neling4ier6st5ness2oco2rbishes7ing3faro3gason4erson5son3ia4ni6\'s5o4ous3nace\'s7s5ri4ishes7ing9gs5ture9\'s3rier7s3stenberg3tado4herance7ing7more4ively3uta4ya2saro3elage5ier3ible4llade6i3selman3tian2tterman3urist8s2zzier1yodorov8\'s0gabaldon4rdine9s3broic3eira4le5li3ler3oury3riel7\'s7e7le7sen8on4owny4ys2ccione2dberry3getry3hafi7\'s3omski4ury3zinski2etano2garin3lio3nier2hagan2infully4sboro3thersburg2jewski2lactic6ose4had4mbos4nis5os5te7r6i4rneau5za4sie5si6o4tas5i4viz4xies5y6\'s3ea5no4na4ries5nter4si3gano3iena4lee4na5do5ski7y4pault5eau4tsin3lacher5ger6her5han6er5more5ntly7ry5rdo5tin5udet5way4bladder4ego7s5more5on7s5ries6y7\'s5tti4ier5gan5her5mard6ore5na6ger6sky5um5van4ogly5ping5way8s4ucci5zzo3oshes4tti3sworthy3udet4sha5ka3vanic7ze9d4eston3yean5n4on2mbale4ia5no4ling4oa3ekeeper9rs4lin5lo4smanship3ino2nanoque4way3dara4olfi7o3gbanger9rs5uster9rs4emi4lia6on3naway3tenbein3ymede2ona2pinski2rages4jda7\'s3cetti8\'s4ia6\'s6s4zynski3dea5lla5na6er8\'s8s6hire6ia8s7ng4ini7\'s4olin8\'s4uno3elick3finkel7le4unkel3gano4iulo4uilo3ibay4epy4nger4ssa4ty3licky5nger7house7ton3many3nering4ica5er5shes7ment3onzik3rabrant5han5mone5way4etson4ido5ga7n6ues7s5nger5ott5son8ed5ty4oway4ulous3tenberg3uda6\'s3verick2saway3barro3eous3ify4or3ohol4line8s3para6i6ro3saway3telli4ilum5neau4ritis5oscope5ulate2tekeeper9rs4ley3herer8s6ing9s3orade3tuso2udier5no5o3ssian3thier4ier2valda3igan3ras\'s2wronski2ynatie2zaway3ebo4lla4ta3onsky8\'s3pacho3zola1dp1earboxes2bauer3bia3ler2deon2esaman2finor2hlhausen3ringer2iselman4inger4singer2jdenson2lardi7n4tin7e3dermann3ernter5tner3inas5eau3latly4erman3singer2mayel7\'s3berling3ina6te5i2nady3drisek9\'s3ego4lab7s4ncor5tech9\'s4ra6l7\'s7e7s6te8s5eux5ic7s5o6us4sco5ee5is4tic7s4va5ieve4x\'s3genbach3icom4sco4tal7s4uses3nadi6y5ro4ifer3oa4cide8s4mics4type8s4va5ese5ise3sia4ler3tleman9\'s7en9\'s6ness6st4rified7y3uine2odyne3ffroy3ghegan3rdie4gakis5eson5i6enne6na6o3tek3works2race5i4ghty4ldi7ne6o4rdi6o3basi4erding4ino3ena4ty3inger3mani7c6o6town6y7\'s7s4icide5nate5ston9\'s3ringer5tsen6y3showitz4zewski3tler3vasi2sellschaft4rum3sler3tapo5tion4etner4uring3undheit2taway7s3singer3tinger4ler4ysburg9g\'s2yelin1feller1hadafi7the3naian8s3stliness3znavi2erardi3ttoize2idella2ostbuster9ers3ulishly1iacinta4obbe5mo3mbalvo5rone4marco4paolo6pa5ietro3ncola4elli4franco4grande4ini6o4nelli6tti8o5ini5ola6ne6tti4otti3quinto3rdi6na7i7o4russo2bberish4oney3erson3ian6\'s3ler3oney3raltar2deon2ebler3gerich3seler6man4ler2gabyte8s4flop8s4nte6ic3gling5y3lia5o3olo3uere2lardi3berta7i7o7son3chrest4rest3dea5rsleeve3fillan3hooly3kerson5son4ison8s3laspie7y4eland5ntine5ran5spie4iam6n7d6rd8i6tt5gan8\'s5han5kin5lan8d5ngham6ov5son6pie4ogly5oly8\'s5tti3martin3patrick2menez3mickry7y2nandjar3evra3gerbread6ich6ly6y4rich\'s8es2onet4friddo3rdani7o4gio3venco2raldo4rdi7n6ot3dler3genti3ija3lishly3obank4ldi7\'s4uard2sela5la4nyi3ler3mondi2tana5o6\'s3telman4leman9\'s2udice6i3ffrida3lio3rescu3seppe2veaway8s4nchy5ness5s\'s1laciate3dfelter4ieux3morize9d6ous3ndular3ssblower9ers9ing5maker8ing6eyer4tetter3tfelter3ucoma3zener4ier4unov2eefully3ndening7ning5inning4garry4ora2ickenhaus3mmering3ssandi4tening3ttering7y2obalize9d6ly6star4etrotter9ters4ular6in8s3ckenspiel3dowski3gowski3omier6ly3ria6ne5fied8s6y5ous3ssary5ier3tfelty3wacki4ering4ingly2ucoside9s3tamate6ic5ric4tonous7y2ycemic5rol4ogen5lic5side1natcatcher9ers2c2omonic2p1oalkeeper2bbler7s5ing3erstein3inot4off2chenour4nauer2daddy4mmit3dammit4esses3father9\'s9s3ina5ez5o4va3leski5wski3mother9s3unov3zilla2eas3mon3ring3tzinger3wey2ffinet4redo2glia2izueta2lconda3dammer4berger4enberg6eye6rod6son9\'s7tein6thal9l\'s4feder5inches7ger4hammer4ilocks5nger4sberry6orough5worthy4wasser6ter9\'s3iath7s4ghtly4nski3laday4iday5her3ombek4nka4ven3ubski2mery3illion3orrah5y2ncalves4harov3dola7s6ier9s4wana3gaware4ora3ia4um3nella5rman3salez6ves4oulin3terman3zales7z6o2odenough7w5rham4fella9s8ow9ws4ison4morning4paster8ure4rich\'s3gleverse3seberries9y2pinath2radze4lski4nson4zde7\'s3bachev9\'s9s3czyca6nski3dana4eyev4ian5llo3ecki4lick4nflo3ia4lla7s3niak3ospe3riak3tari2sornstem3samer4elin4iper8s6ing6y3tomski2thenburg2uvea5ia2vea4rment5nale7nce6ess6ing6ment9t\'s9ts6or8\'s8s3ier3oni3px2zofsky1ps1rabenstein4inski4oski5wski3ceffa6ully4ias5ously8ness3dation9s4ient8s5son4ual6te8s3ffeo5iti6us3inery3jeda3maphone4ercy6sey4mophon3nada7\'s6o7s5han5ta6o4berry4dbabies8y6erry5children9dren\'s5daddy7ughter9hter\'s9hters5erson5father9er\'s9ered9ers5illo6ose6son5maison7ster6other9er\'s9ers5nephew9ews5parent9nts5standing5uncle9es4ier7i5llo5tic6o4ola4ular3phical9ly3sshopper9ers5ia3tefully4ified8s6y5tude3uberger3vamen5no4elly4ina6o5tas7te9s6y3zier2editor3edier7st6ly4leyville5ieville4nawalt8y5berger6ury5castle5ery5houses5iaus5mailer5peace\'s5sboro5wich\'s3gersen7on4ori7ch7e6y7\'s3million3nada4ier5nger4oble5uille3tzinger2idiron3epentrog4sa5emer5haber5inger4vances5eson5ously3goli5ry7ant9ts3jalva3lliot3maces6ing5ldi7o3santi4hilda4singer3tzmacher3zelda2obian3ceries6y4howski3eneveld6wold5ing3myko3newold4inger4owski3oviest3seclose4snickle3tesquely3undbreaking6skeeper9epers6water3veling2udenstein4gingly4zinski3eling4newald5hagen4tzmacher3mbling9s4pier6ness3ndhofer4ewald2zelak3ywacz1uadagno5lupe4eloupe3jardo3ldoni4tieri3naco3rani6tee9\'s9d9s7ies7or9s7y8\'s4dado5edly5fish\'s5ia7n8\'s8s6no4ini6o5sco4neri5ieri3stella3ttery2berman3ler2cciardo5o6ne2delay3ino3mundson2ercio4illa8s5no4neville4rera7o5ier8i8o6lla9s6ni3sstimate9tes4thouses3ttler3vara7\'s2ggenheim9m\'s4isberg3ino2iana3dera4one5tti4ry3llemette6rmo5iams5ory6tine4martin3maraes3narou8\'s4ness\'s3singer3tarist9\'s9s6ro8\'s4errez4ierrez2jarat2lbrandsen9on7sen8on4uddin9\'s3ino3lible5ckson5ford5kson5ver2maer3biner6ger3ina2nadi3cotton3derman6sen7on4ry3fighter9r\'s9rs8ing5re3hilda3ia3narson4erson6y4ison4ysack9s3powder3runner3salus4linger9rs2revich3ganus4ling3ian4on3ria4ola3tler2sella3insky3ler3tafson7son5va6e6o6son6us2tekunst4nberg4rman6uth3herie6y4miller3ierez6res8z3kowski3owski3tenberg5ring6man4macher4ural3zwiller2yana2zowski3zardo4etta7i4ler\'s7s5ing1wendolyn2izdala1ymboree3nastic9s2rated5ing6on8s3odyne8s4scope9s2uhama0ha\'etzni2agenson3kenson3pala3velmo2beas4cker4gger4nicht4rer5korn5land6e5man8n7s6ehl5son6troh3ibi6e4ger4tat7\'s7s5ues2ckathon8rn4berry4enberg6sack4leman6r4matack2daway3daway4onfield3ler3oya3ria6n7\'s2eberle3ring2fnia5um2gadorn4man4rty3edorn4lin4nbuch5ow4rman5stown5ty3gadah5rty4erty4ling2imovitch8z5witz3rdresser9ers9ing4iness2jime2kala4nson2lama3berstadt9m3cion7\'s4yon7e3dana4erman3evi3facre4erty4hearted4rida3ibut4fa6x4ma3laday5han5nan6dale5uer4enbeck5ran4garten4iday5gan5nan6gby5sey4oran5way6e\'en7en9\'s7ll3ogen3perin6stant3terman4ingly3uska3verson4orsen7on2macher4da5ei5i4ker3belton5rger4len6ton4urger9s3eister4lin3ilton8\'s8s4ter5ic3ler4isch\'s3macher5ker5s\'s4ering6le7ock6man7ill6schmidt7ley7mith7on7tein9in\'s8rom4ontree3pering4shirites4tonshire9ire\'s3tramck2nafin4gan4han4uer4walt6y3berry4ury3dcrafted5uffing4edly6ness5land6man6sbank7man4holding4icap8ped8s6raft9ts5er6st5ly5work4kerchief9iefs4lebar9s4over4shaking5omely4werker5oven5riting8ten4yman6en3eda4line3gartner4over8s3ifen5in4gan4see3kering6son4inson3naford5gan5man4eken5sson4ibal5fin5gan5ty4ula3over7\'s3rahan5tty3sberger7ry5ury4elman3ukkah8\'s8s2phazard3oalim3pening9s6stance4ier6st5ly5ness2rada5im4han4lda5son4nguing4re4sser8s7s6ing6ment5zti4way3beson4inger9s6son5son4oring6side6y4ury3dacre5way4castle9e\'s5over9s4egree5nbrook6er8s6ing5sty4headed4ier6st5gree5man6on5nger5son6ter7y4liner9s4scrabble4wired5orking4ymon3elson3gadon5rten3ima4ri4tos3kavy4leroad4rader5ider3lacher4eman5quin5ysville4ingen5son3mata6tan4ening5yer4fully7ness4ison4lessly4onic8s7e8s7ze9d6y3nesses7ing3oldson3penau4sichord3quebus3ralson4elson4ier6t7te5gan6er5man5ngton5ott5s\'s6burg9g\'s9gh9gh\'s6es6on8\'s5ty4ower6ing4yman3shbarger6erger3tenstein4igan5nger3uo3vested8r9s7ing4ison3yana2selden5ey5horst5tine6on4nfus3hagen4emi7te3idic6m3ler3sebrock5lbach7ring6man5nberg6feld4inger4ling3tening4ily2tala4way3cheries7y3haway8\'s3ler5stad3maker3tabaugh5way4endorf5ras6sley6y4ori4usas2uenstein3ghtily3ntingly3ptfuhrer3sauer4erman4ler4sler4ummi3tala2vana6\'s3elka4mann4ner4rfield6ord5kamp5land6y5stick7ock5ty3iland5land4ngton9\'s3licek3ranek4illa2waii6\'s6an8s3baker3kinson2yashi3enga3maker8s5rket9s2zardous3elett5ip5nut8s5rigg5tine6on5wood9\'s3ier3leton5wood1bo1eaberlin3ddresses4hunter9rs4ington4liner9s7ing4master9rs5istress4quarter9ered9ers4water9s3lthier8st7ness3rtbreaking7oken5edly6ning5ier7st6ly5warming3tedly4herly3vener6ly4ier6st5ly4yset5weight9hts2beler4nstreit4rer5le7in6ing3rides2chinger3kaman5thorn4endorn4uva3tograph5ring3uba2dgepeth3iger4nger3onic3wiga2fferan6man6nan6on4ington3tier6st2gadorn4rty3edus4nna2iberger3chelbech3dbreder4ecker5gger5lberg9g\'s5nreich4inger5wear4ler3ghtening3kkila6nen3mberger5igner5urger3nburger4eken4inger4len4onen4tzelman4zelman3resses3serman4hman4inger4ler3tmeyer2kmatyar9\'s2laba4nder3bling3denbrand5rman3ena6\'s3gerson5sen6on3ical5on7s4nski4os4um3lacious4enbrand6ic7ze9d5rman4ickson5nger4raiser4uva4yer3merich5ted4inski4sburton5tetter3otry3pfully4lessly8ness3sinki2mani4tite3berger3enway3inger6way9\'s4sphere3melgarn5rich6le7ing5ter4inger7haus7sen8on3orrhage9ed7oid9ds4tec3pfling2ndershot9tt7on4ren5icksen9on6e6ksen6xson3egar5han4han4ry3igan4nger3kelman3neberger8ry5lly5pin5ssee8y9\'s7y4igan7r5nger7sen7ton3richsen6ksen8on5e6tte5ka6sen7on5ques8z3sarling4ler2parin4tic3tathlon2ralded6ic7ng6ry3baceous5life7st9\'s9s4erger4icide9s5son5vore3cules3eabout9s5fter4ford4sy4tic7s5ofore3inger6ton4tage3lihy3mansen7on4ia6s5da5na6ie5tage4osa3nandez7o4ia6te8s3oic6s5n6\'s6e7s5ze7d3rera6o4hausen4iage5man5ngshaw7ton9n\'s5ott4linger3schensohn4hberger5iser5kowitz4kovitz6witz3tenstein4zler3yana3zberger4linger2seltine6on3iod4tant6te8s3ler3pera3seltine4inger4ling3tia2uberger3erman8n3ristic9s2vener4rly3ia2xagon2yboer2zbollah9\'s4ullah9\'s1gh1iaasen3tus2bachi3ernate2ckerson4ories6y2dalgo3eaway4o5us2erarchies4holzer4oglyph9hs3ster3tala2gashi3gason4erson4inson3hberger4flier9s6ying4lander9rs5ighted9ing4osin4rises4tower9\'s3uchi4era2jacker8s6ing9s2lary3debran9d9dt9t5gard9e9es5mar5nbrand5rbrand9ndt3figer5ker3genberg6dorf3inski3lary7\'s4billies8y4eary5brand5gas8s5nbrand9nd\'s7urg5rman6y5sheim6tad4haven9\'s4ier5goss5ker4sboro9ugh4yer3sabeck4inger3tunen3yer2mebaugh3melfarb6sbach7tein2ndelong5rer6ing6man4quarter9ers4rances4ustan3ebaugh4line4rman4sley3kelman3nenkamp3ojos3richsen3terland9ds2ppensteel4ocrates5drome2radin4i4no4ta3iart3ose5hi4ta3ulog2sada4o3panic8s6o7il3tadrut5mine4idine4ogram9s5ric7es6y7\'s2tachi3chhiker9rs8ing3herto3oshi2v2xenbaugh2zbollah1lavacek5ty1obbling4yist8s3erman3nobbing3oken2cevar3hbrueckner4enheim4halter6user4statter3kaday4ensmith5rsmith2dgkinson3kinson2efler5ing3ksema3lterhoff9ff\'s2facker3bauer3facker4ecker5nberg9g\'s5rber4ler4master5eier7ster6yer4pauir3meister3richter3stetter2ganson4rty3eland4nson2heisel4nsee6tein2isington3um2jnacki2kanson3enson3kaido2laday4han4way3daway4erbank8um7y6field6man6ness4over8s4ren3ecek3gerson3ian4day7\'s7s4en5r5st4field4han4man4ness4stic3labaugh5day5nder9s7sworth5way4enbach9k8ugh7eck8rg6der6kamp5ran6bach6ing4ibaugh5day8\'s5er5field5man8\'s6on5nger7shead8worth7worth6shead7worth5ster7on4obaugh5man6on5ran5way6ell6ing4yfield5head6ock9s5wood9\'s3mium3ocaust9s4deck4gram8s4han3sapple4houser4inger4omback5nback5pple3terman4zapple5inger3verson4is\'s3weger5rda3ycross4field4oak5ke3zapfel4hauer7ser5eimer4inger2mages3ebuilder9er\'s9ers9ing6yer9s4coming4dco4lessness4maker9s7ing4owner9\'s9s4porting4ric4sickness5teaded9er9ers4worker9rs4yer3icide8s4lies5y4nem5id5y3ola5ka4nym7s4phone9s2naker4san3derich4uran8s7s3ea4cker8\'s4stly6ok6y4ybee8s5comb6utt5dew5man6oon9ed9s5well9\'s3ora5ee7s5ing3sberger4inger2ogovens3ligan8s5han8\'s3perman2palong3efully7ness4lessly8ness3finger3kinson6ton2race\'s6k4tia7n6o6us3ejsi4lick4nstein3gavitt3izon7\'s7s3lacher3monal3naday4baker5erger5lower5ostel5uckle3oscope9s4vitz4witz3rendous4ible7y5fic7ed6y5gan3semanship5power5radish2sea5\'s4lton3iery3kinson3ler3oka6\'s3pice\'s7s5tal8\'s8s3sler3tages4erman5sses5tter2taling8\'s3elier8s3houses3lanta3tenstein4inger3wire7d2udeshell4ini7\'s3ghtaling3lihan8\'s3rglass4igan5han3sebroken5cleaning5holder9ers5keeper9ers9ing5raising5warming4holder2vanec4ter5ter3ercraft5flies7y5ing5male5son3haness3ious3orka2wdeshell4yshell3enstine4rter6on5y4ver3ington4son4tzer8s1rdlicka2ubik1uachuca3llaga2berman5ta6o6y3ler2chison3kaba7y6ee6y4eba5lby8\'s2ddleson7ton5ing3ecek4lson3ler3sucker2etta2fbauer3faker4ington9n\'s4master3nagel6le2goton3uenin6ot8s4ley2izenga8\'s4inga2llender4iber5nger3sebus4izer4lander2mana6\'s5ely5ist8s6ze8d5kind9\'s5ly5ness5oid3barger4erto4ler6st5ing3dinger3enik4rous5us3fry3idor4ston3mingbird9rds3ongous4ral5ist8s5less5ous3phery8s5ries3ulin2ndertmark4redweight3eycutt3gary7\'s4erford9ds6ing4rier6ly3kering3newell4icutt3saker4berger4icker5nger4ucker3tingdon7ton9n\'s4singer4zinger3zeker4iker2rdler5ing3ricane9\'s9s5edly4ying3tado4ubise2sbandry3eby3seini3tler7s5ing2tcheon6rson6son5inson6son9\'s3macher3zelman2xtable8s1yacinth8e8s3des3nnis2bridize5tech2dea4ia3rated6ion5ulic9s5zine4ofoil5gen8s5lyze9d5pic6ower5sol5xide9s6y2ena5s2geia3ienist9s2mowitz2percard5drive5link9s5space5text3henate9s3nosis5tic8s7st9s7ze9d3ocrite9s4lite4nex2raxes2steric8s0iago2lla2nni3ovski3tha5e2son1banez3rra2botson2ero2iza2m2ogaine2rahim1carus2ebreaker9rs3landair7ic3nhour3skating2hiro2icle6s3ly2onic1daho5\'s3lia5ne2ea4\'s4list8s6ze5ly4s3nta5ics2iom5s4t5s2leman4ness4r4wild3ing2ola4ize7d3na4ey2una2yllic1ezzi1glehart2natia6us3eous3ited5ing6on3oble4rance7t5ing2uana6s3chi3shi1hlenfeldt1james1kea3da3uchi1lalis3na5\'s3rdi2eto2genfritz2iad3dza2legal7s3icit4na5gworth5ois8\'s4quid3nesses3ogic3umined4sion8s6ve5trate9es2ona1mageries6y5s4ine7d7s6g3ri3sco3x\'s2balance3ecile8s4dded4ra3oden3roglio6no2cera2elda2itate7s2manence7t5uel4ture3ensely4rman5sion3igrant9\'s9s7te4nence7t3obile4late8s4ral5tal8s4tile3unetech6x5ize8d5o2ogen6e3ndi2pacted6ing4iring6ment9ts4la5ing4nel7ed4rted6ial7ng4ssion9ed7ve4tience8s8t3eaches7ing7ment9nts4dance5ed5ing4nding4rfect5il7ed7s4tuous6s3inges6ing4ous3lanted7ing4ement9s4icate9s6it4oded6ing5ring5sion4ying3olite4rtance8t6ed7r8s6ing4ses5ing5ter6or8s4tence7t4unded7ing7ment9nts4verish9hed3recise5gnate9es5sses7ing8on9ns8ve7ment4imis5nted7ing5son8ed8s4omptu5per5vement9nts6ing7se9d4udence8t3ugning4lses6ive4ted2rie1nacom6p4tion6ve3ki3smuch2bio3oden5y3reeding2carnate4ta6\'s3entive9s4ption4ssant5tuous3hoate3idence7t8s4rlik4sion8s6ve5or7s4ted6ment9ts5ing3lement4osure4uded6ing5sion9s7ve3oming5plete4rrect3reases7ing5ment9s3ubate8s4lcate9s4mbent9\'s9s4rring5sion9s2daba4ta3ebted4cent4nture9d9s4ral4x\'s5er7s6s5ing3ia5\'s5n6\'s6s4ca6te8s5es5ia5ted6ing6ment9ts4fferent4gent8s6st5nant5o4ra5ect4screet5tinct4ted4um3olent3ucement9ts6s5ing5tance6ed7e8s6ion7ve6or4lgence8t7s6ing4stri8e9s7y8\'s2eptly5ness3rco4tia7l5ness3xact2famous5y4ncy5te6ile6ry4rction3ected6ing7on9s8us7ve4rence5nal6o5ring5tile4sted3idel7s4elder9s4ghting4ltrate4nger5ite3laming5ted6ing7on9\'s6or4ected7ion9ns4icted7ing8on4uence9d3ocorp4rmal8s7nt9s6er8s6ing7x4scan4tech5ron8\'s4world3raction9ns5red4equent4ingement9ents8s7ing3uses5ing6on8s2galsbe3elheim4mar4nious5ue4rsoll7n4sted6ing7on3lebert5nook5wood4ish3raham5ssia4ia3wersen2habit7s4lant8s5er7s5ing3erent5it7s3ibit7s3uman7e2iga4uez3ki4pratt3tial7ed7s2jected6ing7on9s6or8s3unction9ns8ve4ries6ng5y4stice2katha7\'s2marsat2nately3ermost5space3keeper9s3ocence7t8s4pac4vate8s2oue4ye2patient9s2quired7r7s6y2score4ribing6ption9ons3ecure4rra5ted6ing7on3ider7\'s7s4ghtful4lco4ncere4pid4sted7nce8t6ing3ofar4lence7t5vent4uciant3pected7ing8on9ns7or9\'s9s4ired6ing3tagram5ller9s7ing7ment9nts5nces6tly4igate9s5lling5nctive6et5tut8e9\'s9s4ructed8ing9on9ons9ve8or9rs6ment9t\'s9ts3ular6te5in5ted6ing4rance5er7\'s7s5gent9s5ing2taglio3eger7s5on5ra7l8s7te9s4lco7m5lect9s5sat4nded6ing5sely6ive5tion9ed9s6ly4ract8s6nd5bank6red8w9\'s5care6ede7pt9s6hange6o7\'s7m7rp7urse5dict9es6yne5ested8ing5face7ith7x6ere9d9s6irst6lug5graph9h\'s7oup9p\'s5im5ject9s5lace9d7ke9\'s6eaf8ve9ed9es6ink9ed6ock9ed6ude9s5mark6ec7t6ix8ed5nal6ee8s7t8\'s6ist9s6ment6orth6ship9ps5part6lay6ol7se6ret9s5rent6upt9s5scope6ec8t9s6pec8rse9sed6tate9e\'s9es5tan6ech8t6rans6wine9ed5val8s6ene9d9s6iew9ed9s6oice5weave4stine9s3imate8s3oning4urist3raday5state5west4epid4icate5eri5guing5nsic4oduce9d5spect5vert4uded7r8s6ing5sion9s7ve3uit6\'s2undate2vacare4ded6r7s5ing4lid7s4sion8s6ve3ective4nted6ing7on9s7ve6or8s4rlat5ness5sely6ion5ted4sco7\'s5tcorp6ed6ing6ment9t\'s9ts6net6or8\'s8s3irase4ted6e7s5ing5ron8\'s3oices6ing4king4lvement9nts6ing2wardly2yokern1odice4de6\'s6s4ne2la3e2na3e3ic5s4ze2sif3ue2ta2u2wa4\'s4n5s1palco6\'s1rangate4i4scam3qgate4i5\'s5s2binna2elan6d3na3son3ta4on4ta2ian3na3ses4hman5ness2onclad4ic5es5ng5ze7d4side8s4wood8\'s4y3quois2rigate4tant8s6te8s2s2windale1saacson3bel6l7e3ckson3iah3ksen5on3utier2chemic2elin3nberg4hart5our4see4trope3tan2herwood3ida4i2idore3koff2lami6c6st8s4nder8s2obel3da3etec3la5te7s4de3mer6s3tope7s2rael6i7\'s7s7te9s6off6son4hi2suance4eless5r6\'s6s4ing2tanbul2uzu1talian7s5c6s5sh4tel4y5\'s3mar4i3sca2emize7d2haca6\'s2ochu2zkowitz1vaco3na4cic4hoe4ko4na4off5v3tans2ersen5on4y3ster2ory1waki3nski3ta2inski1xion1zansky7\'s2quierdo2umi0jablonski8y2cinda5ta6ha6o3kelyn5ted4hammer9rs4oby5vich5wski4rabbit4sdeit5onville9lle\'s3oba5er5i6n7e6te8s5o5s\'s6en6on8\'s5us5y3queline7yn6tta3uzzi2giello6ski3oda2inism3sigher2karta7\'s3obsen3ubek5ik2lopy2maica7\'s7n8s3erson8\'s3ieson4la4son3shedpur2nacek4rdhan4ta3ecek5zko4iro4lla3iak4cek5ki4ero4ga4na4tor7s3kiewicz4ovic8h5wski3notta3ofsky4sik5ki6o6y4ta4usek4vsky4wicz6tz5ski3senist9s3thina3vier2panese2rara3ecki4ma3nagin4igan3omir3via5nen5s\'s3zombek2sinski3kiewicz4olski4ulski3mer4ina3person2untily3regui5qui2vanese4script3elin3ier3orsky2wboning3orski2yewardene3hawker3walking2zeera1ealousies7ly7ness7y3nbaptiste5ertrand4louis4michele4niot4pierre2dlicka2fferey6ies\'s7s6son9\'s6y7s2hovah7\'s2linek5ski4sic3lison4yfish2mima6h4son2nison3kinson3newein4ifer8\'s5nger5son2opardize9ed7y2ppesen2rabek3boas3emy6\'s3genson3icho3nigan3rico4ome3sian7s3usha2smer3persen7on3salynn5mine6yn4elson4ica7\'s3uit6s4s\'s2tliner8\'s8s3tison8ed2welcor5er7\'s7s5lers5ry5sburg3fishes3ishness2zewski3ierski1fk1iggling2hadi6st8s2llian2mena5ez4rson3inez4son3merson2tterbug6y2viden1na1oachim7\'s7s3kima3nna2bina3lessness3yna2ckeying3osa3ular2ffrion2hanna6es6ing6sen5sen6on6son3nathan9\'s7on9\'s2inery2joba4la2kela3inen5gly2letta3icoeur4et4vette3lier6st4ying2nassaint9t\'s6en4than8\'s6on3benet8\'s3esboro3othan2pling2rdana3gensen7on3io2sceline6yn8e3epha6ine9\'s6son6thal6us3hua6\'s3iah3selyn3tling2urnalese7ist9t\'s9ts5eying7man9n\'s2vial5n4ta5o2yfully3oni3riding2zwiak1uanita2bilant5ee2dea4o3gemental4mental3icate5ial6ous4tha2ggernaut4ler7s5ing3ular2icier6st3lliard2jitsu2keboxes2lian6n7e4en5t6a6te4na4o4usz3liard2manji3botron9s3onville2nejo4lla3ia4per7s4us3kholder9rs4ier6st3tunen2piter7\'s2rado4nek4ssic3ewicz3gensen7meyer7on3ica3kiewicz4ovich5wski2sino3tesen4ice\'s7s5fied8s6y5na6o2venile8\'s8s2xtapose9d0kabbalah5ni3ila6\'s3ler3uki2czmarczyk7ek7ski4ynski9\'s2drescu4mas3umi2fkaesque2gami4wa2hane3ului4na2ilua3ramo3seraugst6tech9h\'s2jima2kadu3tovik3uei2lafut4ta3berer3eida4ta3goorlie3ikow4na5ske7i4spell3kaska4brenner3lenbach4iel5o4meyer3tenbach3ugin4za5ny2mali3chatka3enar5sky5tsev4rer3iner5ski7y3ler3merer6zell5yer3neva3pala4elman4schulte2nade5y4gy4rek4wa5ha3dahar3egsberg4ko3garoo8s4hua3ia3jorski3kakee6u3nenberg3sallis5s\'s4ian3tian4ola4rowitz2pinos4tan3ler4owitz3osi6\'s3peler6man3rayoon3usta2rabakh5in4chi4dzic8\'s4ffa4jan4kos4mi4sek5ik4te5irm5su3bowski3czewski3dashian9n\'s3ema6\'s3gonaov3ibu4mi4na5o3nicki3oline5y6i6n3patkin4inski4owicz3raker4iker3stetter3vonen3woski5wski2sagic3ese3hmiri4oggi4uba3ich\'s4nga7\'s6er3ler3mer4ira3parek6ov4erek6ski4rowicz5zak6yk4utys3riel3sebaum9\'s3telic5nmeier3zuba2tana4yan3halene4erine3ia3mandu3ona3rina3sanos5ros4umi5shi3uni3ydid4usha8s3zenbach7erg9g\'s6stein2uzlarich2vanagh6ugh3eney2wai4no4smi4te3ecki4ske2yaker7s5ing4po3sersberg2zakhstan9n\'s3empour3ikaev3lauskas3mierczak7ski3uo1eanu3veney6y2drowski3zierski2egali7\'s3neland2fauver2idanren3ichi3retsu3sler5ing4ter4uke2leher3leher5nyi5rman9n4iher5son4yanne3nhofer2meny4rer5y3merer6ling3ppainen2nagy3davis4zierski6or3efick4rson4sset4tech3ichi4lworth4son5ton3namer4eally5brew5cott5dy7\'s7s5lly5mer5rly6son5saw4ington5son3obi4sha4yer3singer7ton4ler3tucky8\'s3worthy2ohane3kuk2rala4nen4tin3cheval3esztes3fuffle3ien3naghan4igan4odle3osene4uac3rigan8\'s3stetter2singer3ler4ing3selman6ring5nich4inger3tenbaum5rson2tcherside5ikan3elhut5sen4ma4yian8\'s3ola3terer6ing6ling6man4ler6well3ura2waunee2yboarding3nesian9s2ziah1gb2ori1habarovsk3dafi3lifa3menei3shoggi3tami7\'s3zakhstan2lebnikov9v\'s2omeini8\'s2umalo1iawah2bbutzim7nik9ks3eho3odeaux3umba2cklighter4starter2ddingly3naping6per9s7ing9gs2edrowski3lbasa3ninger3selmann4ter2gale6\'s5i6\'s2ichi2jowski2kkoman3uchi2lbury3cullen3ian3kenny8\'s3lebrew4ifish5ngbeck7er7sworth7ton4oran6y3marnock6tin3obit5yte8s4gram8s4watt8s3patrick2mberley7in9g7y8\'s4riel3ery3ler3melman5rle3ono6s4to3ura2ncannon4heloe3derman4ler3eta5ic7s3gery4fisher9rs4maker9s4ry4sborough6ury5olver3iry3naman6on4ebrew4ison4unen3sella4hasa4inger4ler2plinger\'s3perman2racofe4ly3chberger5gessner5hofer3keby5ndall7oll4patrick3ouac3schenbaum8mann4henbaum2samore3ler4ing3mayu3simmee5nger9\'s2tchenaid7er8tte7ware3imat3owski3taneh4elson5rman4inger5wake4ler6son3zhaber4miller2vela2wani6s2yoshi2zziah1kk1lapperich3witter2einfelter5peter5sasser3ppinger4tocrat3zmatic9s2ickovic3mowicz3nedinst4gaman5enberg7smith6rman5hoffer5ler4khammer9er\'s3xshavich2oberdanz3nowski3osterman3pfenstein4penburg3sinski4owski4terman9nn2ucevsek1miecik1nezevich2ievel3ppenberg2oedler3wingly4ledgeware1oala5s2backer3erstein3ler3ylarz2chanek6ski4evar3inski3ourek3urek2dama3iak2edinger3gler3neman4igsberg7feld3rnke2ffler3ler2gler2hlenberg4meier6yer4rabi3taro4oro2ichi3visto2jima2kate6\'s3inda3omo4schka5zka3usai2lander4rik4sa3enda4sar3inski3lmeyer5orgen3odny5ziej4koff4ski4wich3terman2maba4nsky4ra5ek5ik7\'s4tsu3ercni3ineft6k4sar3odo4ri5ny4to3panek3somol8\'s3ura2naga4rski3dracki3ecny3ica5ek5ki4eczka7ny4shi4tzer3opka3stantin4ultat3trollbank3winski2oiker4man4stra3tenay3yman2pczynski3ecky4lman4ra5ski4tski3inski4schke3lovitz3pelman3riva4owski2randa5ic3ea5\'s5n6s5s4nek4sh\'s3honen3inek3nacki4egay4hauser3ona4tich3pela3una3yagin2scinski3ecoff3hering3iba4er4nski3kela4inen4otas3loski7y5wski3matka4etsky9\'s4icki3novsky9\'s3ovo4wski7y3tecki5lnik4mayer3yakov4gin2tara5ski3ecki4les3hari3ila3ler4owitz3owski3sonis3ula3zebue2udelka3ri3yate2vacic7h6k4lchik6ik5ik5sky5yov4rik2walchuk6zyk5ik5ski7y3nacki2yama2zemchak3icki4nski4ol3loski5wski3minski3novsky9\'s3yrev7\'s1rabbenhoft3henbuhl3jewski4icek3kower6ski3licek3prayoon3sinski4noyarsk4owski4zewski3tochvil3uthammer2edietbank3idler4sher3mpasky3nwinkle9e\'s3slovsky2ikalev8\'s3minyok3stallnacht5ensen5iansen6na5opher9r\'s3vanek2oening3nenberg2uckenberg3gerrand3kowski3picka5nski3semark4inski4zewski5ynski3tsinger2ygier3ptonite3siak2zeminski3ywicki1ubacki4la3ena4rski3iak4ca5ek5ki4nski3ler3ota2cera4wicz3harski4era4inski8y4ler3inski3zynski2drna2ebler3chler3nheim4stler4zi2gelman3ler2hlenschmidt2jala4wa5ski2klinski3owski2laga3esa5za3hanek3inski3karni3wicki2mbaya3ouri7\'s2nayev3dera4inger3io3selman3zelman2omintang9g\'s2perman3ferman2rdistan3ian4lla4nsky3kjian4owski3lander3oda4wski3shikov3tenbach3uman3ylo3zawa2siak3ler3serow2waiti7s2ykendall2zara3minski3nia5cki1vasnicka2itsinsky1wasniewski3zulu2iatek3ecinski1yllonen2nikos2ocera3ko4uto3shi2rgyzstan0l\'expansion2oreal1abadie4rre4ton3eling5la4nski3ine3oda4mbard4rer7s5ing4unty3rador8s5nche4ie5oche4osse3uda3yrinth2cana4sse4va4yo4ze3coliths3erate5te3hapelle5rite4enbruch4ica4owicz4rymose3ina3kluster4ovic3ombe4nic5te4rte4sse4uture3tating7on2dehoff4nburg4wig3ino3nier3ouceur3uca4ke3ybird5ug7s4like2enderbank2falce4ta4uci4vor5re4yette3ever7s4yette3ferty3ler3ollette4ntaine7nt4rest5tune4untain9ne3ramboise3uente2gace4na4rde7re4sse3erfeld5gren5quist5strom3nado3reca4one3una6s2ibowitz3tinen4y2jeunesse2katos3ota6s2lande3ita5esh3lera4ier3onde5e2magna4ist4mra4nna5tia4rca6he5re4ster6us3basted7ing4erson6ti7o8n7son7y3ellar4nted6ing4re4sa4ta3ia4ca4na6ck6r6te8s5er4son3ontagne4ra5eaux6ux5te4tta4untain5reaux7ux3phier4lighter9er\'s9ers2nagan4han4sa3cashire6ter4elot3dauer4efeld5ros5sbank6man4filling5ried4holder9rs8ing9ngs4ingham6i6o4lady4masses5esser4olfi5ver5wner9s6ski4reneau5igan5over4sberger9is5caper9rs8ing4viewite9tes3ese3geland6ier6la5nbach7erg6dorf6feld5rman5vin4ille4linais4one5wski4uages5ishes8ing4worthy3igan4ngham4us3olin4ue6tte3sberry5ury8\'s3tana4erman4hanum5ier3zillo2otian2palme3enna5ta4rle4yrouse3hroaig3idus4er6re4ne5ski7y3laca5nte3olla4rta3rade5irie2rabee4ia4mee5ie5ore4way3cenous6y3edo4na3iat4ccia4mer5ore4na5e4os4scy5on5sa4vee4zza3occa6o5he\'s7lle4sa5e5iere3rabee4ea4imore5son5vee4oquette9te\'s3uso5sa6o3zelere2sagna4la4ter3cala4ola3ecki4ter3hua3iter3kowski3orda5sa4ta3pina3seter6ter4ila5ter3tinger7ly4rapes3umma2tanze4sha3ecomer9s4lla4nan5cy5dresse4ral5ites5riere5za4xes3houris3igo4mer5ore4na6te5i5o6s4sha4tude8s3ona4rre4urette4ya6\'s3tanzi4icework5mer6ore3vala4ia6\'s6n7s2ubacher4enstein6thal3dable5num4erback8ugh6dale3erman3fenberg3ghable5ery5inghouse8ly8stock3inger3ncelot4derer9s7ing5romat9ts4ius3reano6te8s5na6tian8is5tta4ia6t\'s7s5dsen5no5tsen6zen3tenbach7erg5rbach2valle7e7y4rnway3eda4nder5thol6ure4re5ty5y4tta3ina5der5e5ia4shes6ing6ly3orgna5o2wbreaker9rs8ing3fully3lessness3maker8\'s8s6ing3niczak4mower9s3rence\'s8burg8ville3yering6ly2xative8s3ity2yaway3ering3over7s3people5rson2zare5o6ff5ski5us3cano3enby3ier5st4ly4ness3uli6te3zara6i6o1cb2s1eadbelly6tter4erboard9rds6less6ship9p\'s9ps4ingham3fhopper9rs3lia3nder5ro4za3pfrogging3ronal3sable3therback9cks7man7wood7y3vening6worth5rton2banese5on7\'s4ron5ron3eda4nthal3ovitz4witz5ski3reton2ccese3herous4tenberg4uga3ithin3omba4nte3rone3turer8s6ing3uyer2dbetter3erer5le5man4sma4zma3gerwood3vina2feber5re5ure5vre4ver7s5re3fingwell3kowitz3rancois3thanded4ism4over8s4winger9rs2gacies5y4lese5ize8d5ly4re4spi4to3endre3gio3ible4onnaire9re\'s9res4slate9s2htinen4onen2ibfried4ovit8z5witz3chliter3derman9\'s3lani4ia3nberger4decker4inger4o5nen4weber3senring4inger4tikow4urely3terman4hia4motif2kachman2maitre4nski4ster8s3berger3elin4ry3ire3merman3onade3uela2nahan3cioni3derman3ehan4ta4xa3gacher4thening3iency6t7ly4han4ngrad6ton5ist4ta4us3ora3scrafter9ers3tinan6e6i3zini2oma3na5ra6da7i8s4el6li5rd5tti4hard4i5d4ore4tine5yne3pold3tard2pera5e3ine4sto3kowski3ore3panen3rechaun9ns4osy3tonic2quire2reah2sabre7s4ne3bian7s3haro3iak4eur4nski3meister3niak5ewski3otho3perance4inasse3sening3uer5ur3zczynski2tendre3hargic7y4ia3icia3ourneau3singer3terhead6ing6man9\'s6press4iere7i2ukocyte3twiler2valley4na5der5gie4sseur3chenko3eler\'s7s5ing4nberg5good5son6tein5thal4rage8d7ing5enz6tt8e5ich6ng5son5ton3ien4na5er5gston5sky8\'s6on8\'s6tone4son4tan6te5on5sky5town9\'s5y3ying2wallen4nda5na3ellen6ing6yn4nsky8\'s3icki4nski7y8\'s6ohn5ton4s\'s5burg5ton3kowicz2xical5on7s4ngton3us\'s2yendecker1hommedieu1iable3cos3ison7s3mine3na4na3son4son2belous4ral7s6te5man5te6i7es7ne9s6o6y7\'s3ido3raries6y7\'s5tion4ettist7o4ivox5zzi3ya5\'s5n6s2cari4ta4usi3ciardi3ea4nces5see8s7r7s6ing6or6ure5tious3hlyter4tenberg7fels7stein6rman3io4tra3kety4lider3orice2ddicoat3gerwood2ebeler5now5rman9\'s9n6thal4ling4owitz3chtenstein3derman9\'s3nemann3utenant9t\'s9ts2fecycle4saver9s7ing2gachev8\'s4ment8s4tion3gio3htening5fastness5headed8rted6izer6ouses3uori2jewski2kable3eable4lier7st6hood4nesses5ing3hachov4yani2lia5n6e5s4en6thal3jedahl5gren3lian7\'s5bridge5crop3yan4bell2merick8\'s8s3ited7\'s5ing5less3oges4nite4usine9s2ncecum4icome4olnshire3daman6ood5uer4emann6uth5nbaum7erg6muth5rman3eage5l5r6\'s4backer9rs6ugh5erger7ry4han4item4nger8\'s4rboard4weaver3gelbach5rfelt6ie7ng4uine6stic9cs3inger3kages4letter3nea5han3otype3thicum2omine3nel4heart4ize7d3tta2pari3inski3osome8s4vsky3pincott3uma2quefied6y4idate9s4ori2sabet7h4nti3enbee6y3iecki3owski3souba3tener8s6ing5rine9s4lessly3zewski2taker4lien4nies5y4ro3eral6te3herland4ium4ograph9hs3igant8s6te8s5ious3teken5ral6ing4leboy6child6field7ord6john6page6r6st6ton6wood4oral3urgy3willer3zenberg4inger2uzza5i2vable3elier7st6hood9ds6ness4ngood4rgood5man6ore5nois5pool5wort9s5y4say5ey4zey3ia4ngood6room9ms6ston9n\'s9ne9ne\'s6well9l\'s3olsi4nia4ti2zabeth1jubljana4omir1lc2erena3wellyn6yn2orente3vio1obato3bia4ying6st8s3ello3lolly3osco3sterman8en2calize8d5ly4stro4ted5ing6on8s5or7s3kaby5my4erbie7y6man4miller3oco4nte3urto2dato3ema3ico2effelholz3lla3wen6son7tein6thal2faro4so3fredo3tier2ggerhead9ds4ia3ica6l7ly5ian5on4stic8s4udice3ogram8s3rasso3uidice2hengrin3meier5yer2iseau3tering2leta3ita3lipop8s2masney3bardi7o3eli2nardo3doner8s6o3eliness4rgan5o3gacre5ker4enecker5rbeam4fellow4ingly6o5tude9s4meyer9\'s4necker4shoremen9men\'s5tanding3igro2okabaugh6ill5like4ingbill3sening2pardo4ta5in3ez\'s3into3resti7o3sided2quacious2ranger3ean4do4lei5li6o4na6\'s5sen6on5tzen5za6en6i6o7\'s4to5ta6o3ia4llard4mar7\'s5er5or4no4o4ta3usso2sada4sso3calzo3inski4to3oya3urdo2thian3ito3teries6y3us\'s2uanna3derback6milk4speaker9ers3ella3ganis6os4hery5miller3ima6\'s4s\'s5a6n5ville3nsberry3reiro5nco3siness3vier7e2vable4llo4to3emaking4rde5ing3inger6ly6ood2wdermilk3enberg5sky6tein5thal4ring5y3insky3rimore2yalist8s5ly5ties6on6y3ola2zada4no6\'s3enges3ier4nski4to3oya1pn1sd1td2i3\'s1uaka3llen3na4da6\'s2barsky4vitch3ensky3icons4nov5ski7y3owski3rano4icant9s7te6ious5zol2cado4s\'s5film5ville3chese7i6tti3ente4ro3hini4singer3iani6na7e4da5o4en6ne5r4fer4nda4o3kenbach8ugh7ill4ier6st5ly3rative4ecia5tia5zia2della4wig3icrous4ngton3mila6la3vigsen7on3wiga2ella3ra2fthansa9\'s4transport2gano4rda3inbill6uhl3osi3uarda2igi5\'s3sa2kasik3enbill3owski3yanov2llabies6y2mbago4ering6jack6man9\'s6ton6yard9ds3ia4na6l6nce5ol6us3onics2nacy4ti6c7s3ceford4heonette9ttes3enberg4tta2oma3ngo2patkin3ica4nski4ta3pino2ria2saka4rdi3combe3ignan4nchi3sier3tgarten2tecia3falla3heran8s3terman3weiler2vena2wana2xembourg3uries5y2zader3ier1ybarger2coming3urgus2dia2erla5y2mphatic5oblast6cyte9es6ma8s2ondell4nais8e4s\'s2phomed8\'s2rical7ly5ist8s2sander6ra2ubimov8\'s0maberry5y3ry2cabre4dam4lpine4ndrews4ri5thur6ney4ulay6ey3cabee8s5llum5rone6thy4hia6o4onnell5rmack3dermott4iarmid4onald9\'s6ell6nell6ough5ugal9l5well3eachern4da5o4ra4wan5en3fadden5rland9e3gowan4regor4yver8\'s3hacek5do5la5mer4eski5te7s4ida5negun9ns6ing7st9s5smo4owski4uca5ga3ias4ejewski4nnes6is5tax6osh6yre4oce4saac4ver3kellar5nzie5rel4inaw6ley6ney7on6tosh4owski3lachlan5ren5ughlin4ellan5nnan3master4illan9\'s4ullen5rray3naughton3omber3pherson9n\'s3quarrie3rame4ophage3sharry3taggart5vish3umber3vicar8\'s3williams2dara6s5is3damma4ening4ison3eira4laine5eine6ne5in7e5la5on5yn4ra5o4well3ia4gan4son7\'s3len3onna7\'s4ra5e3rigal8s4uga3yun2eda3nza3stri2ffeo4ia4ucci3ia5\'s5s4keng2gadan4ji4llanes6on4na4zine8\'s8s3dala6en8e3ellan8\'s4nta4rman3gio3ical5ian8s4era4nnis5ot4stad6rate9es7o3lica5o3nani6o5vox4esia7te5tek6i7c8s7te7zed6ron4ified8s6y5tude9s4olia8s5ne4uson6sen7on3owan3rini4uder2hady4ffey6y4la6h4mud4ney5nah5y4riv7e4thir5ma3fouz\'s3ila4ndra3oney5y4wald3urin2idenform3ello4tta3lboxes3nlander9rs4streaming4taining5enance4waring3olo4ne3sano4onet2jerus4ske6i5ta6ic6y7\'s4wski3kowski3orca5ing5os3ure2kara3ela4over8s3inen5son4ta3oto4wski7y3symuk2labre4cca4dich6es5roit5y4ga4hide4mud6te4ney5ga4prop4ra5key5y4ve4wi6\'s4yan5sia8\'s8n9s3colmson5mson5ntent9ts4zewski3dutis3echa5ki4na5fant4rba4ski6y3feasance4unction9oned9ons3hotra3ia4bu4cious5ki5oat4gnant4na6k5da5e5o5ski3kiel6wicz4ovich5wski3lery5ton8\'s4ia5coat5ghtco5nckrodt6ger6son5son4onee5ry5zzi3nourish9hed3oney3pensa4ractice3treated8ment3uken4so3vina7s2meluke3mallike5ry4ogram9s3ula2nafort4gement9t\'s9ts6r7\'s7s6s5ing5ua7\'s4han4lo4ma4sco5ion8\'s5sas4tee7s3cala4ebo5ra4hester4illa8s5ni6o4usi6o3dala7y6it8e5mus5rin8e8s5ted6ing6o4ela7\'s6baum6la5rscheid7on5ville4ible5go4olin3ella4uver8ed8s4val3fredi7o4ully3ganese6o4ieri5ne6i6o5one4lapus5ing4one5pe5steen9ns4ueira3handle9d5sset5ttan9\'s3ia5c6s4cure8d4er4fest8s5old4gat6ult5o4la6\'s5la5ow4oc4ples3jaca5rrez3kato4iewicz5ller4owski3nella5quin9s5ring7st5smann4ina6en6o3olis3power8\'s3riquez3slaughter4ueto3teca5rnach5ufel4illa4ua3ual6s4cher4ela4script9ts3waring6ren4iller3zano4ella2oris2pfumo3lewood3plethorpe3uto6\'s2quila7s2rable5ou4ca6s5le4fat4nda6o5iss5o6n5tette6o5ville4sco5ek5h\'s4thi6on8s4uder8s6ing3bella5rry4lehead4urger6y3cano6tel4eca7\'s5la6la7i7o7us6o5ssa8\'s4henko6schi7e7i7sault6tta8i6wka5ini7ko6o7ness6ta7to4ial6nte5nek6ko7us5ssa4one6i5s\'s6es4ucci5s\'s6sen3eady4lda5la6i4no4sca6o4tta3galo7v5ret8\'s8e6ine4erum6y5son4inal6ing5otta5ttai4olick7es7n7s5ry5shes4uerite5lies7s3hefka3ia5\'s5h5m5n6\'s6ne4bel4cle4el5nbonn9n\'s5r5tte4fe4gold8s4lda5in5la5u5yn7\'s7n4mba4na6de8s6s6te8s5eau6land6r7s6z5i5o6\'s6ff6s5vest4o5\'s5n6\'s4sa5cal5sa7\'s4tal5ime8s4us3joram6ie6y3kedly5ted7er9s7r8\'s8s6i7ng9\'s9s6place6scope6wide4iewicz4ovic8h7tz5wicz7tz6ski4sberry5manship4unas5son3lboro8\'s8s8ugh4ena4iave3maduke9\'s5lade9s5ra4ion4oset3ogen4ney5i6te4oney4tta6o4vich3querite5ita3rakech5zzo4ero4iages5ner5ott8\'s4occo5ne5quin4ufo5jo4ying3sala6is4eca7\'s5illes5ka5lla4haling7ltown5mallow9ows4ico5li5sa7\'s4olek4teller4zalek3tella7i7o5ney6s\'s7en7on4haler5ena4ina6dale6eau7c7k7z6gale6i7que7s6ka7o6o6s\'s7en7on7ville6y5re5ta4occi5ne4ucci4yrdom3uca5ci4i4kin4llo4ska4ti4yu3vela6ing6la7ous6ous3xism3yann7e4beth4land8\'s5ebone5in5ou4mount9\'s4ruth4sville4ville3zano4illi5pan4otto4ullo2sai4ki5o4mi4o4ru4ya3cara6i6o4hino4io6li4ola6o5rro4uline3ella6i4ri3halu3ini5o4us3lanka4en4owski4yukov3ochist4ner5ic6te5ry3querade3sacre8d8s5ger8s7s6ing5ri6o4enburg6et8\'s6gale7ill5ry4icotte5eu5mo5ngill5vely4oni4ucci3teller5rbate9es6card9d\'s9ds6ful6gate6ing6ly6man7ind9ds6piece6son7troke6work9ks6y4odon4rich\'s4urbate9es3ucci4da4llo2tabane4dor4ksas4la6\'s5in5on4ssa4ya3chboxes5maker9rs8ing3ecki4ja5ka4lski4o4ra5na7l4wan3hai4ea5na6ey6y5rly6son5son8\'s5wson4ia6s5esen7on5lda5sen6on3ilda4nee7s4sse\'s3kovich3oco4la4usek3ranga4iarch5ces5x\'s6es4only3sapa4uda5i5o3teo5ra6ease5son5ucci4hausen5ea6ws\'s8on5ia7s6esen4ila5na6gley8y5son4ress\'s8es4ucci3ula5ich6s4ring5o4schka5ek5i6k5ka5si5zak3zinger2uceri3geri3ndering9gs3rice\'s5ne5ta2varach3erick8\'s8s6x3rodi2whinney3yer2xicare4lla4ma6l5ize8d5um6s4on3pharma3saver8s3us\'s3zide2yaguez3belline5rry4ury3dena3eda4rnik5son3flower3onnaise4ral5ga3weather2zaitis4nec3eika4ltov3iarz3ola3urek5kas3zanti5ra4ei5lla5o5tti4occhi7o5la7\'s6i6la5ne6i5tta4uca6co1ba2ira1cabee3dam6s4oo5w3fee4fee3leer6se4inden4len4oon4pin7e3mis3ndrew8s4inch3rdle4thur5or3tee6r3ulay5ey5iff8e9\'s3voy2birney3rayer4earty4ien4yar3urnett7y2cadden4ffery6rey9\'s4ghren4hill4leb5ip5la6en7y6ie7on6on6um5mont4mant5bridge5ey5ish5mon5pbell5y4ndless7ish5less5na6on4rdell6le5ey5gar6o5ley5ney5ran6ell7n6ick6oll7n6y5son5tan6en7r6ha7y8\'s6in6ney9\'s6y5ver6ille5y4skey6ill5land6in4ughey5ley6ley5sland7in5thy4wley3hesney4ristian3laflin5ran6en6non6ty6y5skey5tchey8y4eary8\'s5ery5llan9d7en5ments5ndon6ny5skey4imans5ntic9k7ock8n4ory5skey7y4uney5rkin5skey3olgan5lam6ey6och7m7ugh6um4mas5ber6ie5mon8s5sey4nkey5nel8\'s8l9\'s6on5ville4oey4rkel8l6le5mac8k6ick9\'s5ry5vey4skey4tter4vey4wan5en5in3racken7in5dy5ney6ie5ry5vy4eadie7y6ry5die5edy6ry5less4ickard5llis5mmon4ocklin5rey6y5skey6sen4udden4ystal3uan4bbin8s4in5stion7on4lla7gh7h7r8s6en7r8s7y6och7h7ugh6um6y4mber4rdy5ley5ry4sker4tchan7en8on4vey2danel5iel8s5nel4ris4vid6tt3earmon4rmid7tt6ot8t9\'s4vitt3iarmid4vett5itt3onagh6ld8\'s8s5ell5nel8\'s8l9\'s5ough4rman4ugal8\'s8d8l8s6le4wall5ell3uffee6ie6y4gal4rman3yess2eachern6in3lfresh4hone4rath5eath5oy4vain8e5een4wain8e5ee4yea3ndree4roe4tee5ire5yre3rlean3uen3ver6s4oy3wan4en2fadden8\'s6in5in4lland4rlan8d8e9\'s6in8g5ren4tridge5ter4yden3eely5ters4rran6en6in6on4tridge2gaffey4ha6n5ee6y4lley8\'s4nnon4rrah6y5vey5y4ughey7y5ley4vin5ock3eachy5ry4ean7\'s5han5ver4gan4hee3ibbon4llen6is5ton5vray4ness5ley5ness6is8s5ty4vern5ney3lashan6son5ughlin4inchey4ocklin5ry5then7in7lin3oey4ldrick4urty4vern8\'s4wan7\'s5en5in3rady4eevey7y5gor5vin4oarty5gan5ry4uder3uckin4ffee7y6ie7n4igan5ness6ness4yer3wire3yver2haffie4ney4tton3enry2ilrath5oy4vain8e5een4wain3ngvale4nes5is4roy4tee5ire5osh5urf8f5yre4vale3saac3ver4or2junkin8s2kamey4nie5na4rrick3echnie4egan5han5man5sport5ver4ithan7en4llan7r6er6ips5vey6ie6y4mie4ndree7ick7y5na6ey6on6y5rick5zie4on6e5ugh5wn4rcher5nan4sson8\'s4than4vitt3ibben6in6on4ernan4llip6op4mmey6y4ness5lay6ey5ney8\'s6ie7s6on6y7\'s5sey6try5zie4ssack6ic8k4trick5trick3latchy3neely3owen2lachlan4ren5ney5ty7\'s4uchlin5ghlin5rin6y4whorn3eary4land5lan8d4more4ndon5nan4roy5ran4ster3inden3ucas5kie4han2mackin4han5en5ill5on4ken5in4nis5nis5sion5us4rtin4ster8s3eekin3ichael6en5kle4llan6en7r6ian7n7on6on3oran5ran6is6ow3uffin4llan6en6in4rdo5phy5ray6ey6y5trey7y2nairy4lley6y7\'s4mee6r4ney4ry4ughton3eally6y5ry4eley6y4illy4lis5lis6y4mar4rney4vin3ichol8as8s5kle5ol3orton3uggets4lty2omber2paper4rland5tland7in3eters3hatter4earson5eters5ron6son4illips2quarrie6y4eary5eney5rry5thy8\'s4ilkin6lan7en7in5ston5tty2rainey4ney3eynolds3oberts4rie2sherry3orley3padden3weeney2taggart4vish3ernan3ier6nan2vicar5ker2waters5ters3eeney4thy3herter4inney5rter4orter3illiam9s1eadowland9ds8rk3lo4ynose9d3nder7ed7s4ingful7less3surement9nts7x6ing3tier4packer9rs8ing2chanic8s7ze9d3iar3klenburg2dalist8\'s8s5lion9s4phis4rex5is3dlesome5ing3ea5ris4cin7s4iros4llin4ma4ndorp4ros4va3ia5\'s5l5n5te4caid6l7\'s7ly6re8\'s6te8s5i6ne8\'s8s5o5us4eval4gap4mmune4na5ger4o4plex4scare5group9ps4tate5rust4um6s4vac7ed3ora3rano3tronic3ulla4sa6s3vedev2enaghan3uwsen2gabit5uck8s5yte8s4deal8s7th4food8s4hertz5ouse4phone9s5lex4quest9\'s4rry4store9s4ton7s5ron4watt8s3ginson5son2haffey4lkoff4rry3ringer2idinger3necke5ke4inger3osis3singer4ler2jia5s2lador4med5ine4nby5con5der5ie6n5son5tha5y3chior3eis4ndez6rez6y4ro4ski5sa3goza3ia4can5ent5har4llo4na5da4sent5sa7\'s4ta5o5ta4us3laril4ema4icent5nger5tus4onby5wing3oche4dic6es5y4ne5i3ridge\'s3twater3ucci4gin3vina2mbership9ps4ranous3ento7s3oli4rex5ies6ze8d5y4tec2naces5hem5ing4hem4ker4sco4tep3chaca4oni3dacious4elsohn8n7sohn5nhall4ieta5llo5vil4lowitz4ola5nca6sa5sa5ta5za3eely4fee4ndez4ses4zes3gele4hini4istu3haden3ial4fee4no3jivar3nella5nga4inger6i4onite9s3opause4rah7\'s7s4tti4yo3singer4trual8te3tally4ioning4oring6ship3udo4hin2ola2rabank4nda3cado5ntil9e9e\'s5tor4edes8\'s4handise7tmen8sbank4ier5ful5less4osur4uri7c6y7\'s3edith4nda3iam4ca5le4da5en6th5ith5or4eux4llat4no4on4sel4ted5hew5ing5less5or3ksamer3letti4ina6o3melstein3ola5la4ney3riam5er5field5gan5hew5ly5mac8k7n5ott4yfield5man3sereau2saba4ros3caline3elsohn7n4nbrink4rvey3hulam3irow3kimen3ler3merize9d3sagepad7s6ing5more5na4enger9s5rli7y6schmidt9mitt7mith4iaen8\'s6h7s5er5mer5na6ger3tizo4rallet5ovic3zaros2tagogue9d4irie4llatz6ic8\'s8s6o5work4phor8s4vsky4xas3eor6s4ring3hadone5nex6ol5zine4eney6y4odist4ylene3oyer3rahealth4ical4obanc8k5call6orp5dade6ome5mail5plex6ol8\'s3ternich3zenbaum9m\'s4inger2unier2vacor4rach2xican7s5o6\'s2yerbeer5hoff5ing5man5son3ohas2zera3uzah3vinsky9\'s3zanine1fume1gm1iami5\'s3no3ra3sma3ta3zga2caela4le5lef4tin3ciche5o3eli3haela7ine8s7la7sen8on5lak6ec7k6ik6ski8y4ela7\'s6i7n8e6li6man6ob6sen7on4igan8\'s5o4oacan3kelsen7on5y\'ll4iewicz3roage6ire5bilt5chip9s6ode9s7m5dyne5fiche7lm5gram9s5nic8s5phone9es6ro8se5scope9es6oft9\'s5tel5vax5ware7ve9d9s3ucci2ddendorf4lebrook9oks7urg6kauff6man7en7iss6sex7worth6ton8wn6weight5ing3eastern3getman3lantic4evel3morning3season5ction5ssion4hipman9n\'s8en9n\'s4ummer3ura3western4inter9\'s2eczkowski5yslaw3dema3lcarek2ghtier7st6ly3nano4ogna5ne3rated6ing7on9s2halek5ic6k5ko5y3elich2jares2kado4ela4ko3elson4sell5ka3idu4ta3kelsen7on4ola3ula6k5ec5ic7h5ski2lacron8\'s4dic5y4gro4ni5o4rdo4zzo3bauer4erger3drid3eham4ski4tich4wski3holland7in3ian4cent5i4ssent4tant8s6te5ia7\'s7s5o4us3kovich5wski3lender5rbrook6ick5son4ibar5can6ent6om8\'s5et5gal7n7uss6ram9s5kan6en6in5man5ner6gton5onaire9re\'s9res5pore5ron8s5sent4worker9rs8ing3odic4nas3pitas3tonic3waukee9\'s2micking5ry3osa2nahan4mi4rdos5et7s5ik4sian5sian4tome3danao4boggling4edly6ness4fully4lessly3ea4han4lla6i4o5wner9s4ra6l7\'s7s5o5va4sweeper9ers4ta4worker9rs3gling3ibus4car7s4disc4er4han4lab7s4mal5ill8s6ze8d5um7s4nger4scribe6ule5kirt9s5ter8\'s8ing8s6ral7ies7y8\'s4tel4um4van7s3jares7z3nelli4iear5field5ti3oan4li5ta4rca6o7\'s5ing6te5u4so6s4tti3peco3tier3uet4scule5es4tely6man7en2ocene3tke2rabal5el7le5ile4cid7\'s5le7s4da4ges4mar6x4nda7\'s6o4tec3eles6z5la4nda3iam4lla3oslav3roring2santhrope4pplied9s7y4ter4wa3behave9d9s4rener3carriage5vige4harges8ing5ievous5ler4ible4onceive9ved9ves6duct6strue9ued9ues4reant9s3direct3ener4ries5ly5y3fire4ortune9es3giving9s4uided3handle9d9s8ing5waum6um3iak4ewicz4nform9ed9s3judges7ing7ment9nts3kito7s3label8ed8s4eading3manage9d5tches3nomer3ogyne3perceive9ved9ves4laces7ing4rices7ing6nted6sion5onounce9nced3quoted7ing3reading5port3shapen4imer4oula6ri8\'s4pelling6nding5oken4tated8ment9ents7ing3taken6ing4ero4letoe4reated8ing8ment6sses6tta5ial8s5usted8ful8ing3under4ses5ing2t3chelson7tree6ner3ering3hridate9es3igate8s3ofsky4tic3rano4ovich3suba5i6\'s5ru3telman6stadt9edt8eadt5ndorf5rand9\'s6rand9d\'s4leman3yunov2ura2yake5o2zrahi3uno1khatshwa1ladenic4ic\'s1mabatho2e1nemonic8s1oammar2berly3iler5iare6ze8d4us3utu6\'s2carski4tta3casin8s4io3eri3hida3kery4ingbird2deling5ling5o4na4rate8s5nist9s7ze9d4sitt5ta6ia6ly6o6y3ica5um4fied7s5y4sette3jeski3ugno4laire6r6te5o5us2ebius3llering3ning3rman3sha2gayon7\'s3ensen3lia3opa2hamad5ed5mad6ed4sco3ican7s2iety3lanen2jave3ica2khiber3oena2laison4nder5o4sses3dable4ova7n3ecule8s4naar5da4ski7n8e6y5ted7r8s6ing3ina6r5eaux5o4tor3lenkopf5ring4ica5fied6y5son4ohan3okai4ney5icks5y4tov3pus\'s3ucca3yneaux2mayez3basa3entous6um2naco6\'s4dnock4gene5han4han4rchies8st9ts7y5rez4stic3cada5yo4ure3dallo5vi4elli7o5o4ragon5ian3essen4tize4ycard5less6ine9\'s5watch6eek9\'s3forte3gelli5ring4iello5llo4oloid5oses3hollen3ica6\'s6l5o4er5son8\'s4gold4ker7s4nger4sm6s4tor7ed7s3keying6like3nier3ochrome5late6e4gram8med7ph9s4hull4lith8s5ogue9s4mer7s4plane9s5ole8s4rail8s4szon4tone5ype4xide3roeville3santo8\'s4ignor9s4oonal3tagna7ier6u7\'s7e5lban7o6to6vo5na7\'s7n8s6ez6o6te6ye5von4ego5iro5lla7o5nay5rey6o6rey5si4gomery9y\'s6ris4iel6n6th5jo5ni4martre5iny4one5ya4real8\'s5ouis4serrat4uori3ument8s3zingo4onite2oberry3ndreamer9ers4eyham8n4lighting3refield2race5hov4do4ga4han4inal5tis4lez5ist8s6ze5ly4ndan6i6o5o5te4ski5ses4vec6k4wski3bidly3decai6hai3ea4dock4field4hart4ira4jon4lla6i6o5ock4na5cy5o4over4ra4sco5o4ton5ti6o4ver3gado5na6stern6te7i7own4enroth6stern6thau3ia5l4bund4ci4llo7m4ne5i5o4sette5on5sette4ta4ya3jera3mino4onism3ningstar9ar\'s3occan8s6o4nes6y5i4sky4vcic8\'s4wick3pheus3reale4ical6one9\'s5s\'s6ett9e7y6on8\'s6sette8y6town6ville9le\'s4one3tally5ra4eki5nsen7on4gage\'s8power8s7ing4ician5er5fied6y5mer6ore3villo2saic6ked6s3bacher4rucker3cato4hella6tti4oso5wane6itz3hier3iman4nee3katel\'s4ovitz5witz3ler3queda6ra5ito8es8s3sbacher6rger4holder3teller4oller3zkowski2thballing4erboard6care6hood6ing6land7ess7y6shead9d8ip9p\'s9ps3ioning6less4vate8s3ola4rbike9s6oat5cade9s7r8s5en5ing6st8s6ze8d3singer3tling4ola3yka2ulinex3ntaineer9ers8ous8side9ides8top9ops5castle3ssaka5orgsky3thpieces2vable3ida4elab6ine5time4ngly2wery2ynahan4ihan8\'s2zambique3ena3ingo1pg2h1ri2oczkowski3zinski1sgr1tv1uammar2barak7\'s2ccio3kenfuss4leroy4raker7ing3osa6l2ddier4ling4ying3slinging3wagon2ehlbauer2gabe6\'s3geridge3hniyeh3niyah2hamed7\'s5mad8\'s6ed8\'s4rram3lbauer4enkamp2ilenburg2jica2kai4sey3herjee2lanax4tto3berry3cahey6y3dorfer5wney3heren8\'s6in4olland3lady5lly6y5ney6y5rkey4dorfer4enax6dore6ix4ican5gan8s5ken6in5nax6eaux6ix3roney8\'s5oney3tibank5dex5foods5line5mate5part6le8s8x7ied9s7y5state5task6ude9s5valve5year4nomah3vaney6y4ihill2mbling3ia3mified6y3power2nafo3chausen3dinger3guia3ier4tion8s3nerlyn3singwear4terman2oio2rali4no4ski6y4ta4vich4wski3chinson6son3derer8\'s8s6ing6ous3guia3ial5s4el4llo3jani3kier4owski3muring3nian3rieta2salo4nte4rra4vi3burger3catine6o4ling4ocho5vite9s4ular3eum6\'s6s3hrooming3ial4ca6\'s6l7ly7s5ian8\'s8s5land3kegon5teer9s4melon4ogee3schenbroek4elman6white3taches5fa4ering3zynski2table4gen7s4ted5ing6on8s3ilate4neer8s5ied7s5ous5y3langen3tering9s3ual6\'s2zio3yka1ycogen2elin3rs\'s2klebust2nhier2opic3sin2reon3iad5m4lla3midon8s2slinski5wiec3teries6y4ical5fied8s6y2thical0n\'djamena1abisco7\'s3okov7\'s4zny3retta2cchio3hmany4reiner4tigal3obre2derite8s3ler3olny5ski2egeli2ffziger3talis3ziger2gai4no4o4ta3engast3orno5ski4ya2hmias2irobi3vely2jera2kai4ma4no4o4ta3hamkin2lepa2mara4ste2ncarrow3dita4onet3gaku3ia3kervis3ninga6i3ogram8s3tucket9\'s2oki3ma4i2pea4rville3hthalene3ier3oli4ra3pier3rosyn2ramore4nja6o4yan3ciso6sist7us4otic8s3della7i4ini4one5zzi4ucci3ita3likar3nia3odny3ramore5ted6ion7ve9s6or8s4ower7st6ing6ly6ness3vaez4eson2sally3hnamie4ua6\'s3rullah3tasi4ier6st5ness3worthy2tala5e5i6a6e5le7\'s4sha7\'s3chez\'s5itoches3halie5nael6iel6son3ionair7l8\'s8s6hood6sbanc9nc\'s9nk9nk\'s6wide9e\'s4vely5ist3oli4mas3sios3tering4ily3una4ral7\'s5edly2ugatuck3sea6te3ta4ica7l5lus2vajo6s4rette5ra6ete8te6o3ellier3ickas4gate8s4star2wrocki2ysayer8s2zareth3ism3zaro1ba2c3\'s1earsighted3thery2beker4rgall3raska8\'s8n9s3ula5ous2chayev4yba3klaces7ing3mettin3rosis3ula2derland3lloyd2edelman4ier6st4lefish6like6man6point6r6ssly6work2ftegorsk2gara4ted5ing6on6ve8s5ron8s3lected7ful7ing4ia5gence8t3roni2ibauer3ghborhood9ood\'s9oods8ing8ly7urhood9hood\'s9hoods9ing9ly3meyer3sler4wender2kia3oosa2lia4na4ta3ligan2matode8s3ean4cek4roff4sis2nninger2oax3la4ith3ma3phyte8s4rene5obe3rx2palese5i3enthe3hrosis3onset2renberg3io4tic3uda3vana4ion4osa5usly7ness2sler6\'s3tea4ler2thercutt6land9ds6ton6world6y4uva7\'s3iquette3terville5sheim4lesome6ton9\'s3working2ubauer4ecker5rger4urger3decker3endorf9fer5feldt3hauser3kirchen3maier5yer4eier6ster5yer4iller3pogen3ronal5ses6is5tic3tering4ralist8ze9ed7ly5ino8s2vada6\'s6n7s4la4rach5ez3erland5mind6ore3ius2wbauer4erger6ry6y4raudwick4urger6y7\'s3castle9\'s4omer8s3fangle9d4oundland3gateway3ingham3lywed8s3market4eyer4yer3scaster9rs4flashes4letter9r\'s9rs4maker9s4paper9\'s9s5eople6rson9ns4wanger5eekly5oman7en6rthy3tonchik3vector1fc2l1gema2ueppe1iacin3gara7\'s2bbling2candros4stro3coli7te3eties5y3helson4ola7s6i6s\'s7on9\'s3kelson5rson5son4laus\'s5eby4olas7y6off6son3oderm4la6e6ides6s6u7s6y5et7te5i6n5lier5o6ff5son4rette4ski5on4tine8\'s5ra2differ2ebauer4ling3dbala7ski4erer6man4zielski5wiecki3meier5la5yer4oeller3naber4huis3renberg3ves3zgoda2ggardly3hswonger4tengale9le\'s9les5ingale5marish3relli2hilists4ser2kita3ola6i6us5ic7h4vski2mrodi2ncompoop9ps3etieth4veh3tendo8\'s2obite2renberg3iko3vana7\'s7s2shida5mo3kanen3senbaum3wander4onger2thuekan9\'s3picking7y3rating7on4ogen2vison1kohse1mr1obleman8\'s3odies5y6\'d7s4ru3rega4iga3uo4to2cella4ra3turnal2dine3ular2ffsinger3singer3ziger2gales4wa3uchi4eira5ra2isier6st5ly2kia5\'s2lana5da4sco3eta3ita2madic3inal6te8s5ee7\'s7s3ura6\'s2nalign8ed3banking4inding5ting4uilding5siness3chalance9t4olor5mpete5ntract5rporate3defense5script4irect4ollar3etheless4vent3fatal4errous4iction3human3interest3lethal3member9s3native9s3paying6ment4lanar4rofit9s4ublic3racial4oman4uling3smoker9s7ing4porting4tandard6rter9rs3toxic4urbo8s3union3verbal4oting3woven8s2ramco4nda7\'s3berta7o4ury3dbanken4ica6track5ne5o4ling4meyer3eco4iga4lco4nberg5co5ko3iko4nko4ta3lander3malcy6ize9d6ly5ndie8n7y5tive4ington3odom3rington5s\'s3sworthy3thampton5eastern9ward6rly7ner9rs8most5ington5wardly6estern9ern\'s3wegian9s2seworthy3iness3talgia8c2table7s6y4ro5y4tion8s3ebaert5oom4holder9rs4taker9s4worthy3hingness4nagel3ices5ing4fied7s5y4onal3ochord3tingham2urishes7ing7ment2vacare5ek5or4to3elist8s5la6i6o6us6y5ties6y4mber8\'s4rco3gorod3ia4ces5ki4nger4tski7y3oa4grod4pharm4sad5el5ti4tel7s5ney6y2wacki5zyk4day7s3icki4nski3otny2xema2yola1pr3\'s1uala3nces2bian2ccio3lear5i6c5us2delman3ity2isances2joma2llified8s6y2mbering4ingly3eiri4ral7s6te5ic5ous2navut3cio3emaker3gesser3nally4elley7y5ry3zio2remberg4yev3nberger3series6y3turer8s6ing2ssbaumer2tcracker9rs3rasweet4ia5clean5ent8s5tion8us7ve2zzling1vhome6s2ryan1ydegger3ia2enhuis3rere4i2ina2lander2nex\'s0o\'banion5non4ra3erle5ry3regon5mski4ian7t5en5nger6sky4yan7t2campo4na6s4rroll3illa3onnell7r6or2deli3iorne3onald5nel8l3riscoll2fallon4rrell2gorman3rady3uin2hagan4nlon4ra5ra4shi4ver3erron2kelley6y4son3icki2laughlin3eary3oughlin2malley4ra5ska3eara3ori2reilly3iley2smarty1ad2hu2s3es3is2xaca1bama5\'s3ndo4ion4non3ra2durate2eisance3nchain4shain3rbeck4dorf4haus4le5in5y4maier6n4on4ry4star4weis3ying2fuscate2ispo2jected6ing7on9\'s9s7ve9s6or8s2lander3igate8s5es5ing4quely3oquy2noxious2oist2regon4mski7y3ian6t4en4nger5sky3yan6t2scuring3ervance8t6er8s6ing4sses6ing7on9s7ve3olete8s3tacle8s4etric9s4inate4ructed8ing9on9ons9ve2taining3rusive2viate7s4ous1cain3la3mpo3na5s3rroll2casion8ed8s3hino4oa6\'s3ident3lusion3upant8s5ied7s5y4ring5rence6ing2eanfront5side5view3lot6\'s2heltree3oa2illa2kerbloom5man2onnell6r7\'s5or7\'s2tagon4vus3illion3ober7\'s4pi5us3uplet8s2ular4ist1daiko3niel2dities5y3smaker9s2ea3gaard5rd3kirk3le5t6te4la3nthal3on3ssa3tics2iaum5n3er3ous2onald4nel7l3rant4less4ous2p2riscoll2walla3yer2yssey7\'s1edipal5us2ien2lschlager2nophile2rlikon2sterle7ing6reich4reicher2ttinger1fallon3rrell2c2fended7r8s6ing5ses6ive9s4rdahl5er7s5ing8\'s8s5man8n3ice\'s6max6r7\'s7s6s5ial8\'s8s3limit8s3season5tting2tedahl4ner5times1gara3ta3wa2ier3lvie5y6\'s2lala3ebay4sbee6y4thorpe5ree2oni4yok3rman2rady2uin1hagan3nlon3ra5\'s4ra3shi3ver2erron2io4\'s2lendorf3inger2mura2nemus1ishi1jala2eda2ibwa1kabe3da3no3san2elley5y3n3rlund3son2onski2sana6\'s3enberg2ubo3da3ma3no3ra1lafson3nder4o3sky3the3ughlin3yan2berding2daker4ni3enburg5kamp3fashioned5ther3smobile9e\'s9es2ea4ry3fin6s3jnik3ksy3nder4ick5k3o4yl6s3sen4ke5y4on4tra3xa4son2igarch8s4er3nda4ger3phant3va5s4er6\'s5tte4ine4o3wa2kowski8\'s2lila4nger8\'s4son7\'s2meda5o2ofson7\'s3ughlin3vo2shansky9\'s4efski9\'s3zewski2vera2ympic7\'s7s5us1maha5\'s3lley3ni3ra4ska4y2budsman2eara3ga2inous3ssion8s3tted5ing2nibank5ook5us4care5om7\'s4scient2ori1nagers3ssis3wa2cale3ogen7e4ming2daatje3erdonk3racek2eida3ok3rous3x\'s2going2ishi2looker8s2oda3fre2rushing1paline7s4ka2ener6s4ing7s4ly4ness4shaw4work3ran6t5te7s2helia3thalmic2iate6s3ela3ning5on7s3um2ossum2penheim4rman8n3liger3onent8\'s8s4rtune4ses5ing6te8s3resses7ing8on9ns8ve7or9s2ryland2tation3ica6l7\'s7ly5ian8s4ma6l5ist8s6ze8d5um6s4onal6ing2ulence6t1quendo1rabel6le3cle6\'s6s3dour3flex3hood3lie4ly3ngeburg6s3sure3tion7s4or6s3vec5tz2banco3ital7s5ed6r7s5ing2chestra9\'s9l9s9te9tes2daining3ella4ring5ly3inance4way3nance\'s3onez2ea3baugh3ffice4ice3gan4on6\'s3illy3la4on3nda5orff4stein4thal3o3stes2ganelles5ic7s6st6ze8d5um4sm6s3eron3otein2ielda5le4nt3fice3gin6s3ley4la3nda3ole6s4n5\'s4rdan2landa6i6o7\'s3ean6\'s6s4na3oski7\'s6y7\'s4wski8\'s2merod3iston8\'s2nament8s4tely3elas5la7\'s7s4ry2ogil3na3sco3zco2phanage6ing4eum6s3iment2rery3ico4son2sini5o3ola2tega6\'s6s5o6n3hoclase5dox1sages3ka4e4i3ma4u2calus4rson3illate9s2hawa3ima4ro4ta2iecki3ka3nski2mena4r3ium3osis4tic3undson2owski2pina2setia7n8s3icles4fied5y2tendorf5son4rberg5gaard7rd6ren5haus6off7lt7udt8t5kamp5ling6oh6und5man8n5tag3ia3ling3racize9d5nder4iches4ogoth9s5ski7y5wski8y2una2wego1taiba3ni2ello3ri4o2hello4rness5wise2iose2remba2sego3uka2tawa6\'s6y7\'s3erbein9\'s5loo5son8\'s4sen5on3ilie3oman4sen5on2ulsky1uderkirk2elette4let7te2rself6ves2seba2tages3bidded7ing3classes8ing3dated4istance9ced4oing5orsman3ermost5wear3fielder9rs5tted8r9s7ing4lanking4oxes6ing3gaining4oing4rowing4uesses8ing5nning3houses3landish5sted7ing5wing6ry4er4ier7s5ning5ving4ying3moded3number9ed9s3paces6ing5tient9ts4erform9med9ms4lacement4ouching6ring3rageous7s6ing4ider8s5gger9s4unning3scoring4elling4hining4ider8\'s8s4marted8ing4ources8ing4pending5oken4tanding5ripping3voted6ing3wardly4eighing4itted7ing1varies4y3tion7s2eract7s5ll7s5te4baugh6y5eck6y5ill8ed8s5lown5oard6ok8ed8s6ught5uilt6y5y4came6sh7t5harge9ed5lock5oat8s6me8s6ok8ed8s5rowd9s4did5o6es6ne6rf6se8d5raft9s7w8n6ess7w6ive5ue4eat4fed6ed6lt5ield6ll5light9ts6ow8ed8s6y5und4gaard5rown8th4hang8s6ul8ed8s5ead8s7r8d8s7t8s5olt5ung4joyed4kill4laid7n6nd6p7ped7s6y7s5ey5oad8s6ck6ok8ed8s6rd8s5y4man6tch9ed4night6te4paid6ss6y5eck5lay8ed8s5rice9d4ran6te8s5each9ed5ide8s6pe5ode5ule8d8s6n7s4saw5ea7s6e7n7s6ll5hoot7t5ight6ze8d5leep7pt5old6n5pend9s8t5taff9ed7te9s7y8ed6ep8ped6ock9ed6reet7om6uff9ed4take8s6x7ed5hrew7ow9n9s5ime5ly5on7e8s6ok5rain5ure8s7f7n8ed8s4use7d4view8s4weight5helm9ed9s5ork8ed8s5rite9s6ote7ught4y3son2iatt6\'s3tz\'s2onic2shinsky1wada2czarzak2enby6\'s4s\'s5by7\'s2nership2osso2yhee1xalates4is2endine2idant7s5se4ize7d4yne2oco2ygen1yama2ola1zaki3nich3wa2ier3mek2olins3ra2una0paavola2ccione3ella6i4maker9s4setter3heco4inko4older6ski3ific7\'s6ed6st8s5y4ni5o3kage\'s7r8s7s6ing4inghouse3yna3zkowski2dawan3dington4ling3illa3ua4cah4la2gani5o3eantry4maker4nkopf4zy3lia3notta3oda6\'s6s2inewebber9er\'s4fully4killer9rs4lessly4staking4tbrushes5erly2jama6s3oli2keha3istan8\'s3ula5ski2lace\'s6s4din4fox4nsky4rdy4tial6ne4u\'s5ans4zzi6o3ecek4o4rmo4se5tine3impsest4nkas4sade8s3kovic3lante4eschi4one3mateer4eri6o6ton7ree5tto4ira5stry5ter6ic4olive3oma6r5ba6i6o5o3pable7y4itate9s3umbo4zzi2macho3ela6\'s5la3perin8g4hleteer9ers4lona2naco4gos4ma6\'s5sat4ro3ciera4reas3danus4emic5ring4olfi7o5ra7\'s3eling6st8s6ze8d5la4tta7\'s3fida3gallo3handle9\'s9r9rs8ing3iccia5king6y5o4ni3konin3munjom3nier4one4ullo3oply4ra4zzo3phila3sophic3talone7on9s5no4era7\'s4hea6on4oja5mime4uso4yhose3zica2pacy4george5o4le4ya6s3enfuss4rback9s6oard7y8\'s8s5ing5less5mate5nick5weight6ork5y3illion4neau5i3rika4ocki3ua2rable7s4chute9s4da5ed6e5igm8s6ng6s7e5or6x5y6ne8\'s4ffin4glide5on5raph9s5uay4keet8s4llax6el8ed8s5yze8d4max5o6re6unt9\'s5us4na5oid4pet5hrase4site8s4troop9s3boiling3celing4hmentlike3dini4oning3edes6z5is5o4lla4ntage7l6e7au6hood6i7ng4ti5o5ti3gesa3iah6s4bas4llo4s\'s5eau5hes5i6an4ties5y4zeau6k5o3kersburg7on4inson9\'s5son3lato5ying4iament9t\'s9ts5er4odel3malat4ele7e5nter5san5ter3nassus4ella3odi6ed7s6st5y4lee7s5ing3ramore4ella5tti8\'s4illa7o5no5ott5shes4otta3sefal4ifal4onage3tenope4henon5ian4ially5cle8s5da6o5ngton5san8ed8s5tion9ed9s4nering7ship9ip\'s9ips4ridges4ying5ka2scua6l5cci5tto5zzi3eo3illas3quale5ini3sable7y5ges7way5ic5nte5ro4enger9\'s9s5rby6o6sby4ino5onate5vely4over3ternack8k9\'s5urize9ed4iches4ora7l4rami6na4ula3zkiewicz2taki6\'s5y3ella4naude5ted6ing6ly4ra5nal6o5son4se3hetic4finder4ogen8s3iently4llo4na5kin5o4o5s3lex\'s3naude3riarch9\'s9s5cia8n9s6of5e5ot7\'s7s5stic4olling6man7en5nage6e7ss6ize9d6ym3terson9\'s5son4illo5nson5son3uxent6t7s2ucity3letta4hamus4ina6o5ta3tler2velic5ka6o4se3ia4lion8s5lion3lica6ek4ovic8h2welek5ski7y3licki4oski5wicz6ski3tucket5xet2yable7s3ola3singer2zuto1df1eabody7\'s3ceable8y5fully8ness5keeper9ers9ing5maker9r\'s9rs8ing3santry2bereau8\'s2canins3hacek4iney4ora3ina3kenpaugh4inpaugh3ora5e3toral6is3uliar2daling4ntic6ry3dicord4ling3ersen6on4stal8s3icure8s4go5ree8s3one4phile9s4witz3raza4etti4oli5sa6o5tti5za2gasus3matite3uero2ixoto2kala4rek2ladeau4ez4gic4yo3erin4ton3ican7\'s7s4kan4no3lagra4egrin5rin5ted6ier4icane3oquin4si5o3tier3uso2mberton4ina4leton2nalize8d5ties6y3berthy3darvis4elton5rgast7raft9ph9ss9st4leton4ola4ulous6um4yala3elas4trate9s3gassan4elly3ikese4nger4ses5ton4tent3kala5va3nbancorp4ella4iless5man5nger7ton6o5si4sauken4ywell3obscot4yer3singer5oner9s5veness3tagon8\'s8s5thlon4ecost4hea5ouses4ium7s4othal3umbra4ry2onies4y2pita5one3linski3perdine6ell6idge7ng6man7int3sico7\'s2queno4ignot2rala5es6z5ta4tis4za5zo3ceiving5ntage7ile9es5ption9ns8ve5val4hlorate8ic4ifield5val4olate4ussion8ve3dita4omo3ea4da4goy5rine9s4ira4lla5man8\'s4ra4s\'s4tti4yra3fecta7ed7ing8on7ly5tti7o4idy4orate9s6ma8nce7er9s7ing4uming5sion3gamon4ola7s3ia5\'s4dot4gnon5o4llo5ous4man4ne5i5o4od6\'s6s4scope9s5hing5tyle4to3jurer6ing6y3kins\'s7on4ovic8h5wski3lmutter3manence8t4eate8s5nter4iam6n5ssion9ns8ve5tted7ing4utate9s3nella4icious3ona5i6st8s4tti4utka4vich4xide3petrate9es4lexes7ing3quisite9es3reira5lla7i5tta7i4ier5go5ne6o4odin5ne5tta7i7o4yman3schbacher4ecute9s5us5vere9d9s4ico5nger5sted8nce9t7ing4ona7e7l8s6ic8s6nel4pective9ves5iring4uaded7ing6sion9ns8ve3taining4inent4urbing5ssis3ulac4sal5es5ing5se4zzi3vaded6ing5sive4ersely7ion6ted7ing2seta6s3hawar3ina3ola3simist9s3tana4ering4icide9s5lence6lo2terbilt5ing5ka6in5man8n5paul5sburg6en8\'s6on8\'s5y3illo4no4pa6\'s4tion8ed8s5jean5o5ti6o3kovsek3racca5itis5kis5rca5sek5uskas4ea5lla7i4ified6y5lla7i7o5na6i6o5zzo4obras5corp5glyph9hs5lane6ear5min5nas6e6i5sa6ki7y6sian5vic8h5wski8y4ucci5ska5zzi3taway4engill5rsen7on7son4icoat9s5grew5john5ne7ss6ger7ill3ulance7t3zinger2veler4rell4to2wabic2yote2zeshkan3zella4ullo1fannenstiel2efferkorn7le3nninger2isterer2leiderer2orzheimer1ga3\'s2m1hagocyte9s3langes3ntasm3risee8s4macies8st9ts7y2d2enicie4olic5type9s3rigo4omone9s2ilana6der6tha4berta4eas5mon5o4hower4ibert5da5na5ppa7e7i8c8ne9es6s\'s7on5stine9es4labaum5ipine9es7pi7s\'s8on3neas2lebitis4gmatic3ogopite2obia6s3enicia9n9ns6x\'s3nemic5tic8s4ograph9hs3sphatic6oric9te9tes8ous8us3tocall5graph9hed9hs5op5shop9ped9s5tron4ronic9s2p2rygian2ysical8s6ian9\'s9s7st9s5o1iaget6\'s3na4ist7\'s7s4ka4o5\'s5s3scik3tek3zza2cabo4nte4resque5o4sso7\'s7s4yune4zo3cione4ola6i6o5ne3hardo4eny3inich3kens\'s5ral6el8l6ill7ng5ted7r8s6ing4ier4ler4pocket9ts4ren3turesque7tel6ing2ddling2echocki6ta6wski4zynski3karski3rie6\'s5ni4oni5tti4relouis6pont3ties5la5sm4ro6wski5uszka5zak6yk4y2geonhole9ed3gyback9ed3mented3nato4one2kula2larski4ster8s4tes5o5us3ecki4ggi4vsky3ferage6ing3grimage3kenton5rton4ington6ton3lager8\'s8s7s6ing4oried6y5wtex4sbury9\'s3oted5ing5less2mental6el3plapure2ncavage4erlike3daric3eal5pple9s4da5o4gar4iro4llas6i4o4ro4tta7\'s3gleton3heiro3kelman5rman6ton9\'s4owski4water9\'s3nacle8\'s4eo3ochet8\'s4la3pointed8ing3quater3soneault2oneer7\'s7ed7s4tek3tter3usly2pefishes4tter8s3itone3penger2racy4eus4ino4nha4ted5ing3elli7\'s3ouette9s4zzi3rello4one2sani5o4rek5ski3ciotta4opo3ello3oni3tilli2tblado3iful4less4no3ofsky3tencrieff6ger4inger4sboro6urgher9hers3ying2vonka4tal5ed5ing2zana5o4rro4tti3zano5zier4ino4uti6o1lacating4ebo7s5ncia6ta7ia5ta7s4ida6ly6o3giarize9ed3intively4sted3mondon3necon4itzer4ktonic4tation9ns5ronic9cs3scencia4encia4terboard7er7ing7work5icine3teauing4inum\'s5tude9s4ona6ic7st9s4ypus3usible8y3yfully7ness4houses4station9ons2easantly8on8ries9y8ville5ingly3beian8s4iscite3iades4stocene3nary4tiful3onasm3ssinger3thora3urisy6tis3xiglas9s2iable3nius3ocene2ucinski3mages4eri4meted7ing3ndering3ralize9d4ibus3tocrat9s5nic3vial1neumatic9s5onia8c1oblano2chiluk3iask4us3ketbook9ks6ed6ful6ing4lington3ono6s2dany3caster7ing3esta3gorski4urski3horetz3ium6s3leska3olak5ski7y3rasky5za3uska2etic6s4ry2ggioli2hjola2ignancy7tly3ndexter9r\'s4tedly6noire5ingly3rier4rier3soning9s6ous2kemon3orney6y5ski2lacek5hek4koff4nco5dri5ski7y4ris6ze8d5oid8\'s8s4sek5ki6y3emic7s4tti4voi3hamus4emus3ice\'s6man9\'s7en6s5ies6ng5y6\'s4no5ski7y4o4quin4shing4tely6ness5i6c7s6s5o5y4vka4zzi3kinghorn3lina7te9s6ger6i6o5o4utant9s6ed7r8s6ing7on3onaise5sky3tergeist9sts3ycast5hrome4glot5on5ram8\'s7ph9s4mer7s5orph4phase4sar7\'s4tech2merance7tz7z5leau5oy3mier3ona3padour6ur5no4eo4idou4ousness2ndering6ous4imin3tbriand4iac7\'s7s5kes5llo5us3ytail3zetti4io2pelka3lawski3ovic7h4wski3padom4ea4leton6well4ycock3sicle3ulace6r6te5ist8s5ous2rada3caro4elain9s6la7i7o4hia4upine9s3emba3phyry4oises3razzo4eca5tta3table8s5down5les4culis4ela6li5nding6tous5ous5ra6field4ico5er5lla7o4manteau4rayal9s7ing4ugal8\'s6uese3zio2sada3eidon8\'s3ited5ion8ed8s6ve8s5ron8s3luszny3pisil3sesses7ing8on9ns8ve7or4ible7y3tdated7ing4ema5rior9s7ze4humous4ino4lethwait6wait9te4master9rs5odern6rtem4natal4ponement9ents7ing4ulate9s5ring9s2table4la4mkin4pov4to6e7s3boiler9s3emkin5pa4ncy5tate9s6ial9s5za3hier5tos3ier4ker3ocki4mac3pourri9s3teiger5nger5ry4inger3ucek2ughkeepsie9sie\'s3liot4tices3rciau2verty3ich\'s2walsky3dering6ly6y3elson4rball6oat7ok5ful8ly5gen5house5ing5less5point9ts5soft2znanski4iak5kov1pm1ractical9ly7es7ing6ses3detto3gmatic8st9ts3iseworthy2eamble4rrange9ed3caution9ns4eded7nce8t9s6ing5eding5ssion4iado5pice5sely6ion4luded7ing6sion4ocious5nceive9ved4ursor9s3daceous5ted6ion6or8s4efined5stine9ed4icate9s6ted7ing8on9ns8ve7or9s5spose9ed3empted7ing8on8ve4xist8s3fecture5rence9ed6reds7ing4rontal3gnancies8y3isler3judgment6ice9d3marin6ket5ture4iering7ship5ses5um7s4odern3natal4dergast4tnieks4uptial3ordain9ed6ered8s3package9ed5rer8s6ing5ying6ment9ts4lanning4onderance3record3sages6ing4chooler9ers5ience8t5riber9rs8ing7ption9ions4eason5nces6ted8r9s7ing7ly7ment5rver9s7ing4ided7nt9\'s9s6ing4ler4sburger5uring8ze9ed4tigious5owitz4uming6ption9ons9ve5ppose5tti3tended8r9s7ing6ses7ion9ns6tious4rial4tier7st5yman3vailing5lence8t4ented7ing8on8ve4iewing5ous5ti3yista8s3zzano2ibula3cier6st4kleback9cks3hoda3jedor3llaman3macy5kov5ries6y4eval4itive4roses3ncess\'s8es5ipal9\'s9ly9s7e7le9d9s4diville4table5maker9rs8ing3ola5eau5o4re5i5y3roda3scilla9\'s4matic4oner8\'s8s3vacies6y5tely6ion9s7ze9d4ileges2oactive3bable7y5sco5tion7ve4ity4oscis4ursa3cedure9s5eded7ing9gs5so6ses7ing8on9ns7or9\'s9s4haska6zka4ida4laiming4onsul4reate9s4toscope4urement9nts7r6ing3digal6ies7ous6y7\'s4ucer8\'s8s7s6ing6tion9n\'s9ns8ve3fesses7ing8on9n\'s9ns7or9\'s9s5ta4fering4icient5ling5ted7er9s6ing4ligate4oundly4usely6ion3geny5stin4lacial4noses7is4raming7mer9rs8ing5esses8ing9on9ve9ves3haska4ibit8s3ietti3jected7ile9es8ng8on9ns8ve7or9s3kofiev3lactin4eukin4ific4onging3menade9s4inence8t5scuous6es6ing4oted7r8s6ing7on9s4ulgate9es3nouncement9ments9s8ing5vost3ofreading3pagate4ellant9ts7er9s7ing5rly6ties7y8\'s4hecies7y6sied9s6tess7ic4itious4onent9s5rtion9ned9ns5sal8\'s8s6es6ing5unded4ulsion4ylene3rated6ion3saic4ciutto5ription4ecute9s5key4ody5rba4pecting9ve8or9rs8us6ra7i8ng7ous4tatic5heses8is7tic9cs5itute9es5ration3tean6se5cted8e9s7ing8on9ns8ve7or9s5ge7s5ome5stant9ts7ed8r9s7ing7ors4hallus5ero5orax4igal5um4ocol8s5type9s4racted5opin5uding3vable4enance6cher6tus6za5ra4ided7nce8t7r8s6ing5go7\'s5nce\'s8s8town7ial6e5sion9s6o7s4oking5lone3ximal7te2udency6tial9l\'s7ly7rust5ry3neda5lla4ier3rient3sinski2zybocki5yl6sz1seudonym9s2ychical5opath9hs6sis6tic3llium1tolemy3vsky1uberty3lically6is8t9s7ze9d6ker6ly5sher9\'s9s8s7ing9g\'s9gs5tech2ccini5o3halski3illo2ffery2gilist3lia5si3nacious2ipoe2laski3cini3eo3ido4tzer3krabek3lano5ra4iam3mazyme9\'s4ozyme3sating4ifer5pher3verize9d2mmeling2nctual7te6ring3ditry3gently3isher7s6ing6ment9ts4tive3salan2opolo2ppeteer9s6ry2rchaser9\'s9s8s7ing3gason3ified5oy5y4na5gton5ton4stic4tan7s5y3ported7ing5seful7less8y7s3rington3sifull4uant5er7s6th5ing3ulent3veying6or8s4iance2shover3karich3sycat8s5foot9s2tative3erbaugh3table4enbay5rer6ing6man3zier2zio3zlement5ing1vc1ygmalion2lori2ramid7s3ena5ees3oxene2thia0qiaotou1uackenbush6ry3dratic5iceps5uple9d3glia4mire3kenbush3lified8s6y5ties6y3ndaries7y4tico6fied7y6ties7y3ranta7e7ine9ed9es4reling7some5ying4terback9cks7deck7ly7man6urlanc3ssia3ttlebaum5rocchi8hi7ne3vering3zulu7\'s2bilah2easiness3becker9s6ois9e7r5deaux3enfish\'s5sberry3nneville3rida4ulous3sada4tioner9rs8ing9ngs8naire9aires3tzalcoatl3vedo3zada2ibbling3ckening5silver3escent4ted6r6st5ing6st5ly5ness4voni3jada5no3ksilver3lali4ici3nlivan4oa5co5nez4tana8r5ela6ro8s6ssence5ina5uple9d9t9ts3rion4oga3vering3xote6ic3zzical2otable5tion9s2reshey6i0rabago4lais3bani4inic5tears6like3enold3ideau4ner3obank3uka2camier3ehorses3helvolt3ially4cot4er5st4ness4oppi4sm3keteer9s3onteur3quetball3zkowski4ynski2dabaugh4van3ebaugh4cki4lla4maker3ial6s5nce6t5te7s4cal7ly7s4nka4o5\'s5ed5s4shes5son4um5s3ler3milla3omski4van4wski8\'s3ziewicz2fael4lski3elghem3ferty5tto3tery3use2gavan7\'s3gedy4io3hida3ona5e3ucci4sa2hilly2ilbiker9s4roaded8ing3mondi7o3ndancer4eri4forest9ts4ger4iest4maker4water3sanen2jala3ewski3kumar2kiya3ocy5zy4lta4wski2leses3lying2mada6\'s6n4ker4la5lah3bunctious3ella4riz4ses5ses3ify4res6z5o3lawi3ona5da3pager7s6ing3seyer4hackle2nalli6o3chera7o4orous3dazzo4leman4omize9d6ly6ness3eri3ia3sacking4bottom4ier3tala2pacious4port3hael7ite3idly4er3oca4port4sa5o4za5o3paport4elling4oport4rochement3turous3unzel2refied5y3itan5ies5y2sbury3ia3muson6sen7on3orite3pberries8y4utin8\'s3terop8s5tter2tajczak4touille3cheted7ing3epayer9s3hfarnham4geber4skeller3ican4eni4fied7s5y4o5nal8e9s6ing5s3kovich5wski3terman6ree4igan8\'s4ler6snake9kes3zinger2udabaugh4enbush3lerson3schenberg3tenberg4io2vages5ing3eling5o4nel7l5na5ous5scraft8oft6wood3indran5ous5us4shing2wlinson2ygoza3monda4undo3onier4vac3theon8\'s2zaleigh3orback9\'s9s3zano4matazz1ca1eabsorb8ed3chable4quire9d4ted5ing6on8s6ve5or7\'s7s3dable4erman6ship4ier5ly5ness6ger4just4mit4ying3ffirm8ed8s3ganesque6ite9s4ent7s3lestate4ign7ed5se7d6m6t7s5ze7d4muto4time5or7\'s7s5y6\'s3ppear8ed8s5ly5oint5raise9ed3rming4range9d5est3soner8\'s6ing4sert8s6ss8ed5ign8ed5ume8d6re8d8s3tta6ch8ed2bated3ecca7\'s4ka5ka4lling7on9\'s9s8us6o5o3ounded7ing3roadcast3uffing4ilder9s7ing4king4ttal8s6ed6ing2cadi4lling4nted6ing4pping5ture9d4rey4sting3chia3eded5ing4iver8s6ing4ntly4ptech6ion9s7ve6or8s4sses6ing7on9\'s9s7ve3harging4risten9ned3ine4o4pe6\'s6s4sion8s5sion4tal7s5ed5ing3klessly8ness4oning4tenwald3laimer9\'s7ing4iner6ing4usive3ognise9d7ze9d4llect9s4mbine5mend9s6it8s5pense4ncile9d9s5dite5firm9ed5nect9s5quer9ed5struct5vene9d9s4rded7r8s6ing9s5e4ton4unted7ing5ping4ver7ed7s7y3reate8s4uited8r9s7ing7ment3tangle9s4enwald4ified8s6y5tude4ory3urrence8t6ing5sive4sal5ing3ycle7d7r8s7s2dacted6ing3dinger7ton3eeming4fine8d8s4ker4mption9ns8ve4nbaugh4ploy8ed4sign8ed3handed4eaded3ial4cker4fer4ger4ker4nger6ton4rect4splay3lining3oing4lent4ndo4uble8d3rafted5wing4essing3uces5ing5tion9s4ndant2elect3merge8d3nact7s4ter7ed5ry3xport8s2fenes4ree7\'s7s6nce9d5ing5ral8s6ing3inance9d5ement9ts6r7\'s7s5ing6sh8ed4tted6ing3lagging5tion4ected7ing8on9ns8ve7one9e\'s8r9s5xes6ive3ocus7ed4rest5ma6er8s6ing7st9s3ractive7or9s5ining4esher8s7ing7ment9nts3uel6ed4ge\'s6e7s6s4nded7rs6ing9s4rbish9ed4sal7s5enik9s6s5ing4ted5ing2gaining4lia6ng5ly4rded6ing6less4tta7s3ency7\'s5sburg4ster3gaeton4io3ier4men7s7t8s4na6ld8\'s4onal8s4ster8\'s8ed8s6rant9ts8r9s7ies7y3nery4ier3ression9ns8ve5tful6ted7ing4ouping3ula6r7s6te8s2hashing3berger3earing9s6sal9s7es7ing3ired5ing3ydrate2ichart5enbach8erg5ling3denbach4inger3erson3fschneider5nyder3gnite3mburse9d4pose8d3na5ldo4ecke5rtsen8on4force9d4heimer4inger4spect5tall9ed9s7te5ure8d4vent6st8s5ite3singer4sue7d4ter3tmeier6yer2jected6ing7on9s3oicing5nder6ing2kindle8d7ing2label4pses6ing4ted5ing6on8s6ve8\'s8s4xes5ing4ying3earning5ses6ing4ford4gate4nding5ted6ing6less4vance7t3iance6t4ever8s6ing4ford4gion8\'s8s7us4nquish9hed4shes6ing4ving3oaded4cate4ndo4ral3uctance8t3ying2mainder6ing4king4ley5y4nded4rket6ing5riage7ed6y3edied7s5y4mber8ed8s6rance4rci3illard4nded7r8s6ing5gton9s5isce9d4sses6ion9s4ttance6ed3mington3odel7ed4lded4rseful7less4tely6ness6st4ulded4val7s5er5ing2naissance4ldo4ming5o4ta5e5o3barger3dering9s5zvous4ina5tion9s4leman3egade8s6r5ing4han4wal7s5ing3ier4son4ta3minbi3ninger3ounces7ing4vate3sberger4chler4selaer3table4ier4meester3uzit3zulli2occur3ffend6r7ed3pen6ed6s3rder2package9d4inted7ing5ring6man7en4rtee4sky4ying5ment9s3ealing5ted7r8s6ing4llent9s6ing4ntance8t6ed6ing4rtoire4tti6o3inski3lacement9nts7s6ing5nted7ing5ying4enish9ed4ica7s8e7te9s5gen8\'s4ogle4ying3ortage6ed7r8\'s8s6ing4sa5sess9ed5ted3pucci3resent9s6sing8on9ns8ve4icing5mand9s5nted7ing5sal8s4obate5cess9ed5duce9d5gram9med9s8ph3tilian9s3ublic8\'s8s4gnant4lsing7ve4rchase9ed4ted2quested8r7ing4iem5re7d7ment9nts7s5site9s2reading3outed6ing3unning2schedule9ed4igno5nded7ing5ssion9ns4uer7s5ing3eachers5rch\'s8er9rs9s8ing4ction4da4ller8s6ing4mblance7e8d8s4nde7z6iz5ted6ful6ing6ment9ts4rveese6ing7st9s6oir9s4tar5ing5tle8d3haping4uffle9d3ided6nce7t8\'s8s5ing5ue7s4gnee8s6ing4lient4stance8t6ed7nce6ing6or8s3olute5ving4nance7t6te8s4rted6ing4unding5rceful8s3pected7ful7ing8ve4lendent4onded8nt9ts8r9s7ing6ses7ive3seguie3tarted7ing5ted7ment9nts6ing5urant9t\'s9teur9teurs9ts4itute5veness6o4lessly8ness4ocking5rer6ing4raining5epo5icted8ing9on9ons9ve5ucture9red9res3ubmit4ltant6ed6ing4ming5ption4pply4rface9d5gence8t6ing5rect2tablos4iler8\'s8s6ing9\'s5ner8s6ing4ken5ing4na4rdant6ed6ing5get3elling4meyer4ntion4sted6ing3herford4inking3icence7t4na6l5oid8s6l5ue5yl4ree7\'s7s6ment\'s9ts5ing3ooling4rted4uching3racement6ing6ted7ing8on5ining4eading6ted7ing5nching8ment9ents4ial5eval7er9s7ing4ofit8s5grade5spect5vir4ying3tinger3urnee8s6ing2union7s5te7s3sing3ters\'s2value7d4mping3ealing4ille4ler7s6s5ing5ler8s6o5ry4nue7s4rcomb5ence7d7t5ie7s6ng5on7\'s5sal8s6er8s7s6ing7on5ted6ing3ier5wer8\'s8s6ing4lla4ses5ing6on8s6t7s4val7s5ing3oking4lted6ing5ver8s6ing3uelta4lsion2warded6ing4tching3ire6d3orking3riting6ten2xana2ykjavik3naga5ldo4olds\'s8on5sa6o2zabek3endes3nicek3oning1hapsodic8ze7y2einberger3toric3umatic7oid2izoidal2odesia8n4ia5um4opsin2ythmically1iady5s2baldry4udo3eiro4ra3icoff2cardo4urte3cardi7o4iardi5o5uti3hards\'s8on9n\'s6son4elieu6son5mont5nthal5rson5sin6on4ison3kabaugh4enbach5rson5tson6y3ochet8ed4tta2dable3ener5hour5our4rship3icule8d8s4nger3olfi2ederer5sel3mersma3senberg4ter7er2fenburgh3leman5ry2ggenbach4io4leman3hetti4teously9ness5fully5handed5myer3idly3ler3oni4rous2hanna2lwanu2mpochet9s2naldi6o4udo3derer6knecht3ehimer4lla3geisen5nberg4genberg4leader9rs6r4master3inger3tala2ojas3lo3pel3ted5r6s4ing4ous2pening3hagen3peon5rger5toe4ling2singer3kier6st5ness3otto3poli3smiller9r\'s4oli7\'s2tacco4lin3enour8\'s3sema3tenberg9g\'s6house6our9\'s5rbusch4haler3ual6s3ziest2unite2valing5ries6y3enbark6urg9h4ra5bank6ed7nd6oat9\'s9s5dale5front5head5o5side6o5way6ood4ted5ing3iere7s2zzoli6o4uti6o1na1oadmaster4railer5unner3noke2baina4re3beries6son6y3ello5o4rson5ta6i6o6s\'s7haw7on9\'s4son3ia4chaud8x6eaux4deau5oux4llard4na5ett8e5hood5s\'s6on8\'s8s4shaw5on4taille3ledo4ing3ocop4tic7s3usta7s6ly6ness2cchio3hefort5leau6la5ster9\'s3kaway4enbach5tdyne6ed6ing6ry4ingham4resort9ts3oco2dabaugh3ebaugh4fer5fer4la4nbaugh6eck7rg6urg4o5s4wald3ier4ne5o3ocker4lfo3rigeuz6o6ues8z5ques8z2ederer4iger3sler4sler3thler3ver2gachev5ki4la5la5ski3ers\'s6on3genbuck6kamp4io3inski3owski2hana4tyn7\'s3leder4icek3rbacher3wedder6er3ypnol2kicki2landa6o3emodel9s4playing3ison3lerblade9des4icking5nger6s\'s7on5son4over8s4wagen4yson3odex2mances6ing5ek6sque5i6k5o6\'s6ff6ne8s6v6w5ski5tic8s5y3berger3ella4o5\'s5s4ro3ilda4na5e5ger4to3ola3uald4lus2nalda6o3quillo2omier5ness3sevelt9\'s9s2ppolo2rabaugh2sabel7le4do4lee6z5ie6nd5yn7\'s7d7n4mond5und4nder5na5o4ries5y4sco4ti5o3borough3eate4berry5oro8ugh4lla6en6i6o4marie7y5eyer4nbach7lm7um6eck7rg9\'s9s6latt9ts7oom7um8th6oom6urg5crans5dahl7le5er5feld6ield5grant7en5haus5krans9tz9z5lund5man5ow5quist5shine6teel8in7iel7ock6weig5thal5wald5zweig4tta6i3iak4er4na5e5ski7y4ta3munda3sano4borough4elin6li6ot5tti7o4ignol5ni5ter5ya4ler4miller3tuca3zkowski2tary4ted5ing6on8s3ea4lla4nberg3hacker4bauer4enberg5rmel6y4mans\'s4weiler3olo4ndi6o4till8ed9s3ramel3tenberg5rdam4inghaus4weiler9rs3unda6o5no2udabush4ebush3ndabout5table4saville3sselet3thier4ier5nely2vira4to2wbotham3diness3ena5ta3inski2xana5i5na3borough4ury2yalist5ly5ties6y3ex\'s2zanski3eboom4lla4ma3ier3nowski3ycki1pf2m1te1uano2bano3berize9d6maid9d\'s6y4ia3ella4ndall5feld5stein4rto3ia4cam7\'s5on4na5o5son6tein4o5s3ottom2chlamer3inski3kelshaus2dani4sill3derless3enstein7ine4rman4sill3icker4ger4ment8s4sill3nicki7y3zinski2eda4iger4linger3fully3gsegger3lla2fenacht5er3falo4ini6o4ling4olo3ina2ggedly5ri4ieri7o2hollah2ining4ous2keyser2lemaking3ison2mberger4ling8\'s8s3ery3ina6nt6te5ski3mages6ing2nabout4round4way7s3zheimer2occo2perta3iah3osi3penthal3turing2salka3citti4oni3eler3inko3sellville4ified3tier6st5gan4lers4proofing3zkowski2thenberg5rford4lessly8ness3koski5wski3tenberg2volo2zicka1wanda6\'s6n7\'s7s5ese1yanair3va2backi4kov7\'s4rczyk3icki4nski2dzewski2kowski2lander2nearson2obi3hei2savy2utaro3zo1zasa2epka0saarinen3vedra2bala6n4tka5o3edra4lla4na4rbein9\'s5tech3ia4na5o3ortech4tage8d5eur8s4urin3retech4ina2ccharin9e4one3ilor4rbey8\'s3krider4steder3rament9s4edness4ifice9d5lege4osanct2daka5o3dening4lebag9s6r5ing4oris3eghi4lla3ira4sm5tic3lier4owski3owski7y2fari6k6s3eguarded9ing4keeping3ferstein4lower3ian3ranek2gansky3inaw4ttal3ona3raves3uaro4enay2hagun4ra6n2idiner3nato4sbury2kai4rov4ta4u3halin8sk5rov3ina3owitz5ski3sida3uma4ra2lable7s4cious4da5in4ma5eh7\'s5i6s5on7e4ried7s5y4ta4wah4zar3cedo4ido3dana4ivar4ovar3eable4eby4ma5i4rno4smanship5people7rson5woman8en3gado4uero3hany3iba4ent4gman4na6s5ger8\'s8s4sbury4va6te3mela5ron4inen4onson3oma5e5i5on7\'s4nga4ojee4pek3sberry7y5ury4giver3tier4water3uted5ing3vador8\'s5ger8s6ing5ti7on6o4esen6on5tti4ia5gsen7ten5na6o4ucci3yer6s3zano4gitter4wedel2maha4no5tha4ra6nch6s5in5kand4tar3borski4rano4uca3edan4lla5son4rol3ina3marco3oa5n4jlik4ra4sa3pras\'s3sara4onite3uelle6s7en4rai7\'s7s2nada3chez\'s4tify6oning6ty3dalo4bagger9rs8ing5lasted4efer6ur5rfer7ord6lin6s\'s7on4ia5fer6ord5no7\'s4meyer4oval5z\'s4paper4usky4wiches3hedrin3itize8d5y3juan3kara7\'s3martin4iguel3ofi3rio3sbury4oucie4ui6\'s3tala5na6der4ella7i4idad5llan9es7i7o5ni6o4one6i5ra6e6o6um8\'s5yo4ucci5lli3zone2ouma2panski3erstein3hira3ia4ens6za4ro3oa4ne3penfield4hire8s4ington4oro3uto2racco5ens4fin4ge\'s4ndon4sin4tov4wak4zen5in3casm6tic4oma3della4ina7s6ha4onic3gasso3ine4si3kisian6sian3matian4ento4iento3nowski3ofim4kin3razin3tori2saki3katoon3safras5man5no4one4ulo2tagaj4nic6st5jeev3ellite9\'s9s3ire6s5ic6st8s6ze4sfied8s6y3oshi3suma7s3terfield6lee7y6white3urate5day8\'s8s3yandra2uceda6o4ier4ony3dia3erkraut5teig5wein3gerties3lnier4sberry6ury3nders\'s8on4ier3sages4eda3ter3vageau4ignon2vagely6s5ing4iko4la6s4nna7h7s4ry4sta3edra4ry3ickas4kas4mbi4na5i5o4o5n4tsky3oca4ia4na4ring5y3viest2wasdee4tzky4ya3icki2xena3ona5y4phone9s2yito2zama1ba2f1caduto3ffidi5olding4idi3lable4era5se4faro4ia6\'s5si4zitti3mpering3ndalize9ed7ous5ia4ia4tily6ness3pegoated9ing4ula3ramouch5no4berry5orough4cella5ity4dina7o4ier6st4lata4ola4pati5elli8o5ino5one5ulla4sella3tena4tergood7ing7shot4urro3venger9s7ing4uzzo2eneries6y3rzusky2habacker4denfreude5ler4edler4mberger4nbacher4piro4renberg5fenberg4ufler3edler5uler9s7ing4ffler4idecker7gger7rer6ler4llenberg8ger6hammer6inger4mata7ic9s4rmerhorn5zinger4ttino6ler4uerman9nn5fler4xnayder6ider3iano5ppa5vi6o7\'s4ckler7ing4efelbein6felin4fano5eron9\'s5fbauer6ler4ldknecht5laci6inger4mberni5melbusch4pani4raldi5tzinger4sler5sler3lageter4egelmilch5singer6singer4oesser5tterbeck6zhauer4umberger3metterer4ierer4utzler3nackenberg5kenberg4eberger5eberger5iderman9man\'s8wind9ind\'s5ttler4oebelen3oeffler5maker5nberger6ecker7man9nn6felder6ing4larly7ship9ips6stic5lmeyer4maker4nberger4olchildren6master6teacher9chers5nmaker6over4ttenstein4uten4walter3raufnagel4ecengost6kengost6ongost5ffler3ubring4eneman9nn5rman9n4hmacher4itema4ldener9r\'s5enberg8urg4macher7ker6ker4rrenberg3waderer4egler5izerische5rdtfeger6tfeger4ichtenberg5eterman4oerer2ialabba5done4rra6ino3belli3clone3ence\'s7s5tist9\'s9s3meca3ntilla3oli4to3pio3ulli6o4to2lafani3erosis2ocozza3lari6o3niers4yers3rekeeper9ers9ing4pio7n8s6us4sese\'s3uring4tmaster2rambling4piron3eamingly4enwriter9ters9ting4wdriver9ers3ibbling4ptural6writer9ters9ting3upulous4tinize9ed7y2s2uderi3ffling3lptural8ing3ppernong3rrilous5ying3ttlebutt6ing2ythian2zechuan4panski1dn1eaberry4ury3farer8s3going3mlessly4stresses3power3sonal6ing9s3ttle7\'s3water4orthy2baceous4stian9\'s3esta2cada4teur8s4ucus3chia3eded5ing4ssion3hrest5ist3kinger3luded5sion3onded6hand6ly3recy5st5ted6ion9s7ve6ly4ist3tional7ing4oral3ular5ow4nda4rely5ing2dalia4no4ted6ly5ing6on6ve3berry3illo4ment8s4ta5ion7us4vy3lacek3ona4re3ucer5ing5tion7ve2eberger4urger3deater9s3gmiller3hafer4usen3linger3mala4ingly3sawing2galas4rra3erstrom3mented7ing3raves4egate5st5to3undo4ra5os2iberlich8ng3delman5nberg3fried3gler3tzinger3yaku2kerak3ula5ow2lander4ssie3ected6ing7on9s7ve6net4na6\'s5ite3fishness4lessness3ia4ga5er5man8n5son4koff4na6s5da5ger3lars\'s4inger4meyer3over4wsky2mantic8s4tech3egran4le4nza4rad4ster8s3iclad5on4dry4gloss4nal6r7s5ole8s4ra4tic3ones2nator7\'s7s3dawal4elbach5ro3eca6l5hal4gal4ker4sac5cence3iornet3ora3sabaugh5tion9s4eney6ig4ible7y5tive7ze9d4ory4ual5ous3tences7ing4iment9s5nel8s3zaki2parate8s3eda3hardic8m4ora3ia3pala3tember9\'s4ima6us2queira5nces7ing6tial5ster9ed9s4itur8s4oia7s5yah2rafin4gut4phim4tti3bia6\'s6n7\'s7s6s3ena6\'s6de5o3ia5l6s4lda4no4o5us3mersheim3oka4no4ta4wski3pentine4ico3rano7\'s6to5ted6o3vello4ice\'s7man8en9n\'s7r7s6ing6o5ou5tude2same3hadri3ler3tito2taro3tanni4erlund4lement9t\'s9ts7ire7yre6r5ing2vareid3enfold5teen9s9th6ies6y7\'s4ra6lly6nce5ely6r6st6ville5in7g5son5tson3igny4lla3ruga2werage2xauer3ier5st4ness4sm3tuplet9s3ual2yfried1ferrazza1gambati1habazz\'s3ckelford7ton5leford7ton9n\'s9ns3dowens6ing6land9ds6y3hian5di3kier6st5ness5ra3lala7\'s4lower7ness3malia5nism8ts4berger5urger4elessly3nafelt5han5nsky4eyfelt4holtzer4nahan4tytown9ns3olin3pero4ira6o7\'s7s3ransky4bono4ecropper9pers5holder9er\'s9ers9ing9ings5owner9rs4ia4pening6ville5shooter9ters3shoua3ttering7proof3ughnessy3velson2charansky4erbitsky2eboygan3epishly3lbyville4hamer4lacking5hammer5ito4tering3manski4ona3nberger4efield3pardson4herded8ing4person3raton8\'s4bondy4idan3shunoff3tterly3wmaker2ibanna5ta4boleth3deler4ler3geki5o5ru3llingburg8er8law8ton3mada4izu4mering7lik4oda5ga3ngleton4ichi4rikyo4taro4xiaku4yuka3pbuilder9ers9ing9ings4holding4owner9s4pingport3razi4eman8stown4oma3seido4hido4ler3tila3veley5ring3yuan3zuka5oka2lobidan2obana7\'s6na8\'s3ckingly3elaces4maker9s3ichi3maker3nkwiler3pkeeper9r\'s9rs4lifter9rs8ing3renstein4tages5changing6oming9ngs5ening5sighted3shone3uldering4maker3walter4cases7ing4ering4iest4manship2rewsberry7ury3iveling3ubbery2uddering3ffler8s3ldiner3maker3sterman3ttering5lesworth7worth6ing2ymanski1iamese3no2billa2cilia5y3kening4inger2ddeley4hartha4iqi6ui3ener4rca5is4stepping4water5inder3ler4ing3oti2edenburg4lecki3gelman3kierski3minski3nko4na6\'s3racki4chio4ra6\'s6s3sta3tsema3wiorek2fuentes2gafoos4la3freda3htseeing8r9s3ler3maform4oidal3naling6ling5ture9s4ified8s6y4ore6i3oloff4urney3urdson2hanouk2kkema3ora5ski7y2lajdzic9\'s3berberg6geld6man6ner9\'s6stein3encer7s6ing5tly4o4sia3guero3houette9es3ica6te8s5on7e8s3lerman4ier6st5man5ness3vana4eira5ra6berg6crest6dome6i6lake6man6nail6plate6shoe7ide9es7tein8one6thorn9rne6ware6y5ster7re8i8o4ia5o5us2menson5tal4on6e4rly5son3ian4lac7k6r5iar4ngton5ski4on4son3ler3mering6man4ons\'s3ona5eau8x6t7te5i6ch6n6s5sen6on6son5ton5y3pler5ified9s7y6stic3sbury3ulac6te8s5cast2nagra4tra7\'s3cavage4erely3delar4linger4ona6i3ead4gal4wy3gapore9\'s4erman4ler6ton9\'s5ing4ular3halese3iard4si5ter3opec3quefield3sabaugh3uses5oid2pelstein3honing3pican2ravo3ena3ius3ohi4ky4ta4witz3rine2sler3neros3tare4erhood3ulu2tenski8\'s8s3ler3terly3uate2uda2verling5son5tsen7on2xtieth2zable3eable3zling1jolander1kalicky3ndia3teboarding2effington3letal6on8s4lenger3nandore3ptical2ibicki5nski3ffington3llfully3mpier7st3nnier7st3rmishes8ing3ttishness2oczylas3nieczny3rupa6ski3whegan4ronek7ski2rzypek2yboxes3diving3hopping3rocket9s3scraper9rs3walker4riter9s7ing1lackening3nderer7ing7ous4ina3phappy3thering4tery3ughterhouse9ing9ings3very4inski5shly3winski3ymaker2edgehammer3epily6ness5over9s5walker9ers9ing3pian3ssenger2ingerland3ppery3thering3vinski4ovitz3winski2obbering4oda7n5gin8\'s3minski3naker4iker3ppier7st6ly6ness3thower3vacek4enly3winski2uggishly8ness3mbering3shayete1martaleck5ening5money3ttering2etana2igelski4ielski3lingly3rnova3thereen9ns7man2oggiest3kejumper9ers3ldering4enski4inski8y3rgasbord3thering7man8on2s1napdragon9ns4piest3zzier2edaker4egar5ker3eringer2ickering3egowski3ffier7st6ly2obbery3dderly3homish3rkeling3wballing5erger5oarder9ers4mobile9es1obbingly3ecki4lman4ring5ly3ibor3olik4ta5ka5ta3riquet2canav4rras3hacki3iable5list9s7te9s7ze9d6ly4edad4o3rates6ic2dano4ro3ecom4rberg9h6lom5gren5holm5lund5man5quist5strom3itic4um3omize8d5y2erensen2famor3ia5\'s5n6s4tel3ranko3tener6ing4image4letter4spoken2hio2journer9s7ing2kaiya3olik6n5off6v6w7\'s2laman4na5gi5o4res5i6s4zzo3chaga3dano4ering4iering3ecki4ly4min5nly4ri3icit7s4day5ers5ly4man7\'s5on4ngen7r4ta6ire5ec5ron5ude3liday5nger4oway3odar4ist7s4man5on7\'s6s4viev4way3stices3tero3uble7s4tion8s3vable4ency2mali6an8s6s4tic3berly4rero3ebody8\'s4rsault9ts6et5ton5ville3merfeld9dt7ield6sby6ville3nolence8t3ogyi4za2nata6s5rach3derman4geroth4heimer3esta3gwriter9rs8ing3ier3neborn5nberg7lick7urg6feld6schein4ier3oco4da4gram8s4ma4ra5ous2othingly5sayer9rs2phia5stry4ocles3rano7s2ranno3bello3cerer8s6y3doni3ensen6on5to7\'s3ia3oka4s\'s4vski8\'s3passo3renti4owful3tino3vino2s3ebee3inski3nowski3samon3uke2tello5o3heby7\'s2ulier4liere3ring4rouille3saphone3thampton5eastern9ern\'s6rland8y7ner9rs8most8net9et\'s5western3venir8s5roff2vereignty3iet6\'s6s3yetsky2wata6\'s3eto3inski2yuz\'s2zio1pacewalking3dafore5ro4oni3ghetti4nola7i7o3inhower3nbauer4genberg5ler4ninger3raco5no4ingly4tacus6nburg3smodic3tafore5ro4ola4tering4ula7s2eakerphone7ship4rheaded9ing3ciale7ist9ts8ties8ze9ed7ly7ties8y5fic8s7ed8s6y5men8s4tacle9s6tor9s5radyne6ograph4ulate9s3echify6writer9ters4dier6ly5skating3llacy5binding5meyer9r\'s4unker9s7ing3ndable4gler3ranza4duto4razza3zzano2herical2icuzza3derman3egelberg7man4lberger5vogel4ring3llover4otro3nale4dler4ella7i7o4ifex4ola5sa5za3raling6ling4ited6o3tale4eri4znagel3zzirri2lattering3endidly3intering8y2okenly5speople8rson9sons6woman9en3leto6to8\'s3naugle4giform4seller5ler5oring7ship9ips3radic4leder4tier6ngly5scaster9ters7hannel6manship6writer9ters3sato4ito3tify4lighted9ing2racklen4yberry3ingerville3ogus\'s4utaphile9iles2umoni3rious4rier3ttering2ycatcher4halski1ql2uabbling4ndering3eamishness3illacote9te\'s7nte4tieri1rinagar8b4ivas1sn1tabenow4ilize9d4ler6st3ccato4howicz7ski5ura7ski3delman4ia5um7\'s7s4tlander5miller3ffieri5ordshire9hire\'s3gflation4gering4naro6ted7ing8on3hlecker3inmaster4rcases3keholder9ers3lagmite4emated4ingrad6ist9s7ze4librass4naker4owa3maty4enson4ina4peded7ing3nadyne5land5way4berry7y5ury4dalone6rdize9zed5efer6rfer8ord5ifer7ord4geland7o5ler4iar5fer5slas8v8w4kevich5iewicz5ovich6wski4leytown4sberry6ury3pler7s6ton5ing3race4cevich4gazer9s4kovich5weather4liper4tlingly4vation3siak5o4zewski3tehouses5sborough6manship4ioner9s7ing5sm6tic9s4uesque6tte9s3udacher5inger4ffacher3vola3wicki3yover8s2ds2eadfastly9ness5ier6ly6ness4khouses4lthier9st4mier7st6ly5roller9ered3ckelberg3elmaker9r\'s9rs8ing5worker9ers4nbergen6urgen4plechase3fani7\'s7c8h8k7e7k6ko6o6ski4fanci5ensen8on3genga4maier3idinger4gerwald9lt4nacker5bacher7uer6ergen9er6recher8nner5hagen7uer8ser6ilber5inger5kuehler5meyer6iller3ketee3lian4larton6to5enbosch5macher3nciling4erson4osis3panek6ski4children4daughter9ters4father4hana7i8e7y5ens\'s8on7ville4ien4ladder9rs4mother4penwolf5ingstone4sister9rs3reo6s4ilize9d4nberger5hagen3thoscope9pes3ubenville4erwald3vana4edore5na6s\'s7on5rson5son4ison3wardess7ship2ickier7st5ler3efvater4gemeier3ffener7ing3gmata7ize9ed3letto8s4linger5wagon7ter3mulant9s7te9s6i6us3nebaugh4gier6ness3pulate9s3verson4oric2ochastic9cs4kbroker9er\'s9ers9ing6urger5hausen6older9ers9ing9ings5inger5market5piling5slager3dola6sky3ever3ffregen3ically3klosa3larski4tenberg3mata3neberger6urner5cipher6utter9ers5hocker5sifer5walling4yfield3oksbury3pover8s4pages4watches3ragetek5ska4ehouse\'s9es5keeper9ers4miest6ness4yboard7ok9s5line9s3udemire6nmire4tenburg3waway8\'s8s2racener4ightaway9ways8ening8forward5tjacket4nahan5glehold7ing6ulate4sburger5sburger4tacom6gem9s5egem7ic8es8st9ts8ze7y8\'s5ified7y5oflex6sphere5us\'s4vinsky9y\'s4wberries9y5derman3eamlining4itmatter4ngthening5io5uous3icklen4dency7tly4kebreaker9akers5ingly4ngency8tly6fellow4ttmatter3oganoff4hecker5maier6eier7yer4mboli9\'s4ntium4snider4zier3uctural8ing4ggling2ubblefield5ornly8ness3dio6\'s6s6us4nicka4ying4zinski3fflebeam9an3ltify3mbling3nningly3pendous4ider7st6ly3rdevant5ier6ness6vant4tevant3ttering3yvesant2ygian3lishly6tic3rofoam1uata5\'s2bacute4ru3chapter4ompact9ts5nscious6tract9cts4ulture9es3divide4uing3human3ia3jected7ing8ve4ugate3kingdom3leasing3machine5rine9\'s9s4ergence6sion4ission9ns8ve5tted7ing3notebook3otnick3poena8ed8s3roto5utine3scriber9r\'s9rs8ing7ption9ions4ection5quence9t4ided7nce6ies7ng7ze9d6y5stence4paces7ing4tances7dard7tial9ve6tion5itute9es4urface4ystem9s3terfuge4itle8d8s4ler6ties7y5y4racted8ing9on4yping3unit7s4rban8s3version8ve9es6ted7ing3zero2cceeded7ing5sses7ful7ion8ve7or9s4inctly4ulent9s5mbing3hanek5rski4ecki4inda4ocki5mel3ralose2dafed4nese5o3berry4ury7\'s3denly6ness3erman3ler2ez\'s2fferer8s6ing9s4ices6ient4ocate4ragette9tes7ist9ts4uses6ing2garcane5man5y3erman3gested7ing8on9ns8ve2harto7\'s2icide7s3table7y4cases2karno7\'s3harev4umi3thankar2leski4wski4yman3furic3kowski3lenger4inger5van8\'s8s8t3petro3tanate3zberger2marlin4tra7n3erlin3ida4nski4ta6\'s3maries7ze9d6y5tion9s4erall6field7ord6hill6lin6our6s\'s7on6time6ville4iteer9s6ry6ville4oning6ses2nbathing3derland7in6man3flower9s3glasses3ia4ga3nyside5vale3obe6\'s4co3rise\'s3seri4hiny3tory3unu6\'s2perbar6ly6owl9\'s9s5charge9ged6ool9ed6ut8s5dome7t6rug5fan7st6luous6on6und5mac7n8\'s5sede9s6tar9s7ore9es5vise9d5x3inski3planted8ing5ement9ts5icant6er8\'s8s5ying4orted8r9s7ing8ve5ses6ing4ressant9nts8es8ing9on8or3renant2race3charges3ety3faceness7s6ing6tant3geries6y4ical8\'s3inam7e3mises4ounted8ing3owiec3passes7ing4luses4renant5ises7ing3rency6der9ed9s4ogate9s5unded8ing9ngs3taxes3veillance8ing5ying6or8\'s8s4ival6ing6or8\'s8s2sana5na7h3pected7ing5nded8r9s7ing6seful7ion9ns4icion9s8us3taining6ta4enance5ren3umu2tera3herland9d\'s7in3uring2u2v3\'s3s2zanna3uki1vetlana2izzera2oboda1wackhamer3gerty4gering7ty3hili3llowing3mpbuster3nigan3ringen4ovski4tzlander6welder3shbuckling4tika8s3ziland2earengen8in5ingen8in3etener9s7ing5water3ltering2iatek3cegood3derski3llinger3ndlehurst7r4eford4gler3tala6ski4zerland9nd\'s3veling2oboda3rdfish\'s1ybase\'s3illa2camore4ra2kora2llabic6le8s6us3vana6us4ester7re4ia6\'s5o6\'s2manski5tec8\'s3bion7\'s4olic8s7sts7ze9d3ington3metric7y3pathies8ze9ed7y4honic8es7y8\'s2nagogue9s4lloy8\'s4pses5tic3chronic9ze9zed8ous4opal7te6e3dicate9\'s9s8s3ergen8\'s6ies6y7\'s3onym7s4psis5tic8s4vus3tactic4ex\'s4heses7is8ze9ed6tic9s2philis2racuse3ia5\'s5n6s4nges2stemat6house6ic7x6one6wide4olic2verson5tsen1zafranski3lkowski3tkowski2czepanik8ski5sniak2eliga2ilagyi2ydlowski3manski4borski0tabachneck4ka4res4sco3bouleh3itha3lature4ecloth9hs5r5spoon9ns5top5ware4ing3uchi4late2c3ita5ly5urn3oma6\'s3tfully4ical6ian9s2dashi3deo3eusz2ekwondo2faro3feta3olla4ya2galog4met4nka3lieri2hiti2iloring3ra3wanese2jima2kagi4ki5o4o4ra4shi4ta3eaway8s4da4o5ver8s4shi4ta3ihyo3oma6\'s6s2laga4mo3ented3iban7\'s7s4gent4sman4tha3kable5tive4ington3lula7h4yho5ing2males4ra6c5go5in7s6sk8s4yo3bocor5urine4uro6ri7o3many5ro4inga3pering4opo5si3raz\'s3ura2nabe4ka4rtkit3credi7o3doori4ycraft9ts3eja4nbaum3gelo5ntial5rine9s4ible8s7y4lewood4redi4uma3kersley3nahill4ehill5nbaum4hauser3queray3talize9d6um7s5mount4illo2oism2peie6\'s4ring4stries7y3ia5s2rallo4ngo5to7\'s4soff3button3diness5ti3geted6ing3kington4owski3nishing4ower6ski3rytown3tikoff9\'s9s2saday3hiro4jian3kmaster3sone3tefully4ier5ness2tarstan3eho6\'s3jana3suno3tersall4ooing3yana2uruses2vano4res6z3enner4ra6s5na7\'s7s2wana2xable7s4tion3icab7s4ing4way3payer8\'s8s6ing1chaikovsky9ky\'s1eachable3garden3rfully3spoonful2belskis2chnical9\'s9s7ian9n\'s9ns7on6trol5ocrat9ts6dyne6mic6phobe9be\'s9bes4system9ms3ogen3tonic8s3umseh2deschi6o7\'s3ious4um2egarden7in3nager8\'s8s3tering2geler4thoff3tmeier6yer2heran7\'s7s3rani7\'s7s2ikoku3telbaum3xeira2jada4no3eda4ra2knowledge3tronix2laction4mon4nder3ecard6st8s5harge6eck5om7\'s7s5tron4dyne8\'s4flex5on4globe5ram8s7ph9\'s9ed4kom7\'s4net4path5hone9\'s9d9s5ort8\'s5robe4quest4rate4sat5co7pe9\'s9s6ript5is5phere4text5hon5ron5tra5ype8s4vise8d4west4x\'s5es3lefsen4ier5ngly4uride9s3mex\'s3omere8s3ugu2merlin5ous3pelsman5ra7ment9nts7nce7ture9res6ing5sta4leman6r7s6ton9\'s4oral6ize4tation9ns2nable4cious4ncy3dencies7y6tious5ring6loin7y6ness3ebrous4ment8s4nbaum4ra3gelmann4lemann3neco7\'s5nbaum5ssee9\'s4is\'s6on4yson3penny3tacle8s5tive3uous4ta2poztlan3perman2quila6iu2rabyte8s4da5yne8\'s3cero3ence\'s5tia4sa6\'s5i5sa4za6\'s3lecki4izzi3minal8s7te9s6i6us3pening4sichorde3races5na6o5si5zas4ible7y5en6r7s5fic7ed8s6y5ngton5o5to5zzi4orist9s7ze9d3tiary5us3uko4ya3zian2sler3mer3oro6\'s3selate4ier3tament9s4erman4icle8s5fied8s6y5ly4uro2tanus3suji5o3terton2utonic2vatron2wksbury2xaco6\'s4s\'s5gulf3eira3styrene3tual2zeno1hackeray7y\'s3ddea6us3lacker5mus5ssa4heimer4lium3nkfully8ness5sgiving3rrington3tcherite2eater7\'s7s5re7\'s7s3ism3lander3matic3obald4dor7e5ric4la4ra5bo5ist8s6ze8d3rani5pies7st9\'s9s9s\'s6y4eabouts6fter5sa7\'s5upon4iault5ot4medics5opatch6stat9ts4riault3sauri7us4eus4pian2iamin3badeau4edeau4odeau9x3ckener7ing3every3okol7\'s3rdquarter4tieth2omas\'s6as6es6on6sen7on6ville4ison3racic4berta4dia4esen6on4ington5um4nberry9y\'s9ys6ury9\'s9s5iest5sberry7ury4oughbred9reds8fare9ares8ly8ness4stenson3ughtfully9lness2reatening3iftier3ogmorton4mbosis4neberry4ttling4waway2uggery3nderbird9rds8olt7cat9ts7ing7ous7storm9orms9ruck2ygerson3midine1iaacref8\'s3njin4o3ra5s2beri5on4tan7s3ia4dow3uron2chenor3inus3keted6ing6less6ron4lish2ddlywinks3ewater2emeyer3nanmen2ffany7\'s2gera3htening9gs5fisted2juana2lbury3lery4inghast5son4otson2mberlake8nd9ds7ine6man4uktu3eliness4table9s3idly3meny5rman9n3oney4rese5ous4thy3pani4one2nderbox3gler5ing3ier5st3kerer8s6ing4ler5ing3nitus3oco3seltown2pler3toeing2rado4na3edness4less8ly5lo4maker4some2schler2tanate5ia6c3illate4nus3ular4sville2voli1lc1oastmaster2bacco7\'s7s4go3ia5s3ler3oggan8s4lski2daro3hunter3isco3oroff2gether8s3nino2iletries7y3vonen2karczyk5ski3io3uo3yo5\'s2lanthe3drian3edo6\'s4rance7t8s6te8s3iver3kien3lefsen7on5son4ison5ver3uene2mahawk8s4ko6\'s4nek4ro4sek5i6c6k5ko5o5si6o4to6e7s6s4yko3berlin3eo4rlin3ilson4ta3kiewicz5nson3linson3orrow8\'s8s3pkinses2nelli3ia4ni3kovich3nages2olmaker9s3thaker5brushes2panga3eka6\'s6n7s3ical3kapi3olski3pling2rchia3della3elli6o3gersen7on5son3ia5n4no3kelson3menta7ed7ing7or9s3nadic6o7\'s7es7s3onto7\'s4sian3pedo7ed8s7s3rejon5ntial5on4ijos5ngton5si3tilla8s4oises5ra6ice4uous5rer8s6ing6ous3umi6\'s2scano3hiba7\'s5ki5o3tado4enson2taling5ling6y4ro3enberg3herow3ino\'s3tenberg6ham5ring2uareg3chable3fexis3galoo4hening3rangeau4etzky4igny5sm4maline4nament9t\'s9ts5edos5iquet4telot3signant3vier7\'s2via2weling4ring5y3nhouses4speople2yama3maker8s3obo4da4ta6\'s6s2zier1rabucco3ceable4hea7l5tenberg4inda8\'s4table5ebel3dable4eable4ition9s3falgar4ficker9rs8ing4icant9s3gedies6y5ser4ically3ilblazer9ers4nable4torous3miel4onte7in4poline3nchina4quilize4sacted8ion9on\'s9ons6lta5cended9ence9ent9ing6hannel9nel\'s6isco6riber9ers9ing8ption9tions5ducer9rs5ected8ion5ference8ing8ring6ormer9ers9ing6usion9ons5gender8ic6resses9sing9sion9sions9sor5ience8ts6mage6stor9rs6ted7ing8on9ns5lated8ing9on9ons8or9rs6ogic6ucent5mission9ions7ttal9ed9er9er\'s9ers9ing5parent6ire9d9s6lanted9ting6onder9ers7rted9er9ers9ing5racial7pid5tector5vestite9ites5western4zonic3pani5sso4elo4hagen3umatic8ze9ed3velday9s6er8\'s8s6gate6ing6ler9s7ing6odge7gue6stead5nol5rsing7o5sties7y4ieso4olta8\'s8s2bovich2eacherous8y4daway4sonous5urer9\'s9s7ies7y8\'s8s4table5ises3bilcock4linka3fethen3glia4oning4urtha3ichler3lleborg9g\'s3mbling4endous4ulous3nary4dsetter3spassing3thewey4inoin3vathan4elyan4ino5so5zo2iana5gle8\'s8s5o4ssic4thlon3balism5sa4eca4orough4unal8s3centrol9l\'s4kery5ier7st4uspid4ycle3erweiler3fari4ecta3ggering3logy3marchi7o4boli4ester3ngali4idad5ty7\'s4ova3ola5o3partite4lecast5icate6ng4odi5li7\'s3sler3tium3umphal8nt3vedi4ia6l2oiani3linger4linger3mbino5onist4peter3ncoso3pea6no4ical4opause3ttier3ubadour5lefield7shoot9oots8ome6ing4sdale3vato7re3yanos2uancy3culent3dia3glio3ism3jillo3llinger4ove3mpeted8r7ing5ower3ncated7ing8on3skowski4ler4teeship5worthy4zkowski3thfully8ness5iness3xillo2yphena2zaska3cinski1songas\'s2ukuba3nami4eo3rumi3tomu1uberville3ular2ccillo3holski3kerman3uman2disco2fano2instra3tion7s2llia5er5o5us2mazos3bleson5ing3eric4scent3linson3olo3ulty2nable4fish3ica6\'s6te4sia7n5on3neling2pelo6v3perware2randot5o3berville4inen4ocharge9ged5fan5jet5prop9s5tax4ulence8t4yfill3ismo3kington4ovich3lington3meric3nabout5round9ds4ipseed4over8s4table9s3owski3pentine4itude3tleneck9ks2scany3kegee2telage3ino3oring3terow3wiler2valu2xedo6s1wardowski2eezerman3ntieth2inkling6y1yburski2lenol7\'s2minski3panic6um2peable4casting4faces4setting4writer9rs8ing8ten3ical7ly4fied7s5y2rannies7zed6y2singer0uarco1buntu1chida1dverhye8\'s1eberroth2ki1ffelman2o3\'s3s1galde3nda6\'s6n3rte2ity2lier5st4ness2olin1inta1lery2iaski5si7\'s3cny3ma3tsa2lenberg4ry3oa3yses2rica2shafer2tima6te3ramar5sound2undi2ysses1mana4sky2barger3erger5to3rella8s4ia2etsu2lasi2pire6s1nabashed4le4om6b7\'s4ridged3ddressed4just4orn7ed3fraid3ided3lloyed4tered3nnounced4swered3pproved3shamed3ttach8ed3ware7s2balance9d3eaten4known9st4nding3iased3lemished3olted4unded4xing3randed4idled4oken3undle8d7ing4rden8ed4tton8ed2canny4pher4ring3easing4nsored4rtain3hallenged5nging5rted8red3ivil3luttered3oated4mmon5plete4ncealed7rn9ed5fined7rmed5scious6trained5trolled5vinced4unted5ple4ver7ed7s2damaged4ted4unted3eclared4fined4rage6rm5berg6id6rush5class6oat7ok9ed7unt6ut8s5dahl6og8s7wn5foot6und5go7es7ne6rad7ound8wth5hill5lie8s7ne9d9s8g9s6y5man8ned6ine9d9s5neath5paid7nts7ss7y6in8ned6lay9ed6rice9ed5rate5score9ed9es6ea8s7ll7rve9ed6hirt9ts6ide7zed6old6pin6taff9fed8nd9ds8te9es7ood5take9s6one9s7ok7w8s5use8d5way6ear7ight7nt6helm9med6ood9s7rld6rite9es7ote4served4terred3ilute4sclosed5guised5turbed3ocking4ing4ubted3ulate8s5y3ying2earthing7ly4sy3mploy8ed3nding4forced3o3qual7ed3sco3ven3xplained6ored2failing5rly6ness5thful3eeling4ttered3iltered4nished3lagging4inching3ocused4lded6ing4reseen4unded3riendly4ozen3ulfilled4nded4rling2gainly4ro3erer5mann3odly3rateful3uarded2hampered4ppy3ealthful8y4eded4lpful3indered3oly3urried2icef6\'s4om5rn6p7\'s3den6\'s3fied5l4orce6m7ed7s4y3kom3lab3mate4paired5ressed6oved3nformed4jured4stall5ured4volved3ondale5fed5ist8s6ze8d3quely6ness3sex4om5n6s5urce4sued4ys3ta5f5s4ed6\'s5k5l4ing4rin7\'s5ode8\'s4y3va5r4erse2justly2kefer3indest3nowing2labeled4wful3eaded5shes7ing4veraged3icensed4kely4sted3oaded6ing4cking3ucky2manage8d4rried3entioned2needed4rving3oticed2ocal6\'s3pened4posed3som2packing4inted3erturbed3leasant3repared5served4ocessed5for8\'s5ven6oked3ublished4nished2questioned2rated4vel7ed7s3easoning4deemed4fined4hearsed4leased5ieved4marked4solved5trained4vised3ivaled3olling3uffled4ly2sanctioned3cheduled4ramble5ipted3eated6ing4cured4emly4ttle8d3hackle9d5ken5rpened5ven3ightly3miling3paring4oken3table5ted4eady4inting4ructured3ubscribe9bed5tle4ited4llied4rpassed3werving2tainted4ngle7ing3endered4rberg5man6eyer4sted3hinking3idy4mely3oward3rammeled4eated4oubled4uthful2varnished3eiling4rzagt2wanted4ry3elcome9d3ielding7y4lling4nding4sely4tting3orried5thy3rapping4itten2yielding2zicker1pbraided4inging2coming2dated5ing3egraff2graded7r6ing2heaval8s3olding5ster9ed2lifted6ing3oaded6ing2manship4rket2perclass5man6ost3ity2rising8s4ver3ooted6ing2setting3izing3tanding5rting2tegrove2voted5ing2wardly1ranga4us2bana5chuk6zyk5ek5i6k6sm6te8s6ze8d5o5ski3ina2diales2ea3na3sti3thane5ra2gency5tly2ian4s3be3egas3nate2l3s2quidez6i5za2rea3utia2sery3ini3ola3ula2uguay7\'s1sa3\'s3ble3ges3id4r5\'s2b2efully6ness3lman4ton3rname8s4y2hering2inor2s3ery2tasha3inov3rust2ual3rping4y1tensil7s3rine4o4us2ica3lize7d2sumi2terance5ing5ly2zinger1yeda3no1zelac0vacancies6y5ti4ted5ing6on8ed8s4ville3caro4ina7te3illate9s3lavik3uous4uming2dala3ehra2gabond8s4ries5y3elos3ina6l3rancy2illancourt2lable4de6z4sek3borga3demar4osta3ea4da4nta6e6i7a7n8e9\'s9s5za4o4ra5i6e5o5y4ska3halla3iantly4da6te8s5ed5ly4ente4quette4um3larta4ejo7s5ry4iant5er7e4one3meyer3onia4ree6s3sella3tierra3uable8s4eless5point4ing4jet7\'s4kas3vano4erde4oline2mpiric2nacker4ken4llen5stine7yne4man5burg9h4ntwerp4rsdale9l4tta6er4uken5sdall3bebber5rgen4ibber4larcom4rocklin4uren5skirk3campen4ouver9\'s4ura6en3dagriff5len6ize9d4eberg5car5grift5hei7y5lla8s5man7rk5nberg9gh9ghe7oom8s9ch7rink7urg9gh5rbeck8ek8rg7ilt7urg8sh6cook6ford6griff9ft9ft\'s6heide7oef8ff8of8rst6kolk6laan7inde8p6mark7eer6ploeg7oel8l8ol6schaaf7lice6veen9r8lde7liet7oort8rt6wal9l7eele8ide8rf9ff7ilt7oude6zee5usen5veer7lde7n7r6oorde9t5walle5zande4iver4oren4usen5zer4yken3eaton4cek4gas4lla4ngen4ssa6en4tten4very3fossan7en3gelder4ieson5lder4orden8r4uilder5ndy3handel4oesen5oser6zer5usen4yning3ia4er4lla6i7n4shes6ing4ties5y3kampen4euren4uren3lanen4eeuwen5uven4iew4uven3maanen5rter5tre4eter6re3nater6ta7er9\'s4elli4guyen4orman6twick5strand4ucci3ora5den7r5man5num4sdol5trand4ver3patten4utten3riper4oekel5ssum3sciver5oyoc5yoc4elow4ickel7le4kiver4looten4tory5raten4yckle3tage\'s7s5ssel9l4ilburg5ne3unu3vooren7his4ranken3wagner4ieren5nkle4ormer3zanten2porize8d5ware2quera2rady4ni5o3ela3gason3ian6ce6t7s4egate5tal4na4ous4sco4ty6\'s3nado7e4ishes3ona3rone3sity3varo3ying2sbinder3cular3eline3hinsky3icek4ly3kevitch3otec3sallo4ilios6y3tine4ola2tican7\'s2udevillian2xstation1ecchio2detta3ula2egenan2gemite4sna4table9s6l6te3isnax2hemence7t3icle7\'s7s2larde6i6o4sco5quez4zco5quez3dhuizen3ika3lucci3obind4drome9s4so4tta3sicol3veeta5teen6y2mpala2nable7s4lum4ngo3dela5tta8s7i4itti3egas4ma4rate8s4tian3ice\'s4er4son4ta3katesh3omous3tilate4ola4rella6sca5icle9s6tex4ura6esome6i7ng3uti5o2randa7s3balize6ly5tim4ena4iage4oten3cammen3derame6ber4ier5nsgang4one4ugo5in5zco3einsbank4na3gara4es\'s6h\'s4resh\'s3hagen4oeven5fstadt3ibanc4fied7s5y4na5e4ties5y6\'s4zon7\'s7s3kuilen3leger3meulen4ilion6lion6ya7ea4onter9s3neta4ier5ta6ron3oa4na5da5ique6s3rastro4ier5lli3sace7\'s5tile4luis3tebra8e8l8te9es4ibrak5cal8ly6es6om5go4ucci2scinoid5o3elka3icle7s3pera3sels\'s3tibule9s5ges2teran7\'s7s4to3oing3rano2verka3ila2xatious2zina1iable3com6\'s3duct7s3gene4ra3na4i4o4sa3tor2brancy5ting7on9s6o7r8s2cari5y3ente5zi3hyssoise3ino4ously7ness3kerman6y3omte3timhood6ize9d6less4ories6y3una2dales5ia4rtes4urri3eo5\'s5s3igo2eira3jo3nna6\'s5ese3tcong4nam7\'s4ti3wership4finder3yra2gilance7t3nola3orous3uerie2lardo3hauer3ified5y3lage\'s7r8s7s6ran5inous5lba6on6va5mil5ni6o5ri6real4egas5la6la5neuve3nius2ncelette5nnes6te7i8a6zo3dicate9s6tive3egar7s3ita3ocur3tages2ola5s5te7s4ence6t5t6s6t7e4in6s5st7\'s7s2p3\'s3perman3s2rago4tek4zole3ginal6ia8\'s8n9s3idis4na3kler3omune3tual5ous3ulence7t4s\'s5es2scardi4eral4losky4omi5nti4usi6o3egrad3ible6y4calc4goth8s4ted5ing5or7\'s7s3ual6ize9d6ly2tale5i6nk5ly5y4min7s4nza4rine8\'s3elli6o3iate3olo3ramon5no4eous4iol4onics3tetoe4itow3ucci4lli6o2vacious4ldi3eiros4ndi4rette5os3ian4dly5ness4en6ne5r3ona2yella2zcarra5ya3zini1ladimir5slav3hakis1ocalist8s6ze5ly5tec4tion8s2dafone4vi3icka2egeli2geler5pohl5sang6ong6tein3osca2iceover3novich2lante4tile3berding3canic6o7\'s7es7s3demort9\'s3eta3gograd3io4tion3ksfuersorge5wagen9n\'s9ns3leyball3tage\'s7s5ren3uble4nteer9ed9s3vovitz2miting2nada4llmen3bargen4ehren5rgen3cannon3derhaar7eide4racek6sek3gunten3negut3ruden3seggern3tobel2racious3nado3ontsov2sler3sler2tava3ruba2yager7\'s7s6s3navich1radenburg3nitzky2edenburg3mya1ukelich3ovar5ich2lgamore2ncannon2olo1yacheslav0w1\'s1abash\'s2chowski3kenhut5rle2ddington3lington2eltermann3rtsilae2ffenschmidt2gaman3enaar5er5knecht4ring3gener4ling4oner3oneer8s6r3uespack2hine6s2ikiki3nio4oco7\'s4scotting3sanen3tresses2ldecker5gard5mar5nbooks4holtz\'s4inger4vogel3enta4sa6\'s3icki4nsky4zer3kenhorst4ington6shaw4owski3labies6y5ce\'s5nder4enberg9g\'s6stein5rstein4flower4ingford7ton5son4oping5wing4paper9ed9s3raven4uses3termire2nderer8s6ing9s6lust6see3gerin3nabe7e8s7s4inger5ski3tages4only2piti2rbington4ling4urton3ehouses8ing3ily4ness3kentin3mington6ster4onger3naco4ico5ngly3onker3ranted7ies7less7y4enton4iner6gton5or7s3shauer6wsky4zawa3tenberg3zecha2seda3habaugh6le4basin4ington9n\'s3inger4yu3kiewicz3mer3senaar5rman9\'s6stein4ily3tebasket9ets5fulness5paper5water3zkiewicz2terbed8s6orne5cress5er5fall9s6ield6ord9\'s7wl6ront9ts5gate5house5ing5log8ged7o5man8\'s7rk9s6en5proof5shed9s6on6tein7on9e9e\'s5tight6own5ville5way8s6ork9s8ld8th5y3kinson3ling3sonville3tenberg7urg4leton2ugaman3kegan5sha2vering5ley6y2ycaster3nesboro1eakening4nesses3lthier8st3ponry3rable4ever4ily5ness5some4ying3sellike3therall7bee8y7ford7head8olt9ltz7ing7ly7man8en7proof7sbee9y8poon8tone7wax5ington3verling2binar3master9s2ckerly5sser2ddington3ekind7g3owee7\'s2ehawken3kender2gener3rzyn2hmeier5yer3renberg2idenbach8um6feld5rman4inger4ler3ghtlessness7ifter9ters9ting3lbacher3meyer3nberger9r\'s4garten8ner4heimer4inger3sbecker6rger4chedel4eman5nbach7erg7orn6sel6thal4gerber4inger4senborn5inger3zsaecker2lcoming3inder3lbeing4endorf4ington9n\'s9ns5ver3terweight2natchee3ceslaus4hester9r\'s3deline6ken3gler3iger4nger3nerstrom4inger3ona2rkheiser4meister3miel3nimont3theimer2seloh4nberg3ler5yan4ia3olek3percorp3selman4inger4ling3tberry5oro8ugh5ury4chester9er\'s4endorf5rbeck8rg6dam9\'s6feld7ield6gaard8rd7ren6hoff8ld6lies7und7y6man9n6ner9s7ize9ed7most6velt4hampton5eimer4inghouse4minster5oreland4over4phalen4vaco2therbee7y6ell6ill6ly4ington3tengel5rau6green4laufer2yerhaeuser9ser\'s1hampoa3tever8\'s2eelbarrow9ows5writer3never3reabouts5upon5ver5withal2ichever3mpering4sical9ly3nery4nery3plashes4pany5oorwills4sawing3senand8t6hunt4onant4perer9\'s9s7ing3tacre5ker4eaker5cotton5ning5scarver5water9r\'s4moyer5yer4taker5enberg8urg5ier6ngham9ill8ton5lesey2odunit8s3ever7\'s3lehearted5saler9r\'s9rs8ing6omeness3mever3opdedoo1iacek3ter2bbelsman2chita7\'s3kedly6ness5rham6sham4izer4lander2ddowson3ebody4ner5ing3maier5yer3ower7s3uri2eczorek3derhold9t6kehr4meyer3renga4sema4zbicki3sbaden4eler5nthal2ggington6ton4lesworth5ing5y3ington5ton2itala2kowsky2lander3berforce3coxen6on6son4zewski5ynski3dasin5vsky4catter9rs8ing4erman7uth6ness4fire8s5lower3emon4nsky3freda7o4ully3helma7i8ne7sen7y3iams4nski3kening6son5rson5sboro4inson9\'s5son4owski3labelle5dsen5mette9e\'s5pa7\'s4eford5msen5nborg7ring4fully4iams\'s8burg9urgh8en8on9n\'s8port8town5ford5nger7ham7ly7ness5s\'s6on6ton4oughby5wbrook6y4power3mington3shusen2mberley7y4ledon3piness2namac7\'s4ns\'s3berry3chester3decker4miller4owless6pane9es3ecoff4gar7den4inger4ma5iller4ries5y6\'s3gerter4ler3iecki4fred4nger3kelman9n4leman4owski3nable4etka4icki5ngest7ham5peg4owing3ograd4kur4la4na6h4oski3stanley3terberg7ourne6green6ize9d6mute6rowd6shall7teen9in6thur7ime7on3zeler2pperfurth2retap7ped3kkala3tanen2schmeyer4onsin9\'s3ecarver5racking4ley4ner3hfully3inski3ler3mer3neski5wski4ieski3singer3tfully7ness2thdrawal9ls8ing4erell6ing6ow6spoon4holding4ington4standing3kowski3ness\'s7es7ing3owski3tekind5nberg7orn7urg4ily5ngly4meyer3ucki2zardry1obbling5y3egon2dehouse\'s2ebegone3fully2goman2hlgemuth4stetter2itschatzke2jciak5cki3dyla3nowski3taszek4kiewicz5owski4owicz2lanin5ski4ver3enzac8\'s3fenden6schmidt7ohn7tein4inger3gamott4emuth3inski7y3kanczik9k\'s3laeger4enberg4schlager3ohan4szyn3stenholme3verine9\'s6ton2manhood5ize3bacher3etco2nderful6ing6land7y6ment3nacott2odberry5ury4carver9rs4ington4mansee4pecker9rs4worker9rs8ing3lery5ver4verton2rcestershire3dperfect3kable5day5round4horses4inger4manlike7ship4places4station9ons3ldliness5vision3mington3onoff3rier7s5some4ying3sening4hiper9s7ful7ing7pers8ing3thier7st6ness7gton2therspoon3ring2zniak5cki1rangler8s6ing9s2estler3tchedly2inkling3stwatches2obleski6wski3ngdoer9s7ing9gs5fully5headed1uerttemberg2liger2nderkind6le7ich8n2rlitzer2thering1yngaarden3ia3nona3ona5na2oming7\'s2siwig3ocki3zynski0xanada5u2viera1enia3ophon2riscape3ox\'s5es5ing1iamen2nhua3jiang1ml1ylia4na3ogic7s4na4phone2vision0yablonski8y2cono2goda2kima3ovlev3usa2mada4ha4ne5i4to2nkovich5wski3nuzzi3ofsky2rberry4oro7ugh4rough3deni3mulke8s3rington2suda4o4shi2vlinski9\'s8y9\'s2worski1banez3rbo4ra1earago4earlier2dinak4yat2hiya3uda5i2lena3lower7st6ing7sh6knife6stone9ne\'s3verton4ington2meni2rena4van3ian2shiva3suey3terday9\'s9s6year2tnikoff2vgeny3linsky9\'s1ingling1niguez1ochelson2deling2giism7s2ichi2kado3elson3ota2landa2ngchaiyudh2ruba2shida5no5o5ro2ungerman3rselfer9rs1sleta1ttrium1ucaipa4tan2goslav8s2kio2lian2ppified6y2rachek3chenko3kovich2taka0zabala4wa3ielski4nski3locki3owski3riskie2ccardi6o4one3hary4ery3kery2dillo3ora3rozny2ffino4uto2gladin3orski3ury2hniser3radnik2ibatsu3rean7\'s7s2jicek3kowski2kharov3rajsek2ldivar3enski4ski6y4wski3oudek3ygin2marron3belli4ia6\'s6n5to4oanga5ni4rana7o3ora3pedri4ino2nella4ta3gara6i3iest3oni4yan3ussi3zibar2palac4ta3pala4ia4one4ulla3ruder2rcone3ella4mba5ski4tsky3ia3lengo3rella4oli7\'s3uba3zecki4usky4ycki2sada2vada5il4la3ery3odnik6y2wacki4da5zki3islak2zueta1bikowski1drojewski1ealander9s4otry5usly2browski3ulon2ckendorf2dillo7\'s7s2ebrugge2idler3gler3linger3sler3tler2kauskas2lasko4ya4zny3enak5ka5y4snik4znik3ia4kow4na5ka5ski7y3lerbach2maitis4nek3bower4riski3ecki7s2naida3dejas3eca6\'s3ia4ca4na2oli2peda3pelin5nfeld2rcomo3illi3lina6da3meno3oing4li4ual1hivago1iccardi3kefoose2egenbein6fuss6horn3linski3mian3semer4mer2ggurat8s3ler3zagging2llionaire3via2mbabwe8\'s5list4elman3erman3merer6le7y6man9n2nfandel3gale5ro4ler3ia3nia6s3smeister2obro3mek3nist7s2pperer6ing4ora2rella3kelbach1lomsowitch1mijewski1odiac2fagart2llinger2ndervan2olander9\'s3ropa2rana3ina5e5sky2uabri2virax1ubia2ccaro4hini8s3howski3kerberg9g\'s6man9\'s2ganov7\'s2kerman3owski2leger3fikar2mpano2niga4no2pancic5ja2rawski3ita3kuhlen3owski2zana1wetchkenbaum2olinski1ydeco2skowski2uganov8\'s2wicki',
+    4: '0abadaka3lone7s3ndoning7ment9nts2breviate9es4uzzese2dicated7ing8on3ominal3ulaziz2ercrombie4nathy5ethy4ration9ns2ilities6y3ola6\'s4med3tibi2khazian9s2negation3ormally2olishes7ing5tion3rtionist9sts2rahamsen8on4movitz6wicz8tz3ogated7ing8on3uzzese2saraka3olutely8ness7ion8st4rbency3urdities8y2uladze3ndantly2ysmally4sinia9n1cademic8s7es6y7\'s4ia3mpora3pulco2celerant9ts8te9es4ntuate9es4ptable9y7nces4ssible6ories9ze9zed8y3idental8ly3lamation4imated8ion3omando5modate9tes5panied9es9ment9ments9st8y6lices8shes9hing9hment9hments4rdingly7on9s4untable8ncy5terment9ents6rement9ents3redited8ing3umulate9es4racies7y6tely4sation9ns8ve5ingly2etochlor4ylene3vedo2hievable2idified8s6y5ty4osis2kermanville3nowledgement9gements9ges9ging9gment9gments2ocella3rdia3ustical9lly2quaintances9nceship5viva4iescence9nt8ing5rer8\'s8s5sition9on\'s9ons9ve2rimony3obatic9s4polis2tionable4vated7ing8on7or5ision7m6ties7y3media3ualize6ly5ries6y5tor8s2uity3puncture2yclovir1dagio3lia3mantly4ina4owicz3ptable6plex6tion9ns2didas\'s7es4tional3ressable2elanto4izzi4phia8\'s4sberger3noscan6ine3quacy6tely2hd2idas\'s3nolfi3rondack2judicate4stable9es2minister9red9rs8rate4rable8y6lty6tion9ns5ingly4ssible4ttedly3onishes8ing8ment6tion9ns2olescence9t9ts3nia3ptable3rabelle6le5tion2renalin9e5ergic3iana6o5tic2sl2ulation4terate9es7er9s7ous7y2vantageous9s3enturer9rs9some8ous4rbial5saries8y6ity5tisement9ments9r9r\'s9rs9s8ing9ng\'s3isable5edly5ories7y3ocacy6ted7ing8on1eritalia3obatic9s5ically4nautic9cs4peru8\'s4science5pace\'s4vias2sthenopia6tically1ffectation6ionate7vely3idavit9s4liate9\'s9s4nities7y4rmation9ons9ve3ordable9y3rication2ghanistan9an\'s9ans2latoxin2orementioned2ricanist9t\'s9ts8ze9ed4kaner9s3ocentric2terburner9ers5effect9cts5hours5image5market9ets1gamemnon9\'s3nbegyan2ematsu3ratum8s2glomerate4utinate3randizement9ing5vated8ing9on4egated8ion5ssively9eness2hazadeh2ility3tated6ing7on6or8s2nosio5tically2oglia3nizes6ing3stini7o2rarian3eeable4gable5ious3ibusiness4cola5ulture9re\'s4visor3okomerc4nomist9ts7y4siand2uadilla3delo3ilera1hluwalia2umada1ilurophile2rcondition9ioned9ions3worthiness1kebono2ihito3yama2kadian2yanama1labama7\'s7n8s5ster3chua4rity3gappan3meda4illo5to7s4odome5sa5udi3rica4mingly3skamen3torre2banese5ia7\'s7n8s4rado4trosses3erico5tina8i3inia3ukhari4querque4terol2cantara3hemically3oholic9s2debaran2egria3jandre8o3ksander8r3nia3ria3shire4sandra9a\'s9o5io3thea3xander9\'s9s7ra8e8ine9nes8ov4ia2fareda4villi3iero3onsine2gebraic4ria7\'s7n8s3odones4nquian4rithm9s2iano5za4ses3berti4randi3cea3enates3menies4ony3oto3quippa9\'s9s3rio3thia2kaloidal2lahabad4muchy3egation9ns5edly5hany6enies8y9\'s5is\'s5ories7y5retti4luia6ja4nder4rgenic4viate9s3iance\'s8s6z\'s4edsignal9nal\'s4gator9s3mendinger3ocated7ing8on9ns7or9s4phonic4wable6nces3uvial6um2madani3endarez4ria3odovar2oisia6o3ysia6us2phabetic9ze9zed5graphics5metric9ics5ndery5retta2tadena4mira5uro4vista3enhofen4ration9ns5cation9ons5nacare7ted9ly8ing9on9ve9ves8or3imeter9s7ry4plano3obelli4gether4mare3ruism7tic2umina6ium7ze9d6um8\'s2varado5enga6z\'s3eolar6i2yeska3sheba4ia1madea5o5us3gansett3lea4gamate9es3rante4etto4gosa4illa7o8\'s8s4yllis3teurish3uligak3zingly2bassador9r\'s9rs8ress3idextrous4guous4tiously4valence9t3riano4ogio5sine8i8o7o7us3ulances6tor2elinda6e5o6rate5ta3nable5ces4dable5ola4ities6y3rada4ibanc5ca7\'s7n8\'s8s7r8e9s7s6o7ld7rp9s6us5first9t\'s5gas6o5host5ka5ne5tech9\'s6rust4ongen3zcua4quita2iable6y3cable7y3lia3prilose3tabha4yville2mirati3onium3unition9ns2nesiac3iotic2orita4osi6o4tizing4uso2phetamine9nes4ibian9s7ous4ophilic3lifier9s6ying3utated7ion9ns2usingly2ygdala1nabaptist4olic3conda5rtes3darko8\'s3erobic4sthesia8tic9ics9ist3franil3lgesic9s4ogic7es6ous6y4ysand6es6is5tic8s5zand6er8s7s6ing3nia3phora4lasia7tic3rchical3sazi4tasi8a3thema4ola6i6y5mic7st6y2cillary2dalusia9n4ntino3erlini5sonville3olina4nian3reana7i7o5ini5oli6ni6tti6zzi4iana7o5ola4ogynous8y5meda4uskevich4zejewski2ecdotal3mia6s3sthesia7tic9cs9st3urism5ysm2geleno8s6s\'s6tti5ica8lly8s7o6ka6llo6na7i7o8\'s8s6ta5one7i5ucci4rmeier3iogram3lemyer3uiano4lated2imated6ing7on9s6or8s4ism2jelica2kerium2nabella4polis3exation3ihilate3otated7ing8on9ns7or9s4yances3ualize9d6ly4ities6y4nciata5zio2omalies6ous6y3nymize9d6ous3pheles3rexic8s2sonia3werable2tagonist9ts8ze9ed4rctica9a\'s3ebellum4cedent9ts5hamber4mortem4nucci4rior3hologies9st9sts8y3iaircraft4bodies7y4cancer5ipate9es5yclone9nes4dumping4fungal4gone8\'s8s4matter5issile4nomy4ochus4pasto6thies8y5odal7es4quated6ities8y4septic5moking5ocial4thesis5oxin9s4viral7us3kowiak3olini4nacci5elli9s6tti5ia6ni8\'s7o6o7\'s7s7u6u7\'s7s5ovich5ucci2xieties6y2ybody7\'s3one\'ll3time\'ll2zaldua1pathetic2eritif2horism8s3rodite9\'s9s2icella2ocalypse4ryphal3daca3logies7se9d8t9s7ze9d6y3plectic6xy4tosis3stolic5rophe9es2palachian9ans5lingly4ratchik9iks7us5ently5ition9ns3ealable6ingly5rances4llation9ons4ndages6ices7xes5zeller4tito6zer9s7ing3leberry4iances5cable7tion9ons8or9rs3ortioning9ment3reciable9ly8te9es5hended9ing8sion9ions9ive5ntices9eship9eships4oachable5bation5priate9tes5vable6ingly5ximate9tes2riori3odiva1qazadeh2uaculture4marine4rium8s7s3ilina7o1rabella4ia6\'s6n7s5ca6hon9\'s6on3gona3kaki5wa4elian3maic4bula4inta4ony3paho7e2bitrager9rs9ur9urs8ing7ry7ted8ing9on9ons8or9r\'s9rs3oleda4real6tum2cadia7n8s3hdiocese4enemy4imedes5tecture9ure\'s9ures4uleta8ta3iniega3osanti2delia3olino3uini2ebalo3chiga3llano3naball4ella8\'s3quipa3tina3valo2gentieri7na9\'s9s3osystem9ms3uable7y2iadne4na5espace5na7\'s4s\'s3ela5la3ola3stocrat9ts6tle9\'s3thmetic3zmendi4ona7\'s7n8s2madillo9s4geddon3brister3ellino4ndarez8iz5ia7\'s7n8s2omatic3nowitz2rearages4dondo4ndondo4ola3hythmia9as3iaga4goni4ola3ogantly2senio3lanian2terberry5ial3hurian3icular8te9es4ficial4llery4sanal5tically2ugula2vanitis1sahara3mera3p2bestosis2cencio5dancy6ency4rtaining3henbrenner2eltine3ncio3ritis3xual2henfelter3kenazi9s2iatic2lanian2modeus2paragus3erity3hyxiate9es3irated7ion9ns2sassinate3embling7yman9en4rtedly6ively9ness3iduously4milate3ocation5iate9\'s9s8ive3urances5edly3yria7n8s2tonishing8ment4ria6no4undingly3rologer9rs8y5nautic9ics6omer9rs8y5physics2ymmetric9es8y4ptotic3nchronous1tacama3lanta5ya4ia3mian3vism6tic3xia6\'s2encio2halia3eistic4naeum6ios5ian8s3letically8ism2ilano2lantica8o7s\'s2mospheric9ics2omizer3rino2rocities7y2tainable3ebery4nborough5tively9ness5uate9s4rberry6ury3leboro3ractively9eness4ibuted8ing9on2ypia5cal1uctioneering2dacity3ience\'s8s4ophile9es5tape9s6ex5vox4tioning5ory2gmentable8tion2relio2sterity4ralasia2tenrieth3hentically9ate9ates4orities8y9\'s7zes8ing3ocracy7tic4europe4maker9\'s9s6ta7ed7ic9s8ng8on8x7on5obile9es6tive9e\'s4nomic7ous7y4pilot4trophic4worker9rs2xiliary1vailable3kian3lanches2edisian3line4lino8\'s3ndano4tura3rsano2iacion4no6\'s4ries5y4tion8\'s5or7s3onic7s3tabile2ocado7s5tion3idable3lio3wedly2uncular1wakening1yacucho3tollah9\'s9s2rshire1zalia2carraga3uenaga2elia3rbaijan9n\'s3vedo2purua2zarello3opardi0babangida3ysitter9rs8ing2cchanalia3hailian3kfiring4pedaling4wardation3teria8\'s8l7um2dolato2gdikian2hamian3rainian2krewali2laclava9s4kumar3cerowicz3dassare9i9re4errama4onado3entine4strieri3istreri3lentine5rina9s5steros3odia3todano3zarini2nalities7y4siak3cario3gladesh\'s9hi9hi\'s9his3katlantic4worcester3yaluca2rahona4noski6wski3bagallo5rian9s7no7sm7ty4ecueing7ing5queing5rio4iturate9tes3celona3entine3ganier3illari9\'s3ometer9s7ric3racuda5dino4icada8ed3samian3thelemy5olomay9ew4kowiak4oletti6ini6ucci5siewicz3yshnikov9ov\'s2saldua3ilia6ca6o3ketmaker9ing3ophilic2tavia3ignolles3ogowski3taglia8ni4erymarch4iato5stoni3uigas2udendistel3ermeister2varia7\'s7n1eatified6y4rice\'s3utifullest2havioral8ist9sts2jarano2laboring4fonte4tedly3eaguering4fiville3fiore3ievable4gerence9t4ttling3lantoni5via7sta4efeuille4igerence9nt9nts5nghausen5ssimo4uomini4yaching2nackova4suli4vente5ides8z3civenga3edetti9\'s8o5icta8ine9ne\'s9nes9on4factor9r\'s9rs5icence9t7ial9l\'s6ted7ing7ted8ing4nati4quity4vento5ides5olence9t3ihana4nati5casa3tivegna3veniste6uti8o2radino4ndino4rdino6ucci3berian3chtesgaden3egovoy3gamini3kemeier3lascone9e\'s4usconi9i\'s3nadino5rdini9o5sconi3thiaume4inotti4olini8o6otti6ucci3yllium2spectacle9led3tiality2tabia4keren4seron3tenhausen2valaqua3ilacqua2wildering8ment1hattacharjy1iaggini4ini3lecki4kowski3monte3nchini5oni5ulli4nual3xial2carbonate3ycling2ennial2furcated8ion2jeljina2lateral3irakis3lerica3zerian9\'s2national3genheimer3ocular9s4mial2ochemist4ontrol3diverse3ethics3feedback3grapher9rs8ies8y3hazard9s3logic8s7st9s6y7\'s3metric3netic8s3physics3safety4cience4ensor9s4ystem9s2partisan2sceglia4hofberger3exual8s3iani4gnano3uteki8\'s2ttenbender3uminous2viano1jelasnica1lankenbaker8eckler3singame4singame3zejewski2epharisma2uepencilling1oardinghouses8passes2badilla2canegra3hicchio2deguita4nhamer6eimer5steiner3hisattvas3ikova2gdanowicz2hemia7n2ilermaker2janowski2livia7\'s7n8s3lenbacher3ognese8i3shevism2mmarito2nadio5onna5uce4sera4venture5ia6ta3enberger3figlio3giovanni3signore2osterism2rdonaro3ealis3kenhagen3owiak2scarino3endorfer3tonian9s2tanical3shabelo3tecelli3ulism2ulangerie3thillier4ilier2wermaster2yajian1racamonte9e\'s9es4hiopod9ds4kenbury3dykinin3ggiotti3malea3ncaccio4denberger8urger3ttaslava9va\'s2eathtakingly3ndlinger4tlinger2iguglio3tannia8ca4tania3zendine4zolara2okerage\'s9s3ntosaurus2ustoloni3talities8y7zes8ing1uccellato4iarelli2ddenhagen3getary2gliosi8\'s2jumbura2kovina2lemia3garia8\'s8n9s3imia2miputra3persticker9ckers2onicontis4ocore2prenorphine2rciaga3eaucracies9cy9cy\'s9tese9tic3gomaster9er\'s9ers4undian9ns2salacchi3caglia3inesspeople9erson8woman9omen3tamante3ulaki2thelezi9\'s3tafuoco9o\'s3ulesi8\'s1yzantium0caballero3lesystem9ems5vision9on\'s3riolet2ccavale4iatore3ophony2dwalader9r\'s6lader2esarea2farella8i3etizer3feinated3iero2ggiano3liari2labasas5rese6ia4diums4mander6ri5ia6ties7ous7y4veras3caterra4ulated8ing9on9ons8or9rs3deraro6one3endula3ibrated8ion4endo4fano5ornia9a\'s9an9an\'s9ans4giuri4sthenic9ics3legari4igrapher9hic9hy5ope8s3ogero2marata5ena5illo3bodia8\'s8n9s3eraman7en3illeri4niti3marano7ta6ota4ermeyer3ouflaging3panale7ro6ella9i4esinos4ione4obasso5frio4uzano2nadian8\'s8s6enne4ndaigua5ea4veral3cellation9ions3delabra4idacies8y5otti9\'s4lemaker3evari3gelosi4ialosi6no3iglia3navino4elloni4ibalize5straro5zzaro3onical7o3talupo5nkerous4erbury9y\'s3zoneri2pacitance7ies7or9s7y3ernaum4tillo3illaries8y4strano4talist9ts8ze9ed6no5oline5ulate3linger3onigro4rale6so4zzoli3padona5relli4elletti4iello4uccino8o3riati8\'s5ciously5otti3tivated8ing6ity3uano2ra\'veras4bajal6llo5ello4cara5ciolo4dine5onna4mandi5elize9ed4ngelo4vella8o6o3bohydrate9ates5nara8o7ted6etto5rundum5xylic4ureted8ion8or9rs3cinogen9ns7ma3darelli5ssian9ns4enas\'s4inale8i3eerism3ibbean4cature9ed9es4ello4oca3melita3nevale4icero5vorous3olina8\'s8s4sella8i3penito6tier9ri5tbagger9gers4inelli3rasquillo4ibean5ers\'s5zales4yforward9ards3tagena4oneros3uana4sone2sablanca4grande4lino4mento4nova3ciano3ebier3iano4miro3sarino5vetes4elberry4inelli4owary3tagnola5neda4ellana9i9o9os7ucci4igated8ing6lia5lleja4leberry4ronova9o3ually6ness6ties7y2taclysm9ic4lano5famo5ina5oger9s7ing7uing6nia9n5ytic4maran9s4nese5zarite8o4pano5ulted8ing4strophe9hes9hic4tonic3echism4gories8ze9ed7y4rino5pillar9ar\'s9ars9er9er\'s3herina3olica3taneo4olica2uliflower3salities8y3terizes8ing4ionary2vagnaro4liere8i8ly5laro6ero1ctv1debaca1eccarelli2lebrated8ing9on9ons6ities8y9\'s4ntano4rity4stina8e8o6ory3ibacy3lulosa3osia2meteries7y2niceros3ozoic3tenary6nial9l\'s5rfielder6ior4imeter9rs8re9es4ofanti4ralia8sm8ty8zing5ifugal9es4urion2phalopod2rankosky4soli4volo3ebrally4ghino4lia4monies7y3idian3niglia3tificate9tes6ying3vesato2sario1hacabuco3lasani4cedony4lengery3meleon4pioning8ship9hip\'s9hips3nishiva3peroning4paquiddick3racterize9ized5lambos4ismatic9ics5table9y3tihachi9i\'s4tahoochee9chee\'s6nooga9ga\'s7uga3uvinism9tic3varria2eckerboarding3ektowaga3merinsky3rnomyrdin9din\'s4rapunji4ubini5mirdan9an\'s3vrier2ianese4pparone6etta6one4rella8i8o6nza4vetta3cagoans5nery3katilo3merical4urenga3ropractic9tor9tor\'s9tors3tterchatter3usano2lamydia3orinated9ing2mielewski2olesterol3mbiono3reograph9phed2riboniko9o\'s4smer5tenberry9ury6iana9na9o6offersen9erson7phersen9erson8oulos3omakalim6togram9rams5osomal4nically5ologies9y3ysanthemum9emums3zanowski2ujitsuya1iaccia3ramella5vino3varella2borowski2calese3carelli9o3ippio2liberto2maglia3inero3orelli2ncinnati9i\'s3derella3ematic4plex\'s3naminson6onson3quemani2priani7o2rcadian4uitous5larize8ly7ted8ing9on9ons5mcision6spection7tances9ntial6vented9ting9tion3iaco4ello4ncione3rincione2tizenry9\'s7ship3ronella5suco3tadino2viletti5ity4tello1landestinely3rifying5netist9sts3ssicism6fying3ustrophobic2earinghouses3opatra9\'s2inically4tonomics2odoveo3mipramine1mudict1nbc\'s1oagulate3lescence8s7ing4ition9\'s9s3uthoring3xial2canino5ougher3kamamie3onino2difying4spoti2efficient9nts3xisted8nce7ing2ffeehouses2generate3itation3liano3noscenti2habiting3erently4sively8ness2incided8nce9t7ing4surance2labella4ianni4luca4ngelo5tuono4russo4santi5urdo4vito3glazier3icchio4seum3laborate5psible5teral4ectible9les8vely9ist9ize9ized5gial4isional4ocation5dion5quial8um5sio8\'s3menero3ombari6ia8\'s8n9s4nia7l8\'s8s6zer9s4radan9s7o8\'s6tion5ectal5istic6zing4simo6o7\'s5sally6eum3uccio4mbia8\'s8n9s6us\'s2mandante9es3bativeness4inable7tion9ons4ustable3edian8\'s8s6enne4rica4tary3fortable9ly3ically4tatus3memorate9tes9tive5ndable8tion6surate6taries9y8tor9or\'s9ors5rcebancorp7iale9le\'s9lize9lized9lly4ingling5serate9tes6saries9y7ioner9ner\'s9ners9ning5tteeman4odious7ties8y9\'s4unicate9tes7que9es7sm9\'s7ties8y9\'s5tation3panero6hia6ia7es\'s7onship9way6y\'ll7wide5ore5rable9y7tive8or6ison9ns6tmental5ssionate5tible9es6riot9ts4ellingly5ndium6sable8ted9ing9ion9ions5tencies9y8tly6ition9on\'s9ons9ve8or9r\'s9rs4ilation9ons4lacency9tly5ementary9ted9ting6xities9y5icated9ing9ion9ions7ities9y6mented9ting4osition9ons6tela4rehended9ding9sion9sive5omiser9es9ing4ugraphic5lsively7ory5sa7\'s5talog7tion9ons6ercraft8ize9zed8land9and\'s9ike8world3unale2nasupo3catenate9tes5vity4eivable9ly5ntrated9ting9tion9tions5pcion6tual9lize5rtina7master5ssionaire9nal4lusively4omitant4ubinage5rrently3demnation9ions5nsation5scended9ding9sion4itional9er9ers9ing4olences3estoga3fectioner9ners5derate9tes5rence\'s9es5ssional9nals4idence\'s9es8tial9ly5guring5rmable8tion9ions5scated9ing9ion4lagration4ormity4rontation9tions4usingly3genital4lomerate9ate\'s9ates4ratulate5egated9ion9ion\'s9ions6ssional8people9erson9ersons8woman9oman\'s9omen5uity3iferous4glio3jugated8ion9ons5nctiva3necticut9ut\'s4otation9ons3scientious4ecrated9ion9ions6utive5nsual6tino5quences9tial9tly5rvancy9cy\'s8tion9ive9ives9or9ors4hohocken4iderate8ing5glio5stency9tly4olable9y7ta8ion9ons6idate9tes5nantal5rtium9m\'s4picuous6racies9y8tor9ors4tantina9no9nos5ellation9tion\'s9tions6rnation5ipated9ion6tuent9nts8ted9ing9ion9ion\'s9ions9ive5ructionist9ively4ultancy8tion9ions9ive5mable6erist9sts6mated9ing9ion3tadora5giousness5inerboard9ize9ized5minant9nts9te9tes4emplated9ting9tion9tive7tible8uous9ously5ntedly7iousness5stable5xtual4iguous5nental9al\'s9als6gencies9cy6ual8nce7ing7ous7um4ortionist4rabassoon6ception9tive9tives7tual6dicted9ting9tion9tions6punction6rian9ns8ness6vention5ibuted9ing9ion9ions9or9ors6vances5ollable6versial9sies9sy3valescence9ent4eniences9tly6tional9neer9neers5rsation9ions6tible9les4incingly5vial4ocation5luted8ion2operate9s8ives6ider6rider6vision3rdinate9es2penhagen9n\'s7ver4rnican8us3polino3rocessor9ors3ycatting4reader9rs5ighted4tele4writed9r9rs2rdelia3espondent3iander4nthian9ns3nacchia4elio8us7son3ollaries8y5ogis4nado6ry6tion3poratewide8ion9on\'s9ons9st3radino4ectional5gidor5ia5lated8ing9on9ons5sponded9dence9dent9dents9ding4igible4oborate9tes4ugated5ptible3sentino4iglia3topassi2sentino3metically4ology5pulos3tantini9o4eira2troneo3yledon2uncilwoman9men4tenances6racted9ting8ttack9tacked9tacks7balance9lanced7challenge9arges8lockwise8ulture7feited9iter9iters9iting8orces7measure9asures7offer9fers7party7revolt7suing7tenor7vailing3rageously3turier2variance3enanter9rs4rages3iello2wabunga2zzolino1racchiolo3snianski2eatively8ness3celius3ditable9y7nstalt6worthy4ulity3nelated2iminalist9st\'s9sts9ze9zed8ly3safulli4ostomo4tiani9\'s8o3teria7on4ically6ism9s7zes8ing2ocodilian3nyism2ucifixes8ion2yogenic9s3ptoclearance3stallizes9zing1spi1uadrado3uhtemoc2cchiara2linary5ova3minated8ing9on3tivated8ing9on4urally3verhouse\'s2mulative2neiform3nilingus2pertino3idity2ratolo3iale4ouser7ly4tiba3rencywatch4icula9r8um9ms2siana4mano3todial8n9s7o5mary6izes8ing3umano2taneous2yahoga1yanamid8\'s5zine4uric2berspace\'s2clohexane5pean5sporine2donia2hexatin2lindrical2nically5ism2renius2therea3ology4plasm9ic1zartoryski2echoslovak9vaks3kajewski0d\'agostino3lessandra9dro3merica4ore3ngelo3viation2genetta1addario2ffynition2gostino2lesandro5io5sandro6io3iberti3oisio2mascus\'s3brosia8o3elio3iani6o7s4etta4nozide2ndelion9s4yism3gerously9ness3iello3nemiller4unzio3tonio3ylyszyn2polito2rcangelo3winian7sm2tabases4copy4graphix4metrics4products3tilio2uenhauer2vidian8\'s8s1eactivate3ngelis2bartolo9s4table4uchery3ernardi3iase4litate7y3lasio2caffeinate4millo9\'s4ndia4pitate5rio5ua4rava8\'s5olis3elerate4nnial5tralize9ized4ptively4rtified8y4sare7is3hristopher3idedly5uous4liter4mated7ing8on4phering4sively8ness3laration9ons9ve5ssified9y3ommission9ioned5poses8ing6ression4ncini5gestant9ants5struction4rated7ing8on9ns7or9s5dova3repitly5scenzo2deurwaerder3icated7ing8on3uctible9es7vely2emphasize2fabio4mation4zio3eatism4nsible7vely9ness4rential3iantly4ciencies9y4lippis8o4nable5itely7ion9ns8ve4ore3oliant9s4rmation6ities8y3rancesco7isco3terios2generate9es7es5naro3iacomo4dio3radable7tion9ons5ffenreid5zia4egory3utare8\'s2herrera3umanize9ed3ydrated8ion2julio2lacerda4fuente4garza4hanty5oussaye5unty4mater4pena4riva5osa4torre4urentiis9is4vega3bianco3castillo3ectable4gated7ing8on9n\'s9ns4hanty3favero3gadillo5udio4uercio3iberate9es4cacies7y6tely5iously4ghtfully4neate9s5quencies9cy4rious6um4sio4verance7er9s7ies8ng7y3l\'aquila4apenna5quila5rocco5valle4igatti4olio3monaco6ico3orean6nzo5ia4sreyes5santos4zier3priore3signore3tadromeus3usional3vecchio2maggio5ogic7uing7y4io4ndingly4rcation9ons5ia6nis7o6o5tini8o4tteo3entia4tria7o8u7us3ilio4rjian3obilize9ed4cracies8y9\'s7tic9c\'s9cs9ze9zed4dulate9es4grapher9ers9ic9ics9y4lishes8ing6tion4nizer8z7ing5strable9bly9ted9ting9tion9tions9tive9tor9tors4poulos4ralize9ed3ystify2napoli4rius4tale3icola4grated8ing3linger3ominate3unzio2odorant9s2partmental4scale5quale3endable6encies9y3lorable5yable3opulate4rtation9ons4sited7ing8on9ns7or9\'s9s3ravation6ity4ecated8ing6iable8te9es5dation9ons5ssingly7urize9ized4iest5vation9ons4ogramming2rderian3egulate4liction3flinger3isively4vation8ve9es3matitis3obertis4sia6er3ryberry3showitz\'s2saulniers3carpentries4ribable3ecrated8ion9ons4gregate4nsitize9zed4rvedly3iccated8ion4gnated8ing9on9ons4mone4rable5ing3lauriers3moplastic3olation3perado9es7tely8ion4icable4ondency5sito5tism3rosier9s3tabilize9zed4efanis8o4ination9ons5tution4ructable8iveness3ultory2tachable3ectable4rminant9nts9te8ing9st3onated7ing8on9ns7or9s4xify3rimental2ukmejian9n\'s3terium2valuate6ing4stated8ing9on3eloper9\'s9s7ing7ment9nt\'s9nts3iancy5ted6ing7on9s4lishly4ncentis8zi9o3olution4nian4tional4uring2xterity1haramsala2lakama1iabasic4etes6ic8s3conate4ritic9s3gnoses7ing8s7tek8ic9cs4onal8s4raming3lectic4ysis3mandis6ta7e4eter4ono3netics4gelo4thia3phanous3rio4rhea8s6oea3sonic8s4pora4tole7ic3thermy4omic5nic2bartolo4ttista3ernardo3iase3lasio2camillo4prio3esare3hiara4otomy3ioccio3kensian3lemente3ostanzo3tatorship9hips4ionaries9y2demeyer9\'s3inium3onato2efenderfer3lectric3tary4etic4ician5tian9\'s9s2fabio4zio3fenderfer5rences8tial9ials4iculties9ly9y3ilippo4ore3rancesco2gaetano4lakis3ennaro5ova4stible3iacomo4lio4orgio5vanna9i4talis7ly5izing4ulio5seppe3nitaries8y3razia2iorio2lapidate4tation5ory3enschneider3iberto4gently4thium3lahunty4ydally3orenzo6to5io3tiazem3uzio2maggio4io4ria6no6o5tino5zio4scio4tteo3eglio4naci5sional3iceli5hele4nishes8ing8ment5ution8ve4trios7us3orphism3perio3unition4zio2napoli4tale3icola3mukhamed3unzio2ocesan3dati6o3guardi3rio2paola6o4squale3htheria3iazza3lomacy7tic3polito2rectional9less6oral9te8ies8ship9hips8y6v2sabato5ling5uses4dvantage9aged4ffected9ion4greeing8ment9ents4llowance8ing4ppearance9ing6ointed9ting9tment9tments6roval9ing4rmament6ingly4ssemble9led5trously4vowing3believing3cernably7ible4iplining4ography5ncerting6nected9ting9tion6tented7inue9ued5untable6ragement9es9ing5verer9rs8ies9ng8y9\'s4redited9ing6pancies9cy5iminate9ates3embodied8y4nchanted9tment5franchise9chised5gagement8ing5tangle3favoring4igurement8ing3gruntlement9ing3harmony4eartening4onestly9y3illusion9oned5vestro4mone4ncentive9ives5fectant9ants9ion6lation5tegrate9ates7rest9sted5vestment6ited3located8ion9ons5yalty3mantlement8ing4embering9ment3obeying4rderly5ganize9zed5ient3parages8ing6ities8y5ssionate4ensable8ry8tion4irited8ing4laywriter4osable9es6ition9ons9ve4utable7tion3qualified9ies9y5ieting3regarded9ing5spected9tful9ting3satisfied9y4eminate9tes5rtation4imilar5pated8ing9on9ve4ociate5lution4ymmetric9ry3tasio4efano4illation7eries9s\'s9y5nctively9veness6guishes9shing4ressingly5ibuted9ing9ion9ions9ive9or9or\'s9ors4urbances7ingly3unity2tomasso5maso3ullio2uretic8s4nally2vergences5sicare7fied8y7ty4stiture9res3ination5cenzo5itas7ies7y4sible6onal6veness1jukanovic1obrowolski4zynski2cility3udrama4menta8ed8ing2erflinger2gmatically7sm2lorita5osa2magala7ski4nico3enici8\'s7o4stically9te9tes3inated7ing8on5eering6lli9\'s5iak6ca8n9s7i2nadio4pria4telli3dlinger3izetti9\'s3ofrio2pplerganger2razio3elia3mitories8y3othea2simeters2ttavio2ubledecker2vidio2xologies7y1qalpha1raconian3matically7zes8ing6urgy2omedary2uckenmiller3idism1ualism7s6tic5ty2biously2ctility2denhoeffer2kakis\'s7es2lcinea2nkelberger4leberger2odenal6um3poly2plicated8ing9on9ons9ve6itous8y3riest2renberger3flinger2senberry8y6ury2tifully1ynalectric9on4mically7s\'s6sm2sentery3functional3lexia0eagleburger2sygoing1beneezer5zer1chography2kelberry4nfelder2ologist9s6y3nocom5line5mic8s7es7st9\'s9s7ze6os7u6y7\'s3system9s2statically2uadoran3mena1difying3nboro5urgh3torship2rington2ucated6ing7on9\'s9s7ve6or8s2wardian1ffectively9ness6uate4minate4rvescent3icacious7y5iencies9y8tly3ortlessly3rontery3usively1gbertina2gemeyer4nberger2ocentric3ism3tism2regiously1ichelberger5nberger2genvalue9es2kenberry2senberger5hauer6ower9r\'s9rs5menger1jaculate1ksportfinans1laborately9s3stomer9s2dorado8\'s2eanora3ctable5ioneer9ers5oral8te9e\'s9es5rical9ls9r8ian9ans7fied9es8y6ocom8ute7lux8yte9tes7nic9cs7plate7shock8ound8pace9ray3fante3gantly3mental8ry3phantine3uthera3vated6ing7on9s6or8s2gabrowny2iason5sen3cited6ing3gaya4ible3minate9s3nore3sabeth3tism3zabeth9\'s5lde4ondo2lenbecker7rger6ogen3iptical2mootazbell2nozahy2ocution9s3ngated7ion3quently2ucidate3siveness2yria3sia5um1maciate8s3nated6ing7on9s4cipate9es4uel7son3sculate2barkation5rasses9ing9ment9ments3ellishes9ing9ment4zzlement8r9s7ing3lematic3odiment5ying4lism8s3raceable4oiderer9ers9ies9ing9y4yonic2dr2elina5ta3rgencies8y4itus4yville2igrated7ing8on9ns3lia5o3nase4ences6tly3ssaries7y2maline4nuel8le3endorfer2oticon5onal9ly2paneling4thetic3hasizes8ing5tically4ysema3irical7ist3loyable3oria6um4wering7ment2ulated6ing7on6or4sified9s7y1nabler5ing3moring2capsulate3hilada3inias4rclement7ing3omium8s5passes9ing4untering5ragement9s8ing3yclical9ls2dangering8ment3eavoring3odermal4genous4scopic8y4thermic5ronics2ergetic5izer8s7ing2forceable3ranchises2gebretsen9on4lberta5eiter3ineering3lishwoman2igmatic2joyable8y2lightening9ment4vening2ojada3moto3rmity5ously2sminger2tanglement9ents3erprise\'s9es9ing5tainer9er\'s9ers9ing9ment9ment\'s9ments3husiast9ts3irely6ty4tlement9nts6ing3ourages3repreneur9eur\'s9eurs4inger3sminger2umerate9s3nciate2veloping3iable4ously4rodyne6nic9s7ment9nt\'s9nts6pact6safe6test4sages5ioning2zymatic1ohippus2lande1phemeral2icenter4tetus3demic8s5rmal7is4ural3graphic3lepsies7y6tic9s3nephrine3phany3scopal7o4odic4temic3thelial8um4ome6ize9d2onymous6y2polito1quality6zer8s7ing3estrian3itable9\'s8y6tion5icorp4valence9t9ts5ocal8te1radicate3sable2gonomic9s4tism2itrea7n2minia2odible3sional3tica2ratically3oneous2udition1scalante6ted7ing8on7or9s5era5ona4mbia5illa4naba4pism4rcega5eno3obedo4ndido3uchando4dero2kenazi2linger2merelda2ophagus3teric2panola3ectador4ranto9\'s3inola6sa6za4onage4rito7u3n3osito2sentially2tablishes9ing9ment9ment\'s9ments3hetically3imable6ted7ing8on9ns7or9s3onia7n8s3uaries6y1tc3etera3heverry2ernally5ity2helinda4real5ington3ically3nicity4ocentric5graphic5logy3ology2zioni1ucalypti8us2dosia4xia2genia7\'s6o7\'s2phemia7sm9s8tic4oria2rocopter9rs4disney5ollar9rs4fighter9ers6ma4market9ts5issile9les5oney4pean8s5ium4sterling4tunnel9l\'s2sebio3tachian2thanasia9a\'s1vacuate5ee7s3luate8s3nescence9t4geline8st9ts8ze3porate9s2elina3nhanded4tual3ready4ingham7ton4lasting9ngs4ybody9\'d9\'s2idences6tly3ldoer8s4sizer7or3scerate2ocation7ve3lution1xacerbate9es4titude3ggerate9es3miner8\'s8s6ing3sperate2calibur4vated7ing8on9ns7or9s3eedingly4llently5sior4ptional4ssively3hangeable3itable6tion5edly3lamation9ons4udable5sively3oriate3retory3usable2ecrable4uted6ing7on9s7ve9\'s9s6one7r8s3mplary6ified9es8y3rciser9s8s7ing2foliate2halation4ustively3ibited7ing8on9ns7or9s4larate3ortation9ons3umation2igencies7y3stential2ogenous3nerate9s3rbitant4cism8s3thermic2pandable5sionist4triate9es3ectancies9y7tion9ons6orant4dia6ence8t6ted7ing8on9ns9us4ndable6iture9res5sively4rience9ed6ment9t\'s9ts3iration9ns3lainable5nation9ons4icable7tion6itly4oitation9ive5ration9on\'s9ons5sively8os3onential4rtable4sition9ns7o3ressionist9nless4opriate2quisitely2tendable6ible5sively5uate4rior8s5minate9tes5nally3inguisher9hers9hing9hment4rpated8ing3ortionate9ist9ists3radited8ing9on5legal5neous5polate9tes5vagance9nt4emism7ties8y4icable7ted8ing9on4overted2uberance8t3ltantly1yewitnesses0fabiani6o3ricated8ing9on9ons8or9rs5zio7us3ulously2cciola3emire4tiously3iane4litate9es7ies7y8\'s3simile9s3tually3ultative2lconbridge\'s3laciously4opian3otico3sifying3zarano2miliarize9zed3ularo2natical3tasizes8ing6tically6yland2rabundo4one3iello4nacci5ella3quharson3sightedness2sciano5nated8ing9on3hionable9ly3tidious2talism7tic6ties7y3homable2ulkenberry2valoro3orable8y2zenbaker1eatherbedding2b3ruary8\'s2cundity2deralist9ts8ze9ed7ly6ted9\'s7ion9n\'s9ns8ve5ica7i7o2hrenbacher2lgenhauer3icetti5itate7ous7y3latio3onious2minism2nfluramine3oglio3stermacher9ker3yvessy2odora2raluzi3dinanda3mentation3nandina4icola3ociously6ty3raioli5ndino5rio4entino4omagnet5nickel3tility7zer9rs9s8ing2stivities8y2tishism3tuccine2udalism8tic2verishly1ialkowski2beroptic3onacci3rillation2ctionalize9ized2delities7y8\'s3uciares2garoa7\'s3ueiredo5redo6oa4ration8ve2libuster9red9rs4piak6no8s5kowski5ovic6wicz5pelli9o6ini3libuster9ers5ngame3omena3trenelli2nality6zes7ing4ncially3gerpainted7ointing7rinted9nting3kenbinder3occhio2orella7i7o5nza5tti4illo5na6i6o5to4ucci2rebombing4cracker9ers4fighters4houses4lighter9ers4places5roofing2ssionable2ttipaldi3zhenry2umara1labbergasted3gellated4officer9ers3mboyantly4inian2onorial3rentina9o4idabanc6ian9s2uctuated8ing9on9ons3idity3orescently5idation5ocarbon9bons6meter6scopy1nma1ocaccia2liation2ndkommission3tanella6illa2odarama2ppiano2rensically4seeable5hadowing3feitable3gettable4ivable3maldehyde6ism7ties8y7zes8ing4idable9y4ulaic7ry7ted8ing9on9ons3seeable4ythia9s3tenberry4ifier9s6ying4uitous5nately8o2theringham3opoulos2undational1ractionally3gility4mentary9tion3ncavilla5eschini8oni7mary5kowiak4kenberger9rry7heimer4tically3tangelo4ernities9y8zing3udulently2ederica8ka9sen9son8o7ka8sen4iani3emasonry3senius2ighteningly3volity6ously2ugality3itopia3stratingly1ujikawa5ura4mori8\'s6to4oka4sankei6wa4wara4yama2kowoka3umoto4naga4oka4shima4yama2lenwider3gencio4initi3lenwider4ilove2migating8on2nctionally9ries9ry3damental9als3erary3icello2riouser7ly3ukawa2selages2tility3urism7tic0gaboriault3riela7la8i2gliano6rdi8o5one2lactica4pagos4tea3enical5tine4ria7s3iano4cia4lean6o7\'s4oto3lentine5rani6ia4iano4uccio3vanizes8ing2mbardella3etophyte2nglionic2rafalo5ola4mendi9\'s3barini8o3dinier3gantuan3ibaldi3ofalo6no5olo3ritano3zarelli2sparini4erini3tonia4ronomic9y5ulation2udioso2viotas4ria2xiola1eagea2genheimer2lasia4tinous2mfibrozil3ignani2ncarelli3erales7i8st9ts8ze9ed7ly7ship6ted7ing8on9n\'s9ns8ve7or9\'s9s5ically5ously4tically7ist9ts3italia3ocidal4vesi3tility4leladies9y6manly6woman9an\'s9en9en\'s4rifying3uinely7ness2ocentric3desic6y5tic3ffrion3grapher8ic9c\'s8y3logic7st9s6y3metric9s8es7y3rgiades8is7na5opoulos3strophic4yncline3taxis4hermal4ropic2raldina4nium8s4shchenko5imov3emia3iatric9s3mania4inated8ion3onimo3rymander9ered9ers3stenberger7haber3vasio2samtmetall3ualdi2tulio1hadafito3rbonifar2olamreza3rbanifar1iacalone4omelli7tti6ini5nda8\'s6e3lanella3matti4malva6rino3ncana6rlo4francesco4nino3rratano2gliotti2lbertina9e2ndlesperger3occhio2ovanelli7tti6netti7i8\'s8ni7oni4inazzo2rolamo4zentrale2ssendanner2uliani8\'s7o1laciated7ion3diator9s5olus3morizing2oriana5fying5oso6usly2ucosamate8ine1nosticism1obbledygook2etabanken2laszewski3embeski3isano2ndwanaland3ococcal4rrhea3zalez\'s2rdinier3gonian6zola2vernmental6orship9hips1raciano3dualist7ly6ted7ing8on9ns3mmatical9o3ndfathering9erly5iloquent6netti5motherly4ulation6ocyte3phology3tifying4uities7ous7y3vimeter8ric5tated8ing9on3ziani7o2bavica2egarious4oria8n7o3ttenberger2igorovich3smer2onemeyer3ssenbacher2uberova2zesiak3ybowski4winski1uacamole3dalcanal3gliardo3ntanamo9o\'s3ranteeing4dianship6ola4iglia4naccia3temala9\'s9n9ns3yabera2derian2glielmi8o5otta8i5uzza2iliani7o2mucio2rganious2sciora3taveson1varyahu1yllenhammar2mnasia7um9s2rocompass4pilot4scopic0habitable6tion5ual2cienda2gemeier7ster6yer4nlocker3iwara3opian2kuhodo2liburton4meda3lelujah4iburton9on\'s5ciforn4ucinate9tes3ogenate4phytic3tiwanger2mamoto4naka4saki3iltonian3mermeister4urabi2ndelsbanken4icapper9ers9ing3seatic3tavirus2phazardly2rclerode3monia7ca7ous7um7zes8ing3nischfeger9eger\'s3percollins4ootlian3vestable2segawa4nauer3himoto2yashida2zelbaker1ces1eadmistresses3therington3vyhanded2donism7tic2ffelfinger2gelian4monic7y2idelberger3ronimus3tzenrater2ldentenor3icopter9r\'s9rs4otrope3laciously9sness4enism8tic7zes8ing3miniak3otism3vetica2mimorphite4spheric3oglobin4lytic4rrhagic9ing2nrietta2patitis2radia3barium9s4ivorous3culean3edia6ty4tical3itable6ge\'s8s3maphrodite4enio4inia5one4osillo3nandez\'s3oically5sm3ronimo9\'s3tzenleben9ben\'s2sitancy7tly6ted7ing8on9ns2terodox7yne6sis3herington2xagonal1fdf1iaa3leah3watha2bernation6ia8\'s2deaki4ously2erarchical8y4oglyphic9hics2ggenbotham4inbotham9tom3hfalutin3inbotham2laria6o7us6ty2malaya8n8s3melberger2nderliter4uism3ojosa2polito3pocampus6ratic5lytus2rayama3oaki4hito8\'s4masa4shima4yuki2spaniola3tology5rian9s7cal4rionic9cs1ochstedler7tler3kenberry7ury2henberger2kuriku2lewinski3idaysburg3lopeter3ographic2meownership3icidal4letic3ogenize9ed7ous7y4logous4phobic4sporous4zygote8us2neymooner9ers5suckle9les3olulu8\'s4rable8y6ry5ia6fic4urable9y7ry2opingarner2pfensperger2racia6o4tio\'s3iguchi4uchi4zontal3rendously4ifying3ticulture2sakawa3himoto3okawa8\'s3pitable7lize9zed3seini3tetler6tler4ilities8y4utler2urglasses3stonian2vnanian3sepian2wdydoody1sbc1tml2tp1uckelby\'ll4leberry2ffstetler6utler3stedler6tler2llabaloo2manism7tic6ties7y8\'s6zes7ing3idity8\'s4liate9s6ty3orously2ngarian9s1yacintha8ie3nnisport2brienko2derabad3rocarbon9ons5genate9tes6raphic5lysis7zing5meter5philic6onic5sulfide5thermal2grometer2meneal3nology2peractive5baric6ola8e8ic5ion5market9ets5plasia5sonic5tension9ive6onic6rophic9hy3henated8ing9on3notism9\'s7zes3ocrisy4dermic4tension5heken7ses8is9ze9zed4xia2steria7cal9lly0iacocca7\'s4na5o2frate2kovos2nnelli7o4one5tti4ucci5zzi3thina1baraki2eria6\'s6n2uprofen1cenhower4ogle2hikawa2onoclast1dalina2ealism6zed8s7ing4tion3ntical6fied9s7y6kit6ties7y3ologue9s2iderod3ocy4path4tic3tarod2olatrous7y4izes6ing3nia1eee2rardi1garashi2lesia7s2nacio7\'s4siak4towski3ominy4ramus1kenberry1lalis\'s2eana2iano3escu2legally5ible3icitly4terate9es3ogical3uminate9es4sionist9st\'s9sts5ory5trated9ing9ion9ions9ive9or9ors7ious3yrian2opango2yaronoff1magineer6ing3mura2balances3urgia2itable5ted6ing7on9s7ve6or8s2maculate3ediate3igrated8ion4nently4scible3obilize9ed4lated7ing8on4rtalize9zed4vable3ulogic4nities7y6zes7ing4table2partially4ssable6ively5tato4tiently3eachable4ccable9y4diment9ts4rative9es7o5fection9ions9ly5ia7l8\'s6ling6ous5sonal9te9tes5tinent5vious3lacable5ntable8tion5usible9ly4emented9ing4icated8ing9on9ons6itly3olitic4rtantly7tion4sition5sible9e\'s9y4verishes9hing9hment3ractical4egnable8ted9ing9ion5ssionist9nists8vely4imatur5soning8ment4obable9y5perly5vises8ing4udently3ulsively4nity4rities7y4tation1nabinet3ccurate4tivate9es3dequate4vertence9nt3mura3nimate3ttention9ve3udible8y4gural8te9es4spicious2candescent5tation4pable4rcerate9tes5nation9ons3essantly3idences7tal9ls4nerate4pient3lination9ons4usiveness3ognito4herence9t4mpetence9nt9nts4nclusive5gruous5sistent6picuous6tancy5tinence9nt5venience9enced9ent4rporate9tes5rectly5vaia3reasingly5dible9y6ulous5mental9ed4iminate4ustation3ubating8on7or9s4lcated4mbency4rable2debtedness4cency5ision8ve4finite4lible8y6cate4mnified8y7ties8y4ntation4pendence9nt9nts4xation3iaia5na7\'s4cated7ing8on9ns8ve7or9s4fference4genous6stion5nantly7tion6ities8y4rectly4scretion9ions3ochina8ese5trinate4nesia9\'s9n4suez4vina3ubious4lgences4stria9l9l\'s9ls8elle9r8ous7ywide2ebriate9s3dible3ffable5ective5icient3lastic3ptitude3quities7y3xpensive2fallible4nticide9des7no6ryman9en4tuate9s3easible4rences7tial5ior4station9ons3iltrated9ing9ion9or9ors4nitely7i8ve7um7y4rmary6ities8y3lammable8tion5table4exible9y4uences8ing7tial7za3ographic4mercial9al\'s9als4rmally7tic9cs9on9on\'s9ons9ve4tainment3rastructure9ctures4equency9tly3uriate9s2geniously6to5uous3imarson3lorious3oglia3ratiate4edient9ts2habitant9ts7ed7ing4lable6tion3erently5itance7ed7ing7or3ibited7ing8on9ns7or9s2imical3quity3table4ialing8ze9ed7ling8y6te8s7ive9es5o2jectable3udicious4rious4stices2nocenti8ly5ulate9es6ous4minate4vated7ing8on9ns8ve7or9s3uendo8es8s2oculate9s3ffensive3pportune3rdinate4ganic2quiries7ng5sition9ve8or9rs2salaco4nity4tiable3crutable3ecticide9des4minate4nsible7tive3idious4gnia4nuate9s4stently4tuform3oluble5vencies9y4mnia8c4uciance3pectorate4iration9ons3tallation9ions5ntiate9tes4igated8ing9on8or9rs5nctively5tuted8ing9on9on\'s9ons8o4ructional6mental9tals3ubstantial4fficient4lated7ing8on7or9s4rance\'s9s5gencies9y5rection2tangible9es9y3efadeh4grated9d\'s8ing9on9ons8or9rs6elin6ity5ument4llicall8orp7gence9nt5ogic4mperate4nsified9es8y7ties8y7vely5tional4racted8ing9on9ons9ve5cable6eded8ing7pted9ing9ion9ions9or9ors7ssion6hanges6ity6onnect6urrent5dealer6icted9ing9ion5estrate5faces6erence8ing8on9ns6unding5ior8s5jected9ion9ions5leaving7ukin6ocking7per9rs5market8riage9ied9y6edic9cs6ingle9led7ssion9ions7ttent7xing6odal7untain5nalize9zed8ly6ecine5office5polate6reted9er9ers9ing9ive6ublic9ic\'s5racial7nte6egnum7late6ogate6upted9ing9ion9ions5sected9ing9ion9ions7gment6perses6tellar7itial5tidal6ribal6wining5urban5vening8or9rs8tion9ions6iewee9ees9er9ers9ing5weaving6oven4stinal3ifada4macy6ted8ly7ion9ns5idate9es3olerance9t4nation9ns4xicate9es3ractable5mural5nsigence9ent5party5venous4epidly4icacies8y7tely5guingly4oduces8ing8tion9ions5spection9tive5verted4usiveness3uition7ve2undated7ing8on9ns2validate5uable4riance8t3entiveness6oried9es8y9\'s4rtebrate9ates4stable6igate9tes7ture4terate3idious4gorate4ncible4olate4sible9s4tation9ns3ocation1olande5the2mega2narde3ics\'s4zer7s5ing3osphere2rio2vine5o1ppolito1ranamok4ian7s3scible8y2ianese3descent4ium3zarry2onical8ly5zer7s6ing2radiate4tional4waddy3egardless5ular9s4levance9t4spective4verence9t3igated7ion7or9s4table6ted7ing8on9ns1sabella3dore2bn2cariot3hemia2eminger3nhower4tropic2hibashi4hara4kawa5ura4mura2lamabad9\'s5ically6ya4ndia2ogenic3lated6ing7on3medix3sceles3thermal4oner6ic5pic3xicam2ringhouser2suable5nces2tituto1talia6nate2emizer8s7s6ing3ration9s7ve2inerant1vanyenko2orian7s1wamoto3nicki3saki2osaki1zaguirre2vestia0jabaliya3lonowski2cksonian9ns3obean5ina5oski6witz2godzinski2hanian2kubiak5owicz7ski2lalabad4peno8s2mbalaya2nachowski3ikowski4szewski3kowiak3owiak3senism3uary7\'s4szewski2ponica2ramillo3islowsky3oszewski6ynski3uzelski2sinowski3kowiak2worowski2yachandra4shankar1eopardizes9ing2reissati4mia7d7h3oboam3usalem9\'s2sudason2ttisoning2welmaster9ers2yaretnam2ziorski1ingoism7tic2tterbugging1ohannesburg9urg\'s8en8sen2rdanian9s2sefina4phina2urnalism9m\'s9tic2vanovic9h1ubilation2daism7\'s3icially6ously2liana6o4etta2niata3wuxiyan2risdiction9ions5prudence2stifying2xtaposes8ing0kabivitrum2chigian3zorowski2felnikov3fenberger2garlitsky3eyama2halani2juahar2kimoto3umaru2lamazoo4shnikov3eidoscope3iningrad5oski6wski4szewski4voda3lenberger3manovitz3tenbacher2makau7\'s3ikaze2nazawa3emaru8\'s4shiro3iewski3ouse2ohsiung2puscinski2ranicki6tski4oke4sawa3bassioun3elian4nina3iotis3olina7ska3ydakis4rrhexis2sabian3hiwagi5yama3parian2taoka4rina8\'s4shiba4yama3harina3ragadda3suhiko3zenberger2umography3nakakai2waguchi4hara4kami4moto5ura4saki5hima2zakhstana4njian4rian8\'s3uhiko4nori1ellenberger2nealy3nametal4ebunkport3tuckian9ns2plinger2rkorian9\'s3pedjiev3vorkian2shishian2vorkian9\'s1ganakga1hachigian3sbulatov9ov\'s1iesewetter2ghtlinger2kumura2lauea3lilea3ometer9s7re9s2ndergarten9tens9tner9tners4leberger3epolis4sthetic3oshita3zlmaier2plinger2ribati2tagawa4jima4mura2yohida4taka1limaszewski3nefelter1nappenberger2bc2ickerbocker9ckered9ckers3n2owledgeable9ably1obayashi3ylinski2chanowski4endorfer3iemba4olek2dacolor2lakowski4sinski3ojejchick2matani3orowski2ninklijke2ppenhaver3usovic2reagate5town3ologos2sakowski4novich3cielniak3telecky4rzewa8ski2tsonis\'s2vacevic9h4leski3ersada2wabunga4leski6wski5kowski2zakiewicz3ikowski1pmg1rawccykiewi2editanstalt2ikorian3stofferson2olikowski3nenberger2yptonian2zyzanowski1ubisiak2chenbecker2lakowski3igowski4kowski2magai2ramoto4nari3iansky4hara4yama3okawa4sawa2tuzovsky2wahara1wiatkowski0l\'espalier1abarbera3ianca8\'s3oratoires8ries9y9y\'s5ious4ssiere3riola3yrinthine2ceration9ns3ivita3kawanna3oursiere4vara2ferriere3reniere2gattuta3uardia2kshamanan9an\'s2liberte2macchia4rtina4ttina3biase4orghini9ni\'s9nis3endola5table3inated7ing4rande3onica2ncastrian4eolate3denberger3genderfer3zelotti2paglia3d4\'s3iana4dary2reina3ijani4viere3yngeal6itis6oscope2scivious3ersonic9cs2terally3iolais3onia3tanzio3ulippe2udatory4enslager4icina3ricella3tenschlager4zenheiser2vatories7y3ecchia4rdiere6ure3iolette2wrencium2zzarini1eatherberry8ury2galism7tic6ties7y6zing3endary4rdemain3ionaries4slated8ing9on9on\'s9ve8or9rs8ure9re\'s9res4timate7ize9ed2henbauer2ibensperger2mercier9\'s2ninism2ominster3nardo4idas4ora3poldina9e7o2sbianism2tellier3hality3itia4zia3terkenny2ucadia8\'s3enberger3kemia2vamisole4ndoski7wski4rio3endusky5hagen4rone3iathan4tated7ing8on5ican7us2wandoski7wski2xiphonic1iberace6lize9ed7ly6ted7i8ng8on7o8r9s5ia7\'s7n8s3rarian9s2cavoli3htenberger7walner9lter2ghtheadedness2liana3lehamer9r\'s8mer9er\'s4iana5putian2mitation9ns3nology2nafelter3denberger3eages5rly4barger4nberger3gafelter4enfelter4uistically3kenhoker3oleum2onberger4etti3tier2poprotein9ins4suction2quefaction4idated8ing9on9ons8or9rs6ities8y2steria2teracy6lly6ry6ti7ure3hographic9hy5tripter3igated7ing8on9ns7or9s3urgical3zenberger2vidity2zarraga1oaiza2bianco3otomy2cadia4lities7y4scio4telli3icero3omotion8ve9es7or2garithm9ic9s3istical9lly3ographic4thetis2iacano5ono2monaco2ndonderry3ganecker4evity4obardi5ria2piccolo2renzana6etti6ini2schiavo2udenslager3tzenhiser2vastatin3ecchio1ubavitcher9er\'s9ers3ricated8ing9on6ity2carelli3iano4dity3odendrum2dicrously3ology3wigshafen2etkemeyer3vano2gubrious2kasiewicz5zewski4vica6zta2minaries7y5escence9nt5oso3pectomies9y2pinacci2xottica9\'s3uriant6ous1ymphoblastic2onnais\'s2ricism2sistrata0macallister5uso4rena5oni3cabean5quano3edonian3fadyen3hination9ons6ea7ries8y6ima5velli3intosh\'s9es4olek3kiewicz4owiak3namara3rodantin5phages5vision3umolo8\'s2dagascar4lena3dalena4eningly3elena4moiselle3husudan3onia2ekawa2garian4ziner9\'s3dalena8o3ellanic3ically3liano5occo6lo6ne3nanimous4esium5tism4ificent7er9s6ying5togorsk2halia4raja8\'s8hs6shtra4vira4yana3ogany2inichi3orana7o5ino2jolica4rdomo5ities7y8\'s2karewicz2lacanang5howski4djusted4gasy4mugi4nowski4ria7l4spina4testa5hion3donado3efactor9rs4volent3fitano4ormation9ions4unctioning3iciously4gnancies9y4noski6wski4szewski4zia3leable4oseismic3nutrition3osovich2maroneck3malian4ography2nageable3churia4inelli3darino5tory4ibular4racchia4ujano3euvering9ngs3ganaro6ello4iapane4osuthu3iacal6i5tis4curist4fested8ing8ly8o4pulate9es4scalco6hewitz4toba6woc3narino4erism9s3occhio4ogian3tione3ually4facture9red9res4mission3zanares6illa4ione2rabella4dona8\'s7na9\'s4lina7e4schino4villa3celia7no6lina9e9o4hesani9o5ione4iano5lio5niak6kowski4kesano3gareta8he8ten6ita9s4eotes4inalize9zed8ly3iachi5na7s6i6na6o4copa4etta8\'s4juana4mbalax4naro6ted7ing5elli8o5kovich5ucci4otta7i4posa4ucci5sa3karian4etable6maker9ers6place\'s9ces4ovian3molejo3sicano5glia4upial9s3tellini4inez\'s6ovich5rosov4orana8o6elli4urano3ubeni4landa4yama3velously3yalice2saaki4hiko6ro4kazu4milla4yoshi5uki3carena9s4iarelli3erati3hantucket3iello3ochism8tic3querading3sachusetts9setts6ring4imino9\'s5ngale4mutual3tandrea4ectomies9y5rbated9ing9ion6fully6minded9ding6pieces4oiditis4rangelo5ianni8o5ocola6ianni6nardi6pietro4urbated9ing9ion2tagorda4moros4razzo5ese3erial8s6el8s5nity3hematic9cs4iasen7on3riarchal9y5culate9tes5mony3subara5kawa5moto6ura5naga5oka5shita9a\'s5ura3tikalli5oli3uration5ities7y4siak5zewski2uricio5ello5tius5zio3soleum2xillary4mizes7ing2yoralty2zankowski3urkiewicz5owski3zaferro5rella4iotti4orana1cadory3fferty3leese\'s4ister4lester5ister3nally5ny4elly4nally4ulty3vinchey5ty2cafferty4lister5lister4rthyite3lafferty5nahan5ugherty4enaghan7han7than3ollister4naghy6ha8y7y6thy6ughey9y5ico5naughey4rkindale5quodale2elderry5owney4haney7non7y5eney7y5iney7ney8y4ligott4murray8y4ravy3naney6y4erney6y3villy2fadyen2galliard4rity5rigle7ty3ettigan3illivray5very4nnity3lamery3onagle5igal7le3ranahan4egory2ilhenny3nerney7y2krinkowski2lafferty4nahan2manama8n7on6way5igal3enamin7y5emy5namin3onagle5igle3urtrie2namara8\'s1eandering4ingfully3surable9y2chanical9lly8sburg7sm9s8tic2daglia3iamark5news5set5ted6ing7on6or8s4cated7ing8on9ns5inal4ocre4tating8on9ns8ve2gacarrier9ers4houses4merger9rs2hanovitch3etabel3itabel9le3lenbacher3rabian2inertzhagen3senheimer2lancholic9y5esian9ns5oma4ragno4tonin9\'s9s3chiorre6zedek3ikian3konian3odious5rama9s2morable8y6nda8um9ms5ial8s6zes7ing2nacingly4gerie4pace4sion8\'s3dacity4icino5ola4ocino5lia3ingitis3opausal4tomy3struation3tality4holatum3zione2rcadante5ntilist4edeses5naries8y4handiser9sers9sing4ifully5lessly4urial7o3endino3icopa4dian8\'s6en4weather6ther3riweather7ther2scalero3enchymal5teric4role3merism7zing3odermal4lithic4thorax4zoic3seghero4ianic5neo2tabolic8te9es8ze4carpal9ls4llica9\'s6urgy5worker9ers9ing4morphic9ose5ucil9\'s4physics4stases8is9ze9zed7tic4thorax3eoric7te3hodical7sm9s5trexate4uselah3iculous4vier3lakatla3olachlor4nomy3rically4ocolor5plexes6oli9s2varach\'s8s2xicali6na7o8s2yerowitz2zzaluna1icanopy3cosukee3haelina5lowski4eletti6ina8i6otti4ihiro3kelberry3osukee3robial5circuit9uits6limate9ates6osm6redit5fossil9ils5grafx8phic9hics5liter9rs5manage9ged6eter9rs5nesia5polis5scopic9y6emi6ystems5tubule9les5waving2dafternoon3century4ontinent3denstandsbank4lebury3westerner9ners4ifery2erzejewski2gliore3nanelli3ratory2kolajczak9yk2lanowski3denberger3iliter4tancy7tly6ries8sts8ze9ed7y8\'s5ello5iamen3lennia9l8um9ms4iliter9rs8re9es5meter9rs8re9es5second9nds3osevic9h3tenberger3unovich2meograph2namide3ebea4ola4ralize5vini4strone3iature9s8ize9zed4buses4cucci4malist7ly5izes7ing4series5tership6ration9ions3nesota9\'s9n9ns5tonka3orities7y4xidil3utia7e2rabella8i5ito4culous4glia4max\'s5ontes3onenko2sadventure9ures4llocate9tes4pplying3begotten5having9or3calculate9ates5rriages5yuna9\'s4ellany4onceiving8ption9tions6struing4reation9ons3demeanor9ors4iagnose9sed5rected3enheimer4rable9s8y6tion3government3hawaka3iaszek4mpression4nforming5terpret9rets3labeling4eadingly3management9s8ing3ogynist9ts7y3perception9tions4ronounces9ncing3recognize9ized5member9ered5ported6resent9ents3sildine5onaries9y5ssauga7ippi9pi\'s9pis4ourian9ns3takenly3understand9tands9tood4raca2tamura3igated7ing8on3sotakis4ubishi9i\'s5koshi2xology2yagawa4hara4mori6to4saki6to5hiro4zaki6wa8\'s1oawiya2bilia6ty6zer9s7ing2chizuki3zygemba2dalism6ties7y4rressi3erated8ly7ing8on7or9s5nism7ty7zes8ing4stine3ifier8s5ying3ulated7ion7or3zelewski2gadishu9\'s4varo5ero2hamadi3tashemi2isturizer2ldavia8n4enhauer3ecular7on4station3inari7o5elli3lenhauer4ycoddle3ybdenum2mentary3okawa8\'s2nacelli5hino4steries8y4tomic3dadori3etarist9ts7y5izing4ycenter5maker9rs8ing5penny3golia8n5sutu9\'s3itoring3ocarpic5linic6onal4gamous7y4lingual6thic4nokai4phonic5olies8st8ze9ed7y4tonous7y4valent3rovia3strosity3tagnino5lbano5nari8o5zeri4eagudo5bello5calvo5dison9n\'s5forte6usco5jano5longo5mayor6urro5negran9o9o\'s5rosso5sano6ino6sori5verde5zuma4icello4morency4pelier9r\'s4realer9r\'s9rs3umental2oradian2rabito4lism7tic6ty6zing4vian3bidity3genthaler3iarty4hiro8\'s4kawa4llono4moto4oka4shita3phology6nios3tality4ellaro4ification4uary3uhiro8\'s2saical3kolenko2therfucker9ker\'s9kers9king3ility4vated7ing8on9ns7or3ohashi4nori4rcycle9es5ola8\'s3soaledi2untaineering3radian2viegoer9s7ing5maker9rs8ing2zambican9ns4rtean3zarella1uavenet2ddleheaded2ffoletto2gavero2habara2jahadeen5edeen5ideen2khopadhyay2lanaphy3tibillion5center6olor9red5ethnic5facet5layer9red6evel6ingual5market6illion5party6layer7exer9ers7ier7ying6urpose5racial5story5tasking5user5vision2mmifying2nicipal9s2rakami4matsu5oto4naga4oka4tore4yama8\'s3ihuro8\'s2sacchio3carella9o4ulature3icianship4dora3olino3solini9\'s3tachio9ed3umeci2tilated7ing8on9ns3ually1ycenaean3ology2opia3trophin2sterious7um4icism5fying2thology0naccarato3ional3lerio3ogdoches2gasaki3ymaros2ivete2jarian3ibullah9h\'s2kagawa4hara4jima4moto5ura4nishi4shima5one8\'s4tani4yama2lbandian2mibia7\'s7n2nobaby4meter9s4second9ds2pierala3oleon8\'s5itan2rasimha9n4yanan4zaki3cissism9tic4olepsy3diello3ragansett3uhito2scimento3hashibi3ional3opharynx2thalia5nia3ionale9s8ist9sts9ze9zed8ly4vidad6sm6ty3uralist9ts8ze9ed7ly2useated7ing3tilus\'s2vigable6ted7ing8on7or9s2zarbayev5ian6o1eanderthal9als3rsightedness2bulizer2cessary6itate9tes8ies8y3rologist9sts8y5mancer9y5polis2derlanden9er9sche9se2farious2gatively3ligently6ible3otiable7te9s3ropalpus2hemiah2idlinger2jamatin2lliana2oclassic3lithic3natal5zi7s3plasm4olis3tenic6y2phridium3otism3tunium2storian2tanyahu9\'s3herlandic2uenschwander3gebauer3rologic9st9sts8y5morphic5pathy5science6urgeon9eons3tralism8ty8zes9ing5ogena2varach\'s3ertheless2wsmagazine9ines4paperman9men3tonian1icaragua9\'s9n9ns3holas\'s3laneshia9ia\'s3odemo4lai7sen5etta8i5ina7e7i5osi4sia4tera2ederhauser6meier8yer2fedipine2geria7\'s7n8s3gardliness2hilism2kolaivich2nagawa2obium2ppondenso2shikawa5moto6ura5oka5yama5zawa2trogenous5samines6omine9nes2ziolek1obatoshi3elium3ility3lewoman3uaki4yuki2menclature3inally6ted7ing8on9ns2naccrual8ing4ggression3believer9ers3callable4halantly4ombatant9ants6mercial7ittal7unist9ists6pliance5nformist9mists4riminal3durable9es3entity4ssential4xclusive5istent3financial3government3linear3management3nemacher4uclear3pacifist9sts5rtisan4erforming4oisonous4rescription5oductive3qualified3recurring5ligious5sident9nts6ponsive6tricted3sensical4pecific4trategic4urgical3taxable4echnical3unionized3violence9t4olatile2riega7\'s7s4matsu4nchukin3mality7zes8ing3theasterly9erner9erners5westerly2stradamus2testine3iceable9y4fying3orious3withstanding2vakovich6wski4metrix3elistic3osibirsk2wakowski1ucleation5oli6nic9s6tide9es2gatory2llifying2merator9s5ica8l9ly3idia4smatic9cs9st9sts2namaker3ziata7o2rseryman8en2tritional9ist9ists1vidia1ypd0o\'bradovich4enovich2callaghan7han2doherty4noghue6hue6van4ugherty2flaherty2hallaron6oran8on4nesian5ian2mahoney7y3elveny2shaughnessy3ullivan1badiah3macare2edience7t3lia3rhausen5elman5oltzer4lander4meier6yer5iller3sity2fuscation2jectively2ligated7ing8on9ns5ingly4nger4terate9es4vion7us2radovich3enovich2scenely6ities8y4urity3equious4rvable9es7nces7teur8ion9ons4ssional7vely3hchestvennom3idian3olescence9nt3tetrical9ian9ians4inacy4reperous5uctionist9onists2tainable2uchowski2viated6ing4ously1callaghan6han3sio2casional3hipinti3idental9l\'s9le9le\'s4pital3upancy6tion9ns5ier8s5ying4rrences2eana5eering5going5ia6c2hsenschlager2tagonal4hedral8on4via6o6us1delia5nda2ilia3orne2oherty3meter8s3noghue5hue5van2ysseus1ecd1felia2fensively3iceholder9ders5ialdom8ly7te9s6o3shorable2ilia2laherty1gnibene1halloran3nesian4ian2bayashi2ioan6s2kawara1kaloosa3moto4ura3saki3zaki2eechobee2imoto3nawa7ns2lahoma8\'s8n9s2umura3rowski1lajuwon8\'s2eander6rin4ster3jniczak3ksiak2factory2igarchy4ocene3vares7z4eira5ra7s6i6o7s5to6ti8\'s4ia6\'s5er7i2okuei7\'s2ympia7\'s7d8s7n8s7s1mahoney6y2elia2inously2nibuses4potence9t5resence9nt4vorous2ohundro3nia1nassis\'s2cogenes4logist9ts7y2ofrio3mastic9s3ndaga3rato2tario7\'s3iveros3ogeny4logy1pacity3lina2erable5ndi5ted6ic7ng7on9\'s9s7ve9s6or8\'s8s4etta8s2hthalmoscope2inionate2linger2penheimer9er\'s9ers3ortunist9sts4sition9n\'s9ns3robrium2timism7tic6zing3ometric9st9sts8y1ralia3ngina5utan9\'s9s3tory2chestrally9ted9ting9tion9tions2derliness3inances6ries7y6tion2egano3lia4lana3skovich2ganically6sm8\'s8ic8s6zer9s8s7ing2iana3ental8s6ed3fices3gami4inal8s7te9s3noco3ola2namental8ed2ogenic4raphic3peza2phanages2tenzio3hodontic9ics9ist9ist\'s9ists7xy5gonal6raphy5pedic9st9sts3olano2wellian2zechowski1sakowa7\'s2ceola3illated8ing9on9ons8or9rs6oscope9opes2eguera2haughnessy2orio2tankino3ensible9y5tation9ous4rmeier7yer6iller3inato3politik3racism2ullivan1therworldly3ilia2ologies6y3mobil1uagadougou2rada2tdistances9cing3maneuver9ered9ers3numbering3okumpu3performance9mer9mers9ming3rageously9sness3spokenness4tandingly1varian2eracker6ted7ive5rching4bearing5illing5ooking5uilding6rden9ned4charges9ing5locking5oming6oking5rowded9ing4damping5oing6ses7ing5rafting4eager6ting5xcite9es6pose9ed6tend9ds4fishing5lowing6ying5unded8ing4grazing6owing4hanging6uling5earing7ted8ing5olser7tzer4killing4lapping5everage9aged5oaded8ing6oking5ying4myer4nighter9ers4passes6ying7ment9nts5laying5ower9ed9ing9s5rices8ing6oduce9ced7tect4rated7ing5eaches9ing8t9s5idden7ing5uling6nning4seeing7r8s6lling5hadow9wed9ws6ooting5izes7ing5pending5tated9ment9ments8ing6epping5ubscribe9ribed6pplied9y4taken7ing5hrowing5raining5urning4uses6ing4value9d4weighted5helming5inter5orking5riting8ten4zealous2iedo3parous2ulation9s1wensboro1xidation7ve4izer6ing2ydative3genate3moron3tocin0pachysandra3ifica8re7o8rp6er8s6sm2derewski3manabhan3ovano3uano2ganelli5ini6sm3ination3liaro5uca8\'s3urian2instakingly2kistani9s2lacio7s4dino4table4zina5zola8o3eocene3imony3ladino7um4iative9es3matier4erino4ieri5nteri5sano4stierna3omares5eta5ino6ta4nius3pitated8ing9on9ons2melina2nacea4sonic3creatic3epinto3iagua3opolys4rama7ic3taleo4heistic3zarella4hihua2olella5tti4illo5ni6o4ucci3nessa2padakis4leo5ia4ndrea8ou5ia4razzi9\'s9s5ella4zian3erazzi5making5worker9ers3illoma3padio5lardo2rabola7ic4chuted8ing4diso5owski6xes4guayan4legal9s5leling5ympic6sis6tic6zes7ing4medic9s6ter9s7ric4noia8c6rmal4phrasing5legic4sitic4tore5rooper9ers4zoa3entheses9is3iagua4bas\'s4etal4shioner9ers5ians6enne3mentier3ochial3rinello3simony5ppany4onages3thenia4icipant9nts9te9tes8le9es6ular9rs9te9tes5sanship5tioning3ziale2sadena3cagoula5rella9i3quarella9li9lo5inelli3safiume5lacqua5nisi6tino5rella9i7tti4ionately5vity3teurizes9ing4oralize6ino7us2talano3entable4rnity6ostro3hogenic5logic9es9st9sts8y3riarca8hal9ate9y5celli6io5monial8y5otic5zio4onizes8ing6ymic2varotti9\'s3lovian2wlikowski1ecksniffian3oraro3uliarly2dagogy3estrian9ns3iatric9s3ophilia9ac9acs9c2inado2jorative2lagia7n8s5reeny3ekunu8\'s3issier3lecchia5grini9o5rito4icano2nalizes7ing5oza3elope4trated8ing9on8or9rs3icillin9ns4nsula9r3nacchio4ebaker4sylvania9nia\'s4ypacker3ology3sacola3tamidine4ecostal4imento3ultimate4rious2oria6\'s2pperoni2ragine4ino3centages5ptible7ual4ipient4olated8ing8or9rs4ussionist3emptory4nnial9s4stroika3fectionist9nists4orated8ing9on9ons6mances8tive9ives4unctory3ilously4meter9s4neural4odic4pheral9ls8y4shable9es3manente9ly4eable6ted7ing5nante4issible8veness4utated8ing9on9ons3niciaro3onism3petrated9ing9or9or\'s9ors6ua8l9s8te9es4lexity3ricone5ello3secuted8ing9on9ons8or9rs5polis5verance8ing4istently4onable9y7link9ze9zed8ly6ified9es8y4picacious6ration4uadable6sively9eness3tamina4inently4urbation9ions3ugia6na7i4vian8s3vasiveness4ersity3zigian2satori4vento3catore3simism8tic2taluma3erborough3itioner9rs8ing3raglia5lia4ocelli5dollar9ars5fina5leos7um9\'s6ia6ogy5nella6ia7lla7o5poulos5sino6ynthese4uccelli6elli5zzelli3tinato3unia7s2yrelevade1fiesteria1haraonic4macia2enolphthalein5mena9l8on5typic4ylthaline2ilanderer9ers9ing6thropic9opies9opist9opists9opy5telic9st8y4harmonic9nic\'s4ippino7oussis5stia4odendron5mela7na5sopher9ers9ic9ies9y2lcorp2onetically4ology3sphorescence3tocopied9es8y5genic6rapher9her\'s9hers9hic9hing9hy5meter5shopping5taxis2ylogeny3sically3toplankton1iacente3secki4io3tkowski3zzolla2ccadilly4iano5nini5rilli9o3kelsimer4lesimer3torial2eraccini3trangelo5uski2ggybacking3mentation3nataro6elli2lgrimages2natubo3gitore3nochio9\'s3occhio2oneering4tkowski3rkowski3trowski2randello3estani2scataway4itelli9o3tachio9s4orio2tiable4fully3senbarger2zzeria8s4imenti5tola4olato1lagiarism5oclase3narian4etary3sminogen5odia8um4ticizer2easurable8ma3omorphic9ism3uritides2isetskaya2uralism8tic7ty7zes8ing3tonian7um1neumocystis1ocahontas4tello2diatrist2etical8ly2ffenbarger7erger2gorzelski2insettia9as2kazukha2lakowski4riscope6ty6zer8s7ing3emical7ist4vanov3icastro5ewoman9en4dori7o4froni4meni4tano5buro9\'s5ical7ian9n\'s9ns8ze9ed7king7o8s3linated8ion6ia4yanna8ish3onium7s3sinelli3yamide5ndrous8y4carpic4ester9s4gamous7y5onal5ynous7y4hedron9ns4marker9rs5erase7ize9ed5orphic9ism4nesia9n4phonic8y4styrene4technic5ropic4vinyl2megranate3icino3odoro4graphy4logy3pilio4onio5sity2nderosa9\'s3tarelli4ifical9te9tes2parelli3olare3ularize9ed7ly6ted7ing8on9ns5ism2rnographer9hers9hic9hy3phyritic3tanova4erages4folio9\'s9s4inadi2savina3itioning6vely3sessiveness3tdoctoral4eraro6ity4humously4ipankki4modernism4traumatic4ulated3uvalyuk2tassium3baryoskin3entially2udrier2veromo2werhouses5lessness5pc7s1racticable6tioner9ners3etorian3gmatism2earranges9ing3biotic3cambrian5ncerous5rious4ipitate8ous4linical4onception9tions6dition9ions3datory4ecessor9or\'s9ors5termine9ined4icament9nts7ted8ing6table9ly5lection9ions5sposing4ominance9nt9te9tes3election4minence9t5ptively4xisted8ing3fabricate4ectural5rable9y6ences8tial3historic4oliday3ignition3judices8ial9ng3madasa5rital5turely4editate4onition9ons3occupied9es8y3paration9ons6edness4osterous3recorded5quisite9ites4ogative9ves3sario4entable8tion9ions5rvation9ive9ives4idencies9y9y\'s8tial9ial\'s6io7um4surizes9ing4umably6ptuous5pposes3toria8\'s3varicate9tes4entable8tive9ives4iously3ziosi7o2imarily5vera4erica9\'s4iano4ordial3ncipato7ia3orities8ze9ed7y3vatizing4itera2oactively3bationer9ers4enecid4lematic3caccini5rdia5ssini4edural5ssional4lamation9ions5ivities9y4opio5rdia4rastinate9nates5eated8ing9on4tologist6rsilex6scopy3digiously4uctively3fanation6ity4essional9nals7orship9ships4iciency5table9y6eering6taking4ligacy3genitor5sterone4nosticate9cates4rammable9tic5essively3hibited8ing9on9on\'s9ons9ve3liferate9tes6ically5nea3metheus7ium4inences8tly5ssory4otional4ulgated9ing3paganda9ist9ists9ize7ted8ing9on4ensities9y4hylactic4ionic4ortional9nate5sition9oned9ons4rietor9r\'s9rs8y3secuted8ing9on9on\'s9ons8or9r\'s9rs5lytize9zed5rpina4pectively8uses6rity4taglandin9ndins5itution3tagonist9sts4ectionist9nists8vely7orate5inaceous5station9ions4otyping5zoa8n9s4uberance3vencio6ience6zano5rbial4idence\'s8tial6ian5ncially5sional9ing4ocation9ons9ve3ximity2ucapital2zybyla7ski4wara1sarouthakis2eudomonas6science2ilocybin2oriasis2ychedelic5iatric9ist9ist\'s9ists9y5obabble6genic6logist9ists9y6pathic9hy6social1tolemaic2sd1ublication9on\'s9ons6ity7zing2cciarelli5nelli2ffenbarger2gilism7tic3liese2lmonary3vermacher2milia3pernickel2nctilious5uated8ing9on3ishable6ingly3xatauney4sutawney2rgatory3icelli4fier8s5ying3olator9\'s3portedly5sefully2sateri3syfooted9ing3tejovsky2zzlemaster1yramidal3otechnic9ics2thagoras8us0quadrennial5iplegic5upling3lifier9s6ying5tative3ntifying6tative3rantining4tararo5erbacking7master3simodo3ternary2esenberry4inberry4tionable2inobequin4tanilla5essential3senberry0rabbinical3inovich8tz6witz2canelli3hmaninoff3ialism3keteering2dakovich3emacher4rmacher3ially5ted6ing7on9\'s6or8s4calize9ed4oman3osevich2ffaele7li4ensperger3sanjani2gonese3unathan2jaratnam2kovica2maphosa4swami2ncidity4orousness3ieri2panelli3haela5lian3idity3pahannock3topoulos5rial3uano2tatisement9ents3ifying4onalize9zed8ly3tatouille2violi4shankar2walpindi1eactivate3djusted8ing8ment9ents4mission6tted3ffirming3ganism6omics3ligning7ment9nts5sation9ons6es6tic5ties6y5zation9ons6es6ing4locate6wance4politik3nalyze9d3ppearance5ointed9ment5raisal3rmament4rangement8ing5ested3sonable9y6over4semble9ed9y6rted8ing9on6ssing8ment5igning8ment9ents5urance7ing3uthorize9zed3waken8ed2balancing2calcitrance9ant6ulate4ntation4pturing3eivable9es6ership9hips4ptacle9es6ionist9ists4rtified8y3hargeable3idivist9ts4pient9\'s9s5rocal9nt9nts9te9tes4tation9ns8ves3lamation5ssified9y3ognises8ing7tion9on\'s7zance8es8ing4llected9ing9ion9ions4mbinant5mended9ing6ited8ted4nciling5dition9oned5figure9red5naissance6ected9ing6oiter9re5sider9red6titute7ructed9cting9ction9ctions9ctive4rdable6keeping4veries8ng7y\'s3reated7ing8on4iminate3tangular4ifier9s6ying3uperate9es7o3yclable9es6ing2decorate4dicate4emable4fining4nius4ploying8ment9ents4signing4velop3iffusion4rected8ing9on4scover9red9ry5tribute8cting3linger3oglia4ubling6table3ucible4ndancies9y2educate3lected7ing8on3mergence4phasize5loyment3nacted7ment9nts4gineer4tering3stablish9shed3xamine9d2ferences8ing7da8um9ms3inances8ing9ngs5eries7y8\'s5ishing3lexively3ocuses7ing4rmation6ulate3ractories9y4eshingly4igerant9nts9te3ueling4gio4ndable4rbishing9ment4tation2galado3enerate7on5steiner3imental8ed4onalize9zed8ly4stering6ration9ions3retfully6table9ly3ularly6ted7ing8on9ns8ve7or9\'s9s4rgitate2hydration2ichelderfer6nberger3gnited7ing3mbursement9ments9s8ing4posing3ncarnate4forcement9ments9s8ing4spection9ions5tated9ment8ing6itute5urance7er9s4tegrate6rpret5roduce9ced4vented8ing9on6sted8ing8ment5ited3senauer4suing3tano4era7te9s2jectionist9ists3iggering3uvenate9es2kenthaler2lational8ship9hips6vely4xation3egated7ing4ntlessly4vancy3iable7y5nce\'s4gionist7usly4nquishes9hing3oadable4cated7ing8on9ns3uctantly2markable9y6eted8ing5rying3edial7te5ying4mbering6rances4rchandise9dised3igio4niscence9nt9s8ing4ttances3linger3odeling4vable3unerate2naissance\'s3ewable3ominate4vated7ing8on9ns7or9s3teria3unciate2occupy3ffended6ring3pening3rdering4ganize9ed4ient2packages8ing4irable4ration9ns4triate4yable3eatable6edly4rcussion9ions5fusion5tory4tition9ns9us8ve3laceable4enishing9ment4icated8ing9on8or9rs3ortable6edly4sition9ned5session9ions3resented9ing4imanded4ocessing5duces8ing8tion9ions9ive5gramming8phic9hics3ublica9n9n\'s9ns8bank9ank\'s7ka4diate9s4rchases9ing4table6tion9ns5edly2qualify4iring5sition9oned2regulate2scheduling9ings3ealable4mblances7ing4rvation9ons4ttable6lement3huffling3idences8ies8y7tial5ual8s4gnation9ons4lience9y4stiveness3olutely7ion9n\'s9ns4nated7ing4undingly5rcefulness3pectable9ly7fully7ively4iration8or9rs6onic9cs4onsible9ly8veness3taino5urateur9eurs4itution4oration9ons9ve4rictiveness5ucturing9rings3ubmitted9ing4rfacing5gency5rected9ing9ion4scitate3veratrol2taliate4rdation5geter9rs8ing3irement3ractable5nsmission4ibution4oactive5cession5fitted9er9ing5spective5virus3urnable2unified6y5ted6ing3sable2valuing3elation9ns4nuer8s4rberate9tes5ential8ly5sible3iglio4sionist9sts6ted7ing4talize9ed4valist3ocable6tion9ns4lution9n\'s9ns2wiring1hapsodizes2eology3torical9lly8ian9ans3umatism2inoceros5plasties9ty2ododendron1ibavirin2cadonna3ciardelli5telli4obono3hardsonsmith3kenbaker3ocheting2diculing7ous2edlinger3menschneider2gatoni3idities7y3oletto4rously2nkenberger2opelle2pplinger2senhoover3torante9es2ttenberry9ry\'s6house\'s5reiser9er\'s3zenthaler2viello5ra1obinia4tussin3ustelli9i\'s2ccaforte3kabilly5fellow4efeller9er\'s9ers2ddenberry3eheaver4nberger5ticide4rica3riguez\'s2gelio4rnomics3ozinski2llerblading6coaster2magnoli8o4nelli8o5ia7\'s7n8s5oski6wski5ticize9zed2ndinelli4onia2salia6nda4ria7\'s6o3enberger8ry5garten5treter5wasser3tenkowski9ski\'s4ovondon4ropovich2tational3enberry3henberger4lisberger3isserie3otiller8ing1svp1ubalcaba7va2geroni3gerio4irello2kavina2mania7n3inated7ion9ns2otolo2ssolillo5manno2tabaga8s2valcaba1yanodine0sabatine7i7o6sta9\'s9s4udia3batical9ls3otaging3unuma2ccoccio5manno3ramental9o9o\'s4ifices8ial9ng5legious2hagian2itama2kaguchi4moto3igake3urai2ladino4fia4manca7der9rs4rymen4tino3inas\'s5ity4vated7ing4zzoni3monella3omone3petriere3tarelli3utary3vadoran9ns8e5geable6gio5tierra6ore8i2maniego4ria6tan9s3martino3udio4ela6son2nabria3ctimony5uaries8y3dinista9as3filippo3giovese4uinetti3itary6tion5izing3tagata5ngelo5relli6siero5yana4eria4iago5esteban5stevan4opietro5relli5suosso2porito2rabia4ceni7o5ino4fian6na4jevan9\'s9s7o8\'s4sota4toga4via3castically4ophagus3dinia4oodledom3ejevo8\'s3owiwa3torial7us2sayama3katchewan3safras\'s4ounguesso2tanism3iated4ety4rical6zes7ing4sfaction9ions9ory6ying3riani3urated7ing8on2usalito2vagery4rese5ino4stano3iano2xophonist1caglione3lamandre4eatron3rpinatto3tology4tergories9ry2enario8s2harffenberger3ellenberger4nectady9dy\'s3iavone8i4zophrenic3warzenegger9egger\'s2iaroni3bilia3cchitano3entific9c\'s9cs3ntilore3ortino3pione2leroderma2opolamine3zzafava2rupulously4tinizes9ing1easonable7lly2bastiane6opol2cessionist9ists3ondaries8y3retaries8y9\'s6iveness3tarian3ularist9ts8zed4rities8ze9ed7y8\'s2dentary3uctively2gmentation3ovia3regated8ing9on2igniorage3smologist9ists9y2kisui2lectively4nium3inas\'s3vaggio2midrying4final9s7ish9hed4nara7ies7y4otic8s4precious4tism5railer3olina2natore3egalese3ility4ority3sational4enbrenner4itively9ness4ormatic3timental2parated8ly8ness7ing8on9ns8st9ts7or9s3ultura9\'s5vado6eda2quentially5stering7ration2rafina7e7i7o4phina8e4tonin3enaded7ing5ely5geti5ity3ialize9d4ously7ness3ologist7y4tonin3ratore4itella3viceable7master5dio5lity2stanovich2thuraman2vastopol3entieth4rini7o6ty5ovic2xually1hahinian3kespearean4unaga3llenberger3winigan2ellabarger5enbarger8erger3nandoah6igan9ns3vardnadze9dze\'s2igekuni3mokawa3ndledecker4gledecker3onogi3raishi3verdecker2oichiro3llenberger3rtsightedness3stakovich1iberia7n3ilia2cilian3onolfi2donia2ebenaler3genthaler3rracin2gnatories8y4ificance9nt6ying4orelli2lbernagel3houetted3iconix3vadio8\'s4erado6ia7o2milarly4one3onelli6tta8i5ian3plicity6fying3ulated7ing8on9ns7or9s2ncerity3fonia3gletary7erry4ularly3ibaldi4scalchi3opoli3usoidal2racusa7e4gusa3ianni4gnano2tiveni3uated6ion9\'s9s1kenderian3ptically7ism2ulduggery2yrocketed9ing1laughterhouses3vonia2ovakia8\'s8n4enia8n6liness4onia1mithsonian9an\'s1nellenberger1obieski3kowiak3ocinski4leski6wski3riety2cialism8tic7zing4eta7l6e6ies6y7\'s4opath9s2domizer8s7ing2koloski6wski2lemnity3icited7ing7or9s8us7ude4dified9s7y6ty4loquize8y4mine4tary3lenberger3orio5zano3tysiak3zhenitsyn2malia7\'s7s6land4togen3ersaulting2phisticate9ates4omoric4ronia2riano3orities7y2tolongo4mayor2vetskaya4xportfilm1padaccini5fora3gnuolo3mpinato3racino7o3smodically3tafora3ziani2ecializes9ing5fically6ying4tacular5ravision6ometer9try7scopy4ulated8ing9on9ons9ve8or9rs3echifying4dometer3ziale2iritedness6ual9s2ontaneous3radically1rebrenica9a\'s2inivasan3vastava1tability7zer9rs9s8ing3chowiak3ggeringly4liano3linism8tic3ndardizing4islawski6zewski4zione3rodubstev3tesmanlike4hopoulos4ionary7ery5stical9ian9ians4uary5tory3vinoha4ropoulos2efanelli6iak6owicz4fenhagen7smeier3gosaurus3nographer9hic3panakert6ian9\'s4hania3reolab6type9ed9es4ility7zer9rs9s8ing3vedoring3wardesses2iefelhagen3gmatism8zing3keleather3mulated8ing9on9ve8or9rs3panovich4ulated8ing9on9ons2ockbrokerage3icism3lichnaya3nebraker5cypher3ryteller9ers9ing3ttlemyer2raightforwardly4ngulation9tions4tegical9ally8zing5igraphic5ocaster6spheric3enuously4ptococcus7kinase3ibling3ucturally3zelecki2udebaker4iously3ltifying3pidity2ylistically1ubandrio4ssemblies9ly4tomic3commander9der\'s9ders7ittee9tee\'s9tees5nsciously6tinent9ents7racted9cting9ctor9ctors3divided7sion9ons3families8y3jugated3liminal4uxation9ons3marines\'s4ersible4inimum3ordinate9tes3poenaing4rincipal9pals3saharan4equently5rvience9nt4idizes8ing4tantially9ate9ates9vely5ituted9ing9ion9ions3urbanite9tes9ze6ia3volcanic2ccessfully7ively2fficiency9tly4ocated8ing9on2ggestible8veness3ihara4moto4yama2icidal2kiyaki2lawesi3furophane3lenberger2matoma7o3eria3itomo8\'s3magraphic9hics5rily7zes8ing2ndermeyer2percenter9ers5family6icial6reighter9ghters5giant9ts5heated7ro9es6ighway9ways6uman5impose9sed6or8\'s8s5lative9ves5market9et\'s9ets7ssive6odel9ls5nova5oxide5power9rs5saver6ecret7ded8ing6onic9cs6tation7ition9ions9ious7ructure9ctures5tanker9ers5valu9e6ises8ing9on8or9r\'s9rs6oting5woman8en3plemental9ted9ting4ortable5sedly6ition9ons3remacist9sts8y6ely4isingly2rgically3iano3prisingly3realism9m\'s9ms9tic5buttal5ndering5ptitious4ogacy7tion3veymonkey4ivable7list9sts2sceptible3piciously3quehanna9na\'s3tainable2zuana1waminathan3rtzendruber8truber2iatkowski1ycophantic2lvania2mbiosis6tic4olism7zes8ing3metrical9ally3pathetic7izer9ers9es9ing4osium9s4tomatic2nbiotics3chronizes9zing4opated8ion3dicated8ing9on9ons8or9rs3ergetic6ism8tic3onymous3thesizer9ers9ing6tically2pniewski2stematic9cs6house\'s6ically1zczepaniak2ymanowski0tabernacle3ulated7ing8on9ns7ure2ctically2flinger2gliaferri2hmassebi2jikistan9n\'s2kahashi4nashi4sago5hima4yama3emoto5ura4shima7ta9\'s4tomi4uchi3ushoku2lamantes9z4rico4vera3erico3ladega5hassee9ee\'s5rico4erico2manaha4shiro3burello6rino3iami3oxifen2ngentially3iguchi4moto5ura3talizes8ing3zania8\'s8n2ormina2rantino6ula9s4vella3quinio3taglia2smania8n3sinari2tiana3sukichi2vernier2xidermist9sts8y3onomies7y1bilisi1cas1ebuthiuron2chnically7olor5ocratic6logic9ies9ist9ists9y9y\'s2diously2etotaler2ffeteller2herani8\'s8s2lecable5ommute6nference7nect5rafter6edit5tronic9ics4desic4fonos5unken4genic4macho6rket6tic9s5etry5undo4pathic8y5honic9cs9ng9ques8y7to5icture9res5rompter4science6opic5is\'s5trator5ystem4visa8\'s7ing8on9n\'s9ns7on3lurium3omerase3ustrator2mecula4rity3peramental5stuous4orally7ries8y6izing2naciously6ty4glia3nessean9ns3orio3tatively2odoro2radata4sawa3esita3iyaki3minable7lly7ted8ing9on9ons8or3racotta5nova4ebonne5strial4ifically6ying5tories8y9\'s4orism8tic7zes8ing3williger2sobono8s4riero3selated4itore3ticular5fying5monies8y4osterone2trahedral9on5merous5valent3tamanti2xarkana1halidomide9de\'s3tcherism2eatergoer9ers5rical3lonius3matically3ocracy7tic4dora7ou4logians7y4phila4rizes7ing3rafectin5peutic9ics4mometer9ers6plastic9stics6setting2ingamabob3rtysomething2omasina8e2reateningly3ombolysis9tic2undershower9owers1iananmen2beria6o2cketmaster9ter\'s2jerina2midity3othea3urian2najero2pperary2ramisu2tanium3illated8ing9on3leholder3terington1lateloco1obiason2getherness2kenism3unaga4yama2lentino4rable6nces6ted7ing8on2maino4selli8o6tti5ina7e7i7o5setti5ulo5zewski4tino8\'s3iichi3ographic9y2nalities7y4wanda3egawa2palian3iary3ographic9y4logy2quepala2ribio4ente3nabene5tore3onado3pedoing3regrossa5nzano4icelli3siello3torella9i9o6ici2scanini9\'s3hiharu6iko5mitsu5yuki2tality2xicity1racheophyte9ytes3ditional9alists3ficante5llio9\'s3gicomic3jectory3montana9o3nquility9zer9zers9zing8lity4safrica6laska6tlantic5canada9da\'s7pital6endental5ferable8rable6ormation9ations9ative5itional9ning7ory5media6ittable5national5ohio5pacific7rencies9ncy9ntly6iring6lantation6ortable9ation9ation\'s5sexual9als3vaglini4iata5sano2emendously4ulously3pagnier5nier4idation3uhandanstalt2iangular3bulation9ons5taries8y3carico4eratops3ennial3glyceride9ides3lateral3metrexate3ncomalee3umphantly5virate3vialize9ed2nopolje2oiano3janowski3picana9\'s3ublemaker9kers7shooter9ooting2upiano3stworthiness2zeciak1shisekedi2ukamoto1ubbercurry2cciarone2minello3minello3ultuous2rbidity4ocharges9ging3kmenistan3rentine2scaloosa9a\'s2torial8s2zzolino1wentysomething9ethings1ypography4logies7y2rannical3rhenian0ubiquitous7y1dagawa1ehara2mura2nohara1golini1krainian9\'s9s2ulele1laanbaatar3towski2ceration9ns2iano3barri2terior3imately7um9s3ramodern5sonic6ystem9ems1mbilical1nabated4omber9\'s9s7ing9gs3ccounted5ustomed3djusted3ffected3llocate3mended4ortized3nimous3ppealing3ssisted5uming3ttended5ractive3udited4thentic6orized3vailing2bearable9y5table4coming4lieving3reakable3uildable2cannily3ertainly9ties9ty3ivilized3lassified9y3ollected4mmitted6only5pensate6leted7icate4nnected5sciously9usness5tested5verted6incing4rrected4vering3ritical2decided9s4feated4livered4rbelly5carriage6lassmen6ounted7ver6urrent9ents7tting5employ9oyed5finance9nced6unded9ing5garment9ents6oing5handed5insure9red5lining6ying5mining5nourish9ished5paying8ment9ents6erform9ormed6inning9ings6ower9red6ricing8vileged5rated6eport5scoring6elling6tanding9dings8ted9ement9ing7ory7udy6ubscribed5taken9r8ing9ngs5value9ed9es5water6eighted6ithheld9hold6riter9er\'s9ers9ing9ings9ten4serving4tected6rmined4veloped3iagnosed4gnified4luted4minished4sciplined6overed5puted5tinguished4vided3oubtedly3ulated7ing2easily6ness3dited3lected3mployment3ncumber9red4lightened3thical9ly3venly6tful3xciting4ercised4pected5ired5loded7ited2failingly4miliar3easible3lappable5ttering3orgiven8ing5tunate9tes3unnily2glamorous2happily7ness3eralded2ibancorp3center4ycle8s3formly4ying3gesco3lever8\'s3magined5tion4peded5ortant5ressive3ndicted4fected4spired8ing4tended6rested9ting4vited7ing3onism6zing3royal3sys\'s3tary4edbank4holder9rs3vation4ersal9\'s7es4isa6ion2justified2knowable6ingly2lawfully3imited4vable2merciful3olested2natural2obstructed4trusive3ccupied3fficial3rganized4thodox2paralleled4yable3leasantly9tness3opular3ressurized5tentious4incipled6table4oductive5mising5tected3ublicized2qualified4estioning2ratified4veling3eachable5dable5listic7zed5sonable4ceptive5ognized6nciled6rded4futed4gistered4imbursed4lated5enting4mitted8ing4pentant5orted4quited4sponsive5tricted2salable5eable4tisfied4vory3crupulous3ettling3hakable6eable3inkable3olvable3peakable5cified4ortsmanlike3toppable3ubsidized4ccessful4itable4pervised5ported4rprising4spected9ing2tenable4rreiner3hinkable7ingly3ouchable9les3raceable4eatable4ustworthy3ypical2usable4ual2verified2warranted4vering3ieldiness4llingly9ness4nnable4ttingly3orkable1pdegrove2holstery2linger1ranium2baniak5owicz4szewski2dangarin2emia2iarte3nary5ting3oste2okinase3logist9s6y2uguayan1sairways2bancorp2da2mc2oniam2sr2ually3rpation1tamaro2ilicorp5ties6y7\'s5zes6ing2opia6n7s6s2terances1yehara1zbekistan0vaapenfabrikk2cationer9rs8ing3carella4inated8ion9ons6ia3illated8ing9on3utainer2lderrama5shari4ivia4ovinos3encia8\'s7enne5suela9a\'s5tina8i8o9\'s5zano6uela4ria7n6o3idated7ing8on5ity3kyrie3ladares5ndingham5rio4egrande3paraiso3uation9s4evision2nacore4dium3benschoten4iesbrouck4laricom3comycin3dalism7zing4enheuvel5rheiden8yden6kooi6leest7inden6meulen7olen6sluis6velden6zanden5vander6ender8ter5walker7ter4ivier3houten3landingham6ingham3uaaku5tu3valkenburg9burgh3wagenen6oner2riable8s7y5nces5tion9s4egated5tals6ies6y4ously4tronic5yper3nadore3ricchio3tanian2sconcellos9os3ectomies8y3siliou1ecchione3ellio2getation8ve2hemently3icular2lagrande9e\'s4yati3iotis3ocities7y2nacuro4lity3erable6ted7ing8on5eal4zia5uela9\'s9n9ns3tilated8ing9on8or4ricular4urella6ian7ni8o2racity3balizing3derosa3ifying4table8y3nacular4onia3onica3sicherung9ungs2stibular5gial3uvius2terinary1ialpando3tical2brational2cario7us3encio3inity4ssitude9des3timizing4oria8\'s8n9s8s7ne8o7ous2deodisk9s5game5phone5tape9d9s6ex8t6ron3onia2etnamese2ggiano3ilante9s5ia3lione6tti3orito5ously2llafana8e6ranca6uerte5gomez6rana5lobos7vos6pando5nova9n6ueva5real5sana6enor5verde3oria2nciguerra3dicated8ion8or6tiveness3icio2olable5nte5ted6ing7on9s6or8s4ently5ta6ta4inist9s2ramontes5une8s3gilio5nity3ility3ologist9ts7y3tually5oso3ulently2scerally4osity3enteno3ionaries8y4tation9ns3ualizing2tality3iello4ligo3riolic4uvius3toria7o2viana6i6o4parous2zcaino1ladivostok1ocalizes4tional3iferate9es7ous2gelgesang2lcanically3entine3kogonov3lenweider3picella3uminous4ntary6eering4ptuous2racity2yeurism8tic1ranesevic2dolyak1ulgarity3nerable3taggio0wachovia5wiak2gnerian2ligora3kowiak3lpapering2namaker3namaker4emacher2rmongering2sielewski4lewski3silievitch2tanabe3erbottle9les6ury5color9rs5house\'s5ishness5melon9ns5proofing3lington3tenbarger2wrzyniak1eatherington7person2demeyer2isenberger7urger2reldhave3tenberger2solowski3tenberger5rmeyer4faelisches4inghouse\'s4phalia2therington1hatsoever2eelabrator2istleblower9owers2oleheartedly3msoever3soever1iatrowski2bbenmeyer2comico2ederaufbau3nerschnitzel9nitzel\'s2lhelmina5mina3lamina2nebarger5renner4gardner3iarski3nebago9\'s3terhalter2reless\'s4tapping2senbaker3niewski2therington3tenauer6myer3watersrand1lodarczyk6ski1ojciechowski3narowski4ilower2lfenbarger4inbarger3itarsky3lenweber2manizer7ing2nderfully9ness3ksahachee2rkaholic9cs1rzesinski1s0xenophobic0yakutakay2magata5uchi4ichi8\'s4moto4naka5ouchi4saki5hiro7ta4take4uchi8\'s4zaki2nkelovich3omami2ssukovich3uhiko6ro4nori4taka4yoshi1evtushenko1glesias1lvisaker1okohama4kohji4yama2miuri2neyama2semite3hiaki5hara7shi6iro9\'s7sa5kawa7zu5moto6ura5oka1psilanti1zaguirre0zaborowski2carias3cagnini9o5ria3hariah8s2irian7\'s7s2karian3rzewski2marello5ripa3orano3udio2namivir3iewski2patista9\'s9s2ragoza2slavskaya2wistowski1edekiah2ffirelli2laputon2nobia2ttlemoyer1hirinovsky9ky\'s1ifferero2mbabwean2olkowski3nism2rconium9s1oological7st9s6y1ubillaga2ccarelli2idema2luaga1wiefelhofer',
+    5: '0abbatiello3reviated9ing9ion9ions2errational2normalities9ty2ohalima3litionist9ists3minable7tion9ons3riginal8e9s4tifacient9ients3uhalima9a\'s2racadabra4hamian2senteeism3olutism1cademia7cally8ian9ans2celerated9ing9ion9or9ors4ntuated9ing3identally3ommodated9ting9tion9tions9tive5panying3reditation9tions3umulated9ing9ion9ions9ive9or9ors4satory2etylcholine2iduria2knowledgeable2rimonious2tinidia3uality5rial1dditionally2enovirus2judicated9ing9ion2ministering8rating9ation9ation\'s9ations9ative9ator9ator\'s9ators3onitory2uliadae4terated9ion2venturism4rsarial5torial9als1erodynamic9ics4genosa4lineas4mexico9o\'s4nautical9cas4spatiale9ale\'s1fanasyev2fectionately3iliated9d\'s8ing9on9ons4rmatively2icionado9os2rikanerdom2terimages1gglomeration3ressivity2onizingly3stinelli2ricultural4genetics3ochemical9cals2uascalientes3inaga1hasuerus1irconditioner9ioning1jinomoto1lbendazole2coholism2eatory3ssandrini3xandria4opoulos2gebraically3orithmic2ienated7ing8on3mentary3slamiyya3talia8\'s2kalinity2legiances5orical4viated8ing9on3iteration9ive2phabetical9cally9zes9zing5numeric2tamirano3ernatively3imorano2uminio1makudari3lfitano4gamated9ed\'s9ing9ion3ryllises3teurism3zonia8n9s2bassadorship9rships3iguities8y3rosiano3ulatory2eliorated9ion3ricana9\'s9s8ize9zed8o9s6ium5data5ndian2ortization3xicillin2phitheater9ters9tre3lification9tions2yotrophic1nachronism9sms9stic4ostia9\'s3lytical9lly5zable3maria3phylaxis3stasio3tolia8n5mical9lly2ecdotally3mometer3ncephalic9ly3stachio2fal2giomedic9cs5plasty5tensin2imosities8y2napolis\'s3ihilated9ing9ion4versaries9ry3unziata9o2onymity6ously3rexia2tagonism9ms9tic8zing3eriormost3hropocentric8genic8logist9ogists9ogy8morphic3iabortion4ballistic5iotic9cs4cipated9ing9ion9ions5limactic5ommunist6rruption4depressant9ssants4government4histamine9mines4oxidant9nts4personnel5overty4reformer9mers4submarine4takeover5hetical3onopoulos1paricio2hrodisiac2ocalyptic3litical4linian5onian4ogetic6ises8ing7zes8ing3stolopoul3thecary6osis2palachia4ratuses3endectomies9omy6icitis3reciated9ing9ion9ive4opriated9tely9teness9ting9tion9tions9tor9tors5ximated9tely9ting9tion9tions1rbitrarily9ness2chaeologist9gists9gy4eology4ipelago5tectural2encibia2gentinian9ans3umentation9tive3yropoulos2ianism3stocracy9tic6phanes2kadelphia2riortua2ticulated9ing9ion4ficially4odactyl9yls2unachalam1sphyxiated9ing2sassinated9ting9tion9tions3emblywoman3imilated9ing9ion3ociated8ing9on9on\'s9ons2tigmatism3onishingly3rological5nautical6omical9cally5physicist2ymmetrical4ptomatic1thanassiou2tanasio3enuated8ion3itudinal3ributable1udiotronic9ics4torium9ms2gustinian9ans6yniak2thenticated9ating9ation9ations9ity4oritative7zation9tions3olatina4matically5obili6viles4nomously4pacific1xiomatic1zerbaijani9nis0babylonian9ns2ccalaureate3igalupi9o2dalamenti2gdasarian2lkanization2ncoklahoma5rporation3kamerica9ca\'s2rtolomei9o2sophilia2tticaloa5paglia1eethovenian2haviorally2neficially4volences3goechea2rardinelli1iagioni2bliographic9phies9phy2centenary8nial2directional2laterally3ingualism2ochemical8stry3engineer9ered3flavonoid9oids3graphical3logical9lly9ls3medical9ls3ndolillo3pharmacy3sciences4pherian9ans4tatistics4ynthesis3technica9ca\'s2partisanship1mw1oguslavskaya2llapragada4ettieri2naventura3ifacio2phuthatswana2tanically2ugainvillea1radycardia3ggadocio2obdingnagian9agians2utalization1uchananism2ttacavoli1yelorussia0cadiddlehopper2feteria9s2ledonia9n9n\'s3tabiano5girone2maraderie3popiano2nariensis3cerphobia3delaria9o3nibalism9zing3onization2pabilities9y3italism9m\'s9tic8zes9ing5ulated9ion3obianco2rboniferous3cinogenic3diologist9ists9y3icaturist3olingian7ian9ns4tenuto3thaginian4usciello2ssiopeia3telluccio4iglione2tacosinos4lanotto3egorical9ally8zes9ing3holicism2uterization2vataio1elebratory2ntenarian9ans4ralization2phalosporin2remonial3tification9tions3veceria1haracteristic9istics9izes9izing2emotherapy2iaoscurist9o4ramonte2ocolatology3lestyramine3reographer9pher\'s9phers9phic9phing9phy2ristianity9ity\'s9ization3omatography4nological9ically1iaramitaro2rcularizing7tory5mnavigate6stantially3igliano2vilization9ions1ladification3rification9tions3ssifiable8cation9ations3ustrophobia2imatologist9gists1nnfn1oagulating9on3rticulate9ates3stamerica9ica\'s2dification2generated9ion9or9ors3lianese2habitation3entannoudji2incidences9tal2lantonio3laborated9ting9tion9tions9tive9tor9tors5teralize9lized4ectivism3onialist9sts6zation4ratura5ization2micopia3memorated9ting9tion9tions5nsurately6tariat5rcialism9lizing4iserating4onalities9ty6sensical4unicable9ted9ting9tion9tion\'s9tions9tive9tor9tors7tywide7zation3paratively6tmentalize9ntalized5ssionately4ensatory5titively9veness4limentary4ositional4rehensible9sively4utational6erizing8vision2ncatenated9ting9tion4eptualizes9lly5ssionary4iliation9or9or\'s4omitantly3ditionally4ominium9ums4uctivity3fabulation4ectionaries9nary9nery5deracy9cy\'s9tion4identially5guration9tions5ndustria5rmatory5scatory5terias4ormational4rontational4ucianism3glomeration4ratulated9ating9ation9ations5egational6ssionally3igliaro3nectivity4otational3scientiously4ecutively5rvationist9ionists9ism9ively9ories9orship9ory4iderable9bly9tion9tions4olidated9ted\'s9ting9tion9tions9tor9tors4picuously4tabulary6ntinides9nople5ituencies9ncy8tional9ionist9ionists5rucciones4umerism3taminated9ting9tion4emporaries9ary4inentally6ually8nces8tion7ity7ously4ractionary8ually6dictory6punctual5ibutory5oladora3ventionally5rsational2operated8ing9on9ons9ve9vely3rdinated9ing9ion9or9ors2pacabana3yrightable2rigliano3neliuson4ucopia3poracion7tism3respondingly4oborated9ting9tion9tive3ticosteroid9eroids2smetology4opolitan2unterattacking7balances9lancing7challenges8ultural7offensive9fensives7productive9oposal9oposals7terrorist9rrorists2varrubias1reationism6vity5ologist9ists3dibility5tworthiness3matoria9um2iminalistics9ty9zing6ologist9gists9gy3ticality2ystallographer9graphy1ulpability3turalism2mulatively2ratorial3iosities8y2stomarily6izable1yclicality0d\'alessandrini2electricite1eactivated2benedetto7ictis3ilitated9ing2caffeinated9ating9ation4pitated9ion9ions3elerated9ing9ion4ntralizing3isionmaker9aking3laratory3ommissioning5position4ntaminate3riminalize5stofaro2dominicis2emphasizing2famatory3enestration3ibrillator9ators4nitively3lationary3orestation2gaetano3eneracy8ted9ing9ion9ive3irolamo3regorio2humanizing5idified9ies9y2ification2lawarian9ns3eonardis4terious3iberated9ely9ing9ion9ions9ive4catessen9sens4neated8ing9on4verable3lavecchia3rosario2magoguery3ilitarize9ized3obilizes9ing4cratica9cally9zes9zing4dulated9ion4graphically4nization4ralizing2nationalize9lized3ominated9ion9ion\'s9ions9or3sitometer3uclearized4nciation9ions2oliveira3ntology2partmentalize9talized3ersonalize3ilatory3opulation4sitary7ional7ory3reciated9ing9ion9ions5ssurizes9izing2regulated9ing9ion9or9ors3matologist9gists9gy3ogatory2salination4ntiago3egregated9tion4nsitizing3iderata7io3moplasia3tabilizing2teriorate9tes5minable9tion9tion\'s9tions9tive8edly8ism9stic3oxication2valuated8ion9ons4statingly3elopable7mental2xfenfluramine3trathoraphan1fw1iabolical3critical3gonally4rammatic3lectical3magnetic3ntonio3phonia3strophism2benedetto3iasio2ctatorial2domenico2fferentiate9iates2geronimo3irolamo3regorio3uglielmo2lapidated3eonardo3ophosaurus2mercurio3itrius\'s2notopia2onisio4ysian7us2plomatically2rectorial2sabatino5ilities9y4dvantageous9ages4greeable4llowances4ppearances6ointingly4ssociate3ciplinary4oloration9tions5mbobulate9ulates5ntentedly9tedness7inuance9uing5verable4retionary5iminated9ating9ation9ative3embarkation4nfranchisement4stablishment3honorable3illusioning9onment4nclination5formation5genuous5tegrated9ating9ation3obedience9nt4riented9ing3paragingly5ssionately4roportionate3qualifying3reputable3satisfaction4eminated9ting9tion4ociation3tinguishable4ributorship9orships2versifying7onary5ticula9lum7mento3irgilio1ocumentaries9ry9tion2meniconi4sticated9ting9tion8ity3inicana1ramatization9tions2omomania1urability1wi1yloptisaurus2namometer0eccentricities9ity3lesiastic2havarria3evarria5erria3inacea3olocation2ological9lly3nometric9ics6ical9lly8o7zes8ing2uadorean7ian3menical1dification3torial9\'s9s3zione2ucational1gomaniac3tistical2yptology1jaculation1katerina1laborated8ing9on3sticity2ectioneering5rically8ite9ty7fying6ocuted9tion9tions7lysis9tic7magnet9gnets8edics7plating7static3onore2iminated8ing9on9ons3opoulos3zabethan9town2mootazbellah2ucidated8ive1maciated7ing3ncipated9ing9ion9ions4uele3sculated2barcadero5rassingly3ryology2pirically7ism2ulsifier7ying1ncapsulated9ting4rnacion3ephalitis3yclopedic9dist2dometrial4thelial5ronics\'s2ergetically2teritidis6vidous5ococcus6logy3husiasm9ms9tic3omologist9ists9y3repreneurship2umerated8ion3nciated8ing2vironmental1picurean3genetic4rammatic3stolary3tomizes1qualization4nimity4torial3iangular4libria9um4valency5ocating9ion1radicable7ted8ing9on2gonomically2idania2oticism2roneously2ythropoietin1skandarian2ophageal1tablissements2hiopia8\'s8n9s3nocentrism2iologies7y2ymology1uphemistically2rocommercial4debenture9tures6posit9its4mobiliare9iare\'s1vacuated7ing8on9ns3luated7ing8on9ns3ngelical9als8sm9ta9tic3porated8ing9on8or2enhandedly4tually2iscerated1xacerbated9ing9ion9ions3ggerated9ing9ion9ions3mination9ons3sperated9ing9ion2ceptionally3lusionary7vity3ommunicate4riated8ing9on3ruciating3ulpatory2ecutioner9er\'s9ers3mplifying3rcisable2foliation2hibitionist9nists4larated9ing9ion2onerated8ing9on3skeleton2pansionary9ism4triation3ediency6tiously4riences9ing8tial6mental9ted9ter9ters9ting3iratory3lanatory4oratory7vision3onentially3ressionism9nistic8vity4opriated9tion9tions2tenuating4rminated9ting9tion9tor9tors3racellular5galactic5marital5neously5ordinaire5polated9ting9tion5sensory5vagantly9nza9nzas6esated0facilitated9ing9ion9or9or\'s9ors3tionalism2llibility3sification2miglietti4liarity2natically7ism2voritism1easibility2deccredito4ralism8zing2liciano9\'s2mininity2odorovich2rrofluidic9dics5magnetic3tilization1iduciaries8y2guratively2libustering2nanciera9o3landization3meccanica3occhiaro2oravanti4entino1lammability2exibility1ondiaria2rmalization3tification9tions2ssiliferous1unctionality3damentalist9alists9ally0gametangia3sakhurdia2natieuganauf2rabedian4giola4vaglia2sification4orowski3trovascular1enealogy4medicine4ralities9y8zing6tional5osity4tization3iality3ossenschaftsbank3trification2ochemistry3graphical3logical3magnetic4etrical9ally3physical4olitic9cs3tropism2riatrician9ians3ontologist9gy3rymandering1iannattasio2ovanniello1lobalization3rification1olembiewski2niometer2tterdammerung2vernmentally1radualism3ningeverken9erken\'s3tification4uitously3vitational9onally2zeskowiak1uadalajara5rrama2glielmetti2llibility2natilake1ynecologic9ist9ists9y0haberdashery3itually2giography2lamandaris3lucinated9ting9tion9tions3ogenated2noverian2rmoniously7zation1ealthamerica2lionetic9cs5polis2matology3iplegia3ocyanin4dynamic9ics4philia9ac9acs2oroico2rcegovina9na\'s3editary3maphroditic4etically3zegovina9na\'s2terocercal6doxy6geneous6sporous6trophic6zygous2xachlorophene1ilariously2ppopotamus2rabayashi3osakima2storically1omeopathic9y5stasis8tic3ogeneous4phobia4sapien9ns5exual9ls2noraria8um9ms2oliganism2rizontally3ticultural9urist2spitality1umidifier9rs4liated8ing9on9ons1yacinthia3kutake3luronic2bridization2drocephalic9alus6ortisone5electric5genated9ting9tion5therapy2perborean5chromatic6ritical5inflation5kinetic5opia5sensitive3ochondria9riac5ritical4glycemic4thalamic9mus6ermia7tical9cally9cals2sterectomies9omy0iacobelli9s5ucci4velli2nnaccone6one5mico4iello2varone1conoclasm9tic5graphy1dealistic3ntifier9rs7ying3ologies8st9ts7y4nomy2iomatic4pathic4tically2rocarburi1gnominious1llegalities9y5itimate3iquidity4teracy3uminated9ing9ion9or4sionary8ism1maginable7ry7tion9ons9ve6eering2maculately4terial5urity3easurable9bly4diacy7tely4morial3obility8zing4rality5tality9zes9zing3unization9ions5ologist9y6medic9ics2penetrable4rceptible9ibly5iale8ist9sts5missible5sonated9ting9tion9tor9tors3lementation9ations3onderable9bles3racticable4esario6sionable9nism9nistic4oprieties9ty5visation9tions1nability3ccessible5uracies9y8tely4tivated9ion7ity3dequacies9y8tely4missible9bly4vertently5isable3lienable3pplicable5ropriate3rticulate3ugurated9ing9ion9ions2calculable4ntatory4pacitate9y4rcerated9ting9tion3endiary3identally4nerated9ing9ion9or9ors4vility3oherently4mparable9bly7tible6etency9ntly6ressible4nceivable6lusively5gruity8ously5sequential6istencies9ency5veniences4rporated9ted\'s9ting9tion9tion\'s9tions5rigible3redulity5mentalism9ally4iminating9tion2decisiveness4feasible6nsible5inable7itely4licato4mnifying4pendence\'s9ntly4scribable5tructible4terminate3ianian9s6ola4genously4scriminate5pensable9ible6utable9bly4vidual9l\'s9ls6sible3octrinated9ation4mitable4nesians3ubiously4striale9li9list9lists9lize9lized9lly8vaerden2ebriated8ing3ffectiveness8ual5iciencies9ncy9ntly3ligible4uctible3qualities9y5itable3scapable9ly3vitable9y3xcusable9ly4haustible4orable9y4pensively6rience9nced5licable9bly4tricable9bly2fatuated8ing9on3ertility3idelities9y3lammatory5tionary3ormality7tional3rastructural3uriated8ing2genuity3ratiating2habitation3eritable3ibitory3ospitable3umanity2imitable3tiated7ing8on7or9s2noculated9ing9ion3umerable2ocencio4ulated8ion9ons3perable7tive3rdinately2sectivorous5urities9y4mination4parable9ly3ignificance9cant4nuated8ing9on9ons3pirational3tabilities9ty5ntaneous7iated9ting9tion4itutional4rumentalist9talists9tation3ubordinate5stantiate4fferable6iciency9ently4larity4pportable4rmountable2tellectual9uals6igently8ible9bly4nsifying5tionally4racciones6gency5capital6ellular6hangeable9geably6ollegiate7mpany7nnected9ection9ections6ultural5dependence9ndent6igital5estingly5locutor9tors5magnetic9etics6edia9ate9ates6inable9bly8gling7ttently5nacional7tional9onal\'s9onals8onal5operate9ates5personal6olated9tion9tions6retation9ations7ovincial5related6ogated9ting9tion9tions9tor9tors6uptible5scholastic5ventionist9ionists3imidated9ing9ion3olerable9ly4xicated9ing9ion3racellular6ompany6ranial5marginal5ocular5specific5uterine5venously4epidity4insically4oductory3uitively2validated9ing9ion4riable9y3estigated9ting9tion9tions9tive9tor9tor\'s9tors7mento7ssements3igorated9ing4olable4tational3oluntary3ulnerable1onization3ospheric1phegenia3iginia1rimajiri2radiated8ion4tionally3edentism4futable4gularly4levancy4parable9ly5laceable5ressible4sistible9bly5ponsible9ibly4trievably4versible9bly5ocable9ly1slamization2ocyanate3lationist9ists3medix\'s4orphism3prinosine1taliana7o2ineraries8y1uliano1zetbegovic0janitorial2panimation1effersonian9ians1udiciary2risdictional5prudential2stifiable9ly7cation9tions5niano2xtaposition9tions0kamehameha9a\'s2rtasasmita2shiwahara9ra\'s1eratoconus6tomy1ilimanjaro1leptomaniac1olodziejski2nishiroku2rzeniewski1remlinologist9ogists1umaratunga5isami2rumizowa9a\'s1wh0laboriously2ckadaisical4sadaiscious3tobacillus2gomarsino3roceria2paroscopic9py2ryngoscopic9opy2titudinal2uretarian1egalization3ibility4slatively4timacy8tely7izes9ing2xicographer9phers1iabilities8y2beralism9m\'s8ty8zes9ing6tore5tarian9ans2thuania9\'s9n9ns1ocalization2gophilia2llapalooza9ozas2ngitudinal2uisiana9\'s1usitania9\'s9s0macadamia3edonia9\'s9ns3hiavelli9li\'s5vellian3romedia2gisterial3netically7zation6ometer9ters4ification9tions8ently2habharata2jestically2nagerial3euverable3ganiello4iaracina3ifestation9tions4pulated9ing9ion9ions9ive9or9ors3ufacturer9rer\'s9rers9ring9ring\'s2quiladora9ras2rcantonio3ginalizes9zing3ielito9s4naccio2sculinity3trogiovanni2terialist9ze9zed8ly3hematical9cian9cians3riculated9ting5lineal5monial2uritania2ximilian6zation2zowiecki1calexander2carthyism2gillicuddy1echanization2dicinally4obanca5crity2galopolis2lodramatic2morabilia5ialize9zed2rcantilism3icantante4tocracy6rious2tabolism9ms4llgesellschaft9ellschaft\'s6urgical4morphasis9osis4phorical9cally6ysical3hamphetamine4odically6ologies9gy3iculously3romedia5politain9tan9tan\'s9tans5sexual2zhdumarodnom1ichelangelo9elo\'s9elos3robreweries9ery5centrifuge6omputer9uters5genesys5management9ges9ging5processor9essors5scopically5wavable2damerica2gliaccio2litarily8sm9tic3osevic\'s2neralogist9y3ichiello5omputer9ters4malism4sterial3neapolis2raculously2sallocated9ting9tion4pplication6rehension7opriate9riates3calculated9ation9ations4ellaneous4haracterize9terized4ibility4ommunicate3diagnoses9sis3identified9fies9fy4nformation5terpreted9reting3recognition9izes9izing5presented9enting3sissippian9pians3understanding9tandings2tochondria9rial9rion3teleuropa1obilization9ions2dernization3ification9ions4gliani4liani2mentarily3igliano2nasticism3etarily8sm3ochromatic4ngahela5uclear4polistic8zes9ing4saccharide4theism3tefiore5leone5marano5sdeoca5video4icciolo3umentally2ratoria8um9ms3iarity3phogenesis6logical2tivational3orcyclist9ists1ulligatawny3ticandidate6ultural5employer5faceted7mily6unctional5lateral5media9a\'s6illionaire9ionaires5national9onals5plication9ity6rocessor5variate9ates6itamin2mmification2nicipally2sicality5ologist2tualism7ty1yocardial8um2steriously2thological0naacp2poleonic6tano5itano2tionalism9stic9ties9ty9zes9zing3uralism9tic8zes9ing2vigational3ratilova9va\'s2zionale1eapolitan2cessarily6itated9ting2gativism8ty3otiated8ing9on9ons8or9r\'s9rs2oclassical3liberal9ls3platonic9ist2urasthenia4ological5scientist6urgery3tralization1ickelodeon2trocellulose5glycerin9erine1omenclatural5klatura2nacademic4lcoholic4utomotive3competitive5nformity6troversial6vertible4umulative3deductible4iscriminate3economic4lectrical4mergency4xecutive3governmental3interference8vention3liturgical3military3negotiable3operating3political4rofessional9sionals3refundable5gulated5newable5sidential3sectarian3traditional6nsferable3utility2rmalization2tarianni3ification9ions3oriety6ously1ullification2merology2tritionally1ymphomaniac9iac\'s9iacs0obediently2ituaries7y2jectionable7vity2ligatory4terated9ing9ion2servational8ories9ry9ry\'s3tructionism1ccasionally3upational2eanographer9phic9phy1esterreichische1fficiated8ing1koniewski1leaginous2igopoly3veria7o1ntological1perational2hthalmologist9logists9logy2inionated2pedisano3ortunism9stic9ties9ty2thalmologist9ogy3imization1ratorical7o2dinarily2egonian9s2ganisation9ions6zation9ion\'s9ions2ientated8ion9ons3ginally7ted8ing9on9ons8or9rs2leanian9s2namentally9tion3ithology2thodontia3omisio1scillatory2sification2tentatiously4opathic4rreichische1ttaviani8o1utmaneuvering1verabundance5llotment9ments5mbitious4confidence9dent7sumption4dependence9dent4emphasize9sized5stimate9ates5xcited9ing6pansion7oses9ing9ure6tended9ding4generous4populate9ates5roducer9cers9cing9ction7tected9ction9ctive4qualified9fy4reacted9ing9ion6gulate9ates6liance6present4sensitive5hadowing5implified9ify4whelmingly4zealously1xygenated0pacification2gliarulo2kistanian2leozoic4stinian9an\'s9ans3lidotomy2nagopoulos4manian9ns3canadian4ontinental3demonium3ebianco4lization2padopoulos2radoxical9ally4llelism4magnetic5ecium5onova4phernalia5legia3enthetical3imutuel3kinsonism3liamentary3simonious3tiality5cipated9ting9tion9tions9tive6ularly2squariello3teurization4oralism2tagonia9n3ernalism9stic3hetically4ogenesis5logical9cally3rilineal5otism1ecuniary2dagogical3iatrician9ians2leponnesian3oponnesian2nitentiaries9ary3nsylvanian9nians2penadores2rcutaneous3ennially3fectionism3iodical9ls6ontal4patetic5herally4toneal3pendicular5tually8ted9ing9ion7ity3sonalities9ty9zes9zing6ifying3vomaiskaya2tricioli4ochemical9icals5mineral9rals5vietnam1harisaism4maceutical9ticals7ologist9ogists9ogy6kinetic9etics2enomenally2iladelphia9hia\'s9hian9hians4harmonia4ibosian4osophical2onological3tochemical6onductive7pier9ers8ying5dynamic5electric5finisher9shers9shing5journalist5phoresis5refractive5synthesis5voltaic9aics2raseology2ysiologic9ist9y1iacentini2cariello2etermaritzburg2tuitary1lanetarium3usibility2urilateral1olarimeter6zation5ography3icyholder9der\'s9ders6maker9ers9ing4sario4tically7izing3ybutylene4chlorinate5onomics4ethylene4merizes4nomial9ls4olefin4propylene4saccharide9arides5ilicon5yllabic4theism9tic4urethane2merania9n2niatowski3tificated9ter9ters9ting9tion9tions2pieluszko3ularity8zer9ing2rtability4ugalia2sitivism3sibilities9ty3toperative4retirement1racticality3gmatically2eadolescence9cent3cariously5utionary4ipitated9ting9tion8ously3destination4isposition9itions4ominantly9ted9tely9ting3fabricated9ation4erentially3kindergarten3liminaries9ry3meditated9tion4onitory3occupation9tions4perative3paratory3sbyterian9ians4ervationist9ionists4identialist9ially4surization4tigiacomo4upposition3varicated9ting9tion2imitivistic3ncipalities9ity3oritizes9ing3vatisation7zation9tions2obabilistic9ties9ty5tionary4lematical3cedurally4rastinated9nating9nation9nator9nators3ductivity3fessionalize9nalized9nally7orial3gnosticated9cater9cating9cation9cations9cative4ressivity3hibitively8ory3letarian9at4iferated9ting9tion3milacidic5scuity3nunciation9tions3pagandistic4ortionally9nately4rietaries9ry8orship9rships3secutable5lytizing4tatectomy3tectionism5stantism4ohistory5typical4uberances3videniya5ncialism5sionally4ocatively2udentialbache1seudopodial2ychoanalyst6dynamic6kinesis6logical9ically6somatic6therapist9rapists9rapy1unctuality2rification4tanical8sm9ms2sillanimous1ythagorean0qualification9tions5tatively3ntifiable8cation6tatively2intessentially0radicalism4oactive5graphic9hy5logist9sts8y2mification9ions2tification4onality9zing1eactionaries9ry6vated9ing7ity3dability3ffirmation3lamerica4isable6tically5zable4located9ing9ion3nalyzes8ing3pportionment3sonableness4surances7ingly3uthorizing3wakening2belliousness2calculated9ting9tion4pitalize9ized7ulate9ates3eptivity4rtifying4ssionary3idivism4procated9ting8ity3lassifying3ognizable9bly4mbination5mendation9ations4nditioning5firmation5sidering6tituted9uting4verable3reational4imination9tions3tification3uperated9er9ing9ion9ive2decorated9ing9ion4dication4finition4position4velopment3iscovering5tributed9uting9ution9utive2education3ngineering3stablishing3valuate3xamining2flexivity3orestation5matories9ry6ulated3rigerated9tion9tor9tors2generated9ing9ion3imentation3ularity6tingly7ory2habilitate9y2imposition3ncarnated9tion5orporate4stituted9ting4tegrated9tion6rpreted9eting5roduces9cing9ction4vigorate3terated8ing9on2juvenated9ing9ion2lativism9tic8ty3igione2manufacture9tured3ediation3iniscences3uneration9ive2nationalize3egotiate3ominated9ion4vatable3unciation2organizes9ing4ientate2patriated9ing9ion3ortorial4sitioning7ories9y3rehensible5sentation9ations9ative9ative\'s9atives4ogenetics3udiated8ing9on2regulation2servationist9onists3piratory3uscitated9ting9tion2taliated8ing9on8ory3roactively5spectively5viruses2valuation3elatory4rberated9ting9tion9tions3isionism4talizing3olucion6tionist9nists9nize9nized1heumatologist9ogy1ibonucleic2cigliano2diculously2tualistic1omaniello5tically8ism9zing2samilia2tationally2vaniemi1udimentary2ritania2ssification2tigliano0sanctification6monious3severino3taniello2rdonically2tisfactorily2udiization1calability3ndinavia9ia\'s9ian9ians3tological2hizophrenia2ientologist9gists9gy1easonality2bastiana9i9is2comerica4ndarily3retarial9at3ularism4ritizing2dimentary9tion2gregationist9onists2ismological2lectivity2miannual4circular5lassical5onductor9ctor\'s9ctors4finalist9ists4narian9ns8o4onenkov4permanent4religious4secrecy4tropical2natorial3egambia3sationalist9alize9alized4ibilities9ty5tivities9ty4uality2paratism2rendipitous9ty3ological2xuality1halikashvili9vili\'s2imabukuro1iciliano2derographer9phers2gnificantly2milarities9y3plification3ultaneous2ngaporean9ans4lehandedly4ularity3usoidally2tuational1kandinaviska1nydergeneral1ocialization4ologist9sts8y2licitation9ions4darity9y\'s5ifying4tariness3ubility2matotropin2phisticated9ation1peciality8zation5fication9tions8ity4tacularly2iritualism9ist9ists9ly2ontaneity8ously1tabilization3linization3ndardization3phylococcus3tistically4utorily2efanopolis3phanopoulos3reographic6tactic7yping4ilization9tions2ochastically4kbrokerages2radivarius4tification1ubcutaneous3jectivity3liminally3ordinated9ting9tion3ramanian3sidiaries9y9y\'s7zation4tantiated9ation3terranean2itability2namerica3dararajan2perabrasive9sives5cilious6ollider7mputer9uters9uting7nducting9uctive9uctor9uctors5delegate9gates5ficially5intendant9ndent9ndent\'s9ndents5natural5premium5regional9onals5visory3plementary3ranational2rreptitiously1ymbolically2nchronicity9zation3onymously2stematically0tabacalera3loidization2chycardia2kashimaya2llahassean9eans2ntalizingly2rahumara3taglione2voulareas2xability1echnicalities9ity5ological2gucigalpa2lecommuter9ter\'s9ters9ting6nferencing4fonica4management6rketer9ters9ting5ecanique6dia8cine4ology4sciences4vangelist9lists5ideo2mperamentally4orarily2nsiometer2rminology3racciano4itorial2stamentary4imonial9als1hanatology2eatrically3ologian8cal9ally4phania4retical9ian9ians3rmodynamic9amics6nuclear2iodiglycol1iconderoga9ga\'s2misoara1onsillectomies9tomy2pological2rtoriello2xicologist9ists9y1raceabilities9ity3ditionalist9ally3nsamerica9ica\'s9ican9ican\'s5continental9inental\'s5formational5oceanic5technology5ylvania3velocity2iangulation3viality8zes9ing1uberculosis2macoceri1ypographical2rannosaurus0ultraviolet1nabashedly3cceptable9bly5ompanied6untable9ably5redited3djustable3ffiliate5ordable3llocated6wable4terable9ly3mbiguous4erican3nimity6ously4swerable3ppetizing5roachable3shamedly4sailable3ttainable3vailable4oidable9ly2believable9bly2capitalized3ollectable9ible4mfortable9ably5pensated7titive6licated6romising4nditional5scionable5tradicted7ollable9lably8versial5ventional3ritically2democratic4niable9y4rachiever9evers5develop9loped5employment6stimate9mates5graduate9uates5koffler5performance9ormer9orming5reported9rting8resent5standable9dably5utilize9ized5valuing5withholding4sirable4tectable6rmining3iplomatic4stributed4versified3ocumented2economic3ducated3lectable3motional4ployable3nforceable4viable3quivocal3xpectedly5lainable2fashionable4thomable4vorable9ly3oreseeable5gettable6ivable5tunately2governable2icellular3dentified3fication4ormity3lateral3media4peachable3nformative4habited5ibited4surable4tentional6rrupted3onization3tarian3versally7ities9y9y\'s2manageable3entionable3istakable9bly4tigated2naturally3ecessary2obtainable3fficially2palatable4triotic3recedented5dictable9ably4ofessional6itable2questionable9nably2reality5sonably4constructed4gulated4liable4markable4presented2sanitary4tisfying5urated3cientific3easonably4ntimental4rviceable3olicited3pectacular3uccessfully4pportable4rprisingly4stainable9ably3ympathetic2traditional2usually1rbanization2inalysis1tilization0valedictory4riano2porization1ecchiarelli2getarian9ns2lociraptor2neziano3timiglia2rifiable6cation3satility2terinarian9ians1iability2cariously3timization2deocassette9ettes6onference5grapher5phile5taping2gilantism2lification2rological3tuosity2sibility3ualization2tagliano3uperative2visepulture1ocabulary3iferated9ing7ously2latility3canologist9gists3untarily9sm6eerism1ulgarization0wakabayashi2shingtonian9nians1estamerica9ca\'s4ernization1ikipedia9\'s0xenophobia0yabbadabbadoo1ekaterinburg2menidjian1ugoslavia9a\'s9an0zentralsparkasse1iashivaney',
+    6: '0abolitionism1ccelerometer9eters4ptability4ssibility3ountability3umulatively2etaminophen4osyringone2idification2tinomycosis1daptability2ministratively4ssibility2visability1erodynamically9icist9icists1ffordability2roamerican9cans1goraphobia2rarianism3iculturalist9rally3oindustrial1lphabetization5photographic1mbassadorial2ericanism2iability2niocentesis1nalyticity2giogenesis2temeridian3hropological8morphism3ibacterial5ioticos4cipatory5ompetitive2uradhapura1palachicola9ola\'s2ologetically2plicability3reciatively1rchaeological4eological4itecturally3idiacono2istotelian2omatherapy2ticulatory1siamerica2trogeology5photography1therosclerosis1udiovisual2stralopithecine9ithecus5oasiatic2thoritarian9tively3obiographer9aphies9aphy4radiograph1vailabilities9ity2iazione1zidothymidine0bacteriology1elievability2neficiaries9ry9ry\'s3zodiazepine1ibliographical2odegradable4iversity3engineering3material9als3statistician3technologies9logy9logy\'s4herapeutic9eutics2sexuality0cannibalization2pitalization9ations2rdiovascular2tacosinos\'s3egorization1haracteristically9ization9izations2lorofluorocarbon9orocarbons2riptosporidium1inematographer9raphy1oarticulated9ating9ation2educational2incidentally2llaborationist4ectibility8vization5giality3onialism2mbinability3mercialization3parability5tibility4uterization2nceptualization4iliatory3ditionality3geniality4ratulatory3servativism4piratorial4titutionally3temporaneous4icommodity4radictorily3versationalist6tibility2unterespionage7insurgencies9surgency9telligence7revolution7terrorism1riminalization2yptosporidium1zechoslovakia9vakia\'s9vakian0decentralization4rtification3ontaminated9nation3riminalizing2ductibility2humanization5idifier2militarizes9izing3obilization4cratization4ralization2nationalizing3drochronology3iability3ominational2ontological2partmentalizes9talizing3endability2regulatory3matological2salinization3irability3tabilization2teriorated9ting9tion3oxification2velopmentally1iamagnetism4etrically2bartolomeo2fferentiated9iating9iation2mensionality2sassociated3ciplinarian9arians4ombobulated9ulating5ntinuation9uity4riminatory3equilibrium3inflationary5genuousness3organization5ientation3proportionately3qualification3similarity2versification9cations0ecclesiastical1ditorialist9ists9ize9ized9ly2ucationally1galitarian1lectability5rification6ochemical7dynamic9namics7magnetic7nically7phoresis3emosynary3ktrizitaetswerk3phantiasis2igibility1motionalism1ncephalopathy3yclopaedia8edia9dias2docrinologist9logist\'s9logists9logy4metriosis2forceability2thusiastically3repreneurial2vironmentalist9ntalists9ntally1osinophilia9lic1piscopalian9ians4temologies9ogy1schatological1tymological1ventuality2identiary2olutionary1xcommunicated9cation3ruciatingly2peditionary4rimentalist9tally9tation2tracellularly6urricular5ordinarily9nary5terrestrial9estrials0favorability1erromagnetism1inanziaria9io1undamentalism1yi0gardenamerica2strointestinal1enealogical4ralissimo8zation9ations6tionally2ographically3morphology3political9cally1ubernatorial1ynecological0habyarimana2lbutogullari3lucinatory8ogenic1eterosexual9uals1ippopotamuses2rosakamoki2storiography1omogeneity7ization2spitalization9zations1umanitarian9ians1ydroencephalus2peractivity3oglycemia0idealistically3ntifiable8cation9ations3ological9ally2iosyncrasies9asy9atic1llegitimacy1maginatively2munological6therapy2partiality3erialism9stic5sonality3ossibility3rovisational1nappropriately2capacitated9ating9ation3ommunicado5prehensible9ensibly4ntrovertible4ordination2defatigable4mnification3ianapolis4scriminately5tinguishable4vidualist9lists9lize9lized9lly3ustrializing2eradicable2fallibility3eriority3initesimal3lexibility3otechnology2iziativa2sensitivity3tantaneously4itucional7tionalist9onalists9onalize9onalized9onally4rumentality3ubordination5stantiated2tellectually6igentsia4nsification4ractivity6merican5continental9inentale7rporation5ferometer5governmental5mediaries9ary6olecular5nationale9onalist9onalists9onalize9onalized9onally5planetary5relationship6ogatories9tory5technology5ventionism2vestigational9tory3incibility4sibility3oluntarily1rrationality3econcilable4gularities9ity4mediable3itability1shikawajima2oelectronic3lationism1zetbegovic\'s0journalistically0kinesiology0laryngoscopical1iberalization9ations2teraturnaya1ouisianian9ans1ymphadenopathy0machiavellian3roeconomic9omics2joritarian2lleability2rginalization3ketability7merica2terialism9stic9ty9zes9zing3hematically1editerranean2galomania9iac2ridionale2sopotamia9ian9ians4thelioma2teorologist9gist\'s9gists9gy3hodological1icroamerica5biologist9ogists9ogy5economic9omics6lectronic9tronics5organism9nisms2neralization3neapolis\'s2sappropriated9riating9riation3characterizes9terizing4ommunication3identifying4nterpretation3representation9entations1onopolization1ultilaterally2nicipalities9ity0nanotechnologies9ology2tionalization9zations3uralization1eoconservative9vatives3positivist2storianism1omenclatorial2nagricultural3discrimination3inflationary3manufacturing3proliferation0octogenarian1ligopolistic1nomatopeia1perationally2timistically1rganizational5ogenesis2iginality2nithological1steoarthritis5porosis1vercapacity4emphasizes9sizing5stimated9ating4optimism4populated9ating9ation4regulated9ation6presented4simplifying4valuation2oviviparous0palatability3eobotany5ntologist9ogists9ogy2ramilitaries9ary4sympathetic3enthetically3liamentarian9tarians3ochialism3thenogenetic4icipatory6ularity1eculiarities9ty2riodically3meability3sonalization6ification1hantasmagoria3rmacological2enomenology2ilosophically2ysiological9ically3togeography1iezoelectric2tiesalpetriere1oliticization3yacetylene4chlorinated4hemoglobin4merization4technologies9ology2pularization1redictability3liminarily3stidigitation9itator9itators2obabilistically3fessionalism4itability3portionality3secutorial1seudoscientific2ychoanalysis9lytic6pathologies9hology6therapeutic0radicalization4ological2tionalization9zations1eaffiliation3uthorization2capitalizing3ertification3lassification3onciliation9ations5figuration5sideration2evaluated9ing9ion3xamination2habilitated9ating9ation9ations9ative9ator9ators2incorporating9ration4dustrialize4terpretation4vigorated9ating9ation2liability4giosity2negotiated9ting9tion9tions2organization9ations2presentational3ublicanism2spectability4onsibilities9ility2tinoblastoma3roactivity5cessionaries9ionary2unification2valuations3italization3olutionaries9nary9nizing1icostruzione0salutatorian2ponification2thyavagiswaran1cientifically1ectarianism3uritization2miannually5utomatic4cylindrical4legendary2nsationalism9alistic9alizes9alizing3timentality1imultaneously2ngularization1ociological2vietologist9gists1pirituality1tephanopoulos\'s3reomicroscope6typical1uburbanization2peramerica5fluidity5heterodyne5iority5majority2rvivability2sceptibility3tainability1ympathetically0technologically2leological2rritorially1heatricality3oretically3rapeutically1otalitarian9ians2xicological1ransferability5illumination0ultraconservative5nationalist9onalist\'s9onalists1nadulterated3ffiliated3lienable3mbiguously3nticipated3pologetic4preciated2breakability2ceremonious3haracteristic3onditionally5solidated6titutional5taminated4operative5rdinated4rroborated2dercapitalize9talized5development5estimated9mating5represented5secretary5valuation3iplomatically2economical3nthusiastic4umerated3quivocably9ally2familiarities9rity2hesitatingly2ilaterally3maginable9tive3ncorporated4habitable4itiated4telligible6ntionally6rruptible3versality2justifiable9ably2necessarily2popularity3recedentedly2realistically4cognizable4presentative2satisfactory3ophisticated3ubstantiated2verifiable1sameribancs1tilitarian0valedictorian2riability1erisimilitude1ideoconferencing2llavicencio1nesheconombank1ulnerabilities9lity',
+    7: '0aluminosilicate1mericanization1naesthesiologist9iologists9iology2esthesiologist9ologists9ology2tidiscrimination1rteriosclerosis1ssicurazioni1utobiographical0biopharmaceutical3technological0cardiomyopathy6pulmonary1omprehensibility2nfidentiality3spiratorially4titutionality3temporaneously1ytomegalovirus0decriminalization2institutionalize2militarization2nationalization9lizations3uclearization1ideoxycytidine0editorializing1lectrobiology9ology\'s7cardiogram9rdiograms7magnetism8echanical7phoretogram1nvironmentalism1pidemiologist9ogists9ogy3stemological1thnomusicologist1xtraterritorial0heterogeneity1omosexuality1ypersensitivity0immunodeficiency6peroxidase1naccessibility2compatibility2destructibility3ianapolis\'s4vidualism9listic9lity3ustrialization2evitability2mobiliaria2stitutionalizes9onalizing2tellectualism4rdisciplinary5generational5nationalism2vulnerability1rresponsibility0laryngoscopicaly0maneuverability1eteorological1icroelettronica2neralogically3iaturization4supercomputer9computers2scharacterization9terizations3identification1ulticulturalism5lateralism0neopositivism2urofibromatosis1ondiscriminatory0oversensitivity5implification4whelmability0partecipazioni0radioactivity1ecapitalization9izations2nationalization1itualistically0septuagenarian1ocioeconomic1tereotypically1uperconductivity5minicomputer9computers5naturalism0telecommunication9nications2rritorialism0unavailability2ceremoniously3haracteristically3onstitutionally2differentiated2ilateralism2predictability4ofitability2reliability0vegetarianism',
+    8: '0authoritarianism0counterrevolutionary0deoxyribonucleic0egalitarianism1ntrepreneurialism1pidemiological9ogically0heterosexuality0institutionalization2ternationalization0micropaleontology0parliamentarianism0revolucionario0supercalifragilistic0totalitarianism',
+    9: '0deinstitutionalization0extraterritoriality',
+    12: '0antidisestablishmentarianism',
+};
+export default pronunciations;
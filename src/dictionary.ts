@@ -0,0 +1,4 @@
+// The dictionary entry: the syllable counts of the CMU Pronouncing Dictionary take about 500 KB,
+// so they are only bundled by those who import them.
+export { lookupSyllables } from './pronunciations';
+export type { SyllableDictionary } from './types';
@@ -0,0 +1,62 @@
+import { Readability } from './index';
+import * as formulas from './formulas';
+import { docxToText, DocxText } from './formats/docx';
+import { epubToText, EpubText } from './formats/epub';
+import { BookAnalysis, ChapterAnalysis, DocumentAnalysis } from './types';
+
+// The documents entry: Word and EPUB files are zip archives, read with the `zlib` module of Node.js,
+// so they are kept out of the main entry, which runs anywhere.
+
+/**
+ * An instance that analyzes Word documents and EPUB books as well as text, with the same options as `Readability`.
+ * @example
+ * import { DocumentReadability } from 'text-readability-ts/documents';
+ * const documents = new DocumentReadability({ precision: 1 });
+ */
+export class DocumentReadability extends Readability {
+    /**
+     * Analyzes a Word document (`.docx`) locally, from its bytes, and every section of it. Paragraphs, headings
+     * and table cells each end a sentence, and every heading starts a new section. The `format` of the instance
+     * does not apply.
+     * @param {Uint8Array} data - The bytes of the document, such as a `Buffer`.
+     * @returns {DocumentAnalysis} The analysis and text of the whole document, and the analysis of every section.
+     * @example
+     * const report = new DocumentReadability().analyzeDocx(readFileSync('handbook.docx'));
+     * console.log(report.scores.textStandard);
+     * for (let section of report.sections) console.log(section.heading, section.scores.fleschKincaidGrade);
+     */
+    analyzeDocx(data: Uint8Array): DocumentAnalysis {
+        const document: DocxText = docxToText(data);
+        return {
+            ...this.analyzeExtracted(document.text),
+            text: document.text,
+            sections: document.sections.map(section => ({ ...section, ...this.analyzeExtracted(section.text) })),
+        };
+    }
+
+    /**
+     * Analyzes an EPUB book locally, from its bytes, and every chapter of it, following the spine of the book.
+     * Chapters are read with the HTML mode, and the whole book is their text in reading order.
+     * The `format` of the instance does not apply.
+     * @param {Uint8Array} data - The bytes of the book, such as a `Buffer`.
+     * @returns {BookAnalysis} The analysis of the whole book and of every chapter, and how the grade varies across chapters.
+     * @example
+     * const book = new DocumentReadability().analyzeEpub(readFileSync('novel.epub'));
+     * console.log(book.scores.fleschKincaidGrade, book.spread.range);
+     * const hardest = book.chapters[book.spread.hardest];
+     */
+    analyzeEpub(data: Uint8Array): BookAnalysis {
+        const book: EpubText = epubToText(data);
+        const chapters: ChapterAnalysis[] = book.chapters.map(chapter => ({ ...chapter, ...this.analyzeExtracted(chapter.text) }));
+        return {
+            ...this.analyzeExtracted(book.chapters.map(chapter => chapter.text).join('\n\n')),
+            title: book.title,
+            chapters,
+            spread: formulas.gradeSpread(chapters.map(chapter => chapter.scores.textStandard), this.settings),
+        };
+    }
+}
+
+export { docxToText, epubToText };
+export type { DocxText, EpubText };
+export type { BookAnalysis, ChapterAnalysis, DocumentAnalysis, DocumentSection, GradeSpread } from './types';
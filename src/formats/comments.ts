@@ -0,0 +1,267 @@
+import { CommentKind } from '../types';
+
+/**
+ * The languages whose comments can be read: TypeScript and JavaScript share their comment syntax.
+ */
+export type SourceLanguage = 'javascript' | 'python';
+
+/**
+ * A block comment, JSDoc comment or docstring of a source file.
+ */
+export interface SourceComment {
+    /** The line the comment starts on, from 1. */
+    line: number;
+    /** The name of what the comment documents (`Class.method` in Python), or an empty string. */
+    symbol: string;
+    kind: CommentKind;
+    /** The prose of the comment, without tags, code and comment markers, with paragraphs separated by blank lines. */
+    text: string;
+}
+
+const sourceExtensions: Record<string, SourceLanguage> = {
+    ts: 'javascript', tsx: 'javascript', mts: 'javascript', cts: 'javascript',
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+    py: 'python', pyi: 'python',
+};
+
+// Comments for tools rather than readers: linters, type checkers, coverage and bundlers.
+const directiveRE: RegExp = /^(?:eslint|global|jshint|jslint|istanbul|c8|prettier|tslint|webpack|@ts-|#__PURE__|@__PURE__|@vite)/;
+const declarationRE: RegExp = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\s*\*?|class|interface|type|enum|namespace|module|const|let|var)\s+([\w$]+)/;
+const memberRE: RegExp = /^(?:(?:public|private|protected|static|readonly|abstract|async|override|declare|get|set)\s+)*\*?(#?[\w$]+)\s*[?!]?\s*[(<:=]/;
+const regexKeywordRE: RegExp = /(?:^|[^\w$.])(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/;
+const pythonDefinitionRE: RegExp = /^(?:async\s+)?(def|class)\s+(\w+)/;
+const docstringStartRE: RegExp = /^[rRuU]?("""|''')/;
+// Google and NumPy docstring sections, and Sphinx fields, that describe parameters, results and examples
+const docstringSectionRE: RegExp = /^(?:(?:Args|Arguments|Parameters|Other Parameters|Keyword Args|Keyword Arguments|Returns?|Yields?|Raises|Examples?|Attributes|See Also)\s*:?\s*$|:(?:param|type|returns?|rtype|raises?|var|ivar|cvar)\b)/;
+
+/**
+ * Returns the language of a source file from its extension.
+ * @param {string} path - The path of the file.
+ * @returns {SourceLanguage | undefined} The language, or `undefined` for other files.
+ */
+export function sourceLanguage(path: string): SourceLanguage | undefined {
+    const extension: string = (path.match(/\.(\w+)$/) ?? [])[1] ?? '';
+    return Object.prototype.hasOwnProperty.call(sourceExtensions, extension.toLowerCase())
+        ? sourceExtensions[extension.toLowerCase()]
+        : undefined;
+}
+
+/**
+ * Joins the lines of a comment into paragraphs, leaving out Markdown code: fenced blocks and code spans.
+ * @param {string[]} lines - The lines, without comment markers.
+ * @returns {string} The paragraphs, separated by blank lines.
+ */
+function paragraphs(lines: string[]): string {
+    const kept: string[] = [];
+    let fence: boolean = false;
+    for (let line of lines) {
+        if (/^\s*(?:```|~~~)/.test(line)) fence = !fence;
+        else if (!fence) kept.push(line);
+    }
+    return kept.join('\n')
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.replace(/(`+)[\s\S]*?\1/g, ' ').replace(/\s+/g, ' ').replace(/ ([.,;:!?)])/g, '$1').trim())
+        .filter(Boolean)
+        .join('\n\n');
+}
+
+/**
+ * Reads the prose of a block comment: the description of a JSDoc comment, without its block tags
+ * (`@param`, `@returns`, `@example`...), and with inline tags such as `{@link Foo}` replaced with their text.
+ * @param {string} body - The comment, without `/*` and `*\/`.
+ * @returns {string} The prose of the comment.
+ */
+function blockCommentText(body: string): string {
+    const lines: string[] = body.split('\n').map(line => line.replace(/^\s*\*+ ?/, ''));
+    const tag: number = lines.findIndex(line => /^\s*@\w/.test(line));
+    return paragraphs(tag === -1 ? lines : lines.slice(0, tag))
+        .replace(/\{@\w+\s+([^}|\s]+)(?:\s*\|\s*|\s+)?([^}]*)\}/g, (match, target: string, label: string) => label.trim() || target);
+}
+
+/**
+ * Returns the name of what the code after a comment declares: a function, class, interface, type,
+ * variable or class member.
+ * @param {string} code - The code after the comment.
+ * @returns {string} The name, or an empty string.
+ */
+function declaredName(code: string): string {
+    const line: string = (code.match(/^\s*(?:@[\w.]+(?:\([^)]*\))?\s*)*([^\n]*)/) ?? ['', ''])[1].trim();
+    const match: RegExpMatchArray | null = line.match(declarationRE) ?? line.match(memberRE);
+    return match && !/^(?:if|for|while|switch|catch|return|function)$/.test(match[1]) ? match[1] : '';
+}
+
+/**
+ * Returns whether the slash at the given index starts a regular expression literal rather than a division:
+ * it does after an operator, an opening bracket, a comma, a semicolon or a keyword such as `return`.
+ * @param {string} source - The source.
+ * @param {number} index - The index of the slash.
+ * @returns {boolean} Whether a regular expression starts.
+ */
+function regexCanStart(source: string, index: number): boolean {
+    let end: number = index;
+    while (end > 0 && /\s/.test(source[end - 1])) end -= 1;
+    // the longest keyword is ten letters long, and one more character tells whether it is a whole word
+    const before: string = source.slice(Math.max(0, end - 11), end);
+    return !before || /[(,=:[!&|?{};+\-*%<>~^]$/.test(before) || regexKeywordRE.test(before);
+}
+
+/**
+ * Returns the end of the regular expression literal that starts at the given index. Slashes inside
+ * character classes and escaped slashes do not end it, and neither does anything after the line.
+ * @param {string} source - The source.
+ * @param {number} start - The index of the opening slash.
+ * @returns {number} The index after the closing slash and the flags, or of the end of the line when it is not closed.
+ */
+function regexEnd(source: string, start: number): number {
+    let index: number = start + 1;
+    let inClass: boolean = false;
+    while (index < source.length && source[index] !== '\n') {
+        const char: string = source[index];
+        if (char === '\\') index += 1;
+        else if (char === '[') inClass = true;
+        else if (char === ']') inClass = false;
+        else if (char === '/' && !inClass) break;
+        index += 1;
+    }
+    if (source[index] !== '/') return index;
+    while (/[a-z]/.test(source[index + 1] ?? '')) index += 1;
+    return index + 1;
+}
+
+/**
+ * Finds the block comments and JSDoc comments of a TypeScript or JavaScript source. Line comments,
+ * and comment markers inside strings, template literals and regular expressions, are left out.
+ * @param {string} source - The source.
+ * @returns {SourceComment[]} The comments, in order.
+ */
+function javascriptComments(source: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    let index: number = 0;
+    while (index < source.length) {
+        const char: string = source[index];
+        if (char === '"' || char === '\'' || char === '`') {
+            index += 1;
+            while (index < source.length && source[index] !== char && (char === '`' || source[index] !== '\n')) {
+                index += source[index] === '\\' ? 2 : 1;
+            }
+            index += 1;
+        } else if (char === '/' && !'/*'.includes(source[index + 1]) && regexCanStart(source, index)) {
+            index = regexEnd(source, index);
+        } else if (source.startsWith('//', index)) {
+            const end: number = source.indexOf('\n', index);
+            index = end === -1 ? source.length : end;
+        } else if (source.startsWith('/*', index)) {
+            const end: number = source.indexOf('*/', index + 2);
+            const close: number = end === -1 ? source.length : end;
+            const body: string = source.slice(index + 2, close);
+            const text: string = blockCommentText(body);
+            if (text && !directiveRE.test(body.replace(/^\*?\s*/, ''))) {
+                comments.push({
+                    line: source.slice(0, index).split('\n').length,
+                    symbol: declaredName(source.slice(close + 2)),
+                    kind: /^\*(?!\*)/.test(body) ? 'jsdoc' : 'block',
+                    text,
+                });
+            }
+            index = close + 2;
+        } else {
+            index += 1;
+        }
+    }
+    return comments;
+}
+
+/**
+ * Reads the prose of a docstring: its lines are dedented, and the sections and fields that describe
+ * parameters, results and examples, doctests and reStructuredText code are left out.
+ * @param {string} body - The docstring, without its quotes.
+ * @returns {string} The prose of the docstring.
+ */
+function docstringText(body: string): string {
+    const [first, ...rest] = body.split('\n');
+    const indents: number[] = rest.filter(line => line.trim()).map(line => (line.match(/^\s*/) as RegExpMatchArray)[0].length);
+    const indent: number = indents.length ? Math.min(...indents) : 0;
+    const lines: string[] = [first.trim(), ...rest.map(line => line.slice(indent))];
+    const section: number = lines.findIndex((line, index) => docstringSectionRE.test(line)
+        // NumPy sections are underlined
+        || (/^[A-Z]\w*(?: \w+)?\s*$/.test(line) && /^-{3,}\s*$/.test(lines[index + 1] ?? '')));
+    const prose: string[] = [];
+    // a doctest runs from its first prompt to the next blank line, with the output it expects
+    let doctest: boolean = false;
+    for (let line of section === -1 ? lines : lines.slice(0, section)) {
+        if (/^\s*>>>/.test(line)) doctest = true;
+        else if (!line.trim()) doctest = false;
+        // roles such as :class:`Parser` read as their text
+        if (!doctest) prose.push(line.replace(/:[\w:]+:`~?([^`]*)`/g, '$1'));
+    }
+    return paragraphs(prose);
+}
+
+/**
+ * Finds the docstrings of a Python source: of the module, and of every class and function,
+ * named with the classes and functions they are nested in.
+ * @param {string} source - The source.
+ * @returns {SourceComment[]} The docstrings, in order.
+ */
+function pythonDocstrings(source: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    const lines: string[] = source.split('\n');
+    const scopes: { indent: number; name: string }[] = [];
+    // the symbol whose docstring may come next: the module at first
+    let pending: string | undefined = '';
+    for (let index = 0; index < lines.length; index++) {
+        const line: string = lines[index].trim();
+        if (!line || line.startsWith('#')) continue;
+        const indent: number = (lines[index].match(/^\s*/) as RegExpMatchArray)[0].length;
+        const quote: RegExpMatchArray | null = line.match(docstringStartRE);
+        if (quote) {
+            // a string statement: read it to its closing quotes, wherever they are
+            const start: number = index;
+            let body: string = line.slice(quote[0].length);
+            while (!body.includes(quote[1]) && index + 1 < lines.length) body += '\n' + lines[++index];
+            body = body.slice(0, body.indexOf(quote[1]));
+            const text: string = docstringText(body);
+            if (pending !== undefined && text) comments.push({ line: start + 1, symbol: pending, kind: 'docstring', text });
+            pending = undefined;
+            continue;
+        }
+        pending = undefined;
+        // skip the rest of a string that runs over several lines
+        const open: RegExpMatchArray | null = line.match(/"""|'''/);
+        if (open && line.split(open[0]).length % 2 === 0) {
+            do index += 1; while (index < lines.length && !lines[index].includes(open[0]));
+        }
+        while (scopes.length && scopes[scopes.length - 1].indent >= indent) scopes.pop();
+        const definition: RegExpMatchArray | null = line.match(pythonDefinitionRE);
+        if (!definition) continue;
+        // signatures may run over several lines, until their brackets are closed
+        let header: string = line;
+        while ((header.match(/[([{]/g) ?? []).length > (header.match(/[)\]}]/g) ?? []).length && index + 1 < lines.length) {
+            header += lines[++index].trim();
+        }
+        scopes.push({ indent, name: definition[2] });
+        // a body on the same line as the signature has no docstring
+        if (/:\s*(?:#.*)?$/.test(header)) pending = scopes.map(scope => scope.name).join('.');
+    }
+    return comments;
+}
+
+/**
+ * Extracts the comments written for readers from a source file: block comments and the descriptions
+ * of JSDoc comments in TypeScript and JavaScript, and docstrings in Python.
+ *
+ * Block tags such as `@param` and `@returns`, docstring sections such as `Args:`
+ * and `Returns:`, Sphinx fields, code blocks, code spans and doctests are left out.
+ * Line comments, and directives for linters and bundlers, are not read. Every
+ * comment is named after the declaration it documents.
+ * @param {string} source - The source.
+ * @param {SourceLanguage} language - The language of the source.
+ * @returns {SourceComment[]} The comments, in order.
+ * @example
+ * extractComments('/**\n * Adds two numbers.\n * @param a - A number.\n *\/\nexport function add(a, b) {}', 'javascript');
+ * // [{ line: 1, symbol: 'add', kind: 'jsdoc', text: 'Adds two numbers.' }]
+ */
+export function extractComments(source: string, language: SourceLanguage): SourceComment[] {
+    const normalized: string = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    return language === 'python' ? pythonDocstrings(normalized) : javascriptComments(normalized);
+}
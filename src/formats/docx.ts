@@ -0,0 +1,112 @@
+import { ZipArchive } from '../zip';
+import { decodeEntities } from './html';
+
+/**
+ * A section of a Word document: a heading and the paragraphs up to the next heading of any level.
+ */
+export interface DocxSection {
+    /** The text of the heading, or an empty string for the paragraphs before the first heading. */
+    heading: string;
+    /** The level of the heading, from 1; 0 for the paragraphs before the first heading. */
+    level: number;
+    /** The paragraphs of the section, its heading first, separated by blank lines. */
+    text: string;
+}
+
+/**
+ * The text of a Word document.
+ */
+export interface DocxText {
+    /** Every paragraph and table cell, separated by blank lines. */
+    text: string;
+    sections: DocxSection[];
+}
+
+const paragraphRE: RegExp = /<w:p(?:\s[^>]*)?\/>|<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g;
+const runContentRE: RegExp = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr|noBreakHyphen)\b[^>]*\/>/g;
+const styleRE: RegExp = /<w:style\b[^>]*w:type="paragraph"[^>]*>[\s\S]*?<\/w:style>/g;
+
+/**
+ * Returns the heading level of every paragraph style of a document that is a heading: from its outline level,
+ * or else from its name ("heading 1", "Title").
+ * @param {string} styles - The XML of `word/styles.xml`.
+ * @returns {Map<string, number>} The heading levels, from 1, keyed by style ID.
+ */
+function headingStyles(styles: string): Map<string, number> {
+    const levels: Map<string, number> = new Map();
+    for (let style of styles.match(styleRE) ?? []) {
+        const id: RegExpMatchArray | null = style.match(/w:styleId="([^"]*)"/);
+        if (!id) continue;
+        const outline: RegExpMatchArray | null = style.match(/<w:outlineLvl w:val="(\d)"/);
+        const name: string = (style.match(/<w:name w:val="([^"]*)"/) ?? [])[1] ?? '';
+        const heading: RegExpMatchArray | null = name.match(/^heading (\d)$/i);
+        if (outline && Number(outline[1]) < 9) levels.set(id[1], Number(outline[1]) + 1);
+        else if (heading) levels.set(id[1], Number(heading[1]));
+        else if (/^title$/i.test(name)) levels.set(id[1], 1);
+    }
+    return levels;
+}
+
+/**
+ * Returns the text of a paragraph of a document: its text runs, with tabs as spaces and line breaks as newlines.
+ * Deleted text and field codes are left out.
+ * @param {string} paragraph - The XML of the paragraph.
+ * @returns {string} The text of the paragraph.
+ */
+function paragraphText(paragraph: string): string {
+    let text: string = '';
+    let match: RegExpExecArray | null;
+    runContentRE.lastIndex = 0;
+    while ((match = runContentRE.exec(paragraph)) !== null) {
+        const [, content, element] = match;
+        if (content !== undefined) text += decodeEntities(content);
+        else if (element === 'tab') text += ' ';
+        else if (element === 'noBreakHyphen') text += '-';
+        else text += '\n';
+    }
+    return text.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+}
+
+/**
+ * Extracts the text of a Word document (`.docx`), reading `word/document.xml` from the archive.
+ *
+ * Every paragraph, heading and table cell is separated from the next by a blank line,
+ * so that each ends a sentence. Headings, found by the outline level or name of
+ * their paragraph style, start a new section.
+ * @param {Uint8Array} data - The bytes of the document, such as a `Buffer`.
+ * @returns {DocxText} The text of the document and of each section.
+ * @example
+ * const { text, sections } = docxToText(readFileSync('handbook.docx'));
+ */
+export function docxToText(data: Uint8Array): DocxText {
+    const archive: ZipArchive = new ZipArchive(data);
+    if (!archive.has('word/document.xml')) throw new Error('Not a Word document: word/document.xml is missing');
+    const document: string = archive.readText('word/document.xml');
+    const styles: Map<string, number> = archive.has('word/styles.xml')
+        ? headingStyles(archive.readText('word/styles.xml'))
+        : new Map();
+
+    const paragraphs: string[] = [];
+    const sections: DocxSection[] = [];
+    let section: { heading: string; level: number; paragraphs: string[] } = { heading: '', level: 0, paragraphs: [] };
+    const close = (): void => {
+        if (section.level || section.paragraphs.length) {
+            sections.push({ heading: section.heading, level: section.level, text: section.paragraphs.join('\n\n') });
+        }
+    };
+    for (let paragraph of document.match(paragraphRE) ?? []) {
+        const text: string = paragraphText(paragraph);
+        if (!text) continue;
+        const style: string = (paragraph.match(/<w:pStyle w:val="([^"]*)"/) ?? [])[1] ?? '';
+        const outline: RegExpMatchArray | null = paragraph.match(/<w:outlineLvl w:val="(\d)"/);
+        const level: number = outline && Number(outline[1]) < 9 ? Number(outline[1]) + 1 : styles.get(style) ?? 0;
+        if (level) {
+            close();
+            section = { heading: text.replace(/\s+/g, ' '), level, paragraphs: [] };
+        }
+        paragraphs.push(text);
+        section.paragraphs.push(text);
+    }
+    close();
+    return { text: paragraphs.join('\n\n'), sections };
+}
@@ -0,0 +1,124 @@
+import { ZipArchive } from '../zip';
+import { decodeEntities, htmlToText } from './html';
+
+/**
+ * A chapter of an EPUB book: one document of its spine.
+ */
+export interface EpubChapter {
+    /** The first heading of the chapter, or else the title of its document, or else its path. */
+    title: string;
+    /** The path of the chapter document in the book. */
+    path: string;
+    /** The text of the chapter, with blocks separated by blank lines. */
+    text: string;
+}
+
+/**
+ * The text of an EPUB book, chapter by chapter in reading order.
+ */
+export interface EpubText {
+    /** The title of the book, or an empty string. */
+    title: string;
+    chapters: EpubChapter[];
+}
+
+interface ManifestItem {
+    /** The path of the file in the archive. */
+    path: string;
+    /** The media type of the file. */
+    type: string;
+}
+
+const chapterTypes: Set<string> = new Set(['application/xhtml+xml', 'text/html']);
+
+/**
+ * Returns the value of an attribute of an XML start tag.
+ * @param {string} tag - The start tag.
+ * @param {string} name - The attribute name.
+ * @returns {string | undefined} The decoded value, or `undefined` when the tag does not have the attribute.
+ */
+function attribute(tag: string, name: string): string | undefined {
+    const match: RegExpMatchArray | null = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+    return match ? decodeEntities(match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * Decodes the percent escapes of a link, such as `chapter%201.xhtml`.
+ * @param {string} href - The link.
+ * @returns {string} The decoded link, or the link as it is when a `%` does not start an escape, as in `100%.xhtml`.
+ */
+function decodeHref(href: string): string {
+    try {
+        return decodeURIComponent(href);
+    } catch (error) {
+        return href;
+    }
+}
+
+/**
+ * Resolves a link of a document in the book to a path in the archive.
+ * @param {string} base - The path of the document the link is in.
+ * @param {string} href - The link, relative to the document.
+ * @returns {string} The path in the archive, without a fragment.
+ */
+function resolvePath(base: string, href: string): string {
+    const path: string[] = base.split('/').slice(0, -1);
+    for (let part of decodeHref(href.replace(/#.*$/, '')).split('/')) {
+        if (part === '..') path.pop();
+        else if (part && part !== '.') path.push(part);
+    }
+    return path.join('/');
+}
+
+/**
+ * Returns the title of a chapter document: the text of its first heading, or else of its `title` element.
+ * @param {string} xhtml - The chapter document.
+ * @returns {string} The title, or an empty string.
+ */
+function chapterTitle(xhtml: string): string {
+    const heading: RegExpMatchArray | null = xhtml.match(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/i)
+        ?? xhtml.match(/<(title)\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+    return heading ? htmlToText(heading[2]).replace(/\s+/g, ' ') : '';
+}
+
+/**
+ * Extracts the text of an EPUB book, chapter by chapter.
+ *
+ * Follows `META-INF/container.xml` to the package document, and its spine to the
+ * chapters, in reading order. Spine items marked `linear="no"`, such as covers,
+ * and chapters without text are left out. Every chapter is read with the HTML
+ * mode, so its headings, paragraphs and list items each end a sentence.
+ * @param {Uint8Array} data - The bytes of the book, such as a `Buffer`.
+ * @returns {EpubText} The title of the book and the text of every chapter.
+ * @example
+ * const { title, chapters } = epubToText(readFileSync('novel.epub'));
+ */
+export function epubToText(data: Uint8Array): EpubText {
+    const archive: ZipArchive = new ZipArchive(data);
+    if (!archive.has('META-INF/container.xml')) throw new Error('Not an EPUB book: META-INF/container.xml is missing');
+    const rootfile: RegExpMatchArray | null = archive.readText('META-INF/container.xml').match(/<(?:\w+:)?rootfile\b[^>]*>/);
+    const packagePath: string | undefined = rootfile ? attribute(rootfile[0], 'full-path') : undefined;
+    if (!packagePath || !archive.has(packagePath)) throw new Error('Not an EPUB book: the package document is missing');
+    const opf: string = archive.readText(packagePath);
+
+    const manifest: Map<string, ManifestItem> = new Map();
+    for (let item of opf.match(/<(?:\w+:)?item\b[^>]*>/g) ?? []) {
+        const id: string | undefined = attribute(item, 'id');
+        const href: string | undefined = attribute(item, 'href');
+        if (id && href) manifest.set(id, { path: resolvePath(packagePath, href), type: attribute(item, 'media-type') ?? '' });
+    }
+
+    const chapters: EpubChapter[] = [];
+    for (let itemref of opf.match(/<(?:\w+:)?itemref\b[^>]*>/g) ?? []) {
+        if (attribute(itemref, 'linear') === 'no') continue;
+        const item: ManifestItem | undefined = manifest.get(attribute(itemref, 'idref') ?? '');
+        if (!item || !chapterTypes.has(item.type)) continue;
+        if (!archive.has(item.path)) throw new Error(`Missing chapter in the EPUB book: ${item.path}`);
+        const xhtml: string = archive.readText(item.path);
+        const text: string = htmlToText(xhtml);
+        if (text) chapters.push({ title: chapterTitle(xhtml) || item.path, path: item.path, text });
+    }
+
+    const title: RegExpMatchArray | null = opf.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/);
+    return { title: title ? decodeEntities(title[1]).trim() : '', chapters };
+}
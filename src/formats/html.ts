@@ -0,0 +1,77 @@
+// Elements that start a new block of text: their text never runs on into the text around them.
+const blockElements: Set<string> = new Set([
+    'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+    'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup',
+    'hr', 'html', 'legend', 'li', 'main', 'nav', 'ol', 'option', 'p', 'pre', 'section', 'summary', 'table', 'tbody',
+    'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+// Elements whose content is not read: scripts, styles, code and the document head.
+const skippedElements: Set<string> = new Set(['code', 'head', 'noscript', 'script', 'style', 'template']);
+
+const entities: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', shy: '', ensp: ' ', emsp: ' ', thinsp: ' ',
+    ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”', bdquo: '„',
+    laquo: '«', raquo: '»', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™', deg: '°', sect: '§',
+    para: '¶', times: '×', divide: '÷', plusmn: '±', euro: '€', pound: '£', yen: '¥', cent: '¢',
+};
+
+// Comments, CDATA sections, doctypes and processing instructions, or a start or end tag with its attributes.
+const tagRE: RegExp = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const entityRE: RegExp = /&(?:#(\d+)|#x([\da-f]+)|([a-z]+\d*));?/gi;
+
+/**
+ * Decodes the character references of the given HTML text: numeric ones and the common named ones.
+ * Unknown names are left as they are.
+ * @param {string} text - The HTML text.
+ * @returns {string} The decoded text.
+ */
+export function decodeEntities(text: string): string {
+    return text.replace(entityRE, (match, decimal?: string, hex?: string, name?: string) => {
+        if (name) return Object.prototype.hasOwnProperty.call(entities, name) ? entities[name] : match;
+        const code: number = decimal ? Number(decimal) : parseInt(hex as string, 16);
+        return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    });
+}
+
+/**
+ * Extracts the text of an HTML document or fragment, the way a reader sees it.
+ *
+ * Tags and comments are removed and character references decoded. Scripts, styles,
+ * code and the document head are left out. Block-level elements, such as headings,
+ * paragraphs, list items and table cells, are separated by blank lines, so that
+ * each ends a sentence; `<br>` is a line break.
+ * @param {string} html - The HTML.
+ * @returns {string} The text, with blocks separated by blank lines.
+ * @example
+ * htmlToText('<h1>Title</h1><ul><li>One &amp; two</li><li>Three</li></ul>');
+ * // 'Title\n\nOne & two\n\nThree'
+ */
+export function htmlToText(html: string): string {
+    const parts: string[] = [];
+    let from: number = 0;
+    let match: RegExpExecArray | null;
+    tagRE.lastIndex = 0;
+    while ((match = tagRE.exec(html)) !== null) {
+        parts.push(decodeEntities(html.slice(from, match.index)).replace(/\s+/g, ' '));
+        from = tagRE.lastIndex;
+        const [, closing, name = '', attributes = ''] = match;
+        const element: string = name.toLowerCase();
+        if (!closing && skippedElements.has(element) && !/\/\s*$/.test(attributes)) {
+            // jump past the end tag; scripts and styles may hold anything but their own end tag
+            const end: RegExpMatchArray | null = html.slice(from).match(new RegExp(`</${element}\\s*>`, 'i'));
+            from = end ? from + (end.index as number) + end[0].length : html.length;
+            tagRE.lastIndex = from;
+        } else if (blockElements.has(element)) {
+            parts.push('\n\n');
+        } else if (element === 'br') {
+            parts.push('\n');
+        }
+    }
+    parts.push(decodeEntities(html.slice(from)).replace(/\s+/g, ' '));
+    return parts.join('')
+        .replace(/ {2,}/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
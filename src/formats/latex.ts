@@ -0,0 +1,244 @@
+// Commands whose argument is a heading or caption: their text is a block of its own.
+const blockCommands: Set<string> = new Set([
+    'part', 'chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph', 'caption',
+]);
+
+// Commands whose last argument is text that reads on with the text around it.
+const textCommands: Set<string> = new Set([
+    'emph', 'textbf', 'textit', 'texttt', 'textsc', 'textrm', 'textsf', 'textsl', 'textup', 'textmd', 'textnormal',
+    'underline', 'uline', 'mbox', 'fbox', 'text', 'enquote', 'hyperref',
+]);
+
+// Commands whose first argument is left out and whose second is text: `\href{url}{text}`.
+const secondArgumentCommands: Set<string> = new Set(['href', 'textcolor', 'foreignlanguage']);
+
+// Environments whose content is not read: math, code, pictures, tables and bibliographies.
+const skippedEnvironments: Set<string> = new Set([
+    'equation', 'align', 'alignat', 'flalign', 'gather', 'multline', 'eqnarray', 'displaymath', 'math',
+    'verbatim', 'lstlisting', 'minted', 'comment', 'tikzpicture', 'tabular', 'tabularx', 'thebibliography',
+]);
+
+const macroDefinitionCommands: Set<string> = new Set(['newcommand', 'renewcommand', 'providecommand', 'def']);
+
+// Common text macros, expanded to what they print.
+const textMacros: Record<string, string> = {
+    LaTeX: 'LaTeX', LaTeXe: 'LaTeX2e', TeX: 'TeX', BibTeX: 'BibTeX', ldots: '…', dots: '…', textellipsis: '…',
+    textendash: '–', textemdash: '—', textquoteleft: '‘', textquoteright: '’', textquotedblleft: '“',
+    textquotedblright: '”', S: '§', P: '¶', copyright: '©', textregistered: '®', texttrademark: '™',
+    textbackslash: '\\', textasciitilde: '~', textasciicircum: '^', textbar: '|', textless: '<', textgreater: '>',
+    textdegree: '°', euro: '€', pounds: '£', ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å',
+    AA: 'Å', l: 'ł', L: 'Ł', i: 'ı', eg: 'e.g.', ie: 'i.e.', etal: 'et al.', etc: 'etc.', cf: 'cf.',
+};
+
+// Accents, as the combining marks they add to the next letter: `\'e`, `\"{o}`, `\c{c}`.
+const accents: Record<string, string> = {
+    '\'': '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+    c: '\u0327', v: '\u030c', u: '\u0306', H: '\u030b', r: '\u030a', k: '\u0328',
+};
+
+const commentRE: RegExp = /(?<!\\)%.*\n?[ \t]*/g;
+const commandNameRE: RegExp = /^(?:[a-zA-Z]+|[^a-zA-Z])/;
+const macroDefinitionRE: RegExp = /\\(?:(?:new|renew|provide)command\*?\s*(?:\{\s*\\([a-zA-Z]+)\s*\}|\\([a-zA-Z]+))|def\s*\\([a-zA-Z]+))\s*(?=\{)/g;
+
+// A macro that expands to itself is read this many times before it is left out.
+const maxExpansionDepth: number = 8;
+
+/**
+ * Returns the end of the group that starts at the given index: a `{...}` argument, or a `[...]` optional argument.
+ * @param {string} text - The LaTeX.
+ * @param {number} start - The index of the opening brace or bracket.
+ * @returns {number} The index after the closing brace or bracket, or the length of the text when it is not closed.
+ */
+function groupEnd(text: string, start: number): number {
+    const close: string = text[start] === '[' ? ']' : '}';
+    let depth: number = 0;
+    for (let index = start + 1; index < text.length; index++) {
+        const char: string = text[index];
+        if (char === '\\') index += 1;
+        else if (char === '{') depth += 1;
+        else if (char === '}' && depth) depth -= 1;
+        else if (char === close && !depth) return index + 1;
+    }
+    return text.length;
+}
+
+/**
+ * Skips the spaces and tabs at the given index.
+ * @param {string} text - The LaTeX.
+ * @param {number} index - The index.
+ * @returns {number} The index of the next character that is not a space or a tab.
+ */
+function skipSpaces(text: string, index: number): number {
+    while (text[index] === ' ' || text[index] === '\t') index += 1;
+    return index;
+}
+
+/**
+ * Collects the macros defined without arguments, with `\newcommand`, `\renewcommand`, `\providecommand` or `\def`.
+ * Macros that take arguments are left out.
+ * @param {string} latex - The LaTeX, without comments.
+ * @returns {Map<string, string>} The LaTeX of every macro, keyed by name.
+ */
+function macroDefinitions(latex: string): Map<string, string> {
+    const macros: Map<string, string> = new Map();
+    let match: RegExpExecArray | null;
+    macroDefinitionRE.lastIndex = 0;
+    while ((match = macroDefinitionRE.exec(latex)) !== null) {
+        const start: number = macroDefinitionRE.lastIndex;
+        const end: number = groupEnd(latex, start);
+        macros.set(match[1] ?? match[2] ?? match[3], latex.slice(start + 1, end - 1));
+        macroDefinitionRE.lastIndex = end;
+    }
+    return macros;
+}
+
+/**
+ * Reads the text of some LaTeX: commands are expanded, kept for their text or left out, and math is left out.
+ * Blocks are separated by blank lines.
+ * @param {string} latex - The LaTeX, without comments.
+ * @param {Map<string, string>} macros - The macros defined in the document.
+ * @param {number} depth - How many macros are being expanded.
+ * @returns {string} The text, with LaTeX ligatures and spacing left as they are.
+ */
+function read(latex: string, macros: Map<string, string>, depth: number): string {
+    let text: string = '';
+    let index: number = 0;
+    // reads the argument at the index, if there is one, and moves past it
+    const argument = (): string => {
+        index = skipSpaces(latex, index);
+        if (latex[index] !== '{') return '';
+        const end: number = groupEnd(latex, index);
+        const value: string = latex.slice(index + 1, end - 1);
+        index = end;
+        return value;
+    };
+    const skipOptional = (): void => {
+        while (latex[skipSpaces(latex, index)] === '[') index = groupEnd(latex, skipSpaces(latex, index));
+    };
+
+    while (index < latex.length) {
+        const char: string = latex[index];
+        if (char === '$') {
+            // inline `$...$` or display `$$...$$` math
+            const delimiter: string = latex[index + 1] === '$' ? '$$' : '$';
+            let end: number = index + delimiter.length;
+            while (end < latex.length && !latex.startsWith(delimiter, end)) end += latex[end] === '\\' ? 2 : 1;
+            index = end + delimiter.length;
+            continue;
+        }
+        if (char === '{' || char === '}') {
+            index += 1;
+            continue;
+        }
+        if (char === '~') {
+            text += ' ';
+            index += 1;
+            continue;
+        }
+        if (char !== '\\') {
+            text += char;
+            index += 1;
+            continue;
+        }
+
+        const name: string = (latex.slice(index + 1).match(commandNameRE) ?? [''])[0];
+        index += 1 + name.length;
+        if (name === '(' || name === '[') {
+            const end: number = latex.indexOf(name === '(' ? '\\)' : '\\]', index);
+            index = end === -1 ? latex.length : end + 2;
+        } else if (name === '\\') {
+            text += '\n';
+            if (latex[index] === '*') index += 1;
+            skipOptional();
+        } else if (Object.prototype.hasOwnProperty.call(accents, name)) {
+            index = skipSpaces(latex, index);
+            const letter: string = latex[index] === '{' ? read(argument(), macros, depth) : latex[index++] ?? '';
+            text += letter + accents[name];
+        } else if (!/^[a-zA-Z]/.test(name)) {
+            // escaped characters, and spacing such as `\,` or `\ `
+            if ('&%$#_{}'.includes(name)) text += name;
+            else if (' ,;:'.includes(name) || name === '\n') text += ' ';
+        } else if (name === 'verb') {
+            if (latex[index] === '*') index += 1;
+            const end: number = latex.indexOf(latex[index], index + 1);
+            index = end === -1 ? latex.length : end + 1;
+        } else if (name === 'begin' || name === 'end') {
+            const environment: string = argument().trim();
+            if (name === 'begin' && skippedEnvironments.has(environment.replace(/\*$/, ''))) {
+                const end: number = latex.indexOf(`\\end{${environment}}`, index);
+                index = end === -1 ? latex.length : end + `\\end{${environment}}`.length;
+            } else if (name === 'begin') {
+                skipOptional();
+            }
+            text += '\n\n';
+        } else if (name === 'item') {
+            text += '\n\n';
+            if (latex[skipSpaces(latex, index)] === '[') {
+                const start: number = skipSpaces(latex, index);
+                index = groupEnd(latex, start);
+                text += read(latex.slice(start + 1, index - 1), macros, depth) + ' ';
+            }
+        } else if (name === 'par') {
+            text += '\n\n';
+        } else if (blockCommands.has(name)) {
+            if (latex[index] === '*') index += 1;
+            skipOptional();
+            text += `\n\n${read(argument(), macros, depth)}\n\n`;
+        } else if (textCommands.has(name)) {
+            skipOptional();
+            text += read(argument(), macros, depth);
+        } else if (secondArgumentCommands.has(name)) {
+            skipOptional();
+            argument();
+            text += read(argument(), macros, depth);
+        } else if (macroDefinitionCommands.has(name)) {
+            // the definitions were collected beforehand
+            const match: RegExpMatchArray | null = latex.slice(index).match(/^\*?\s*(?:\{\s*\\[a-zA-Z]+\s*\}|\\[a-zA-Z]+)[^{]*/);
+            index += match ? match[0].length : 0;
+            argument();
+        } else if (macros.has(name)) {
+            if (depth < maxExpansionDepth) text += read(macros.get(name) as string, macros, depth + 1);
+        } else if (Object.prototype.hasOwnProperty.call(textMacros, name)) {
+            text += textMacros[name];
+        } else {
+            // any other command is left out with its arguments: `\cite{key}`, `\label{sec:intro}`, `\vspace{1em}`
+            if (latex[index] === '*') index += 1;
+            while (latex[index] === '{' || latex[index] === '[') index = groupEnd(latex, index);
+        }
+    }
+    return text;
+}
+
+/**
+ * Extracts the text of a LaTeX document, the way a reader sees it once typeset.
+ *
+ * Comments, the preamble and everything after `\end{document}` are left out, as
+ * are math (`$...$`, `\[...\]`, `equation`, `align` and the like), code, tables,
+ * pictures and the bibliography. Formatting commands such as `\emph` keep their
+ * text, and other commands, such as `\cite`, `\ref` and `\footnote`, are left out
+ * with their arguments. Macros defined without arguments and common text macros
+ * (`\LaTeX`, `\ldots`, `\eg`, accents) are expanded. Section titles, captions,
+ * list items and paragraphs are separated by blank lines, so that each ends a sentence.
+ * @param {string} latex - The LaTeX.
+ * @returns {string} The text, with blocks separated by blank lines.
+ * @example
+ * latexToText('\\section{Method}\nWe fit $y = ax + b$ to the data~\\cite{smith}.');
+ * // 'Method\n\nWe fit to the data.'
+ */
+export function latexToText(latex: string): string {
+    let source: string = latex.replace(/\r\n?/g, '\n').replace(commentRE, '');
+    const macros: Map<string, string> = macroDefinitions(source);
+    const begin: number = source.indexOf('\\begin{document}');
+    if (begin !== -1) source = source.slice(begin + '\\begin{document}'.length).split('\\end{document}')[0];
+
+    return read(source, macros, 0)
+        .replace(/``|''/g, '"')
+        .replace(/`/g, '\'')
+        .replace(/---/g, '—')
+        .replace(/--/g, '–')
+        .normalize('NFC')
+        .split(/\n[ \t]*\n\s*/)
+        .map(block => block.replace(/\s+/g, ' ').replace(/ ([.,;:!?)])/g, '$1').replace(/\( /g, '(').trim())
+        .filter(Boolean)
+        .join('\n\n');
+}
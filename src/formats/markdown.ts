@@ -0,0 +1,142 @@
+import { decodeEntities } from './html';
+
+const frontMatterRE: RegExp = /^---[ \t]*\n[\s\S]*?\n(?:---|\.\.\.)[ \t]*(?:\n|$)/;
+const fenceRE: RegExp = /^ {0,3}(`{3,}|~{3,})/;
+const headingRE: RegExp = /^ {0,3}#{1,6}(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const setextRE: RegExp = /^ {0,3}(?:=+|-+)[ \t]*$/;
+const thematicBreakRE: RegExp = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const tableDelimiterRE: RegExp = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const definitionRE: RegExp = /^ {0,3}\[[^\]]+\]:[ \t]*\S+/;
+const listItemRE: RegExp = /^[ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]+(?:\[[ xX]\][ \t]+)?(.*)$/;
+const indentedRE: RegExp = /^(?: {4}|\t)/;
+
+/**
+ * Returns the cells of a table row.
+ * @param {string} row - The row, with its pipes.
+ * @returns {string[]} The cells.
+ */
+function tableCells(row: string): string[] {
+    return row.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/);
+}
+
+/**
+ * Reads the inline Markdown of a block: code spans, images, footnote references, URLs and HTML tags
+ * are left out, links are replaced with their text, and emphasis markers and escapes are removed.
+ * @param {string} text - The Markdown of the block.
+ * @returns {string} The text of the block.
+ */
+function inlineText(text: string): string {
+    return decodeEntities(text
+        // escaped punctuation is set aside in the private use area, so that it is not read as syntax
+        .replace(/\\([!-/:-@[-`{-~])/g, (match, char: string) => String.fromCharCode(0xe000 + char.charCodeAt(0)))
+        .replace(/(`+)[\s\S]*?\1/g, ' ')
+        .replace(/<!--[\s\S]*?-->|<\/?[a-zA-Z][^>]*>/g, '')
+        .replace(/!\[[^\]]*\](?:\([^)]*\)|\[[^\]]*\])?/g, '')
+        .replace(/\[\^[^\]]+\]/g, '')
+        .replace(/\[([^\]]*)\](?:\([^)]*\)|\[[^\]]*\])/g, '$1')
+        .replace(/\bhttps?:\/\/[^\s<>()]+/g, '')
+        .replace(/(\*{1,3}|~~)(?=\S)([\s\S]*?\S)\1/g, '$2')
+        .replace(/(^|\W)(_{1,3})(?=\S)([\s\S]*?\S)\2(?!\w)/g, '$1$3')
+        .replace(/[\ue000-\ue07f]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xe000)))
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Extracts the text of a Markdown document, the way a reader sees it once rendered.
+ *
+ * Front matter, fenced and indented code, inline code, images, URLs, link
+ * definitions and HTML tags are left out; links keep their text. Headings, list
+ * items, table cells, block quotes and paragraphs are separated by blank lines,
+ * so that each ends a sentence.
+ * @param {string} markdown - The Markdown.
+ * @returns {string} The text, with blocks separated by blank lines.
+ * @example
+ * markdownToText('# Setup\n\n- Run `npm install`\n- See [the docs](https://example.com)');
+ * // 'Setup\n\nRun\n\nSee the docs'
+ */
+export function markdownToText(markdown: string): string {
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    let fence: string | undefined;
+    let blank: boolean = true;
+    let inList: boolean = false;
+    let inTable: boolean = false;
+
+    const flush = (): void => {
+        if (paragraph.length) blocks.push(inlineText(paragraph.join('\n')));
+        paragraph = [];
+    };
+
+    const lines: string[] = markdown.replace(/\r\n?/g, '\n').replace(frontMatterRE, '').split('\n');
+    for (let line of lines) {
+        // block quotes read like the blocks they quote
+        line = line.replace(/^ {0,3}(?:>[ \t]?)+/, '');
+        if (fence) {
+            // a fence closes on a line of the same character, at least as long as the opening one
+            if (new RegExp(`^ {0,3}${fence[0]}{${fence.length},}[ \\t]*$`).test(line)) fence = undefined;
+            continue;
+        }
+        const fenceMatch: RegExpMatchArray | null = line.match(fenceRE);
+        if (fenceMatch) {
+            flush();
+            fence = fenceMatch[1];
+            continue;
+        }
+        if (!line.trim()) {
+            flush();
+            blank = true;
+            inTable = false;
+            continue;
+        }
+        const wasBlank: boolean = blank;
+        blank = false;
+
+        // indented code, unless it continues a list item
+        if (wasBlank && !inList && indentedRE.test(line) && !paragraph.length) {
+            blank = true;
+            continue;
+        }
+        const heading: RegExpMatchArray | null = line.match(headingRE);
+        if (heading) {
+            flush();
+            blocks.push(inlineText(heading[1] ?? ''));
+            inList = false;
+            continue;
+        }
+        if (setextRE.test(line) && paragraph.length && !inList) {
+            // the paragraph above is a heading
+            flush();
+            continue;
+        }
+        if (thematicBreakRE.test(line)) {
+            flush();
+            inList = false;
+            continue;
+        }
+        if (line.includes('|') && tableDelimiterRE.test(line) && paragraph.length === 1) {
+            // the line above is the header row of a table
+            const header: string = paragraph[0];
+            paragraph = [];
+            blocks.push(...tableCells(header).map(inlineText));
+            inTable = true;
+            continue;
+        }
+        if (inTable && line.includes('|')) {
+            blocks.push(...tableCells(line).map(inlineText));
+            continue;
+        }
+        if (definitionRE.test(line)) continue;
+        const item: RegExpMatchArray | null = line.match(listItemRE);
+        if (item) {
+            flush();
+            paragraph.push(item[1]);
+            inList = true;
+            continue;
+        }
+        if (wasBlank && !indentedRE.test(line)) inList = false;
+        paragraph.push(line.trim());
+    }
+    flush();
+    return blocks.filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,86 @@
+import { SubtitleLimits } from '../types';
+import { decodeEntities } from './html';
+
+/**
+ * The limits subtitle cues are checked against by default, after common broadcast and streaming guidelines.
+ */
+export const defaultSubtitleLimits: Required<SubtitleLimits> = {
+    maxCharactersPerSecond: 17,
+    maxWordsPerMinute: 180,
+    maxLineLength: 42,
+    maxLines: 2,
+    minDuration: 5 / 6,
+    maxDuration: 7,
+};
+
+/**
+ * A cue of a subtitle file, with its timing and the lines it shows.
+ */
+export interface SubtitleCue {
+    /** The identifier of the cue: its number in SRT, its optional identifier in WebVTT, or an empty string. */
+    id: string;
+    /** When the cue appears, in seconds. */
+    start: number;
+    /** When the cue disappears, in seconds. */
+    end: number;
+    /** The lines of the cue, without formatting tags. */
+    lines: string[];
+}
+
+// hours are optional in WebVTT; SRT separates milliseconds with a comma
+const timestampRE: RegExp = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+const timingRE: RegExp = new RegExp(`^\\s*${timestampRE.source}\\s*-->\\s*${timestampRE.source}`);
+
+/**
+ * Converts the parts of a timestamp to seconds.
+ * @param {string[]} parts - The hours (optional), minutes, seconds and fraction of the timestamp.
+ * @returns {number} The timestamp in seconds.
+ */
+function seconds(parts: string[]): number {
+    const [hours, minutes, secs, fraction] = parts;
+    return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(secs) + Number(fraction) / 10 ** fraction.length;
+}
+
+/**
+ * Removes the formatting of a subtitle line: HTML-like tags (`<i>`, `<font>`), WebVTT voices, classes and
+ * timestamps, and `{\an8}`-style override tags.
+ * @param {string} line - The line.
+ * @returns {string} The text of the line.
+ */
+function lineText(line: string): string {
+    return decodeEntities(line.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, ''))
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Parses the cues of an SRT or WebVTT subtitle file.
+ *
+ * Cues are separated by blank lines. A cue is the line with its timing
+ * (`00:00:01,000 --> 00:00:03,500`, or `00:01.000 --> 00:03.500` in WebVTT),
+ * optionally preceded by its identifier, and the lines after it. The WebVTT
+ * header and `NOTE`, `STYLE` and `REGION` blocks are skipped, as are blocks
+ * without a timing.
+ * @param {string} text - The subtitle file.
+ * @returns {SubtitleCue[]} The cues, in the order of the file.
+ * @example
+ * parseSubtitles('1\n00:00:01,000 --> 00:00:03,000\n<i>Hello</i> there!');
+ * // [{ id: '1', start: 1, end: 3, lines: ['Hello there!'] }]
+ */
+export function parseSubtitles(text: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    const blocks: string[] = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n[ \t]*\n/);
+    for (let block of blocks) {
+        const lines: string[] = block.split('\n').filter(line => line.trim());
+        const timing: number = lines.findIndex(line => timingRE.test(line));
+        if (timing === -1 || timing > 1) continue;
+        const match: RegExpMatchArray = lines[timing].match(timingRE) as RegExpMatchArray;
+        cues.push({
+            id: timing ? lines[0].trim() : '',
+            start: seconds(match.slice(1, 5)),
+            end: seconds(match.slice(5, 9)),
+            lines: lines.slice(timing + 1).map(lineText).filter(Boolean),
+        });
+    }
+    return cues;
+}
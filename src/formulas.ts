@@ -0,0 +1,546 @@
+import { legacyRound } from './rounding';
+import {
+    FormulaExplanation,
+    FormulaName,
+    GradeSpread,
+    ReadabilityWarning,
+    Reliability,
+    RoundingMode,
+    TextAverages,
+    TextCounts,
+} from './types';
+
+/**
+ * Counts shared by every formula, plus the extra samples a few formulas need.
+ */
+export interface TextStatistics extends TextCounts {
+    /** Every token of the tokenizer (LIX divides by this): the words, and the punctuation-only tokens of a custom tokenizer, as the default one has none. */
+    tokens: number;
+    /** Linsear Write sample taken from the first 100 tokens. */
+    linsear: {
+        easyWords: number;
+        hardWords: number;
+        sentences: number;
+    };
+}
+
+/**
+ * Settings shared by every formula.
+ */
+export interface FormulaSettings {
+    /** How scores and intermediate values are rounded. Defaults to `'legacy'`. */
+    rounding?: RoundingMode;
+    /** Decimals to round scores to, overriding each formula's own. */
+    precision?: number;
+}
+
+/**
+ * A formula explanation before its reliability is assessed.
+ */
+type FormulaArithmetic = Omit<FormulaExplanation, keyof Reliability>;
+
+type Rounder = (value: number, points: number, settings: FormulaSettings) => number;
+
+/**
+ * Rounds a score to `points` decimals, or to the configured precision.
+ * @param {number} value - The score to round.
+ * @param {number} points - The formula's own number of decimals.
+ * @param {FormulaSettings} settings - The formula settings.
+ * @returns {number} The rounded score.
+ */
+function roundScore(value: number, points: number, settings: FormulaSettings): number {
+    switch (settings.rounding ?? 'legacy') {
+        case 'none':
+            return value;
+        case 'fixed':
+            return legacyRound(value, settings.precision ?? 2);
+        default:
+            return legacyRound(value, settings.precision ?? points);
+    }
+}
+
+/**
+ * Rounds a value a formula keeps working with. Only the legacy mode does
+ * this, to stay compatible with textstat.
+ * @param {number} value - The value to round.
+ * @param {number} points - The number of decimals textstat keeps.
+ * @param {FormulaSettings} settings - The formula settings.
+ * @returns {number} The rounded value.
+ */
+function roundIntermediate(value: number, points: number, settings: FormulaSettings): number {
+    return (settings.rounding ?? 'legacy') === 'legacy' ? legacyRound(value, points) : value;
+}
+
+/**
+ * Maps `NaN` to `0.0`.
+ * @param {number} value - The value to check.
+ * @returns {number} The value, or `0.0` if it is `NaN`.
+ */
+function orZero(value: number): number {
+    return !isNaN(value) ? value : 0.0;
+}
+
+/**
+ * Divides and rounds, mapping `NaN` (empty text) to `0.0`.
+ * @param {number} numerator - The numerator.
+ * @param {number} denominator - The denominator.
+ * @param {number} points - The number of decimals textstat keeps.
+ * @param {FormulaSettings} settings - The formula settings.
+ * @param {Rounder} [round=roundScore] - The rounding to apply.
+ * @returns {number} The rounded average.
+ */
+function average(numerator: number, denominator: number, points: number, settings: FormulaSettings, round: Rounder = roundScore): number {
+    return orZero(round(numerator / denominator, points, settings));
+}
+
+/**
+ * Returns the average sentence length the formulas work with.
+ * @param {TextStatistics} stats - The text statistics.
+ * @param {FormulaSettings} settings - The formula settings.
+ * @returns {number} The average sentence length.
+ */
+function wordsPerSentence(stats: TextStatistics, settings: FormulaSettings): number {
+    return average(stats.words, stats.sentences, 1, settings, roundIntermediate);
+}
+
+/**
+ * Returns the average syllables per word the formulas work with.
+ * @param {TextStatistics} stats - The text statistics.
+ * @param {FormulaSettings} settings - The formula settings.
+ * @returns {number} The average syllables per word.
+ */
+function syllablesPerWord(stats: TextStatistics, settings: FormulaSettings): number {
+    return average(stats.syllables, stats.words, 1, settings, roundIntermediate);
+}
+
+const formulaLabels: Record<FormulaName, string> = {
+    fleschReadingEase: 'Flesch Reading Ease',
+    fleschKincaidGrade: 'Flesch-Kincaid Grade',
+    smogIndex: 'SMOG',
+    colemanLiauIndex: 'Coleman-Liau Index',
+    automatedReadabilityIndex: 'Automated Readability Index',
+    linsearWriteFormula: 'Linsear Write',
+    daleChallReadabilityScore: 'Dale-Chall',
+    gunningFog: 'Gunning Fog',
+    lix: 'LIX',
+    rix: 'RIX',
+};
+
+/** Every formula that can be explained, in the order `analyze` reports them. */
+export const formulaNames = Object.keys(formulaLabels) as FormulaName[];
+
+/**
+ * Returns whether a formula result is meaningful for the given statistics, and what makes it less reliable.
+ * @param {FormulaName} formula - The formula.
+ * @param {TextStatistics} stats - The statistics the formula was computed from.
+ * @param {number} value - The formula result.
+ * @returns {Reliability} The validity flag and warnings.
+ */
+export function reliability(formula: FormulaName, stats: TextStatistics, value: number): Reliability {
+    const label: string = formulaLabels[formula];
+    const warnings: ReadabilityWarning[] = [];
+    let valid: boolean = true;
+
+    if (stats.words === 0) {
+        valid = false;
+        warnings.push({ code: 'no-words', message: `${label} has no words to score` });
+    } else if (formula === 'smogIndex') {
+        if (stats.sentences < 3) valid = false;
+        if (stats.sentences < 30) {
+            warnings.push({ code: 'too-few-sentences', message: `SMOG needs 30 sentences, got ${stats.sentences}` });
+        }
+    } else if (formula === 'linsearWriteFormula') {
+        const sampled: number = stats.linsear.easyWords + stats.linsear.hardWords;
+        if (sampled < 100) {
+            warnings.push({ code: 'short-sample', message: `Linsear Write sampled only ${sampled} words` });
+        }
+    } else if (stats.words < 100) {
+        warnings.push({ code: 'short-text', message: `${label} is meant for samples of 100 words or more, got ${stats.words}` });
+    }
+    if (!isFinite(value)) {
+        valid = false;
+        warnings.push({ code: 'not-finite', message: `${label} is not a finite number` });
+    }
+    return { valid, warnings };
+}
+
+/**
+ * Adds the reliability of a formula result to its arithmetic.
+ * @param {FormulaArithmetic} arithmetic - The formula arithmetic.
+ * @param {TextStatistics} stats - The statistics the formula was computed from.
+ * @returns {FormulaExplanation} The explanation.
+ */
+function withReliability(arithmetic: FormulaArithmetic, stats: TextStatistics): FormulaExplanation {
+    return { ...arithmetic, ...reliability(arithmetic.formula, stats, arithmetic.value) };
+}
+
+export function averageSentenceLength(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return average(stats.words, stats.sentences, 1, settings);
+}
+
+export function averageSyllablePerWord(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return average(stats.syllables, stats.words, 1, settings);
+}
+
+export function averageCharacterPerWord(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return average(stats.chars, stats.words, 2, settings);
+}
+
+export function averageLetterPerWord(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return average(stats.letters, stats.words, 2, settings);
+}
+
+export function averageSentencePerWord(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return average(stats.sentences, stats.words, 2, settings);
+}
+
+export function averages(stats: TextStatistics, settings: FormulaSettings = {}): TextAverages {
+    return {
+        sentenceLength: averageSentenceLength(stats, settings),
+        syllablesPerWord: averageSyllablePerWord(stats, settings),
+        charactersPerWord: averageCharacterPerWord(stats, settings),
+        lettersPerWord: averageLetterPerWord(stats, settings),
+        sentencesPerWord: averageSentencePerWord(stats, settings),
+    };
+}
+
+export function explainFleschReadingEase(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const coefficients = { base: 206.835, sentenceLength: 1.015, syllablesPerWord: 84.6 };
+    const sentenceLength: number = wordsPerSentence(stats, settings);
+    const syllablePerWord: number = syllablesPerWord(stats, settings);
+    const sentenceLengthTerm: number = coefficients.sentenceLength * sentenceLength;
+    const syllablesPerWordTerm: number = coefficients.syllablesPerWord * syllablePerWord;
+    const flesch: number = coefficients.base - sentenceLengthTerm - syllablesPerWordTerm;
+    return withReliability({
+        formula: 'fleschReadingEase',
+        expression: '206.835 - 1.015 * sentenceLength - 84.6 * syllablesPerWord',
+        inputs: { words: stats.words, sentences: stats.sentences, syllables: stats.syllables },
+        coefficients,
+        terms: { sentenceLength, syllablesPerWord: syllablePerWord, sentenceLengthTerm, syllablesPerWordTerm, score: flesch },
+        value: roundScore(flesch, 2, settings),
+    }, stats);
+}
+
+export function fleschReadingEase(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainFleschReadingEase(stats, settings).value;
+}
+
+export function fleschReadingEaseToGrade(score: number): number {
+    if (score < 100 && score >= 90) return 5;
+    else if (score < 90 && score >= 80) return 6;
+    else if (score < 80 && score >= 70) return 7;
+    else if (score < 70 && score >= 60) return 8.5;
+    else if (score < 60 && score >= 50) return 11;
+    else if (score < 50 && score >= 40) return 13; // college
+    else if (score < 40 && score >= 30) return 15;
+    else return 16;
+}
+
+export function explainFleschKincaidGrade(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const coefficients = { sentenceLength: 0.39, syllablesPerWord: 11.8, base: 15.59 };
+    const sentenceLength: number = wordsPerSentence(stats, settings);
+    const syllablePerWord: number = syllablesPerWord(stats, settings);
+    const sentenceLengthTerm: number = coefficients.sentenceLength * sentenceLength;
+    const syllablesPerWordTerm: number = coefficients.syllablesPerWord * syllablePerWord;
+    const flesch: number = sentenceLengthTerm + syllablesPerWordTerm - coefficients.base;
+    return withReliability({
+        formula: 'fleschKincaidGrade',
+        expression: '0.39 * sentenceLength + 11.8 * syllablesPerWord - 15.59',
+        inputs: { words: stats.words, sentences: stats.sentences, syllables: stats.syllables },
+        coefficients,
+        terms: { sentenceLength, syllablesPerWord: syllablePerWord, sentenceLengthTerm, syllablesPerWordTerm, score: flesch },
+        value: roundScore(flesch, 1, settings),
+    }, stats);
+}
+
+export function fleschKincaidGrade(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainFleschKincaidGrade(stats, settings).value;
+}
+
+export function explainSmogIndex(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const coefficients = { sampleSentences: 30, slope: 1.043, base: 3.1291 };
+    const explanation: FormulaArithmetic = {
+        formula: 'smogIndex',
+        expression: '1.043 * sqrt(30 * polysyllables / sentences) + 3.1291',
+        inputs: { sentences: stats.sentences, polysyllables: stats.polysyllables },
+        coefficients,
+        terms: {},
+        value: 0.0,
+    };
+    if (stats.sentences < 3) return withReliability(explanation, stats);
+    const polysyllablesPerSentence: number = stats.polysyllables / stats.sentences;
+    const polysyllablesPerSample: number = coefficients.sampleSentences * polysyllablesPerSentence;
+    const squareRoot: number = polysyllablesPerSample ** 0.5;
+    const smog: number = coefficients.slope * squareRoot + coefficients.base;
+    explanation.terms = { polysyllablesPerSentence, polysyllablesPerSample, squareRoot, score: smog };
+    explanation.value = orZero(roundScore(smog, 1, settings));
+    return withReliability(explanation, stats);
+}
+
+export function smogIndex(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainSmogIndex(stats, settings).value;
+}
+
+export function explainColemanLiauIndex(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const coefficients = { letters: 0.058, sentences: 0.296, base: 15.8 };
+    const lettersPerWord: number = average(stats.letters, stats.words, 2, settings, roundIntermediate);
+    const sentencesPerWord: number = average(stats.sentences, stats.words, 2, settings, roundIntermediate);
+    const letters: number = roundIntermediate(lettersPerWord * 100, 2, settings);
+    const sentences: number = roundIntermediate(sentencesPerWord * 100, 2, settings);
+    const lettersTerm: number = coefficients.letters * letters;
+    const sentencesTerm: number = coefficients.sentences * sentences;
+    const coleman: number = lettersTerm - sentencesTerm - coefficients.base;
+    return withReliability({
+        formula: 'colemanLiauIndex',
+        expression: '0.058 * lettersPer100Words - 0.296 * sentencesPer100Words - 15.8',
+        inputs: { letters: stats.letters, words: stats.words, sentences: stats.sentences },
+        coefficients,
+        terms: {
+            lettersPer100Words: letters,
+            sentencesPer100Words: sentences,
+            lettersTerm,
+            sentencesTerm,
+            score: coleman,
+        },
+        value: roundScore(coleman, 2, settings),
+    }, stats);
+}
+
+export function colemanLiauIndex(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainColemanLiauIndex(stats, settings).value;
+}
+
+export function explainAutomatedReadabilityIndex(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const coefficients = { charactersPerWord: 4.71, wordsPerSentence: 0.5, base: 21.43 };
+    const averageCharacterPerWord: number = roundIntermediate(stats.chars / stats.words, 2, settings);
+    const averageWordPerSentence: number = roundIntermediate(stats.words / stats.sentences, 2, settings);
+    const charactersPerWordTerm: number = coefficients.charactersPerWord * averageCharacterPerWord;
+    const wordsPerSentenceTerm: number = coefficients.wordsPerSentence * averageWordPerSentence;
+    const readability: number = charactersPerWordTerm + wordsPerSentenceTerm - coefficients.base;
+    return withReliability({
+        formula: 'automatedReadabilityIndex',
+        expression: '4.71 * charactersPerWord + 0.5 * wordsPerSentence - 21.43',
+        inputs: { chars: stats.chars, words: stats.words, sentences: stats.sentences },
+        coefficients,
+        terms: {
+            charactersPerWord: averageCharacterPerWord,
+            wordsPerSentence: averageWordPerSentence,
+            charactersPerWordTerm,
+            wordsPerSentenceTerm,
+            score: readability,
+        },
+        value: orZero(roundScore(readability, 1, settings)),
+    }, stats);
+}
+
+export function automatedReadabilityIndex(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainAutomatedReadabilityIndex(stats, settings).value;
+}
+
+export function explainLinsearWriteFormula(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const coefficients = { easyWordWeight: 1, hardWordWeight: 3, threshold: 20 };
+    const { easyWords, hardWords, sentences } = stats.linsear;
+    const number: number = (easyWords * coefficients.easyWordWeight + hardWords * coefficients.hardWordWeight) / sentences;
+    const returnVal: number = number <= coefficients.threshold ? (number - 2) / 2 : number / 2;
+    return withReliability({
+        formula: 'linsearWriteFormula',
+        expression: 'r = (easyWords * 1 + hardWords * 3) / sentences; r <= 20 ? (r - 2) / 2 : r / 2',
+        inputs: { easyWords, hardWords, sentences },
+        coefficients,
+        terms: { weightedWordsPerSentence: number, score: returnVal },
+        value: orZero(roundScore(returnVal, 1, settings)),
+    }, stats);
+}
+
+export function linsearWriteFormula(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainLinsearWriteFormula(stats, settings).value;
+}
+
+export function explainDaleChallReadabilityScore(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const coefficients = { difficultWords: 0.1579, sentenceLength: 0.0496, adjustment: 3.6365, adjustmentThreshold: 5 };
+    const explanation: FormulaArithmetic = {
+        formula: 'daleChallReadabilityScore',
+        expression: '0.1579 * percentDifficultWords + 0.0496 * sentenceLength (+ 3.6365 above 5% difficult words)',
+        inputs: { words: stats.words, sentences: stats.sentences, difficultWords: stats.difficultWords },
+        coefficients,
+        terms: {},
+        value: 0.0,
+    };
+    const count: number = stats.words - stats.difficultWords;
+    const per: number = (count / stats.words * 100);
+    if (isNaN(per)) return withReliability(explanation, stats);
+    const difficultWords: number = 100 - per;
+    const sentenceLength: number = wordsPerSentence(stats, settings);
+    const difficultWordsTerm: number = coefficients.difficultWords * difficultWords;
+    const sentenceLengthTerm: number = coefficients.sentenceLength * sentenceLength;
+    let score: number = difficultWordsTerm + sentenceLengthTerm;
+    const adjustment: number = difficultWords > coefficients.adjustmentThreshold ? coefficients.adjustment : 0;
+    if (adjustment) score += adjustment;
+    explanation.terms = {
+        percentDifficultWords: difficultWords,
+        sentenceLength,
+        difficultWordsTerm,
+        sentenceLengthTerm,
+        adjustment,
+        score,
+    };
+    explanation.value = roundScore(score, 2, settings);
+    return withReliability(explanation, stats);
+}
+
+export function daleChallReadabilityScore(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainDaleChallReadabilityScore(stats, settings).value;
+}
+
+export function daleChallToGrade(score: number): number {
+    if (score <= 4.9) return 4;
+    if (score < 5.9) return 5;
+    if (score < 6.9) return 7;
+    if (score < 7.9) return 9;
+    if (score < 8.9) return 11;
+    if (score < 9.9) return 13;
+    else return 16;
+}
+
+export function explainGunningFog(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const coefficients = { weight: 0.4 };
+    const perDiffWords: number = (stats.complexWords / stats.words * 100);
+    const sentenceLength: number = wordsPerSentence(stats, settings);
+    const sum: number = sentenceLength + perDiffWords;
+    const grade: number = coefficients.weight * sum;
+    return withReliability({
+        formula: 'gunningFog',
+        expression: '0.4 * (sentenceLength + percentComplexWords)',
+        inputs: { words: stats.words, sentences: stats.sentences, complexWords: stats.complexWords },
+        coefficients,
+        terms: { sentenceLength, percentComplexWords: perDiffWords, sum, score: grade },
+        value: orZero(roundScore(grade, 2, settings)),
+    }, stats);
+}
+
+export function gunningFog(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainGunningFog(stats, settings).value;
+}
+
+export function explainLix(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const perLongWords: number = stats.longWords * 100 / stats.tokens;
+    const sentenceLength: number = wordsPerSentence(stats, settings);
+    const lix: number = sentenceLength + perLongWords;
+    return withReliability({
+        formula: 'lix',
+        expression: 'sentenceLength + percentLongWords',
+        inputs: { words: stats.words, tokens: stats.tokens, sentences: stats.sentences, longWords: stats.longWords },
+        coefficients: { minLongWordLength: 7 },
+        terms: { sentenceLength, percentLongWords: perLongWords, score: lix },
+        value: roundScore(lix, 2, settings),
+    }, stats);
+}
+
+export function lix(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainLix(stats, settings).value;
+}
+
+export function explainRix(stats: TextStatistics, settings: FormulaSettings = {}): FormulaExplanation {
+    const rix: number = stats.longWords / stats.sentences;
+    return withReliability({
+        formula: 'rix',
+        expression: 'longWords / sentences',
+        inputs: { sentences: stats.sentences, longWords: stats.longWords },
+        coefficients: { minLongWordLength: 7 },
+        terms: { score: rix },
+        value: !isNaN(rix) ? roundScore(rix, 2, settings) : 0.0,
+    }, stats);
+}
+
+export function rix(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    return explainRix(stats, settings).value;
+}
+
+/**
+ * Returns the most common grade (ties go to the later one) across the
+ * lower and upper bound of every grade-level formula.
+ * @param {TextStatistics} stats - The statistics to grade.
+ * @param {FormulaSettings} [settings] - The formula settings.
+ * @returns {number} The consensus grade.
+ */
+export function textStandard(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    const grade: number[] = [];
+    const pushBounds = (value: number): void => {
+        grade.push(Math.floor(legacyRound(value)));
+        grade.push(Math.floor(Math.ceil(value)));
+    };
+    pushBounds(fleschKincaidGrade(stats, settings));
+    grade.push(fleschReadingEaseToGrade(fleschReadingEase(stats, settings)));
+    pushBounds(smogIndex(stats, settings));
+    pushBounds(colemanLiauIndex(stats, settings));
+    pushBounds(automatedReadabilityIndex(stats, settings));
+    pushBounds(daleChallToGrade(daleChallReadabilityScore(stats, settings)));
+    pushBounds(linsearWriteFormula(stats, settings));
+    pushBounds(gunningFog(stats, settings));
+
+    const counterMap: [number, number][] = [...new Set(grade)].map(x => [x, grade.filter(y => y === x).length]);
+    const finalGrade: [number, number] = counterMap.reduce((x, y) => y[1] >= x[1] ? y : x);
+    return finalGrade[0];
+}
+
+/**
+ * Returns the median of every grade-level formula.
+ * @param {TextStatistics} stats - The statistics to grade.
+ * @param {FormulaSettings} [settings] - The formula settings.
+ * @returns {number} The median grade.
+ */
+export function textMedian(stats: TextStatistics, settings: FormulaSettings = {}): number {
+    const grade: number[] = [
+        fleschKincaidGrade(stats, settings),
+        fleschReadingEaseToGrade(fleschReadingEase(stats, settings)),
+        smogIndex(stats, settings),
+        colemanLiauIndex(stats, settings),
+        automatedReadabilityIndex(stats, settings),
+        daleChallToGrade(daleChallReadabilityScore(stats, settings)),
+        linsearWriteFormula(stats, settings),
+        gunningFog(stats, settings),
+    ];
+    grade.sort(function (a, b) { return a - b });
+    let half: number = Math.floor(grade.length / 2);
+    if (half & 0x1)
+        return (grade[half - 1] + grade[half]) / 2;
+    else
+        return grade[half];
+}
+
+/**
+ * Returns how the given grades, of the parts of a text, vary.
+ * @param {number[]} grades - The grade of every part.
+ * @param {FormulaSettings} [settings] - The formula settings, to round the mean and standard deviation.
+ * @returns {GradeSpread} The lowest and highest grade and their parts, the range, mean and standard deviation.
+ */
+export function gradeSpread(grades: number[], settings: FormulaSettings = {}): GradeSpread {
+    if (!grades.length) return { min: 0, max: 0, range: 0, mean: 0, standardDeviation: 0, easiest: -1, hardest: -1 };
+    const min: number = Math.min(...grades);
+    const max: number = Math.max(...grades);
+    const mean: number = grades.reduce((sum, grade) => sum + grade, 0) / grades.length;
+    const variance: number = grades.reduce((sum, grade) => sum + (grade - mean) ** 2, 0) / grades.length;
+    return {
+        min,
+        max,
+        range: roundScore(max - min, 2, settings),
+        mean: roundScore(mean, 2, settings),
+        standardDeviation: roundScore(Math.sqrt(variance), 2, settings),
+        easiest: grades.indexOf(min),
+        hardest: grades.indexOf(max),
+    };
+}
+
+/**
+ * Returns a reading speed: how many characters or words are shown per unit of time.
+ * @param {number} count - The characters or words shown.
+ * @param {number} seconds - How long they are shown, in seconds.
+ * @param {number} unit - The unit of time, in seconds: 1 for characters per second, 60 for words per minute.
+ * @param {FormulaSettings} [settings] - The formula settings.
+ * @returns {number} The reading speed; `Infinity` when something is shown for no time at all.
+ */
+export function readingRate(count: number, seconds: number, unit: number, settings: FormulaSettings = {}): number {
+    if (!count) return 0;
+    if (seconds <= 0) return Infinity;
+    return roundScore(count / seconds * unit, 2, settings);
+}
@@ -0,0 +1,140 @@
+import de from '../data/hyphenation/de';
+import es from '../data/hyphenation/es';
+import fr from '../data/hyphenation/fr';
+import it from '../data/hyphenation/it';
+import nl from '../data/hyphenation/nl';
+import pt from '../data/hyphenation/pt';
+import ru from '../data/hyphenation/ru';
+import sv from '../data/hyphenation/sv';
+
+interface PatternTable {
+    /** The break values of every pattern, keyed by its letters; a word has one value more than letters. */
+    points: Map<string, number[]>;
+    /** The length of the longest pattern, in letters. */
+    longest: number;
+}
+
+const patternSets: Record<string, Record<number, string>> = { de, es, fr, it, nl, pt, ru, sv };
+const tables: Map<string, PatternTable> = new Map();
+
+const vowelRE: RegExp = /[aeiouyæøœаеёиоуыэюяі]/i;
+const letterRunRE: RegExp = /[\p{L}\p{M}]+/gu;
+
+/**
+ * Returns the language of the hyphenation patterns used for the given locale.
+ * @param {string} lang - The locale, such as `'de-DE'`.
+ * @returns {string | undefined} The pattern language, such as `'de'`, or `undefined` when there are no patterns for it.
+ */
+export function patternLanguage(lang: string): string | undefined {
+    const language: string = lang.toLowerCase().split(/[-_]/)[0];
+    return Object.prototype.hasOwnProperty.call(patternSets, language) ? language : undefined;
+}
+
+/**
+ * Parses the patterns of the given language, on first use.
+ * @param {string} language - The pattern language.
+ * @returns {PatternTable} The parsed patterns.
+ */
+function tableFor(language: string): PatternTable {
+    let table: PatternTable | undefined = tables.get(language);
+    if (table) return table;
+    table = { points: new Map(), longest: 0 };
+    const patterns: Record<number, string> = patternSets[language];
+    for (let key of Object.keys(patterns)) {
+        const size: number = Number(key);
+        for (let start = 0; start < patterns[size].length; start += size) {
+            const pattern: string = patterns[size].slice(start, start + size);
+            const points: number[] = [0];
+            let letters: string = '';
+            for (let char of pattern) {
+                if (/\d/.test(char)) {
+                    points[points.length - 1] = Number(char);
+                } else {
+                    letters += char;
+                    points.push(0);
+                }
+            }
+            table.points.set(letters, points);
+            table.longest = Math.max(table.longest, letters.length);
+        }
+    }
+    tables.set(language, table);
+    return table;
+}
+
+/**
+ * Splits a run of letters at every point the patterns allow, without a minimum
+ * number of letters before the first or after the last point.
+ * @param {string} word - The lowercased letters.
+ * @param {PatternTable} table - The patterns.
+ * @returns {string[]} The parts of the word.
+ */
+function hyphenate(word: string, table: PatternTable): string[] {
+    const marked: string = `_${word}_`;
+    const points: number[] = new Array(marked.length + 1).fill(0);
+    for (let start = 0; start < marked.length; start++) {
+        const end: number = Math.min(marked.length, start + table.longest);
+        for (let stop = start + 1; stop <= end; stop++) {
+            const values: number[] | undefined = table.points.get(marked.slice(start, stop));
+            if (!values) continue;
+            values.forEach((value, offset) => {
+                points[start + offset] = Math.max(points[start + offset], value);
+            });
+        }
+    }
+    const parts: string[] = [];
+    let from: number = 0;
+    for (let index = 1; index < word.length; index++) {
+        // an odd value before the letter at `index` of the word, which is at `index + 1` in `marked`
+        if (points[index + 1] % 2 === 1) {
+            parts.push(word.slice(from, index));
+            from = index;
+        }
+    }
+    parts.push(word.slice(from));
+    return parts;
+}
+
+/**
+ * Joins parts without a vowel, such as a trailing consonant the patterns split off, to the part before them.
+ * @param {string[]} parts - The parts of a word.
+ * @returns {string[]} The parts that have a vowel, or the whole word when none has.
+ */
+function joinConsonants(parts: string[]): string[] {
+    const syllables: string[] = [];
+    let pending: string = '';
+    for (let part of parts) {
+        if (!vowelRE.test(part.normalize('NFD'))) {
+            if (syllables.length) syllables[syllables.length - 1] += part;
+            else pending += part;
+            continue;
+        }
+        syllables.push(pending + part);
+        pending = '';
+    }
+    if (pending) syllables.push(pending);
+    return syllables;
+}
+
+/**
+ * Splits a word into syllables with the hyphenation patterns of its language.
+ *
+ * Uses TeX hyphenation patterns (Liang's algorithm), allowing a split at every
+ * point, and joins parts without a vowel to the part before them. Letters are
+ * lowercased; other characters split the word but are not part of any syllable.
+ * @param {string} word - The word.
+ * @param {string} lang - The locale of the word, such as `'de-DE'`.
+ * @returns {string[]} The syllables, or an empty array when there are no patterns for the language.
+ * @example
+ * patternSyllables('Silbentrennung', 'de'); // ['sil', 'ben', 'tren', 'nung']
+ */
+export function patternSyllables(word: string, lang: string): string[] {
+    const language: string | undefined = patternLanguage(lang);
+    if (!language) return [];
+    const table: PatternTable = tableFor(language);
+    const syllables: string[] = [];
+    for (let run of word.toLocaleLowerCase(lang).match(letterRunRE) ?? []) {
+        syllables.push(...joinConsonants(hyphenate(run, table)));
+    }
+    return syllables;
+}
@@ -1,11 +1,34 @@
-declare global {
-  interface Math {
-    copySign(x: number, y: number): number;
-    legacyRound(number: number, points?: number): number;
-  }
-}
+import {
+  CommentAnalysis,
+  DifficultWord,
+  FormulaExplanation,
+  ReadabilityAnalysis,
+  ReadabilityOptions,
+  SentenceAnalysis,
+  SentenceSplitter,
+  SubtitleAnalysis,
+  SubtitleLimits,
+  SyllableReport,
+  Tokenizer,
+  WordAnnotation,
+  WordOverrides,
+} from './types';
 
 declare class Readability {
+  /**
+   * Creates a new instance with its own settings.
+   * @param {ReadabilityOptions} [options={}] - The language, rounding, easy word list, syllable counter, tokenizer, sentence splitter and text preparation to use.
+   * @throws {TypeError} If `syllableBackend` is `'dictionary'` and no `dictionary` is given.
+   */
+  constructor(options?: ReadabilityOptions);
+
+  /**
+   * Registers word overrides on this instance: syllable counts for words the counters get wrong, such as
+   * brand names and acronyms, and words to treat as easy or difficult. Every count and formula uses them.
+   * @param {WordOverrides | string} overrides - The overrides, or their JSON text.
+   */
+  addOverrides(overrides: WordOverrides | string): void;
+
   static getGradeSuffix(grade: number): string;
   /**
    * Returns the character count of the given text.
@@ -41,25 +64,107 @@ declare class Readability {
   * @returns {number} The word count.
   */
 
+  /**
+   * Splits the given text into words, the way the default tokenizer does.
+   * Contractions, possessives and hyphenated compounds are one word; punctuation, dashes and slashes separate words.
+   * @param {string} text - The text to split.
+   * @returns {string[]} The words.
+   */
   static split(text: string): string[];
 
+  /**
+   * Calculates the number of words present in the text.
+   * Words are split by the instance tokenizer, see `Readability.split`.
+   * @param {string} text - The text to count the words of.
+   * @param {boolean} [removePunctuation=true] - Whether to leave out punctuation-only tokens. Only a custom tokenizer
+   * returns them, so this makes no difference with the default one.
+   * @returns {number} The word count.
+   */
   lexiconCount(text: string, removePunctuation?: boolean): number;
 
   /**
-   * Returns the number of syllables present in the given text.
+   * Returns the number of syllables present in the given text. English is counted with the instance
+   * syllable backend; German, French, Spanish, Italian, Dutch, Portuguese, Swedish and Russian with
+   * hyphenation patterns; other languages with the English rules.
    * @param {string} text - The text to count the syllables of.
-   * @param {string} [lang='en-US'] - The language of the text.
+   * @param {string} [lang] - The language of the text. Defaults to the instance language.
    * @returns {number} The syllable count.
    */
   syllableCount(text: string, lang?: string): number;
 
   /**
-   * Returns the number of sentences present in the given text.
+   * Splits the given word into syllables with the same engine as `syllableCount`, so there are always as many
+   * syllables as it counts.
+   * @param {string} word - The word to split.
+   * @param {string} [lang] - The language of the word. Defaults to the instance language.
+   * @returns {string[]} The syllables, in the case of the word.
+   */
+  syllabify(word: string, lang?: string): string[];
+
+  /**
+   * Returns the syllable count of every word of the given text and where it came from,
+   * to measure how many words the pronunciation dictionary knows.
+   * @param {string} text - The text to count the syllables of.
+   * @returns {SyllableReport} The total, every word and how many words came from each source.
+   */
+  syllableReport(text: string): SyllableReport;
+
+  /**
+   * Returns the number of sentences present in the given text. Sentences of two words or less are not counted.
    * @param {string} text - The text to count the sentences of.
    * @returns {number} The sentence count.
    */
   sentenceCount(text: string): number;
 
+  /**
+   * Analyzes the given text in a single pass, returning every count and formula result.
+   * @param {string} text - The text to analyze.
+   * @returns {ReadabilityAnalysis} The counts, averages and scores of the text.
+   */
+  analyze(text: string): ReadabilityAnalysis;
+
+  /**
+   * Analyzes the comments written for readers in TypeScript, JavaScript and Python sources: block comments,
+   * the descriptions of JSDoc comments, and docstrings. Block tags such as `@param`, docstring sections such as
+   * `Args:`, and code are left out, and every comment is scored on its own. The language of every file is
+   * told by its extension.
+   * @param {Record<string, string>} files - The sources, keyed by path.
+   * @returns {CommentAnalysis[]} The analysis of every comment with its file, line and symbol, file by file.
+   * @throws {TypeError} If a file is not a TypeScript, JavaScript or Python source.
+   */
+  analyzeComments(files: Record<string, string>): CommentAnalysis[];
+
+  /**
+   * Analyzes the cues of an SRT or WebVTT subtitle file: the characters per second, words per minute and line
+   * lengths of every cue, flagged when they go over the given limits, and every count and formula over the
+   * transcript of all cues joined.
+   * @param {string} text - The subtitle file.
+   * @param {SubtitleLimits} [limits={}] - The limits to flag cues over; each defaults to the one of `SubtitleLimits`.
+   * @returns {SubtitleAnalysis} The analysis of the transcript, and the reading speed and flags of every cue.
+   */
+  analyzeSubtitles(text: string, limits?: SubtitleLimits): SubtitleAnalysis;
+
+  /**
+   * Analyzes every sentence of the given text on its own.
+   * With the `'html'`, `'markdown'` and `'latex'` formats, the sentences and their offsets are those of the extracted text.
+   * @param {string} text - The text to analyze.
+   * @returns {SentenceAnalysis[]} The sentences with their offsets, counts and grade estimates.
+   */
+  analyzeSentences(text: string): SentenceAnalysis[];
+
+  /**
+   * Returns every word that makes the given text harder to read, with its offsets and the reasons it was flagged:
+   * - `difficult`: not on the easy word list and two or more syllables (Dale-Chall).
+   * - `polysyllabic`: three or more syllables (SMOG).
+   * - `long`: more than six characters (LIX and RIX).
+   *
+   * With the `'html'`, `'markdown'` and `'latex'` formats, the words and their offsets are those of the extracted text.
+   * Words are looked up normalized and folded as the instance is configured, and their offsets stay on the text as given.
+   * @param {string} text - The text to annotate.
+   * @returns {WordAnnotation[]} The flagged words, without surrounding punctuation, in order.
+   */
+  annotate(text: string): WordAnnotation[];
+
   /**
    * Returns the average sentence length of the given text.
    * @param {string} text - The text to calculate the average sentence length of.
@@ -102,6 +207,13 @@ declare class Readability {
    */
   fleschReadingEase(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `fleschReadingEase`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainFleschReadingEase(text: string): FormulaExplanation;
+
   fleschReadingEaseToGrade(score: number): number;
 
   /**
@@ -111,6 +223,13 @@ declare class Readability {
    */
   fleschKincaidGrade(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `fleschKincaidGrade`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainFleschKincaidGrade(text: string): FormulaExplanation;
+
   /**
    * Returns the polysyllable count of the given text.
    * @param {string} text - The text to calculate the polysyllable count of.
@@ -125,6 +244,13 @@ declare class Readability {
    */
   smogIndex(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `smogIndex`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainSmogIndex(text: string): FormulaExplanation;
+
   /**
    * Returns the grade level of the text using the Coleman-Liau Formula.
    * @param {string} text - The text to calculate the grade level of.
@@ -132,6 +258,13 @@ declare class Readability {
    */
   colemanLiauIndex(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `colemanLiauIndex`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainColemanLiauIndex(text: string): FormulaExplanation;
+
   /**
    * Returns the ARI (Automated Readability Index) of the given text.
    * @param {string} text - The text to calculate the ARI of.
@@ -139,6 +272,13 @@ declare class Readability {
    */
   automatedReadabilityIndex(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `automatedReadabilityIndex`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainAutomatedReadabilityIndex(text: string): FormulaExplanation;
+
   /**
    * Returns the grade level using the Linsear Write Formula.
    * @param {string} text - The text to calculate the grade level of.
@@ -146,6 +286,13 @@ declare class Readability {
    */
   linsearWriteFormula(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `linsearWriteFormula`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainLinsearWriteFormula(text: string): FormulaExplanation;
+
   /**
    * Returns the present tense of the given word.
    * @param {string} word - The word to get the present tense of.
@@ -165,6 +312,14 @@ declare class Readability {
    */
   difficultWords(text: string, syllableThreshold?: number): number;
 
+  /**
+   * Returns the difficult words of the given text, the ones `difficultWords` counts.
+   * @param {string} text - The text to collect the difficult words of.
+   * @param {number} [syllableThreshold=2] - The syllable threshold.
+   * @returns {DifficultWord[]} The distinct difficult words, every case and form of a word as one entry, in order of appearance.
+   */
+  difficultWordList(text: string, syllableThreshold?: number): DifficultWord[];
+
   /**
    * Returns the New Dale-Chall Formula score of the given text.
    * @param {string} text - The text to calculate the score of.
@@ -172,6 +327,13 @@ declare class Readability {
    */
   daleChallReadabilityScore(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `daleChallReadabilityScore`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainDaleChallReadabilityScore(text: string): FormulaExplanation;
+
 
   /**
    * Returns the grade level using the New Dale-Chall Formula.
@@ -187,6 +349,13 @@ declare class Readability {
    */
   gunningFog(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `gunningFog`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainGunningFog(text: string): FormulaExplanation;
+
   /**
    * Returns the LIX of the given text.
    * @param {string} text - The text to calculate the LIX of.
@@ -194,6 +363,13 @@ declare class Readability {
    */
   lix(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `lix`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainLix(text: string): FormulaExplanation;
+
   /**
    * Returns the RIX of the given text.
    * @param {string} text - The text to calculate the RIX of.
@@ -201,6 +377,13 @@ declare class Readability {
    */
   rix(text: string): number;
 
+  /**
+   * Returns the inputs, coefficients and intermediate values behind `rix`.
+   * @param {string} text - The text to explain the score of.
+   * @returns {FormulaExplanation} The explanation.
+   */
+  explainRix(text: string): FormulaExplanation;
+
   /**
    * Based upon all the above tests, returns the estimated school grade level required to understand the text.
    * @param {string} text - The text to calculate the grade level of.
@@ -217,6 +400,70 @@ declare class Readability {
   textMedian(text: string): number;
 }
 
+/**
+ * The built-in tokenizer, with the rules of `Readability.split`.
+ */
+declare class DefaultTokenizer implements Tokenizer {
+  /**
+   * @param {string} [locale='en-US'] - The locale of the texts.
+   */
+  constructor(locale?: string);
+
+  tokenize(text: string): string[];
+}
+
+/**
+ * The built-in sentence splitter, aware of abbreviations, initials and numbers.
+ */
+declare class DefaultSentenceSplitter implements SentenceSplitter {
+  split(text: string): string[];
+}
+
+/**
+ * The shared instance with the default settings. In CommonJS, `module.exports` is this instance, with `default`,
+ * `Readability`, `DefaultSentenceSplitter` and `DefaultTokenizer` attached to it.
+ */
 declare const readability: Readability;
 
-export { readability as default };
+export { readability as default, Readability, DefaultSentenceSplitter, DefaultTokenizer };
+export type {
+  BookAnalysis,
+  ChapterAnalysis,
+  CharacterMap,
+  CommentAnalysis,
+  CommentKind,
+  CueAnalysis,
+  CueFlag,
+  DifficultWord,
+  DocumentAnalysis,
+  DocumentSection,
+  FormulaExplanation,
+  FormulaName,
+  GradeSpread,
+  NormalizationForm,
+  ReadabilityAnalysis,
+  ReadabilityOptions,
+  ReadabilityScores,
+  ReadabilityWarning,
+  Reliability,
+  RoundingMode,
+  SentenceAnalysis,
+  SentenceSplitter,
+  SubtitleAnalysis,
+  SubtitleLimits,
+  SyllableBackend,
+  SyllableCounter,
+  SyllableDictionary,
+  SyllableReport,
+  SyllableSource,
+  TextAverages,
+  TextCounts,
+  TextFormat,
+  TextSpan,
+  Tokenizer,
+  WordAnnotation,
+  WordFlag,
+  WordOverride,
+  WordOverrides,
+  WordSyllables,
+} from './types';
@@ -2,28 +2,214 @@ import pluralize from 'pluralize';
 import syllable from './syllable';
 
 import easyWords from '../data/easy_words';
+import * as formulas from './formulas';
+import { FormulaSettings, TextStatistics } from './formulas';
+import { extractComments, sourceLanguage, SourceLanguage } from './formats/comments';
+import { htmlToText } from './formats/html';
+import { latexToText } from './formats/latex';
+import { markdownToText } from './formats/markdown';
+import { defaultSubtitleLimits, parseSubtitles, SubtitleCue } from './formats/subtitles';
+import { patternLanguage, patternSyllables } from './hyphenation';
+import normalize from './normalize';
+import { DefaultSentenceSplitter } from './segmenter';
+import { fitSyllables, restoreCase, splitVowelGroups } from './syllabify';
+import { DefaultTokenizer, tokenize } from './tokenizer';
+import {
+    CharacterMap,
+    CommentAnalysis,
+    CueAnalysis,
+    CueFlag,
+    DifficultWord,
+    FormulaExplanation,
+    FormulaName,
+    NormalizationForm,
+    ReadabilityAnalysis,
+    ReadabilityOptions,
+    ReadabilityScores,
+    Reliability,
+    SentenceAnalysis,
+    SentenceSplitter,
+    SubtitleAnalysis,
+    SubtitleLimits,
+    SyllableBackend,
+    SyllableCounter,
+    SyllableDictionary,
+    SyllableReport,
+    SyllableSource,
+    TextFormat,
+    TextSpan,
+    Tokenizer,
+    WordAnnotation,
+    WordFlag,
+    WordOverride,
+    WordOverrides,
+    WordSyllables,
+} from './types';
+import type * as types from './types';
+import { verbalize } from './verbalize';
 
 const punctuationRE: RegExp = /[\u2000-\u206F\u2E00-\u2E7F\\'!"#$%&()*+,\-./:;<=>?@[\]^_`{|}~]/g;
 const easyWordSet: Set<string> = new Set(easyWords);
 
-declare global {
-    interface Math {
-        copySign(x: number, y: number): number;
-        legacyRound(number: number, points?: number): number;
+class Readability {
+    private readonly language: string;
+    protected readonly settings: FormulaSettings;
+    private readonly easyWordSet: Set<string>;
+    private readonly syllableCounter?: SyllableCounter;
+    private readonly syllableBackend: SyllableBackend;
+    private readonly dictionary?: SyllableDictionary;
+    private readonly overrides: Map<string, WordOverride> = new Map();
+    private readonly tokenizer: Tokenizer;
+    private readonly sentenceSplitter: SentenceSplitter;
+    private readonly format: TextFormat;
+    private readonly normalization?: NormalizationForm;
+    private readonly foldDiacritics: boolean;
+    private readonly characterMap?: Record<number, string>;
+    private readonly verbalizeNumbers: boolean;
+
+    /**
+     * Creates a new instance with its own settings.
+     * @param {ReadabilityOptions} [options={}] - The language, rounding, easy word list, syllable counting, tokenizer, sentence splitter and text preparation to use.
+     * @throws {TypeError} If `syllableBackend` is `'dictionary'` and no `dictionary` is given.
+     * @example
+     * const german = new Readability({ language: 'de-DE', precision: 1 });
+     * const exact = new Readability({ rounding: 'none' });
+     * const dictionary = new Readability({ dictionary: lookupSyllables });
+     * const financial = new Readability({ verbalizeNumbers: true });
+     * const folding = new Readability({ normalization: 'NFKC', foldDiacritics: { ß: 'ss' } });
+     * const html = new Readability({ format: 'html' });
+     */
+    constructor(options: ReadabilityOptions = {}) {
+        this.language = options.language ?? 'en-US';
+        this.settings = { rounding: options.rounding, precision: options.precision };
+        this.format = options.format ?? 'text';
+        this.normalization = options.normalization;
+        this.foldDiacritics = Boolean(options.foldDiacritics);
+        if (typeof options.foldDiacritics === 'object') this.characterMap = Readability.characterCodes(options.foldDiacritics);
+        // custom easy words are normalized like the words looked up in them
+        this.easyWordSet = options.easyWords
+            ? new Set(this.normalizeText([...options.easyWords].join('\n')).split('\n'))
+            : easyWordSet;
+        this.syllableCounter = options.syllableCounter;
+        this.dictionary = options.dictionary;
+        this.syllableBackend = options.syllableBackend ?? (options.dictionary ? 'dictionary' : 'heuristic');
+        if (this.syllableBackend === 'dictionary' && !this.dictionary) {
+            throw new TypeError('The dictionary syllable backend needs a dictionary, such as lookupSyllables of text-readability-ts/dictionary');
+        }
+        if (options.overrides) this.addOverrides(options.overrides);
+        this.tokenizer = options.tokenizer ?? new DefaultTokenizer(this.language);
+        this.sentenceSplitter = options.sentenceSplitter ?? new DefaultSentenceSplitter();
+        this.verbalizeNumbers = options.verbalizeNumbers ?? false;
     }
-}
 
-Math.copySign = (x: number, y: number): number => {
-    return x * (y / Math.abs(y));
-};
+    /**
+     * Keys a character map by character code, the way `normalize` looks characters up.
+     * @param {CharacterMap} characters - The replacements, keyed by character.
+     * @returns {Record<number, string>} The replacements, keyed by character code.
+     */
+    private static characterCodes(characters: CharacterMap): Record<number, string> {
+        const codes: Record<number, string> = {};
+        for (let character of Object.keys(characters)) {
+            if (character.length !== 1) {
+                throw new TypeError(`Invalid character map key "${character}": expected a single character`);
+            }
+            if (typeof characters[character] !== 'string') {
+                throw new TypeError(`Invalid replacement for "${character}": ${JSON.stringify(characters[character])}`);
+            }
+            codes[character.charCodeAt(0)] = characters[character];
+        }
+        return codes;
+    }
 
-Math.legacyRound = (number: number, points: number = 0): number => {
-    const p: number = 10 ** points;
-    // return float(math.floor((number * p) + math.copysign(0.5, number))) / p
-    return Math.floor((number * p) + Math.copySign(0.5, number)) / p;
-};
+    /**
+     * Applies the Unicode normalization and diacritic folding enabled on this instance.
+     * @param {string} text - The text to normalize.
+     * @returns {string} The normalized text.
+     */
+    private normalizeText(text: string): string {
+        if (this.normalization) text = text.normalize(this.normalization);
+        if (this.foldDiacritics) {
+            // the character maps have composed letters only
+            text = text.normalize('NFC');
+            if (this.characterMap) text = normalize(text, this.characterMap);
+            text = normalize(text);
+        }
+        return text;
+    }
 
-class Readability {
+    /**
+     * Extracts the text to read from the given input, in the format of this instance.
+     * @param {string} text - The input, such as an HTML page or a Markdown document.
+     * @returns {string} The plain text.
+     */
+    private extract(text: string): string {
+        if (this.format === 'html') return htmlToText(text);
+        if (this.format === 'markdown') return markdownToText(text);
+        if (this.format === 'latex') return latexToText(text);
+        return text;
+    }
+
+    /**
+     * Applies the stages enabled on this instance to the given plain text: Unicode normalization and
+     * diacritic folding (`normalization`, `foldDiacritics`), then spelling out numbers and symbols (`verbalizeNumbers`).
+     * @param {string} text - The plain text.
+     * @returns {string} The text to count.
+     */
+    private transform(text: string): string {
+        text = this.normalizeText(text);
+        if (this.verbalizeNumbers) text = verbalize(text);
+        return text;
+    }
+
+    /**
+     * Prepares the given input for counting: extracts its text in the format of this instance, then transforms it.
+     * Public counts prepare their text once, then count with the private helpers.
+     * @param {string} text - The input as given.
+     * @returns {string} The text to count.
+     */
+    private prepare(text: string): string {
+        return this.transform(this.extract(text));
+    }
+
+    /**
+     * Registers word overrides on this instance: syllable counts for words the counters get wrong, such as
+     * brand names and acronyms, and words to treat as easy or difficult. Every count and formula uses them.
+     * Later overrides of the same word replace earlier ones.
+     * @param {WordOverrides | string} overrides - The overrides, or their JSON text.
+     * @example
+     * readability.addOverrides({ SaaS: 1, Kubernetes: 4, GIF: { syllables: 1, easy: true } });
+     * readability.addOverrides(fs.readFileSync('overrides.json', 'utf8'));
+     */
+    addOverrides(overrides: WordOverrides | string): void {
+        const entries: WordOverrides = typeof overrides === 'string' ? JSON.parse(overrides) : overrides;
+        if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+            throw new TypeError('Overrides must be an object of words');
+        }
+        for (let word of Object.keys(entries)) {
+            const entry: number | WordOverride = entries[word];
+            if (typeof entry !== 'number' && (typeof entry !== 'object' || entry === null || Array.isArray(entry))) {
+                throw new TypeError(`Invalid syllable count for "${word}": ${JSON.stringify(entry)}`);
+            }
+            const override: WordOverride = typeof entry === 'number' ? { syllables: entry } : { ...entry };
+            const { syllables, easy } = override;
+            if (syllables !== undefined && !(Number.isInteger(syllables) && syllables >= 0)) {
+                throw new TypeError(`Invalid syllable count for "${word}": ${JSON.stringify(syllables)}`);
+            }
+            if (easy !== undefined && typeof easy !== 'boolean') {
+                throw new TypeError(`Invalid easy flag for "${word}": ${JSON.stringify(easy)}`);
+            }
+            this.overrides.set(this.overrideKey(this.normalizeText(word)), override);
+        }
+    }
+
+    /**
+     * Returns the key of the given word in the overrides.
+     * @param {string} word - The word.
+     * @returns {string} The lowercased word without punctuation.
+     */
+    private overrideKey(word: string): string {
+        return this.removePunctuation(word.toLocaleLowerCase(this.language)).trim();
+    }
 
     /**
      * Returns the grade suffix of the given grade.
@@ -48,6 +234,16 @@ class Readability {
      * @returns {number} The character count.
      */
     charCount(text: string, ignoreSpaces: boolean = true): number {
+        return this.countChars(this.prepare(text), ignoreSpaces);
+    }
+
+    /**
+     * Returns the character count of the given prepared text.
+     * @param {string} text - The prepared text.
+     * @param {boolean} [ignoreSpaces=true] - Whether to ignore spaces.
+     * @returns {number} The character count.
+     */
+    private countChars(text: string, ignoreSpaces: boolean = true): number {
         if (ignoreSpaces) text = text.replace(/ /g, '');
         return text.length;
     }
@@ -59,6 +255,16 @@ class Readability {
      * @returns {number} The letter count.
      */
     letterCount(text: string, ignoreSpaces: boolean = true): number {
+        return this.countLetters(this.prepare(text), ignoreSpaces);
+    }
+
+    /**
+     * Returns the letter count of the given prepared text.
+     * @param {string} text - The prepared text.
+     * @param {boolean} [ignoreSpaces=true] - Whether to ignore spaces.
+     * @returns {number} The letter count.
+     */
+    private countLetters(text: string, ignoreSpaces: boolean = true): number {
         if (ignoreSpaces) text = text.replace(/ /g, '');
         return this.removePunctuation(text).length;
     }
@@ -74,68 +280,459 @@ class Readability {
     }
 
     /**
-     * Splits the given text into an array of strings.
+     * Splits the given text into words, the way the default tokenizer does.
+     * Contractions, possessives and hyphenated compounds are one word; punctuation, dashes and slashes separate words.
      * @param {string} text - The text to split.
-     * @returns {string[]} The split text.
+     * @returns {string[]} The words.
+     * @example
+     * Readability.split("Don't split well-known words—or John's.");
+     * // ["Don't", 'split', 'well-known', 'words', 'or', "John's"]
      */
     static split(text: string): string[] {
-        // text = text.split(/,| |\n|\r/g);
-        // text = text.filter(n => n);
-        return text.split(/,| |\n|\r/g).filter(n => n);
+        return tokenize(text);
     }
 
     /**
-     * Calculates the number of words present in the text. Optional removePunctuation specifies whether we need to take punctuation symbols into account while counting lexicons. Default value is true, which removes the punctuation before counting lexicon items.
+     * Calculates the number of words present in the text.
+     * Words are split by the instance tokenizer, see `Readability.split`.
      * @param {string} text - The text to count the words of.
-     * @param {boolean} [removePunctuation=true] - Whether to ignore punctuation.
+     * @param {boolean} [removePunctuation=true] - Whether to leave out punctuation-only tokens. Only a custom tokenizer
+     * returns them, so this makes no difference with the default one.
      * @returns {number} The word count.
      */
     lexiconCount(text: string, removePunctuation: boolean = true): number {
-        if (removePunctuation) text = this.removePunctuation(text);
-        // text = text.split(/,| |\n|\r/g);
-        // text = text.filter(n => n);
-        return text.split(/,| |\n|\r/g).filter(n => n).length;
+        return this.countWords(this.prepare(text), removePunctuation);
+    }
+
+    /**
+     * Returns the number of words of the given prepared text.
+     * @param {string} text - The prepared text.
+     * @param {boolean} [removePunctuation=true] - Whether to leave out punctuation-only tokens.
+     * @returns {number} The word count.
+     */
+    private countWords(text: string, removePunctuation: boolean = true): number {
+        const words: string[] = this.tokenizer.tokenize(text);
+        if (!removePunctuation) return words.length;
+        return words.filter(word => this.removePunctuation(word)).length;
     }
 
     /**
-     * Returns the number of syllables present in the given text.
+     * Returns the number of syllables present in the given text. English is counted with the instance
+     * syllable backend; German, French, Spanish, Italian, Dutch, Portuguese, Swedish and Russian with
+     * hyphenation patterns; other languages with the English rules.
      * @param {string} text - The text to count the syllables of.
-     * @param {string} [lang='en-US'] - The language of the text.
+     * @param {string} [lang] - The language of the text. Defaults to the instance language.
      * @returns {number} The syllable count.
      */
-    syllableCount(text: string, lang: string = 'en-US'): number {
-        text = text.toLocaleLowerCase(lang);
-        text = this.removePunctuation(text);
-        if (!text) return 0;
-        // eventually replace syllable
-        const count = syllable(text);
+    syllableCount(text: string, lang: string = this.language): number {
+        let count: number = 0;
+        for (let word of this.tokenizer.tokenize(this.prepare(text))) {
+            count += this.wordSyllables(word, lang);
+        }
         return count;
     }
 
     /**
-     * Returns the number of sentences present in the given text.
+     * Returns the number of syllables of a single word.
+     * @param {string} word - The word to count the syllables of.
+     * @param {string} [lang] - The language of the word. Defaults to the instance language.
+     * @returns {number} The syllable count.
+     */
+    private wordSyllables(word: string, lang: string = this.language): number {
+        return this.countSyllables(word, lang).syllables;
+    }
+
+    /**
+     * Counts the syllables of a single word with the overrides, the custom syllable counter, the pronunciation dictionary
+     * (English only, when `syllableBackend` is `'dictionary'`), the hyphenation patterns of languages other
+     * than English or the English heuristic counter, in that order.
+     * @param {string} word - The word to count the syllables of.
+     * @param {string} [lang] - The language of the word. Defaults to the instance language.
+     * @returns {WordSyllables} The syllable count and where it came from.
+     */
+    private countSyllables(word: string, lang: string = this.language): WordSyllables {
+        const override: number | undefined = this.overrides.get(this.overrideKey(word))?.syllables;
+        if (override !== undefined) return { word, syllables: override, source: 'override' };
+        const lower: string = word.toLocaleLowerCase(lang);
+        const letters: string = this.removePunctuation(lower);
+        if (this.syllableCounter) {
+            return { word, syllables: letters ? this.syllableCounter(letters, lang) : 0, source: 'custom' };
+        }
+        if (this.syllableBackend === 'dictionary' && this.dictionary && /^en\b/i.test(lang)) {
+            const syllables: number | undefined = this.dictionary(lower);
+            if (syllables !== undefined) return { word, syllables, source: 'dictionary' };
+        }
+        if (patternLanguage(lang)) {
+            return { word, syllables: patternSyllables(word, lang).length, source: 'hyphenation' };
+        }
+        return { word, syllables: letters ? syllable(letters) : 0, source: 'heuristic' };
+    }
+
+    /**
+     * Splits the given word into syllables with the same engine as `syllableCount`, so there are always as many
+     * syllables as it counts. Hyphenation patterns give the split directly; for English, the word is split
+     * between its vowel groups and the parts are merged or split until they match the count.
+     * Punctuation, such as apostrophes and hyphens, is left out.
+     * @param {string} word - The word to split.
+     * @param {string} [lang] - The language of the word. Defaults to the instance language.
+     * @returns {string[]} The syllables, in the case of the word.
+     * @example
+     * readability.syllabify('readability'); // ['read', 'a', 'bil', 'i', 'ty']
+     * readability.syllabify('Silbentrennung', 'de'); // ['Sil', 'ben', 'tren', 'nung']
+     */
+    syllabify(word: string, lang: string = this.language): string[] {
+        const letters: string = this.removePunctuation(word).replace(/\s+/g, '');
+        const { syllables, source } = this.countSyllables(word, lang);
+        if (source === 'hyphenation') return restoreCase(patternSyllables(word, lang), letters);
+        const parts: string[] = patternLanguage(lang)
+            ? patternSyllables(word, lang)
+            : splitVowelGroups(letters.toLocaleLowerCase(lang));
+        return restoreCase(fitSyllables(parts, syllables), letters);
+    }
+
+    /**
+     * Returns the syllable count of every word of the given text and where it came from,
+     * to measure how many words the pronunciation dictionary knows.
+     * @param {string} text - The text to count the syllables of.
+     * @returns {SyllableReport} The total, every word and how many words came from each source.
+     * @example
+     * const report = new Readability({ dictionary: lookupSyllables }).syllableReport(text);
+     * const coverage = report.sources.dictionary / report.words.length;
+     */
+    syllableReport(text: string): SyllableReport {
+        const words: WordSyllables[] = this.tokenizer.tokenize(this.prepare(text)).map(word => this.countSyllables(word));
+        const sources: Record<SyllableSource, number> = { override: 0, dictionary: 0, heuristic: 0, hyphenation: 0, custom: 0 };
+        let syllables: number = 0;
+        for (let word of words) {
+            sources[word.source] += 1;
+            syllables += word.syllables;
+        }
+        return { syllables, words, sources };
+    }
+
+    /**
+     * Returns the number of sentences present in the given text, as split by the instance sentence splitter.
+     * Sentences of two words or less are not counted.
      * @param {string} text - The text to count the sentences of.
      * @returns {number} The sentence count.
      */
     sentenceCount(text: string): number {
+        return this.countSentences(this.prepare(text));
+    }
+
+    /**
+     * Returns the number of sentences of the given prepared text.
+     * @param {string} text - The prepared text.
+     * @param {TextSpan[]} [words] - The tokens of the text, with their offsets, when it was already split.
+     * @returns {number} The sentence count.
+     */
+    private countSentences(text: string, words?: TextSpan[]): number {
+        const spans: TextSpan[] = words ?? Readability.locate(text, this.tokenizer.tokenize(text));
+        const sentences: string[] = this.sentenceSplitter.split(text);
         let ignoreCount: number = 0;
-        let sentences: string[] = text.split(/ *[.?!]['")\]]*[ |\n](?=[A-Z])/g);
+        let cursor: number = 0;
+        let next: number = 0;
         for (let sentence of sentences) {
-            if (this.lexiconCount(sentence) <= 2) ignoreCount += 1;
+            const start: number = text.indexOf(sentence, cursor);
+            let count: number = 0;
+            if (start === -1) {
+                // a sentence the splitter rewrote is split again
+                count = this.countWords(sentence);
+            } else {
+                cursor = start + sentence.length;
+                while (next < spans.length && spans[next].start < start) next += 1;
+                for (; next < spans.length && spans[next].end <= cursor; next++) {
+                    if (this.removePunctuation(spans[next].text)) count += 1;
+                }
+            }
+            if (count <= 2) ignoreCount += 1;
         }
         const validSentences: number = sentences.length - ignoreCount;
         return validSentences > 1 ? validSentences : 1;
     }
 
+    /**
+     * Finds the given parts of a text in order, keeping their offsets in the text.
+     * Parts that cannot be found, such as tokens a tokenizer rewrote, are skipped.
+     * @param {string} text - The whole text.
+     * @param {string[]} parts - The parts of the text, in order.
+     * @returns {TextSpan[]} The parts that were found.
+     */
+    private static locate(text: string, parts: string[]): TextSpan[] {
+        const spans: TextSpan[] = [];
+        let cursor: number = 0;
+        for (let part of parts) {
+            const start: number = text.indexOf(part, cursor);
+            if (start === -1) continue;
+            cursor = start + part.length;
+            spans.push({ text: part, start, end: cursor });
+        }
+        return spans;
+    }
+
+    /**
+     * Collects every count the formulas need, preparing and splitting the text and counting syllables only once.
+     * @param {string} text - The text to collect the statistics of.
+     * @returns {TextStatistics} The statistics.
+     */
+    private statistics(text: string): TextStatistics {
+        return this.collectStatistics(this.prepare(text));
+    }
+
+    /**
+     * Collects every count the formulas need from the given prepared text.
+     * @param {string} text - The prepared text.
+     * @returns {TextStatistics} The statistics.
+     */
+    private collectStatistics(text: string): TextStatistics {
+        const tokens: string[] = this.tokenizer.tokenize(text);
+        const syllables: (word: string) => number = this.cachedSyllables();
+        const tokenSyllables: number[] = tokens.map(syllables);
+        const uncommonWords: DifficultWord[] = [...this.uncommonWords(tokens, syllables).values()];
+        const countUncommon = (syllableThreshold: number): number =>
+            uncommonWords.filter(word => word.syllables >= syllableThreshold).length;
+
+        // the first 100 words, with the punctuation between them so their sentences can be counted
+        const sample: string[] = tokens.slice(0, 100);
+        const words: TextSpan[] = Readability.locate(text, tokens);
+        const sentences: number = this.countSentences(text, words);
+        const sampleText: string = tokens.length > 100 && words.length >= 100 ? text.slice(0, words[99].end) : text;
+        const sampleHardWords: number = tokenSyllables.slice(0, 100).filter(count => count >= 3).length;
+
+        return {
+            chars: this.countChars(text),
+            letters: this.countLetters(text),
+            words: tokens.filter(token => this.removePunctuation(token)).length,
+            sentences,
+            syllables: tokenSyllables.reduce((sum, syllables) => sum + syllables, 0),
+            polysyllables: tokenSyllables.filter(syllables => syllables >= 3).length,
+            difficultWords: countUncommon(2),
+            complexWords: countUncommon(3),
+            longWords: tokens.filter(token => token.length > 6).length,
+            tokens: tokens.length,
+            linsear: {
+                easyWords: sample.length - sampleHardWords,
+                hardWords: sampleHardWords,
+                sentences: sampleText === text ? sentences : this.countSentences(sampleText, words),
+            },
+        };
+    }
+
+    /**
+     * Analyzes the given text in a single pass, returning every count and formula result.
+     * @param {string} text - The text to analyze.
+     * @returns {ReadabilityAnalysis} The counts, averages and scores of the text, and how reliable each score is.
+     * @example
+     * const { counts, scores, reliability } = readability.analyze(text);
+     * console.log(counts.words, scores.fleschReadingEase);
+     * if (!reliability.smogIndex.valid) console.warn(reliability.smogIndex.warnings);
+     */
+    analyze(text: string): ReadabilityAnalysis {
+        return this.report(this.statistics(text));
+    }
+
+    /**
+     * Analyzes the given text, already extracted from its document, ignoring the format of this instance.
+     * @param {string} text - The plain text.
+     * @returns {ReadabilityAnalysis} The counts, averages and scores of the text, and how reliable each score is.
+     */
+    protected analyzeExtracted(text: string): ReadabilityAnalysis {
+        return this.report(this.collectStatistics(this.transform(text)));
+    }
+
+    /**
+     * Computes every count and formula result from the given statistics.
+     * @param {TextStatistics} stats - The statistics of a text.
+     * @returns {ReadabilityAnalysis} The counts, averages and scores, and how reliable each score is.
+     */
+    private report(stats: TextStatistics): ReadabilityAnalysis {
+        const grade: number = formulas.textStandard(stats, this.settings);
+        const scores: ReadabilityScores = {
+            fleschReadingEase: formulas.fleschReadingEase(stats, this.settings),
+            fleschKincaidGrade: formulas.fleschKincaidGrade(stats, this.settings),
+            smogIndex: formulas.smogIndex(stats, this.settings),
+            colemanLiauIndex: formulas.colemanLiauIndex(stats, this.settings),
+            automatedReadabilityIndex: formulas.automatedReadabilityIndex(stats, this.settings),
+            linsearWriteFormula: formulas.linsearWriteFormula(stats, this.settings),
+            daleChallReadabilityScore: formulas.daleChallReadabilityScore(stats, this.settings),
+            gunningFog: formulas.gunningFog(stats, this.settings),
+            lix: formulas.lix(stats, this.settings),
+            rix: formulas.rix(stats, this.settings),
+            textStandard: grade,
+            textStandardLabel: Readability.gradeLabel(grade),
+            textMedian: formulas.textMedian(stats, this.settings),
+        };
+        const reliability = {} as Record<FormulaName, Reliability>;
+        for (let formula of formulas.formulaNames) {
+            reliability[formula] = formulas.reliability(formula, stats, scores[formula]);
+        }
+        return {
+            counts: {
+                chars: stats.chars,
+                letters: stats.letters,
+                words: stats.words,
+                sentences: stats.sentences,
+                syllables: stats.syllables,
+                polysyllables: stats.polysyllables,
+                difficultWords: stats.difficultWords,
+                complexWords: stats.complexWords,
+                longWords: stats.longWords,
+            },
+            averages: formulas.averages(stats, this.settings),
+            scores,
+            reliability,
+        };
+    }
+
+    /**
+     * Analyzes the comments written for readers in TypeScript, JavaScript and Python sources: block comments,
+     * the descriptions of JSDoc comments, and docstrings. Block tags such as `@param`, docstring sections such as
+     * `Args:`, and code are left out, and every comment is scored on its own. The language of every file is
+     * told by its extension. The `format` of the instance does not apply.
+     * @param {Record<string, string>} files - The sources, keyed by path.
+     * @returns {CommentAnalysis[]} The analysis of every comment with its file, line and symbol, file by file.
+     * @throws {TypeError} If a file is not a TypeScript, JavaScript or Python source.
+     * @example
+     * const comments = readability.analyzeComments({ 'src/parser.ts': readFileSync('src/parser.ts', 'utf8') });
+     * comments.filter(comment => comment.scores.fleschKincaidGrade > 12).map(comment => `${comment.file}:${comment.line} ${comment.symbol}`);
+     */
+    analyzeComments(files: Record<string, string>): CommentAnalysis[] {
+        const comments: CommentAnalysis[] = [];
+        for (let file of Object.keys(files)) {
+            const language: SourceLanguage | undefined = sourceLanguage(file);
+            if (!language) throw new TypeError(`Unsupported source file: ${file}`);
+            for (let comment of extractComments(files[file], language)) {
+                comments.push({ file, ...comment, ...this.analyzeExtracted(comment.text) });
+            }
+        }
+        return comments;
+    }
+
+    /**
+     * Analyzes the cues of an SRT or WebVTT subtitle file: the characters per second, words per minute and line
+     * lengths of every cue, flagged when they go over the given limits, and every count and formula over the
+     * transcript of all cues joined. The `format` of the instance does not apply.
+     * @param {string} text - The subtitle file.
+     * @param {SubtitleLimits} [limits={}] - The limits to flag cues over; each defaults to the one of `SubtitleLimits`.
+     * @returns {SubtitleAnalysis} The analysis of the transcript, and the reading speed and flags of every cue.
+     * @example
+     * const captions = readability.analyzeSubtitles(readFileSync('episode.srt', 'utf8'), { maxCharactersPerSecond: 20 });
+     * const tooFast = captions.cues.filter(cue => cue.flags.includes('charactersPerSecond'));
+     */
+    analyzeSubtitles(text: string, limits: SubtitleLimits = {}): SubtitleAnalysis {
+        const checked: Required<SubtitleLimits> = { ...defaultSubtitleLimits, ...limits };
+        const cues: CueAnalysis[] = parseSubtitles(text).map(cue => this.analyzeCue(cue, checked));
+        const transcript: string = cues.map(cue => cue.text).filter(Boolean).join(' ');
+        return {
+            ...this.analyzeExtracted(transcript),
+            transcript,
+            cues,
+            flagged: cues.filter(cue => cue.flags.length).length,
+        };
+    }
+
+    /**
+     * Measures the reading speed of a subtitle cue and checks it against the given limits.
+     * @param {SubtitleCue} cue - The cue.
+     * @param {Required<SubtitleLimits>} limits - The limits.
+     * @returns {CueAnalysis} The reading speed of the cue and the limits it goes over.
+     */
+    private analyzeCue(cue: SubtitleCue, limits: Required<SubtitleLimits>): CueAnalysis {
+        // timestamps are in milliseconds, so this only drops floating-point noise
+        const duration: number = Math.round((cue.end - cue.start) * 1000) / 1000;
+        const text: string = cue.lines.join(' ');
+        const lengths: number[] = cue.lines.map(line => [...line].length);
+        const characters: number = lengths.reduce((sum, length) => sum + length, 0);
+        const words: number = this.countWords(this.transform(text));
+        const charactersPerSecond: number = formulas.readingRate(characters, duration, 1, this.settings);
+        const wordsPerMinute: number = formulas.readingRate(words, duration, 60, this.settings);
+        const maxLineLength: number = Math.max(0, ...lengths);
+
+        const flags: CueFlag[] = [];
+        if (charactersPerSecond > limits.maxCharactersPerSecond) flags.push('charactersPerSecond');
+        if (wordsPerMinute > limits.maxWordsPerMinute) flags.push('wordsPerMinute');
+        if (maxLineLength > limits.maxLineLength) flags.push('lineLength');
+        if (cue.lines.length > limits.maxLines) flags.push('lines');
+        if (duration < limits.minDuration) flags.push('tooShort');
+        if (duration > limits.maxDuration) flags.push('tooLong');
+        return { ...cue, duration, text, characters, words, charactersPerSecond, wordsPerMinute, maxLineLength, flags };
+    }
+
+    /**
+     * Analyzes every sentence of the given text on its own.
+     * With the `'html'`, `'markdown'` and `'latex'` formats, the sentences and their offsets are those of the extracted text.
+     * @param {string} text - The text to analyze.
+     * @returns {SentenceAnalysis[]} The sentences with their offsets, counts and grade estimates.
+     * @example
+     * const hardest = readability.analyzeSentences(text)
+     *     .sort((a, b) => b.grades.fleschKincaidGrade - a.grades.fleschKincaidGrade)[0];
+     * highlight(hardest.start, hardest.end);
+     */
+    analyzeSentences(text: string): SentenceAnalysis[] {
+        const source: string = this.extract(text);
+        return Readability.locate(source, this.sentenceSplitter.split(source)).map(sentence => {
+            const stats: TextStatistics = this.collectStatistics(this.transform(sentence.text));
+            return {
+                ...sentence,
+                counted: stats.words > 2,
+                words: stats.words,
+                syllables: stats.syllables,
+                polysyllables: stats.polysyllables,
+                difficultWords: stats.difficultWords,
+                grades: {
+                    fleschKincaidGrade: formulas.fleschKincaidGrade(stats, this.settings),
+                    automatedReadabilityIndex: formulas.automatedReadabilityIndex(stats, this.settings),
+                    colemanLiauIndex: formulas.colemanLiauIndex(stats, this.settings),
+                    gunningFog: formulas.gunningFog(stats, this.settings),
+                },
+            };
+        });
+    }
+
+    /**
+     * Returns every word that makes the given text harder to read, with its offsets and the reasons it was flagged:
+     * - `difficult`: not on the easy word list and two or more syllables (Dale-Chall).
+     * - `polysyllabic`: three or more syllables (SMOG).
+     * - `long`: more than six characters (LIX and RIX).
+     *
+     * With the `'html'`, `'markdown'` and `'latex'` formats, the words and their offsets are those of the extracted text.
+     * Words are looked up normalized and folded as the instance is configured, and their offsets stay on the text as given.
+     * @param {string} text - The text to annotate.
+     * @returns {WordAnnotation[]} The flagged words, without surrounding punctuation, in order.
+     * @example
+     * readability.annotate('Extraordinary cats.');
+     * // [{ text: 'Extraordinary', start: 0, end: 13, syllables: 6, reasons: ['difficult', 'polysyllabic', 'long'] }]
+     */
+    annotate(text: string): WordAnnotation[] {
+        const annotations: WordAnnotation[] = [];
+        const source: string = this.extract(text);
+        for (let word of Readability.locate(source, this.tokenizer.tokenize(source))) {
+            let { start, end } = word;
+            while (start < end && !this.removePunctuation(source[start])) start += 1;
+            while (end > start && !this.removePunctuation(source[end - 1])) end -= 1;
+            if (start === end) continue;
+
+            // words are looked up as the counts see them, normalized and folded
+            const counted: string = this.normalizeText(word.text);
+            const syllables: number = this.wordSyllables(counted);
+            const reasons: WordFlag[] = [];
+            if (syllables >= 2 && !this.isEasyWord(counted)) reasons.push('difficult');
+            if (syllables >= 3) reasons.push('polysyllabic');
+            if (counted.length > 6) reasons.push('long');
+            if (reasons.length) {
+                annotations.push({ text: source.slice(start, end), start, end, syllables, reasons });
+            }
+        }
+        return annotations;
+    }
+
     /**
      * Returns the average sentence length of the given text.
      * @param {string} text - The text to calculate the average sentence length of.
      * @returns {number} The average sentence length.
      */
     averageSentenceLength(text: string): number {
-        const asl: number = this.lexiconCount(text) / this.sentenceCount(text);
-        const returnVal: number = Math.legacyRound(asl, 1);
-        return !isNaN(returnVal) ? returnVal : 0.0;
+        return formulas.averageSentenceLength(this.statistics(text), this.settings);
     }
 
     /**
@@ -144,11 +741,7 @@ class Readability {
      * @returns {number} The average syllable per word.
      */
     averageSyllablePerWord(text: string): number {
-        const syllables: number = this.syllableCount(text);
-        const words: number = this.lexiconCount(text);
-        const syllablePerWord: number = syllables / words;
-        const returnVal: number = Math.legacyRound(syllablePerWord, 1);
-        return !isNaN(returnVal) ? returnVal : 0.0;
+        return formulas.averageSyllablePerWord(this.statistics(text), this.settings);
     }
 
     /**
@@ -157,9 +750,7 @@ class Readability {
      * @returns {number} The average character per word.
      */
     averageCharacterPerWord(text: string): number {
-        const charactersPerWord: number = this.charCount(text) / this.lexiconCount(text);
-        const returnVal: number = Math.legacyRound(charactersPerWord, 2);
-        return !isNaN(returnVal) ? returnVal : 0.0;
+        return formulas.averageCharacterPerWord(this.statistics(text), this.settings);
     }
 
     /**
@@ -168,9 +759,7 @@ class Readability {
      * @returns {number} The average letter per word.
      */
     averageLetterPerWord(text: string): number {
-        const lettersPerWord: number = this.letterCount(text) / this.lexiconCount(text);
-        const returnVal: number = Math.legacyRound(lettersPerWord, 2);
-        return !isNaN(returnVal) ? returnVal : 0.0;
+        return formulas.averageLetterPerWord(this.statistics(text), this.settings);
     }
 
     /**
@@ -179,9 +768,7 @@ class Readability {
      * @returns {number} The average sentence per word.
      */
     averageSentencePerWord(text: string): number {
-        const sentencesPerWord: number = this.sentenceCount(text) / this.lexiconCount(text);
-        const returnVal: number = Math.legacyRound(sentencesPerWord, 2);
-        return !isNaN(returnVal) ? returnVal : 0.0;
+        return formulas.averageSentencePerWord(this.statistics(text), this.settings);
     }
 
     /**
@@ -190,22 +777,20 @@ class Readability {
      * @returns {number} The Flesch Reading Ease Score.
      */
     fleschReadingEase(text: string): number {
-        const sentenceLength: number = this.averageSentenceLength(text);
-        const syllablesPerWord: number = this.averageSyllablePerWord(text);
-        const flesch: number = 206.835 - (1.015 * sentenceLength) - (84.6 * syllablesPerWord);
-        const returnVal: number = Math.legacyRound(flesch, 2);
-        return returnVal;
+        return formulas.fleschReadingEase(this.statistics(text), this.settings);
+    }
+
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `fleschReadingEase`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainFleschReadingEase(text: string): FormulaExplanation {
+        return formulas.explainFleschReadingEase(this.statistics(text), this.settings);
     }
 
     fleschReadingEaseToGrade(score: number): number {
-        if (score < 100 && score >= 90) return 5;
-        else if (score < 90 && score >= 80) return 6;
-        else if (score < 80 && score >= 70) return 7;
-        else if (score < 70 && score >= 60) return 8.5;
-        else if (score < 60 && score >= 50) return 11;
-        else if (score < 50 && score >= 40) return 13; // college
-        else if (score < 40 && score >= 30) return 15;
-        else return 16;
+        return formulas.fleschReadingEaseToGrade(score);
     }
     /**
      * Returns the Flesch-Kincaid Grade of the given text.
@@ -213,11 +798,16 @@ class Readability {
      * @returns {number} The Flesch-Kincaid Grade.
      */
     fleschKincaidGrade(text: string): number {
-        const sentenceLength: number = this.averageSentenceLength(text);
-        const syllablePerWord: number = this.averageSyllablePerWord(text);
-        const flesch: number = 0.39 * sentenceLength + 11.8 * syllablePerWord - 15.59;
-        const returnVal: number = Math.legacyRound(flesch, 1);
-        return returnVal;
+        return formulas.fleschKincaidGrade(this.statistics(text), this.settings);
+    }
+
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `fleschKincaidGrade`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainFleschKincaidGrade(text: string): FormulaExplanation {
+        return formulas.explainFleschKincaidGrade(this.statistics(text), this.settings);
     }
 
     /**
@@ -228,8 +818,8 @@ class Readability {
     polySyllableCount(text: string): number {
         let count: number = 0;
         let wrds: number = 0;
-        for (let word of Readability.split(text)) {
-            wrds = this.syllableCount(word);
+        for (let word of this.tokenizer.tokenize(this.prepare(text))) {
+            wrds = this.wordSyllables(word);
             if (wrds >= 3) count += 1;
         }
         return count;
@@ -241,14 +831,16 @@ class Readability {
      * @returns {number} The SMOG index.
      */
     smogIndex(text: string): number {
-        const sentences: number = this.sentenceCount(text);
-        if (sentences >= 3) {
-            const polySyllab: number = this.polySyllableCount(text);
-            const smog: number = 1.043 * (30 * (polySyllab / sentences)) ** 0.5 + 3.1291;
-            const returnVal: number = Math.legacyRound(smog, 1);
-            return !isNaN(returnVal) ? returnVal : 0.0;
-        }
-        return 0.0;
+        return formulas.smogIndex(this.statistics(text), this.settings);
+    }
+
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `smogIndex`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainSmogIndex(text: string): FormulaExplanation {
+        return formulas.explainSmogIndex(this.statistics(text), this.settings);
     }
 
     /**
@@ -257,10 +849,16 @@ class Readability {
      * @returns {number} The grade level.
      */
     colemanLiauIndex(text: string): number {
-        const letters: number = Math.legacyRound(this.averageLetterPerWord(text) * 100, 2);
-        const sentences: number = Math.legacyRound(this.averageSentencePerWord(text) * 100, 2);
-        const coleman: number = 0.058 * letters - 0.296 * sentences - 15.8;
-        return Math.legacyRound(coleman, 2);
+        return formulas.colemanLiauIndex(this.statistics(text), this.settings);
+    }
+
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `colemanLiauIndex`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainColemanLiauIndex(text: string): FormulaExplanation {
+        return formulas.explainColemanLiauIndex(this.statistics(text), this.settings);
     }
 
     /**
@@ -269,19 +867,16 @@ class Readability {
      * @returns {number} The ARI.
      */
     automatedReadabilityIndex(text: string): number {
-        const characters: number = this.charCount(text);
-        const words: number = this.lexiconCount(text);
-        const sentences: number = this.sentenceCount(text);
+        return formulas.automatedReadabilityIndex(this.statistics(text), this.settings);
+    }
 
-        const averageCharacterPerWord: number = characters / words;
-        const averageWordPerSentence: number = words / sentences;
-        const readability: number = (
-            (4.71 * Math.legacyRound(averageCharacterPerWord, 2)) +
-            (0.5 * Math.legacyRound(averageWordPerSentence, 2)) -
-            21.43
-        );
-        const returnVal: number = Math.legacyRound(readability, 1);
-        return !isNaN(returnVal) ? returnVal : 0.0;
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `automatedReadabilityIndex`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainAutomatedReadabilityIndex(text: string): FormulaExplanation {
+        return formulas.explainAutomatedReadabilityIndex(this.statistics(text), this.settings);
     }
 
     /**
@@ -290,22 +885,16 @@ class Readability {
      * @returns {number} The grade level.
      */
     linsearWriteFormula(text: string): number {
-        let easyWord: number = 0;
-        let difficultWord: number = 0;
-        let textList: string[] = Readability.split(text).slice(0, 100);
+        return formulas.linsearWriteFormula(this.statistics(text), this.settings);
+    }
 
-        for (let word of textList) {
-            if (this.syllableCount(word) < 3) {
-                easyWord += 1;
-            } else {
-                difficultWord += 1;
-            }
-        }
-        text = textList.join(' ');
-        let number: number = (easyWord * 1 + difficultWord * 3) / this.sentenceCount(text);
-        let returnVal: number = number <= 20 ? (number - 2) / 2 : number / 2;
-        returnVal = Math.legacyRound(returnVal, 1);
-        return !isNaN(returnVal) ? returnVal : 0.0;
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `linsearWriteFormula`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainLinsearWriteFormula(text: string): FormulaExplanation {
+        return formulas.explainLinsearWriteFormula(this.statistics(text), this.settings);
     }
 
     /**
@@ -324,14 +913,14 @@ class Readability {
         if (word.length < 6)
             return word;
         if (word.endsWith('ed')) {
-            if (easyWordSet.has(word.slice(0, -1)))
+            if (this.easyWordSet.has(word.slice(0, -1)))
                 return word.slice(0, -1); // "easy" word ending in e
             else
                 return word.slice(0, -2); // assume we remove "ed"
         }
         if (word.endsWith('ing')) {
             const suffixIngToE: string = word.slice(0, -3) + "e"; // e.g. forcing -> force
-            if (easyWordSet.has(suffixIngToE))
+            if (this.easyWordSet.has(suffixIngToE))
                 return suffixIngToE;
             else
                 return word.slice(0, -3);
@@ -339,6 +928,66 @@ class Readability {
         return word;
     }
 
+    /**
+     * Returns a syllable counter for the words of one text, which counts every distinct word once.
+     * @returns {(word: string) => number} The counter.
+     */
+    private cachedSyllables(): (word: string) => number {
+        const cache: Map<string, number> = new Map();
+        return (word: string): number => {
+            let count: number | undefined = cache.get(word);
+            if (count === undefined) {
+                count = this.wordSyllables(word);
+                cache.set(word, count);
+            }
+            return count;
+        };
+    }
+
+    /**
+     * Returns the distinct words of the given tokens that are not on the easy word list, in order of appearance.
+     * @param {string[]} tokens - The tokens of the prepared text.
+     * @param {(word: string) => number} syllables - The syllable counter of the text.
+     * @returns {Map<string, DifficultWord>} The words, keyed by their lemma, so that every case and form of a word is one entry.
+     */
+    private uncommonWords(tokens: string[], syllables: (word: string) => number): Map<string, DifficultWord> {
+        const words: Map<string, DifficultWord> = new Map();
+        const easyWords: Set<string> = new Set();
+        for (let word of tokens) {
+            if (easyWords.has(word)) continue;
+            if (this.isEasyWord(word)) {
+                easyWords.add(word);
+                continue;
+            }
+            const lemma: string = this.lemmatize(word);
+            const known: DifficultWord | undefined = words.get(lemma);
+            if (known) known.occurrences += 1;
+            else words.set(lemma, { word, lemma, syllables: syllables(word), occurrences: 1 });
+        }
+        return words;
+    }
+
+    /**
+     * Returns whether the given word is easy: as overridden, or else whether it is on the easy word list
+     * once lowercased, passed through `pluralize` and in the present tense (see `lemmatize`).
+     * @param {string} word - The word to look up.
+     * @returns {boolean} Whether the word is easy.
+     */
+    private isEasyWord(word: string): boolean {
+        const easy: boolean | undefined = this.overrides.get(this.overrideKey(word))?.easy;
+        if (easy !== undefined) return easy;
+        return this.easyWordSet.has(this.lemmatize(word));
+    }
+
+    /**
+     * Returns the form of the given word that is looked up in the easy word list.
+     * @param {string} word - The word to normalize.
+     * @returns {string} The lowercased word with straight apostrophes, passed through `pluralize` and `presentTense`.
+     */
+    private lemmatize(word: string): string {
+        return this.presentTense(pluralize(word.toLocaleLowerCase(this.language).replace(/’/g, "'")));
+    }
+
     /**
      * Returns the number of difficult words in the given text.
      * @param {string} text - The text to count the difficult words of.
@@ -346,19 +995,26 @@ class Readability {
      * @returns {number} The number of difficult words.
      */
     difficultWords(text: string, syllableThreshold: number = 2): number {
-        const textList: string[] | null = text.match(/[\w=‘’]+/g);
-        const diffWordsSet: Set<string> = new Set();
-        if (textList === null)
-            return diffWordsSet.size;
-        for (let word of textList) {
-            const normalized: string = this.presentTense(pluralize(word.toLocaleLowerCase()));
-            // console.log(`difficultWords(${word}): norm=${normalized}, `
-            //             `${this.syllableCount(word)} syllables, easy? ${easyWordSet.has(normalized)}`)
-            if (!easyWordSet.has(normalized) && this.syllableCount(word) >= syllableThreshold) {
-                diffWordsSet.add(word);
-            }
+        return this.difficultWordList(text, syllableThreshold).length;
+    }
+
+    /**
+     * Returns the difficult words of the given text, the ones `difficultWords` counts.
+     * @param {string} text - The text to collect the difficult words of.
+     * @param {number} [syllableThreshold=2] - The syllable threshold.
+     * @returns {DifficultWord[]} The distinct difficult words, every case and form of a word as one entry, in order of appearance.
+     * @example
+     * readability.difficultWordList('Glossaries define terminology. Terminology matters.');
+     * // [{ word: 'Glossaries', lemma: 'glossaries', syllables: 3, occurrences: 1 },
+     * //  { word: 'terminology', lemma: 'terminologies', syllables: 5, occurrences: 2 }]
+     */
+    difficultWordList(text: string, syllableThreshold: number = 2): DifficultWord[] {
+        const words: DifficultWord[] = [];
+        const tokens: string[] = this.tokenizer.tokenize(this.prepare(text));
+        for (let word of this.uncommonWords(tokens, this.cachedSyllables()).values()) {
+            if (word.syllables >= syllableThreshold) words.push(word);
         }
-        return diffWordsSet.size;
+        return words;
     }
 
     /**
@@ -367,15 +1023,16 @@ class Readability {
      * @returns {number} The score.
      */
     daleChallReadabilityScore(text: string): number {
-        const wordCount: number = this.lexiconCount(text);
-        const count: number = wordCount - this.difficultWords(text);
-        const per: number = (count / wordCount * 100);
-        if (isNaN(per)) return 0.0;
-        const difficultWords: number = 100 - per;
-        // console.log('difficult words : ', difficultWords)
-        let score: number = (0.1579 * difficultWords) + (0.0496 * this.averageSentenceLength(text));
-        if (difficultWords > 5) score += 3.6365;
-        return Math.legacyRound(score, 2);
+        return formulas.daleChallReadabilityScore(this.statistics(text), this.settings);
+    }
+
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `daleChallReadabilityScore`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainDaleChallReadabilityScore(text: string): FormulaExplanation {
+        return formulas.explainDaleChallReadabilityScore(this.statistics(text), this.settings);
     }
 
     /**
@@ -384,13 +1041,7 @@ class Readability {
      * @returns {number} The grade level.
      */
     daleChallToGrade(score: number): number {
-        if (score <= 4.9) return 4;
-        if (score < 5.9) return 5;
-        if (score < 6.9) return 7;
-        if (score < 7.9) return 9;
-        if (score < 8.9) return 11;
-        if (score < 9.9) return 13;
-        else return 16;
+        return formulas.daleChallToGrade(score);
     }
 
     /**
@@ -399,10 +1050,16 @@ class Readability {
      * @returns {number} The FOG index.
      */
     gunningFog(text: string): number {
-        const perDiffWords: number = (this.difficultWords(text, 3) / this.lexiconCount(text) * 100);
-        const grade: number = 0.4 * (this.averageSentenceLength(text) + perDiffWords);
-        const returnVal: number = Math.legacyRound(grade, 2);
-        return !isNaN(returnVal) ? returnVal : 0.0;
+        return formulas.gunningFog(this.statistics(text), this.settings);
+    }
+
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `gunningFog`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainGunningFog(text: string): FormulaExplanation {
+        return formulas.explainGunningFog(this.statistics(text), this.settings);
     }
 
     /**
@@ -411,13 +1068,16 @@ class Readability {
      * @returns {number} The LIX.
      */
     lix(text: string): number {
-        const words: string[] = Readability.split(text);
-        const wordsLen: number = words.length;
-        const longWords: number = words.filter(wrd => wrd.length > 6).length;
-        const perLongWords: number = longWords * 100 / wordsLen;
-        const asl: number = this.averageSentenceLength(text);
-        const lix: number = asl + perLongWords;
-        return Math.legacyRound(lix, 2);
+        return formulas.lix(this.statistics(text), this.settings);
+    }
+
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `lix`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainLix(text: string): FormulaExplanation {
+        return formulas.explainLix(this.statistics(text), this.settings);
     }
 
     /**
@@ -426,11 +1086,27 @@ class Readability {
      * @returns {number} The RIX.
      */
     rix(text: string): number {
-        const words: string[] = Readability.split(text);
-        const longWordsCount: number = words.filter(wrd => wrd.length > 6).length;
-        const sentencesCount: number = this.sentenceCount(text);
-        const rix: number = longWordsCount / sentencesCount;
-        return !isNaN(rix) ? Math.legacyRound(rix, 2) : 0.0;
+        return formulas.rix(this.statistics(text), this.settings);
+    }
+
+    /**
+     * Returns the inputs, coefficients and intermediate values behind `rix`.
+     * @param {string} text - The text to explain the score of.
+     * @returns {FormulaExplanation} The explanation.
+     */
+    explainRix(text: string): FormulaExplanation {
+        return formulas.explainRix(this.statistics(text), this.settings);
+    }
+
+    /**
+     * Returns the "Nth and (N+1)th grade" label of the given consensus grade.
+     * @param {number} grade - The consensus grade.
+     * @returns {string} The grade label.
+     */
+    private static gradeLabel(grade: number): string {
+        const lowerScore: number = Math.floor(grade) - 1;
+        const upperScore: number = lowerScore + 1;
+        return `${lowerScore}${Readability.getGradeSuffix(lowerScore)} and ${upperScore}${Readability.getGradeSuffix(upperScore)} grade`;
     }
 
     /**
@@ -440,78 +1116,9 @@ class Readability {
      * @returns {number|string} The grade level.
      */
     textStandard(text: string, floatOutput: boolean | null = null): string | number {
-        const grade: number[] = [];
-        // Appending Flesch Kincaid Grade
-        let lower: number = Math.legacyRound(this.fleschKincaidGrade(text));
-        let upper: number = Math.ceil(this.fleschKincaidGrade(text));
-        grade.push(Math.floor(lower));
-        grade.push(Math.floor(upper));
-
-        let score: number = this.fleschReadingEase(text);
-        let freGrade: number = this.fleschReadingEaseToGrade(score);
-        grade.push(freGrade);
-
-        // console.log('grade till now: \n', grade)
-
-        lower = Math.legacyRound(this.smogIndex(text));
-        upper = Math.ceil(this.smogIndex(text));
-        grade.push(Math.floor(lower));
-        grade.push(Math.floor(upper));
-
-        // Appending Coleman_Liau_Index
-        lower = Math.legacyRound(this.colemanLiauIndex(text));
-        upper = Math.ceil(this.colemanLiauIndex(text));
-        grade.push(Math.floor(lower));
-        grade.push(Math.floor(upper));
-
-        // Appending Automated_Readability_Index
-        lower = Math.legacyRound(this.automatedReadabilityIndex(text));
-        upper = Math.ceil(this.automatedReadabilityIndex(text));
-        grade.push(Math.floor(lower));
-        grade.push(Math.floor(upper));
-
-        // console.log('grade till now : 2 : \n', grade)
-
-        // Appending  Dale_Chall_Readability_Score
-        lower = Math.legacyRound(this.daleChallToGrade(this.daleChallReadabilityScore(text)));
-        upper = Math.ceil(this.daleChallToGrade(this.daleChallReadabilityScore(text)));
-        grade.push(Math.floor(lower));
-        grade.push(Math.floor(upper));
-
-        // Appending linsearWriteFormula
-        lower = Math.legacyRound(this.linsearWriteFormula(text));
-        upper = Math.ceil(this.linsearWriteFormula(text));
-        grade.push(Math.floor(lower));
-        grade.push(Math.floor(upper));
-
-        // Appending Gunning Fog Index
-        lower = Math.legacyRound(this.gunningFog(text));
-        upper = Math.ceil(this.gunningFog(text));
-        grade.push(Math.floor(lower));
-        grade.push(Math.floor(upper));
-
-        // d = Counter(grade)
-        // final_grade = d.most_common(1)
-        // score = final_grade[0][0]
-
-        // if float_output:
-        //     return float(score)
-        // else:
-        //     lower_score = int(score) - 1
-        //     upper_score = lower_score + 1
-        //     return "{}{} and {}{} grade".format(
-        //         lower_score, get_grade_suffix(lower_score),
-        //         upper_score, get_grade_suffix(upper_score)
-        //     )
-        // Finding the Readability Consensus based upon all the above tests
-        // console.log('grade List: ', grade)
-        const counterMap: [number, number][] = [...new Set(grade)].map(x => [x, grade.filter(y => y === x).length]);
-        const finalGrade: [number, number] = counterMap.reduce((x, y) => y[1] >= x[1] ? y : x);
-        score = finalGrade[0];
+        const score: number = formulas.textStandard(this.statistics(text), this.settings);
         if (floatOutput) return score;
-        const lowerScore: number = Math.floor(score) - 1;
-        const upperScore: number = lowerScore + 1;
-        return `${lowerScore}${Readability.getGradeSuffix(lowerScore)} and ${upperScore}${Readability.getGradeSuffix(upperScore)} grade`;
+        return Readability.gradeLabel(score);
     }
 
     /**
@@ -520,40 +1127,73 @@ class Readability {
      * @returns {number} The median grade level.
      */
     textMedian(text: string): number {
-        const grade: number[] = [];
-        // Appending Flesch Kincaid Grade
-        grade.push(this.fleschKincaidGrade(text));
-
-        const score: number = this.fleschReadingEase(text);
-        const freGrade: number = this.fleschReadingEaseToGrade(score);
-        grade.push(freGrade);
-
-        grade.push(this.smogIndex(text));
-
-        // Appending Coleman_Liau_Index
-        grade.push(this.colemanLiauIndex(text));
-
-        // Appending Automated_Readability_Index
-        grade.push(this.automatedReadabilityIndex(text));
+        return formulas.textMedian(this.statistics(text), this.settings);
+    }
+}
 
-        // Appending  Dale_Chall_Readability_Score
-        grade.push(this.daleChallToGrade(this.daleChallReadabilityScore(text)));
+const instance: Readability = new Readability();
 
-        // Appending linsearWriteFormula
-        grade.push(this.linsearWriteFormula(text));
+/**
+ * The shared instance with the default settings, as `module.exports`. The classes, and the instance itself as
+ * `default`, are attached to it, so that CommonJS code can call `require('text-readability-ts').fleschReadingEase(text)`
+ * and `new (require('text-readability-ts').Readability)()`, and compiled ES imports find the same names.
+ */
+const readability: Readability & {
+    default: Readability;
+    Readability: typeof Readability;
+    DefaultSentenceSplitter: typeof DefaultSentenceSplitter;
+    DefaultTokenizer: typeof DefaultTokenizer;
+} = Object.assign(instance, { default: instance, Readability, DefaultSentenceSplitter, DefaultTokenizer });
 
-        // Appending Gunning Fog Index
-        grade.push(this.gunningFog(text));
+// the classes as types, under names that the namespace below does not shadow
+type ReadabilityInstance = Readability;
+type DefaultSentenceSplitterInstance = DefaultSentenceSplitter;
+type DefaultTokenizerInstance = DefaultTokenizer;
 
-        // compute median
-        grade.sort(function (a, b) { return a - b });
-        let half: number = Math.floor(grade.length / 2);
-        if (half & 0x1)
-            return (grade[half - 1] + grade[half]) / 2;
-        else
-            return grade[half];
-    }
+// the types of the package, for `import { ReadabilityOptions } from 'text-readability-ts'`
+declare namespace readability {
+    export type Readability = ReadabilityInstance;
+    export type DefaultSentenceSplitter = DefaultSentenceSplitterInstance;
+    export type DefaultTokenizer = DefaultTokenizerInstance;
+    export type BookAnalysis = types.BookAnalysis;
+    export type ChapterAnalysis = types.ChapterAnalysis;
+    export type CharacterMap = types.CharacterMap;
+    export type CommentAnalysis = types.CommentAnalysis;
+    export type CommentKind = types.CommentKind;
+    export type CueAnalysis = types.CueAnalysis;
+    export type CueFlag = types.CueFlag;
+    export type DifficultWord = types.DifficultWord;
+    export type DocumentAnalysis = types.DocumentAnalysis;
+    export type DocumentSection = types.DocumentSection;
+    export type FormulaExplanation = types.FormulaExplanation;
+    export type FormulaName = types.FormulaName;
+    export type GradeSpread = types.GradeSpread;
+    export type NormalizationForm = types.NormalizationForm;
+    export type ReadabilityAnalysis = types.ReadabilityAnalysis;
+    export type ReadabilityOptions = types.ReadabilityOptions;
+    export type ReadabilityScores = types.ReadabilityScores;
+    export type ReadabilityWarning = types.ReadabilityWarning;
+    export type Reliability = types.Reliability;
+    export type RoundingMode = types.RoundingMode;
+    export type SentenceAnalysis = types.SentenceAnalysis;
+    export type SentenceSplitter = types.SentenceSplitter;
+    export type SubtitleAnalysis = types.SubtitleAnalysis;
+    export type SubtitleLimits = types.SubtitleLimits;
+    export type SyllableBackend = types.SyllableBackend;
+    export type SyllableCounter = types.SyllableCounter;
+    export type SyllableDictionary = types.SyllableDictionary;
+    export type SyllableReport = types.SyllableReport;
+    export type SyllableSource = types.SyllableSource;
+    export type TextAverages = types.TextAverages;
+    export type TextCounts = types.TextCounts;
+    export type TextFormat = types.TextFormat;
+    export type TextSpan = types.TextSpan;
+    export type Tokenizer = types.Tokenizer;
+    export type WordAnnotation = types.WordAnnotation;
+    export type WordFlag = types.WordFlag;
+    export type WordOverride = types.WordOverride;
+    export type WordOverrides = types.WordOverrides;
+    export type WordSyllables = types.WordSyllables;
 }
 
-const readability: Readability = new Readability();
 export = readability;
@@ -0,0 +1,7 @@
+import readability from './index';
+
+// The ES module build: the shared instance is the default export, and the classes are named exports too.
+export default readability;
+export const Readability: typeof readability.Readability = readability.Readability;
+export const DefaultSentenceSplitter: typeof readability.DefaultSentenceSplitter = readability.DefaultSentenceSplitter;
+export const DefaultTokenizer: typeof readability.DefaultTokenizer = readability.DefaultTokenizer;
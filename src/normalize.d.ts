@@ -1,4 +1,8 @@
-declare module './normalize' {
-    function normalize(str: string, custom_charmap?: { [key: string]: string }): string;
-    export = normalize;
-}
\ No newline at end of file
+/**
+ * Replaces every character of the given string that the character map has with its replacement.
+ * @param {string} str - The string.
+ * @param {{ [key: string]: string }} [custom_charmap] - The replacements, keyed by character code. Defaults to the bundled map of accented Latin letters.
+ * @returns {string} The string with the characters replaced.
+ */
+declare function normalize(str: string, custom_charmap?: { [key: string]: string }): string;
+export = normalize;
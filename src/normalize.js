@@ -5,12 +5,12 @@ function normalize(str, custom_charmap) {
   var regex = buildRegExp(current_charmap);
 
   return str.replace(regex, function (charToReplace) {
-    return charmap[charToReplace.charCodeAt(0)] || charToReplace;
+    return current_charmap[charToReplace.charCodeAt(0)] || charToReplace;
   });
 }
 
 function buildRegExp(charmap) {
-  return new RegExp('[' + Object.keys(charmap).map(function (code) { return String.fromCharCode(code); }).join(' ') + ']', 'g');
+  return new RegExp('[' + Object.keys(charmap).map(function (code) { return String.fromCharCode(code).replace(/[\\\]^-]/g, '\\$&'); }).join('') + ']', 'g');
 }
 
 module.exports = normalize;
\ No newline at end of file
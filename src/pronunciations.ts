@@ -0,0 +1,41 @@
+import pronunciations from '../data/pronunciations';
+
+let dictionary: Map<string, number> | undefined;
+
+/**
+ * Decodes the front coded word lists of the pronunciation dictionary, on first use.
+ * @returns {Map<string, number>} The syllable count of every word.
+ */
+function load(): Map<string, number> {
+    if (dictionary) return dictionary;
+    dictionary = new Map();
+    for (let key of Object.keys(pronunciations)) {
+        const syllables: number = Number(key);
+        let previous: string = '';
+        for (let entry of pronunciations[syllables].match(/\d\D*/g) ?? []) {
+            previous = previous.slice(0, Number(entry[0])) + entry.slice(1);
+            dictionary.set(previous, syllables);
+        }
+    }
+    return dictionary;
+}
+
+/**
+ * Looks the syllable count of an English word up in the bundled pronunciation dictionary.
+ * Hyphenated compounds are found when every part is.
+ * @param {string} word - The lowercased word, with or without surrounding punctuation.
+ * @returns {number | undefined} The syllable count, or `undefined` when the dictionary does not have the word.
+ * @example
+ * lookupSyllables('business'); // 2
+ * lookupSyllables('well-known'); // 2
+ */
+export function lookupSyllables(word: string): number | undefined {
+    const words: Map<string, number> = load();
+    let syllables: number = 0;
+    for (let part of word.replace(/’/g, "'").split(/[-‐‑]/)) {
+        const count: number | undefined = words.get(part.replace(/^[^a-z]+|[^a-z]+$/g, ''));
+        if (count === undefined) return undefined;
+        syllables += count;
+    }
+    return syllables;
+}
@@ -0,0 +1,25 @@
+/**
+ * Returns `x` with the sign of `y`, like Python's `math.copysign`.
+ * @param {number} x - The magnitude.
+ * @param {number} y - The value whose sign to copy.
+ * @returns {number} `x` with the sign of `y`.
+ */
+export function copySign(x: number, y: number): number {
+    const negative: boolean = y < 0 || Object.is(y, -0);
+    return negative ? -Math.abs(x) : Math.abs(x);
+}
+
+/**
+ * Rounds half away from zero, the way textstat's `_legacy_round` does.
+ * @param {number} number - The number to round.
+ * @param {number} [points=0] - The number of decimals to keep.
+ * @returns {number} The rounded number.
+ * @example
+ * legacyRound(2.5); // 3
+ * legacyRound(3.14159, 2); // 3.14
+ */
+export function legacyRound(number: number, points: number = 0): number {
+    const p: number = 10 ** points;
+    // return float(math.floor((number * p) + math.copysign(0.5, number))) / p
+    return Math.floor((number * p) + copySign(0.5, number)) / p;
+}
@@ -0,0 +1,99 @@
+import abbreviations, { finalAbbreviations, numberAbbreviations } from '../data/abbreviations';
+import { SentenceSplitter, TextSpan } from './types';
+
+const abbreviationSet: Set<string> = new Set(abbreviations);
+const finalAbbreviationSet: Set<string> = new Set(finalAbbreviations);
+const numberAbbreviationSet: Set<string> = new Set(numberAbbreviations);
+
+// Terminal punctuation with any closing quotes or brackets, followed by
+// whitespace or the end of the text, or a blank line (paragraph break).
+const boundaryRE: RegExp = /[.?!…]+['"’”»)\]]*(?=\s|$)|\n[ \t]*\n/g;
+const closingRE: RegExp = /['"’”»)\]]+$/;
+const openingRE: RegExp = /^['"‘“«(\[]+/;
+
+/**
+ * Returns the trimmed part of `text` between `start` and `end`, with its offsets.
+ * @param {string} text - The whole text.
+ * @param {number} start - The start offset.
+ * @param {number} end - The end offset (exclusive).
+ * @returns {TextSpan} The span.
+ */
+export function span(text: string, start: number, end: number): TextSpan {
+    while (start < end && /\s/.test(text[start])) start += 1;
+    while (end > start && /\s/.test(text[end - 1])) end -= 1;
+    return { text: text.slice(start, end), start, end };
+}
+
+/**
+ * Returns whether the terminal punctuation between `start` and `end` ends a sentence.
+ * @param {string} text - The whole text.
+ * @param {number} start - The offset of the punctuation.
+ * @param {number} end - The offset after the punctuation and its closing quotes.
+ * @returns {boolean} Whether the punctuation ends a sentence.
+ */
+function endsSentence(text: string, start: number, end: number): boolean {
+    const punctuation: string = text.slice(start, end).replace(closingRE, '');
+    if (/[?!]/.test(punctuation)) return true;
+
+    const next: string = text.slice(end).replace(/^\s+/, '').replace(openingRE, '');
+    if (!next) return true;
+    // an ellipsis only ends a sentence when the next one starts like a sentence
+    if (punctuation.length > 1 || punctuation === '…') return !/^\p{Ll}/u.test(next);
+
+    const previous: string = (text.slice(0, start).match(/\S*$/) as RegExpMatchArray)[0].replace(openingRE, '');
+    const word: string = previous.toLowerCase();
+    // initials, as in "J. R. R. Tolkien"; "I" is a word of its own
+    if (/^\p{Lu}$/u.test(previous) && previous !== 'I') return false;
+    // dotted abbreviations, as in "U.S." or "e.g."
+    if (/^(\p{L}\.)+\p{L}$/u.test(previous)) return finalAbbreviationSet.has(word) && /^\p{Lu}/u.test(next);
+    if (abbreviationSet.has(word)) return false;
+    if (numberAbbreviationSet.has(word)) return !/^\d/.test(next);
+    if (finalAbbreviationSet.has(word)) return /^\p{Lu}/u.test(next);
+    return true;
+}
+
+/**
+ * Splits the given text into sentences, keeping their offsets in the text.
+ *
+ * A sentence ends at `.`, `?`, `!` or an ellipsis followed by whitespace, and
+ * at blank lines. Closing quotes and brackets stay with the sentence they
+ * close. A period does not end a sentence after an abbreviation ("Dr.",
+ * "U.S.", "e.g."), an initial ("J."), "No." before a number, or inside a
+ * number ("3.14"). An ellipsis does not end a sentence that goes on in
+ * lowercase.
+ * @param {string} text - The text to split.
+ * @returns {TextSpan[]} The sentences, trimmed, with their terminal punctuation. Empty text gives one empty sentence.
+ * @example
+ * splitSentences('Dr. Smith joined the U.S. Army. He left.').map(sentence => sentence.text);
+ * // ['Dr. Smith joined the U.S. Army.', 'He left.']
+ */
+export function splitSentences(text: string): TextSpan[] {
+    const sentences: TextSpan[] = [];
+    let start: number = 0;
+    let match: RegExpExecArray | null;
+    boundaryRE.lastIndex = 0;
+    while ((match = boundaryRE.exec(text)) !== null) {
+        const end: number = match.index + match[0].length;
+        if (match[0][0] !== '\n' && !endsSentence(text, match.index, end)) continue;
+        const sentence: TextSpan = span(text, start, end);
+        if (sentence.text) sentences.push(sentence);
+        start = end;
+    }
+    const rest: TextSpan = span(text, start, text.length);
+    if (rest.text || !sentences.length) sentences.push(rest);
+    return sentences;
+}
+
+/**
+ * The built-in sentence splitter, with the rules of {@link splitSentences}.
+ */
+export class DefaultSentenceSplitter implements SentenceSplitter {
+    /**
+     * Splits the given text into sentences.
+     * @param {string} text - The text to split.
+     * @returns {string[]} The sentences, trimmed.
+     */
+    split(text: string): string[] {
+        return splitSentences(text).map(sentence => sentence.text);
+    }
+}
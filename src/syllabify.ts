@@ -0,0 +1,164 @@
+// Consonant clusters that can start an English syllable, besides single consonants.
+const onsets: Set<string> = new Set([
+    'bl', 'br', 'ch', 'cl', 'cr', 'dr', 'dw', 'fl', 'fr', 'gl', 'gn', 'gr', 'kn', 'ph', 'pl', 'pr', 'qu', 'sc', 'sh',
+    'sk', 'sl', 'sm', 'sn', 'sp', 'st', 'sw', 'th', 'tr', 'tw', 'wh', 'wr',
+    'sch', 'scr', 'shr', 'spl', 'spr', 'squ', 'str', 'thr',
+]);
+
+// Suffixes that dictionaries split by their parts rather than by the consonants between vowels: "read·a·bil·i·ty".
+const suffixes: [string, string[]][] = [
+    ['ability', ['a', 'bil', 'i', 'ty']],
+    ['ibility', ['i', 'bil', 'i', 'ty']],
+    ['ation', ['a', 'tion']],
+    ['able', ['a', 'ble']],
+    ['ible', ['i', 'ble']],
+    ['ity', ['i', 'ty']],
+    ['ing', ['ing']],
+];
+
+const vowelGroupRE: RegExp = /[aeiouy]+/g;
+
+/**
+ * Returns where the consonants between two vowel groups split: the longest
+ * cluster that can start a syllable goes to the second one, the rest stays with the first.
+ * @param {string} consonants - The consonants between the vowel groups.
+ * @returns {number} The number of consonants that stay with the first vowel group.
+ */
+function codaLength(consonants: string): number {
+    let onset: number = Math.min(consonants.length, 3);
+    while (onset > 1 && !onsets.has(consonants.slice(-onset))) onset -= 1;
+    const coda: number = consonants.length - onset;
+    // "ck" closes a syllable: "pock·et"
+    if (consonants.slice(coda - 1, coda + 1) === 'ck') return coda + 1;
+    return coda;
+}
+
+/**
+ * Splits a lowercase word into parts of one vowel group each, at the consonants between them.
+ * A leading `y` is a consonant.
+ * @param {string} word - The lowercase word.
+ * @returns {string[]} The parts.
+ */
+function splitAtConsonants(word: string): string[] {
+    const groups: RegExpExecArray[] = [];
+    let match: RegExpExecArray | null;
+    vowelGroupRE.lastIndex = word.startsWith('y') ? 1 : 0;
+    while ((match = vowelGroupRE.exec(word)) !== null) groups.push(match);
+    if (groups.length < 2) return [word];
+
+    const parts: string[] = [];
+    let from: number = 0;
+    for (let index = 1; index < groups.length; index++) {
+        const end: number = groups[index - 1].index + groups[index - 1][0].length;
+        let split: number = end + codaLength(word.slice(end, groups[index].index));
+        // a final consonant and "le" are a syllable: "lit·tle", "ta·ble"
+        if (index === groups.length - 1 && /[^aeiouy]le$/.test(word)) split = word.length - 3;
+        parts.push(word.slice(from, split));
+        from = split;
+    }
+    parts.push(word.slice(from));
+    return parts;
+}
+
+/**
+ * Splits a lowercase English word into parts of one vowel group each. Common suffixes such as
+ * "-ability", "-able" and "-ing" are split off the way dictionaries split them, and the rest of
+ * the word at the consonants between its vowel groups.
+ * @param {string} word - The lowercase word.
+ * @returns {string[]} The parts.
+ * @example
+ * splitVowelGroups('readability'); // ['read', 'a', 'bil', 'i', 'ty']
+ * splitVowelGroups('running'); // ['run', 'ning']
+ */
+export function splitVowelGroups(word: string): string[] {
+    for (let [suffix, parts] of suffixes) {
+        const stem: string = word.slice(0, word.length - suffix.length);
+        // the stem needs a vowel of its own: "city" and "table" have no suffix
+        if (!word.endsWith(suffix) || (stem && !/[aeiouy]/.test(stem.replace(/^y/, '')))) continue;
+        if (!stem) return parts.slice();
+        // a doubled consonant splits between the stem and the suffix: "run·ning"
+        if (/([^aeiouy])\1$/.test(stem)) {
+            return [...splitAtConsonants(stem.slice(0, -1)), stem.slice(-1) + parts[0], ...parts.slice(1)];
+        }
+        return [...splitAtConsonants(stem), ...parts];
+    }
+    return splitAtConsonants(word);
+}
+
+/**
+ * Splits the given part in two, between the vowels of its longest vowel group,
+ * or else after its first vowel group, or else in the middle.
+ * @param {string} part - The part to split, with two letters or more.
+ * @returns {string[]} The two halves.
+ */
+function splitPart(part: string): string[] {
+    const groups: string[] = part.match(vowelGroupRE) ?? [];
+    const longest: string = groups.reduce((a, b) => (b.length > a.length ? b : a), '');
+    let split: number;
+    if (longest.length > 1) {
+        split = part.indexOf(longest) + 1;
+    } else if (groups.length && part.indexOf(groups[0]) + groups[0].length < part.length) {
+        split = part.indexOf(groups[0]) + groups[0].length;
+    } else {
+        split = Math.ceil(part.length / 2);
+    }
+    return [part.slice(0, split), part.slice(split)];
+}
+
+/**
+ * Returns how good a candidate the given part is for a split: parts with longer
+ * vowel groups first, then longer parts.
+ * @param {string} part - The part.
+ * @returns {number} The priority.
+ */
+function splitPriority(part: string): number {
+    if (part.length < 2) return -1;
+    const groups: string[] = part.match(vowelGroupRE) ?? [];
+    return Math.max(0, ...groups.map(group => group.length)) * 100 + part.length;
+}
+
+/**
+ * Merges or splits the given parts of a word until there are as many as `count`.
+ *
+ * Extra parts are merged into the part before them, starting with silent ones
+ * (a single `e`, as in "cake" or "jumped"), then from the end. Missing parts
+ * are split off the part with the longest vowel group, as in "cre·a·ted".
+ * @param {string[]} parts - The parts of the word, in lowercase.
+ * @param {number} count - The syllable count.
+ * @returns {string[]} The syllables; fewer than `count` only when the word has fewer letters.
+ */
+export function fitSyllables(parts: string[], count: number): string[] {
+    const syllables: string[] = parts.filter(Boolean);
+    if (count < 1) return [];
+    while (syllables.length > count) {
+        let index: number = syllables.length - 1;
+        for (let candidate = syllables.length - 1; candidate > 0; candidate--) {
+            if (/^[^aeiouy]*e[^aeiouy]*$/.test(syllables[candidate])) {
+                index = candidate;
+                break;
+            }
+        }
+        syllables.splice(index - 1, 2, syllables[index - 1] + syllables[index]);
+    }
+    while (syllables.length && syllables.length < count) {
+        let index: number = 0;
+        for (let candidate = 1; candidate < syllables.length; candidate++) {
+            if (splitPriority(syllables[candidate]) > splitPriority(syllables[index])) index = candidate;
+        }
+        if (syllables[index].length < 2) break;
+        syllables.splice(index, 1, ...splitPart(syllables[index]));
+    }
+    return syllables;
+}
+
+/**
+ * Gives the syllables of a lowercased word the case of the original word.
+ * @param {string[]} syllables - The lowercase syllables.
+ * @param {string} word - The original word, with the same letters.
+ * @returns {string[]} The syllables, in the case of the original word when it has as many characters.
+ */
+export function restoreCase(syllables: string[], word: string): string[] {
+    if (syllables.join('').length !== word.length) return syllables;
+    let from: number = 0;
+    return syllables.map(syllable => word.slice(from, (from += syllable.length)));
+}
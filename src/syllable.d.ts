@@ -1,2 +0,0 @@
-declare function syllable(value: string): number;
-export = syllable;
\ No newline at end of file
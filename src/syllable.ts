@@ -0,0 +1,203 @@
+import pluralize from 'pluralize';
+import normalize from './normalize';
+
+import syllableExceptions from '../data/syllable_exceptions';
+
+/**
+ * Returns a pattern matching a vowel, one of the given consonant clusters and the given ending.
+ * @param {string[]} clusters - The consonant clusters.
+ * @param {string} ending - The ending, such as `ed$`.
+ * @returns {string} The pattern.
+ */
+function afterVowel(clusters: string[], ending: string): string {
+    return `(?:[aeiouy](?:${clusters.join('|')})${ending})`;
+}
+
+// Silent -ed: "jumped", "asked", "called".
+const silentEd: string[] = [
+    '.[^aeiuoycgltdb]{2,}ed$',
+    afterVowel(['[bcfgklmnprsvwxyz]', 'ch', 'dg', 'g[hn]', 'lch', 'l[lv]', 'mm', 'nch', 'n[cgn]', 'r[bcnsv]', 'squ', 's[chkls]', 'th'], 'ed$'),
+];
+
+// Silent -es: "cakes", "tapes", "curves". Sibilants ("buses", "wages") keep their syllable.
+const silentEs: string[] = [
+    afterVowel(['[bdfklmnprstvy]', 'ch', 'g[hn]', 'lch', 'l[lv]', 'mm', 'nch', 'nn', 'r[nsv]', 'squ', 's[cklst]', 'th'], 'es$'),
+];
+
+// Silent final e after a vowel and a consonant: "cake", "theme", "lovely". Consonants
+// followed by -le are not in the list, so "table" and "little" keep their last syllable.
+const silentE: string[] = [
+    '.ely$',
+    afterVowel(['[bcdfgklmnprstvyz]', 'ch', 'dg', 'g[hn]', 'l[lv]', 'mm', 'n[cgns]', 'r[cnsv]', 'squ', 's[cklst]', 'th'], 'e$'),
+];
+
+// Vowel groups that are pronounced as one syllable, although they span two vowel groups.
+const gliding: string[] = [
+    'awe($|d|so)',
+    'cia(?:l|$)',
+    'tia',
+    'cius',
+    'cious',
+    '[^aeiou]giu',
+    '[aeiouy][^aeiouy]ion',
+    'iou',
+    'sia$',
+    'eous$',
+    '[oa]gue$',
+];
+
+// Rules that remove a syllable from the vowel group count. The matches of a
+// rule do not overlap, so every rule is a single expression.
+const subtractRules: RegExp[] = [
+    new RegExp([...gliding, silentEd[0], silentE[0], '^jua', 'uai', 'eau', '^busi$', silentEd[1], ...silentEs].join('|'), 'g'),
+    new RegExp(silentE[1], 'g'),
+];
+
+// Rules that add a syllable to the vowel group count: vowels next to each
+// other that are pronounced apart ("idea", "lion", "create"), and a final -le
+// whose e a suffix removed ("humbly").
+const addRules: RegExp[] = [
+    new RegExp(`(?:${[
+        '([^aeiouy])\\1l',
+        '[^aeiouy]ie(?:r|s?t)',
+        '[aeiouym]bl',
+        'eo',
+        'ism',
+        'asm',
+        'thm',
+        'dnt',
+        'snt',
+        'uity',
+        'dea',
+        'gean',
+        'oa',
+        'ua',
+        'react?',
+        'orbed', // cancels the silent -ed of "absorbed"
+        'shred', // cancels the silent -ed of "shred"
+        'eings?',
+        '[aeiouy]sh?e[rs]',
+    ].join('|')})$`, 'g'),
+    new RegExp([
+        'creat(?!u)',
+        '[^gq]ua[^auieo]',
+        '[aeiou]{3}',
+        '^(?:ia|mc|coa[dglx].)',
+        '^re(app|es|im|us)',
+        '(th|d)eist',
+    ].join('|'), 'g'),
+    new RegExp([
+        '[^aeiou]y[ae]',
+        '[^l]lien',
+        'riet',
+        'dien',
+        'iu',
+        'io',
+        'ii',
+        'uen',
+        '[aeilotu]real',
+        'real[aeilotu]',
+        'iell',
+        'eo[^aeiou]',
+        '[aeiou]y[aeiou]',
+    ].join('|'), 'g'),
+    // counted once at most
+    /[^s]ia/,
+];
+
+// Prefixes and suffixes with a known number of syllables. They are counted
+// and removed before the vowel groups of the rest of the word are counted.
+const affixRules: Array<[RegExp, number]> = [
+    [/(creations?|ology|ologist|onomy|onomist)$/g, 3],
+    [new RegExp([
+        `^(?:${[
+            'above', 'anti', 'ante', 'counter', 'hyper', 'afore', 'agri', 'infra', 'intra', 'inter', 'over', 'semi',
+            'ultra', 'under', 'extra', 'dia', 'micro', 'mega', 'kilo', 'pico', 'nano', 'macro', 'somer',
+        ].join('|')})`,
+        '(?:fully|berry|woman|women|edly|union|((?:[bcdfghjklmnpqrstvwxz])|[aeiou])ye?ing)$',
+    ].join('|'), 'g'), 2],
+    [new RegExp([
+        `^(?:${['un', 'fore', 'ware', 'none?', 'out', 'post', 'sub', 'pre', 'pro', 'dis', 'side', 'some'].join('|')})`,
+        `(?:${[
+            'ly', 'less', 'some', 'ful', 'ers?', 'ness', 'cians?', 'ments?', 'ettes?', 'villes?', 'ships?', 'sides?',
+            'ports?', 'shires?', '[gnst]ion(?:ed|s)?',
+        ].join('|')})$`,
+    ].join('|'), 'g'), 1],
+];
+
+/**
+ * Returns the syllable count of the given word from the exception dictionary.
+ * @param {string} word - The word.
+ * @returns {number | undefined} The syllable count, or `undefined` when the word is not in the dictionary.
+ */
+function exception(word: string): number | undefined {
+    return Object.prototype.hasOwnProperty.call(syllableExceptions, word) ? syllableExceptions[word] : undefined;
+}
+
+/**
+ * Returns the number of matches of the given expression in the given word.
+ * @param {RegExp} pattern - The expression; only global expressions match more than once.
+ * @param {string} word - The word.
+ * @returns {number} The number of matches.
+ */
+function matches(pattern: RegExp, word: string): number {
+    let count: number = 0;
+    word.replace(pattern, match => {
+        count += 1;
+        return match;
+    });
+    return count;
+}
+
+/**
+ * Counts the syllables of a single lowercase English word made of the letters a to z.
+ *
+ * Looks the word, then its singular, up in the exception dictionary. Otherwise
+ * counts and removes known prefixes and suffixes, counts the vowel groups of
+ * the rest, then removes silent syllables (silent e, -ed and -es, gliding
+ * vowels) and adds syllables for vowels pronounced apart.
+ * @param {string} word - The word.
+ * @returns {number} The syllable count, at least 1 for a non-empty word.
+ * @example
+ * countWordSyllables('jumped'); // 1
+ * countWordSyllables('created'); // 3
+ */
+export function countWordSyllables(word: string): number {
+    if (word.length === 0) return 0;
+    if (word.length < 3) return 1;
+
+    const known: number | undefined = exception(word) ?? exception(pluralize(word, 1));
+    if (known !== undefined) return known;
+
+    let count: number = 0;
+    for (let [pattern, syllables] of affixRules) {
+        word = word.replace(pattern, () => {
+            count += syllables;
+            return '';
+        });
+    }
+    count += word.split(/[^aeiouy]+/).filter(Boolean).length;
+    for (let pattern of subtractRules) count -= matches(pattern, word);
+    for (let pattern of addRules) count += matches(pattern, word);
+    return count || 1;
+}
+
+/**
+ * Counts the syllables of an English text. Diacritics are removed and apostrophes
+ * ignored, so "café" counts like "cafe" and "don't" like "dont".
+ * @param {string} text - The text.
+ * @returns {number} The syllable count of all its words.
+ * @example
+ * syllable('The quick brown fox.'); // 4
+ */
+export default function syllable(text: string): number {
+    const words: string[] = normalize(String(text))
+        .toLowerCase()
+        .replace(/['’]/g, '')
+        .split(/\b/g);
+    let sum: number = 0;
+    for (let word of words) {
+        sum += countWordSyllables(word.replace(/[^a-z]/g, ''));
+    }
+    return sum;
+}
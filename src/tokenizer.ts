@@ -0,0 +1,142 @@
+import { TextSpan, Tokenizer } from './types';
+
+// The parts of Intl.Segmenter used here; it is not in the ES2016 typings.
+interface WordSegment {
+    segment: string;
+    index: number;
+    isWordLike?: boolean;
+}
+
+interface WordSegmenter {
+    segment(text: string): Iterable<WordSegment>;
+}
+
+type WordSegmenterConstructor = new (locale?: string, options?: { granularity: 'word' }) => WordSegmenter;
+
+const Segmenter: WordSegmenterConstructor | undefined =
+    (Intl as unknown as { Segmenter?: WordSegmenterConstructor }).Segmenter;
+const segmenters: Map<string, WordSegmenter> = new Map();
+
+// Hyphens that join the parts of a compound word; dashes (— –) and slashes separate words.
+const hyphenRE: RegExp = /^[-‐‑]$/;
+
+// Fallback: Chinese and Japanese characters are one word each; numbers keep
+// their decimal and thousands separators; other words keep inner apostrophes
+// (contractions, possessives) and hyphens (compounds).
+const ideographRE: string = '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}]';
+const letterRE: string = `(?:(?!${ideographRE})[\\p{L}\\p{M}\\p{N}_])`;
+const wordRE: RegExp = new RegExp(
+    `${ideographRE}|\\p{N}+(?:[.,]\\p{N}+)+|${letterRE}+(?:['’\\-‐‑]${letterRE}+)*`,
+    'gu',
+);
+
+/**
+ * Returns a cached word segmenter for the given locale.
+ * @param {string} locale - The locale.
+ * @returns {WordSegmenter} The segmenter.
+ */
+function segmenterFor(locale: string): WordSegmenter {
+    let segmenter: WordSegmenter | undefined = segmenters.get(locale);
+    if (!segmenter) {
+        segmenter = new (Segmenter as WordSegmenterConstructor)(locale, { granularity: 'word' });
+        segmenters.set(locale, segmenter);
+    }
+    return segmenter;
+}
+
+/**
+ * Splits the given text into words with `Intl.Segmenter`, joining hyphenated compounds.
+ * @param {string} text - The text to split.
+ * @param {string} locale - The locale of the text.
+ * @returns {TextSpan[]} The words.
+ */
+function segmentWords(text: string, locale: string): TextSpan[] {
+    const words: TextSpan[] = [];
+    let previous: WordSegment | undefined;
+    let joinNext: boolean = false;
+    for (let segment of segmenterFor(locale).segment(text)) {
+        const last: TextSpan | undefined = words[words.length - 1];
+        if (segment.isWordLike) {
+            if (joinNext && last) {
+                last.end = segment.index + segment.segment.length;
+                last.text = text.slice(last.start, last.end);
+            } else {
+                words.push({ text: segment.segment, start: segment.index, end: segment.index + segment.segment.length });
+            }
+            joinNext = false;
+        } else {
+            // a hyphen right after a word, with no space around it, joins it to the next word
+            joinNext = hyphenRE.test(segment.segment) && !!previous?.isWordLike && last?.end === segment.index;
+        }
+        previous = segment;
+    }
+    return words;
+}
+
+/**
+ * Splits the given text into words, keeping their offsets in the text.
+ *
+ * Words are split at whitespace, punctuation, dashes and slashes. Contractions
+ * ("don't"), possessives ("John's") and hyphenated compounds ("well-known")
+ * are one word, and so are numbers with separators ("3.14", "1,000").
+ * Punctuation never is a word. Uses `Intl.Segmenter` when available, which
+ * also splits Chinese and Japanese text into words, and a Unicode regular
+ * expression otherwise, which treats each Chinese or Japanese character as a word.
+ * @param {string} text - The text to split.
+ * @param {string} [locale='en-US'] - The locale of the text.
+ * @returns {TextSpan[]} The words.
+ */
+export function tokenizeWithOffsets(text: string, locale: string = 'en-US'): TextSpan[] {
+    if (Segmenter) return segmentWords(text, locale);
+    const words: TextSpan[] = [];
+    let match: RegExpExecArray | null;
+    wordRE.lastIndex = 0;
+    while ((match = wordRE.exec(text)) !== null) {
+        words.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+    }
+    return words;
+}
+
+/**
+ * Splits the given text into words. See {@link tokenizeWithOffsets} for the rules.
+ * @param {string} text - The text to split.
+ * @param {string} [locale='en-US'] - The locale of the text.
+ * @returns {string[]} The words.
+ * @example
+ * tokenize("Don't split well-known words—or John's 3.14 and/or 1,000.");
+ * // ["Don't", 'split', 'well-known', 'words', 'or', "John's", '3.14', 'and', 'or', '1,000']
+ */
+export function tokenize(text: string, locale: string = 'en-US'): string[] {
+    return tokenizeWithOffsets(text, locale).map(word => word.text);
+}
+
+/**
+ * The built-in tokenizer, with the rules of {@link tokenizeWithOffsets}.
+ * Wrap or extend it to adjust the rules for a domain.
+ * @example
+ * class ChemistryTokenizer extends DefaultTokenizer {
+ *     tokenize(text: string): string[] {
+ *         // keep "2,3-dimethylbutane" in one piece
+ *         return super.tokenize(text.replace(/(\d),(\d)-/g, '$1$2-'));
+ *     }
+ * }
+ */
+export class DefaultTokenizer implements Tokenizer {
+    private readonly locale: string;
+
+    /**
+     * @param {string} [locale='en-US'] - The locale of the texts.
+     */
+    constructor(locale: string = 'en-US') {
+        this.locale = locale;
+    }
+
+    /**
+     * Splits the given text into words.
+     * @param {string} text - The text to split.
+     * @returns {string[]} The words.
+     */
+    tokenize(text: string): string[] {
+        return tokenize(text, this.locale);
+    }
+}
@@ -0,0 +1,475 @@
+/**
+ * Raw counts gathered from a single pass over a text.
+ */
+export interface TextCounts {
+    /** Characters, ignoring spaces. */
+    chars: number;
+    /** Characters, ignoring spaces and punctuation. */
+    letters: number;
+    /** Words, ignoring tokens that are only punctuation. */
+    words: number;
+    /** Sentences with more than two words (at least 1). */
+    sentences: number;
+    /** Syllables across all words. */
+    syllables: number;
+    /** Words with three or more syllables. */
+    polysyllables: number;
+    /** Distinct words not on the Dale-Chall easy list with two or more syllables. */
+    difficultWords: number;
+    /** Distinct words not on the Dale-Chall easy list with three or more syllables (Gunning Fog). */
+    complexWords: number;
+    /** Words longer than six characters (LIX and RIX). */
+    longWords: number;
+}
+
+/**
+ * Averages derived from {@link TextCounts}, rounded the same way as the
+ * `average*` methods.
+ */
+export interface TextAverages {
+    sentenceLength: number;
+    syllablesPerWord: number;
+    charactersPerWord: number;
+    lettersPerWord: number;
+    sentencesPerWord: number;
+}
+
+/**
+ * Every formula result for a text.
+ */
+export interface ReadabilityScores {
+    fleschReadingEase: number;
+    fleschKincaidGrade: number;
+    smogIndex: number;
+    colemanLiauIndex: number;
+    automatedReadabilityIndex: number;
+    linsearWriteFormula: number;
+    daleChallReadabilityScore: number;
+    gunningFog: number;
+    lix: number;
+    rix: number;
+    /** Consensus grade, as returned by `textStandard(text, true)`. */
+    textStandard: number;
+    /** Consensus grade label, as returned by `textStandard(text)`. */
+    textStandardLabel: string;
+    textMedian: number;
+}
+
+/**
+ * A part of a text with its offsets; `end` is exclusive, so `text === source.slice(start, end)`.
+ */
+export interface TextSpan {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * A single sentence with its counts and grade estimates, as returned by `analyzeSentences(text)`.
+ */
+export interface SentenceAnalysis extends TextSpan {
+    /** Whether `sentenceCount` counts this sentence; sentences of two words or less are ignored. */
+    counted: boolean;
+    words: number;
+    syllables: number;
+    polysyllables: number;
+    difficultWords: number;
+    grades: {
+        fleschKincaidGrade: number;
+        automatedReadabilityIndex: number;
+        colemanLiauIndex: number;
+        gunningFog: number;
+    };
+}
+
+/**
+ * Why a word was flagged by `annotate(text)`.
+ */
+export type WordFlag = 'difficult' | 'polysyllabic' | 'long';
+
+/**
+ * A word flagged by `annotate(text)`.
+ */
+export interface WordAnnotation extends TextSpan {
+    syllables: number;
+    reasons: WordFlag[];
+}
+
+/**
+ * A difficult word, as returned by `difficultWordList(text)`.
+ */
+export interface DifficultWord {
+    /** The word as it first appears in the text. */
+    word: string;
+    /** The normalized form looked up in the easy word list; the words of the text are grouped by it. */
+    lemma: string;
+    syllables: number;
+    /** How often the word appears in the text, in any case or form with the same lemma. */
+    occurrences: number;
+}
+
+/**
+ * The name of a formula that can be explained.
+ */
+export type FormulaName =
+    | 'fleschReadingEase'
+    | 'fleschKincaidGrade'
+    | 'smogIndex'
+    | 'colemanLiauIndex'
+    | 'automatedReadabilityIndex'
+    | 'linsearWriteFormula'
+    | 'daleChallReadabilityScore'
+    | 'gunningFog'
+    | 'lix'
+    | 'rix';
+
+/**
+ * Something that makes a formula result less reliable.
+ * - `no-words`: the text has no words, so the result is meaningless.
+ * - `short-text`: the formula is meant for samples of 100 words or more.
+ * - `too-few-sentences`: SMOG needs 30 sentences; below 3 it is not computed at all.
+ * - `short-sample`: Linsear Write sampled fewer than 100 words.
+ * - `not-finite`: the result is not a finite number.
+ */
+export interface ReadabilityWarning {
+    code: 'no-words' | 'short-text' | 'too-few-sentences' | 'short-sample' | 'not-finite';
+    message: string;
+}
+
+/**
+ * Whether a formula result can be trusted.
+ */
+export interface Reliability {
+    /** `false` when the result is meaningless, such as the score of an empty text. */
+    valid: boolean;
+    warnings: ReadabilityWarning[];
+}
+
+/**
+ * The arithmetic behind a formula result, with its reliability.
+ */
+export interface FormulaExplanation extends Reliability {
+    formula: FormulaName;
+    /** The formula written out with named terms. */
+    expression: string;
+    /** The counts the formula was computed from. */
+    inputs: Record<string, number>;
+    /** The constants of the formula. */
+    coefficients: Record<string, number>;
+    /** Every intermediate value, in the order it is computed; `score` is the value before the final rounding. */
+    terms: Record<string, number>;
+    /** The final, rounded value, as returned by the formula method. */
+    value: number;
+}
+
+/**
+ * The result of `analyze(text)`.
+ */
+export interface ReadabilityAnalysis {
+    counts: TextCounts;
+    averages: TextAverages;
+    scores: ReadabilityScores;
+    /** The reliability of every formula result in `scores`. */
+    reliability: Record<FormulaName, Reliability>;
+}
+
+/**
+ * A section of a document, as returned by `analyzeDocx(data)`: a heading and the paragraphs up to the next heading.
+ */
+export interface DocumentSection extends ReadabilityAnalysis {
+    /** The text of the heading, or an empty string for the paragraphs before the first heading. */
+    heading: string;
+    /** The level of the heading, from 1; 0 for the paragraphs before the first heading. */
+    level: number;
+    /** The paragraphs of the section, its heading first, separated by blank lines. */
+    text: string;
+}
+
+/**
+ * The analysis of a whole document, as returned by `analyzeDocx(data)`, with its text and the analysis of every section.
+ */
+export interface DocumentAnalysis extends ReadabilityAnalysis {
+    /** Every paragraph, heading and table cell of the document, separated by blank lines. */
+    text: string;
+    sections: DocumentSection[];
+}
+
+/**
+ * How a grade level varies across the parts of a text, such as the chapters of a book.
+ */
+export interface GradeSpread {
+    /** The lowest grade. */
+    min: number;
+    /** The highest grade. */
+    max: number;
+    /** The difference between the highest and the lowest grade. */
+    range: number;
+    mean: number;
+    /** The population standard deviation of the grades. */
+    standardDeviation: number;
+    /** The index of the part with the lowest grade, or -1 when there are no parts. */
+    easiest: number;
+    /** The index of the part with the highest grade, or -1 when there are no parts. */
+    hardest: number;
+}
+
+/**
+ * A chapter of a book, as returned by `analyzeEpub(data)`.
+ */
+export interface ChapterAnalysis extends ReadabilityAnalysis {
+    /** The first heading of the chapter, or else the title of its document, or else its path. */
+    title: string;
+    /** The path of the chapter document in the book. */
+    path: string;
+    /** The text of the chapter, with blocks separated by blank lines. */
+    text: string;
+}
+
+/**
+ * The analysis of a whole book, as returned by `analyzeEpub(data)`, with the analysis of every chapter.
+ */
+export interface BookAnalysis extends ReadabilityAnalysis {
+    /** The title of the book, or an empty string. */
+    title: string;
+    /** The chapters, in reading order. */
+    chapters: ChapterAnalysis[];
+    /** How the `textStandard` grade varies across the chapters. */
+    spread: GradeSpread;
+}
+
+/**
+ * Limits a subtitle cue should stay within, as checked by `analyzeSubtitles(text, limits)`.
+ */
+export interface SubtitleLimits {
+    /** Characters shown per second, spaces included and line breaks not. Defaults to 17. */
+    maxCharactersPerSecond?: number;
+    /** Words shown per minute. Defaults to 180. */
+    maxWordsPerMinute?: number;
+    /** Characters per line. Defaults to 42. */
+    maxLineLength?: number;
+    /** Lines per cue. Defaults to 2. */
+    maxLines?: number;
+    /** Seconds a cue is shown at least. Defaults to 5/6, 20 frames at 24 frames per second. */
+    minDuration?: number;
+    /** Seconds a cue is shown at most. Defaults to 7. */
+    maxDuration?: number;
+}
+
+/**
+ * Which limit a subtitle cue goes over.
+ */
+export type CueFlag = 'charactersPerSecond' | 'wordsPerMinute' | 'lineLength' | 'lines' | 'tooShort' | 'tooLong';
+
+/**
+ * A subtitle cue with its reading speed, as returned by `analyzeSubtitles(text)`.
+ */
+export interface CueAnalysis {
+    /** The identifier of the cue: its number in SRT, its optional identifier in WebVTT, or an empty string. */
+    id: string;
+    /** When the cue appears, in seconds. */
+    start: number;
+    /** When the cue disappears, in seconds. */
+    end: number;
+    /** How long the cue is shown, in seconds. */
+    duration: number;
+    /** The lines of the cue, without formatting tags. */
+    lines: string[];
+    /** The lines of the cue, joined with spaces. */
+    text: string;
+    /** The characters of every line, spaces included. */
+    characters: number;
+    words: number;
+    charactersPerSecond: number;
+    wordsPerMinute: number;
+    /** The length of the longest line, in characters. */
+    maxLineLength: number;
+    /** The limits the cue goes over. */
+    flags: CueFlag[];
+}
+
+/**
+ * The analysis of a subtitle file, as returned by `analyzeSubtitles(text)`: the scores of the joined transcript and
+ * the reading speed of every cue.
+ */
+export interface SubtitleAnalysis extends ReadabilityAnalysis {
+    /** The text of every cue, in order, joined with spaces. */
+    transcript: string;
+    cues: CueAnalysis[];
+    /** The number of cues that go over at least one limit. */
+    flagged: number;
+}
+
+/**
+ * The kind of a source comment: a `/* block comment *\/`, a `/** JSDoc comment *\/` or a Python docstring.
+ */
+export type CommentKind = 'block' | 'jsdoc' | 'docstring';
+
+/**
+ * The analysis of a comment of a source file, as returned by `analyzeComments(files)`.
+ */
+export interface CommentAnalysis extends ReadabilityAnalysis {
+    /** The path of the source file, as given. */
+    file: string;
+    /** The line the comment starts on, from 1. */
+    line: number;
+    /** The name of what the comment documents (`Class.method` in Python), or an empty string. */
+    symbol: string;
+    kind: CommentKind;
+    /** The prose of the comment that was scored, without tags, code and comment markers. */
+    text: string;
+}
+
+/**
+ * Counts the syllables of a single lowercased word that has been stripped of punctuation.
+ */
+export type SyllableCounter = (word: string, lang: string) => number;
+
+/**
+ * Looks the syllable count of a lowercased English word up, or returns `undefined` when the word is unknown,
+ * such as `lookupSyllables` of `text-readability-ts/dictionary`.
+ */
+export type SyllableDictionary = (word: string) => number | undefined;
+
+/**
+ * How English syllables are counted.
+ * - `'heuristic'`: with spelling rules and a small exception dictionary.
+ * - `'dictionary'`: with the `dictionary` of the options, falling back to the heuristic for unknown words.
+ */
+export type SyllableBackend = 'heuristic' | 'dictionary';
+
+/**
+ * Where a syllable count came from: the instance overrides, the pronunciation dictionary,
+ * the English heuristic counter, the hyphenation patterns of the language or a custom `syllableCounter`.
+ */
+export type SyllableSource = 'override' | 'dictionary' | 'heuristic' | 'hyphenation' | 'custom';
+
+/**
+ * What is known about a word, overriding what the library would find out.
+ */
+export interface WordOverride {
+    /** The syllable count of the word. */
+    syllables?: number;
+    /** Whether the word is easy, whether or not it is on the easy word list. */
+    easy?: boolean;
+}
+
+/**
+ * Word overrides keyed by word, ignoring case and punctuation; a number is a syllable count.
+ * @example
+ * { "SaaS": 1, "Kubernetes": 4, "GIF": { "syllables": 1, "easy": true } }
+ */
+export type WordOverrides = Record<string, number | WordOverride>;
+
+/**
+ * The syllable count of a single word, with its source.
+ */
+export interface WordSyllables {
+    word: string;
+    syllables: number;
+    source: SyllableSource;
+}
+
+/**
+ * The result of `syllableReport(text)`.
+ */
+export interface SyllableReport {
+    /** Syllables across all words, as returned by `syllableCount(text)`. */
+    syllables: number;
+    /** Every word, in order. */
+    words: WordSyllables[];
+    /** How many words were counted from each source. */
+    sources: Record<SyllableSource, number>;
+}
+
+/**
+ * Splits a text into words. Every word count, syllable count and word list uses it.
+ */
+export interface Tokenizer {
+    /**
+     * Returns the words of the text, in order. Words are looked up in the text to find their offsets,
+     * so words that do not appear in it as they are, such as rewritten ones, are left out of offsets.
+     */
+    tokenize(text: string): string[];
+}
+
+/**
+ * Splits a text into sentences. Every sentence count and the per-sentence breakdown use it.
+ */
+export interface SentenceSplitter {
+    /**
+     * Returns the sentences of the text, in order. Sentences are looked up in the text to find their offsets,
+     * so they should be parts of it, usually trimmed.
+     */
+    split(text: string): string[];
+}
+
+/**
+ * How scores are rounded.
+ * - `'legacy'`: like textstat, rounding averages before the formulas use them and each score to its own decimals.
+ * - `'none'`: no rounding at all.
+ * - `'fixed'`: full precision throughout, rounding only the final scores to `precision` decimals (2 by default).
+ */
+export type RoundingMode = 'legacy' | 'none' | 'fixed';
+
+/**
+ * The format of the texts an instance reads.
+ * - `'text'`: plain text.
+ * - `'html'`: HTML, read without its markup, scripts, styles and code, with a sentence boundary after every block.
+ * - `'markdown'`: Markdown, read without its code, URLs and syntax, with a sentence boundary after every heading,
+ *   list item, table cell and paragraph.
+ * - `'latex'`: LaTeX, read without its preamble, commands, math and comments, with text macros expanded and a
+ *   sentence boundary after every section title, caption, list item and paragraph.
+ */
+export type TextFormat = 'text' | 'html' | 'markdown' | 'latex';
+
+/**
+ * Unicode normalization forms applied to texts before counting.
+ * - `'NFC'`: composes letters and their accents, so that `e` followed by a combining accent is `é`.
+ * - `'NFKC'`: also replaces compatibility characters, such as fullwidth letters and ligatures, with their plain forms.
+ */
+export type NormalizationForm = 'NFC' | 'NFKC';
+
+/**
+ * Replacements of single characters, keyed by character.
+ * @example
+ * { "ß": "ss", "æ": "ae" }
+ */
+export type CharacterMap = Record<string, string>;
+
+/**
+ * Options accepted by the `Readability` constructor.
+ */
+export interface ReadabilityOptions {
+    /** Locale used to lowercase words and to pick the syllable counter. Defaults to `'en-US'`. */
+    language?: string;
+    /** How scores are rounded. Defaults to `'legacy'`. */
+    rounding?: RoundingMode;
+    /** Decimals to round scores and averages to. Defaults to each formula's own (`'legacy'`) or 2 (`'fixed'`). */
+    precision?: number;
+    /** Words considered easy by Dale-Chall and Gunning Fog. Defaults to the Dale-Chall list. */
+    easyWords?: Iterable<string>;
+    /** Syllable counter. Defaults to the bundled English counter, and replaces `syllableBackend` when given. */
+    syllableCounter?: SyllableCounter;
+    /** How English syllables are counted. Defaults to `'dictionary'` when a `dictionary` is given, or else `'heuristic'`. */
+    syllableBackend?: SyllableBackend;
+    /** Pronunciation dictionary of the `'dictionary'` backend, such as `lookupSyllables` of `text-readability-ts/dictionary`. */
+    dictionary?: SyllableDictionary;
+    /** Syllable counts and easy words that take precedence over every counter and the easy word list. */
+    overrides?: WordOverrides;
+    /** Word tokenizer, used by every count. Defaults to a `DefaultTokenizer` in `language`, with the rules of `Readability.split`. */
+    tokenizer?: Tokenizer;
+    /** Sentence splitter, used by every count. Defaults to a `DefaultSentenceSplitter`. */
+    sentenceSplitter?: SentenceSplitter;
+    /** The format of the texts given to every count and formula. Defaults to `'text'`. */
+    format?: TextFormat;
+    /** Unicode normalization applied to texts before they are split into words. Defaults to none. */
+    normalization?: NormalizationForm;
+    /**
+     * Whether accented letters are replaced with plain ones before texts are split into words, so that "hôtel" is
+     * looked up as "hotel". `true` uses the bundled map of accented Latin letters; a character map replaces more
+     * characters, or the same ones differently, on top of it. Defaults to `false`.
+     */
+    foldDiacritics?: boolean | CharacterMap;
+    /** Whether numbers, amounts of money, percentages, ordinals and symbols are spelled out in English words before counting. Defaults to `false`. */
+    verbalizeNumbers?: boolean;
+}
@@ -0,0 +1,183 @@
+const ones: string[] = [
+    'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+    'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const tens: string[] = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const scales: string[] = ['', 'thousand', 'million', 'billion', 'trillion', 'quadrillion'];
+
+// Ordinals of the words cardinals end with; others add "th" ("seventh", "hundredth").
+const ordinalWords: Record<string, string> = {
+    one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+const currencies: Record<string, [string, string, string]> = {
+    '$': ['dollar', 'dollars', 'cents'],
+    '€': ['euro', 'euros', 'cents'],
+    '£': ['pound', 'pounds', 'pence'],
+    '¥': ['yen', 'yen', ''],
+    '₹': ['rupee', 'rupees', 'paise'],
+};
+
+const magnitudes: Record<string, string> = {
+    k: 'thousand', m: 'million', mm: 'million', b: 'billion', bn: 'billion', t: 'trillion', tn: 'trillion',
+    thousand: 'thousand', million: 'million', billion: 'billion', trillion: 'trillion',
+};
+
+const symbols: Record<string, string> = {
+    '&': 'and', '+': 'plus', '=': 'equals', '@': 'at', '°': 'degrees', '×': 'times', '÷': 'divided by',
+    '±': 'plus or minus', '≈': 'approximately', '<': 'less than', '>': 'greater than', '§': 'section', '#': 'number',
+};
+
+const numberRE: string = '\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?';
+// a magnitude suffix is a word of its own: "$10 t-shirt" has none
+const currencyRE: RegExp = new RegExp(`([-−]?)([$€£¥₹])\\s?(${numberRE})(?:\\s?(thousand|million|billion|trillion|k|mm|m|bn|b|tn|t)(?![\\w-]))?`, 'gi');
+const percentRE: RegExp = new RegExp(`([-−]?)(${numberRE})\\s?%`, 'g');
+const ordinalRE: RegExp = /\b(\d+)(st|nd|rd|th)\b/gi;
+// Numbers joined to other digits by a dot, comma or hyphen, such as versions ("2.0.1"), ranges ("1990-1999")
+// and phone numbers ("555-1234"), are left as they are.
+const plainNumberRE: RegExp = new RegExp(`(^|[^\\w.,])(?<!\\d[-‐‑–])([-−]?)(${numberRE})(?!\\w|[.,\\-‐‑–]\\d)`, 'g');
+const symbolRE: RegExp = /\s*([&+=@×÷±≈<>§])\s*|°|#(?=\d)/g;
+
+/**
+ * Spells out a whole number below one thousand.
+ * @param {number} value - The number.
+ * @returns {string} The number in words.
+ */
+function hundreds(value: number): string {
+    const words: string[] = [];
+    if (value >= 100) {
+        words.push(`${ones[Math.floor(value / 100)]} hundred`);
+        value %= 100;
+    }
+    if (value >= 20) {
+        words.push(tens[Math.floor(value / 10)] + (value % 10 ? `-${ones[value % 10]}` : ''));
+    } else if (value > 0 || !words.length) {
+        words.push(ones[value]);
+    }
+    return words.join(' ');
+}
+
+/**
+ * Reads the given digits one by one.
+ * @param {string} digits - The digits.
+ * @returns {string} The digits in words.
+ */
+function digitByDigit(digits: string): string {
+    return digits.split('').map(digit => ones[Number(digit)]).join(' ');
+}
+
+/**
+ * Spells out a whole number written with digits only.
+ * @param {string} digits - The digits.
+ * @returns {string} The number in words.
+ * @example
+ * cardinal('1200'); // 'one thousand two hundred'
+ */
+export function cardinal(digits: string): string {
+    digits = digits.replace(/^0+(?=\d)/, '');
+    // too large to have a name: read digit by digit
+    if (digits.length > scales.length * 3) return digitByDigit(digits);
+    const groups: number[] = [];
+    for (let end = digits.length; end > 0; end -= 3) groups.unshift(Number(digits.slice(Math.max(0, end - 3), end)));
+    const words: string[] = [];
+    groups.forEach((group, index) => {
+        const scale: number = groups.length - 1 - index;
+        if (group) words.push(hundreds(group) + (scale ? ` ${scales[scale]}` : ''));
+    });
+    return words.length ? words.join(' ') : ones[0];
+}
+
+/**
+ * Spells out an ordinal number.
+ * @param {string} digits - The digits.
+ * @returns {string} The ordinal in words.
+ * @example
+ * ordinal('23'); // 'twenty-third'
+ */
+export function ordinal(digits: string): string {
+    const words: string = cardinal(digits);
+    return words.replace(/(\w+)$/, last => ordinalWords[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`));
+}
+
+/**
+ * Spells out a year the way it is read: "1999" is "nineteen ninety-nine", "2005" is "two thousand five".
+ * @param {string} digits - The four digits of the year.
+ * @returns {string} The year in words.
+ */
+function year(digits: string): string {
+    const value: number = Number(digits);
+    if (value >= 2000 && value < 2010) return cardinal(digits);
+    const century: string = hundreds(Math.floor(value / 100));
+    const rest: number = value % 100;
+    if (rest === 0) return `${century} hundred`;
+    return `${century} ${rest < 10 ? `oh ${ones[rest]}` : hundreds(rest)}`;
+}
+
+/**
+ * Spells out a number, with thousands separators and decimals.
+ * @param {string} number - The number, such as `1,200` or `3.14`.
+ * @param {boolean} [asYear=false] - Whether four digits from 1100 to 2099, without separators, are read as a year.
+ * @returns {string} The number in words.
+ */
+function spell(number: string, asYear: boolean = false): string {
+    const [whole, fraction] = number.replace(/,/g, '').split('.');
+    if (asYear && /^(1[1-9]|20)\d\d$/.test(number)) return year(number);
+    const words: string = cardinal(whole);
+    if (fraction === undefined) return words;
+    return `${words} point ${digitByDigit(fraction)}`;
+}
+
+/**
+ * Spells out an amount of money.
+ * @param {string} sign - A minus sign, or an empty string.
+ * @param {string} symbol - The currency symbol.
+ * @param {string} amount - The amount.
+ * @param {string} [magnitude] - A magnitude suffix, such as `M` or `bn`.
+ * @returns {string} The amount in words.
+ */
+function money(sign: string, symbol: string, amount: string, magnitude?: string): string {
+    const [singular, plural, cents] = currencies[symbol];
+    const prefix: string = sign ? 'minus ' : '';
+    if (magnitude) return `${prefix}${spell(amount)} ${magnitudes[magnitude.toLowerCase()]} ${plural}`;
+    const [whole, fraction] = amount.replace(/,/g, '').split('.');
+    const unit: string = whole === '1' ? singular : plural;
+    if (fraction !== undefined && fraction.length === 2 && cents) {
+        const subunits: string = cardinal(fraction);
+        if (whole === '0') return `${prefix}${subunits} ${cents}`;
+        return `${prefix}${cardinal(whole)} ${unit} and ${subunits} ${cents}`;
+    }
+    // "one point five dollars"
+    return `${prefix}${spell(amount)} ${fraction === undefined ? unit : plural}`;
+}
+
+/**
+ * Spells out the numbers, amounts of money, percentages, ordinals and common
+ * symbols of an English text, the way a reader says them, so that they count
+ * as words and syllables.
+ *
+ * - `1,200` → "one thousand two hundred", `3.14` → "three point one four"
+ * - `1999` → "nineteen ninety-nine" (four-digit numbers from 1100 to 2099 are read as years)
+ * - `$4.5M` → "four point five million dollars", `$3.50` → "three dollars and fifty cents"
+ * - `50%` → "fifty percent", `23rd` → "twenty-third"
+ * - `&`, `+`, `=`, `@`, `°`, `#1` → "and", "plus", "equals", "at", "degrees", "number one"
+ * - `2.0.1`, `1990-1999` and `555-1234` are left as they are
+ * @param {string} text - The text.
+ * @returns {string} The text with numbers and symbols in words.
+ * @example
+ * verbalize('Revenue grew 50% to $4.5M in 1999.');
+ * // 'Revenue grew fifty percent to four point five million dollars in nineteen ninety-nine.'
+ */
+export function verbalize(text: string): string {
+    return text
+        .replace(symbolRE, (match, symbol?: string) => {
+            // "30°" is "30 degrees" and "#1" is "number 1"
+            if (!symbol) return match === '°' ? ` ${symbols[match]}` : `${symbols[match]} `;
+            return ` ${symbols[symbol]} `;
+        })
+        .replace(currencyRE, (match, sign: string, symbol: string, amount: string, magnitude?: string) =>
+            money(sign, symbol, amount, magnitude))
+        .replace(percentRE, (match, sign: string, number: string) => `${sign ? 'minus ' : ''}${spell(number)} percent`)
+        .replace(ordinalRE, (match, digits: string) => ordinal(digits))
+        .replace(plainNumberRE, (match, before: string, sign: string, number: string) =>
+            `${before}${sign ? 'minus ' : ''}${spell(number, !sign)}`);
+}
@@ -0,0 +1,107 @@
+import { inflateRawSync } from 'zlib';
+
+interface ZipEntry {
+    /** The compression method: 0 for stored, 8 for deflated. */
+    method: number;
+    /** The compressed size, in bytes. */
+    size: number;
+    /** The offset of the local file header. */
+    offset: number;
+}
+
+const endOfCentralDirectory: number = 0x06054b50;
+const centralDirectoryHeader: number = 0x02014b50;
+const localFileHeader: number = 0x04034b50;
+
+/**
+ * A zip archive in memory, such as a Word document or an EPUB book, whose files are inflated when read.
+ * Encrypted and ZIP64 archives are not supported.
+ * @example
+ * const archive = new ZipArchive(readFileSync('report.docx'));
+ * archive.readText('word/document.xml');
+ */
+export class ZipArchive {
+    private readonly data: Uint8Array;
+    private readonly view: DataView;
+    private readonly entries: Map<string, ZipEntry> = new Map();
+
+    /**
+     * Reads the central directory of the given archive.
+     * @param {Uint8Array} data - The bytes of the archive, such as a `Buffer`.
+     */
+    constructor(data: Uint8Array) {
+        this.data = data;
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        let end: number = data.length - 22;
+        // the end of central directory record is followed by a comment of up to 65535 bytes
+        while (end >= Math.max(0, data.length - 22 - 0xffff) && this.uint32(end) !== endOfCentralDirectory) end -= 1;
+        if (end < 0 || this.uint32(end) !== endOfCentralDirectory) throw new Error('Not a zip archive');
+
+        const count: number = this.view.getUint16(end + 10, true);
+        let offset: number = this.uint32(end + 16);
+        if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+        for (let index = 0; index < count; index++) {
+            if (this.uint32(offset) !== centralDirectoryHeader) throw new Error('Corrupt zip archive');
+            const flags: number = this.view.getUint16(offset + 8, true);
+            const nameLength: number = this.view.getUint16(offset + 28, true);
+            const name: string = new TextDecoder().decode(data.subarray(offset + 46, offset + 46 + nameLength));
+            if (flags & 1) throw new Error(`Encrypted zip entries are not supported: ${name}`);
+            this.entries.set(name, {
+                method: this.view.getUint16(offset + 10, true),
+                size: this.uint32(offset + 20),
+                offset: this.uint32(offset + 42),
+            });
+            offset += 46 + nameLength + this.view.getUint16(offset + 30, true) + this.view.getUint16(offset + 32, true);
+        }
+    }
+
+    /**
+     * Returns the little-endian 32-bit unsigned integer at the given offset.
+     * @param {number} offset - The offset.
+     * @returns {number} The integer.
+     */
+    private uint32(offset: number): number {
+        return this.view.getUint32(offset, true);
+    }
+
+    /**
+     * The paths of the files and directories in the archive, in order.
+     */
+    get names(): string[] {
+        return [...this.entries.keys()];
+    }
+
+    /**
+     * Returns whether the archive has a file at the given path.
+     * @param {string} name - The path in the archive, such as `'word/document.xml'`.
+     * @returns {boolean} Whether the file exists.
+     */
+    has(name: string): boolean {
+        return this.entries.has(name);
+    }
+
+    /**
+     * Reads a file of the archive.
+     * @param {string} name - The path in the archive.
+     * @returns {Uint8Array} The contents of the file.
+     */
+    read(name: string): Uint8Array {
+        const entry: ZipEntry | undefined = this.entries.get(name);
+        if (!entry) throw new Error(`No such file in the zip archive: ${name}`);
+        if (this.uint32(entry.offset) !== localFileHeader) throw new Error(`Corrupt zip archive: ${name}`);
+        const start: number = entry.offset + 30 + this.view.getUint16(entry.offset + 26, true) + this.view.getUint16(entry.offset + 28, true);
+        const contents: Uint8Array = this.data.subarray(start, start + entry.size);
+        if (entry.method === 0) return contents;
+        if (entry.method === 8) return inflateRawSync(contents);
+        throw new Error(`Unsupported compression method ${entry.method}: ${name}`);
+    }
+
+    /**
+     * Reads a UTF-8 text file of the archive.
+     * @param {string} name - The path in the archive.
+     * @returns {string} The text of the file.
+     */
+    readText(name: string): string {
+        return new TextDecoder().decode(this.read(name));
+    }
+}
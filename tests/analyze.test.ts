@@ -0,0 +1,45 @@
+import readability, { DefaultTokenizer, Readability } from '../src';
+import syllable from '../src/syllable';
+
+const text = 'Playing games has always been thought to be important to the development of well-balanced and creative children; however, what part, if any, they should play in the lives of adults has never been researched that deeply. I believe that playing games is every bit as important for adults as for children. Not only is taking time out to play games with our children and other adults valuable to building interpersonal relationships but is also a wonderful way to release built up tension.';
+
+test('analyze counts', () => {
+    const { counts } = readability.analyze(text);
+    expect(counts.words).toBe(readability.lexiconCount(text));
+    expect(counts.sentences).toBe(readability.sentenceCount(text));
+    expect(counts.polysyllables).toBe(readability.polySyllableCount(text));
+    expect(counts.difficultWords).toBe(readability.difficultWords(text));
+    expect(counts.complexWords).toBe(readability.difficultWords(text, 3));
+});
+
+test('analyze scores match the individual formulas', () => {
+    const { scores } = readability.analyze(text);
+    expect(scores.fleschReadingEase).toBe(readability.fleschReadingEase(text));
+    expect(scores.fleschKincaidGrade).toBe(readability.fleschKincaidGrade(text));
+    expect(scores.smogIndex).toBe(readability.smogIndex(text));
+    expect(scores.colemanLiauIndex).toBe(readability.colemanLiauIndex(text));
+    expect(scores.automatedReadabilityIndex).toBe(readability.automatedReadabilityIndex(text));
+    expect(scores.linsearWriteFormula).toBe(readability.linsearWriteFormula(text));
+    expect(scores.daleChallReadabilityScore).toBe(readability.daleChallReadabilityScore(text));
+    expect(scores.gunningFog).toBe(readability.gunningFog(text));
+    expect(scores.lix).toBe(readability.lix(text));
+    expect(scores.rix).toBe(readability.rix(text));
+    expect(scores.textStandard).toBe(readability.textStandard(text, true));
+    expect(scores.textStandardLabel).toBe(readability.textStandard(text));
+    expect(scores.textMedian).toBe(readability.textMedian(text));
+});
+
+test('analyze splits the text and counts the syllables of every distinct word once', () => {
+    const tokenizer: DefaultTokenizer = new DefaultTokenizer();
+    const tokenize = jest.spyOn(tokenizer, 'tokenize');
+    const syllableCounter = jest.fn((word: string) => syllable(word));
+    const counting: Readability = new Readability({ tokenizer, syllableCounter });
+    const long: string = [text, text, text].join('\n\n');
+
+    const { counts } = counting.analyze(long);
+    expect(tokenize).toHaveBeenCalledTimes(1);
+    const distinct: Set<string> = new Set(tokenize.mock.results[0].value as string[]);
+    expect(syllableCounter).toHaveBeenCalledTimes(distinct.size);
+    expect(counts.sentences).toBe(counting.sentenceCount(long));
+    expect(counts.difficultWords).toBe(counting.difficultWords(long));
+});
@@ -0,0 +1,24 @@
+import readability from '../src';
+
+const text = 'The (complicated) children played happily. Cats sat on mats.';
+
+test('annotations point at the flagged words', () => {
+    const annotations = readability.annotate(text);
+    expect(annotations.map(word => word.text)).toEqual(['complicated', 'children', 'happily']);
+    for (const word of annotations) {
+        expect(text.slice(word.start, word.end)).toBe(word.text);
+    }
+});
+
+test('annotations carry the reasons', () => {
+    const [complicated, children] = readability.annotate(text);
+    expect(complicated.reasons).toEqual(['difficult', 'polysyllabic', 'long']);
+    expect(children.reasons).toEqual(['long']);
+});
+
+test('annotations agree with the counts', () => {
+    const annotations = readability.annotate(text);
+    const { counts } = readability.analyze(text);
+    expect(annotations.filter(word => word.reasons.includes('polysyllabic')).length).toBe(counts.polysyllables);
+    expect(annotations.filter(word => word.reasons.includes('long')).length).toBe(counts.longWords);
+});
@@ -0,0 +1,32 @@
+import { execFileSync } from 'child_process';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { build } from 'tsup';
+import config from '../tsup.config';
+
+// built inside the package, so that the bundles find its dependencies
+const outDir: string = join(__dirname, '..', 'node_modules', '.cache', 'build-test');
+
+const run = (script: string, type: 'commonjs' | 'module'): string =>
+    execFileSync(process.execPath, ['--input-type', type, '-e', script], { cwd: outDir, encoding: 'utf8' }).trim();
+
+beforeAll(async () => {
+    await build({ ...config, config: false, outDir, dts: false, sourcemap: false, silent: true });
+}, 120000);
+
+afterAll(() => rmSync(outDir, { recursive: true, force: true }));
+
+test('the documents entry extends the class of the main entry', () => {
+    expect(run(`
+        const readability = require('./index.js');
+        const { DocumentReadability } = require('./documents.js');
+        const documents = new DocumentReadability();
+        console.log(documents instanceof readability.Readability, readability instanceof readability.Readability,
+            documents.fleschReadingEase('The cat sat on the mat.') === readability.fleschReadingEase('The cat sat on the mat.'));
+    `, 'commonjs')).toBe('true true true');
+    expect(run(`
+        import readability, { Readability } from './module.mjs';
+        import { DocumentReadability } from './documents.mjs';
+        console.log(new DocumentReadability() instanceof Readability, readability instanceof Readability);
+    `, 'module')).toBe('true true');
+});
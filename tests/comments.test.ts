@@ -0,0 +1,129 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import readability, { CommentAnalysis } from '../src';
+import { extractComments, sourceLanguage } from '../src/formats/comments';
+
+const typescript: string = `/* eslint-disable no-console */
+/**
+ * Parses the settings file. See {@link Settings | the settings} for every option.
+ *
+ * Call \`parse(text)\` before the first run.
+ * @param {string} text - The text of the file.
+ * @returns {Settings} The settings.
+ * @example
+ * parse('{}');
+ */
+export function parse(text: string): Settings {
+    const url: string = 'http://example.com/*not a comment*/';
+    // a line comment is not read
+    return JSON.parse(text);
+}
+
+export class Store {
+    /**
+     * The number of items in the store.
+     */
+    private readonly size: number = 0;
+
+    /* Saves every item to the disk. */
+    async save(): Promise<void> {}
+}
+`;
+
+const python: string = `"""Tools to parse settings files."""
+
+import json
+
+
+class Settings:
+    """The settings of a project.
+
+    Every option has a default, see :class:\`~tools.Defaults\`.
+    """
+
+    def load(self, path,
+             strict=False):
+        """Loads the settings from a file.
+
+        Args:
+            path: The path of the file.
+
+        Returns:
+            The settings.
+        """
+        query = """
+        def not_a_function():
+            """
+        return json.load(path)
+
+    def size(self): return 0
+
+
+def parse(text):
+    '''
+    Parses settings.
+
+    >>> parse('{}')
+    {}
+
+    Parameters
+    ----------
+    text : str
+    '''
+`;
+
+test('extracts block comments, JSDoc descriptions and their symbols', () => {
+    expect(extractComments(typescript, 'javascript')).toEqual([
+        { line: 2, symbol: 'parse', kind: 'jsdoc', text: 'Parses the settings file. See the settings for every option.\n\nCall before the first run.' },
+        { line: 18, symbol: 'size', kind: 'jsdoc', text: 'The number of items in the store.' },
+        { line: 23, symbol: 'save', kind: 'block', text: 'Saves every item to the disk.' },
+    ]);
+});
+
+test('extracts docstrings, named after their classes and functions', () => {
+    expect(extractComments(python, 'python')).toEqual([
+        { line: 1, symbol: '', kind: 'docstring', text: 'Tools to parse settings files.' },
+        { line: 7, symbol: 'Settings', kind: 'docstring', text: 'The settings of a project.\n\nEvery option has a default, see tools.Defaults.' },
+        { line: 14, symbol: 'Settings.load', kind: 'docstring', text: 'Loads the settings from a file.' },
+        { line: 31, symbol: 'parse', kind: 'docstring', text: 'Parses settings.' },
+    ]);
+    expect(sourceLanguage('lib/tools.PY')).toBe('python');
+    expect(sourceLanguage('src/index.d.ts')).toBe('javascript');
+    expect(sourceLanguage('README.md')).toBeUndefined();
+});
+
+test('scores every comment, keyed by file, line and symbol', () => {
+    const comments: CommentAnalysis[] = readability.analyzeComments({ 'src/parse.ts': typescript, 'tools/settings.py': python });
+
+    expect(comments.map(comment => `${comment.file}:${comment.line} ${comment.symbol}`)).toEqual([
+        'src/parse.ts:2 parse',
+        'src/parse.ts:18 size',
+        'src/parse.ts:23 save',
+        'tools/settings.py:1 ',
+        'tools/settings.py:7 Settings',
+        'tools/settings.py:14 Settings.load',
+        'tools/settings.py:31 parse',
+    ]);
+    expect(comments[0].scores).toEqual(readability.analyze(comments[0].text).scores);
+    expect(comments[0].counts.words).toBe(readability.lexiconCount(comments[0].text));
+    expect(() => readability.analyzeComments({ 'lib/parser.rb': '' })).toThrow('Unsupported source file: lib/parser.rb');
+});
+
+test('skips regular expressions that hold quotes, backticks or comment markers', () => {
+    const source: string = [
+        'const re = /`/;',
+        'const quote = /["\']/g, half = total / 2 / count;',
+        'const glob = /[/*]+/;',
+        'function strip(text) { return text.replace(/\\/\\*/g, ""); }',
+        '/** Adds two numbers. */',
+        'function add(a, b) { return a + b; }',
+    ].join('\n');
+
+    expect(extractComments(source, 'javascript')).toEqual([{ line: 5, symbol: 'add', kind: 'jsdoc', text: 'Adds two numbers.' }]);
+});
+
+test('reads the JSDoc comments of a source full of regular expressions', () => {
+    const markdown: string = readFileSync(join(__dirname, '..', 'src', 'formats', 'markdown.ts'), 'utf8');
+
+    expect(extractComments(markdown, 'javascript').map(comment => comment.symbol)).toEqual(['tableCells', 'inlineText', 'markdownToText']);
+});
@@ -0,0 +1,23 @@
+import readability from '../src';
+
+test('difficult word list', () => {
+    const text = 'Glossaries define terminology. Terminology matters, terminology helps.';
+    const words = readability.difficultWordList(text);
+    expect(words.length).toBe(readability.difficultWords(text));
+    expect(words.find(word => word.word === 'terminology')).toEqual({
+        word: 'terminology',
+        lemma: 'terminologies',
+        syllables: 5,
+        occurrences: 3,
+    });
+    expect(readability.difficultWordList(text, 3).map(word => word.word)).toEqual(['Glossaries', 'terminology']);
+});
+
+test('every case and form of a word is one entry', () => {
+    const text = 'Glossary terms fill the glossaries. GLOSSARIES help.';
+    const words = readability.difficultWordList(text);
+    expect(words.filter(word => word.lemma === 'glossaries')).toEqual([
+        { word: 'Glossary', lemma: 'glossaries', syllables: 3, occurrences: 3 },
+    ]);
+    expect(readability.difficultWords(text)).toBe(words.length);
+});
@@ -0,0 +1,65 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import readability from '../src';
+import { DocumentAnalysis, DocumentReadability, docxToText } from '../src/documents';
+import { ZipArchive } from '../src/zip';
+
+const handbook: Buffer = readFileSync(join(__dirname, 'fixtures', 'handbook.docx'));
+const documents: DocumentReadability = new DocumentReadability();
+
+test('reads stored and deflated files of a zip archive', () => {
+    const archive: ZipArchive = new ZipArchive(handbook);
+
+    expect(archive.names).toEqual(['[Content_Types].xml', 'word/document.xml', 'word/styles.xml']);
+    expect(archive.readText('word/styles.xml')).toContain('heading 1');
+    expect(archive.readText('word/document.xml')).toContain('Employee Handbook');
+    expect(() => archive.read('word/missing.xml')).toThrow('No such file in the zip archive: word/missing.xml');
+    expect(() => new ZipArchive(Buffer.from('not a zip'))).toThrow('Not a zip archive');
+});
+
+test('extracts paragraphs, headings and table cells as separate blocks', () => {
+    const { text, sections } = docxToText(handbook);
+
+    expect(text).toBe([
+        'Employee Handbook',
+        'This handbook explains the policies of the company.',
+        'Working hours',
+        'Staff work from nine to five on weekdays.',
+        'Overtime is paid at the standard rate & approved by managers.',
+        'Leave',
+        'Annual leave',
+        'Twenty days each year',
+        'Conduct',
+        'Employees should treat colleagues with respect.',
+    ].join('\n\n'));
+    expect(sections.map(section => [section.heading, section.level])).toEqual([
+        ['Employee Handbook', 1],
+        ['Working hours', 1],
+        ['Leave', 2],
+        ['Conduct', 1],
+    ]);
+    expect(sections[2].text).toBe('Leave\n\nAnnual leave\n\nTwenty days each year');
+});
+
+test('analyzes the document and every section', () => {
+    const report: DocumentAnalysis = documents.analyzeDocx(handbook);
+
+    expect(report.scores).toEqual(readability.analyze(report.text).scores);
+    expect(report.counts.sentences).toBe(readability.sentenceCount(report.text));
+    expect(report.sections).toHaveLength(4);
+    expect(report.sections[1].heading).toBe('Working hours');
+    expect(report.sections[1].scores).toEqual(readability.analyze(report.sections[1].text).scores);
+    // the text of a document is plain text, whatever the format of the instance
+    expect(new DocumentReadability({ format: 'markdown' }).analyzeDocx(handbook).counts).toEqual(report.counts);
+    expect(() => documents.analyzeDocx(readFileSync(join(__dirname, 'fixtures', 'overrides.json')))).toThrow('Not a zip archive');
+});
+
+test('keeps zlib out of the main entry', () => {
+    jest.isolateModules(() => {
+        jest.doMock('zlib', () => {
+            throw new Error('zlib was loaded');
+        });
+        expect(() => require('../src')).not.toThrow();
+        expect(() => require('../src/documents')).toThrow('zlib was loaded');
+    });
+});
@@ -0,0 +1,58 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import readability from '../src';
+import { BookAnalysis, DocumentReadability, epubToText } from '../src/documents';
+import { gradeSpread } from '../src/formulas';
+
+const book: Buffer = readFileSync(join(__dirname, 'fixtures', 'book.epub'));
+const documents: DocumentReadability = new DocumentReadability();
+
+test('reads the chapters of a book in spine order', () => {
+    const { title, chapters } = epubToText(book);
+
+    expect(title).toBe('A Day & a Dog');
+    expect(chapters.map(chapter => [chapter.title, chapter.path])).toEqual([
+        ['The Dog', 'OEBPS/Text/chapter 1.xhtml'],
+        ['Consequences & Considerations', 'OEBPS/Text/chapter2.xhtml'],
+        ['The End', 'OEBPS/Text/chapter3.xhtml'],
+    ]);
+    expect(chapters[0].text).toBe(
+        'The Dog\n\nThe dog ran to the park. It was a big dog. The sun was out and the dog was happy.\n\nHe ran and ran all day.',
+    );
+    expect(() => epubToText(readFileSync(join(__dirname, 'fixtures', 'handbook.docx'))))
+        .toThrow('Not an EPUB book: META-INF/container.xml is missing');
+});
+
+test('reads links with a bare percent sign as they are', () => {
+    const { chapters } = epubToText(readFileSync(join(__dirname, 'fixtures', 'percent.epub')));
+
+    expect(chapters.map(chapter => [chapter.title, chapter.path])).toEqual([
+        ['Full marks', 'OEBPS/100%.xhtml'],
+        ['Half time', 'OEBPS/half time.xhtml'],
+    ]);
+});
+
+test('scores every chapter and the whole book', () => {
+    const report: BookAnalysis = documents.analyzeEpub(book);
+    const chapters: string[] = epubToText(book).chapters.map(chapter => chapter.text);
+
+    expect(report.title).toBe('A Day & a Dog');
+    expect(report.chapters).toHaveLength(3);
+    expect(report.chapters[1].scores).toEqual(readability.analyze(chapters[1]).scores);
+    expect(report.scores).toEqual(readability.analyze(chapters.join('\n\n')).scores);
+    expect(report.chapters[0].scores.fleschKincaidGrade).toBeLessThan(report.chapters[1].scores.fleschKincaidGrade);
+});
+
+test('reports the spread of grades across chapters', () => {
+    const { chapters, spread } = documents.analyzeEpub(book);
+    const grades: number[] = chapters.map(chapter => chapter.scores.textStandard);
+
+    expect(spread.min).toBe(Math.min(...grades));
+    expect(spread.max).toBe(Math.max(...grades));
+    expect(spread.range).toBe(spread.max - spread.min);
+    expect(spread.hardest).toBe(1);
+    expect(chapters[spread.easiest].scores.textStandard).toBe(spread.min);
+    expect(spread.standardDeviation).toBeGreaterThan(0);
+    expect(gradeSpread([4, 10, 7])).toEqual({ min: 4, max: 10, range: 6, mean: 7, standardDeviation: 2.45, easiest: 0, hardest: 1 });
+    expect(gradeSpread([]).hardest).toBe(-1);
+});
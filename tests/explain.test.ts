@@ -0,0 +1,25 @@
+import readability from '../src';
+
+const text = 'Playing games has always been thought to be important to the development of well-balanced and creative children. I believe that playing games is every bit as important for adults as for children. Not only is taking time out to play games with our children valuable, it is also a wonderful way to release tension.';
+
+test('explanations carry the same value as the formulas', () => {
+    expect(readability.explainFleschReadingEase(text).value).toBe(readability.fleschReadingEase(text));
+    expect(readability.explainFleschKincaidGrade(text).value).toBe(readability.fleschKincaidGrade(text));
+    expect(readability.explainSmogIndex(text).value).toBe(readability.smogIndex(text));
+    expect(readability.explainColemanLiauIndex(text).value).toBe(readability.colemanLiauIndex(text));
+    expect(readability.explainAutomatedReadabilityIndex(text).value).toBe(readability.automatedReadabilityIndex(text));
+    expect(readability.explainLinsearWriteFormula(text).value).toBe(readability.linsearWriteFormula(text));
+    expect(readability.explainDaleChallReadabilityScore(text).value).toBe(readability.daleChallReadabilityScore(text));
+    expect(readability.explainGunningFog(text).value).toBe(readability.gunningFog(text));
+    expect(readability.explainLix(text).value).toBe(readability.lix(text));
+    expect(readability.explainRix(text).value).toBe(readability.rix(text));
+});
+
+test('explanation shows the arithmetic', () => {
+    const { inputs, coefficients, terms } = readability.explainFleschKincaidGrade(text);
+    const { counts } = readability.analyze(text);
+    expect(inputs).toEqual({ words: counts.words, sentences: counts.sentences, syllables: counts.syllables });
+    expect(terms.sentenceLengthTerm).toBe(coefficients.sentenceLength * terms.sentenceLength);
+    expect(terms.syllablesPerWordTerm).toBe(coefficients.syllablesPerWord * terms.syllablesPerWord);
+    expect(terms.score).toBe(terms.sentenceLengthTerm + terms.syllablesPerWordTerm - coefficients.base);
+});
@@ -0,0 +1,48 @@
+import readability, { Readability } from '../src';
+import { decodeEntities, htmlToText } from '../src/formats/html';
+
+const page: string = `<!DOCTYPE html>
+<html>
+<head><title>Quarterly update</title><style>p { color: red; }</style></head>
+<body>
+    <h1>Quarterly update</h1>
+    <!-- hero banner -->
+    <p>Our team shipped three features &amp; fixed <b>many</b> bugs this quarter.</p>
+    <ul><li>Faster search for every user</li><li>Dark mode for the editor</li></ul>
+    <p>Run <code>npm install --save readability</code> to try it.</p>
+    <script>if (a < b) { track("page view"); }</script>
+    <table><tr><td>Revenue per customer</td><td>Retention of customers</td></tr></table>
+</body>
+</html>`;
+
+test('decodes named and numeric character references', () => {
+    expect(decodeEntities('Fish &amp; chips &mdash; &#8220;good&#x201D; &unknown; &#0;'))
+        .toBe('Fish & chips — “good” &unknown; &#0;');
+});
+
+test('extracts the text of a page, with a blank line between blocks', () => {
+    expect(htmlToText(page)).toBe([
+        'Quarterly update',
+        'Our team shipped three features & fixed many bugs this quarter.',
+        'Faster search for every user',
+        'Dark mode for the editor',
+        'Run to try it.',
+        'Revenue per customer',
+        'Retention of customers',
+    ].join('\n\n'));
+    expect(htmlToText('One<br>two <span>three</span>\n  four')).toBe('One\ntwo three four');
+    expect(htmlToText('<img src="a.png" alt="x > y">Text <a href="/b?c=1&amp;d=2">link</a>')).toBe('Text link');
+});
+
+test('scores the text of HTML instead of its markup', () => {
+    const html: Readability = new Readability({ format: 'html' });
+
+    expect(readability.lexiconCount(page)).toBeGreaterThan(html.lexiconCount(page));
+    expect(html.lexiconCount(page)).toBe(readability.lexiconCount(htmlToText(page)));
+    expect(html.sentenceCount(page)).toBe(6);
+    expect(html.analyze(page).counts.sentences).toBe(6);
+    expect(html.fleschReadingEase(page)).toBe(readability.fleschReadingEase(htmlToText(page)));
+    expect(html.analyzeSentences(page).map(sentence => sentence.text)[2]).toBe('Faster search for every user');
+    expect(html.annotate('<p>Quarterly <i>revenue</i></p>').map(word => [word.text, word.start]))
+        .toEqual([['Quarterly', 0], ['revenue', 10]]);
+});
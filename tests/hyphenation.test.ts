@@ -0,0 +1,31 @@
+import readability, { Readability } from '../src';
+import { patternLanguage, patternSyllables } from '../src/hyphenation';
+
+const syllables = (text: string, lang: string): string[] =>
+    text.split(' ').map(word => patternSyllables(word, lang).join('·'));
+
+test('splits words with the patterns of their language', () => {
+    expect(syllables('Silbentrennung Kindergarten Feuer', 'de-DE')).toEqual(['sil·ben·tren·nung', 'kin·der·gar·ten', 'feu·er']);
+    expect(syllables('ordinateur chanson', 'fr')).toEqual(['or·di·na·teur', 'chan·son']);
+    expect(syllables('murciélago ciudad', 'es')).toEqual(['mur·cié·la·go', 'ciu·dad']);
+    expect(syllables('famiglia università', 'it')).toEqual(['fa·mi·glia', 'u·ni·ver·si·tà']);
+    expect(syllables('ziekenhuis boterham', 'nl')).toEqual(['zie·ken·huis', 'bo·ter·ham']);
+    expect(syllables('coração saudade', 'pt-BR')).toEqual(['co·ra·ção', 'sau·da·de']);
+    expect(syllables('smörgåsbord flicka', 'sv')).toEqual(['smör·gås·bord', 'flic·ka']);
+    expect(syllables('молоко здравствуйте', 'ru')).toEqual(['мо·ло·ко', 'здрав·ствуй·те']);
+});
+
+test('only knows the bundled languages', () => {
+    expect(patternLanguage('de-CH')).toBe('de');
+    expect(patternLanguage('en-US')).toBeUndefined();
+    expect(patternSyllables('Haus', 'en-US')).toEqual([]);
+});
+
+test('lang selects the syllable counter', () => {
+    expect(readability.syllableCount('Donaudampfschifffahrt', 'de')).toBe(5);
+    expect(readability.syllableCount('молоко')).toBe(0);
+    expect(readability.syllableCount('молоко', 'ru')).toBe(3);
+    const german = new Readability({ language: 'de-DE' });
+    expect(german.syllableCount('Der Kindergarten ist schön.')).toBe(7);
+    expect(german.syllableReport('Kindergarten').sources.hyphenation).toBe(1);
+});
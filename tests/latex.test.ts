@@ -0,0 +1,73 @@
+import readability, { Readability } from '../src';
+import { latexToText } from '../src/formats/latex';
+
+const paper: string = `\\documentclass{article}
+\\usepackage{amsmath}
+\\newcommand{\\tool}{Readability Checker}
+\\newcommand{\\norm}[1]{\\lVert #1 \\rVert}
+\\title{A Study of Dogs}
+
+\\begin{document}
+\\maketitle
+
+\\begin{abstract}
+We study dogs in the park.
+\\end{abstract}
+
+\\section{Introduction}
+\\label{sec:intro}
+Dogs run fast~\\cite{smith2020}. % this comment is not read
+The \\emph{big} dog ran $x^2 + y$ metres, see Figure~\\ref{fig:dog}.
+We used \\tool{} and \\LaTeX\\ldots
+
+\\subsection*{Method}
+\\begin{equation}
+    E = mc^2
+\\end{equation}
+Let \\(a = \\norm{b}\\) be the speed.
+\\begin{align*}
+    a &= b \\\\
+    c &= d
+\\end{align*}
+
+\\begin{itemize}
+    \\item Fast dogs
+    \\item[Slow] dogs walk
+\\end{itemize}
+The caf\\'e is \`\`open''---mostly.\\footnote{Not on Sundays.}
+\\end{document}
+Anything after the document is not read.`;
+
+test('extracts the text of a paper, with a blank line between blocks', () => {
+    expect(latexToText(paper)).toBe([
+        'We study dogs in the park.',
+        'Introduction',
+        'Dogs run fast. The big dog ran metres, see Figure. We used Readability Checker and LaTeX…',
+        'Method',
+        'Let be the speed.',
+        'Fast dogs',
+        'Slow dogs walk',
+        'The café is "open"—mostly.',
+    ].join('\n\n'));
+});
+
+test('expands text macros and drops math, code and comments', () => {
+    expect(latexToText(`\\v{S}koda and Ren\\'{e} wrote 50\\% of it, \\eg the \\textbf{first} part.`))
+        .toBe('Škoda and René wrote 50% of it, e.g. the first part.');
+    expect(latexToText(`Run \\verb|npm test| now. \\[ x = 1 \\] $$y$$ Done.`)).toBe('Run now. Done.');
+    expect(latexToText(`See \\href{https://example.com}{the docs}.%
+\\begin{verbatim}
+code here
+\\end{verbatim}`)).toBe('See the docs.');
+    expect(latexToText(`\\def\\loop{\\loop}\\loop Still here.`)).toBe('Still here.');
+});
+
+test('reads LaTeX documents with the latex format', () => {
+    const latex: Readability = new Readability({ format: 'latex' });
+
+    expect(latex.lexiconCount(paper)).toBe(readability.lexiconCount(latexToText(paper)));
+    expect(latex.lexiconCount(paper)).toBeLessThan(readability.lexiconCount(paper));
+    expect(latex.sentenceCount(`\\section{Our main results}\\section{What we learned}`)).toBe(2);
+    expect(latex.gunningFog(paper)).toBe(readability.gunningFog(latexToText(paper)));
+    expect(latex.analyzeSentences(paper)[1].text).toBe('Introduction');
+});
@@ -0,0 +1,72 @@
+import readability, { Readability } from '../src';
+import { markdownToText } from '../src/formats/markdown';
+
+const doc: string = `---
+title: Getting started
+---
+
+# Getting started
+
+Install the package with \`npm install text-readability-ts\` and read the
+[API reference](https://example.com/api "API") for **every** option.
+
+![Architecture diagram](images/diagram.png)
+
+\`\`\`ts
+const score = readability.fleschReadingEase(text);
+\`\`\`
+
+## Features
+
+- Scores plain text
+- Reads HTML pages
+* [x] Reads Markdown documents
+
+> Quoted advice stays readable.
+
+| Formula | Audience |
+| ------- | -------- |
+| Flesch reading ease | General readers |
+
+[api]: https://example.com/api
+`;
+
+test('extracts the text of a document, with a blank line between blocks', () => {
+    expect(markdownToText(doc)).toBe([
+        'Getting started',
+        'Install the package with and read the API reference for every option.',
+        'Features',
+        'Scores plain text',
+        'Reads HTML pages',
+        'Reads Markdown documents',
+        'Quoted advice stays readable.',
+        'Formula',
+        'Audience',
+        'Flesch reading ease',
+        'General readers',
+    ].join('\n\n'));
+});
+
+test('leaves out code, URLs and syntax', () => {
+    expect(markdownToText('Intro\n===\n\nText with _emphasis_, snake_case and \\*stars\\*.')).toBe('Intro\n\nText with emphasis, snake_case and *stars*.');
+    expect(markdownToText('Para one.\n\n    indented code\n\nSee https://example.com now.')).toBe('Para one.\n\nSee now.');
+    expect(markdownToText('- item\n\n    continued item\n---\n<b>Bold</b> &amp; more[^1]')).toBe('item\n\ncontinued item\n\nBold & more');
+});
+
+test('closes fences inside block quotes, and only on a fence as long as the opening one', () => {
+    expect(markdownToText('> ```\n> code\n> ```\n\nAfter the quote there is text.')).toBe('After the quote there is text.');
+    expect(markdownToText('````md\n```\nnested fence\n```\n````\n\nAfter the example.')).toBe('After the example.');
+    expect(markdownToText('~~~\n```\n~~~\n\nAfter the tildes.')).toBe('After the tildes.');
+});
+
+test('scores headings and list items as separate sentences', () => {
+    const markdown: Readability = new Readability({ format: 'markdown' });
+    const list: string = '- Install the package now\n- Import the default export\n- Score your documents';
+
+    expect(readability.sentenceCount(list)).toBe(1);
+    expect(markdown.sentenceCount(list)).toBe(3);
+    expect(markdown.lexiconCount(doc)).toBe(readability.lexiconCount(markdownToText(doc)));
+    expect(markdown.lexiconCount(doc)).toBeLessThan(readability.lexiconCount(doc));
+    expect(markdown.analyze(doc).counts.sentences).toBe(markdown.sentenceCount(doc));
+    expect(markdown.gunningFog(doc)).toBe(readability.gunningFog(markdownToText(doc)));
+});
@@ -0,0 +1,59 @@
+import readability, { Readability } from '../src';
+import normalize from '../src/normalize';
+
+test('normalize replaces characters with the bundled or a custom character map', () => {
+    expect(normalize('Hôtel Café')).toBe('Hotel Cafe');
+    expect(normalize('Straße-[x]', { 223: 'ss', 93: ')' })).toBe('Strasse-[x)');
+    expect(normalize('a b')).toBe('a b');
+});
+
+test('folds accented words so that easy word lookups succeed', () => {
+    const folding: Readability = new Readability({ foldDiacritics: true, easyWords: ['the', 'cafes', 'were', 'full'] });
+    const text: string = 'The cafés were full.';
+
+    expect(new Readability({ easyWords: ['the', 'cafes', 'were', 'full'] }).difficultWords(text)).toBe(1);
+    expect(folding.difficultWords(text)).toBe(0);
+    // decomposed accents are composed before folding
+    expect(folding.difficultWords(text.normalize('NFD'))).toBe(0);
+    expect(folding.syllableReport('naïve café').words.map(word => word.word)).toEqual(['naive', 'cafe']);
+});
+
+test('annotates words in their folded form, at their offsets in the text as given', () => {
+    const folding: Readability = new Readability({ foldDiacritics: true, easyWords: ['the', 'cafes', 'were', 'full'] });
+    const text: string = 'The cafés were full of ﬁreworks.';
+
+    expect(new Readability({ easyWords: ['the', 'cafes', 'were', 'full'] }).annotate(text)[0]).toMatchObject({ text: 'cafés', reasons: ['difficult'] });
+    expect(folding.difficultWordList(text).map(word => word.word)).toEqual(['ﬁreworks']);
+    expect(folding.annotate(text).map(word => word.text)).toEqual(['ﬁreworks']);
+    expect(new Readability({ normalization: 'NFKC' }).annotate(text).pop()).toMatchObject({ text: 'ﬁreworks', start: 23, end: 31, syllables: 3 });
+});
+
+test('applies NFKC to compatibility characters and punctuation', () => {
+    const nfkc: Readability = new Readability({ normalization: 'NFKC' });
+    const text: string = 'Ｄａｎｇｅｒｏｕｓ ﬁreworks！';
+
+    // fullwidth letters have no syllables without NFKC
+    expect(readability.syllableCount(text)).toBe(2);
+    expect(nfkc.syllableCount(text)).toBeGreaterThan(readability.syllableCount(text));
+    expect(readability.difficultWords(text)).toBe(1);
+    expect(nfkc.difficultWords(text)).toBe(0);
+    // fullwidth punctuation is not removed without NFKC
+    expect(readability.letterCount('Ｗｏｗ！')).toBe(4);
+    expect(nfkc.letterCount('Ｗｏｗ！')).toBe(3);
+    expect(new Readability({ normalization: 'NFC' }).difficultWords(text)).toBe(1);
+});
+
+test('folds with a custom character map on top of the bundled one', () => {
+    const custom: Readability = new Readability({ foldDiacritics: { ß: 'ss', é: 'ee' } });
+
+    expect(custom.syllableReport('Straße Café Crème').words.map(word => word.word)).toEqual(['Strasse', 'Cafee', 'Creme']);
+    expect(() => new Readability({ foldDiacritics: { ss: 'ß' } })).toThrow('Invalid character map key "ss"');
+    expect(() => new Readability({ foldDiacritics: { ß: 1 as unknown as string } })).toThrow('Invalid replacement for "ß": 1');
+});
+
+test('normalizes override keys like the text', () => {
+    const custom: Readability = new Readability({ foldDiacritics: true, overrides: { 'Café': 2 } });
+
+    expect(custom.syllableCount('café')).toBe(2);
+    expect(custom.syllableReport('cafe').sources.override).toBe(1);
+});
@@ -0,0 +1,60 @@
+import readability, { DefaultTokenizer, Readability } from '../src';
+
+const text = 'The cat sat on the mat. The dog sat on the log. Everybody watched the animals carefully.';
+
+test('default instance uses the default settings', () => {
+    expect(new Readability().analyze(text)).toEqual(readability.analyze(text));
+});
+
+test('precision applies to every formula score', () => {
+    const scores = new Readability({ precision: 0 }).analyze(text).scores;
+    expect(Number.isInteger(scores.fleschReadingEase)).toBe(true);
+    expect(Number.isInteger(scores.colemanLiauIndex)).toBe(true);
+    expect(Number.isInteger(scores.gunningFog)).toBe(true);
+});
+
+test('instances do not share settings', () => {
+    const noEasyWords = new Readability({ easyWords: [] });
+    const oneSyllable = new Readability({ syllableCounter: text => text.split(/\s+/).length });
+    expect(noEasyWords.presentTense('aching')).toBe('ach');
+    expect(readability.presentTense('aching')).toBe('ache');
+    expect(oneSyllable.syllableCount('banana apple')).toBe(2);
+    expect(readability.syllableCount('banana apple')).toBe(5);
+});
+
+test('custom tokenizer', () => {
+    const lines = new Readability({ tokenizer: { tokenize: text => text.split('\n').filter(Boolean) } });
+    expect(lines.lexiconCount('one two\nthree four')).toBe(2);
+    expect(lines.syllableCount('one two\nthree four')).toBe(lines.analyze('one two\nthree four').counts.syllables);
+    expect(readability.lexiconCount('one two\nthree four')).toBe(4);
+});
+
+test('extending the default tokenizer', () => {
+    class CitationTokenizer extends DefaultTokenizer {
+        tokenize(text: string): string[] {
+            // section numbers are not words
+            return super.tokenize(text).filter(word => !/^\d/.test(word));
+        }
+    }
+    const legal = new Readability({ tokenizer: new CitationTokenizer() });
+    expect(legal.lexiconCount('See § 12 of the act.')).toBe(4);
+    expect(readability.lexiconCount('See § 12 of the act.')).toBe(5);
+});
+
+test('custom sentence splitter', () => {
+    const chat = 'hey are you there\nyes i am here now\nok lets start the call';
+    const lines = new Readability({ sentenceSplitter: { split: text => text.split('\n') } });
+    expect(lines.sentenceCount(chat)).toBe(3);
+    expect(readability.sentenceCount(chat)).toBe(1);
+    expect(lines.analyzeSentences(chat).map(sentence => sentence.start)).toEqual([0, 18, 36]);
+    expect(lines.analyze(chat).counts.sentences).toBe(3);
+});
+
+test('CommonJS exports are the default instance with the classes attached', () => {
+    const exported = require('../src');
+    expect(exported).toBe(readability);
+    expect(exported.default).toBe(readability);
+    expect(exported.fleschReadingEase(text)).toBe(readability.fleschReadingEase(text));
+    expect(new exported.Readability()).toBeInstanceOf(Readability);
+    expect(exported.DefaultTokenizer).toBe(DefaultTokenizer);
+});
@@ -0,0 +1,38 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import readability, { Readability } from '../src';
+
+const overrides = readFileSync(join(__dirname, 'fixtures', 'overrides.json'), 'utf8');
+const text = 'Kubernetes runs SaaS apps. Kubernetes serves a GIF.';
+
+test('loads overrides from a JSON file', () => {
+    const custom = new Readability();
+    custom.addOverrides(overrides);
+    expect(custom.syllableCount('Kubernetes')).toBe(4);
+    expect(custom.syllableCount('SaaS GIF')).toBe(2);
+    expect(custom.syllableReport('kubernetes,').words[0].source).toBe('override');
+});
+
+test('every count respects the overrides', () => {
+    const custom = new Readability({ overrides: JSON.parse(overrides) });
+    expect(custom.polySyllableCount(text)).toBe(2);
+    expect(custom.difficultWordList(text).map(word => [word.word, word.syllables])).toEqual([['Kubernetes', 4]]);
+    expect(custom.analyze(text).counts.syllables).toBe(custom.syllableCount(text));
+    expect(custom.annotate(text).filter(word => word.text === 'GIF')).toEqual([]);
+    expect(readability.syllableCount('Kubernetes')).not.toBe(4);
+});
+
+test('words can be made easy or difficult', () => {
+    const custom = new Readability({ overrides: { Kubernetes: { easy: true }, people: { easy: false } } });
+    expect(custom.difficultWordList('Kubernetes helps people.').map(word => word.word)).toEqual(['people']);
+    expect(custom.syllableCount('Kubernetes')).toBe(readability.syllableCount('Kubernetes'));
+});
+
+test('rejects invalid overrides', () => {
+    expect(() => new Readability({ overrides: { GIF: -1 } })).toThrow(TypeError);
+    expect(() => new Readability().addOverrides('[1, 2]')).toThrow('Overrides must be an object of words');
+    expect(() => new Readability().addOverrides('{"GIF": {"easy": "yes"}}')).toThrow('Invalid easy flag for "GIF": "yes"');
+    expect(() => new Readability().addOverrides('{"GIF": "one"}')).toThrow('Invalid syllable count for "GIF": "one"');
+    expect(() => new Readability().addOverrides('{"GIF": null}')).toThrow('Invalid syllable count for "GIF": null');
+    expect(() => new Readability().addOverrides('{"GIF": [1]}')).toThrow('Invalid syllable count for "GIF": [1]');
+});
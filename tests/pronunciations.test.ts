@@ -0,0 +1,57 @@
+import readability, { Readability } from '../src';
+import { lookupSyllables } from '../src/dictionary';
+
+const dictionary = new Readability({ dictionary: lookupSyllables });
+
+test('looks words up in the pronunciation dictionary', () => {
+    expect(lookupSyllables('business')).toBe(2);
+    expect(lookupSyllables('naive')).toBe(2);
+    expect(lookupSyllables('readability')).toBe(5);
+    expect(lookupSyllables('don’t')).toBe(1);
+    expect(lookupSyllables('well-known')).toBe(2);
+    expect(lookupSyllables('zzyzx')).toBeUndefined();
+});
+
+test('the dictionary backend falls back to the heuristic for unknown words', () => {
+    expect(dictionary.syllableCount('chocolate')).toBe(2);
+    expect(readability.syllableCount('chocolate')).toBe(3);
+    expect(dictionary.syllableCount('zzyzx')).toBe(readability.syllableCount('zzyzx'));
+});
+
+test('reports where every syllable count came from', () => {
+    const report = dictionary.syllableReport('The business of Zzyzx.');
+    expect(report.words.map(word => word.source)).toEqual(['dictionary', 'dictionary', 'dictionary', 'heuristic']);
+    expect(report.sources).toEqual({ override: 0, dictionary: 3, heuristic: 1, hyphenation: 0, custom: 0 });
+    expect(report.syllables).toBe(dictionary.syllableCount('The business of Zzyzx.'));
+    expect(readability.syllableReport('The business.').sources.heuristic).toBe(2);
+    expect(new Readability({ syllableCounter: () => 1 }).syllableReport('The business.').sources.custom).toBe(2);
+});
+
+test('the dictionary is only used for English', () => {
+    const german = new Readability({ language: 'de-DE', dictionary: lookupSyllables });
+    expect(german.syllableReport('business').sources.hyphenation).toBe(1);
+});
+
+test('the dictionary backend needs a dictionary, and takes any', () => {
+    expect(() => new Readability({ syllableBackend: 'dictionary' })).toThrow(TypeError);
+    expect(new Readability({ dictionary: lookupSyllables, syllableBackend: 'heuristic' }).syllableCount('chocolate')).toBe(3);
+
+    const brands = new Readability({ dictionary: word => (word === 'nike' ? 2 : undefined) });
+    expect(brands.syllableReport('Nike shoes').words.map(word => [word.syllables, word.source])).toEqual([[2, 'dictionary'], [1, 'heuristic']]);
+});
+
+test('keeps the pronunciation dictionary out of the main entry', () => {
+    jest.isolateModules(() => {
+        jest.doMock('../data/pronunciations', () => {
+            throw new Error('the pronunciation dictionary was loaded');
+        });
+        expect(() => require('../src')).not.toThrow();
+        expect(() => require('../src/dictionary')).toThrow('the pronunciation dictionary was loaded');
+    });
+});
+
+test('every formula uses the dictionary backend', () => {
+    const text = 'Every chocolate has a business. Chocolate makes people happy.';
+    expect(dictionary.analyze(text).counts.syllables).toBe(dictionary.syllableCount(text));
+    expect(dictionary.fleschKincaidGrade(text)).not.toBe(readability.fleschKincaidGrade(text));
+});
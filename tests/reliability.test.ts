@@ -0,0 +1,24 @@
+import readability from '../src';
+
+test('empty text is not a valid score', () => {
+    const { scores, reliability } = readability.analyze('');
+    expect(scores.fleschReadingEase).toBe(206.84);
+    expect(reliability.fleschReadingEase.valid).toBe(false);
+    expect(reliability.fleschReadingEase.warnings[0].code).toBe('no-words');
+});
+
+test('SMOG needs enough sentences', () => {
+    const text = 'The cat sat on the mat. The dog sat on the log. The bird sat in the tree. The fish swam in the pond.';
+    const { smogIndex } = readability.analyze(text).reliability;
+    expect(smogIndex.valid).toBe(true);
+    expect(smogIndex.warnings).toEqual([{ code: 'too-few-sentences', message: 'SMOG needs 30 sentences, got 4' }]);
+    expect(readability.analyze('The cat sat on the mat.').reliability.smogIndex.valid).toBe(false);
+});
+
+test('short samples are flagged', () => {
+    const text = 'The cat sat on the mat and looked at the dog.';
+    const explanation = readability.explainLinsearWriteFormula(text);
+    expect(explanation.valid).toBe(true);
+    expect(explanation.warnings).toEqual([{ code: 'short-sample', message: 'Linsear Write sampled only 11 words' }]);
+    expect(readability.explainGunningFog(text).warnings[0].code).toBe('short-text');
+});
@@ -0,0 +1,35 @@
+import { Readability } from '../src';
+import { legacyRound } from '../src/rounding';
+
+const text = 'Playing games has always been thought to be important to the development of well-balanced and creative children. I believe that playing games is every bit as important for adults as for children. Not only is taking time out to play games with our children valuable, it is also a wonderful way to release tension.';
+
+test('legacyRound rounds half away from zero', () => {
+    expect(legacyRound(2.5)).toBe(3);
+    expect(legacyRound(3.14159, 2)).toBe(3.14);
+    expect(legacyRound(0, 2)).toBe(0);
+});
+
+test('Math is left untouched', () => {
+    expect('legacyRound' in Math).toBe(false);
+    expect('copySign' in Math).toBe(false);
+});
+
+test('legacy rounding is the default', () => {
+    expect(new Readability({ rounding: 'legacy' }).analyze(text)).toEqual(new Readability().analyze(text));
+});
+
+test('no rounding keeps full precision', () => {
+    const exact = new Readability({ rounding: 'none' });
+    const { counts, scores } = exact.analyze(text);
+    const wordsPerSentence = counts.words / counts.sentences;
+    const syllablesPerWord = counts.syllables / counts.words;
+    expect(scores.fleschKincaidGrade).toBeCloseTo(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59, 10);
+    expect(exact.averageSentenceLength(text)).toBe(wordsPerSentence);
+});
+
+test('fixed rounding rounds only the final scores', () => {
+    const exact = new Readability({ rounding: 'none' }).analyze(text).scores;
+    const fixed = new Readability({ rounding: 'fixed', precision: 3 }).analyze(text).scores;
+    expect(fixed.colemanLiauIndex).toBe(legacyRound(exact.colemanLiauIndex, 3));
+    expect(fixed.automatedReadabilityIndex).toBe(legacyRound(exact.automatedReadabilityIndex, 3));
+});
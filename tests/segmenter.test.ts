@@ -0,0 +1,47 @@
+import readability from '../src';
+import { splitSentences } from '../src/segmenter';
+
+const sentences = (text: string): string[] => splitSentences(text).map(sentence => sentence.text);
+
+test('abbreviations and initials do not end sentences', () => {
+    expect(sentences('Dr. Smith joined the U.S. Army. He left.')).toEqual(['Dr. Smith joined the U.S. Army.', 'He left.']);
+    expect(sentences('J. R. R. Tolkien wrote it, e.g. The Hobbit. It sold well.')).toEqual([
+        'J. R. R. Tolkien wrote it, e.g. The Hobbit.',
+        'It sold well.',
+    ]);
+    expect(sentences('See No. 5 for details. Then rest.')).toEqual(['See No. 5 for details.', 'Then rest.']);
+    expect(sentences('We sold apples, pears, etc. Then we left.')).toEqual(['We sold apples, pears, etc.', 'Then we left.']);
+});
+
+test('numbers do not end sentences', () => {
+    expect(sentences('Pi is about 3.14 in value. 42 is the answer.')).toEqual(['Pi is about 3.14 in value.', '42 is the answer.']);
+});
+
+test('sentences may start with digits, quotes or lowercase letters', () => {
+    expect(sentences('It rained. "Stop," she said. then it stopped.')).toEqual(['It rained.', '"Stop," she said.', 'then it stopped.']);
+});
+
+test('closing quotes stay with their sentence', () => {
+    expect(sentences('He said "go home." She went.')).toEqual(['He said "go home."', 'She went.']);
+});
+
+test('ellipses', () => {
+    expect(sentences('I was... thinking about it. Wait... What now?')).toEqual(['I was... thinking about it.', 'Wait...', 'What now?']);
+    expect(sentences('And then… Nothing.')).toEqual(['And then…', 'Nothing.']);
+});
+
+test('blank lines end sentences', () => {
+    expect(sentences('A heading without punctuation\n\nThe first paragraph')).toEqual(['A heading without punctuation', 'The first paragraph']);
+});
+
+test('offsets point into the text', () => {
+    const text = '  "Hello there," he said.\nWho is there?  ';
+    for (const sentence of splitSentences(text)) {
+        expect(text.slice(sentence.start, sentence.end)).toBe(sentence.text);
+    }
+    expect(splitSentences('')).toEqual([{ text: '', start: 0, end: 0 }]);
+});
+
+test('sentenceCount uses the segmenter', () => {
+    expect(readability.sentenceCount('Mr. Smith went to Washington. He visited the U.S. Capitol today.')).toBe(2);
+});
@@ -0,0 +1,26 @@
+import readability from '../src';
+
+const text = 'The cat sat on the mat. Unquestionably, comprehensive institutional accountability remains extraordinarily complicated! Is it?\nYes it is.';
+
+test('sentences keep their offsets', () => {
+    const sentences = readability.analyzeSentences(text);
+    expect(sentences.map(sentence => sentence.text)).toEqual([
+        'The cat sat on the mat.',
+        'Unquestionably, comprehensive institutional accountability remains extraordinarily complicated!',
+        'Is it?',
+        'Yes it is.',
+    ]);
+    for (const sentence of sentences) {
+        expect(text.slice(sentence.start, sentence.end)).toBe(sentence.text);
+    }
+});
+
+test('sentences carry their own counts and grades', () => {
+    const [easy, hard, short] = readability.analyzeSentences(text);
+    expect(easy.words).toBe(6);
+    expect(hard.words).toBe(7);
+    expect(hard.polysyllables).toBeGreaterThan(easy.polysyllables);
+    expect(hard.grades.fleschKincaidGrade).toBeGreaterThan(easy.grades.fleschKincaidGrade);
+    expect(short.counted).toBe(false);
+    expect(readability.sentenceCount(text)).toBe(3);
+});
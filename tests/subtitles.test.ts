@@ -0,0 +1,74 @@
+import readability, { SubtitleAnalysis } from '../src';
+import { parseSubtitles } from '../src/formats/subtitles';
+import { readingRate } from '../src/formulas';
+
+const srt: string = [
+    '\uFEFF1',
+    '00:00:01,000 --> 00:00:03,000',
+    '<i>The dog ran to the park.</i>',
+    '',
+    '2',
+    '00:00:03,500 --> 00:00:04,500',
+    'It was a big dog and it was very, very happy.',
+    '',
+    '3',
+    '00:00:05,000 --> 00:00:13,000',
+    '{\\an8}The sun was out.',
+    '',
+].join('\r\n');
+
+const vtt: string = [
+    'WEBVTT',
+    '',
+    'NOTE This is not a cue.',
+    '',
+    'intro',
+    '00:01.000 --> 00:03.000 align:start',
+    '<v Anna>The dog ran</v>',
+    '<c.loud>to the park.</c>',
+    '',
+    '00:03.500 --> 00:04.500',
+    'It was a big dog &amp; it was happy.',
+].join('\n');
+
+test('parses SRT and WebVTT cues', () => {
+    expect(parseSubtitles(srt)).toEqual([
+        { id: '1', start: 1, end: 3, lines: ['The dog ran to the park.'] },
+        { id: '2', start: 3.5, end: 4.5, lines: ['It was a big dog and it was very, very happy.'] },
+        { id: '3', start: 5, end: 13, lines: ['The sun was out.'] },
+    ]);
+    expect(parseSubtitles(vtt)).toEqual([
+        { id: 'intro', start: 1, end: 3, lines: ['The dog ran', 'to the park.'] },
+        { id: '', start: 3.5, end: 4.5, lines: ['It was a big dog & it was happy.'] },
+    ]);
+    expect(parseSubtitles('01:02:03.250 --> 01:02:04.5\nLate.')[0]).toMatchObject({ start: 3723.25, end: 3724.5 });
+    expect(parseSubtitles('Just some text.')).toEqual([]);
+});
+
+test('measures the reading speed of every cue', () => {
+    const { cues }: SubtitleAnalysis = readability.analyzeSubtitles(srt);
+
+    expect(cues[0]).toMatchObject({ duration: 2, characters: 24, words: 6, charactersPerSecond: 12, wordsPerMinute: 180, flags: [] });
+    expect(cues[1]).toMatchObject({ duration: 1, characters: 45, words: 11, charactersPerSecond: 45, wordsPerMinute: 660 });
+    expect(cues[1].flags).toEqual(['charactersPerSecond', 'wordsPerMinute', 'lineLength']);
+    expect(cues[2].flags).toEqual(['tooLong']);
+    expect(readingRate(0, 0, 1)).toBe(0);
+    expect(readingRate(10, 0, 1)).toBe(Infinity);
+});
+
+test('flags cues over custom limits', () => {
+    const report: SubtitleAnalysis = readability.analyzeSubtitles(vtt, { maxCharactersPerSecond: 50, maxWordsPerMinute: 600, maxLines: 1 });
+
+    expect(report.cues.map(cue => cue.flags)).toEqual([['lines'], []]);
+    expect(report.cues[0].maxLineLength).toBe(12);
+    expect(report.flagged).toBe(1);
+    expect(readability.analyzeSubtitles(srt).flagged).toBe(2);
+});
+
+test('scores the joined transcript', () => {
+    const report: SubtitleAnalysis = readability.analyzeSubtitles(srt);
+
+    expect(report.transcript).toBe('The dog ran to the park. It was a big dog and it was very, very happy. The sun was out.');
+    expect(report.scores).toEqual(readability.analyze(report.transcript).scores);
+    expect(report.counts.sentences).toBe(3);
+});
@@ -0,0 +1,51 @@
+import readability, { Readability } from '../src';
+import { lookupSyllables } from '../src/dictionary';
+
+const split = (word: string, instance: Readability = readability, lang?: string): string =>
+    instance.syllabify(word, lang).join('·');
+
+test('splits English words between their vowel groups', () => {
+    expect(split('readability')).toBe('read·a·bil·i·ty');
+    expect(split('little')).toBe('lit·tle');
+    expect(split('table')).toBe('ta·ble');
+    expect(split('pocket')).toBe('pock·et');
+    expect(split('monster')).toBe('mon·ster');
+});
+
+test('splits common suffixes the way dictionaries do', () => {
+    expect(split('acidity')).toBe('a·cid·i·ty');
+    expect(split('visible')).toBe('vis·i·ble');
+    expect(split('reading')).toBe('read·ing');
+    expect(split('running')).toBe('run·ning');
+    expect(split('city')).toBe('ci·ty');
+});
+
+test('merges silent syllables and splits vowels pronounced apart', () => {
+    expect(split('cake')).toBe('cake');
+    expect(split('jumped')).toBe('jumped');
+    expect(split('lovely')).toBe('love·ly');
+    expect(split('created')).toBe('cre·a·ted');
+    expect(split('idea')).toBe('i·de·a');
+});
+
+test('keeps the case of the word and leaves punctuation out', () => {
+    expect(split('Readability')).toBe('Read·a·bil·i·ty');
+    expect(split('well-known')).toBe('well·known');
+    expect(readability.syllabify('')).toEqual([]);
+});
+
+test('splits other languages with their hyphenation patterns', () => {
+    expect(split('Silbentrennung', readability, 'de')).toBe('Sil·ben·tren·nung');
+    expect(split('молоко', new Readability({ language: 'ru' }))).toBe('мо·ло·ко');
+});
+
+test('always has as many syllables as syllableCount', () => {
+    const dictionary = new Readability({ dictionary: lookupSyllables });
+    const custom = new Readability({ syllableCounter: word => word.length });
+    const words = ['chocolate', 'every', 'business', 'rhythm', 'queue', 'extraordinary', 'naive', 'abc', 'readability', 'running'];
+    for (const instance of [readability, dictionary, custom]) {
+        for (const word of words) {
+            expect([word, instance.syllabify(word).length]).toEqual([word, instance.syllableCount(word)]);
+        }
+    }
+});
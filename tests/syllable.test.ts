@@ -0,0 +1,65 @@
+import syllable, { countWordSyllables } from '../src/syllable';
+
+const words: Record<string, number> = {
+    // vowel groups
+    cat: 1,
+    hello: 2,
+    chocolate: 3,
+    // silent e and -le
+    cake: 1,
+    theme: 1,
+    lovely: 2,
+    table: 2,
+    little: 2,
+    apple: 2,
+    humbly: 2,
+    // -ed
+    jumped: 1,
+    asked: 1,
+    called: 1,
+    wanted: 2,
+    created: 3,
+    // -es
+    cakes: 1,
+    curves: 1,
+    buses: 2,
+    wages: 2,
+    // vowels pronounced apart or together
+    idea: 3,
+    lion: 2,
+    quiet: 2,
+    social: 2,
+    patience: 2,
+    // prefixes and suffixes
+    unhappiness: 4,
+    forefathers: 3,
+    biology: 4,
+    astronomy: 4,
+    // exceptions, and their plurals
+    people: 2,
+    hyperbole: 4,
+    recipe: 3,
+    cafes: 2,
+    anemones: 4,
+    // not in the exception dictionary, even if Object.prototype has them
+    constructor: 3,
+};
+
+test('counts the syllables of known words', () => {
+    for (const [word, expected] of Object.entries(words)) {
+        expect([word, countWordSyllables(word)]).toEqual([word, expected]);
+    }
+});
+
+test('counts empty and short words', () => {
+    expect(countWordSyllables('')).toBe(0);
+    expect(countWordSyllables('a')).toBe(1);
+    expect(countWordSyllables('rhythm')).toBe(2);
+});
+
+test('counts texts, ignoring diacritics, apostrophes and punctuation', () => {
+    expect(syllable('The quick brown fox.')).toBe(4);
+    expect(syllable('café')).toBe(syllable('cafe'));
+    expect(syllable("don't")).toBe(1);
+    expect(syllable('')).toBe(0);
+});
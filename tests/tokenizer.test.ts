@@ -0,0 +1,56 @@
+import readability, { Readability } from '../src';
+
+test('splits at any whitespace, dashes and slashes', () => {
+    expect(Readability.split('one\ttwo three—four–five and/or six')).toEqual(
+        ['one', 'two', 'three', 'four', 'five', 'and', 'or', 'six'],
+    );
+});
+
+test('keeps contractions, possessives, compounds and numbers together', () => {
+    expect(Readability.split("Don't split well-known words—or John’s 3.14 and 1,000.")).toEqual(
+        ["Don't", 'split', 'well-known', 'words', 'or', 'John’s', '3.14', 'and', '1,000'],
+    );
+});
+
+test('punctuation is never a word', () => {
+    expect(Readability.split('Wait — what?! ... (yes)')).toEqual(['Wait', 'what', 'yes']);
+    expect(readability.lexiconCount('Wait — what?! ... (yes)')).toBe(3);
+});
+
+test('only a custom tokenizer returns punctuation, which removePunctuation leaves out', () => {
+    const text = 'Wait — what?!';
+    expect(readability.lexiconCount(text, false)).toBe(readability.lexiconCount(text));
+
+    const spaces = new Readability({ tokenizer: { tokenize: (input: string) => input.split(/\s+/) } });
+    expect(spaces.lexiconCount(text)).toBe(2);
+    expect(spaces.lexiconCount(text, false)).toBe(3);
+});
+
+test('splits with a regular expression where Intl.Segmenter is missing', () => {
+    const intl = Intl as unknown as { Segmenter?: unknown };
+    const segmenter: unknown = intl.Segmenter;
+    delete intl.Segmenter;
+    try {
+        jest.isolateModules(() => {
+            const { tokenize } = require('../src/tokenizer');
+            expect(tokenize("Don't split well-known words—or John’s 3.14 and/or 1,000. Wait — what?!")).toEqual(
+                ["Don't", 'split', 'well-known', 'words', 'or', 'John’s', '3.14', 'and', 'or', '1,000', 'Wait', 'what'],
+            );
+            expect(tokenize('我喜欢读书。')).toEqual(['我', '喜', '欢', '读', '书']);
+        });
+    } finally {
+        intl.Segmenter = segmenter;
+    }
+});
+
+test('splits Chinese text into words', () => {
+    expect(Readability.split('我喜欢读书。').length).toBeGreaterThan(1);
+});
+
+test('every count uses the same words', () => {
+    const text = 'The well-known author didn’t write—she dictated.';
+    const { counts } = readability.analyze(text);
+    expect(counts.words).toBe(readability.lexiconCount(text));
+    expect(counts.syllables).toBe(readability.syllableCount(text));
+    expect(readability.difficultWordList(text).map(word => word.word)).toContain('well-known');
+});
@@ -0,0 +1,65 @@
+import readability, { Readability } from '../src';
+import { cardinal, ordinal, verbalize } from '../src/verbalize';
+
+test('spells out cardinal and ordinal numbers', () => {
+    expect(cardinal('0')).toBe('zero');
+    expect(cardinal('42')).toBe('forty-two');
+    expect(cardinal('1200')).toBe('one thousand two hundred');
+    expect(cardinal('3000005')).toBe('three million five');
+    expect(ordinal('1')).toBe('first');
+    expect(ordinal('12')).toBe('twelfth');
+    expect(ordinal('23')).toBe('twenty-third');
+    expect(ordinal('40')).toBe('fortieth');
+    expect(ordinal('100')).toBe('one hundredth');
+});
+
+test('reads numbers, years, money and percentages the way they are said', () => {
+    expect(verbalize('1,200 people')).toBe('one thousand two hundred people');
+    expect(verbalize('pi is 3.14')).toBe('pi is three point one four');
+    expect(verbalize('in 1999 and 2005')).toBe('in nineteen ninety-nine and two thousand five');
+    expect(verbalize('from 1900 to 1905')).toBe('from nineteen hundred to nineteen oh five');
+    expect(verbalize('$4.5M')).toBe('four point five million dollars');
+    expect(verbalize('$3.50 or €1')).toBe('three dollars and fifty cents or one euro');
+    expect(verbalize('£0.99')).toBe('ninety-nine pence');
+    expect(verbalize('-$20')).toBe('minus twenty dollars');
+    expect(verbalize('up 50%')).toBe('up fifty percent');
+    expect(verbalize('the 3rd time')).toBe('the third time');
+    expect(verbalize('-5 and 1,999')).toBe('minus five and one thousand nine hundred ninety-nine');
+    expect(verbalize('Pay $1.5 or $1.50')).toBe('Pay one point five dollars or one dollar and fifty cents');
+});
+
+test('reads a magnitude suffix only when it is a word of its own', () => {
+    expect(verbalize('Buy a $10 t-shirt.')).toBe('Buy a ten dollars t-shirt.');
+    expect(verbalize('a $5 bill')).toBe('a five dollars bill');
+    expect(verbalize('$2 m, $3 bn.')).toBe('two million dollars, three billion dollars.');
+});
+
+test('leaves versions, ranges and phone numbers as they are', () => {
+    expect(verbalize('Version 2.0.1')).toBe('Version 2.0.1');
+    expect(verbalize('From 1990-1999')).toBe('From 1990-1999');
+    expect(verbalize('Call 555-1234')).toBe('Call 555-1234');
+    expect(verbalize('1,200-1,300 and 10–20 people')).toBe('1,200-1,300 and 10–20 people');
+    expect(verbalize('-5 and 3.14')).toBe('minus five and three point one four');
+});
+
+test('spells out common symbols', () => {
+    expect(verbalize('R&D')).toBe('R and D');
+    expect(verbalize('2 + 2 = 4')).toBe('two plus two equals four');
+    expect(verbalize('30° outside')).toBe('thirty degrees outside');
+    expect(verbalize('#1 hit')).toBe('number one hit');
+    expect(verbalize('no numbers here.')).toBe('no numbers here.');
+});
+
+test('counts spelled out numbers when enabled on the instance', () => {
+    const text: string = 'Revenue grew 50% to $4.5M in 1999.';
+    const verbalizing: Readability = new Readability({ verbalizeNumbers: true });
+
+    expect(readability.syllableCount('1,200')).toBe(0);
+    expect(verbalizing.syllableCount('1,200')).toBe(6);
+    expect(readability.lexiconCount(text)).toBe(7);
+    expect(verbalizing.lexiconCount(text)).toBe(13);
+    expect(verbalizing.syllableReport('$4.5M').words.map(word => word.word))
+        .toEqual(['four', 'point', 'five', 'million', 'dollars']);
+    expect(verbalizing.analyze(text).counts.words).toBe(verbalizing.lexiconCount(text));
+    expect(verbalizing.fleschReadingEase(text)).toBeLessThan(readability.fleschReadingEase(text));
+});
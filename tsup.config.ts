@@ -1,10 +1,26 @@
+import type { Plugin } from "esbuild";
 import { defineConfig } from "tsup";
 
+// documents extends the Readability class of the main entry, so it imports that entry instead of bundling
+// a copy of it: the class, and instanceof checks against it, are the same from every entry.
+const mainEntry: Plugin = {
+    name: "main-entry",
+    setup(build) {
+        build.onResolve({ filter: /^\.\/index$/ }, args => {
+            if (!/documents\.ts$/.test(args.importer)) return undefined;
+            return { path: build.initialOptions.format === "esm" ? "./module.mjs" : "./index.js", external: true };
+        });
+    },
+};
+
 export default defineConfig({
-    entry: ["src/index.ts"],
+    // index is the CommonJS entry; module re-exports it with named exports for ES modules.
+    // documents reads Word and EPUB files with zlib, and dictionary holds the CMU dictionary, so each is an entry of its own.
+    entry: ["src/index.ts", "src/module.ts", "src/documents.ts", "src/dictionary.ts"],
     format: ["cjs", "esm"], // Build for commonJS and ESmodules
     dts: true, // Generate declaration file (.d.ts)
     splitting: false,
     sourcemap: true,
     clean: true,
-});
\ No newline at end of file
+    esbuildPlugins: [mainEntry],
+});